@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title IBridgeAdapter
+ * @dev Moves one token between chains. Bridgeable tokens accept mints and burns from a single adapter,
+ * so the messaging layer behind it (a signing relayer, LayerZero, ...) is swapped by deploying another
+ * adapter with this interface and pointing the token at it
+ */
+interface IBridgeAdapter {
+    event TokensSent(uint256 indexed nonce, uint256 indexed dstChainId, address indexed from, address to, uint256 amount);
+    event TokensReceived(uint256 indexed srcChainId, uint256 indexed nonce, address indexed to, uint256 amount);
+
+    function token() external view returns (address);
+
+    // Native fee the messaging layer charges for delivering a transfer to `dstChainId`
+    function quoteSend(uint256 dstChainId, uint256 amount) external view returns (uint256);
+
+    function sendTokens(uint256 dstChainId, address to, uint256 amount) external payable returns (uint256);
+}
+
+// Implemented by tokens generated with the bridgeable feature
+interface IBridgeableToken {
+    function bridgeMint(address to, uint256 amount) external;
+    function bridgeBurn(address from, uint256 amount) external;
+}
+
+/**
+ * @title RelayerBridgeAdapter
+ * @dev Bridge adapter whose transfers are delivered by a trusted relayer. On chains with a bridgeable
+ * token it burns on send and mints on receipt; for a token without a bridge role (usually on its home
+ * chain) it locks sent tokens and releases them when they come back
+ */
+contract RelayerBridgeAdapter is IBridgeAdapter, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    address public immutable override token;
+    bool public immutable lockRelease;
+
+    address public relayer;
+    uint256 public relayerFee; // Paid by the sender and forwarded to the relayer for destination gas
+    uint256 public nonce;
+
+    mapping(uint256 => address) public peers; // Chain ID => adapter for the same token on that chain
+    mapping(uint256 => mapping(uint256 => bool)) public received; // Source chain ID => nonce => delivered
+
+    event RelayerUpdated(address indexed relayer, uint256 fee);
+    event PeerUpdated(uint256 indexed chainId, address peer);
+
+    constructor(address token_, bool lockRelease_, address relayer_, address owner_) {
+        require(token_ != address(0), "Invalid token");
+        require(relayer_ != address(0), "Invalid relayer");
+        token = token_;
+        lockRelease = lockRelease_;
+        relayer = relayer_;
+        _transferOwnership(owner_);
+    }
+
+    function setRelayer(address relayer_, uint256 fee) external onlyOwner {
+        require(relayer_ != address(0), "Invalid relayer");
+        relayer = relayer_;
+        relayerFee = fee;
+        emit RelayerUpdated(relayer_, fee);
+    }
+
+    function setPeer(uint256 chainId, address peer) external onlyOwner {
+        require(chainId != block.chainid, "Cannot peer with own chain");
+        peers[chainId] = peer;
+        emit PeerUpdated(chainId, peer);
+    }
+
+    function quoteSend(uint256, uint256) external view override returns (uint256) {
+        return relayerFee;
+    }
+
+    function sendTokens(uint256 dstChainId, address to, uint256 amount) external payable override nonReentrant returns (uint256) {
+        require(peers[dstChainId] != address(0), "Unsupported destination chain");
+        require(to != address(0), "Invalid recipient");
+        require(amount > 0, "Amount must be greater than 0");
+        require(msg.value == relayerFee, "Incorrect relayer fee");
+
+        if (lockRelease) {
+            // Fee-on-transfer tokens deliver less than `amount`; only what arrived is bridged
+            uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+            IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+            amount = IERC20(token).balanceOf(address(this)) - balanceBefore;
+        } else {
+            IBridgeableToken(token).bridgeBurn(msg.sender, amount);
+        }
+
+        if (msg.value > 0) {
+            (bool sent, ) = payable(relayer).call{value: msg.value}("");
+            require(sent, "Relayer fee transfer failed");
+        }
+
+        nonce++;
+        emit TokensSent(nonce, dstChainId, msg.sender, to, amount);
+        return nonce;
+    }
+
+    // Signed by the relayer; it names both chains and both adapters, so a signature is only valid here
+    function getTransferHash(uint256 srcChainId, uint256 transferNonce, address to, uint256 amount) public view returns (bytes32) {
+        return keccak256(abi.encode(srcChainId, peers[srcChainId], block.chainid, address(this), transferNonce, to, amount));
+    }
+
+    function receiveTokens(
+        uint256 srcChainId,
+        uint256 transferNonce,
+        address to,
+        uint256 amount,
+        bytes calldata signature
+    ) external nonReentrant {
+        require(peers[srcChainId] != address(0), "Unsupported source chain");
+        require(!received[srcChainId][transferNonce], "Transfer already received");
+
+        bytes32 digest = ECDSA.toEthSignedMessageHash(getTransferHash(srcChainId, transferNonce, to, amount));
+        require(ECDSA.recover(digest, signature) == relayer, "Invalid relayer signature");
+        received[srcChainId][transferNonce] = true;
+
+        if (lockRelease) {
+            IERC20(token).safeTransfer(to, amount);
+        } else {
+            IBridgeableToken(token).bridgeMint(to, amount);
+        }
+
+        emit TokensReceived(srcChainId, transferNonce, to, amount);
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockBridgeableToken
+ * @dev Minimal stand-in for a generated bridgeable token, used by the local two-chain bridge setup
+ */
+contract MockBridgeableToken is ERC20, Ownable {
+    address public bridge;
+
+    constructor(string memory name, string memory symbol, uint256 initialSupply) ERC20(name, symbol) {
+        _mint(msg.sender, initialSupply);
+    }
+
+    function setBridge(address newBridge) external onlyOwner {
+        bridge = newBridge;
+    }
+
+    function bridgeMint(address to, uint256 amount) external {
+        require(msg.sender == bridge, "Caller is not the bridge");
+        _mint(to, amount);
+    }
+
+    function bridgeBurn(address from, uint256 amount) external {
+        require(msg.sender == bridge, "Caller is not the bridge");
+        _spendAllowance(from, msg.sender, amount);
+        _burn(from, amount);
+    }
+}
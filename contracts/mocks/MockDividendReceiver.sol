@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+interface IDividendToken {
+    function claimDividends() external;
+}
+
+/**
+ * @title MockDividendReceiver
+ * @dev Contract holder whose receive function needs more than a stipend's gas
+ */
+contract MockDividendReceiver {
+    uint256 public received;
+
+    receive() external payable {
+        received += msg.value;
+    }
+
+    function claim(address token) external {
+        IDividendToken(token).claimDividends();
+    }
+}
+
+/**
+ * @title MockRewardToken
+ * @dev Freely mintable ERC-20 for dividends paid in a reward token
+ */
+contract MockRewardToken is ERC20 {
+    constructor() ERC20("Reward", "RWD") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/**
+ * @title MockUniswapV2Pair
+ * @dev Holds a token's pool balance; anyone can take tokens out of it to simulate a buy
+ */
+contract MockUniswapV2Pair {
+    function buy(address token, address to, uint256 amount) external {
+        IERC20(token).transfer(to, amount);
+    }
+}
+
+/**
+ * @title MockUniswapV2Router
+ * @dev Router and factory in one for the generated tokens' tax swap-back, trading at fixed prices
+ */
+contract MockUniswapV2Router {
+    address public immutable WETH = address(0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE);
+    uint256 public tokensPerEth = 1000;
+    mapping(address => address) public pairs;
+
+    receive() external payable {}
+
+    function factory() external view returns (address) {
+        return address(this);
+    }
+
+    function createPair(address tokenA, address) external returns (address pair) {
+        pair = address(new MockUniswapV2Pair());
+        pairs[tokenA] = pair;
+    }
+
+    function setTokensPerEth(uint256 rate) external {
+        tokensPerEth = rate;
+    }
+
+    function swapExactTokensForETHSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256,
+        address[] calldata path,
+        address to,
+        uint256
+    ) external {
+        IERC20(path[0]).transferFrom(msg.sender, pairs[path[0]], amountIn);
+        payable(to).transfer(amountIn / tokensPerEth);
+    }
+
+    // Pays out of the router's own balance of the reward token
+    function swapExactETHForTokensSupportingFeeOnTransferTokens(
+        uint256,
+        address[] calldata path,
+        address to,
+        uint256
+    ) external payable {
+        IERC20(path[1]).transfer(to, msg.value * tokensPerEth);
+    }
+
+    function addLiquidityETH(
+        address token,
+        uint256 amountTokenDesired,
+        uint256,
+        uint256,
+        address,
+        uint256
+    ) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity) {
+        IERC20(token).transferFrom(msg.sender, pairs[token], amountTokenDesired);
+        return (amountTokenDesired, msg.value, 0);
+    }
+}
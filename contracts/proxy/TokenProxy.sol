@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// Compiled alongside the tokens so deployment scripts can put upgradeable tokens behind an ERC-1967 proxy
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
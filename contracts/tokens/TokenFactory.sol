@@ -5,14 +5,15 @@ import "./BasicToken.sol";
 import "./BurnableToken.sol";
 import "./MintableToken.sol";
 import "./BurnableMintableToken.sol";
-import "./FeeToken.sol";
-import "./RedistributionToken.sol";
-import "./AdvancedToken.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
  * @title TokenFactory
- * @dev Factory contract for creating various token types with reduced gas costs
+ * @dev Factory contract for creating various token types with reduced gas costs.
+ * Tokens are created with CREATE2, so the same salt and constructor arguments give the
+ * same token address on every chain the factory is deployed to at the same address.
+ * The token templates it imports are generated from the app's token generator with
+ * `npm run build:factory`, so factory tokens are the contracts the app deploys directly.
  */
 contract TokenFactory is Ownable {
     struct TokenInfo {
@@ -38,8 +39,10 @@ contract TokenFactory is Ownable {
     event CreationFeeUpdated(uint256 newFee);
     event FeeReceiverUpdated(address newReceiver);
 
-    constructor(address _feeReceiver) {
+    // The owner is explicit because deterministic deployments are sent through a CREATE2 deployer
+    constructor(address _feeReceiver, address initialOwner) {
         feeReceiver = _feeReceiver;
+        _transferOwnership(initialOwner);
     }
 
     /**
@@ -50,17 +53,19 @@ contract TokenFactory is Ownable {
         string memory symbol,
         uint8 decimals,
         uint256 initialSupply,
-        uint256 maxSupply
+        uint256 maxSupply,
+        address tokenOwner,
+        bytes32 salt
     ) external payable returns (address) {
         require(msg.value >= creationFee, "Insufficient creation fee");
         
-        BasicToken token = new BasicToken(
+        BasicToken token = new BasicToken{salt: salt}(
             name,
             symbol,
             decimals,
             initialSupply,
             maxSupply,
-            msg.sender
+            tokenOwner
         );
         
         _registerToken(address(token), "BasicToken");
@@ -76,17 +81,19 @@ contract TokenFactory is Ownable {
         string memory symbol,
         uint8 decimals,
         uint256 initialSupply,
-        uint256 maxSupply
+        uint256 maxSupply,
+        address tokenOwner,
+        bytes32 salt
     ) external payable returns (address) {
         require(msg.value >= creationFee, "Insufficient creation fee");
         
-        BurnableToken token = new BurnableToken(
+        BurnableToken token = new BurnableToken{salt: salt}(
             name,
             symbol,
             decimals,
             initialSupply,
             maxSupply,
-            msg.sender
+            tokenOwner
         );
         
         _registerToken(address(token), "BurnableToken");
@@ -102,17 +109,19 @@ contract TokenFactory is Ownable {
         string memory symbol,
         uint8 decimals,
         uint256 initialSupply,
-        uint256 maxSupply
+        uint256 maxSupply,
+        address tokenOwner,
+        bytes32 salt
     ) external payable returns (address) {
         require(msg.value >= creationFee, "Insufficient creation fee");
         
-        MintableToken token = new MintableToken(
+        MintableToken token = new MintableToken{salt: salt}(
             name,
             symbol,
             decimals,
             initialSupply,
             maxSupply,
-            msg.sender
+            tokenOwner
         );
         
         _registerToken(address(token), "MintableToken");
@@ -124,114 +133,26 @@ contract TokenFactory is Ownable {
      * @dev Create a burnable and mintable token
      */
     function createBurnableMintableToken(
-        string memory name,
-        string memory symbol,
-        uint8 decimals,
-        uint256 initialSupply,
-        uint256 maxSupply
-    ) external payable returns (address) {
-        require(msg.value >= creationFee, "Insufficient creation fee");
-        
-        BurnableMintableToken token = new BurnableMintableToken(
-            name,
-            symbol,
-            decimals,
-            initialSupply,
-            maxSupply,
-            msg.sender
-        );
-        
-        _registerToken(address(token), "BurnableMintableToken");
-        
-        return address(token);
-    }
-
-    /**
-     * @dev Create a fee token
-     */
-    function createFeeToken(
         string memory name,
         string memory symbol,
         uint8 decimals,
         uint256 initialSupply,
         uint256 maxSupply,
-        uint256 feePercentage,
-        address feeRecipient
+        address tokenOwner,
+        bytes32 salt
     ) external payable returns (address) {
         require(msg.value >= creationFee, "Insufficient creation fee");
         
-        FeeToken token = new FeeToken(
+        BurnableMintableToken token = new BurnableMintableToken{salt: salt}(
             name,
             symbol,
             decimals,
             initialSupply,
             maxSupply,
-            feePercentage,
-            feeRecipient,
-            msg.sender
+            tokenOwner
         );
         
-        _registerToken(address(token), "FeeToken");
-        
-        return address(token);
-    }
-
-    /**
-     * @dev Create a redistribution token
-     */
-    function createRedistributionToken(
-        string memory name,
-        string memory symbol,
-        uint8 decimals,
-        uint256 initialSupply,
-        uint256 maxSupply,
-        uint256 redistributionPercentage
-    ) external payable returns (address) {
-        require(msg.value >= creationFee, "Insufficient creation fee");
-        
-        RedistributionToken token = new RedistributionToken(
-            name,
-            symbol,
-            decimals,
-            initialSupply,
-            maxSupply,
-            redistributionPercentage,
-            msg.sender
-        );
-        
-        _registerToken(address(token), "RedistributionToken");
-        
-        return address(token);
-    }
-
-    /**
-     * @dev Create an advanced token with all features
-     */
-    function createAdvancedToken(
-        string memory name,
-        string memory symbol,
-        uint8 decimals,
-        uint256 initialSupply,
-        uint256 maxSupply,
-        uint256 feePercentage,
-        address feeRecipient,
-        uint256 redistributionPercentage
-    ) external payable returns (address) {
-        require(msg.value >= creationFee, "Insufficient creation fee");
-        
-        AdvancedToken token = new AdvancedToken(
-            name,
-            symbol,
-            decimals,
-            initialSupply,
-            maxSupply,
-            feePercentage,
-            feeRecipient,
-            redistributionPercentage,
-            msg.sender
-        );
-        
-        _registerToken(address(token), "AdvancedToken");
+        _registerToken(address(token), "BurnableMintableToken");
         
         return address(token);
     }
@@ -258,6 +179,34 @@ contract TokenFactory is Ownable {
         emit TokenCreated(msg.sender, tokenAddress, tokenType, block.timestamp);
     }
 
+    /**
+     * @dev Hash of a token type's creation code with its ABI-encoded constructor arguments
+     */
+    function getInitCodeHash(string memory tokenType, bytes memory constructorArgs) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(_creationCode(tokenType), constructorArgs));
+    }
+
+    /**
+     * @dev Address a token with the given init code hash will be created at for a salt
+     */
+    function predictTokenAddress(bytes32 salt, bytes32 initCodeHash) public view returns (address) {
+        return address(uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), salt, initCodeHash)))));
+    }
+
+    /**
+     * @dev Creation code of a token type deployed by this factory
+     */
+    function _creationCode(string memory tokenType) internal pure returns (bytes memory) {
+        bytes32 typeHash = keccak256(bytes(tokenType));
+        
+        if (typeHash == keccak256("BasicToken")) return type(BasicToken).creationCode;
+        if (typeHash == keccak256("BurnableToken")) return type(BurnableToken).creationCode;
+        if (typeHash == keccak256("MintableToken")) return type(MintableToken).creationCode;
+        if (typeHash == keccak256("BurnableMintableToken")) return type(BurnableMintableToken).creationCode;
+        
+        revert("Unsupported token type");
+    }
+
     /**
      * @dev Get tokens created by a specific address
      */
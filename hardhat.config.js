@@ -14,7 +14,8 @@ module.exports = {
   },
   networks: {
     hardhat: {
-      chainId: 1337
+      // A second local node for bridge testing runs with HARDHAT_CHAIN_ID=1338
+      chainId: Number(process.env.HARDHAT_CHAIN_ID) || 1337
     },
     ethereum: {
       url: process.env.ETHEREUM_RPC_URL || "https://mainnet.infura.io/v3/YOUR_INFURA_KEY",
@@ -0,0 +1,78 @@
+// Bridges a token between two local Hardhat nodes:
+//
+//   npx hardhat node --port 8545
+//   HARDHAT_CHAIN_ID=1338 npx hardhat node --port 8546
+//   npx hardhat run scripts/bridge-local.js
+//
+// Chain A keeps its token behind a lock/release adapter, chain B has a bridgeable token behind a
+// burn/mint adapter. Tokens go from A to B and half of them back, with the relayer delivering both.
+const hre = require("hardhat");
+const { ethers } = require("ethers");
+const { connectChains, relayPending } = require("./bridge-relayer");
+
+const CHAIN_A_RPC = process.env.BRIDGE_CHAIN_A_RPC || "http://127.0.0.1:8545";
+const CHAIN_B_RPC = process.env.BRIDGE_CHAIN_B_RPC || "http://127.0.0.1:8546";
+// Hardhat's second default account, funded on both nodes
+const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY || "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+async function deploy(signer, contractName, args) {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const contract = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract;
+}
+
+async function main() {
+  const providerA = new ethers.JsonRpcProvider(CHAIN_A_RPC);
+  const providerB = new ethers.JsonRpcProvider(CHAIN_B_RPC);
+  const [{ chainId: chainIdA }, { chainId: chainIdB }] = await Promise.all([providerA.getNetwork(), providerB.getNetwork()]);
+
+  if (chainIdA === chainIdB) {
+    throw new Error(`Both nodes use chain ID ${chainIdA}; start the second one with HARDHAT_CHAIN_ID=1338`);
+  }
+
+  const deployerA = await providerA.getSigner(0);
+  const deployerB = await providerB.getSigner(0);
+  const relayer = new ethers.Wallet(RELAYER_PRIVATE_KEY);
+  const initialSupply = ethers.parseEther("1000000");
+
+  const tokenA = await deploy(deployerA, "MockBridgeableToken", ["Bridge Test", "BRT", initialSupply]);
+  const tokenB = await deploy(deployerB, "MockBridgeableToken", ["Bridge Test", "BRT", 0]);
+  const adapterA = await deploy(deployerA, "RelayerBridgeAdapter", [tokenA.target, true, relayer.address, deployerA.address]);
+  const adapterB = await deploy(deployerB, "RelayerBridgeAdapter", [tokenB.target, false, relayer.address, deployerB.address]);
+
+  await (await tokenB.setBridge(adapterB.target)).wait();
+  await (await adapterA.setPeer(chainIdB, adapterB.target)).wait();
+  await (await adapterB.setPeer(chainIdA, adapterA.target)).wait();
+  console.log(`Chain ${chainIdA}: token ${tokenA.target}, lock/release adapter ${adapterA.target}`);
+  console.log(`Chain ${chainIdB}: token ${tokenB.target}, burn/mint adapter ${adapterB.target}`);
+
+  const chains = await connectChains([CHAIN_A_RPC, CHAIN_B_RPC], [adapterA.target, adapterB.target], RELAYER_PRIVATE_KEY);
+  const amount = ethers.parseEther("1000");
+
+  await (await tokenA.approve(adapterA.target, amount)).wait();
+  await (await adapterA.sendTokens(chainIdB, deployerB.address, amount)).wait();
+  await relayPending(chains);
+
+  // Burns spend an allowance like the lock/release adapter's transfers
+  await (await tokenB.approve(adapterB.target, amount / 2n)).wait();
+  await (await adapterB.sendTokens(chainIdA, deployerA.address, amount / 2n)).wait();
+  await relayPending(chains);
+
+  const [lockedA, supplyB] = await Promise.all([tokenA.balanceOf(adapterA.target), tokenB.totalSupply()]);
+  console.log(`Locked on chain ${chainIdA}: ${ethers.formatEther(lockedA)} BRT`);
+  console.log(`Supply on chain ${chainIdB}: ${ethers.formatEther(supplyB)} BRT`);
+
+  // Everything minted on B is backed by tokens locked on A
+  if (lockedA !== amount / 2n || supplyB !== amount / 2n) {
+    throw new Error("Bridged supply does not match the locked supply");
+  }
+  console.log("Bridge round trip succeeded");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,105 @@
+// Relayer for RelayerBridgeAdapter: watches each adapter for TokensSent events and delivers every
+// transfer to the adapter on the destination chain with a receiveTokens call signed by the relayer.
+//
+//   BRIDGE_RPC_URLS      comma-separated RPC URLs, one per chain
+//   BRIDGE_ADAPTERS      comma-separated adapter addresses, in the same order as the RPC URLs
+//   RELAYER_PRIVATE_KEY  key of the relayer set on the adapters; it also pays destination gas
+const { ethers } = require("ethers");
+
+const ADAPTER_ABI = [
+  "event TokensSent(uint256 indexed nonce, uint256 indexed dstChainId, address indexed from, address to, uint256 amount)",
+  "function getTransferHash(uint256 srcChainId, uint256 transferNonce, address to, uint256 amount) view returns (bytes32)",
+  "function received(uint256 srcChainId, uint256 nonce) view returns (bool)",
+  "function receiveTokens(uint256 srcChainId, uint256 transferNonce, address to, uint256 amount, bytes signature)"
+];
+
+const POLL_INTERVAL_MS = Number(process.env.BRIDGE_POLL_INTERVAL_MS) || 5000;
+
+// One adapter per chain, keyed by chain ID
+async function connectChains(rpcUrls, adapterAddresses, privateKey) {
+  const chains = {};
+
+  for (let i = 0; i < rpcUrls.length; i++) {
+    // Without the request cache a poll right after another still sees the latest block
+    const provider = new ethers.JsonRpcProvider(rpcUrls[i], undefined, { cacheTimeout: -1 });
+    const { chainId } = await provider.getNetwork();
+    const relayer = new ethers.Wallet(privateKey, provider);
+
+    chains[chainId.toString()] = {
+      chainId,
+      provider,
+      adapter: new ethers.Contract(adapterAddresses[i], ADAPTER_ABI, relayer),
+      fromBlock: 0
+    };
+  }
+
+  return chains;
+}
+
+// Transfers that already arrived are skipped, so relaying the same event again is harmless
+async function relayTransfer(chains, srcChainId, event) {
+  const { nonce, dstChainId, to, amount } = event.args;
+  const destination = chains[dstChainId.toString()];
+
+  if (!destination) {
+    console.warn(`No adapter configured for chain ${dstChainId}, skipping transfer ${nonce} from chain ${srcChainId}`);
+    return null;
+  }
+
+  if (await destination.adapter.received(srcChainId, nonce)) {
+    return null;
+  }
+
+  const hash = await destination.adapter.getTransferHash(srcChainId, nonce, to, amount);
+  const signature = await destination.adapter.runner.signMessage(ethers.getBytes(hash));
+  const tx = await destination.adapter.receiveTokens(srcChainId, nonce, to, amount, signature);
+  await tx.wait();
+
+  console.log(`Delivered transfer ${nonce} from chain ${srcChainId}: ${amount} to ${to} on chain ${dstChainId} (${tx.hash})`);
+  return tx.hash;
+}
+
+// Delivers everything sent since the previous poll; a failed chain is retried from the same block next time
+async function relayPending(chains) {
+  for (const source of Object.values(chains)) {
+    const latestBlock = await source.provider.getBlockNumber();
+    if (latestBlock < source.fromBlock) continue;
+
+    const events = await source.adapter.queryFilter("TokensSent", source.fromBlock, latestBlock);
+    for (const event of events) {
+      await relayTransfer(chains, source.chainId, event);
+    }
+
+    source.fromBlock = latestBlock + 1;
+  }
+}
+
+async function main() {
+  const rpcUrls = (process.env.BRIDGE_RPC_URLS || "").split(",").filter(Boolean);
+  const adapterAddresses = (process.env.BRIDGE_ADAPTERS || "").split(",").filter(Boolean);
+
+  if (rpcUrls.length < 2 || rpcUrls.length !== adapterAddresses.length || !process.env.RELAYER_PRIVATE_KEY) {
+    throw new Error("Set RELAYER_PRIVATE_KEY, BRIDGE_RPC_URLS and BRIDGE_ADAPTERS with one adapter per RPC URL");
+  }
+
+  const chains = await connectChains(rpcUrls, adapterAddresses, process.env.RELAYER_PRIVATE_KEY);
+  console.log(`Relaying between chains ${Object.keys(chains).join(", ")}`);
+
+  for (;;) {
+    try {
+      await relayPending(chains);
+    } catch (error) {
+      console.error("Relaying failed, retrying:", error.message);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+module.exports = { connectChains, relayTransfer, relayPending };
@@ -0,0 +1,74 @@
+import { createServer } from 'vite';
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+// Precompiles the most used contracts into src/services/contractBytecode.ts so the app can deploy them
+// without compiling. Run after changing a contract source, OpenZeppelin or solc:
+//   npm run build:contracts [ContractType ...]
+// Without arguments the default contracts below are built; with arguments exactly those are.
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..');
+const BUNDLE_PATH = join(ROOT_DIR, 'src', 'services', 'contractBytecode.ts');
+
+const DEFAULT_CONTRACTS = [
+  'BasicToken',
+  'BurnableToken',
+  'MintableToken',
+  'BurnableMintableToken',
+  'TokenVesting',
+  'PresaleContract',
+  'RelayerBridgeAdapter'
+];
+
+const loadImport = async (path) => readFileSync(join(ROOT_DIR, 'node_modules', path), 'utf8');
+
+// Keeps the parts of solc's storage layout the upgrade check compares
+const trimStorageLayout = ({ storage, types }) => ({
+  storage: storage.map(({ label, slot, offset, type, contract }) => ({ label, slot, offset, type, contract })),
+  types: types && Object.fromEntries(Object.entries(types).map(([id, { label, numberOfBytes, encoding }]) => [
+    id,
+    { label, numberOfBytes, encoding }
+  ]))
+});
+
+async function main() {
+  const contractTypes = process.argv.length > 2 ? process.argv.slice(2) : DEFAULT_CONTRACTS;
+
+  // Vite loads the TypeScript contract sources the same way the app does
+  const server = await createServer({
+    root: ROOT_DIR,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false }
+  });
+
+  try {
+    const { getCompiledContract } = await server.ssrLoadModule('/src/services/contractSource.ts');
+    const bundle = {};
+
+    for (const contractType of contractTypes) {
+      console.log(`Compiling ${contractType}...`);
+      const { sourceHash, compilerVersion, abi, bytecode, storageLayout } = await getCompiledContract(contractType, loadImport);
+      bundle[contractType] = { sourceHash, compilerVersion, abi, bytecode, storageLayout: trimStorageLayout(storageLayout) };
+    }
+
+    writeFileSync(BUNDLE_PATH, [
+      '// Generated by scripts/build-contract-bundle.js; do not edit by hand.',
+      '// Entries are only used while their source hash matches the sources the app compiles today.',
+      "import type { PrecompiledContract } from './contractSource';",
+      '',
+      `export const contractBytecode: Record<string, PrecompiledContract> = ${JSON.stringify(bundle, null, 2)};`,
+      ''
+    ].join('\n'));
+
+    console.log(`Wrote ${contractTypes.length} contracts to ${BUNDLE_PATH}`);
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
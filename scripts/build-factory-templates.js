@@ -0,0 +1,39 @@
+import { createServer } from 'vite';
+import { writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+// Writes the token contracts TokenFactory creates to contracts/tokens/, generated exactly as the app
+// generates them for direct deployments. Run after changing the token generator:
+//   npm run build:factory
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..');
+const TOKENS_DIR = join(ROOT_DIR, 'contracts', 'tokens');
+
+async function main() {
+  // Vite loads the TypeScript generator the same way the app does
+  const server = await createServer({
+    root: ROOT_DIR,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false }
+  });
+
+  try {
+    const { getContractSource } = await server.ssrLoadModule('/src/services/contractSource.ts');
+    const { FACTORY_TOKEN_TYPES } = await server.ssrLoadModule('/src/services/vanityAddress.ts');
+
+    for (const contractType of FACTORY_TOKEN_TYPES) {
+      writeFileSync(join(TOKENS_DIR, `${contractType}.sol`), getContractSource(contractType));
+    }
+
+    console.log(`Wrote ${FACTORY_TOKEN_TYPES.length} factory templates to ${TOKENS_DIR}`);
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -2,6 +2,17 @@ const hre = require("hardhat");
 const fs = require("fs");
 const path = require("path");
 
+// Progress markers read by the server's deployment queue, see deploy-token.js
+function reportStage(stage, details = {}) {
+  console.log("Deployment stage:", JSON.stringify({ stage, ...details }));
+}
+
+const DECIMALS_ABI = ["function decimals() view returns (uint8)"];
+
+async function getDecimals(address, deployer) {
+  return Number(await new hre.ethers.Contract(address, DECIMALS_ABI, deployer).decimals());
+}
+
 async function main() {
   try {
     const [deployer] = await hre.ethers.getSigners();
@@ -11,25 +22,39 @@ async function main() {
     // Get deployment parameters from environment variables
     const presaleConfig = JSON.parse(process.env.PRESALE_CONFIG || "{}");
     const shouldVerify = process.env.VERIFY === "true";
+    // Compiled by the server's artifact store; without it Hardhat compiles the contract
+    const artifact = process.env.ARTIFACT_PATH ? JSON.parse(fs.readFileSync(process.env.ARTIFACT_PATH, "utf8")) : null;
     const networkName = hre.network.name;
 
     console.log(`Deploying PresaleContract to ${networkName}`);
     console.log("Presale config:", presaleConfig);
+    if (artifact) console.log("Artifact:", artifact.hash);
 
     // Get contract factory
-    const PresaleFactory = await hre.ethers.getContractFactory("PresaleContract");
+    const PresaleFactory = artifact
+      ? new hre.ethers.ContractFactory(artifact.abi, artifact.bytecode, deployer)
+      : await hre.ethers.getContractFactory("PresaleContract");
     
+    // Prices are in sale token units per whole payment unit; caps and limits are in the payment
+    // token's decimals, or 18 for the native currency
+    const sale = presaleConfig.saleConfiguration;
+    const paymentToken = sale.paymentToken ? sale.paymentToken.address : hre.ethers.ZeroAddress;
+    const tokenDecimals = await getDecimals(presaleConfig.tokenInfo.tokenAddress, deployer);
+    const paymentDecimals = sale.paymentToken ? await getDecimals(paymentToken, deployer) : 18;
+    const parsePayment = (amount) => hre.ethers.parseUnits(amount, paymentDecimals);
+
     // Prepare constructor arguments
     const saleInfo = {
       token: presaleConfig.tokenInfo.tokenAddress,
-      tokenPrice: hre.ethers.parseUnits(presaleConfig.saleConfiguration.tokenPrice, 18),
-      softCap: hre.ethers.parseEther(presaleConfig.saleConfiguration.softCap),
-      hardCap: hre.ethers.parseEther(presaleConfig.saleConfiguration.hardCap),
-      minPurchase: hre.ethers.parseEther(presaleConfig.saleConfiguration.minPurchase),
-      maxPurchase: hre.ethers.parseEther(presaleConfig.saleConfiguration.maxPurchase),
-      startTime: Math.floor(new Date(presaleConfig.saleConfiguration.startDate).getTime() / 1000),
-      endTime: Math.floor(new Date(presaleConfig.saleConfiguration.endDate).getTime() / 1000),
-      whitelistEnabled: presaleConfig.saleConfiguration.whitelistEnabled
+      paymentToken,
+      tokenPrice: hre.ethers.parseUnits(sale.tokenPrice, tokenDecimals),
+      softCap: parsePayment(sale.softCap),
+      hardCap: parsePayment(sale.hardCap),
+      minPurchase: parsePayment(sale.minPurchase),
+      maxPurchase: parsePayment(sale.maxPurchase),
+      startTime: Math.floor(new Date(sale.startDate).getTime() / 1000),
+      endTime: Math.floor(new Date(sale.endDate).getTime() / 1000),
+      whitelistEnabled: sale.whitelistEnabled
     };
 
     const vestingInfo = {
@@ -38,9 +63,30 @@ async function main() {
       vestingDuration: presaleConfig.vestingConfig.duration * 24 * 60 * 60 // Convert days to seconds
     };
 
+    // Lists against the payment token through AutoLiquidity when the sale is finalized
+    const listing = presaleConfig.autoListingConfig;
+    const autoListingInfo = listing && listing.enabled
+      ? {
+          enabled: true,
+          liquidity: listing.liquidityAddress,
+          router: listing.router || hre.ethers.ZeroAddress,
+          listingPrice: hre.ethers.parseUnits(listing.listingPrice, tokenDecimals),
+          liquidityPercentage: listing.lpBaseTokenPercentage,
+          lockDuration: listing.lockDuration * 24 * 60 * 60 // Convert days to seconds
+        }
+      : {
+          enabled: false,
+          liquidity: hre.ethers.ZeroAddress,
+          router: hre.ethers.ZeroAddress,
+          listingPrice: 0,
+          liquidityPercentage: 0,
+          lockDuration: 0
+        };
+
     const constructorArgs = [
       saleInfo,
       vestingInfo,
+      autoListingInfo,
       presaleConfig.walletSetup.saleReceiver,
       presaleConfig.walletSetup.refundWallet
     ];
@@ -48,6 +94,7 @@ async function main() {
     // Deploy contract
     console.log("Deploying presale contract...");
     const presale = await PresaleFactory.deploy(...constructorArgs);
+    reportStage("broadcast", { transactionHash: presale.deploymentTransaction().hash });
     
     // Wait for deployment
     await presale.waitForDeployment();
@@ -61,6 +108,7 @@ async function main() {
     
     console.log("Transaction hash:", deploymentTx.hash);
     console.log("Gas used:", receipt.gasUsed.toString());
+    reportStage("confirmed", { transactionHash: deploymentTx.hash, contractAddress });
     
     // Save deployment info
     const deploymentInfo = {
@@ -76,6 +124,7 @@ async function main() {
       constructorArgs: [
         {
           token: saleInfo.token,
+          paymentToken: saleInfo.paymentToken,
           tokenPrice: saleInfo.tokenPrice.toString(),
           softCap: saleInfo.softCap.toString(),
           hardCap: saleInfo.hardCap.toString(),
@@ -86,6 +135,7 @@ async function main() {
           whitelistEnabled: saleInfo.whitelistEnabled
         },
         vestingInfo,
+        { ...autoListingInfo, listingPrice: autoListingInfo.listingPrice.toString() },
         presaleConfig.walletSetup.saleReceiver,
         presaleConfig.walletSetup.refundWallet
       ]
@@ -2,6 +2,26 @@ const hre = require("hardhat");
 const fs = require("fs");
 const path = require("path");
 
+// Deterministic deployment proxy (https://github.com/Arachnid/deterministic-deployment-proxy), deployed at
+// the same address on most EVM chains; deploying the factory through it gives it the same address everywhere
+const DETERMINISTIC_DEPLOYER = "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+const FACTORY_SALT = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+// Progress markers read by the server's deployment queue. Once anything is broadcast the job is not
+// retried automatically, since running the script again would deploy a second contract
+function reportStage(stage, details = {}) {
+  console.log("Deployment stage:", JSON.stringify({ stage, ...details }));
+}
+
+// Token contracts are generated by the app and have no Hardhat source, so they are only deployed from
+// the artifact the server compiled for the contract type
+function getTokenFactory(artifact, contractType, deployer) {
+  if (!artifact) {
+    throw new Error(`No compiled artifact for ${contractType}; set ARTIFACT_PATH`);
+  }
+  return new hre.ethers.ContractFactory(artifact.abi, artifact.bytecode, deployer);
+}
+
 async function main() {
   try {
     const [deployer] = await hre.ethers.getSigners();
@@ -10,17 +30,28 @@ async function main() {
 
     // Get deployment parameters from environment variables 
     const contractType = process.env.CONTRACT_TYPE;
-    const constructorArgs = JSON.parse(process.env.CONSTRUCTOR_ARGS || "[]");
+    // Tokens without an explicit owner are owned by the deploying wallet
+    const constructorArgs = JSON.parse(process.env.CONSTRUCTOR_ARGS || "[]")
+      .map(arg => arg === "DEPLOYER_ADDRESS" ? process.env.DEPLOYER_ADDRESS : arg);
     const shouldVerify = process.env.VERIFY === "true";
     const useFactory = process.env.USE_FACTORY === "true";
+    const upgradeable = process.env.UPGRADEABLE === "true";
+    const salt = process.env.SALT || hre.ethers.ZeroHash;
+    // Compiled by the server's artifact store from the contract generated for the type
+    const artifact = process.env.ARTIFACT_PATH ? JSON.parse(fs.readFileSync(process.env.ARTIFACT_PATH, "utf8")) : null;
     const networkName = hre.network.name;
 
     console.log(`Deploying ${contractType} to ${networkName}`);
     console.log("Constructor args:", constructorArgs);
     console.log("Using factory:", useFactory);
+    if (useFactory) console.log("CREATE2 salt:", salt);
+    console.log("Upgradeable:", upgradeable);
+    if (artifact) console.log("Artifact:", artifact.hash);
     
     let contract;
+    let contractAddress;
     let deploymentTx;
+    let implementationAddress = null;
     
     if (useFactory) {
       // Deploy using factory
@@ -48,9 +79,27 @@ async function main() {
       if (!factoryAddress) {
         console.log("Factory not found for this network, deploying new factory...");
         const TokenFactory = await hre.ethers.getContractFactory("TokenFactory");
-        const factory = await TokenFactory.deploy(deployer.address);
-        await factory.waitForDeployment();
-        factoryAddress = await factory.getAddress();
+        const deployTx = await TokenFactory.getDeployTransaction(deployer.address, deployer.address);
+        
+        if ((await hre.ethers.provider.getCode(DETERMINISTIC_DEPLOYER)) !== "0x") {
+          factoryAddress = hre.ethers.getCreate2Address(DETERMINISTIC_DEPLOYER, FACTORY_SALT, hre.ethers.keccak256(deployTx.data));
+          
+          // Another deployment may already have created it on this chain
+          if ((await hre.ethers.provider.getCode(factoryAddress)) === "0x") {
+            const tx = await deployer.sendTransaction({
+              to: DETERMINISTIC_DEPLOYER,
+              data: hre.ethers.concat([FACTORY_SALT, deployTx.data])
+            });
+            reportStage("broadcast", { transactionHash: tx.hash });
+            await tx.wait();
+          }
+        } else {
+          console.log("Deterministic deployment proxy not available, the factory address will differ from other chains");
+          const factory = await TokenFactory.deploy(deployer.address, deployer.address);
+          reportStage("broadcast", { transactionHash: factory.deploymentTransaction().hash });
+          await factory.waitForDeployment();
+          factoryAddress = await factory.getAddress();
+        }
         
         // Save factory deployment info
         if (!fs.existsSync(factoryDeploymentsDir)) {
@@ -73,33 +122,26 @@ async function main() {
       // Create token using factory
       const factory = await hre.ethers.getContractAt("TokenFactory", factoryAddress);
       
-      // Determine which factory method to call based on contract type
+      // Factory methods take the token's constructor arguments followed by the CREATE2 salt
+      const overrides = { value: await factory.creationFee() };
       let tx;
       switch (contractType) {
         case 'BasicToken':
-          tx = await factory.createBasicToken(...constructorArgs);
+          tx = await factory.createBasicToken(...constructorArgs, salt, overrides);
           break;
         case 'BurnableToken':
-          tx = await factory.createBurnableToken(...constructorArgs);
+          tx = await factory.createBurnableToken(...constructorArgs, salt, overrides);
           break;
         case 'MintableToken':
-          tx = await factory.createMintableToken(...constructorArgs);
+          tx = await factory.createMintableToken(...constructorArgs, salt, overrides);
           break;
         case 'BurnableMintableToken':
-          tx = await factory.createBurnableMintableToken(...constructorArgs);
-          break;
-        case 'FeeToken':
-          tx = await factory.createFeeToken(...constructorArgs);
-          break;
-        case 'RedistributionToken':
-          tx = await factory.createRedistributionToken(...constructorArgs);
-          break;
-        case 'AdvancedToken':
-          tx = await factory.createAdvancedToken(...constructorArgs);
+          tx = await factory.createBurnableMintableToken(...constructorArgs, salt, overrides);
           break;
         default:
           throw new Error(`Unsupported contract type for factory: ${contractType}`);
       }
+      reportStage("broadcast", { transactionHash: tx.hash });
       
       // Wait for transaction
       const receipt = await tx.wait();
@@ -119,7 +161,7 @@ async function main() {
       }
       
       const parsedEvent = factory.interface.parseLog(tokenCreatedEvent);
-      const contractAddress = parsedEvent.args[1];
+      contractAddress = parsedEvent.args[1];
       
       // Get contract instance
       contract = await hre.ethers.getContractAt(contractType, contractAddress);
@@ -127,20 +169,47 @@ async function main() {
       
       console.log(`${contractType} deployed to:`, contractAddress);
       console.log("Transaction hash:", tx.hash);
+    } else if (upgradeable) {
+      // Implementation first, then an ERC-1967 proxy that calls initialize with the token parameters
+      console.log("Deploying implementation...");
+      const Implementation = await getTokenFactory(artifact, contractType, deployer);
+      const implementation = await Implementation.deploy();
+      reportStage("broadcast", { transactionHash: implementation.deploymentTransaction().hash });
+      await implementation.waitForDeployment();
+      implementationAddress = await implementation.getAddress();
+      
+      console.log(`${contractType} implementation deployed to:`, implementationAddress);
+      
+      console.log("Deploying proxy...");
+      const Proxy = await hre.ethers.getContractFactory("ERC1967Proxy");
+      const initData = Implementation.interface.encodeFunctionData("initialize", constructorArgs);
+      const proxy = await Proxy.deploy(implementationAddress, initData);
+      reportStage("broadcast", { transactionHash: proxy.deploymentTransaction().hash });
+      await proxy.waitForDeployment();
+      contractAddress = await proxy.getAddress();
+      
+      contract = artifact
+        ? new hre.ethers.Contract(contractAddress, artifact.abi, deployer)
+        : await hre.ethers.getContractAt(contractType, contractAddress);
+      deploymentTx = proxy.deploymentTransaction();
+      
+      console.log(`${contractType} proxy deployed to:`, contractAddress);
+      console.log("Transaction hash:", deploymentTx.hash);
     } else {
       // Direct deployment
       console.log("Deploying directly...");
 
       // Get contract factory
-      const ContractFactory = await hre.ethers.getContractFactory(contractType);
+      const ContractFactory = await getTokenFactory(artifact, contractType, deployer);
       
       // Deploy contract
       console.log("Deploying contract...");
       contract = await ContractFactory.deploy(...constructorArgs);
+      reportStage("broadcast", { transactionHash: contract.deploymentTransaction().hash });
       
       // Wait for deployment
       await contract.waitForDeployment();
-      const contractAddress = await contract.getAddress();
+      contractAddress = await contract.getAddress();
       
       console.log(`${contractType} deployed to:`, contractAddress);
       
@@ -154,11 +223,13 @@ async function main() {
     const receipt = await deploymentTx.wait();
     
     console.log("Gas used:", receipt.gasUsed.toString());
+    reportStage("confirmed", { transactionHash: deploymentTx.hash, contractAddress });
     
     // Save deployment info
     const deploymentInfo = {
       contractType,
       contractAddress,
+      implementationAddress,
       transactionHash: deploymentTx.hash,
       gasUsed: receipt.gasUsed.toString(),
       network: networkName,
@@ -178,10 +249,6 @@ async function main() {
     const deploymentFile = path.join(deploymentsDir, `${networkName}-${contractAddress}.json`);
     fs.writeFileSync(deploymentFile, JSON.stringify(deploymentInfo, null, 2));
 
-    // Add a delay before verification to ensure the contract is fully deployed
-    if (shouldVerify && networkName !== "hardhat" && networkName !== "localhost") {
-      console.log("Waiting for block confirmations before verification...");
-    
     // Verify contract if requested
     if (shouldVerify && networkName !== "hardhat" && networkName !== "localhost") {
       console.log("Waiting for block confirmations...");
@@ -201,13 +268,17 @@ async function main() {
       };
       
       const confirmationCount = confirmations[networkName] || 5;
-      await contract.deploymentTransaction().wait(confirmationCount);
+      await deploymentTx.wait(confirmationCount);
+      
+      // Proxies are recognised by the explorer once their implementation is verified
+      const verifyAddress = implementationAddress || contractAddress;
+      const verifyArgs = implementationAddress ? [] : constructorArgs;
       
       console.log("Verifying contract...");
       try {
         await hre.run("verify:verify", {
-          address: contractAddress,
-          constructorArguments: constructorArgs,
+          address: verifyAddress,
+          constructorArguments: verifyArgs,
         });
         console.log("Contract verified successfully");
         deploymentInfo.verified = true;
@@ -222,8 +293,8 @@ async function main() {
         
         try {
           await hre.run("verify:verify", {
-            address: contractAddress,
-            constructorArguments: constructorArgs,
+            address: verifyAddress,
+            constructorArguments: verifyArgs,
           });
           console.log("Contract verified successfully on second attempt");
           deploymentInfo.verified = true;
@@ -242,6 +313,8 @@ async function main() {
     const result = {
       success: true,
       contractAddress,
+      implementationAddress,
+      artifactHash: artifact ? artifact.hash : null,
       transactionHash: deploymentTx.hash,
       gasUsed: receipt.gasUsed.toString(),
       deploymentCost: (receipt.gasUsed * receipt.gasPrice).toString(),
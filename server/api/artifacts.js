@@ -0,0 +1,58 @@
+const express = require('express');
+const { authenticate } = require('../middleware/auth');
+const { getContractArtifact, getArtifact, isArtifactHash, summarizeArtifact } = require('../utils/artifactStore');
+const { isValidTokenContractType } = require('../middleware/validation');
+
+const router = express.Router();
+
+// Contracts the app compiles besides tokens
+const SUPPORT_CONTRACT_TYPES = ['TokenVesting', 'PresaleContract', 'RelayerBridgeAdapter'];
+
+// Artifact for one of the app's contract types, compiled from the source the server generates for it. Sources
+// are never taken from the request, so only the app's own contracts are compiled and stored
+router.post('/compile', authenticate, async (req, res) => {
+  try {
+    const { contractType } = req.body;
+
+    if (!isValidTokenContractType(contractType) && !SUPPORT_CONTRACT_TYPES.includes(contractType)) {
+      return res.status(400).json({ error: 'Unknown contract type' });
+    }
+
+    let artifact;
+    try {
+      artifact = await getContractArtifact(contractType);
+    } catch (compileError) {
+      return res.status(500).json({ error: 'Compilation failed', details: compileError.message });
+    }
+
+    // The app builds the same input itself and compares it through the artifact's sourceHash
+    res.json(summarizeArtifact(artifact));
+  } catch (error) {
+    console.error('Error compiling artifact:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Stored artifact with its standard-JSON input, e.g. to submit for explorer verification
+router.get('/:hash', authenticate, async (req, res) => {
+  try {
+    const { hash } = req.params;
+    if (!isArtifactHash(hash)) {
+      return res.status(400).json({ error: 'Invalid artifact hash' });
+    }
+
+    const artifact = getArtifact(hash);
+    if (!artifact) {
+      return res.status(404).json({ error: 'Artifact not found' });
+    }
+
+    // Artifacts never change once stored
+    res.set('Cache-Control', 'private, max-age=31536000, immutable');
+    res.json(artifact);
+  } catch (error) {
+    console.error('Error fetching artifact:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
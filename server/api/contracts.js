@@ -3,7 +3,10 @@ const fs = require('fs');
 const path = require('path');
 const { ethers } = require('ethers');
 const { authenticate } = require('../middleware/auth');
+const { isValidTokenContractType, parseChainId } = require('../middleware/validation');
 const { query } = require('../db');
+const { getContractArtifact, getArtifact, isArtifactHash } = require('../utils/artifactStore');
+const { getExplorerClient } = require('../utils/explorerVerification');
 
 const router = express.Router();
 
@@ -30,6 +33,10 @@ router.get('/deployed', authenticate, async (req, res) => {
       contractAddress: token.contract_address,
       transactionHash: token.transaction_hash,
       contractType: token.contract_type,
+      implementationAddress: token.implementation_address || undefined,
+      bridgeAdapterAddress: token.bridge_adapter_address || undefined,
+      vestingAddress: token.vesting_address || undefined,
+      projectId: token.project_id || undefined,
       network: {
         id: token.network_id,
         name: token.network_name,
@@ -37,6 +44,7 @@ router.get('/deployed', authenticate, async (req, res) => {
       },
       timestamp: token.created_at,
       verified: token.verified,
+      verificationStatus: token.verification_status || (token.verified ? 'verified' : 'unverified'),
       name: token.name,
       symbol: token.symbol,
       decimals: token.decimals,
@@ -103,12 +111,17 @@ router.get('/deployed', authenticate, async (req, res) => {
 router.get('/:address', authenticate, async (req, res) => {
   try {
     const { address } = req.params;
+    const chainId = parseChainId(req.query.chainId);
     const userId = req.user.id;
     
+    if (!chainId) {
+      return res.status(400).json({ error: 'Chain ID is required' });
+    }
+    
     // Check if token exists
     const tokenResult = await query(
-      'SELECT * FROM tokens WHERE contract_address = $1',
-      [address.toLowerCase()]
+      'SELECT * FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
     );
     
     if (tokenResult.rows.length > 0) {
@@ -122,6 +135,11 @@ router.get('/:address', authenticate, async (req, res) => {
       return res.json({
         contractType: token.contract_type,
         contractAddress: token.contract_address,
+        implementationAddress: token.implementation_address || undefined,
+        implementationArtifactHash: token.implementation_artifact_hash || undefined,
+        bridgeAdapterAddress: token.bridge_adapter_address || undefined,
+        vestingAddress: token.vesting_address || undefined,
+        projectId: token.project_id || undefined,
         transactionHash: token.transaction_hash,
         network: {
           id: token.network_id,
@@ -130,6 +148,10 @@ router.get('/:address', authenticate, async (req, res) => {
         },
         timestamp: token.created_at,
         verified: token.verified,
+        verificationStatus: token.verification_status || (token.verified ? 'verified' : 'unverified'),
+        verificationMessage: token.verification_message,
+        verifiedAt: token.verified_at,
+        constructorArgs: token.constructor_args,
         name: token.name,
         symbol: token.symbol,
         decimals: token.decimals,
@@ -142,8 +164,8 @@ router.get('/:address', authenticate, async (req, res) => {
     
     // Check if presale exists
     const presaleResult = await query(
-      'SELECT * FROM presales WHERE contract_address = $1',
-      [address.toLowerCase()]
+      'SELECT * FROM presales WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
     );
     
     if (presaleResult.rows.length > 0) {
@@ -193,12 +215,17 @@ router.get('/:address/stats', authenticate, async (req, res) => {
   try {
     const { address } = req.params;
     const networkParam = req.query.network;
+    const chainId = parseChainId(req.query.chainId);
     const userId = req.user.id;
     
+    if (!chainId) {
+      return res.status(400).json({ error: 'Chain ID is required' });
+    }
+    
     // Verify the contract exists
     const tokenResult = await query(
-      'SELECT * FROM tokens WHERE contract_address = $1',
-      [address.toLowerCase()]
+      'SELECT * FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
     );
     
     if (tokenResult.rows.length === 0) {
@@ -271,12 +298,13 @@ router.get('/:address/stats', authenticate, async (req, res) => {
            holders_count = $2, 
            transfer_count = $3, 
            last_updated = CURRENT_TIMESTAMP 
-           WHERE contract_address = $4`,
+           WHERE contract_address = $4 AND network_chain_id = $5`,
           [
             ethers.formatUnits(totalSupply, decimals),
             uniqueAddresses.size,
             events.length,
-            address.toLowerCase()
+            address.toLowerCase(),
+            chainId
           ]
         );
       } catch (dbError) {
@@ -318,6 +346,298 @@ router.get('/:address/stats', authenticate, async (req, res) => {
   }
 });
 
+// Stores an explorer verification result for a token's deployment on one chain
+const saveVerification = (address, chainId, result) => query(
+  `UPDATE tokens SET 
+   verified = $1, 
+   verification_status = $2, 
+   verification_guid = $3, 
+   verification_message = $4, 
+   verified_at = CASE WHEN $1 THEN CURRENT_TIMESTAMP ELSE verified_at END 
+   WHERE contract_address = $5 AND network_chain_id = $6`,
+  [
+    result.status === 'verified',
+    result.status,
+    result.guid || null,
+    result.message || null,
+    address.toLowerCase(),
+    chainId
+  ]
+);
+
+// Submit a token for explorer verification. The server builds the submission from the artifact it compiles for
+// the token's contract type and the constructor arguments it stored at deployment, and sends it with its own
+// explorer API key; the explorer's answer is recorded, never a status reported by the client
+router.post('/:address/verification', authenticate, async (req, res) => {
+  try {
+    const { address } = req.params;
+    const chainId = parseChainId(req.body.chainId);
+    const userId = req.user.id;
+    
+    if (!chainId) {
+      return res.status(400).json({ error: 'Chain ID is required' });
+    }
+    
+    const tokenResult = await query(
+      'SELECT * FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
+    );
+    
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+    
+    const token = tokenResult.rows[0];
+    if (token.owner_address.toLowerCase() !== userId.toLowerCase()) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    
+    const client = getExplorerClient(token.network_chain_id);
+    if (!client) {
+      return res.status(400).json({ error: `Contract verification is not supported on ${token.network_name}` });
+    }
+    
+    if (!token.contract_type || !token.constructor_args) {
+      return res.status(400).json({ error: 'Deployment record not found for this token' });
+    }
+    
+    let result;
+    try {
+      // Proxies submit the artifact their implementation was deployed from, when it was recorded
+      const artifact = (token.implementation_artifact_hash && getArtifact(token.implementation_artifact_hash)) ||
+        await getContractArtifact(token.contract_type);
+      // Upgradeable tokens verify the implementation, which is deployed without arguments
+      const constructorArguments = new ethers.Interface(artifact.abi)
+        .encodeDeploy(token.implementation_address ? [] : token.constructor_args);
+      
+      result = await client.submit({
+        contractAddress: token.implementation_address || token.contract_address,
+        contractName: artifact.contractName,
+        compilerVersion: artifact.compilerVersion,
+        standardJsonInput: artifact.standardJsonInput,
+        constructorArguments
+      });
+    } catch (verifyError) {
+      result = { status: 'failed', guid: null, message: verifyError.message, checkedAt: new Date().toISOString() };
+    }
+    
+    await saveVerification(address, chainId, result);
+    res.json(result);
+    
+  } catch (error) {
+    console.error('Error submitting verification:', error);
+    res.status(500).json({ error: 'Failed to submit verification', details: error.message });
+  }
+});
+
+// Verification status of a token; pending submissions are checked with the explorer first
+router.get('/:address/verification', authenticate, async (req, res) => {
+  try {
+    const { address } = req.params;
+    const chainId = parseChainId(req.query.chainId);
+    const userId = req.user.id;
+    
+    if (!chainId) {
+      return res.status(400).json({ error: 'Chain ID is required' });
+    }
+    
+    const tokenResult = await query(
+      'SELECT * FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
+    );
+    
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+    
+    const token = tokenResult.rows[0];
+    if (token.owner_address.toLowerCase() !== userId.toLowerCase()) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    
+    let result = {
+      status: token.verification_status || (token.verified ? 'verified' : 'unverified'),
+      guid: token.verification_guid || null,
+      message: token.verification_message || '',
+      checkedAt: new Date().toISOString()
+    };
+    
+    const client = getExplorerClient(token.network_chain_id);
+    if (result.status === 'pending' && result.guid && client) {
+      try {
+        result = await client.checkStatus(result.guid);
+      } catch (checkError) {
+        // The explorer is asked again on the next request
+        console.error('Error checking verification status:', checkError);
+        return res.json(result);
+      }
+      await saveVerification(address, chainId, result);
+    }
+    
+    res.json(result);
+    
+  } catch (error) {
+    console.error('Error fetching verification status:', error);
+    res.status(500).json({ error: 'Failed to fetch verification status', details: error.message });
+  }
+});
+
+// Record a proxy upgrade with the stored artifact the new implementation was deployed from; the new
+// implementation has not been verified yet
+router.put('/:address/implementation', authenticate, async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { implementationAddress, contractType, artifactHash } = req.body;
+    const chainId = parseChainId(req.body.chainId);
+    const userId = req.user.id;
+
+    if (!chainId) {
+      return res.status(400).json({ error: 'Chain ID is required' });
+    }
+
+    if (!ethers.isAddress(implementationAddress)) {
+      return res.status(400).json({ error: 'Invalid implementation address' });
+    }
+
+    if (!isValidTokenContractType(contractType) || !contractType.includes('Upgradeable')) {
+      return res.status(400).json({ error: `Invalid contract type: ${contractType}` });
+    }
+
+    const artifact = isArtifactHash(artifactHash) ? getArtifact(artifactHash) : null;
+    if (!artifact || artifact.contractName !== `contract.sol:${contractType}`) {
+      return res.status(400).json({ error: `No stored ${contractType} artifact with hash ${artifactHash}` });
+    }
+
+    const tokenResult = await query(
+      'SELECT owner_address, implementation_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
+    );
+
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    if (tokenResult.rows[0].owner_address.toLowerCase() !== userId.toLowerCase()) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!tokenResult.rows[0].implementation_address) {
+      return res.status(400).json({ error: 'Token is not upgradeable' });
+    }
+
+    await query(
+      `UPDATE tokens SET
+       implementation_address = $1,
+       contract_type = $2,
+       implementation_artifact_hash = $3,
+       verified = FALSE,
+       verification_status = 'unverified',
+       verification_guid = NULL,
+       verification_message = NULL
+       WHERE contract_address = $4 AND network_chain_id = $5`,
+      [
+        implementationAddress.toLowerCase(),
+        contractType,
+        artifactHash,
+        address.toLowerCase(),
+        chainId
+      ]
+    );
+
+    res.json({
+      success: true,
+      implementationAddress: implementationAddress.toLowerCase(),
+      contractType,
+      artifactHash
+    });
+
+  } catch (error) {
+    console.error('Error recording upgrade:', error);
+    res.status(500).json({ error: 'Failed to record upgrade', details: error.message });
+  }
+});
+
+// Record the bridge adapter deployed for a token. The chain ID picks the deployment, since the same
+// address can belong to the token on several networks
+router.put('/:address/bridge-adapter', authenticate, async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { bridgeAdapterAddress, chainId } = req.body;
+    const userId = req.user.id;
+
+    if (!ethers.isAddress(bridgeAdapterAddress)) {
+      return res.status(400).json({ error: 'Invalid bridge adapter address' });
+    }
+
+    const tokenResult = await query(
+      'SELECT owner_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
+    );
+
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    if (tokenResult.rows[0].owner_address.toLowerCase() !== userId.toLowerCase()) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await query(
+      'UPDATE tokens SET bridge_adapter_address = $1 WHERE contract_address = $2 AND network_chain_id = $3',
+      [bridgeAdapterAddress.toLowerCase(), address.toLowerCase(), chainId]
+    );
+
+    res.json({
+      success: true,
+      bridgeAdapterAddress: bridgeAdapterAddress.toLowerCase()
+    });
+
+  } catch (error) {
+    console.error('Error recording bridge adapter:', error);
+    res.status(500).json({ error: 'Failed to record bridge adapter', details: error.message });
+  }
+});
+
+// Record the vesting contract deployed for a token; the chain ID picks the deployment as for bridge adapters
+router.put('/:address/vesting', authenticate, async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { vestingAddress, chainId } = req.body;
+    const userId = req.user.id;
+
+    if (!ethers.isAddress(vestingAddress)) {
+      return res.status(400).json({ error: 'Invalid vesting contract address' });
+    }
+
+    const tokenResult = await query(
+      'SELECT owner_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [address.toLowerCase(), chainId]
+    );
+
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    if (tokenResult.rows[0].owner_address.toLowerCase() !== userId.toLowerCase()) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await query(
+      'UPDATE tokens SET vesting_address = $1 WHERE contract_address = $2 AND network_chain_id = $3',
+      [vestingAddress.toLowerCase(), address.toLowerCase(), chainId]
+    );
+
+    res.json({
+      success: true,
+      vestingAddress: vestingAddress.toLowerCase()
+    });
+
+  } catch (error) {
+    console.error('Error recording vesting contract:', error);
+    res.status(500).json({ error: 'Failed to record vesting contract', details: error.message });
+  }
+});
+
 // Get all public presales (for explorer)
 router.get('/presales/public', async (req, res) => {
   try {
@@ -360,6 +680,7 @@ router.get('/presales/public', async (req, res) => {
         softCap: presale.sale_configuration?.softCap || '0',
         hardCap: presale.sale_configuration?.hardCap || '0',
         tokenPrice: presale.sale_configuration?.tokenPrice || '0',
+        paymentSymbol: presale.sale_configuration?.paymentToken?.symbol || null,
         startDate: presale.sale_configuration?.startDate,
         endDate: presale.sale_configuration?.endDate,
         status: status,
@@ -1,5 +1,4 @@
 const express = require('express');
-const { exec } = require('child_process');
 const path = require('path');
 const fs = require('fs');
 const { ethers } = require('ethers');
@@ -7,6 +6,20 @@ const { authenticate } = require('../middleware/auth');
 const { validateTokenConfig, validatePresaleConfig } = require('../middleware/validation');
 const { query } = require('../db');
 const { encrypt, decrypt } = require('../utils/encryption');
+const {
+  jobEvents,
+  registerJobHandler,
+  enqueueJob,
+  getJob,
+  findJobByKey,
+  serializeJob,
+  isTerminal,
+  getRequestHash,
+  matchesRequest
+} = require('../jobs/deploymentQueue');
+const { getArtifactPath, getContractArtifact, getProxyArtifact } = require('../utils/artifactStore');
+const { loadAppModule } = require('../utils/appModules');
+const { getUsdPrice } = require('../utils/prices');
 
 const router = express.Router();
 
@@ -18,6 +31,7 @@ const NETWORK_MAPPING = {
   'arbitrum': 'arbitrum',
   'fantom': 'fantom',
   'avalanche': 'avalanche',
+  'base': 'base',
   'goerli': 'goerli',
   'bsc-testnet': 'bscTestnet',
   'mumbai': 'mumbai',
@@ -25,13 +39,215 @@ const NETWORK_MAPPING = {
   'estar-testnet': 'estarTestnet'
 };
 
+// Token contract names list their features, e.g. BurnableMintableFeeToken; AdvancedToken is burnable,
+// mintable, fee and redistribution. Constructor arguments follow the same order after the five base params.
+const getTokenFeatures = (contractType, constructorArgs) => {
+  const isAdvanced = contractType === 'AdvancedToken';
+  const hasFee = isAdvanced || contractType.includes('Fee');
+  const hasTaxes = contractType.includes('Tax');
+  const hasDividends = contractType.includes('Dividend');
+  const hasRedistribution = isAdvanced || contractType.includes('Redistribution');
+  const hasReflection = contractType.includes('Reflection');
+  const hasAntiWhale = contractType.includes('AntiWhale');
+  
+  let argIndex = 5;
+  const feeArgs = hasFee ? constructorArgs.slice(argIndex, argIndex += 2) : [];
+  const [taxSettings] = hasTaxes ? constructorArgs.slice(argIndex, argIndex += 1) : [];
+  const [dividendSettings] = hasDividends ? constructorArgs.slice(argIndex, argIndex += 1) : [];
+  const redistributionArgs = hasRedistribution || hasReflection ? constructorArgs.slice(argIndex, argIndex += 1) : [];
+  const [tradingLimits] = hasAntiWhale ? constructorArgs.slice(argIndex, argIndex += 1) : [];
+  
+  return {
+    burnable: isAdvanced || contractType.includes('Burnable'),
+    mintable: isAdvanced || contractType.includes('Mintable'),
+    transferFees: hasFee ? {
+      enabled: true,
+      percentage: feeArgs[0] / 100, // Convert from basis points
+      recipient: feeArgs[1]
+    } : {
+      enabled: false,
+      percentage: 0,
+      recipient: ''
+    },
+    taxes: hasTaxes && Array.isArray(taxSettings) ? {
+      enabled: true,
+      buyPercentage: taxSettings[0] / 100,
+      sellPercentage: taxSettings[1] / 100,
+      transferPercentage: taxSettings[2] / 100,
+      recipients: (taxSettings[3] || []).map((address, index) => ({
+        address,
+        share: taxSettings[4][index] / 100
+      })),
+      liquidityShare: taxSettings[5] / 100,
+      router: taxSettings[6],
+      swapThresholdPercentage: taxSettings[7] / 100,
+      dividends: hasDividends && Array.isArray(dividendSettings) ? {
+        enabled: true,
+        rewardToken: dividendSettings[0] === ethers.ZeroAddress ? '' : dividendSettings[0],
+        minimumBalance: String(dividendSettings[1]),
+        gasForProcessing: Number(dividendSettings[2])
+      } : {
+        enabled: false
+      }
+    } : {
+      enabled: false
+    },
+    holderRedistribution: hasRedistribution || hasReflection ? {
+      enabled: true,
+      percentage: redistributionArgs[0] / 100,
+      mode: hasReflection ? 'reflection' : 'claim'
+    } : {
+      enabled: false,
+      percentage: 0
+    },
+    antiWhale: hasAntiWhale && Array.isArray(tradingLimits) ? {
+      enabled: true,
+      maxTransactionPercentage: tradingLimits[0] / 100,
+      maxWalletPercentage: tradingLimits[1] / 100,
+      launchProtectionBlocks: tradingLimits[2],
+      exemptAddresses: tradingLimits[3] || []
+    } : {
+      enabled: false
+    },
+    permit: contractType.includes('Permit'),
+    votes: contractType.includes('Votes'),
+    snapshot: contractType.includes('Snapshot'),
+    pausable: contractType.includes('Pausable'),
+    blacklist: contractType.includes('Blacklist'),
+    roles: contractType.includes('Roles'),
+    bridgeable: contractType.includes('Bridgeable'),
+    upgradeable: contractType.includes('Upgradeable')
+  };
+};
+
+// Clients send a key per deployment so a retried request returns the job already queued for it
+const getIdempotencyKey = (req) => {
+  const key = req.get('Idempotency-Key') || req.body.idempotencyKey;
+  return key ? String(key).slice(0, 100) : null;
+};
+
+const IDEMPOTENCY_CONFLICT = 'Idempotency key already used for a different deployment';
+
+registerJobHandler('token', {
+  prepare: async (job) => {
+    const { contractType, constructorArgs, verify, useFactory, upgradeable, salt } = job.request;
+    // Compiled here from the contract generated for the type, never from anything the client sent;
+    // factory tokens are created from the factory's own bytecode
+    const artifact = useFactory ? null : await getContractArtifact(contractType);
+    return {
+      script: 'deploy-token.js',
+      network: NETWORK_MAPPING[job.network],
+      env: {
+        CONTRACT_TYPE: contractType,
+        CONSTRUCTOR_ARGS: JSON.stringify(constructorArgs),
+        USE_FACTORY: useFactory ? "true" : "false",
+        UPGRADEABLE: upgradeable ? "true" : "false",
+        SALT: salt || "",
+        // Generated token contracts have no Hardhat source, so the script deploys the stored artifact
+        ARTIFACT_PATH: artifact ? getArtifactPath(artifact.hash) : "",
+        VERIFY: verify ? "true" : "false",
+        DEPLOYER_ADDRESS: job.owner_address
+      }
+    };
+  },
+  onComplete: async (job, result) => {
+    const { contractType, constructorArgs, projectId } = job.request;
+    const userId = job.owner_address;
+    const network = job.network;
+    
+    await query(
+      `INSERT INTO tokens 
+      (contract_address, contract_type, name, symbol, decimals, initial_supply, max_supply, 
+       owner_address, network_id, network_name, network_chain_id, transaction_hash, verified, features,
+       verification_status, constructor_args, implementation_address, implementation_artifact_hash, project_id) 
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+      [
+        result.contractAddress.toLowerCase(),
+        contractType,
+        constructorArgs[0], // name
+        constructorArgs[1], // symbol
+        constructorArgs[2], // decimals
+        constructorArgs[3], // initialSupply
+        constructorArgs[4], // maxSupply
+        userId,
+        network,
+        network, // This would be the network name in a real implementation
+        getChainId(network), // This would be the chain ID in a real implementation
+        result.transactionHash,
+        result.verified || false,
+        JSON.stringify(getTokenFeatures(contractType, constructorArgs)),
+        result.verified ? 'verified' : 'unverified',
+        // Stored as deployed so verification can be re-submitted later
+        JSON.stringify(constructorArgs.map(arg => arg === 'DEPLOYER_ADDRESS' ? userId : arg)),
+        result.implementationAddress ? result.implementationAddress.toLowerCase() : null,
+        // Upgrades compare against the layout the proxy was deployed with, not what the type compiles to today
+        result.implementationAddress ? result.artifactHash : null,
+        projectId
+      ]
+    );
+    
+    return { projectId, network: NETWORK_MAPPING[network], timestamp: new Date().toISOString() };
+  }
+});
+
+registerJobHandler('presale', {
+  prepare: async (job) => ({
+    script: 'deploy-presale.js',
+    network: NETWORK_MAPPING[job.network],
+    env: {
+      PRESALE_CONFIG: JSON.stringify(job.request.presaleConfig),
+      ARTIFACT_PATH: getArtifactPath((await getContractArtifact('PresaleContract')).hash),
+      VERIFY: job.request.verify ? "true" : "false",
+      DEPLOYER_ADDRESS: job.owner_address
+    }
+  }),
+  onComplete: async (job, result) => {
+    const { presaleConfig } = job.request;
+    const network = job.network;
+    
+    await query(
+      `INSERT INTO presales 
+      (contract_address, token_address, owner_address, sale_type, token_info, 
+       sale_configuration, vesting_config, wallet_setup, network_id, network_name, 
+       network_chain_id, transaction_hash, verified) 
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        result.contractAddress.toLowerCase(),
+        presaleConfig.tokenInfo.tokenAddress.toLowerCase(),
+        job.owner_address,
+        presaleConfig.saleType,
+        JSON.stringify(presaleConfig.tokenInfo),
+        JSON.stringify(presaleConfig.saleConfiguration),
+        JSON.stringify(presaleConfig.vestingConfig),
+        JSON.stringify(presaleConfig.walletSetup),
+        network,
+        network, // This would be the network name in a real implementation
+        getChainId(network),
+        result.transactionHash,
+        result.verified || false
+      ]
+    );
+    
+    return { network: NETWORK_MAPPING[network], timestamp: new Date().toISOString() };
+  }
+});
+
 // Deploy token contract
 router.post('/token', authenticate, validateTokenConfig, async (req, res) => {
   try {
-    const { contractType, constructorArgs, network, verify = true, useFactory = false } = req.body;
+    const { contractType, constructorArgs, network, verify = true } = req.body;
     const userId = req.user.id;
     
-    console.log(`Deploying ${contractType} for user ${userId} on ${network}`);
+    // Upgradeable tokens are deployed as implementation + proxy, which the factory cannot do; other
+    // types it has no template for are deployed directly
+    const upgradeable = contractType.includes('Upgradeable');
+    const useFactory = !upgradeable && !!req.body.useFactory && !!factoryInterface.getFunction(`create${contractType}`);
+    // CREATE2 salt for factory deployments; the same salt and arguments give the same address on every chain
+    const salt = useFactory ? req.body.salt : undefined;
+    // Set when the same token is deployed to several networks
+    const projectId = req.body.projectId ?? null;
+    
+    console.log(`Queueing ${contractType} deployment for user ${userId} on ${network}`);
     
     // Map network name to Hardhat network
     const hardhatNetwork = NETWORK_MAPPING[network];
@@ -39,6 +255,18 @@ router.post('/token', authenticate, validateTokenConfig, async (req, res) => {
       return res.status(400).json({ error: `Unsupported network: ${network}` });
     }
     
+    // A repeated request is answered with its job before the balance is checked again; a key reused
+    // for another deployment is refused
+    const payload = { contractType, constructorArgs, verify, useFactory, upgradeable, salt, projectId };
+    const idempotencyKey = getIdempotencyKey(req);
+    const existingJob = idempotencyKey ? await findJobByKey(userId, idempotencyKey) : null;
+    if (existingJob && existingJob.status !== 'failed') {
+      if (!matchesRequest(existingJob, getRequestHash('token', network, payload))) {
+        return res.status(409).json({ error: IDEMPOTENCY_CONFLICT });
+      }
+      return res.json(serializeJob(existingJob));
+    }
+    
     // Check if user has enough ESR tokens for mainnet deployment
     if (!network.includes('testnet') && !network.includes('goerli') && !network.includes('sepolia')) {
       try {
@@ -65,122 +293,22 @@ router.post('/token', authenticate, validateTokenConfig, async (req, res) => {
       }
     }
     
-    // Set environment variables for the deployment script
-    const env = {
-      ...process.env,
-      CONTRACT_TYPE: contractType,
-      CONSTRUCTOR_ARGS: JSON.stringify(constructorArgs),
-      USE_FACTORY: useFactory ? "true" : "false",
-      VERIFY: verify ? "true" : "false",
-      DEPLOYER_ADDRESS: userId
-    };
-    
-    // Run Hardhat deployment script
-    const scriptPath = path.join(__dirname, '..', '..', 'scripts', 'deploy-token.js');
-    const command = `npx hardhat run ${scriptPath} --network ${hardhatNetwork}`;
-    
-    console.log(`Executing: ${command}`);
-    
-    exec(command, { env, cwd: path.join(__dirname, '..', '..') }, async (error, stdout, stderr) => {
-      if (error) {
-        console.error(`Deployment error: ${error}`);
-        console.error(`stderr: ${stderr}`);
-        return res.status(500).json({ 
-          error: 'Deployment failed', 
-          details: error.message,
-          stderr: stderr
-        });
-      }
-      
-      try {
-        // Parse deployment result from stdout
-        const lines = stdout.split('\n');
-        const resultLine = lines.find(line => line.includes('Deployment result:'));
-        
-        if (!resultLine) {
-          throw new Error('No deployment result found in output');
-        }
-        
-        const result = JSON.parse(resultLine.replace('Deployment result:', '').trim());
-        
-        if (!result.success) {
-          return res.status(500).json({ 
-            error: 'Deployment failed', 
-            details: result.error 
-          });
-        }
-        
-        // Save deployment to database
-        try {
-          await query(
-            `INSERT INTO tokens 
-            (contract_address, contract_type, name, symbol, decimals, initial_supply, max_supply, 
-             owner_address, network_id, network_name, network_chain_id, transaction_hash, verified, features) 
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
-            [
-              result.contractAddress.toLowerCase(),
-              contractType,
-              constructorArgs[0], // name
-              constructorArgs[1], // symbol
-              constructorArgs[2], // decimals
-              constructorArgs[3], // initialSupply
-              constructorArgs[4], // maxSupply
-              userId,
-              network,
-              network, // This would be the network name in a real implementation
-              getChainId(network), // This would be the chain ID in a real implementation
-              result.transactionHash,
-              result.verified || false,
-              JSON.stringify({
-                burnable: contractType.includes('Burnable'),
-                mintable: contractType.includes('Mintable'),
-                transferFees: contractType.includes('Fee') ? {
-                  enabled: true,
-                  percentage: constructorArgs[5] / 100, // Convert from basis points
-                  recipient: constructorArgs[6]
-                } : {
-                  enabled: false,
-                  percentage: 0,
-                  recipient: ''
-                },
-                holderRedistribution: contractType.includes('Redistribution') ? {
-                  enabled: true,
-                  percentage: contractType.includes('Advanced') ? constructorArgs[7] / 100 : constructorArgs[5] / 100
-                } : {
-                  enabled: false,
-                  percentage: 0
-                }
-              })
-            ]
-          );
-        } catch (dbError) {
-          console.error('Error saving deployment to database:', dbError);
-          // Continue even if database save fails
-        }
-        
-        // Return deployment details
-        res.json({
-          success: true,
-          contractAddress: result.contractAddress,
-          transactionHash: result.transactionHash,
-          gasUsed: result.gasUsed,
-          deploymentCost: result.deploymentCost,
-          network: hardhatNetwork,
-          verified: result.verified,
-          timestamp: new Date().toISOString()
-        });
-        
-      } catch (parseError) {
-        console.error('Error parsing deployment result:', parseError);
-        console.error('stdout:', stdout);
-        res.status(500).json({ 
-          error: 'Failed to parse deployment result',
-          details: parseError.message
-        });
-      }
+    // Deployments run in the background; the client follows the job through /jobs/:id/events
+    const { job, created } = await enqueueJob({
+      kind: 'token',
+      ownerAddress: userId,
+      network,
+      payload,
+      idempotencyKey
     });
     
+    res.status(created ? 202 : 200).json(serializeJob(job));
+    
   } catch (error) {
+    // A concurrent request queued another deployment under the same key
+    if (error.code === 'IDEMPOTENCY_CONFLICT') {
+      return res.status(409).json({ error: IDEMPOTENCY_CONFLICT });
+    }
     console.error('Token deployment error:', error);
     res.status(500).json({ error: error.message });
   }
@@ -195,6 +323,7 @@ function getChainId(network) {
     'arbitrum': 42161,
     'fantom': 250,
     'avalanche': 43114,
+    'base': 8453,
     'goerli': 5,
     'bsc-testnet': 97,
     'mumbai': 80001,
@@ -211,7 +340,7 @@ router.post('/presale', authenticate, validatePresaleConfig, async (req, res) =>
     const { presaleConfig, network, verify = true } = req.body;
     const userId = req.user.id;
     
-    console.log(`Deploying presale for user ${userId} on ${network}`);
+    console.log(`Queueing presale deployment for user ${userId} on ${network}`);
     
     // Map network name to Hardhat network
     const hardhatNetwork = NETWORK_MAPPING[network];
@@ -219,6 +348,18 @@ router.post('/presale', authenticate, validatePresaleConfig, async (req, res) =>
       return res.status(400).json({ error: `Unsupported network: ${network}` });
     }
     
+    // A repeated request is answered with its job before the balance is checked again; a key reused
+    // for another deployment is refused
+    const payload = { presaleConfig, verify };
+    const idempotencyKey = getIdempotencyKey(req);
+    const existingJob = idempotencyKey ? await findJobByKey(userId, idempotencyKey) : null;
+    if (existingJob && existingJob.status !== 'failed') {
+      if (!matchesRequest(existingJob, getRequestHash('presale', network, payload))) {
+        return res.status(409).json({ error: IDEMPOTENCY_CONFLICT });
+      }
+      return res.json(serializeJob(existingJob));
+    }
+    
     // Check if user has enough ESR tokens for mainnet deployment
     if (!network.includes('testnet') && !network.includes('goerli') && !network.includes('sepolia')) {
       try {
@@ -245,107 +386,121 @@ router.post('/presale', authenticate, validatePresaleConfig, async (req, res) =>
       }
     }
     
-    // Set environment variables for the deployment script
-    const env = {
-      ...process.env,
-      PRESALE_CONFIG: JSON.stringify(presaleConfig),
-      VERIFY: verify ? "true" : "false",
-      DEPLOYER_ADDRESS: userId
-    };
+    const { job, created } = await enqueueJob({
+      kind: 'presale',
+      ownerAddress: userId,
+      network,
+      payload,
+      idempotencyKey
+    });
     
-    // Run Hardhat deployment script
-    const scriptPath = path.join(__dirname, '..', '..', 'scripts', 'deploy-presale.js');
-    const command = `npx hardhat run ${scriptPath} --network ${hardhatNetwork}`;
+    res.status(created ? 202 : 200).json(serializeJob(job));
     
-    console.log(`Executing: ${command}`);
+  } catch (error) {
+    if (error.code === 'IDEMPOTENCY_CONFLICT') {
+      return res.status(409).json({ error: IDEMPOTENCY_CONFLICT });
+    }
+    console.error('Presale deployment error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Latest deployment job for an idempotency key, so a reloaded page can pick its deployment up again
+router.get('/jobs', authenticate, async (req, res) => {
+  try {
+    const { idempotencyKey } = req.query;
+    if (!idempotencyKey) {
+      return res.status(400).json({ error: 'idempotencyKey is required' });
+    }
     
-    exec(command, { env, cwd: path.join(__dirname, '..', '..') }, async (error, stdout, stderr) => {
-      if (error) {
-        console.error(`Presale deployment error: ${error}`);
-        console.error(`stderr: ${stderr}`);
-        return res.status(500).json({ 
-          error: 'Presale deployment failed', 
-          details: error.message,
-          stderr: stderr
-        });
-      }
-      
-      try {
-        // Parse deployment result from stdout
-        const lines = stdout.split('\n');
-        const resultLine = lines.find(line => line.includes('Deployment result:'));
-        
-        if (!resultLine) {
-          throw new Error('No deployment result found in output');
-        }
-        
-        const result = JSON.parse(resultLine.replace('Deployment result:', '').trim());
-        
-        if (!result.success) {
-          return res.status(500).json({ 
-            error: 'Presale deployment failed', 
-            details: result.error 
-          });
-        }
-        
-        // Save deployment to database
-        try {
-          await query(
-            `INSERT INTO presales 
-            (contract_address, token_address, owner_address, sale_type, token_info, 
-             sale_configuration, vesting_config, wallet_setup, network_id, network_name, 
-             network_chain_id, transaction_hash, verified) 
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
-            [
-              result.contractAddress.toLowerCase(),
-              presaleConfig.tokenInfo.tokenAddress.toLowerCase(),
-              userId,
-              presaleConfig.saleType,
-              JSON.stringify(presaleConfig.tokenInfo),
-              JSON.stringify(presaleConfig.saleConfiguration),
-              JSON.stringify(presaleConfig.vestingConfig),
-              JSON.stringify(presaleConfig.walletSetup),
-              network,
-              network, // This would be the network name in a real implementation
-              getChainId(network),
-              result.transactionHash,
-              result.verified || false
-            ]
-          );
-        } catch (dbError) {
-          console.error('Error saving presale to database:', dbError);
-          // Continue even if database save fails
-        }
-        
-        // Return deployment details
-        res.json({
-          success: true,
-          contractAddress: result.contractAddress,
-          transactionHash: result.transactionHash,
-          gasUsed: result.gasUsed,
-          deploymentCost: result.deploymentCost,
-          network: hardhatNetwork,
-          verified: result.verified,
-          salePageUrl: result.salePageUrl,
-          timestamp: new Date().toISOString()
-        });
-        
-      } catch (parseError) {
-        console.error('Error parsing presale deployment result:', parseError);
-        console.error('stdout:', stdout);
-        res.status(500).json({ 
-          error: 'Failed to parse presale deployment result',
-          details: parseError.message
-        });
-      }
-    });
+    const job = await findJobByKey(req.user.id, String(idempotencyKey));
+    if (!job) {
+      return res.status(404).json({ error: 'Deployment job not found' });
+    }
     
+    res.json(serializeJob(job));
   } catch (error) {
-    console.error('Presale deployment error:', error);
+    console.error('Error fetching deployment job:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Deployment job with its logs
+router.get('/jobs/:id', authenticate, async (req, res) => {
+  try {
+    const job = await getJob(req.params.id);
+    if (!job || job.owner_address !== req.user.id) {
+      return res.status(404).json({ error: 'Deployment job not found' });
+    }
+    
+    res.json(serializeJob(job, { includeLogs: true }));
+  } catch (error) {
+    console.error('Error fetching deployment job:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Server-sent events for a deployment job: a `snapshot` with the logs so far, then `update` and `log`
+// events until the job is confirmed, verified or failed
+router.get('/jobs/:id/events', authenticate, async (req, res) => {
+  const channel = `job:${req.params.id}`;
+  const pending = [];
+  let ready = false;
+  let heartbeat;
+  
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  
+  const close = () => {
+    clearInterval(heartbeat);
+    jobEvents.off(channel, listener);
+    res.end();
+  };
+  
+  // Subscribed before reading the job so no status change between the two is missed
+  function listener(event) {
+    if (!ready) {
+      if (event.type === 'update') pending.push(event);
+      return;
+    }
+    
+    send(event.type, event.type === 'log' ? { text: event.text } : event.job);
+    if (event.type === 'update' && event.job.done) close();
+  }
+  jobEvents.on(channel, listener);
+  
+  try {
+    const job = await getJob(req.params.id);
+    if (!job || job.owner_address !== req.user.id) {
+      jobEvents.off(channel, listener);
+      return res.status(404).json({ error: 'Deployment job not found' });
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    
+    send('snapshot', serializeJob(job, { includeLogs: true }));
+    if (isTerminal(job)) return close();
+    
+    ready = true;
+    pending.forEach(listener);
+    
+    heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    req.on('close', close);
+  } catch (error) {
+    console.error('Error streaming deployment job:', error);
+    jobEvents.off(channel, listener);
+    if (!res.headersSent) {
+      res.status(500).json({ error: error.message });
+    } else {
+      res.end();
+    }
+  }
+});
+
 // Get deployment status
 router.get('/status/:txHash', authenticate, async (req, res) => {
   try {
@@ -414,10 +569,56 @@ router.get('/status/:txHash', authenticate, async (req, res) => {
   }
 });
 
+// Native token of each network for pricing gas; testnet gas has no value
+const NETWORK_SYMBOLS = {
+  'ethereum': 'ETH',
+  'bsc': 'BNB',
+  'polygon': 'MATIC',
+  'arbitrum': 'ETH',
+  'fantom': 'FTM',
+  'avalanche': 'AVAX',
+  'base': 'ETH'
+};
+
+const DEPLOYMENT_TIMES = {
+  'ethereum': '2-5 minutes',
+  'bsc': '30-60 seconds',
+  'polygon': '30-60 seconds',
+  'arbitrum': '30-60 seconds',
+  'fantom': '15-30 seconds',
+  'avalanche': '30-60 seconds',
+  'goerli': '30-60 seconds',
+  'bsc-testnet': '15-30 seconds',
+  'mumbai': '15-30 seconds',
+  'arbitrum-sepolia': '15-30 seconds',
+  'estar-testnet': '5-15 seconds'
+};
+
+const FACTORY_ABI = [
+  'function creationFee() view returns (uint256)',
+  'function createBasicToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)',
+  'function createBurnableToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)',
+  'function createMintableToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)',
+  'function createBurnableMintableToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)'
+];
+
+const factoryInterface = new ethers.Interface(FACTORY_ABI);
+
+// Factory the deploy script uses on the network: the one it recorded, or TOKEN_FACTORY_ADDRESS
+function getFactoryAddress(hardhatNetwork) {
+  try {
+    const factoryFile = path.join(__dirname, '..', '..', 'deployments', 'factories', `${hardhatNetwork}-factory.json`);
+    return JSON.parse(fs.readFileSync(factoryFile, 'utf8')).address;
+  } catch (error) {
+    return process.env.TOKEN_FACTORY_ADDRESS || null;
+  }
+}
+
 // Estimate gas for deployment
 router.post('/estimate', authenticate, validateTokenConfig, async (req, res) => {
   try {
-    const { contractType, constructorArgs, network, useFactory = false } = req.body;
+    const { contractType, constructorArgs, network, useFactory = false, salt } = req.body;
+    const upgradeable = contractType.includes('Upgradeable');
     
     // Map network name to Hardhat network
     const hardhatNetwork = NETWORK_MAPPING[network];
@@ -433,152 +634,104 @@ router.post('/estimate', authenticate, validateTokenConfig, async (req, res) =>
     
     // Connect to network
     const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const timeEstimate = DEPLOYMENT_TIMES[network] || '1-3 minutes';
     
-    // Get contract source
-    const contractSourcePath = path.join(__dirname, '..', '..', 'contracts', 'tokens', `${contractType}.sol`);
-    let contractSource;
-    
-    try {
-      contractSource = fs.readFileSync(contractSourcePath, 'utf8');
-    } catch (readError) {
-      console.error(`Error reading contract source: ${readError}`);
-      return res.status(500).json({ error: 'Failed to read contract source', details: readError.message });
-    }
-    
-    // Compile contract
-    const solc = require('solc');
-    
-    const input = {
-      language: 'Solidity',
-      sources: {
-        'contract.sol': {
-          content: contractSource
-        }
-      },
-      settings: {
-        outputSelection: {
-          '*': {
-            '*': ['abi', 'evm.bytecode', 'evm.gasEstimates']
-          }
-        },
-        optimizer: {
-          enabled: true,
-          runs: 200
-        }
-      }
-    };
-    
-    const output = JSON.parse(solc.compile(JSON.stringify(input)));
-    
-    if (output.errors) {
-      const errors = output.errors.filter(error => error.severity === 'error');
-      if (errors.length > 0) {
-        return res.status(500).json({ 
-          error: 'Compilation failed', 
-          details: errors.map(e => e.message).join('\n') 
-        });
-      }
-    }
-    
-    const contract = output.contracts['contract.sol'][contractType];
-    const bytecode = contract.evm.bytecode.object;
-    const abi = contract.abi;
+    // Estimated as the deployer wallet, which also replaces the owner placeholder as in deployments
+    const from = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY).address : ethers.ZeroAddress;
+    const args = (constructorArgs || []).map(arg => arg === 'DEPLOYER_ADDRESS' ? from : arg);
     
     // Estimate gas
     try {
-      // Get gas price
-      const feeData = await provider.getFeeData();
-      const gasPrice = feeData.gasPrice || ethers.parseUnits('50', 'gwei');
-      
-      // Estimate deployment gas
       let gasEstimate;
+      let creationFee = 0n;
       
-      if (useFactory) {
-        // Factory deployment typically uses ~30% less gas
-        const factoryGasReduction = 0.7; // 30% reduction
-        
-        // Create deployment transaction data
-        const iface = new ethers.Interface(abi);
-        const deployData = iface.encodeDeploy(constructorArgs);
-        
-        // Estimate gas for direct deployment
-        const directGasEstimate = await provider.estimateGas({
-          data: '0x' + bytecode + deployData.slice(2)
-        });
-        
-        // Apply factory reduction
-        gasEstimate = BigInt(Math.floor(Number(directGasEstimate) * factoryGasReduction));
+      // Only the immutable token types the factory knows can be created through it
+      const factoryAddress = useFactory && factoryInterface.getFunction(`create${contractType}`)
+        ? getFactoryAddress(hardhatNetwork)
+        : null;
+      const factoryAvailable = !!factoryAddress && (await provider.getCode(factoryAddress)) !== '0x';
+      
+      if (factoryAvailable) {
+        // The factory's create call, including the fee it charges
+        const factory = new ethers.Contract(factoryAddress, factoryInterface, provider);
+        const create = factory.getFunction(`create${contractType}`);
+        creationFee = await factory.creationFee();
+        gasEstimate = await create.estimateGas(...args, salt || ethers.ZeroHash, { from, value: creationFee });
       } else {
-        // Create deployment transaction data
-        const iface = new ethers.Interface(abi);
-        const deployData = iface.encodeDeploy(constructorArgs);
+        // The contract generated for the type, compiled through the artifact store so it is only compiled once
+        let artifact;
+        let proxyArtifact;
+        try {
+          [artifact, proxyArtifact] = await Promise.all([
+            getContractArtifact(contractType),
+            upgradeable ? getProxyArtifact() : null
+          ]);
+        } catch (compileError) {
+          return res.status(500).json({ 
+            error: 'Compilation failed', 
+            details: compileError.message 
+          });
+        }
         
-        // Estimate gas
-        gasEstimate = await provider.estimateGas({
-          data: '0x' + bytecode + deployData.slice(2)
-        });
+        const tokenInterface = new ethers.Interface(artifact.abi);
+        const creationCode = '0x' + artifact.bytecode;
+        if (upgradeable) {
+          // The implementation and then an ERC-1967 proxy calling initialize, as scripts/deploy-token.js
+          // deploys them. The proxy's constructor calls into the implementation, so the proxy is estimated
+          // with state overrides: the implementation's code at the address it will be deployed to, and the
+          // deployer's nonce after that deployment so the proxy is not created at the same address
+          const nonce = await provider.getTransactionCount(from);
+          const implementationAddress = ethers.getCreateAddress({ from, nonce });
+          const [implementationGas, implementationCode] = await Promise.all([
+            provider.estimateGas({ from, data: creationCode + tokenInterface.encodeDeploy([]).slice(2) }),
+            provider.call({ from, data: creationCode })
+          ]);
+          const proxyDeployData = new ethers.Interface(proxyArtifact.abi).encodeDeploy([
+            implementationAddress,
+            tokenInterface.encodeFunctionData('initialize', args)
+          ]);
+          const proxyGas = await provider.send('eth_estimateGas', [
+            { from, data: '0x' + proxyArtifact.bytecode + proxyDeployData.slice(2) },
+            'latest',
+            { [implementationAddress]: { code: implementationCode }, [from]: { nonce: ethers.toQuantity(nonce + 1) } }
+          ]);
+          gasEstimate = implementationGas + BigInt(proxyGas);
+        } else {
+          gasEstimate = await provider.estimateGas({
+            from,
+            data: creationCode + tokenInterface.encodeDeploy(args).slice(2)
+          });
+        }
       }
       
-      // Calculate cost
-      const gasCost = gasEstimate * gasPrice;
-      const gasCostEther = ethers.formatEther(gasCost);
-      
-      // Get token price in USD (simplified)
-      const tokenPrices = {
-        'ethereum': 2500,
-        'bsc': 300,
-        'polygon': 0.80,
-        'arbitrum': 2500,
-        'fantom': 0.40,
-        'avalanche': 30,
-        'goerli': 0,
-        'bsc-testnet': 0,
-        'mumbai': 0,
-        'arbitrum-sepolia': 0,
-        'estar-testnet': 0
-      };
-      
-      const tokenPrice = tokenPrices[network] || 0;
-      const gasCostUsd = (parseFloat(gasCostEther) * tokenPrice).toFixed(2);
-      
-      // Estimate deployment time
-      const deploymentTimes = {
-        'ethereum': '2-5 minutes',
-        'bsc': '30-60 seconds',
-        'polygon': '30-60 seconds',
-        'arbitrum': '30-60 seconds',
-        'fantom': '15-30 seconds',
-        'avalanche': '30-60 seconds',
-        'goerli': '30-60 seconds',
-        'bsc-testnet': '15-30 seconds',
-        'mumbai': '15-30 seconds',
-        'arbitrum-sepolia': '15-30 seconds',
-        'estar-testnet': '5-15 seconds'
-      };
-      
-      const timeEstimate = deploymentTimes[network] || '1-3 minutes';
+      // Fee tiers are computed as the app computes them
+      const { getNetworkFees, getFeeTierEstimates } = await loadAppModule('/src/services/gasEstimation.ts');
+      const symbol = NETWORK_SYMBOLS[network];
+      const [fees, usdPrice] = await Promise.all([
+        getNetworkFees(provider),
+        symbol ? getUsdPrice(symbol) : 0
+      ]);
+      const tiers = getFeeTierEstimates(gasEstimate, fees, usdPrice, timeEstimate);
+      const normal = tiers.find(tier => tier.tier === 'normal');
       
       res.json({
         gasEstimate: gasEstimate.toString(),
-        gasPrice: ethers.formatUnits(gasPrice, 'gwei'),
-        gasCost: gasCostEther,
-        gasCostUsd: `$${gasCostUsd}`,
-        timeEstimate,
-        useFactory
+        gasPrice: ethers.formatUnits(fees.tiers.normal.expectedGasPrice, 'gwei'),
+        gasCost: normal.gasCost,
+        gasCostUsd: normal.gasCostUsd === null ? null : `$${normal.gasCostUsd.toFixed(2)}`,
+        timeEstimate: normal.timeEstimate,
+        useFactory,
+        factoryAvailable,
+        factoryAddress: factoryAvailable ? factoryAddress : null,
+        creationFee: ethers.formatEther(creationFee),
+        creationFeeUsd: usdPrice === null ? null : parseFloat(ethers.formatEther(creationFee)) * usdPrice,
+        eip1559: fees.eip1559,
+        baseFeePerGas: ethers.formatUnits(fees.baseFeePerGas, 'gwei'),
+        tiers
       });
     } catch (estimateError) {
       console.error('Gas estimation error:', estimateError);
-      
-      // Return fallback estimates
-      res.json({
-        gasEstimate: '3000000',
-        gasPrice: '50',
-        gasCost: '0.025',
-        gasCostUsd: '$65',
-        timeEstimate: '1-3 minutes',
-        useFactory,
-        error: 'Estimation failed, using fallback values'
-      });
+      res.status(502).json({ error: 'Gas estimation failed', details: estimateError.shortMessage || estimateError.message });
     }
     
   } catch (error) {
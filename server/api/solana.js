@@ -6,7 +6,9 @@ const {
   mintTo, 
   transfer, 
   getMint, 
-  getAccount 
+  getAccount,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID
 } = require('@solana/spl-token');
 const { authenticate } = require('../middleware/auth');
 const { query } = require('../db');
@@ -35,54 +37,70 @@ const getConnection = (networkId) => {
   return new Connection(endpoint, 'confirmed');
 };
 
-// Create SPL token
+// Register an SPL token created client-side by the user's wallet
 router.post('/token', authenticate, async (req, res) => {
   try {
     const { 
+      mint,
+      tokenAccount,
+      transactionSignature,
+      metadataAddress,
       name, 
       symbol, 
       decimals, 
       initialSupply, 
       freezeAuthority, 
       metadata, 
-      network 
+      network,
+      tokenProgram,
+      extensions
     } = req.body;
     
     const userId = req.user.id;
     
     // Validate request
-    if (!name || !symbol || decimals === undefined || !initialSupply || !network) {
+    if (!mint || !transactionSignature || !name || !symbol || decimals === undefined || !initialSupply || !network) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
     // Get connection
     const connection = getConnection(network.id);
     
-    // In a real implementation, you would:
-    // 1. Get the user's private key securely (or use a signing API)
-    // 2. Create the token mint
-    // 3. Create token account
-    // 4. Mint initial supply
-    // 5. Create metadata if enabled
+    const isToken2022 = tokenProgram === 'token-2022';
     
-    // For this demo, we'll simulate a successful token creation
-    const mockMint = 'So1ana' + Date.now().toString(36);
-    const mockTokenAccount = 'TokenAccount' + Date.now().toString(36);
+    // The mint must exist on-chain and be controlled by the registering wallet
+    let mintInfo;
+    try {
+      mintInfo = await getMint(
+        connection,
+        new PublicKey(mint),
+        'confirmed',
+        isToken2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID
+      );
+    } catch (error) {
+      return res.status(400).json({ error: 'Mint account not found on-chain' });
+    }
+    
+    if (!mintInfo.mintAuthority || mintInfo.mintAuthority.toBase58() !== userId) {
+      return res.status(403).json({ error: 'Mint authority does not match the authenticated wallet' });
+    }
     
     // Save token to database
     await query(
       `INSERT INTO solana_tokens 
-       (mint_address, name, symbol, decimals, supply, owner_address, freeze_authority, network_id) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+       (mint_address, name, symbol, decimals, supply, owner_address, freeze_authority, network_id, token_program, extensions) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
       [
-        mockMint,
+        mint,
         name,
         symbol,
         decimals,
         initialSupply,
         userId,
         freezeAuthority,
-        network.id
+        network.id,
+        isToken2022 ? 'token-2022' : 'spl-token',
+        isToken2022 && extensions ? JSON.stringify(extensions) : null
       ]
     );
     
@@ -90,32 +108,54 @@ router.post('/token', authenticate, async (req, res) => {
     if (metadata?.enabled) {
       await query(
         `INSERT INTO solana_token_metadata 
-         (mint_address, name, symbol, description, external_url) 
-         VALUES ($1, $2, $3, $4, $5)`,
+         (mint_address, name, symbol, description, image_url, external_url, metadata_address, uri, update_authority, is_mutable) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
         [
-          mockMint,
+          mint,
           name,
           symbol,
           metadata.description || '',
-          metadata.externalUrl || ''
+          metadata.image || null,
+          metadata.externalUrl || '',
+          metadataAddress || null,
+          metadata.uri || null,
+          userId,
+          metadata.isMutable !== false
         ]
       );
     }
     
+    // Record the creation transaction
+    await query(
+      `INSERT INTO solana_transactions 
+       (signature, transaction_type, from_address, to_address, amount, mint_address, network_id) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        transactionSignature,
+        'CREATE',
+        userId,
+        tokenAccount || userId,
+        initialSupply,
+        mint,
+        network.id
+      ]
+    );
+    
     // Return token details
     res.json({
       success: true,
-      mint: mockMint,
-      tokenAccount: mockTokenAccount,
-      transactionSignature: 'signature' + Date.now().toString(36),
+      mint,
+      tokenAccount,
+      transactionSignature,
       network: network,
-      explorerUrl: `${network.explorerUrl}/address/${mockMint}`,
-      metadataAddress: metadata?.enabled ? 'metadata' + Date.now().toString(36) : undefined
+      explorerUrl: `${network.explorerUrl}/address/${mint}`,
+      metadataAddress,
+      tokenProgram: isToken2022 ? 'token-2022' : 'spl-token'
     });
     
   } catch (error) {
-    console.error('Error creating SPL token:', error);
-    res.status(500).json({ error: 'Failed to create token', details: error.message });
+    console.error('Error registering SPL token:', error);
+    res.status(500).json({ error: 'Failed to register token', details: error.message });
   }
 });
 
@@ -160,6 +200,8 @@ router.get('/token/:mintAddress', async (req, res) => {
       owner: token.owner_address,
       freezeAuthority: token.freeze_authority,
       network: token.network_id,
+      tokenProgram: token.token_program || 'spl-token',
+      extensions: token.extensions,
       metadata: metadata ? {
         name: metadata.name,
         symbol: metadata.symbol,
@@ -167,7 +209,11 @@ router.get('/token/:mintAddress', async (req, res) => {
         image: metadata.image_url,
         externalUrl: metadata.external_url,
         creators: metadata.creators,
-        attributes: metadata.attributes
+        attributes: metadata.attributes,
+        metadataAddress: metadata.metadata_address,
+        uri: metadata.uri,
+        updateAuthority: metadata.update_authority,
+        isMutable: metadata.is_mutable
       } : null
     });
     
@@ -177,6 +223,144 @@ router.get('/token/:mintAddress', async (req, res) => {
   }
 });
 
+// Serve off-chain metadata JSON (Metaplex fungible standard) referenced by the on-chain URI
+router.get('/metadata/:mintAddress.json', async (req, res) => {
+  try {
+    const { mintAddress } = req.params;
+    
+    const metadataResult = await query(
+      'SELECT * FROM solana_token_metadata WHERE mint_address = $1',
+      [mintAddress]
+    );
+    
+    if (metadataResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Metadata not found' });
+    }
+    
+    const metadata = metadataResult.rows[0];
+    
+    res.json({
+      name: metadata.name,
+      symbol: metadata.symbol,
+      description: metadata.description || '',
+      image: metadata.image_url || '',
+      external_url: metadata.external_url || '',
+      attributes: metadata.attributes || [],
+      properties: {
+        category: 'currency',
+        creators: metadata.creators || [],
+        files: metadata.image_url ? [{ uri: metadata.image_url, type: 'image/png' }] : []
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error getting token metadata JSON:', error);
+    res.status(500).json({ error: 'Failed to get token metadata', details: error.message });
+  }
+});
+
+// Record metadata changes after the owner's wallet has updated or locked the on-chain account
+router.put('/token/:mintAddress/metadata', authenticate, async (req, res) => {
+  try {
+    const { mintAddress } = req.params;
+    const {
+      name,
+      symbol,
+      description,
+      image,
+      externalUrl,
+      metadataAddress,
+      uri,
+      updateAuthority,
+      isMutable
+    } = req.body;
+    const userId = req.user.id;
+    
+    // Check ownership
+    const tokenResult = await query(
+      'SELECT * FROM solana_tokens WHERE mint_address = $1',
+      [mintAddress]
+    );
+    
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+    
+    if (tokenResult.rows[0].owner_address !== userId) {
+      return res.status(403).json({ error: 'Only the token owner can update metadata' });
+    }
+    
+    const existing = await query(
+      'SELECT is_mutable FROM solana_token_metadata WHERE mint_address = $1',
+      [mintAddress]
+    );
+    
+    if (existing.rows.length > 0 && existing.rows[0].is_mutable === false) {
+      return res.status(400).json({ error: 'Token metadata is locked' });
+    }
+    
+    const result = await query(
+      `INSERT INTO solana_token_metadata 
+       (mint_address, name, symbol, description, image_url, external_url, metadata_address, uri, update_authority, is_mutable) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10, TRUE)) 
+       ON CONFLICT (mint_address) DO UPDATE SET 
+         name = COALESCE($2, solana_token_metadata.name),
+         symbol = COALESCE($3, solana_token_metadata.symbol),
+         description = COALESCE($4, solana_token_metadata.description),
+         image_url = COALESCE($5, solana_token_metadata.image_url),
+         external_url = COALESCE($6, solana_token_metadata.external_url),
+         metadata_address = COALESCE($7, solana_token_metadata.metadata_address),
+         uri = COALESCE($8, solana_token_metadata.uri),
+         update_authority = COALESCE($9, solana_token_metadata.update_authority),
+         is_mutable = COALESCE($10, solana_token_metadata.is_mutable) 
+       RETURNING *`,
+      [
+        mintAddress,
+        name ?? null,
+        symbol ?? null,
+        description ?? null,
+        image ?? null,
+        externalUrl ?? null,
+        metadataAddress ?? null,
+        uri ?? null,
+        updateAuthority ?? null,
+        isMutable ?? null
+      ]
+    );
+    
+    // Keep the token record in sync with the on-chain name and symbol
+    if (name || symbol) {
+      await query(
+        `UPDATE solana_tokens 
+         SET name = COALESCE($1, name), symbol = COALESCE($2, symbol) 
+         WHERE mint_address = $3`,
+        [name ?? null, symbol ?? null, mintAddress]
+      );
+    }
+    
+    const metadata = result.rows[0];
+    
+    res.json({
+      success: true,
+      metadata: {
+        name: metadata.name,
+        symbol: metadata.symbol,
+        description: metadata.description,
+        image: metadata.image_url,
+        externalUrl: metadata.external_url,
+        metadataAddress: metadata.metadata_address,
+        uri: metadata.uri,
+        updateAuthority: metadata.update_authority,
+        isMutable: metadata.is_mutable
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error updating token metadata:', error);
+    res.status(500).json({ error: 'Failed to update token metadata', details: error.message });
+  }
+});
+
 // Get user's tokens
 router.get('/tokens', authenticate, async (req, res) => {
   try {
@@ -4,6 +4,7 @@ const path = require('path');
 const fs = require('fs');
 const { query } = require('../db');
 const { authenticate } = require('../middleware/auth');
+const { parseChainId } = require('../middleware/validation');
 const { Web3Storage, File } = require('web3.storage');
 const { ethers } = require('ethers');
 
@@ -129,16 +130,17 @@ router.post('/temporary', authenticate, async (req, res) => {
 router.post('/link', authenticate, async (req, res) => {
   try {
     const { tokenAddress, sessionId } = req.body;
+    const chainId = parseChainId(req.body.chainId);
     const userAddress = req.user.address.toLowerCase();
     
-    if (!tokenAddress || !sessionId) {
-      return res.status(400).json({ error: 'Token address and session ID are required' });
+    if (!tokenAddress || !sessionId || !chainId) {
+      return res.status(400).json({ error: 'Token address, chain ID and session ID are required' });
     }
     
     // Validate token ownership
     const tokenResult = await query(
-      'SELECT owner_address FROM tokens WHERE contract_address = $1',
-      [tokenAddress.toLowerCase()]
+      'SELECT owner_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [tokenAddress.toLowerCase(), chainId]
     );
     
     if (tokenResult.rows.length === 0) {
@@ -282,12 +284,17 @@ router.post('/link', authenticate, async (req, res) => {
 router.get('/:tokenAddress/history', authenticate, async (req, res) => {
   try {
     const { tokenAddress } = req.params;
+    const chainId = parseChainId(req.query.chainId);
     const userAddress = req.user.address.toLowerCase();
     
+    if (!chainId) {
+      return res.status(400).json({ error: 'Chain ID is required' });
+    }
+    
     // Validate token ownership
     const tokenResult = await query(
-      'SELECT owner_address FROM tokens WHERE contract_address = $1',
-      [tokenAddress.toLowerCase()]
+      'SELECT owner_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [tokenAddress.toLowerCase(), chainId]
     );
     
     if (tokenResult.rows.length === 0) {
@@ -380,9 +387,14 @@ router.post('/', authenticate, async (req, res) => {
     
     // If token address is provided, verify ownership
     if (metadata.tokenAddress) {
+      const chainId = parseChainId(metadata.chainId);
+      if (!chainId) {
+        return res.status(400).json({ error: 'Chain ID is required' });
+      }
+      
       const tokenResult = await query(
-        'SELECT owner_address FROM tokens WHERE contract_address = $1',
-        [metadata.tokenAddress.toLowerCase()]
+        'SELECT owner_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+        [metadata.tokenAddress.toLowerCase(), chainId]
       );
       
       if (tokenResult.rows.length === 0) {
@@ -471,12 +483,17 @@ router.put('/:tokenAddress', authenticate, async (req, res) => {
   try {
     const { tokenAddress } = req.params;
     const metadata = req.body;
+    const chainId = parseChainId(metadata.chainId);
     const userAddress = req.user.address.toLowerCase();
     
+    if (!chainId) {
+      return res.status(400).json({ error: 'Chain ID is required' });
+    }
+    
     // Validate token ownership
     const tokenResult = await query(
-      'SELECT owner_address FROM tokens WHERE contract_address = $1',
-      [tokenAddress.toLowerCase()]
+      'SELECT owner_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+      [tokenAddress.toLowerCase(), chainId]
     );
     
     if (tokenResult.rows.length === 0) {
@@ -540,9 +557,14 @@ router.post('/upload-logo', authenticate, upload.single('logo'), async (req, res
     
     // If token address is provided, verify ownership
     if (tokenAddress) {
+      const chainId = parseChainId(req.body.chainId);
+      if (!chainId) {
+        return res.status(400).json({ error: 'Chain ID is required' });
+      }
+      
       const tokenResult = await query(
-        'SELECT owner_address FROM tokens WHERE contract_address = $1',
-        [tokenAddress.toLowerCase()]
+        'SELECT owner_address FROM tokens WHERE contract_address = $1 AND network_chain_id = $2',
+        [tokenAddress.toLowerCase(), chainId]
       );
       
       if (tokenResult.rows.length === 0) {
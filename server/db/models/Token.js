@@ -4,7 +4,6 @@ const TokenSchema = new mongoose.Schema({
   contractAddress: {
     type: String,
     required: true,
-    unique: true,
     index: true,
   },
   contractType: {
@@ -55,10 +54,45 @@ const TokenSchema = new mongoose.Schema({
     type: String,
     required: true,
   },
+  // Upgradeable tokens only: contractAddress is the proxy, contractType follows the implementation
+  implementationAddress: {
+    type: String,
+    default: null,
+  },
+  // Adapter that bridges the token to its deployments on other networks
+  bridgeAdapterAddress: {
+    type: String,
+    default: null,
+  },
+  // TokenVesting contract holding the token's vested allocations
+  vestingAddress: {
+    type: String,
+    default: null,
+  },
+  // Shared by the deployments of one token on several networks
+  projectId: {
+    type: String,
+    default: null,
+    index: true,
+  },
   verified: {
     type: Boolean,
     default: false,
   },
+  verification: {
+    status: {
+      type: String,
+      enum: ['unverified', 'pending', 'verified', 'failed'],
+      default: 'unverified',
+    },
+    guid: String,
+    message: String,
+    verifiedAt: Date,
+  },
+  constructorArgs: {
+    type: [mongoose.Schema.Types.Mixed],
+    default: [],
+  },
   features: {
     burnable: Boolean,
     mintable: Boolean,
@@ -89,4 +123,7 @@ const TokenSchema = new mongoose.Schema({
   },
 });
 
+// CREATE2 factory tokens can have the same address on several chains
+TokenSchema.index({ contractAddress: 1, 'network.chainId': 1 }, { unique: true });
+
 module.exports = mongoose.model('Token', TokenSchema);
\ No newline at end of file
@@ -10,7 +10,9 @@ const authRoutes = require('./api/auth');
 const contractRoutes = require('./api/contracts');
 const solanaRoutes = require('./api/solana');
 const tokenMetadataRoutes = require('./api/token-metadata');
-const connectDB = require('./db');
+const artifactRoutes = require('./api/artifacts');
+const { connectDB } = require('./db');
+const { startDeploymentWorker } = require('./jobs/deploymentQueue');
 const applySecurityMiddleware = require('./middleware/security');
 
 const app = express();
@@ -43,6 +45,7 @@ app.use('/api/deploy', deployRoutes);
 app.use('/api/contracts', contractRoutes);
 app.use('/api/solana', solanaRoutes);
 app.use('/api/token-metadata', tokenMetadataRoutes);
+app.use('/api/artifacts', artifactRoutes);
 
 // Serve deployment files
 app.use('/deployments', express.static(path.join(__dirname, '..', 'deployments')));
@@ -53,6 +56,8 @@ app.use('/uploads', express.static(path.join(__dirname, '..', 'uploads')));
 // Connect to database
 connectDB().then(() => {
   console.log('Database connected successfully');
+  // Deployments queued before a restart are picked up again once the database is available
+  return startDeploymentWorker();
 }).catch(err => {
   console.error('Database connection error:', err);
 });
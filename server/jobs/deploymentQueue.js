@@ -0,0 +1,385 @@
+const { spawn } = require('child_process');
+const crypto = require('crypto');
+const path = require('path');
+const EventEmitter = require('events');
+const { query, pool } = require('../db');
+
+// Persistent queue for deployments that run a Hardhat script on the server. Jobs move through
+// pending → compiling → broadcast → confirmed → verified, or end as failed. Scripts report their
+// progress with `Deployment stage:` lines and finish with a `Deployment result:` line on stdout.
+
+const ROOT_DIR = path.join(__dirname, '..', '..');
+const POLL_INTERVAL_MS = Number(process.env.DEPLOY_QUEUE_POLL_MS) || 2000;
+// One deployer key signs every deployment, so running jobs side by side would race for nonces. Only the
+// instance holding the worker lock claims jobs, so this limits deployments across all API instances
+const CONCURRENCY = Number(process.env.DEPLOY_QUEUE_CONCURRENCY) || 1;
+// Key of the session-level advisory lock held by the instance that runs deployments
+const WORKER_LOCK_KEY = 0x6465706c;
+const JOB_TIMEOUT_MS = Number(process.env.DEPLOY_JOB_TIMEOUT_MS) || 15 * 60 * 1000;
+const RETRY_DELAY_MS = 30 * 1000;
+// Running jobs are leased to their API instance and the lease is renewed while they run; a job whose
+// lease ran out belongs to an instance that stopped
+const LEASE_MS = Number(process.env.DEPLOY_JOB_LEASE_MS) || 2 * 60 * 1000;
+const LEASE_RENEW_MS = LEASE_MS / 4;
+
+// Emits `job:<id>` with { type: 'update', job } or { type: 'log', text } for status streams
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const handlers = {};
+let running = 0;
+let pollTimer = null;
+let workerLock = null;
+
+// `prepare(job)` returns (a promise of) { script, network, env } for the Hardhat run; `onComplete(job, result)`
+// stores the deployed contract and may return extra fields for the job result
+function registerJobHandler(kind, handler) {
+  handlers[kind] = handler;
+}
+
+const isTerminal = job => job.status === 'failed' || !!job.finished_at;
+
+function serializeJob(job, { includeLogs = false } = {}) {
+  return {
+    id: job.id,
+    kind: job.kind,
+    network: job.network,
+    idempotencyKey: job.idempotency_key,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    transactionHash: job.transaction_hash,
+    result: job.result,
+    error: job.error,
+    done: isTerminal(job),
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+    ...(includeLogs ? { logs: job.logs } : {})
+  };
+}
+
+async function getJob(id) {
+  const result = await query('SELECT * FROM deployment_jobs WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+async function findJobByKey(ownerAddress, idempotencyKey) {
+  const result = await query(
+    'SELECT * FROM deployment_jobs WHERE owner_address = $1 AND idempotency_key = $2',
+    [ownerAddress, idempotencyKey]
+  );
+  return result.rows[0] || null;
+}
+
+// Jobs remember what was requested, so an idempotency key reused for another deployment is refused
+const getRequestHash = (kind, network, payload) =>
+  crypto.createHash('sha256').update(JSON.stringify({ kind, network, payload })).digest('hex');
+
+// Jobs queued before request hashes were stored match any request
+const matchesRequest = (job, requestHash) => !job.request_hash || job.request_hash === requestHash;
+
+const idempotencyConflict = () =>
+  Object.assign(new Error('Idempotency key already used for a different deployment'), { code: 'IDEMPOTENCY_CONFLICT' });
+
+async function updateJob(id, fields) {
+  const columns = Object.keys(fields);
+  const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+  const result = await query(
+    `UPDATE deployment_jobs SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+    [id, ...columns.map(column => fields[column])]
+  );
+
+  const job = result.rows[0];
+  if (job) jobEvents.emit(`job:${id}`, { type: 'update', job: serializeJob(job) });
+  return job;
+}
+
+async function appendLog(id, text) {
+  jobEvents.emit(`job:${id}`, { type: 'log', text });
+  try {
+    await query('UPDATE deployment_jobs SET logs = logs || $2 WHERE id = $1', [id, text]);
+  } catch (error) {
+    console.error(`Error saving logs of deployment job ${id}:`, error);
+  }
+}
+
+// Returns { job, created }. A job with the same idempotency key is returned as is unless it failed,
+// in which case the key moves to a new job so the deployment can be requested again. Reusing the key of
+// a job for a different request throws an error with code IDEMPOTENCY_CONFLICT
+async function enqueueJob({ kind, ownerAddress, network, payload, idempotencyKey = null }) {
+  if (!handlers[kind]) {
+    throw new Error(`No deployment handler registered for ${kind}`);
+  }
+
+  const requestHash = getRequestHash(kind, network, payload);
+  if (idempotencyKey) {
+    const existing = await findJobByKey(ownerAddress, idempotencyKey);
+    if (existing && existing.status !== 'failed') {
+      if (!matchesRequest(existing, requestHash)) throw idempotencyConflict();
+      return { job: existing, created: false };
+    }
+    if (existing) {
+      await query('UPDATE deployment_jobs SET idempotency_key = NULL WHERE id = $1', [existing.id]);
+    }
+  }
+
+  const result = await query(
+    `INSERT INTO deployment_jobs (owner_address, kind, network, idempotency_key, request, request_hash)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (owner_address, idempotency_key) DO NOTHING
+    RETURNING *`,
+    [ownerAddress, kind, network, idempotencyKey, JSON.stringify(payload), requestHash]
+  );
+
+  // A concurrent request with the same key got there first
+  if (result.rows.length === 0) {
+    const job = await findJobByKey(ownerAddress, idempotencyKey);
+    if (!matchesRequest(job, requestHash)) throw idempotencyConflict();
+    return { job, created: false };
+  }
+
+  setImmediate(processQueue);
+  return { job: result.rows[0], created: true };
+}
+
+// Runs the job's Hardhat script, keeping its output and following its stage markers
+function runScript(job, { script, network, env }) {
+  return new Promise((resolve, reject) => {
+    const child = spawn('npx', ['hardhat', 'run', path.join(ROOT_DIR, 'scripts', script), '--network', network], {
+      env: { ...process.env, ...env },
+      cwd: ROOT_DIR
+    });
+
+    let buffer = '';
+    let result = null;
+    let transactionHash = job.transaction_hash;
+    let updates = Promise.resolve();
+
+    const timeout = setTimeout(() => {
+      appendLog(job.id, `\nDeployment timed out after ${JOB_TIMEOUT_MS / 1000} seconds\n`);
+      child.kill();
+    }, JOB_TIMEOUT_MS);
+
+    const handleLine = line => {
+      if (line.includes('Deployment stage:')) {
+        try {
+          const stage = JSON.parse(line.slice(line.indexOf('Deployment stage:') + 'Deployment stage:'.length).trim());
+          transactionHash = stage.transactionHash || transactionHash;
+          updates = updates.then(() => updateJob(job.id, { status: stage.stage, transaction_hash: transactionHash }));
+        } catch (error) {
+          console.error(`Invalid stage marker from deployment job ${job.id}:`, line);
+        }
+      } else if (line.includes('Deployment result:')) {
+        try {
+          result = JSON.parse(line.slice(line.indexOf('Deployment result:') + 'Deployment result:'.length).trim());
+        } catch (error) {
+          console.error(`Invalid result from deployment job ${job.id}:`, line);
+          result = { success: false, error: 'Deployment script reported an invalid result' };
+        }
+      }
+    };
+
+    child.stdout.on('data', chunk => {
+      const text = chunk.toString();
+      appendLog(job.id, text);
+
+      buffer += text;
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+      lines.forEach(handleLine);
+    });
+    child.stderr.on('data', chunk => appendLog(job.id, chunk.toString()));
+
+    child.on('error', error => {
+      clearTimeout(timeout);
+      reject(Object.assign(error, { transactionHash }));
+    });
+    child.on('close', code => {
+      clearTimeout(timeout);
+      if (buffer) handleLine(buffer);
+
+      updates.catch(() => {}).then(() => {
+        if (result && result.success) {
+          resolve(result);
+        } else {
+          const message = (result && result.error) || `Deployment script exited with code ${code}`;
+          reject(Object.assign(new Error(message), { transactionHash }));
+        }
+      });
+    });
+  });
+}
+
+async function renewLease(id) {
+  try {
+    await query(
+      `UPDATE deployment_jobs SET lease_expires_at = CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond'
+      WHERE id = $1 AND finished_at IS NULL`,
+      [id, LEASE_MS]
+    );
+  } catch (error) {
+    console.error(`Error renewing the lease of deployment job ${id}:`, error);
+  }
+}
+
+async function runJob(job) {
+  const handler = handlers[job.kind];
+  const heartbeat = setInterval(() => renewLease(job.id), LEASE_RENEW_MS);
+
+  try {
+    const result = await runScript(job, await handler.prepare(job));
+
+    let extra = {};
+    try {
+      extra = (await handler.onComplete(job, result)) || {};
+    } catch (error) {
+      console.error(`Error saving deployment of job ${job.id}:`, error);
+      await appendLog(job.id, `\nDeployed, but saving the deployment failed: ${error.message}\n`);
+    }
+
+    await updateJob(job.id, {
+      status: result.verified ? 'verified' : 'confirmed',
+      transaction_hash: result.transactionHash,
+      result: JSON.stringify({ ...result, ...extra }),
+      error: null,
+      finished_at: new Date()
+    });
+  } catch (error) {
+    console.error(`Deployment job ${job.id} failed:`, error.message);
+
+    // Retrying after a transaction went out would deploy a second contract
+    if (!error.transactionHash && job.attempts < job.max_attempts) {
+      const delay = RETRY_DELAY_MS * Math.pow(2, job.attempts - 1);
+      await appendLog(job.id, `\nAttempt ${job.attempts} failed, retrying in ${delay / 1000} seconds\n`);
+      await updateJob(job.id, {
+        status: 'pending',
+        error: error.message,
+        run_after: new Date(Date.now() + delay)
+      });
+    } else {
+      await updateJob(job.id, {
+        status: 'failed',
+        error: error.transactionHash
+          ? `${error.message} (after broadcasting ${error.transactionHash}; check the transaction before deploying again)`
+          : error.message,
+        finished_at: new Date()
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Takes the worker lock unless this instance holds it already. Postgres releases it with the connection
+// when the instance stops, so another instance takes over on its next poll
+async function acquireWorkerLock() {
+  if (workerLock) return true;
+
+  let client;
+  try {
+    client = await pool.connect();
+    const result = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [WORKER_LOCK_KEY]);
+    if (!result.rows[0].locked) {
+      client.release();
+      return false;
+    }
+  } catch (error) {
+    console.error('Error taking the deployment worker lock:', error);
+    if (client) client.release(error);
+    return false;
+  }
+
+  // A lost connection loses the lock with it
+  client.on('error', error => {
+    console.error('Deployment worker lock lost:', error);
+    if (workerLock === client) workerLock = null;
+    client.release(error);
+  });
+  workerLock = client;
+  return true;
+}
+
+// Claims due jobs up to the concurrency limit while this instance holds the worker lock; SKIP LOCKED
+// keeps a job from being taken twice should the lock change hands
+async function processQueue() {
+  if (!(await acquireWorkerLock())) return;
+
+  while (running < CONCURRENCY) {
+    let job;
+    try {
+      const result = await query(
+        `UPDATE deployment_jobs
+        SET status = 'compiling', attempts = attempts + 1, started_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP,
+            lease_expires_at = CURRENT_TIMESTAMP + $1 * INTERVAL '1 millisecond'
+        WHERE id = (
+          SELECT id FROM deployment_jobs
+          WHERE status = 'pending' AND run_after <= CURRENT_TIMESTAMP
+          ORDER BY created_at
+          FOR UPDATE SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING *`,
+        [LEASE_MS]
+      );
+      job = result.rows[0];
+    } catch (error) {
+      console.error('Error claiming deployment job:', error);
+      return;
+    }
+
+    if (!job) return;
+
+    running++;
+    jobEvents.emit(`job:${job.id}`, { type: 'update', job: serializeJob(job) });
+    runJob(job).finally(() => {
+      running--;
+      setImmediate(processQueue);
+    });
+  }
+}
+
+// Jobs interrupted by a stopped instance, i.e. whose lease ran out: those still compiling are run again,
+// those that had broadcast are failed since the transaction may have gone through. Jobs claimed before
+// leases were recorded have none and count as interrupted
+async function recoverJobs() {
+  const interrupted = 'finished_at IS NULL AND (lease_expires_at IS NULL OR lease_expires_at < CURRENT_TIMESTAMP)';
+  await query(
+    `UPDATE deployment_jobs SET status = 'pending', lease_expires_at = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE status = 'compiling' AND ${interrupted}`
+  );
+  await query(
+    `UPDATE deployment_jobs
+    SET status = 'failed', finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP,
+        error = 'Interrupted after broadcasting ' || COALESCE(transaction_hash, 'a transaction') || '; check the transaction before deploying again'
+    WHERE status IN ('broadcast', 'confirmed', 'verified') AND ${interrupted}`
+  );
+}
+
+const recover = () => recoverJobs().catch(error => console.error('Error recovering deployment jobs:', error));
+
+async function startDeploymentWorker() {
+  if (pollTimer) return;
+
+  // Other instances can stop at any time, so their jobs are looked for again as leases run out
+  await recover();
+  setInterval(recover, LEASE_MS);
+
+  pollTimer = setInterval(processQueue, POLL_INTERVAL_MS);
+  processQueue();
+  console.log(`Deployment worker started (concurrency ${CONCURRENCY})`);
+}
+
+module.exports = {
+  jobEvents,
+  registerJobHandler,
+  enqueueJob,
+  getJob,
+  findJobByKey,
+  serializeJob,
+  isTerminal,
+  getRequestHash,
+  matchesRequest,
+  startDeploymentWorker
+};
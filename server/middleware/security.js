@@ -62,6 +62,18 @@ const applySecurityMiddleware = (app) => {
   });
   app.use('/api/auth/', authLimiter);
 
+  // Compiling takes seconds of CPU, even though each contract type is only compiled once per compiler
+  const compileLimiter = rateLimit({
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    max: 30, // limit each IP to 30 compile requests per windowMs
+    message: {
+      error: 'Too many compile requests',
+      message: 'Too many compile requests, please try again after 10 minutes',
+      code: 'COMPILE_RATE_LIMIT'
+    }
+  });
+  app.use('/api/artifacts/compile', compileLimiter);
+
   // Data sanitization against XSS
   app.use(xss());
 
@@ -79,7 +91,7 @@ const applySecurityMiddleware = (app) => {
       origin: process.env.FRONTEND_URL || 'http://localhost:5173',
       credentials: true, 
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization']
+      allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key']
     })
   );
 
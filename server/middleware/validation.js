@@ -1,5 +1,29 @@
 const { ethers } = require('ethers');
 
+// Generated token names list their features in a fixed order,
+// except the burnable/mintable/fee/redistribution set which keeps the name AdvancedToken.
+// Flat fees and buy/sell taxes, and claim-based and reflection redistribution, are mutually exclusive;
+// dividends are paid from taxes, and dividends, votes, snapshots, pausing and blacklists cannot be combined with reflection.
+// Votes are built on permit and always appear together with it
+function isValidTokenContractType(contractType) {
+  const tokenNamePattern = /^(Burnable)?(Mintable)?(Fee)?(Tax)?(Dividend)?(Redistribution)?(Reflection)?(AntiWhale)?(Permit)?(Votes)?(Snapshot)?(Pausable)?(Blacklist)?(Roles)?(Bridgeable)?(Upgradeable)?Token$/;
+  const match = tokenNamePattern.exec(contractType || '');
+  const isAdvancedSpelledOut = !!match && !!(match[1] && match[2] && match[3] && match[6]) &&
+    !match[4] && !match[5] && !match[7] && !match[8] && !match[9] && !match[10] && !match[11] &&
+    !match[12] && !match[13] && !match[14] && !match[15] && !match[16];
+  const hasExclusiveFeatures = !!match && (!!(match[3] && match[4]) || !!(match[6] && match[7]) ||
+    !!(match[5] && (!match[4] || match[7])) || !!(match[10] && !match[9]) || !!(match[7] && (match[10] || match[11] || match[12] || match[13])));
+  return contractType === 'BasicToken' || contractType === 'AdvancedToken' ||
+    (!!match && contractType !== 'Token' && !isAdvancedSpelledOut && !hasExclusiveFeatures);
+}
+
+// Chain ID of the deployment a request is about, or null when it is missing or malformed. Factory tokens have
+// the same address on every chain, so the address alone does not pick a token's record
+function parseChainId(value) {
+  const chainId = Number(value);
+  return Number.isSafeInteger(chainId) && chainId > 0 ? chainId : null;
+}
+
 function validateTokenConfig(req, res, next) {
   try {
     const { contractType, constructorArgs, network } = req.body;
@@ -12,22 +36,10 @@ function validateTokenConfig(req, res, next) {
       });
     }
     
-    // Validate contract type
-    const validContractTypes = [
-      'BasicToken',
-      'BurnableToken', 
-      'MintableToken',
-      'BurnableMintableToken',
-      'FeeToken',
-      'RedistributionToken',
-      'AdvancedToken'
-    ];
-    
-    if (!validContractTypes.includes(contractType)) {
+    if (!isValidTokenContractType(contractType)) {
       return res.status(400).json({ 
         error: 'Invalid contract type', 
-        code: 'INVALID_CONTRACT_TYPE',
-        validTypes: validContractTypes });
+        code: 'INVALID_CONTRACT_TYPE' });
     }
     
     // Validate constructor arguments
@@ -84,9 +96,27 @@ function validateTokenConfig(req, res, next) {
       });
     }
     
+    // Validate CREATE2 salt for factory deployments
+    if (req.body.salt !== undefined && (typeof req.body.salt !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(req.body.salt))) {
+      return res.status(400).json({ 
+        error: 'Salt must be a 32-byte hex string',
+        code: 'INVALID_SALT'
+      });
+    }
+    
+    // Deployments of one token on several networks share a project ID; it is stored in a UUID column, so
+    // anything else would only fail once the deployment has been broadcast
+    const { projectId } = req.body;
+    if (projectId !== undefined && projectId !== null && (typeof projectId !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(projectId))) {
+      return res.status(400).json({ 
+        error: 'Project ID must be a UUID',
+        code: 'INVALID_PROJECT_ID'
+      });
+    }
+    
     // Validate network
     const validNetworks = [
-      'ethereum', 'bsc', 'polygon', 'arbitrum', 'fantom', 'avalanche',
+      'ethereum', 'bsc', 'polygon', 'arbitrum', 'fantom', 'avalanche', 'base',
       'goerli', 'bsc-testnet', 'mumbai', 'arbitrum-sepolia', 'estar-testnet'
     ];
     
@@ -160,6 +190,26 @@ function validatePresaleConfig(req, res, next) {
       return res.status(400).json({ error: 'Maximum purchase must be greater than minimum purchase' });
     }
     
+    // Sales raise the native currency unless an ERC-20 payment token is set
+    const { paymentToken } = saleConfiguration;
+    if (paymentToken && (!ethers.isAddress(paymentToken.address) || paymentToken.address === ethers.ZeroAddress)) {
+      return res.status(400).json({ error: 'Valid payment token address is required' });
+    }
+    
+    // AutoLiquidity pairs the token with the payment token, so listing needs one
+    const { autoListingConfig } = presaleConfig;
+    if (autoListingConfig && autoListingConfig.enabled) {
+      if (!paymentToken) {
+        return res.status(400).json({ error: 'Auto-listing requires a payment token' });
+      }
+      if (!ethers.isAddress(autoListingConfig.liquidityAddress)) {
+        return res.status(400).json({ error: 'Auto-listing is not available on this network' });
+      }
+      if (!(autoListingConfig.lpBaseTokenPercentage > 0 && autoListingConfig.lpBaseTokenPercentage <= 100)) {
+        return res.status(400).json({ error: 'Liquidity percentage must be between 1 and 100' });
+      }
+    }
+    
     // Validate dates
     const start = new Date(startDate);
     const end = new Date(endDate);
@@ -185,7 +235,7 @@ function validatePresaleConfig(req, res, next) {
     
     // Validate network
     const validNetworks = [
-      'ethereum', 'bsc', 'polygon', 'arbitrum', 'fantom', 'avalanche',
+      'ethereum', 'bsc', 'polygon', 'arbitrum', 'fantom', 'avalanche', 'base',
       'goerli', 'bsc-testnet', 'mumbai', 'arbitrum-sepolia', 'estar-testnet'
     ];
     
@@ -202,6 +252,8 @@ function validatePresaleConfig(req, res, next) {
 }
 
 module.exports = {
+  isValidTokenContractType,
+  parseChainId,
   validateTokenConfig,
   validatePresaleConfig
 };
\ No newline at end of file
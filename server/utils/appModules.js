@@ -0,0 +1,39 @@
+const path = require('path');
+
+// The app's TypeScript modules under src/, loaded through Vite's SSR loader as the build scripts do, so the
+// server runs the same code as the app instead of keeping copies of it in sync.
+
+const ROOT_DIR = path.join(__dirname, '..', '..');
+
+const loading = new Map();
+
+// Module at a path from the repository root, e.g. "/src/services/gasEstimation.ts"; loaded once
+function loadAppModule(modulePath) {
+  if (!loading.has(modulePath)) {
+    loading.set(modulePath, (async () => {
+      const { createServer } = await import('vite');
+      const server = await createServer({
+        root: ROOT_DIR,
+        logLevel: 'error',
+        appType: 'custom',
+        server: { middlewareMode: true, hmr: false, watch: null },
+        optimizeDeps: { noDiscovery: true }
+      });
+
+      // The loaded module keeps working once Vite is closed
+      try {
+        return await server.ssrLoadModule(modulePath);
+      } finally {
+        await server.close();
+      }
+    })().catch(error => {
+      loading.delete(modulePath);
+      throw error;
+    }));
+  }
+  return loading.get(modulePath);
+}
+
+module.exports = {
+  loadAppModule
+};
@@ -0,0 +1,237 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { Worker } = require('worker_threads');
+const { getContractSource } = require('./contractSources');
+
+// Content-addressed store of compiled contracts. An artifact is keyed by the hash of the compiler version,
+// the contract name and the standard-JSON input (sources and settings), so each distinct compilation runs
+// once and deployment, estimation and verification all use the same ABI and bytecode. Inputs are only ever
+// built here from a contract type the app knows or from the proxy upgradeable tokens are deployed behind, so
+// the store holds one artifact per contract type and compiler version.
+
+const ROOT_DIR = path.join(__dirname, '..', '..');
+const STORE_DIR = process.env.ARTIFACT_STORE_DIR || path.join(ROOT_DIR, 'cache', 'artifacts');
+
+// Entry source name used by the app's compilations, e.g. "contract.sol:BasicToken"
+const ENTRY_SOURCE_NAME = 'contract.sol';
+
+// Compiled as Hardhat compiles it for the deployment script, which deploys upgradeable tokens behind it
+const PROXY_SOURCE_NAME = 'contracts/proxy/TokenProxy.sol';
+const PROXY_CONTRACT_NAME = '@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol:ERC1967Proxy';
+
+const OUTPUT_SELECTION = {
+  '*': {
+    '*': ['abi', 'evm.bytecode', 'metadata', 'storageLayout']
+  }
+};
+
+const memoryCache = new Map();
+const compiling = new Map();
+const workerRequests = new Map();
+let worker = null;
+let nextRequestId = 0;
+let compilerVersion = null;
+
+// solc.js is loaded on a worker thread the first time something is compiled and stays there
+function getWorker() {
+  if (worker) return worker;
+
+  const compiler = new Worker(path.join(__dirname, 'compileWorker.js'));
+  compiler.on('message', ({ id, error, ...response }) => {
+    const request = workerRequests.get(id);
+    workerRequests.delete(id);
+    // An idle worker does not keep the process alive
+    if (workerRequests.size === 0) compiler.unref();
+    if (request) error ? request.reject(new Error(error)) : request.resolve(response);
+  });
+
+  // A crashed worker fails what it was working on; the next compilation starts a new one
+  const fail = error => {
+    if (worker !== compiler) return;
+    worker = null;
+    for (const request of workerRequests.values()) request.reject(error);
+    workerRequests.clear();
+  };
+  compiler.on('error', fail);
+  compiler.on('exit', code => fail(new Error(`Compiler worker exited with code ${code}`)));
+  worker = compiler;
+  return worker;
+}
+
+function runCompiler(input) {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    workerRequests.set(id, { resolve, reject });
+    const compiler = getWorker();
+    compiler.ref();
+    compiler.postMessage({ id, input });
+  });
+}
+
+// Explorers expect e.g. "v0.8.30+commit.73712a01" without the build platform suffix
+async function getCompilerVersion() {
+  if (!compilerVersion) {
+    const { version } = await runCompiler(undefined);
+    compilerVersion = `v${version.replace(/\.Emscripten\.clang$/, '')}`;
+  }
+  return compilerVersion;
+}
+
+function getArtifactHash(input, contractName, version) {
+  return crypto
+    .createHash('sha256')
+    .update(`${version}\n${contractName}\n${JSON.stringify(input)}`)
+    .digest('hex');
+}
+
+// Same as the app's getSourceHash, which compares it with the input it built itself
+const getSourceHash = input => `0x${crypto.createHash('sha256').update(JSON.stringify(input)).digest('hex')}`;
+
+const isArtifactHash = hash => /^[0-9a-f]{64}$/.test(hash);
+
+const getArtifactPath = hash => path.join(STORE_DIR, `${hash}.json`);
+
+function getArtifact(hash) {
+  if (!isArtifactHash(hash)) return null;
+  if (memoryCache.has(hash)) return memoryCache.get(hash);
+
+  try {
+    const artifact = JSON.parse(fs.readFileSync(getArtifactPath(hash), 'utf8'));
+    memoryCache.set(hash, artifact);
+    return artifact;
+  } catch (error) {
+    return null;
+  }
+}
+
+function saveArtifact(artifact) {
+  fs.mkdirSync(STORE_DIR, { recursive: true });
+
+  // Written under a temporary name first so readers never see a partial file
+  const tempPath = `${getArtifactPath(artifact.hash)}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(artifact));
+  fs.renameSync(tempPath, getArtifactPath(artifact.hash));
+  memoryCache.set(artifact.hash, artifact);
+}
+
+// Returns the stored artifact for the input or compiles and stores it. Inputs contain every imported source;
+// nothing is read from disk during compilation
+async function compileArtifact(input, contractName) {
+  const version = await getCompilerVersion();
+  const hash = getArtifactHash(input, contractName, version);
+  const stored = getArtifact(hash);
+  if (stored) return stored;
+
+  const output = JSON.parse((await runCompiler(JSON.stringify(input))).output);
+  const errors = (output.errors || []).filter(error => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Compilation errors: ${errors.map(error => error.formattedMessage || error.message).join('\n')}`);
+  }
+
+  const separator = contractName.lastIndexOf(':');
+  const contract = output.contracts?.[contractName.slice(0, separator)]?.[contractName.slice(separator + 1)];
+  if (!contract) {
+    throw new Error(`Contract ${contractName} not found in compilation output`);
+  }
+
+  const artifact = {
+    hash,
+    contractName,
+    compilerVersion: version,
+    abi: contract.abi,
+    bytecode: contract.evm.bytecode.object,
+    metadata: contract.metadata,
+    storageLayout: contract.storageLayout,
+    sourceHash: getSourceHash(input),
+    standardJsonInput: input,
+    createdAt: new Date().toISOString()
+  };
+
+  saveArtifact(artifact);
+  return artifact;
+}
+
+// Resolves a source and its imports from the repository and node_modules into standard-JSON sources
+function collectSources(entryContent, entryName = ENTRY_SOURCE_NAME) {
+  const sources = {};
+  const queue = [{ name: entryName, content: entryContent }];
+
+  while (queue.length > 0) {
+    const { name, content } = queue.shift();
+    if (sources[name]) continue;
+    sources[name] = { content };
+
+    const importPattern = /^\s*import\s+(?:[^'"]*from\s+)?["']([^"']+)["']\s*;/gm;
+    let match;
+    while ((match = importPattern.exec(content)) !== null) {
+      const importPath = match[1].startsWith('.')
+        ? path.posix.normalize(path.posix.join(path.posix.dirname(name), match[1]))
+        : match[1];
+
+      if (!sources[importPath]) {
+        const filePath = importPath.startsWith('@')
+          ? path.join(ROOT_DIR, 'node_modules', importPath)
+          : path.join(ROOT_DIR, importPath);
+        queue.push({ name: importPath, content: fs.readFileSync(filePath, 'utf8') });
+      }
+    }
+  }
+
+  return sources;
+}
+
+// Standard-JSON input with the settings the app compiles with
+const createStandardInput = sources => ({
+  language: 'Solidity',
+  sources,
+  settings: {
+    outputSelection: OUTPUT_SELECTION,
+    optimizer: {
+      enabled: true,
+      runs: 200
+    }
+  }
+});
+
+// Requests for a contract that is already compiling wait for it
+function compileOnce(contractName, buildInput) {
+  if (!compiling.has(contractName)) {
+    const pending = (async () => compileArtifact(await buildInput(), contractName))()
+      .finally(() => compiling.delete(contractName));
+    compiling.set(contractName, pending);
+  }
+  return compiling.get(contractName);
+}
+
+// Artifact for one of the app's contract types, e.g. "BurnableMintableToken" or "PresaleContract", compiled
+// from the source the app generates for it
+function getContractArtifact(contractType) {
+  return compileOnce(`${ENTRY_SOURCE_NAME}:${contractType}`, async () =>
+    createStandardInput(collectSources(await getContractSource(contractType))));
+}
+
+// Artifact for the ERC-1967 proxy in front of upgradeable tokens
+function getProxyArtifact() {
+  return compileOnce(PROXY_CONTRACT_NAME, () =>
+    createStandardInput(collectSources(fs.readFileSync(path.join(ROOT_DIR, PROXY_SOURCE_NAME), 'utf8'), PROXY_SOURCE_NAME)));
+}
+
+// Artifact without its standard-JSON input, which repeats every imported source
+const summarizeArtifact = ({ standardJsonInput, ...artifact }) => artifact;
+
+module.exports = {
+  ENTRY_SOURCE_NAME,
+  STORE_DIR,
+  getCompilerVersion,
+  getArtifactHash,
+  getSourceHash,
+  isArtifactHash,
+  getArtifact,
+  getArtifactPath,
+  getContractArtifact,
+  getProxyArtifact,
+  collectSources,
+  createStandardInput,
+  summarizeArtifact
+};
@@ -0,0 +1,17 @@
+const { parentPort } = require('worker_threads');
+const solc = require('solc');
+
+// Runs solc.js for the artifact store. Compiling is synchronous and can take seconds, so it happens on
+// this thread instead of the API's event loop; messages are handled one at a time in arrival order.
+
+parentPort.on('message', ({ id, input }) => {
+  try {
+    parentPort.postMessage({
+      id,
+      version: solc.version(),
+      output: input === undefined ? null : solc.compile(input)
+    });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error.message });
+  }
+});
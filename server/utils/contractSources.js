@@ -0,0 +1,16 @@
+const { loadAppModule } = require('./appModules');
+
+// Contract sources exactly as the app generates them, from src/services/contractSource.ts, so the server
+// compiles the same contract for a contract type as the app, including generated token contracts that have
+// no file under contracts/.
+
+// Solidity source for a contract type, e.g. "BurnableMintableToken" or "PresaleContract"; throws for
+// types the app does not know
+async function getContractSource(contractType) {
+  const { getContractSource: generate } = await loadAppModule('/src/services/contractSource.ts');
+  return generate(contractType);
+}
+
+module.exports = {
+  getContractSource
+};
@@ -0,0 +1,182 @@
+// Client for Etherscan-family explorer verification APIs
+// (Etherscan, BscScan, PolygonScan, Arbiscan, Basescan and Blockscout instances
+// exposing the same `module=contract` endpoints). Runs on the server only, so the
+// explorer API keys never reach the browser.
+
+// Explorer API and the server environment variable holding its key, by chain ID
+const EXPLORER_APIS = {
+  // Mainnets
+  1: { apiUrl: 'https://api.etherscan.io/api', apiKeyEnv: 'ETHERSCAN_API_KEY' },
+  56: { apiUrl: 'https://api.bscscan.com/api', apiKeyEnv: 'BSCSCAN_API_KEY' },
+  137: { apiUrl: 'https://api.polygonscan.com/api', apiKeyEnv: 'POLYGONSCAN_API_KEY' },
+  42161: { apiUrl: 'https://api.arbiscan.io/api', apiKeyEnv: 'ARBISCAN_API_KEY' },
+  250: { apiUrl: 'https://api.ftmscan.com/api', apiKeyEnv: 'FTMSCAN_API_KEY' },
+  43114: { apiUrl: 'https://api.snowtrace.io/api', apiKeyEnv: 'SNOWTRACE_API_KEY' },
+  25: { apiUrl: 'https://api.cronoscan.com/api', apiKeyEnv: 'CRONOSCAN_API_KEY' },
+  1116: { apiUrl: 'https://openapi.coredao.org/api', apiKeyEnv: 'CORESCAN_API_KEY' },
+  2000: { apiUrl: 'https://explorer.dogechain.dog/api', apiKeyEnv: 'DOGECHAIN_API_KEY' },
+  369: { apiUrl: 'https://api.scan.pulsechain.com/api', apiKeyEnv: 'PULSESCAN_API_KEY' },
+  7000: { apiUrl: 'https://zetachain.blockscout.com/api', apiKeyEnv: 'ZETASCAN_API_KEY' },
+  130: { apiUrl: 'https://api.uniscan.xyz/api', apiKeyEnv: 'UNISCAN_API_KEY' },
+  7171: { apiUrl: 'https://scan.bit-rock.io/api', apiKeyEnv: 'BITROCKSCAN_API_KEY' },
+  3797: { apiUrl: 'https://alveyscan.com/api', apiKeyEnv: 'ALVEYSCAN_API_KEY' },
+  1071: { apiUrl: 'https://explorer.opengpu.io/api', apiKeyEnv: 'OPENGPUSCAN_API_KEY' },
+  8453: { apiUrl: 'https://api.basescan.org/api', apiKeyEnv: 'BASESCAN_API_KEY' },
+  25062019: { apiUrl: 'https://esrscan.com/api', apiKeyEnv: 'ESRSCAN_API_KEY' },
+
+  // Testnets
+  5: { apiUrl: 'https://api-goerli.etherscan.io/api', apiKeyEnv: 'ETHERSCAN_API_KEY' },
+  97: { apiUrl: 'https://api-testnet.bscscan.com/api', apiKeyEnv: 'BSCSCAN_API_KEY' },
+  80001: { apiUrl: 'https://api-testnet.polygonscan.com/api', apiKeyEnv: 'POLYGONSCAN_API_KEY' },
+  421614: { apiUrl: 'https://api-sepolia.arbiscan.io/api', apiKeyEnv: 'ARBISCAN_API_KEY' },
+  4002: { apiUrl: 'https://api-testnet.ftmscan.com/api', apiKeyEnv: 'FTMSCAN_API_KEY' },
+  43113: { apiUrl: 'https://api-testnet.snowtrace.io/api', apiKeyEnv: 'SNOWTRACE_API_KEY' },
+  338: { apiUrl: 'https://api-testnet.cronoscan.com/api', apiKeyEnv: 'CRONOSCAN_API_KEY' },
+  7771: { apiUrl: 'https://testnet-scan.bit-rock.io/api', apiKeyEnv: 'BITROCKSCAN_API_KEY' }
+};
+
+class ExplorerVerificationClient {
+  constructor(options) {
+    this.apiUrl = options.apiUrl;
+    this.apiKey = options.apiKey || '';
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.maxAttempts = options.maxAttempts ?? 24;
+    this.fetchFn = options.fetchFn || ((input, init) => fetch(input, init));
+  }
+
+  // Submit the source and poll the returned GUID until the explorer reports pass or fail
+  async verify(request) {
+    const submission = await this.submit(request);
+
+    if (submission.status !== 'pending') {
+      return submission;
+    }
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+
+      const result = await this.checkStatus(submission.guid);
+      if (result.status !== 'pending') {
+        return result;
+      }
+    }
+
+    return {
+      status: 'pending',
+      guid: submission.guid,
+      message: `Verification still pending after ${this.maxAttempts} status checks`,
+      checkedAt: new Date().toISOString()
+    };
+  }
+
+  // `request` holds the contract address, its fully qualified name (e.g. "contract.sol:BasicToken"), the
+  // compiler version (e.g. "v0.8.30+commit.73712a01"), the standard-JSON input and the ABI-encoded
+  // constructor arguments
+  async submit(request) {
+    const body = new URLSearchParams({
+      apikey: this.apiKey,
+      module: 'contract',
+      action: 'verifysourcecode',
+      contractaddress: request.contractAddress,
+      sourceCode: JSON.stringify(request.standardJsonInput),
+      codeformat: 'solidity-standard-json-input',
+      contractname: request.contractName,
+      compilerversion: request.compilerVersion,
+      // The misspelling is part of the Etherscan API
+      constructorArguements: request.constructorArguments.replace(/^0x/, '')
+    });
+
+    const data = await this.request(this.apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString()
+    });
+
+    if (data.status === '1') {
+      return {
+        status: 'pending',
+        guid: data.result,
+        message: 'Verification submitted',
+        checkedAt: new Date().toISOString()
+      };
+    }
+
+    if (/already verified/i.test(data.result)) {
+      return {
+        status: 'verified',
+        guid: null,
+        message: data.result,
+        checkedAt: new Date().toISOString()
+      };
+    }
+
+    throw new Error(`Verification submission rejected: ${data.result}`);
+  }
+
+  async checkStatus(guid) {
+    const params = new URLSearchParams({
+      apikey: this.apiKey,
+      module: 'contract',
+      action: 'checkverifystatus',
+      guid
+    });
+
+    const data = await this.request(`${this.apiUrl}?${params.toString()}`, { method: 'GET' });
+
+    return {
+      status: this.parseStatus(data),
+      guid,
+      message: data.result,
+      checkedAt: new Date().toISOString()
+    };
+  }
+
+  parseStatus(data) {
+    if (/pending in queue|in progress/i.test(data.result)) {
+      return 'pending';
+    }
+
+    if (data.status === '1' || /^pass|already verified/i.test(data.result)) {
+      return 'verified';
+    }
+
+    return 'failed';
+  }
+
+  async request(url, init) {
+    let response;
+    try {
+      response = await this.fetchFn(url, init);
+    } catch (error) {
+      throw new Error(`Failed to reach block explorer API: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Block explorer API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (typeof data?.status !== 'string' || typeof data?.result !== 'string') {
+      throw new Error('Unexpected response from block explorer API');
+    }
+
+    return data;
+  }
+}
+
+// Client for the chain's explorer with the server's API key, or null when the chain has no supported explorer
+function getExplorerClient(chainId, options = {}) {
+  const explorer = EXPLORER_APIS[chainId];
+  if (!explorer) return null;
+
+  return new ExplorerVerificationClient({
+    apiUrl: explorer.apiUrl,
+    apiKey: process.env[explorer.apiKeyEnv],
+    ...options
+  });
+}
+
+module.exports = {
+  ExplorerVerificationClient,
+  getExplorerClient
+};
@@ -0,0 +1,31 @@
+const { loadAppModule } = require('./appModules');
+
+// USD prices of native gas tokens from the app's src/services/priceService.ts. PRICE_SOURCE selects
+// CoinGecko (default, at COINGECKO_API_URL when set) or the static table, which is also the fallback when
+// CoinGecko fails.
+
+let configuring = null;
+
+function loadPriceService() {
+  if (!configuring) {
+    configuring = loadAppModule('/src/services/priceService.ts').then(({ priceService, StaticPriceSource, CoinGeckoPriceSource }) => {
+      priceService.setSource(process.env.PRICE_SOURCE === 'static'
+        ? new StaticPriceSource()
+        : new CoinGeckoPriceSource(process.env.COINGECKO_API_URL || undefined));
+      return priceService;
+    }).catch(error => {
+      configuring = null;
+      throw error;
+    });
+  }
+  return configuring;
+}
+
+async function getUsdPrice(symbol) {
+  const priceService = await loadPriceService();
+  return priceService.getUsdPrice(symbol);
+}
+
+module.exports = {
+  getUsdPrice
+};
@@ -17,6 +17,7 @@ import { SolanaTokenDeployment } from './components/SolanaTokenDeployment';
 import { SolanaTokenSuccess } from './components/SolanaTokenSuccess';
 import { LiquidityLock } from './components/LiquidityLock';
 import { Airdrop } from './components/Airdrop';
+import { VestingClaimPortal } from './components/VestingClaimPortal';
 import { NotFound } from './components/NotFound';
 import { TokenConfig, DeploymentResult, Step } from './types';
 import { ErrorBoundary } from './components/ErrorBoundary';
@@ -40,7 +41,10 @@ declare global {
 function App() {
   const { isTestnetMode } = useNetworkMode();
   const { isConnected, chainId, switchToNetwork, disconnectWallet } = useWallet();
-  const [currentStep, setCurrentStep] = useState<'landing' | 'builder' | 'vesting' | 'review' | 'success' | 'presale' | 'sales' | 'tokens' | 'sale' | 'explore' | 'manage' | 'liquidity-lock' | 'airdrop' | 'solana' | 'solana-manage' | 'solana-airdrop'>('landing');
+  const [currentStep, setCurrentStep] = useState<'landing' | 'builder' | 'vesting' | 'review' | 'success' | 'presale' | 'sales' | 'tokens' | 'sale' | 'explore' | 'manage' | 'liquidity-lock' | 'airdrop' | 'claim' | 'solana' | 'solana-manage' | 'solana-airdrop'>(
+    // Claim links are shared with beneficiaries, so they open the portal directly
+    () => window.location.pathname.startsWith('/claim') ? 'claim' : 'landing'
+  );
   const [tokenConfig, setTokenConfig] = useState<TokenConfig | null>(null);
   const [deploymentResult, setDeploymentResult] = useState<DeploymentResult | null>(null);
   const [solanaTokenConfig, setSolanaTokenConfig] = useState<any>(null);
@@ -91,6 +95,10 @@ function App() {
     setCurrentStep('airdrop');
   };
   
+  const handleClaimVesting = () => {
+    setCurrentStep('claim');
+  };
+  
   const handleSolana = () => {
     setCurrentStep('solana');
   };
@@ -154,6 +162,7 @@ function App() {
           onExploreSales={handleExploreSales} 
           onLiquidityLock={handleLiquidityLock}
           onAirdrop={handleAirdrop}
+          onClaimVesting={handleClaimVesting}
           onSolana={handleSolana}
         />
         <NetworkModeIndicator />
@@ -286,6 +295,15 @@ function App() {
         </>
       );
       
+    case 'claim':
+      return (
+        <>
+          <VestingClaimPortal />
+          <NetworkModeIndicator />
+          <ModeBanner />
+        </>
+      );
+      
     case 'solana':
       return (
         <>
@@ -347,7 +365,7 @@ function App() {
       const validRoutes = [
         'landing', 'builder', 'vesting', 'review', 'success', 
         'presale', 'sales', 'tokens', 'sale', 'explore', 'manage', 
-        'liquidity-lock', 'airdrop', 'solana', 'solana-manage', 
+        'liquidity-lock', 'airdrop', 'claim', 'solana', 'solana-manage', 
         'solana-airdrop', 'solana-deployment', 'solana-success'
       ];
       if (!validRoutes.includes(currentStep)) {
@@ -369,6 +387,7 @@ function App() {
             onExploreSales={handleExploreSales}
             onLiquidityLock={handleLiquidityLock}
             onAirdrop={handleAirdrop}
+            onClaimVesting={handleClaimVesting}
             onSolana={handleSolana}
           />
           <NetworkModeIndicator />
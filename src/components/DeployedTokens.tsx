@@ -36,6 +36,7 @@ interface DeployedToken {
   holders: number;
   transfers: number;
   metadata?: TokenMetadata | null;
+  projectId?: string;
 }
 
 export const DeployedTokens: React.FC = () => {
@@ -72,7 +73,8 @@ export const DeployedTokens: React.FC = () => {
             status: 'verified',
             holders: 0, // Will be updated by fetchTokenStatistics
             transfers: 0, // Will be updated by fetchTokenStatistics
-            metadata: null // Will be updated by fetchTokenMetadata
+            metadata: null, // Will be updated by fetchTokenMetadata
+            projectId: token.projectId
           };
         });
         setDeployedTokens(mappedTokens);
@@ -198,6 +200,17 @@ export const DeployedTokens: React.FC = () => {
     }
   });
 
+  // Deployments of one project on several networks share a card, led by the first match
+  const tokenGroups = sortedTokens.reduce<DeployedToken[][]>((groups, token) => {
+    const group = token.projectId ? groups.find(([first]) => first.projectId === token.projectId) : undefined;
+    if (group) {
+      group.push(token);
+    } else {
+      groups.push([token]);
+    }
+    return groups;
+  }, []);
+
   const getNetworkStats = () => {
     const stats = networks.map(network => ({
       network,
@@ -395,7 +408,7 @@ export const DeployedTokens: React.FC = () => {
               </p>
             </div>
           ) : (
-            sortedTokens.map((token) => (
+            tokenGroups.map(([token, ...otherDeployments]) => (
               <div key={token.id} className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
                 <div className="flex items-start justify-between">
                   <div className="flex items-start space-x-4">
@@ -420,8 +433,10 @@ export const DeployedTokens: React.FC = () => {
                       
                       <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
                         <div>
-                          <div className="text-sm text-gray-300">Network</div>
-                          <div className="text-white font-medium">{token.network.name}</div>
+                          <div className="text-sm text-gray-300">{otherDeployments.length > 0 ? 'Networks' : 'Network'}</div>
+                          <div className="text-white font-medium">
+                            {[token, ...otherDeployments].map(deployment => deployment.network.name).join(', ')}
+                          </div>
                         </div>
                         <div>
                           <div className="text-sm text-gray-300">Total Supply</div>
@@ -468,6 +483,44 @@ export const DeployedTokens: React.FC = () => {
                           <span className="text-green-400 text-sm">Copied!</span>
                         )}
                       </div>
+
+                      {/* Same project on other networks */}
+                      {otherDeployments.length > 0 && (
+                        <div className="space-y-2 mb-4">
+                          {otherDeployments.map(deployment => (
+                            <div key={deployment.id} className="flex items-center space-x-2">
+                              <span className="text-sm text-gray-300">{deployment.network.name}:</span>
+                              <code className="text-sm text-white font-mono bg-white/10 px-2 py-1 rounded">
+                                {deployment.contractAddress.slice(0, 10)}...{deployment.contractAddress.slice(-8)}
+                              </code>
+                              <button
+                                onClick={() => copyToClipboard(deployment.contractAddress, `address-${deployment.id}`)}
+                                className="p-1 text-gray-400 hover:text-white transition-colors"
+                              >
+                                <Copy className="w-4 h-4" />
+                              </button>
+                              <a
+                                href={`${deployment.network.explorerUrl}/token/${deployment.contractAddress}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="p-1 text-gray-400 hover:text-white transition-colors"
+                              >
+                                <ExternalLink className="w-4 h-4" />
+                              </a>
+                              <button
+                                onClick={() => window.location.href = `/manage/${deployment.contractAddress}`}
+                                className="p-1 text-gray-400 hover:text-white transition-colors"
+                                title="Manage Token"
+                              >
+                                <Settings className="w-4 h-4" />
+                              </button>
+                              {copied === `address-${deployment.id}` && (
+                                <span className="text-green-400 text-sm">Copied!</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       
                       <div className="flex flex-wrap gap-2">
                         {token.features.map((feature, index) => (
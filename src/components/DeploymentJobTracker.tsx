@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { CheckCircle, Circle, Loader2, XCircle, Terminal, ChevronDown, ChevronUp } from 'lucide-react';
+import { DeploymentJob } from '../types';
+
+interface DeploymentJobTrackerProps {
+  job: DeploymentJob;
+  explorerUrl?: string;
+}
+
+const STAGES = [
+  { status: 'pending', label: 'Queued' },
+  { status: 'compiling', label: 'Compiling' },
+  { status: 'broadcast', label: 'Broadcast' },
+  { status: 'confirmed', label: 'Confirmed' },
+  { status: 'verified', label: 'Verified' }
+];
+
+// Index of the stage the job is at; a failed job stopped before broadcasting unless it has a transaction
+const getStageIndex = (job: DeploymentJob) => {
+  if (job.status === 'failed') return job.transactionHash ? 3 : 1;
+  return STAGES.findIndex(stage => stage.status === job.status);
+};
+
+export const DeploymentJobTracker: React.FC<DeploymentJobTrackerProps> = ({ job, explorerUrl }) => {
+  const [showLogs, setShowLogs] = useState(false);
+  const current = getStageIndex(job);
+
+  const getStageState = (index: number) => {
+    if (index < current) return 'done';
+    if (index > current) return 'waiting';
+    if (job.status === 'failed') return 'failed';
+    return job.done ? 'done' : 'active';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        {STAGES.map((stage, index) => {
+          const state = getStageState(index);
+          // Unverified deployments finish at Confirmed
+          const skipped = job.done && job.status === 'confirmed' && stage.status === 'verified';
+
+          return (
+            <div key={stage.status} className="flex items-center space-x-1.5 text-sm">
+              {state === 'done' ? (
+                <CheckCircle className="w-4 h-4 text-green-400" />
+              ) : state === 'failed' ? (
+                <XCircle className="w-4 h-4 text-red-400" />
+              ) : state === 'active' ? (
+                <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+              ) : (
+                <Circle className="w-4 h-4 text-gray-500" />
+              )}
+              <span className={state === 'waiting' || skipped ? 'text-gray-500' : 'text-white'}>
+                {skipped ? 'Not verified' : stage.label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {job.attempts > 1 && !job.done && (
+        <div className="text-xs text-gray-400">Attempt {job.attempts} of {job.maxAttempts}</div>
+      )}
+
+      {job.transactionHash && (
+        <div className="text-xs text-gray-300 font-mono break-all">
+          {explorerUrl ? (
+            <a href={`${explorerUrl}/tx/${job.transactionHash}`} target="_blank" rel="noopener noreferrer" className="hover:text-white">
+              {job.transactionHash}
+            </a>
+          ) : job.transactionHash}
+        </div>
+      )}
+
+      {/* Errors of failed attempts stay visible while a retry is pending */}
+      {job.error && (
+        <div className={`text-xs ${job.status === 'failed' ? 'text-red-400' : 'text-amber-400'}`}>{job.error}</div>
+      )}
+
+      {job.logs && (
+        <div>
+          <button
+            onClick={() => setShowLogs(!showLogs)}
+            className="text-gray-400 hover:text-white text-xs flex items-center space-x-1"
+          >
+            <Terminal className="w-3 h-3" />
+            <span>{showLogs ? 'Hide logs' : 'Show logs'}</span>
+            {showLogs ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          </button>
+          {showLogs && (
+            <pre className="mt-2 max-h-64 overflow-auto bg-black/40 rounded-lg p-3 text-xs text-gray-300 whitespace-pre-wrap break-all">
+              {job.logs}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
 import React from 'react';
-import { CheckCircle, ExternalLink, Copy, Share2, Download, RefreshCw, ArrowLeft } from 'lucide-react';
+import { CheckCircle, ExternalLink, Copy, Share2, Download, RefreshCw, ArrowLeft, Vote, Camera, KeyRound } from 'lucide-react';
 import { DeploymentResult } from '../types';
 import { TokenMetadataForm } from './TokenMetadataForm';
 import { metadataService } from '../services/metadataService';
 import { TokenMetadata } from '../types/tokenMetadata';
+import { getVestingClaimUrl } from '../services/vestingService';
 
 interface DeploymentSuccessProps {
   result: DeploymentResult;
@@ -39,6 +40,9 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({ result, on
     checkMetadata();
   }, [result.contractAddress]);
 
+  // Multi-network projects list every deployment; the primary network's is shown in detail below
+  const deployments = result.deployments?.length ? result.deployments : [result];
+
   const copyToClipboard = (text: string, type: string) => {
     navigator.clipboard.writeText(text);
     setCopied(type);
@@ -65,6 +69,25 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({ result, on
     }
   };
 
+  // Governance tooling needs to know which extensions the token implements
+  const governanceFeatures = [
+    (result.features?.permit || result.features?.votes) && {
+      icon: KeyRound,
+      title: 'Permit (EIP-2612)',
+      description: `Approvals can be signed off-chain; the EIP-712 domain name is "${result.tokenName || 'the token name'}", version "1".`
+    },
+    result.features?.votes && {
+      icon: Vote,
+      title: 'Votes',
+      description: 'Voting power is checkpointed per block. Holders must delegate, even to themselves, before their votes count.'
+    },
+    result.features?.snapshot && {
+      icon: Camera,
+      title: 'Snapshots',
+      description: 'The owner can record balances with snapshot(); look them up with balanceOfAt and totalSupplyAt.'
+    }
+  ].filter(Boolean) as Array<{ icon: typeof Vote; title: string; description: string }>;
+
   const handleMetadataSave = (metadata: TokenMetadata) => {
     setTokenMetadata(metadata);
     // Hide form after successful save
@@ -118,7 +141,7 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({ result, on
           </div>
           <h1 className="text-4xl font-bold text-white mb-2">Token Deployed Successfully!</h1>
           <p className="text-gray-300 text-lg">
-            Your token contract has been deployed and verified on {result.network.name}
+            Your token contract has been deployed and verified on {deployments.map(deployment => deployment.network.name).join(', ')}
           </p>
         </div>
 
@@ -159,6 +182,56 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({ result, on
               {copied === 'tx' && <p className="text-green-400 text-sm mt-1">Copied!</p>}
             </div>
 
+            {result.implementationAddress && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Implementation Address</label>
+                <div className="flex items-center space-x-2 bg-white/10 rounded-lg p-3">
+                  <code className="text-white font-mono text-sm flex-1">
+                    {result.implementationAddress}
+                  </code>
+                  <button
+                    onClick={() => copyToClipboard(result.implementationAddress!, 'implementation')}
+                    className="p-1 text-gray-400 hover:text-white transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+                {copied === 'implementation' && <p className="text-green-400 text-sm mt-1">Copied!</p>}
+              </div>
+            )}
+
+            {result.vestingAddress && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Vesting Contract</label>
+                <div className="flex items-center space-x-2 bg-white/10 rounded-lg p-3">
+                  <code className="text-white font-mono text-sm flex-1">
+                    {result.vestingAddress}
+                  </code>
+                  <button
+                    onClick={() => copyToClipboard(result.vestingAddress!, 'vesting')}
+                    className="p-1 text-gray-400 hover:text-white transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+                {copied === 'vesting' && <p className="text-green-400 text-sm mt-1">Copied!</p>}
+                <a
+                  href={getVestingClaimUrl(result.vestingAddress, result.network.chainId)}
+                  className="inline-block text-blue-400 hover:text-blue-300 text-sm mt-2 transition-colors"
+                >
+                  Share the claim page with beneficiaries →
+                </a>
+              </div>
+            )}
+
+            {result.vestingError && (
+              <div className="md:col-span-2 bg-amber-500/20 border border-amber-500/50 rounded-lg p-4">
+                <p className="text-amber-300 text-sm">
+                  Vesting was not set up: {result.vestingError}. Create the schedules under Token Vesting in token management.
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">Network</label>
               <div className="text-white font-medium">{result.network.name}</div>
@@ -184,6 +257,60 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({ result, on
           </div>
         </div>
 
+        {/* Networks */}
+        {deployments.length > 1 && (
+          <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 mb-8">
+            <h2 className="text-2xl font-semibold text-white mb-6">Deployed Networks</h2>
+
+            <div className="space-y-3">
+              {deployments.map(deployment => (
+                <div key={deployment.network.chainId} className="flex items-center justify-between bg-white/5 rounded-lg p-4">
+                  <div>
+                    <div className="text-white font-medium">{deployment.network.name}</div>
+                    <code className="text-gray-300 font-mono text-sm">{deployment.contractAddress}</code>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {copied === `address-${deployment.network.chainId}` && <span className="text-green-400 text-sm">Copied!</span>}
+                    <button
+                      onClick={() => copyToClipboard(deployment.contractAddress, `address-${deployment.network.chainId}`)}
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <a
+                      href={deployment.explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Governance */}
+        {governanceFeatures.length > 0 && (
+          <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 mb-8">
+            <h2 className="text-2xl font-semibold text-white mb-6">Governance Extensions</h2>
+            
+            <div className="grid md:grid-cols-3 gap-6">
+              {governanceFeatures.map(({ icon: Icon, title, description }) => (
+                <div key={title} className="bg-white/5 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Icon className="w-5 h-5 text-blue-400" />
+                    <h4 className="font-medium text-white">{title}</h4>
+                  </div>
+                  <p className="text-sm text-gray-300">{description}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Token Metadata */}
         <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 mb-8">
           <div className="flex items-center justify-between mb-6">
@@ -205,6 +332,7 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({ result, on
           ) : showMetadataForm ? (
             <TokenMetadataForm
               tokenAddress={result.contractAddress}
+              chainId={result.network.chainId}
               tokenName={result.tokenName}
               tokenSymbol={result.tokenSymbol}
               isOwner={true}
@@ -12,6 +12,7 @@ interface LandingPageProps {
   onExploreSales?: () => void;
   onLiquidityLock?: () => void;
   onAirdrop?: () => void;
+  onClaimVesting?: () => void;
   onSolana?: () => void;
 }
 
@@ -23,6 +24,7 @@ export const LandingPage: React.FC<LandingPageProps> = ({
   onExploreSales,
   onLiquidityLock,
   onAirdrop,
+  onClaimVesting,
   onSolana
 }) => {
   const { isConnected } = useWallet();
@@ -108,6 +110,14 @@ export const LandingPage: React.FC<LandingPageProps> = ({
                   Liquidity Lock
                 </button>
               )}
+              {onClaimVesting && (
+                <button
+                  onClick={onClaimVesting}
+                  className="text-gray-300 hover:text-white transition-colors"
+                >
+                  Claim Vesting
+                </button>
+              )}
               {onAirdrop && (
                 <button
                   onClick={onAirdrop}
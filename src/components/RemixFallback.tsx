@@ -11,6 +11,8 @@ import {
   File
 } from 'lucide-react';
 import { TokenConfig } from '../types';
+import { getContractSource } from '../services/contractSource';
+import { getTokenContractFeatures, getTokenContractName, getTokenConstructorArgs } from '../services/tokenContractGenerator';
 
 interface RemixFallbackProps {
   config: TokenConfig;
@@ -34,67 +36,18 @@ export const RemixFallback: React.FC<RemixFallbackProps> = ({ config, onBack })
     setTimeout(() => setCopied(null), 2000);
   };
 
-  const getContractType = () => {
-    const features = config.features;
-    
-    if (features.burnable && features.mintable && 
-        (features.transferFees.enabled || features.holderRedistribution.enabled)) {
-      return 'AdvancedToken';
-    } else if (features.burnable && features.mintable) {
-      return 'BurnableMintableToken';
-    } else if (features.burnable) {
-      return 'BurnableToken';
-    } else if (features.mintable) {
-      return 'MintableToken';
-    } else if (features.transferFees.enabled) {
-      return 'FeeToken';
-    } else if (features.holderRedistribution.enabled) {
-      return 'RedistributionToken';
-    } else {
-      return 'BasicToken';
-    }
-  };
-
-  const generateConstructorParams = () => {
-    const contractType = getContractType();
-    const baseParams = [
-      `"${config.name}"`, // name
-      `"${config.symbol}"`, // symbol
-      config.decimals.toString(), // decimals
-      config.initialSupply, // initialSupply
-      config.maxSupply || '0', // maxSupply (0 for unlimited)
-    ];
+  const getContractType = () => getTokenContractName(getTokenContractFeatures(config.features));
 
-    switch (contractType) {
-      case 'FeeToken':
-        return [
-          ...baseParams,
-          (config.features.transferFees.percentage * 100).toString(), // feePercentage (in basis points)
-          `"${config.features.transferFees.recipient}"`, // feeRecipient
-          '"YOUR_WALLET_ADDRESS"' // owner
-        ];
-      case 'RedistributionToken':
-        return [
-          ...baseParams,
-          (config.features.holderRedistribution.percentage * 100).toString(), // redistributionPercentage
-          '"YOUR_WALLET_ADDRESS"' // owner
-        ];
-      case 'AdvancedToken':
-        return [
-          ...baseParams,
-          (config.features.transferFees.percentage * 100).toString(), // feePercentage
-          `"${config.features.transferFees.recipient}"`, // feeRecipient
-          (config.features.holderRedistribution.percentage * 100).toString(), // redistributionPercentage
-          '"YOUR_WALLET_ADDRESS"' // owner
-        ];
-      default:
-        return [
-          ...baseParams,
-          '"YOUR_WALLET_ADDRESS"' // owner
-        ];
-    }
+  // Display values as they are entered in Remix's deploy form: quoted strings, structs and arrays in brackets
+  const formatParam = (param: unknown): string => {
+    if (Array.isArray(param)) return `[${param.map(formatParam).join(', ')}]`;
+    if (typeof param === 'string' && !/^\d+$/.test(param)) return `"${param}"`;
+    return String(param);
   };
 
+  const generateConstructorParams = () =>
+    getTokenConstructorArgs(config, 'YOUR_WALLET_ADDRESS').map(formatParam);
+
   const getContractFiles = (): ContractFile[] => {
     const contractType = getContractType();
     const constructorParams = generateConstructorParams();
@@ -106,8 +59,7 @@ export const RemixFallback: React.FC<RemixFallbackProps> = ({ config, onBack })
         content: `// Deploy this contract on Remix IDE
 // Constructor parameters:
 // ${constructorParams.map((param, i) => `// ${i + 1}. ${param}`).join('\n// ')}
-
-// Copy the contract code from: src/contracts/tokens/${contractType}.sol`
+${getContractSource(contractType)}`
       }
     ];
 
@@ -157,9 +109,7 @@ export const RemixFallback: React.FC<RemixFallbackProps> = ({ config, onBack })
     const files = [
       {
         name: `${contractType}.sol`,
-        content: await fetch(`/src/contracts/tokens/${contractType}.sol`).then(r => r.text()).catch(() => 
-          `// Contract file not found. Please copy from src/contracts/tokens/${contractType}.sol`
-        )
+        content: getContractSource(contractType)
       },
       {
         name: `${contractType}.json`,
@@ -271,18 +221,18 @@ export const RemixFallback: React.FC<RemixFallbackProps> = ({ config, onBack })
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm text-gray-300">Contract Type: {contractType}</span>
                   <button
-                    onClick={() => copyToClipboard(`src/contracts/tokens/${contractType}.sol`, 'contract-path')}
+                    onClick={() => copyToClipboard(getContractSource(contractType), 'contract-code')}
                     className="text-blue-400 hover:text-blue-300 text-sm flex items-center space-x-1"
                   >
                     <Copy className="w-3 h-3" />
-                    <span>Copy Path</span>
+                    <span>Copy Code</span>
                   </button>
                 </div>
-                <code className="text-green-400 text-sm">src/contracts/tokens/{contractType}.sol</code>
+                <code className="text-green-400 text-sm">{contractType}.sol</code>
               </div>
               
-              {copied === 'contract-path' && (
-                <div className="text-green-400 text-sm mb-2">Path copied to clipboard!</div>
+              {copied === 'contract-code' && (
+                <div className="text-green-400 text-sm mb-2">Contract code copied to clipboard!</div>
               )}
             </div>
 
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { ArrowLeft, ArrowRight, CheckCircle, AlertTriangle, Zap, Clock, Shield, Globe } from 'lucide-react';
-import { TokenConfig, DeploymentResult } from '../types';
+import { ArrowLeft, ArrowRight, CheckCircle, AlertTriangle, Zap, Clock, Shield, Globe, Loader2, XCircle, Circle } from 'lucide-react';
+import { TokenConfig, DeploymentResult, DeploymentJob, DeploymentCostEstimate, FeeTier } from '../types';
 import { RemixFallback } from './RemixFallback';
 import { TokenMetadataForm } from './TokenMetadataForm';
 import { NetworkMismatchModal } from './NetworkMismatchModal';
@@ -9,10 +9,38 @@ import { vestingCategories } from '../data/vestingCategories';
 import { web3Service } from '../services/web3Service';
 import { useNetworkMode } from '../hooks/useNetworkMode';
 import { useWallet } from '../hooks/useWallet';
+import { ChainDeploymentStatus, getTargetNetworks, useMultiChainDeployment } from '../hooks/useMultiChainDeployment';
 import { useEffect } from 'react';
 import { networks } from '../data/networks';
 import { TokenMetadata } from '../types/tokenMetadata';
 import { metadataService } from '../services/metadataService';
+import { VanityAddressPanel } from './VanityAddressPanel';
+import { DeploymentJobTracker } from './DeploymentJobTracker';
+import { FACTORY_TOKEN_TYPES } from '../services/vanityAddress';
+import { formatUsd } from '../services/priceService';
+import { VestingFundingStep, getVestingAllocations, getVestingFundingIssue } from '../services/vestingService';
+import { getTokenContractFeatures, getTokenContractName, getTokenConstructorArgs } from '../services/tokenContractGenerator';
+
+const VESTING_STEP_LABELS: Record<'deploying' | VestingFundingStep, string> = {
+  deploying: 'Deploying vesting contract...',
+  exempting: 'Exempting vesting contract from trading limits...',
+  approving: 'Approving vested tokens...',
+  creating: 'Creating vesting schedules...'
+};
+
+const FEE_TIER_LABELS: Record<FeeTier, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast'
+};
+
+const CHAIN_STATUS_LABELS: Record<ChainDeploymentStatus, string> = {
+  pending: 'Waiting',
+  switching: 'Switching network...',
+  deploying: 'Deploying...',
+  deployed: 'Deployed',
+  failed: 'Failed'
+};
 
 interface ReviewDeployProps {
   config: TokenConfig;
@@ -22,23 +50,34 @@ interface ReviewDeployProps {
 
 export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDeploy }) => {
   const { isTestnetMode } = useNetworkMode();
-  const { chainId, switchToNetwork, isAttemptingSwitch, switchError } = useWallet();
+  const { address, chainId, switchToNetwork, isAttemptingSwitch, switchError } = useWallet();
   const [isDeploying, setIsDeploying] = useState(false);
   const [isEstimating, setIsEstimating] = useState(true);
   const [agreed, setAgreed] = useState(false);
   const [deploymentFailed, setDeploymentFailed] = useState(false);
   const [deploymentError, setDeploymentError] = useState<string | null>(null);
   const [useFactory, setUseFactory] = useState(true);
+  const [create2Salt, setCreate2Salt] = useState<string | undefined>(undefined);
+  const [deploymentJob, setDeploymentJob] = useState<DeploymentJob | null>(null);
+  const [vestingStep, setVestingStep] = useState<'deploying' | VestingFundingStep | null>(null);
   const [showMetadataForm, setShowMetadataForm] = useState(false);
   const [tokenMetadata, setTokenMetadata] = useState<TokenMetadata | null>(null);
-  const [costEstimate, setCostEstimate] = useState({
+  const [costEstimate, setCostEstimate] = useState<DeploymentCostEstimate>({
     gasEstimate: '0',
-    gasCost: '0.025',
-    gasCostUsd: '$65',
+    gasCost: '0.0',
+    gasCostUsd: '$0.00',
     timeEstimate: '1-3 minutes',
-    useFactory: true
+    useFactory: true,
+    factoryAvailable: false,
+    creationFee: '0.0',
+    creationFeeUsd: null,
+    eip1559: false,
+    tiers: []
   });
   const [showNetworkModal, setShowNetworkModal] = useState(false);
+  const targetNetworks = getTargetNetworks(config);
+  const isMultiNetwork = targetNetworks.length > 1;
+  const { chains, hasStarted, deployAll } = useMultiChainDeployment(config);
 
   // Fetch real gas estimate on component mount
   useEffect(() => {
@@ -55,7 +94,8 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
         setIsEstimating(true);
         const estimate = await contractService.estimateDeploymentCost({
           ...config,
-          useFactory
+          useFactory,
+          create2Salt
         });
         setCostEstimate(estimate);
         setUseFactory(estimate.useFactory);
@@ -67,14 +107,15 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     };
     
     fetchGasEstimate();
-  }, [config.features, config.network, config.initialSupply, config.name, config.symbol, useFactory, isTestnetMode]);
+  }, [config.features, config.network, config.initialSupply, config.name, config.symbol, useFactory, create2Salt, isTestnetMode]);
 
   // Check if we need to switch networks before deployment
+  // Multi-network deployments switch networks themselves
   useEffect(() => {
-    if (chainId && config.network.chainId !== chainId) {
+    if (chainId && config.network.chainId !== chainId && !isDeploying && !hasStarted) {
       setShowNetworkModal(true);
     }
-  }, [chainId, config.network.chainId]);
+  }, [chainId, config.network.chainId, isDeploying, hasStarted]);
 
   // Handle metadata save
   const handleMetadataSave = (metadata: TokenMetadata) => {
@@ -96,28 +137,55 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     
     setIsDeploying(true);
     setDeploymentError(null);
+    setDeploymentJob(null);
     
     try {
-      // Check if we're on the correct network
-      const currentNetwork = await web3Service.getCurrentNetwork();
-      if (currentNetwork?.chainId !== config.network.chainId) {
+      let result: DeploymentResult | null;
+
+      if (isMultiNetwork) {
+        // Failed networks are listed with their errors and deployed again on resume
+        result = await deployAll({ useFactory, create2Salt });
+        if (!result) return;
+      } else {
+        // Check if we're on the correct network
+        const currentNetwork = await web3Service.getCurrentNetwork();
+        if (currentNetwork?.chainId !== config.network.chainId) {
+          try {
+            await web3Service.switchNetwork(config.network);
+          } catch (error) {
+            throw new Error(`Please switch to ${config.network.name} network before deploying`);
+          }
+        }
+        
+        // Deploy token using contractService; the server queues it and reports each stage
+        result = await contractService.deployToken({
+          ...config,
+          useFactory,
+          create2Salt
+        }, {
+          idempotencyKey: crypto.randomUUID(),
+          onJobUpdate: setDeploymentJob
+        });
+      }
+
+      // Vesting is funded from the connected wallet, which received the supply; a failure leaves the
+      // token deployed and vesting is finished from token management
+      if (getVestingAllocations(config).length > 0) {
         try {
-          await web3Service.switchNetwork(config.network);
+          const vestingAddress = await contractService.deployVesting(config, result.contractAddress, setVestingStep);
+          result = { ...result, vestingAddress };
         } catch (error) {
-          throw new Error(`Please switch to ${config.network.name} network before deploying`);
+          console.error('Vesting setup failed:', error);
+          result = { ...result, vestingError: (error as Error).message };
+        } finally {
+          setVestingStep(null);
         }
       }
-      
-      // Deploy token using contractService
-      const result = await contractService.deployToken({
-        ...config,
-        useFactory
-      });
 
       // If we have metadata, link it to the deployed token
       if (tokenMetadata) {
         try {
-          await metadataService.linkTemporaryMetadata(result.contractAddress);
+          await metadataService.linkTemporaryMetadata(result.contractAddress, result.network.chainId);
         } catch (error) {
           console.error('Failed to link metadata:', error);
           // Continue even if metadata linking fails
@@ -143,12 +211,27 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     }
   };
 
+  const contractType = getTokenContractName(getTokenContractFeatures(config.features));
+
   const getActiveFeatures = () => {
     const features = [];
     if (config.features.burnable) features.push('Burnable');
     if (config.features.mintable) features.push('Mintable');
     if (config.features.transferFees.enabled) features.push('Transfer Fees');
-    if (config.features.holderRedistribution.enabled) features.push('Holder Redistribution');
+    if (config.features.taxes?.enabled) features.push('Buy/Sell Taxes');
+    if (config.features.taxes?.enabled && config.features.taxes.dividends?.enabled) features.push('Holder Dividends');
+    if (config.features.holderRedistribution.enabled) {
+      features.push(config.features.holderRedistribution.mode === 'reflection' ? 'Reflection Redistribution' : 'Holder Redistribution');
+    }
+    if (config.features.antiWhale?.enabled) features.push('Anti-Whale Limits');
+    if (config.features.permit || config.features.votes) features.push('Permit (EIP-2612)');
+    if (config.features.votes) features.push('Governance Votes');
+    if (config.features.snapshot) features.push('Snapshots');
+    if (config.features.pausable) features.push('Pausable');
+    if (config.features.blacklist) features.push('Address Blacklist');
+    if (config.features.roles) features.push('Role-Based Access');
+    if (config.features.bridgeable) features.push('Cross-Chain Bridge');
+    if (config.features.upgradeable) features.push('Upgradeable (UUPS Proxy)');
     return features;
   };
 
@@ -157,6 +240,8 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     return <RemixFallback config={config} onBack={() => setDeploymentFailed(false)} />;
   }
 
+  const vestingFundingIssue = getVestingFundingIssue(config, address || '');
+
   const getVestingCategories = () => {
     return config.vesting.map(vest => {
       const category = vestingCategories.find(c => c.id === vest.category)!;
@@ -164,7 +249,9 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
         name: category.name,
         percentage: vest.percentage,
         startDate: vest.startDate,
-        duration: vest.duration
+        duration: vest.duration,
+        cliff: vest.cliff || 0,
+        tgePercentage: vest.tgePercentage || 0
       };
     });
   };
@@ -211,8 +298,8 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                   <div className="text-white font-medium">{parseInt(config.initialSupply).toLocaleString()}</div>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-1">Network</label>
-                  <div className="text-white font-medium">{config.network.name}</div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">{isMultiNetwork ? 'Networks' : 'Network'}</label>
+                  <div className="text-white font-medium">{targetNetworks.map(network => network.name).join(', ')}</div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-1">Max Supply</label>
@@ -220,6 +307,12 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                     {config.maxSupply ? parseInt(config.maxSupply).toLocaleString() : 'Unlimited'}
                   </div>
                 </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Owner</label>
+                  <div className="text-white font-medium font-mono text-sm">
+                    {config.initialOwner || 'Your connected wallet'}
+                  </div>
+                </div>
               </div>
             </div>
 
@@ -248,10 +341,42 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                 </div>
               )}
               
+              {config.features.taxes?.enabled && (
+                <div className="mt-4 p-3 bg-blue-500/20 rounded-lg">
+                  <div className="text-sm text-blue-300">
+                    Buy: {config.features.taxes.buyPercentage}% · Sell: {config.features.taxes.sellPercentage}% · Transfer: {config.features.taxes.transferPercentage}%
+                  </div>
+                  <div className="text-xs text-blue-300/80 mt-1">
+                    {config.features.taxes.recipients.map(recipient => `${recipient.label || recipient.address.slice(0, 6)} ${recipient.share}%`).join(' · ')}
+                    {config.features.taxes.liquidityShare > 0 && ` · Liquidity ${config.features.taxes.liquidityShare}%`}
+                  </div>
+                  {config.features.taxes.dividends?.enabled && (
+                    <div className="text-xs text-blue-300/80 mt-1">
+                      Holder dividends in {config.features.taxes.dividends.rewardToken ? `${config.features.taxes.dividends.rewardToken.slice(0, 6)}...` : config.network.symbol}
+                      {' '}· Min balance {config.features.taxes.dividends.minimumBalance} {config.symbol}
+                    </div>
+                  )}
+                </div>
+              )}
+              
               {config.features.holderRedistribution.enabled && (
                 <div className="mt-4 p-3 bg-purple-500/20 rounded-lg">
                   <div className="text-sm text-purple-300">
                     Holder Redistribution: {config.features.holderRedistribution.percentage}%
+                    {config.features.holderRedistribution.mode === 'reflection' ? ' (reflection, no claiming)' : ' (claim-based)'}
+                  </div>
+                </div>
+              )}
+              
+              {config.features.antiWhale?.enabled && (
+                <div className="mt-4 p-3 bg-amber-500/20 rounded-lg">
+                  <div className="text-sm text-amber-300">
+                    Max Transaction: {config.features.antiWhale.maxTransactionPercentage || 'No limit'}{config.features.antiWhale.maxTransactionPercentage ? '%' : ''}
+                    {' · '}Max Wallet: {config.features.antiWhale.maxWalletPercentage || 'No limit'}{config.features.antiWhale.maxWalletPercentage ? '%' : ''}
+                    {' · '}Launch Protection: {config.features.antiWhale.launchProtectionBlocks} blocks
+                  </div>
+                  <div className="text-xs text-amber-300/80 mt-1">
+                    Trading stays disabled until you enable it from the token management page
                   </div>
                 </div>
               )}
@@ -274,7 +399,89 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                         <div className="text-sm text-gray-300">
                           {vest.duration} days from {new Date(vest.startDate).toLocaleDateString()}
                         </div>
+                        {(vest.cliff > 0 || vest.tgePercentage > 0) && (
+                          <div className="text-xs text-gray-400">
+                            {vest.tgePercentage}% at TGE{vest.cliff > 0 ? `, ${vest.cliff}-day cliff` : ''}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {vestingFundingIssue ? (
+                  <p className="text-amber-400 text-sm mt-4">
+                    {vestingFundingIssue}. The token deploys without its vesting contract.
+                  </p>
+                ) : (
+                  <p className="text-gray-400 text-sm mt-4">
+                    After the token is deployed your wallet deploys a vesting contract and moves these allocations into it.
+                  </p>
+                )}
+                {vestingStep && (
+                  <div className="flex items-center space-x-2 text-sm text-blue-300 mt-3">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>{VESTING_STEP_LABELS[vestingStep]}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Deterministic Address */}
+            {useFactory && FACTORY_TOKEN_TYPES.includes(contractType) && (config.initialOwner || address) && (
+              <VanityAddressPanel
+                contractType={contractType}
+                constructorArgs={getTokenConstructorArgs(config, (config.initialOwner || address)!)}
+                isTestnetMode={isTestnetMode}
+                salt={create2Salt}
+                onSaltChange={setCreate2Salt}
+              />
+            )}
+
+            {/* Deployment Progress */}
+            {!isMultiNetwork && deploymentJob && (
+              <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                <h2 className="text-xl font-semibold text-white mb-4">Deployment Progress</h2>
+                <DeploymentJobTracker job={deploymentJob} explorerUrl={config.network.explorerUrl} />
+              </div>
+            )}
+
+            {/* Multi-Network Progress */}
+            {isMultiNetwork && (
+              <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                <h2 className="text-xl font-semibold text-white mb-2">Networks</h2>
+                <p className="text-gray-400 text-sm mb-4">
+                  Your wallet is switched to each network in turn. If a network fails, the others still deploy and you
+                  can resume with only the failed ones.
+                </p>
+
+                <div className="space-y-3">
+                  {chains.map(({ network, status, result, error, job }) => (
+                    <div key={network.chainId} className="p-3 bg-white/5 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          {status === 'deployed' ? (
+                            <CheckCircle className="w-4 h-4 text-green-400" />
+                          ) : status === 'failed' ? (
+                            <XCircle className="w-4 h-4 text-red-400" />
+                          ) : status === 'pending' ? (
+                            <Circle className="w-4 h-4 text-gray-400" />
+                          ) : (
+                            <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+                          )}
+                          <span className="text-white font-medium">{network.name}</span>
+                        </div>
+                        <span className={`text-sm ${status === 'deployed' ? 'text-green-400' : status === 'failed' ? 'text-red-400' : 'text-gray-300'}`}>
+                          {CHAIN_STATUS_LABELS[status]}
+                        </span>
                       </div>
+                      {result && <div className="text-gray-300 font-mono text-xs mt-2 break-all">{result.contractAddress}</div>}
+                      {error && <div className="text-red-400 text-xs mt-2">{error}</div>}
+                      {job && status !== 'deployed' && (
+                        <div className="mt-3">
+                          <DeploymentJobTracker job={job} explorerUrl={network.explorerUrl} />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -356,29 +563,71 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
               
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-300">Network</span>
+                  <span className="text-gray-300">{isMultiNetwork ? 'Networks' : 'Network'}</span>
                   <div className="flex items-center">
-                    <span className="text-white font-medium">{config.network.name}</span>
+                    <span className="text-white font-medium">{isMultiNetwork ? targetNetworks.length : config.network.name}</span>
                     {isEstimating && (
                       <div className="ml-2 w-3 h-3 rounded-full bg-blue-500 animate-pulse"></div>
                     )}
                   </div>
                 </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-300">Estimated Gas</span>
-                  <span className="text-white font-medium">{costEstimate.gasCost} {config.network.symbol}</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-300">USD Cost</span>
-                  <span className="text-white font-medium">{costEstimate.gasCostUsd}</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-300">Estimated Time</span>
-                  <span className="text-white font-medium">{costEstimate.timeEstimate}</span>
-                </div>
+                {costEstimate.tiers.length > 0 ? (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-gray-300">Estimated Gas{isMultiNetwork && ` (${config.network.name})`}</span>
+                      <span className="text-gray-400 text-xs">{Number(costEstimate.gasEstimate).toLocaleString()} gas</span>
+                    </div>
+                    {/* Legacy chains have a single gas price, so only the normal tier is shown */}
+                    <div className="space-y-1.5">
+                      {costEstimate.tiers.filter(tier => costEstimate.eip1559 || tier.tier === 'normal').map(tier => (
+                        <div key={tier.tier} className="grid grid-cols-4 gap-2 text-sm">
+                          <span className={tier.tier === 'normal' ? 'text-white' : 'text-gray-400'}>
+                            {costEstimate.eip1559 ? FEE_TIER_LABELS[tier.tier] : 'Gas'}
+                          </span>
+                          <span className="text-white font-medium text-right col-span-2">
+                            {parseFloat(tier.gasCost).toFixed(6)} {config.network.symbol}
+                            <span className="text-gray-400 font-normal"> · {formatUsd(tier.gasCostUsd)}</span>
+                          </span>
+                          <span className="text-gray-400 text-right">{tier.timeEstimate}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300">Estimated Gas{isMultiNetwork && ` (${config.network.name})`}</span>
+                      <span className="text-white font-medium">{costEstimate.gasCost} {config.network.symbol}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300">USD Cost</span>
+                      <span className="text-white font-medium">{costEstimate.gasCostUsd}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-300">Estimated Time</span>
+                      <span className="text-white font-medium">{costEstimate.timeEstimate}</span>
+                    </div>
+                  </>
+                )}
+                {useFactory && costEstimate.factoryAvailable && parseFloat(costEstimate.creationFee) > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-300">Factory Fee</span>
+                    <span className="text-white font-medium">
+                      {costEstimate.creationFee} {config.network.symbol}
+                      <span className="text-gray-400 font-normal"> · {formatUsd(costEstimate.creationFeeUsd)}</span>
+                    </span>
+                  </div>
+                )}
+                {useFactory && !costEstimate.factoryAvailable && !isEstimating && (
+                  <p className="text-xs text-amber-400">
+                    No token factory is known on {config.network.name}; the estimate is for a direct deployment.
+                  </p>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-gray-300">Service Fee</span>
-                  <span className="text-white font-medium">100 ESR (~$25)</span>
+                  <span className="text-white font-medium">
+                    {isMultiNetwork ? `100 ESR × ${targetNetworks.length}` : '100 ESR (~$25)'}
+                  </span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-gray-300">Use Factory</span>
@@ -417,7 +666,7 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                 {useFactory && (
                 <div className="flex items-center space-x-3">
                   <Zap className="w-4 h-4 text-green-400" />
-                  <span className="text-white text-sm">Factory deployment (saves ~30% gas)</span>
+                  <span className="text-white text-sm">Factory deployment</span>
                 </div>
                 )}
                 <div className="flex items-center space-x-3">
@@ -463,7 +712,9 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
               </>
             ) : (
               <>
-                <span>Deploy Token</span>
+                <span>
+                  {!isMultiNetwork ? 'Deploy Token' : hasStarted ? 'Resume Deployment' : `Deploy to ${targetNetworks.length} Networks`}
+                </span>
                 <ArrowRight className="w-4 h-4" />
               </>
             )}
@@ -67,7 +67,7 @@ export const SaleExplorer: React.FC = () => {
             startDate: new Date().toISOString(),
             endDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
             network: sale.network.name,
-            networkSymbol: sale.network.symbol
+            networkSymbol: sale.paymentSymbol || sale.network.symbol
           };
         });
         
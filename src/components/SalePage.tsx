@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
 import { 
   Clock, 
   Users, 
@@ -25,6 +26,7 @@ import { WalletConnection } from './WalletConnection';
 import { TokenMetadataDisplay } from './TokenMetadataDisplay';
 import { ReferralSystem } from './presale/ReferralSystem';
 import { metadataService } from '../services/metadataService';
+import { PresalePurchaseStep } from '../services/presalePayments';
 
 interface SalePageProps {
   contractAddress: string;
@@ -39,13 +41,18 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
     isWhitelisted,
     buyTokens, 
     claimTokens,
+    claimRefund,
+    enableRefunds,
     loadSaleData,
     loadUserInfo
   } = useSaleContract(contractAddress);
 
   const [purchaseAmount, setPurchaseAmount] = useState('');
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [purchaseStep, setPurchaseStep] = useState<PresalePurchaseStep | null>(null);
+  const [purchaseError, setPurchaseError] = useState<string | null>(null);
   const [isClaiming, setIsClaiming] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
   const [isEmergencyWithdrawing, setIsEmergencyWithdrawing] = useState(false);
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'buyers' | 'referral'>('overview');
@@ -135,15 +142,18 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
     if (!purchaseAmount || !saleData) return;
     
     setIsPurchasing(true);
+    setPurchaseError(null);
     try {
-      await buyTokens(purchaseAmount);
+      await buyTokens(purchaseAmount, setPurchaseStep);
       setPurchaseAmount('');
       await loadSaleData();
       await loadUserInfo(address!);
     } catch (error) {
       console.error('Purchase failed:', error);
+      setPurchaseError((error as { shortMessage?: string }).shortMessage || (error as Error).message);
     } finally {
       setIsPurchasing(false);
+      setPurchaseStep(null);
     }
   };
 
@@ -159,6 +169,31 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
     }
   };
 
+  const handleRefund = async () => {
+    setIsRefunding(true);
+    try {
+      await claimRefund();
+      await loadSaleData();
+      await loadUserInfo(address!);
+    } catch (error) {
+      console.error('Refund failed:', error);
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  const handleEnableRefunds = async () => {
+    setIsRefunding(true);
+    try {
+      await enableRefunds();
+      await loadSaleData();
+    } catch (error) {
+      console.error('Enabling refunds failed:', error);
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
   const handleEmergencyWithdraw = async () => {
     if (!isConnected) return;
     
@@ -249,6 +284,14 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
 
   const status = getSaleStatus();
   const vestingInfo = getVestingInfo();
+  const payWithToken = saleData.paymentToken !== ethers.ZeroAddress;
+  const softCapMissed = parseFloat(saleData.totalRaised) < parseFloat(saleData.softCap);
+  // Auto-listed sales only release tokens once finalized; unfinalized sales without claimable tokens can
+  // be refunded by anyone after the grace period
+  const awaitingListing = !!saleData.autoListing && !saleData.isFinalized && !softCapMissed;
+  const refundable = softCapMissed || awaitingListing;
+  const canEnableRefunds = refundable && !saleData.isFinalized && Date.now() / 1000 > saleData.refundDeadline;
+  const refundDeadline = new Date(saleData.refundDeadline * 1000).toLocaleDateString();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
@@ -403,13 +446,13 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                         <div className="text-2xl font-bold text-white">
                           {parseFloat(saleData.totalRaised).toFixed(2)}
                         </div>
-                        <div className="text-sm text-gray-300">Raised ({saleData.networkSymbol})</div>
+                        <div className="text-sm text-gray-300">Raised ({saleData.paymentSymbol})</div>
                       </div>
                       <div className="text-center">
                         <div className="text-2xl font-bold text-white">
                           {parseFloat(saleData.hardCap).toFixed(2)}
                         </div>
-                        <div className="text-sm text-gray-300">Hard Cap ({saleData.networkSymbol})</div>
+                        <div className="text-sm text-gray-300">Hard Cap ({saleData.paymentSymbol})</div>
                       </div>
                     </div>
                   </div>
@@ -424,19 +467,19 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                       <div className="flex justify-between">
                         <span className="text-gray-300">Token Price</span>
                         <span className="text-white font-medium">
-                          {saleData.tokenPrice} {saleData.tokenSymbol} per {saleData.networkSymbol}
+                          {saleData.tokenPrice} {saleData.tokenSymbol} per {saleData.paymentSymbol}
                         </span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-300">Soft Cap</span>
                         <span className="text-white font-medium">
-                          {saleData.softCap} {saleData.networkSymbol}
+                          {saleData.softCap} {saleData.paymentSymbol}
                         </span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-300">Hard Cap</span>
                         <span className="text-white font-medium">
-                          {saleData.hardCap} {saleData.networkSymbol}
+                          {saleData.hardCap} {saleData.paymentSymbol}
                         </span>
                       </div>
                       <div className="flex justify-between">
@@ -449,13 +492,13 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                       <div className="flex justify-between">
                         <span className="text-gray-300">Min Purchase</span>
                         <span className="text-white font-medium">
-                          {saleData.minPurchase} {saleData.networkSymbol}
+                          {saleData.minPurchase} {saleData.paymentSymbol}
                         </span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-300">Max Purchase</span>
                         <span className="text-white font-medium">
-                          {saleData.maxPurchase} {saleData.networkSymbol}
+                          {saleData.maxPurchase} {saleData.paymentSymbol}
                         </span>
                       </div>
                       <div className="flex justify-between">
@@ -472,6 +515,16 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                       </div>
                     </div>
                   </div>
+
+                  {saleData.autoListing && (
+                    <div className="mt-4 p-3 bg-blue-500/20 rounded-lg">
+                      <p className="text-blue-300 text-sm">
+                        {saleData.autoListing.lpToken !== ethers.ZeroAddress
+                          ? `Listed with ${saleData.paymentSymbol}; the liquidity is locked until ${new Date(saleData.autoListing.unlockTime * 1000).toLocaleDateString()}.`
+                          : `When the sale succeeds, ${saleData.autoListing.liquidityPercentage}% of the raised ${saleData.paymentSymbol} is paired at ${saleData.autoListing.listingPrice} ${saleData.tokenSymbol} per ${saleData.paymentSymbol} and the liquidity is locked for ${saleData.autoListing.lockDuration} days.`}
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 {/* Token Contract Info */}
@@ -602,7 +655,7 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
               <ReferralSystem 
                 presaleAddress={contractAddress}
                 referralTrackerAddress="0x742d35Cc6634C0532925a3b8D4C9db96590c6C8C" // Replace with actual address
-                baseTokenSymbol={saleData.networkSymbol}
+                baseTokenSymbol={saleData.paymentSymbol}
               />
             )}
           </div>
@@ -629,7 +682,7 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span className="text-gray-300">Contributed</span>
-                        <span className="text-white">{userInfo.contribution} {saleData.networkSymbol}</span>
+                        <span className="text-white">{userInfo.contribution} {saleData.paymentSymbol}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-300">Token Amount</span>
@@ -665,6 +718,47 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                     </div>
                   )}
 
+                  {/* Refund */}
+                  {(refundable || saleData.refundsEnabled) && parseFloat(userInfo.contribution) > 0 && (
+                    saleData.refundsEnabled ? (
+                      <div className="bg-amber-500/20 border border-amber-500/50 rounded-lg p-4">
+                        <p className="text-amber-300 text-sm mb-3">
+                          {softCapMissed ? 'The sale did not reach its soft cap.' : 'The sale was not finalized in time.'}{' '}
+                          Claim back your {userInfo.contribution} {saleData.paymentSymbol}.
+                        </p>
+                        <button
+                          onClick={handleRefund}
+                          disabled={isRefunding}
+                          className="w-full bg-amber-500 hover:bg-amber-600 text-white py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
+                        >
+                          {isRefunding ? 'Refunding...' : 'Claim Refund'}
+                        </button>
+                      </div>
+                    ) : canEnableRefunds ? (
+                      <div className="bg-amber-500/20 border border-amber-500/50 rounded-lg p-4">
+                        <p className="text-amber-300 text-sm mb-3">
+                          The sale owner did not finalize the sale in time. Anyone can open refunds now.
+                        </p>
+                        <button
+                          onClick={handleEnableRefunds}
+                          disabled={isRefunding}
+                          className="w-full bg-amber-500 hover:bg-amber-600 text-white py-3 rounded-lg font-medium transition-colors disabled:opacity-50"
+                        >
+                          {isRefunding ? 'Opening refunds...' : 'Open Refunds'}
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="bg-white/5 rounded-lg p-4">
+                        <p className="text-gray-300 text-sm">
+                          {softCapMissed
+                            ? 'The sale did not reach its soft cap. Refunds open once the sale owner finalizes it'
+                            : 'Tokens can be claimed once the sale owner finalizes the sale and lists the token'}
+                          , or for anyone after {refundDeadline} if they have not.
+                        </p>
+                      </div>
+                    )
+                  )}
+
                   {/* Claim Button */}
                   {parseFloat(userInfo.claimableTokens) > 0 && (
                     <button
@@ -680,7 +774,7 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Amount ({saleData.networkSymbol})
+                      Amount ({saleData.paymentSymbol})
                     </label>
                     <input
                       type="number"
@@ -708,8 +802,17 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                     disabled={!purchaseAmount || isPurchasing || parseFloat(purchaseAmount) < parseFloat(saleData.minPurchase)}
                     className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 disabled:opacity-50"
                   >
-                    {isPurchasing ? 'Processing...' : 'Buy Tokens'}
+                    {purchaseStep === 'approving'
+                      ? `Approving ${saleData.paymentSymbol}...`
+                      : isPurchasing ? 'Processing...' : 'Buy Tokens'}
                   </button>
+
+                  {payWithToken && (
+                    <p className="text-gray-400 text-xs">
+                      Buying with {saleData.paymentSymbol} takes two transactions: approving the sale to spend it, then the purchase.
+                    </p>
+                  )}
+                  {purchaseError && <p className="text-red-400 text-sm">{purchaseError}</p>}
                 </div>
               ) : (
                 <div className="text-center">
@@ -750,7 +853,7 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                   <DollarSign className="w-5 h-5 text-purple-400" />
                   <div>
                     <div className="text-white font-medium">
-                      {parseFloat(saleData.totalRaised).toFixed(2)} {saleData.networkSymbol}
+                      {parseFloat(saleData.totalRaised).toFixed(2)} {saleData.paymentSymbol}
                     </div>
                     <div className="text-sm text-gray-300">Total Raised</div>
                   </div>
@@ -782,19 +885,19 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                   <div>
                     <div className="text-sm text-gray-300">Your Contribution</div>
                     <div className="text-white font-medium">
-                      {calculateEmergencyWithdraw().contribution} {saleData.networkSymbol}
+                      {calculateEmergencyWithdraw().contribution} {saleData.paymentSymbol}
                     </div>
                   </div>
                   <div>
                     <div className="text-sm text-gray-300">Penalty (10%)</div>
                     <div className="text-red-400 font-medium">
-                      {calculateEmergencyWithdraw().penalty} {saleData.networkSymbol}
+                      {calculateEmergencyWithdraw().penalty} {saleData.paymentSymbol}
                     </div>
                   </div>
                   <div>
                     <div className="text-sm text-gray-300">You Receive</div>
                     <div className="text-green-400 font-medium">
-                      {calculateEmergencyWithdraw().refund} {saleData.networkSymbol}
+                      {calculateEmergencyWithdraw().refund} {saleData.paymentSymbol}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Puzzle, Percent, TrendingUp, Download, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { useSolanaWallet } from '../hooks/useSolanaWallet';
+import { solanaService } from '../services/solanaService';
+import { SolanaTokenInfo } from '../types/solana';
+
+interface SolanaExtensionsPanelProps {
+  tokenInfo: SolanaTokenInfo;
+  onUpdated: () => void;
+}
+
+const formatAmount = (amount: string, decimals: number) =>
+  (Number(amount) / Math.pow(10, decimals)).toLocaleString();
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const SolanaExtensionsPanel: React.FC<SolanaExtensionsPanelProps> = ({ tokenInfo, onUpdated }) => {
+  const { publicKey, signAndSendTransaction } = useSolanaWallet();
+  const extensions = tokenInfo.extensions;
+
+  const [newRate, setNewRate] = useState('');
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [isUpdatingRate, setIsUpdatingRate] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  if (tokenInfo.tokenProgram !== 'token-2022' || !extensions) {
+    return null;
+  }
+
+  const { transferFee, interestBearing } = extensions;
+  const canWithdraw = !!transferFee && transferFee.withdrawWithheldAuthority === publicKey;
+  const canUpdateRate = !!interestBearing && interestBearing.rateAuthority === publicKey;
+
+  const handleWithdraw = async () => {
+    if (!publicKey) return;
+
+    setIsWithdrawing(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const transactions = await solanaService.buildWithdrawWithheldFeesTransactions(
+        tokenInfo.mint.toString(),
+        new PublicKey(publicKey)
+      );
+
+      // Large holder sets are withdrawn in batches, one wallet approval each
+      for (const transaction of transactions) {
+        await signAndSendTransaction(transaction);
+      }
+
+      setSuccess('Withheld fees withdrawn to your token account');
+      onUpdated();
+    } catch (err) {
+      console.error('Error withdrawing withheld fees:', err);
+      setError((err as Error).message || 'Failed to withdraw withheld fees');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const handleUpdateRate = async () => {
+    if (!publicKey) return;
+
+    setIsUpdatingRate(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const transaction = await solanaService.buildUpdateInterestRateTransaction(
+        tokenInfo.mint.toString(),
+        new PublicKey(publicKey),
+        parseInt(newRate)
+      );
+      await signAndSendTransaction(transaction);
+
+      setSuccess(`Interest rate updated to ${(parseInt(newRate) / 100).toFixed(2)}%`);
+      setNewRate('');
+      onUpdated();
+    } catch (err) {
+      console.error('Error updating interest rate:', err);
+      setError((err as Error).message || 'Failed to update interest rate');
+    } finally {
+      setIsUpdatingRate(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-4">
+        <Puzzle className="w-5 h-5 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">Token-2022 Extensions</h2>
+      </div>
+
+      <div className="space-y-4">
+        {transferFee && (
+          <div className="p-4 bg-white/5 rounded-lg">
+            <div className="flex items-center space-x-2 mb-3">
+              <Percent className="w-4 h-4 text-gray-400" />
+              <h3 className="text-white font-medium">Transfer Fee</h3>
+            </div>
+            <div className="grid md:grid-cols-3 gap-4 text-sm mb-4">
+              <div>
+                <div className="text-gray-400">Fee</div>
+                <div className="text-white">{(transferFee.feeBasisPoints / 100).toFixed(2)}%</div>
+              </div>
+              <div>
+                <div className="text-gray-400">Maximum Fee</div>
+                <div className="text-white">{formatAmount(transferFee.maxFee, tokenInfo.decimals)} {tokenInfo.symbol}</div>
+              </div>
+              <div>
+                <div className="text-gray-400">Harvested to Mint</div>
+                <div className="text-white">{formatAmount(transferFee.withheldAmount, tokenInfo.decimals)} {tokenInfo.symbol}</div>
+              </div>
+            </div>
+            {canWithdraw && (
+              <button
+                onClick={handleWithdraw}
+                disabled={isWithdrawing}
+                className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-2 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                {isWithdrawing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                <span>{isWithdrawing ? 'Withdrawing...' : 'Withdraw Withheld Fees'}</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {interestBearing && (
+          <div className="p-4 bg-white/5 rounded-lg">
+            <div className="flex items-center space-x-2 mb-3">
+              <TrendingUp className="w-4 h-4 text-gray-400" />
+              <h3 className="text-white font-medium">Interest Bearing</h3>
+            </div>
+            <div className="text-sm mb-4">
+              <span className="text-gray-400">Current Rate: </span>
+              <span className="text-white">{(interestBearing.currentRate / 100).toFixed(2)}% APR</span>
+            </div>
+            {canUpdateRate && (
+              <div className="flex space-x-3">
+                <input
+                  type="number"
+                  value={newRate}
+                  onChange={(e) => setNewRate(e.target.value)}
+                  className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="New rate in basis points (e.g. 500)"
+                />
+                <button
+                  onClick={handleUpdateRate}
+                  disabled={isUpdatingRate || newRate === ''}
+                  className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  {isUpdatingRate && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>Update Rate</span>
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-4 text-sm">
+          <div className="p-4 bg-white/5 rounded-lg">
+            <div className="text-gray-400">Non-Transferable</div>
+            <div className="text-white">{extensions.nonTransferable ? 'Yes' : 'No'}</div>
+          </div>
+          <div className="p-4 bg-white/5 rounded-lg">
+            <div className="text-gray-400">Permanent Delegate</div>
+            <div className="text-white font-mono">
+              {extensions.permanentDelegate ? shortAddress(extensions.permanentDelegate) : 'None'}
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {success && (
+          <div className="p-3 bg-green-500/20 border border-green-500/50 rounded-lg flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <p className="text-green-400 text-sm">{success}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
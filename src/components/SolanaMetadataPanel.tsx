@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Lock, Save, Loader2, AlertTriangle, CheckCircle, ExternalLink } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { useSolanaWallet } from '../hooks/useSolanaWallet';
+import { solanaService } from '../services/solanaService';
+import { SolanaTokenInfo } from '../types/solana';
+
+interface SolanaMetadataPanelProps {
+  tokenInfo: SolanaTokenInfo;
+  onUpdated: () => void;
+}
+
+export const SolanaMetadataPanel: React.FC<SolanaMetadataPanelProps> = ({ tokenInfo, onUpdated }) => {
+  const { publicKey, network, signAndSendTransaction } = useSolanaWallet();
+  const onChain = tokenInfo.onChainMetadata;
+
+  const [form, setForm] = useState({
+    name: '',
+    symbol: '',
+    description: '',
+    image: '',
+    externalUrl: ''
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLocking, setIsLocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm({
+      name: onChain?.name || tokenInfo.name,
+      symbol: onChain?.symbol || tokenInfo.symbol,
+      description: tokenInfo.metadata?.description || '',
+      image: tokenInfo.metadata?.image || '',
+      externalUrl: tokenInfo.metadata?.externalUrl || ''
+    });
+  }, [tokenInfo, onChain]);
+
+  const isUpdateAuthority = !!onChain && onChain.updateAuthority === publicKey;
+  const canEdit = isUpdateAuthority && onChain.isMutable;
+
+  // Persist metadata fields so the off-chain JSON and token listings reflect the change
+  const recordMetadata = async (fields: Record<string, unknown>) => {
+    const response = await fetch(
+      `${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/solana/token/${tokenInfo.mint.toString()}/metadata`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        },
+        body: JSON.stringify(fields)
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save metadata');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!onChain || !publicKey) return;
+
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      // Name and symbol live on-chain; description, image and links only in the JSON behind the URI
+      const onChainChanged = form.name !== onChain.name || form.symbol !== onChain.symbol;
+
+      if (onChainChanged) {
+        const transaction = await solanaService.buildUpdateMetadataTransaction(
+          tokenInfo.mint.toString(),
+          new PublicKey(publicKey),
+          { name: form.name, symbol: form.symbol }
+        );
+        await signAndSendTransaction(transaction);
+      }
+
+      await recordMetadata({
+        ...form,
+        metadataAddress: onChain.address,
+        uri: onChain.uri,
+        updateAuthority: onChain.updateAuthority
+      });
+
+      setSuccess('Metadata updated successfully');
+      onUpdated();
+    } catch (err) {
+      console.error('Error updating metadata:', err);
+      setError((err as Error).message || 'Failed to update metadata');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLock = async () => {
+    if (!onChain || !publicKey) return;
+
+    if (!confirm('Locking metadata is permanent. The name, symbol and URI can never be changed again. Continue?')) {
+      return;
+    }
+
+    setIsLocking(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const transaction = await solanaService.buildLockMetadataTransaction(
+        tokenInfo.mint.toString(),
+        new PublicKey(publicKey)
+      );
+      await signAndSendTransaction(transaction);
+      await recordMetadata({ metadataAddress: onChain.address, isMutable: false });
+
+      setSuccess('Metadata locked');
+      onUpdated();
+    } catch (err) {
+      console.error('Error locking metadata:', err);
+      setError((err as Error).message || 'Failed to lock metadata');
+    } finally {
+      setIsLocking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <FileText className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-semibold text-white">Token Metadata</h2>
+        </div>
+        {onChain && (
+          <span className={`px-2 py-1 rounded text-xs font-medium ${
+            onChain.isMutable ? 'bg-blue-500/20 text-blue-400' : 'bg-gray-500/20 text-gray-300'
+          }`}>
+            {onChain.isMutable ? 'Mutable' : 'Locked'}
+          </span>
+        )}
+      </div>
+
+      {!onChain ? (
+        <p className="text-gray-300 text-sm">This token has no Metaplex metadata account.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <label className="block text-gray-400 mb-1">Metadata Account</label>
+              <a
+                href={`${network?.explorerUrl}/address/${onChain.address}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-400 hover:text-blue-300 font-mono flex items-center space-x-1"
+              >
+                <span>{onChain.address.slice(0, 6)}...{onChain.address.slice(-4)}</span>
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">Update Authority</label>
+              <span className="text-white font-mono">
+                {onChain.updateAuthority
+                  ? `${onChain.updateAuthority.slice(0, 6)}...${onChain.updateAuthority.slice(-4)}`
+                  : 'None'}
+              </span>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-gray-400 mb-1">URI</label>
+              <span className="text-white break-all">{onChain.uri || 'None'}</span>
+            </div>
+          </div>
+
+          {canEdit ? (
+            <>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    maxLength={32}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Symbol</label>
+                  <input
+                    type="text"
+                    value={form.symbol}
+                    maxLength={10}
+                    onChange={(e) => setForm({ ...form, symbol: e.target.value.toUpperCase() })}
+                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+                <textarea
+                  value={form.description}
+                  maxLength={300}
+                  rows={3}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Image URL</label>
+                  <input
+                    type="url"
+                    value={form.image}
+                    onChange={(e) => setForm({ ...form, image: e.target.value })}
+                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="https://..."
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Website</label>
+                  <input
+                    type="url"
+                    value={form.externalUrl}
+                    onChange={(e) => setForm({ ...form, externalUrl: e.target.value })}
+                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="https://..."
+                  />
+                </div>
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || isLocking || !form.name || !form.symbol}
+                  className="flex-1 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  <span>{isSaving ? 'Saving...' : 'Save Metadata'}</span>
+                </button>
+                <button
+                  onClick={handleLock}
+                  disabled={isSaving || isLocking}
+                  className="bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  {isLocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+                  <span>Lock</span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-400 text-sm">
+              {onChain.isMutable
+                ? 'Connect the update authority wallet to edit this metadata.'
+                : 'This metadata has been locked and can no longer be changed.'}
+            </p>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {success && (
+            <div className="p-3 bg-green-500/20 border border-green-500/50 rounded-lg flex items-start space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+              <p className="text-green-400 text-sm">{success}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,12 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Info, AlertCircle } from 'lucide-react';
-import { SolanaTokenConfig } from '../types/solana';
+import { SolanaTokenConfig, SolanaToken2022Extensions } from '../types/solana';
 import { solanaNetworks, getDefaultSolanaNetwork } from '../config/solanaNetworks';
+import {
+  DEFAULT_TOKEN_2022_EXTENSIONS,
+  MAX_TRANSFER_FEE_BASIS_POINTS,
+  validateToken2022Extensions
+} from '../services/solanaToken2022';
 import { SolanaNetworkSelector } from './SolanaNetworkSelector';
 import { useSolanaWallet } from '../hooks/useSolanaWallet';
 
@@ -30,6 +35,8 @@ export const SolanaTokenBuilder: React.FC<SolanaTokenBuilderProps> = ({
       image: '',
       externalUrl: ''
     },
+    tokenProgram: 'spl-token',
+    extensions: DEFAULT_TOKEN_2022_EXTENSIONS,
     network: connectedNetwork || getDefaultSolanaNetwork(),
     ...initialConfig
   });
@@ -47,6 +54,15 @@ export const SolanaTokenBuilder: React.FC<SolanaTokenBuilderProps> = ({
     }));
   };
 
+  const updateExtensions = (updates: Partial<SolanaToken2022Extensions>) => {
+    setConfig(prev => ({
+      ...prev,
+      extensions: { ...(prev.extensions || DEFAULT_TOKEN_2022_EXTENSIONS), ...updates }
+    }));
+  };
+
+  const extensions = config.extensions || DEFAULT_TOKEN_2022_EXTENSIONS;
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -70,6 +86,14 @@ export const SolanaTokenBuilder: React.FC<SolanaTokenBuilderProps> = ({
       }
     }
 
+    if (config.tokenProgram === 'token-2022') {
+      try {
+        validateToken2022Extensions(extensions);
+      } catch (error) {
+        newErrors.extensions = (error as Error).message;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -215,6 +239,174 @@ export const SolanaTokenBuilder: React.FC<SolanaTokenBuilderProps> = ({
             )}
           </div>
 
+          {/* Token Program */}
+          <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10">
+            <h2 className="text-xl font-semibold text-white mb-6">Token Program</h2>
+
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              {([
+                { id: 'spl-token', name: 'SPL Token', description: 'Classic token program, supported everywhere' },
+                { id: 'token-2022', name: 'Token-2022', description: 'Extensions: fees, interest, soulbound and more' }
+              ] as const).map((program) => (
+                <div
+                  key={program.id}
+                  className={`p-4 rounded-lg border cursor-pointer transition-all ${
+                    config.tokenProgram === program.id
+                      ? 'border-blue-500 bg-blue-500/20 text-blue-400'
+                      : 'border-white/20 bg-white/5 text-gray-300 hover:border-white/40'
+                  }`}
+                  onClick={() => updateConfig({ tokenProgram: program.id })}
+                >
+                  <div className="font-medium">{program.name}</div>
+                  <div className="text-xs opacity-75 mt-1">{program.description}</div>
+                </div>
+              ))}
+            </div>
+
+            {config.tokenProgram === 'token-2022' && (
+              <div className="space-y-4">
+                {/* Transfer Fee */}
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="transferFee"
+                        checked={extensions.transferFee.enabled}
+                        onChange={(e) => updateExtensions({ transferFee: { ...extensions.transferFee, enabled: e.target.checked } })}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="transferFee" className="text-white font-medium">Transfer Fee</label>
+                    </div>
+                    <span className="text-sm text-gray-400">Withhold a fee on every transfer</span>
+                  </div>
+
+                  {extensions.transferFee.enabled && (
+                    <div className="grid md:grid-cols-2 gap-4 mt-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Fee ({(extensions.transferFee.feeBasisPoints / 100).toFixed(2)}%)
+                        </label>
+                        <input
+                          type="range"
+                          min={0}
+                          max={MAX_TRANSFER_FEE_BASIS_POINTS}
+                          step={10}
+                          value={extensions.transferFee.feeBasisPoints}
+                          onChange={(e) => updateExtensions({ transferFee: { ...extensions.transferFee, feeBasisPoints: parseInt(e.target.value) } })}
+                          className="w-full"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">Maximum Fee (tokens)</label>
+                        <input
+                          type="number"
+                          value={extensions.transferFee.maxFee}
+                          onChange={(e) => updateExtensions({ transferFee: { ...extensions.transferFee, maxFee: e.target.value } })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="e.g., 1000"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Interest Bearing */}
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="interestBearing"
+                        checked={extensions.interestBearing.enabled}
+                        onChange={(e) => updateExtensions({ interestBearing: { ...extensions.interestBearing, enabled: e.target.checked } })}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="interestBearing" className="text-white font-medium">Interest Bearing</label>
+                    </div>
+                    <span className="text-sm text-gray-400">Displayed balances accrue interest</span>
+                  </div>
+
+                  {extensions.interestBearing.enabled && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Annual Rate (basis points, {(extensions.interestBearing.rate / 100).toFixed(2)}%)
+                      </label>
+                      <input
+                        type="number"
+                        value={extensions.interestBearing.rate}
+                        onChange={(e) => updateExtensions({ interestBearing: { ...extensions.interestBearing, rate: parseInt(e.target.value) || 0 } })}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Non-Transferable */}
+                <div className="flex items-center justify-between p-4 bg-white/5 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="nonTransferable"
+                      checked={extensions.nonTransferable}
+                      onChange={(e) => updateExtensions({ nonTransferable: e.target.checked })}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="nonTransferable" className="text-white font-medium">Non-Transferable</label>
+                  </div>
+                  <span className="text-sm text-gray-400">Soulbound: holders cannot transfer tokens</span>
+                </div>
+
+                {/* Permanent Delegate */}
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="permanentDelegate"
+                        checked={extensions.permanentDelegate.enabled}
+                        onChange={(e) => updateExtensions({ permanentDelegate: { ...extensions.permanentDelegate, enabled: e.target.checked } })}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="permanentDelegate" className="text-white font-medium">Permanent Delegate</label>
+                    </div>
+                    <span className="text-sm text-gray-400">Can transfer or burn from any account</span>
+                  </div>
+
+                  {extensions.permanentDelegate.enabled && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Delegate Address</label>
+                      <input
+                        type="text"
+                        value={extensions.permanentDelegate.delegate}
+                        onChange={(e) => updateExtensions({ permanentDelegate: { ...extensions.permanentDelegate, delegate: e.target.value } })}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="Leave empty to use your wallet"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Metadata on Mint */}
+                <div className="flex items-center justify-between p-4 bg-white/5 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="metadataOnMint"
+                      checked={extensions.metadataOnMint}
+                      onChange={(e) => updateExtensions({ metadataOnMint: e.target.checked })}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="metadataOnMint" className="text-white font-medium">Metadata on Mint</label>
+                  </div>
+                  <span className="text-sm text-gray-400">Store metadata in the mint instead of Metaplex</span>
+                </div>
+
+                {errors.extensions && <p className="text-red-400 text-sm">{errors.extensions}</p>}
+              </div>
+            )}
+          </div>
+
           {/* Token Features */}
           <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10">
             <h2 className="text-xl font-semibold text-white mb-6">Token Features</h2>
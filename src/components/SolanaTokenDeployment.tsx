@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, ArrowRight, CheckCircle, AlertTriangle, Shield, Zap } from 'lucide-react';
+import { ArrowLeft, ArrowRight, CheckCircle, AlertTriangle, Shield, Zap, RefreshCw } from 'lucide-react';
 import { SolanaTokenConfig, SolanaTokenDeploymentResult } from '../types/solana';
 import { useSolanaWallet } from '../hooks/useSolanaWallet';
 import { solanaService } from '../services/solanaService';
+import { PublicKey } from '@solana/web3.js';
 
 interface SolanaTokenDeploymentProps {
   config: SolanaTokenConfig;
@@ -15,11 +16,15 @@ export const SolanaTokenDeployment: React.FC<SolanaTokenDeploymentProps> = ({
   onBack, 
   onDeploy 
 }) => {
-  const { publicKey, balance, network } = useSolanaWallet();
+  const { publicKey, balance, network, signAndSendTransaction } = useSolanaWallet();
   const [isDeploying, setIsDeploying] = useState(false);
   const [agreed, setAgreed] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [estimatedFee, setEstimatedFee] = useState('0.00001');
+  // A created mint the server has not stored yet; deploying again would create a second one
+  const [unregistered, setUnregistered] = useState<SolanaTokenDeploymentResult | null>(null);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [registrationError, setRegistrationError] = useState<string | null>(null);
 
   // Check if user has enough SOL for deployment
   const hasEnoughBalance = () => {
@@ -39,41 +44,59 @@ export const SolanaTokenDeployment: React.FC<SolanaTokenDeploymentProps> = ({
     setEstimatedFee(baseFee.toFixed(5));
   }, [config]);
 
-  const handleDeploy = async () => {
-    if (!agreed || !publicKey || !hasEnoughBalance()) return;
-    
-    setIsDeploying(true); 
-    setError(null);
+  // Registers the new token so it shows up in the dashboard and serves its metadata JSON. The deployment
+  // only completes once it is registered; until then the error is shown with a retry
+  const registerToken = async (deploymentResult: SolanaTokenDeploymentResult) => {
+    setIsRegistering(true);
+    setRegistrationError(null);
     
     try {
-      // Call API to create token
       const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/solana/token`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${localStorage.getItem('authToken')}`
         },
-        body: JSON.stringify(config)
+        body: JSON.stringify({
+          ...config,
+          mint: deploymentResult.mint,
+          tokenAccount: deploymentResult.tokenAccount,
+          transactionSignature: deploymentResult.transactionSignature,
+          metadataAddress: deploymentResult.metadataAddress
+        })
       });
       
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to deploy token');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Server responded with status ${response.status}`);
       }
       
-      const result = await response.json();
-      
-      // Convert API response to SolanaTokenDeploymentResult
-      const deploymentResult: SolanaTokenDeploymentResult = {
-        mint: result.mint,
-        tokenAccount: result.tokenAccount,
-        transactionSignature: result.transactionSignature,
-        network: config.network,
-        explorerUrl: result.explorerUrl,
-        metadataAddress: result.metadataAddress
-      };
-      
+      setUnregistered(null);
       onDeploy(deploymentResult);
+    } catch (registerError) {
+      console.error('Failed to register token:', registerError);
+      setUnregistered(deploymentResult);
+      setRegistrationError((registerError as Error).message || 'Failed to register token');
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleDeploy = async () => {
+    if (!agreed || !publicKey || !hasEnoughBalance() || unregistered) return;
+    
+    setIsDeploying(true); 
+    setError(null);
+    
+    try {
+      // The connected wallet pays for and signs the mint creation; no secret key leaves the wallet
+      const deploymentResult = await solanaService.createTokenWithWallet(
+        config,
+        new PublicKey(publicKey),
+        signAndSendTransaction
+      );
+      
+      await registerToken(deploymentResult);
     } catch (error) {
       console.error('Deployment failed:', error);
       setError((error as Error).message || 'Failed to deploy token');
@@ -131,9 +154,51 @@ export const SolanaTokenDeployment: React.FC<SolanaTokenDeploymentProps> = ({
                   <label className="block text-sm font-medium text-gray-300 mb-1">Freeze Authority</label>
                   <div className="text-white font-medium">{config.freezeAuthority ? 'Enabled' : 'Disabled'}</div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Token Program</label>
+                  <div className="text-white font-medium">{config.tokenProgram === 'token-2022' ? 'Token-2022' : 'SPL Token'}</div>
+                </div>
               </div>
             </div>
 
+            {/* Token-2022 Extensions */}
+            {config.tokenProgram === 'token-2022' && config.extensions && (
+              <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                <h2 className="text-xl font-semibold text-white mb-4">Token-2022 Extensions</h2>
+                
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Transfer Fee</label>
+                    <div className="text-white font-medium">
+                      {config.extensions.transferFee.enabled
+                        ? `${(config.extensions.transferFee.feeBasisPoints / 100).toFixed(2)}% (max ${config.extensions.transferFee.maxFee} ${config.symbol})`
+                        : 'Disabled'}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Interest Rate</label>
+                    <div className="text-white font-medium">
+                      {config.extensions.interestBearing.enabled
+                        ? `${(config.extensions.interestBearing.rate / 100).toFixed(2)}% APR`
+                        : 'Disabled'}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Non-Transferable</label>
+                    <div className="text-white font-medium">{config.extensions.nonTransferable ? 'Yes' : 'No'}</div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Permanent Delegate</label>
+                    <div className="text-white font-medium">
+                      {config.extensions.permanentDelegate.enabled
+                        ? config.extensions.permanentDelegate.delegate || 'Your wallet'
+                        : 'None'}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Metadata */}
             {config.metadata.enabled && (
               <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
@@ -277,7 +342,7 @@ export const SolanaTokenDeployment: React.FC<SolanaTokenDeploymentProps> = ({
           
           <button
             onClick={handleDeploy}
-            disabled={!agreed || !hasEnoughBalance() || isDeploying}
+            disabled={!agreed || !hasEnoughBalance() || isDeploying || !!unregistered}
             className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white px-8 py-3 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isDeploying ? (
@@ -294,6 +359,31 @@ export const SolanaTokenDeployment: React.FC<SolanaTokenDeploymentProps> = ({
           </button>
         </div>
         
+        {/* Registration Error */}
+        {unregistered && registrationError && (
+          <div className="mt-6 p-4 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+              <div className="flex-1">
+                <h4 className="font-medium text-amber-400 mb-1">Token Created, Registration Failed</h4>
+                <p className="text-amber-300 text-sm mb-1">
+                  Your token was created at <span className="font-mono break-all">{unregistered.mint}</span> but could
+                  not be registered, so it does not appear in your dashboard and its metadata is not served yet.
+                </p>
+                <p className="text-amber-300 text-sm mb-3">{registrationError}</p>
+                <button
+                  onClick={() => registerToken(unregistered)}
+                  disabled={isRegistering}
+                  className="flex items-center space-x-2 px-4 py-2 bg-amber-500/30 hover:bg-amber-500/40 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isRegistering ? 'animate-spin' : ''}`} />
+                  <span>{isRegistering ? 'Registering...' : 'Retry Registration'}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="mt-6 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
@@ -14,7 +14,10 @@ import {
 import { useSolanaWallet } from '../hooks/useSolanaWallet';
 import { solanaService } from '../services/solanaService';
 import { SolanaWalletConnection } from './SolanaWalletConnection';
+import { SolanaMetadataPanel } from './SolanaMetadataPanel';
+import { SolanaExtensionsPanel } from './SolanaExtensionsPanel';
 import { SolanaTokenInfo } from '../types/solana';
+import { PublicKey } from '@solana/web3.js';
 
 export const SolanaTokenManagement: React.FC = () => {
   // Get token address from URL
@@ -59,6 +62,14 @@ export const SolanaTokenManagement: React.FC = () => {
       
       const tokenData = await response.json();
       
+      // On-chain state is authoritative for metadata, mutability and Token-2022 extensions
+      let onChainInfo: SolanaTokenInfo | null = null;
+      try {
+        onChainInfo = await solanaService.getTokenInfo(tokenAddress);
+      } catch (error) {
+        console.warn('Could not load on-chain token info:', error);
+      }
+      
       // Convert to SolanaTokenInfo format
       const tokenInfo: SolanaTokenInfo = {
         mint: new PublicKey(tokenData.mint),
@@ -68,7 +79,10 @@ export const SolanaTokenManagement: React.FC = () => {
         supply: tokenData.supply,
         owner: new PublicKey(tokenData.owner),
         frozenState: tokenData.freezeAuthority,
-        metadata: tokenData.metadata
+        metadata: tokenData.metadata,
+        onChainMetadata: onChainInfo?.onChainMetadata,
+        tokenProgram: onChainInfo?.tokenProgram || tokenData.tokenProgram,
+        extensions: onChainInfo?.extensions
       };
       
       setTokenInfo(tokenInfo);
@@ -315,6 +329,10 @@ export const SolanaTokenManagement: React.FC = () => {
               )}
             </div>
 
+            <SolanaMetadataPanel tokenInfo={tokenInfo} onUpdated={loadTokenInfo} />
+
+            <SolanaExtensionsPanel tokenInfo={tokenInfo} onUpdated={loadTokenInfo} />
+
             {/* Send Tokens */}
             <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
               <h2 className="text-xl font-semibold text-white mb-4">Send Tokens</h2>
@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, ArrowRight, Info, AlertCircle } from 'lucide-react';
-import { TokenConfig, Network } from '../types';
+import { ArrowLeft, ArrowRight, Info, AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { TokenConfig, Network, AntiWhaleConfig, TaxConfig, TaxRecipient, DividendConfig } from '../types';
 import { networks, mainnets, testnets } from '../data/networks';
 import { NetworkMismatchModal } from './NetworkMismatchModal';
 import { NetworkSelector } from './NetworkSelector';
 import { contractService } from '../services/contractService';
 import { useNetworkMode } from '../hooks/useNetworkMode';
 import { useWallet } from '../hooks/useWallet';
+import { DEX_ROUTERS } from '../config/constants';
 
 interface TokenBuilderProps {
   onBack: () => void;
@@ -37,8 +38,39 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
       },
       holderRedistribution: {
         enabled: false,
-        percentage: 0
-      }
+        percentage: 0,
+        mode: 'claim'
+      },
+      taxes: {
+        enabled: false,
+        buyPercentage: 3,
+        sellPercentage: 3,
+        transferPercentage: 0,
+        recipients: [{ label: 'Marketing', address: '', share: 100 }],
+        liquidityShare: 0,
+        router: '',
+        swapThresholdPercentage: 0.05,
+        dividends: {
+          enabled: false,
+          rewardToken: '',
+          minimumBalance: '0',
+          gasForProcessing: 300000
+        }
+      },
+      antiWhale: {
+        enabled: false,
+        maxTransactionPercentage: 1,
+        maxWalletPercentage: 2,
+        launchProtectionBlocks: 2,
+        exemptAddresses: []
+      },
+      permit: false,
+      votes: false,
+      snapshot: false,
+      pausable: false,
+      blacklist: false,
+      roles: false,
+      bridgeable: false
     },
     vesting: [],
     ...initialConfig
@@ -46,7 +78,11 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
   const [gasEstimate, setGasEstimate] = useState<string | null>(null);
 
   const [showNetworkModal, setShowNetworkModal] = useState(false);
+  const [isMultiNetwork, setIsMultiNetwork] = useState(!!config.additionalNetworks?.length);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [exemptAddressesText, setExemptAddressesText] = useState(
+    (config.features.antiWhale?.exemptAddresses || []).join('\n')
+  );
   
   // Helper functions for network display
   const getNetworkIcon = (networkId: string) => {
@@ -91,19 +127,30 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
       // Switch to a testnet network
       const testnet = networks.find(n => n.id.includes('testnet'));
       if (testnet) {
-        updateConfig({ network: testnet });
+        updateConfig({ network: testnet, additionalNetworks: [] });
       }
     } else if (!isTestnetMode && config.network.id.includes('testnet')) {
       // Switch to a mainnet network
       const mainnet = networks.find(n => !n.id.includes('testnet'));
       if (mainnet) {
-        updateConfig({ network: mainnet });
+        updateConfig({ network: mainnet, additionalNetworks: [] });
       }
     }
   }, [isTestnetMode, config.network.id]);
 
   // Show network mismatch modal when network is selected
   const handleNetworkSelect = (network: Network) => {
+    // With multiple networks the first selection stays the primary and other tiles toggle
+    if (isMultiNetwork && network.id !== config.network.id) {
+      const additionalNetworks = config.additionalNetworks || [];
+      updateConfig({
+        additionalNetworks: additionalNetworks.some(n => n.id === network.id)
+          ? additionalNetworks.filter(n => n.id !== network.id)
+          : [...additionalNetworks, network]
+      });
+      return;
+    }
+
     updateConfig({ network });
     
     // Check if we need to switch networks in the wallet
@@ -144,6 +191,10 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
       newErrors.maxSupply = 'Max supply cannot be less than initial supply';
     }
 
+    if (config.initialOwner && !/^0x[a-fA-F0-9]{40}$/.test(config.initialOwner)) {
+      newErrors.initialOwner = 'Invalid owner address format';
+    }
+
     if (config.features.transferFees.enabled && !config.features.transferFees.recipient.trim()) {
       newErrors.feeRecipient = 'Please enter a fee recipient address';
     }
@@ -163,6 +214,88 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
       }
     }
 
+    const taxes = config.features.taxes;
+    if (taxes?.enabled) {
+      const isValidTax = (percentage: number) => percentage >= 0 && percentage <= 25;
+      
+      if (!isValidTax(taxes.buyPercentage) || !isValidTax(taxes.sellPercentage) || !isValidTax(taxes.transferPercentage)) {
+        newErrors.taxPercentage = 'Tax percentages must be between 0 and 25%';
+      }
+      if (taxes.recipients.length > 5) {
+        newErrors.taxRecipients = 'At most 5 tax recipients are supported';
+      } else if (taxes.recipients.some(recipient => !/^0x[a-fA-F0-9]{40}$/.test(recipient.address))) {
+        newErrors.taxRecipients = 'Invalid wallet address format';
+      } else if (taxes.recipients.some(recipient => !(recipient.share > 0))) {
+        newErrors.taxRecipients = 'Every recipient needs a share above 0%';
+      }
+      
+      // Shares are stored in basis points on-chain and must add up exactly; dividends take the remainder
+      const totalShare = taxes.recipients.reduce((sum, recipient) => sum + Math.round(recipient.share * 100), Math.round(taxes.liquidityShare * 100));
+      if (taxes.dividends?.enabled) {
+        if (totalShare >= 10000) {
+          newErrors.taxShares = 'Recipient and liquidity shares must leave a share for holder dividends';
+        }
+      } else if (totalShare !== 10000) {
+        newErrors.taxShares = 'Recipient and liquidity shares must total 100%';
+      }
+      if (taxes.router && !/^0x[a-fA-F0-9]{40}$/.test(taxes.router)) {
+        newErrors.taxRouter = 'Invalid router address format';
+      }
+      if (!taxes.router && taxes.liquidityShare > 0) {
+        newErrors.taxRouter = 'A DEX router is required to add taxes to liquidity';
+      }
+      if (taxes.swapThresholdPercentage < 0 || taxes.swapThresholdPercentage > 1) {
+        newErrors.swapThreshold = 'Swap threshold must be between 0 and 1% of supply';
+      }
+
+      const dividends = taxes.dividends;
+      if (dividends?.enabled) {
+        if (!taxes.router) {
+          newErrors.taxRouter = 'A DEX router is required to pay holder dividends';
+        }
+        if (config.features.holderRedistribution.enabled && config.features.holderRedistribution.mode === 'reflection') {
+          newErrors.dividends = 'Holder dividends cannot be combined with reflection';
+        }
+        if (dividends.rewardToken && !/^0x[a-fA-F0-9]{40}$/.test(dividends.rewardToken)) {
+          newErrors.rewardToken = 'Invalid token address format';
+        }
+        if (!/^\d+$/.test(dividends.minimumBalance)) {
+          newErrors.minimumBalance = 'Minimum balance must be a whole number of tokens';
+        }
+        if (!Number.isInteger(dividends.gasForProcessing) || dividends.gasForProcessing < 0 || dividends.gasForProcessing > 1000000) {
+          newErrors.gasForProcessing = 'Processing gas must be between 0 and 1,000,000';
+        }
+      }
+    }
+
+    // Vote checkpoints and snapshots read ERC20 balances, which reflection keeps in its own ledger
+    const isReflection = config.features.holderRedistribution.enabled && config.features.holderRedistribution.mode === 'reflection';
+    if (isReflection && (config.features.votes || config.features.snapshot)) {
+      newErrors.governance = 'Votes and snapshots cannot be combined with reflection';
+    }
+    if (isReflection && (config.features.pausable || config.features.blacklist)) {
+      newErrors.compliance = 'Pause and blacklist controls cannot be combined with reflection';
+    }
+
+    const antiWhale = config.features.antiWhale;
+    if (antiWhale?.enabled) {
+      // 0 disables a limit; the contract rejects later updates below 0.1% of supply
+      const isValidLimit = (percentage: number) => percentage === 0 || (percentage >= 0.1 && percentage <= 100);
+      
+      if (!isValidLimit(antiWhale.maxTransactionPercentage)) {
+        newErrors.maxTransactionPercentage = 'Max transaction must be 0 (no limit) or between 0.1 and 100%';
+      }
+      if (!isValidLimit(antiWhale.maxWalletPercentage)) {
+        newErrors.maxWalletPercentage = 'Max wallet must be 0 (no limit) or between 0.1 and 100%';
+      }
+      if (!Number.isInteger(antiWhale.launchProtectionBlocks) || antiWhale.launchProtectionBlocks < 0 || antiWhale.launchProtectionBlocks > 20) {
+        newErrors.launchProtectionBlocks = 'Launch protection must be between 0 and 20 blocks';
+      }
+      if (antiWhale.exemptAddresses.some(exempt => !/^0x[a-fA-F0-9]{40}$/.test(exempt))) {
+        newErrors.exemptAddresses = 'Invalid wallet address format';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -204,6 +337,59 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
     }));
   };
 
+  const updateAntiWhale = (updates: Partial<AntiWhaleConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      features: {
+        ...prev.features,
+        antiWhale: { ...prev.features.antiWhale!, ...updates }
+      }
+    }));
+  };
+
+  const updateTaxes = (updates: Partial<TaxConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      features: {
+        ...prev.features,
+        taxes: { ...prev.features.taxes!, ...updates }
+      }
+    }));
+  };
+
+  // Taxes replace the flat transfer fee, so only one of the two can be enabled
+  const toggleTaxes = (enabled: boolean) => {
+    setConfig(prev => ({
+      ...prev,
+      features: {
+        ...prev.features,
+        transferFees: { ...prev.features.transferFees, enabled: enabled ? false : prev.features.transferFees.enabled },
+        taxes: {
+          ...prev.features.taxes!,
+          enabled,
+          router: prev.features.taxes!.router || DEX_ROUTERS[prev.network.chainId] || ''
+        }
+      }
+    }));
+  };
+
+  const updateDividends = (updates: Partial<DividendConfig>) => {
+    updateTaxes({ dividends: { ...config.features.taxes!.dividends!, ...updates } });
+  };
+
+  const updateTaxRecipient = (index: number, updates: Partial<TaxRecipient>) => {
+    updateTaxes({
+      recipients: config.features.taxes!.recipients.map((recipient, i) => i === index ? { ...recipient, ...updates } : recipient)
+    });
+  };
+
+  const handleExemptAddressesChange = (text: string) => {
+    setExemptAddressesText(text);
+    updateAntiWhale({
+      exemptAddresses: text.split(/[\s,]+/).map(exempt => exempt.trim()).filter(Boolean)
+    });
+  };
+
   // Filter networks based on current mode
   const filteredNetworks = isTestnetMode ? testnets : mainnets;
 
@@ -307,6 +493,28 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
           <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10">
             <h2 className="text-xl font-semibold text-white mb-6">Network Selection</h2>
 
+            <label
+              htmlFor="multiNetwork"
+              className="flex items-start space-x-2 p-3 mb-4 rounded-lg border border-white/20 bg-white/5 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                id="multiNetwork"
+                checked={isMultiNetwork}
+                onChange={(e) => {
+                  setIsMultiNetwork(e.target.checked);
+                  if (!e.target.checked) updateConfig({ additionalNetworks: [] });
+                }}
+                className="w-4 h-4 mt-1 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <div>
+                <div className="text-white font-medium">Deploy to multiple networks</div>
+                <div className="text-sm text-gray-400">
+                  The selected network is deployed first; click other networks to launch the same token on them too
+                </div>
+              </div>
+            </label>
+
             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 mb-6">
               {filteredNetworks.map((network) => (
                 <div
@@ -314,6 +522,8 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
                   className={`p-3 rounded-lg border cursor-pointer transition-all ${
                     config.network.id === network.id
                       ? 'border-blue-500 bg-blue-500/20 text-blue-400'
+                      : config.additionalNetworks?.some(n => n.id === network.id)
+                      ? 'border-purple-500 bg-purple-500/20 text-purple-400'
                       : 'border-white/20 bg-white/5 text-gray-300 hover:border-white/40'
                   }`}
                   onClick={() => handleNetworkSelect(network)}
@@ -401,6 +611,166 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
                 </span>
               </div>
 
+              {/* Governance */}
+              <div className="p-4 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-white font-medium">Governance &amp; Approvals</span>
+                    <Info className="w-4 h-4 text-gray-400" />
+                  </div>
+                  <span className="text-sm text-gray-400">
+                    Standard extensions used by DAO and wallet tooling
+                  </span>
+                </div>
+                <div className="grid md:grid-cols-3 gap-3">
+                  {([
+                    ['permit', 'Permit (EIP-2612)', 'Gasless approvals signed off-chain'],
+                    ['votes', 'Votes', 'Delegation and vote checkpoints for Governor contracts'],
+                    ['snapshot', 'Snapshot', 'Owner-triggered balance snapshots']
+                  ] as const).map(([feature, label, description]) => (
+                    <label
+                      key={feature}
+                      htmlFor={feature}
+                      className="flex items-start space-x-2 p-3 rounded-lg border border-white/20 bg-white/5 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        id={feature}
+                        // Votes are built on permit, so permit stays on while votes are enabled
+                        checked={!!config.features[feature] || (feature === 'permit' && !!config.features.votes)}
+                        disabled={feature === 'permit' && !!config.features.votes}
+                        onChange={(e) => updateFeatures({ [feature]: e.target.checked })}
+                        className="w-4 h-4 mt-1 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <div>
+                        <div className="text-white font-medium">{label}</div>
+                        <div className="text-sm text-gray-400">{description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+                {errors.governance && <p className="text-red-400 text-sm mt-2">{errors.governance}</p>}
+              </div>
+
+              {/* Compliance */}
+              <div className="p-4 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-white font-medium">Compliance Controls</span>
+                    <Info className="w-4 h-4 text-gray-400" />
+                  </div>
+                  <span className="text-sm text-gray-400">
+                    Owner controls for regulated or security-sensitive tokens
+                  </span>
+                </div>
+                <div className="grid md:grid-cols-2 gap-3">
+                  {([
+                    ['pausable', 'Pausable', 'Owner can halt all transfers, mints and burns'],
+                    ['blacklist', 'Address Blacklist', 'Owner can freeze individual addresses']
+                  ] as const).map(([feature, label, description]) => (
+                    <label
+                      key={feature}
+                      htmlFor={feature}
+                      className="flex items-start space-x-2 p-3 rounded-lg border border-white/20 bg-white/5 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        id={feature}
+                        checked={!!config.features[feature]}
+                        onChange={(e) => updateFeatures({ [feature]: e.target.checked })}
+                        className="w-4 h-4 mt-1 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <div>
+                        <div className="text-white font-medium">{label}</div>
+                        <div className="text-sm text-gray-400">{description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+                {errors.compliance && <p className="text-red-400 text-sm mt-2">{errors.compliance}</p>}
+              </div>
+
+              {/* Access & Ownership */}
+              <div className="p-4 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-white font-medium">Access &amp; Ownership</span>
+                    <Info className="w-4 h-4 text-gray-400" />
+                  </div>
+                  <span className="text-sm text-gray-400">
+                    Share admin duties or hand ownership to a multisig
+                  </span>
+                </div>
+                <label
+                  htmlFor="roles"
+                  className="flex items-start space-x-2 p-3 mb-4 rounded-lg border border-white/20 bg-white/5 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    id="roles"
+                    checked={!!config.features.roles}
+                    onChange={(e) => updateFeatures({ roles: e.target.checked })}
+                    className="w-4 h-4 mt-1 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="text-white font-medium">Role-Based Access</div>
+                    <div className="text-sm text-gray-400">
+                      Minting, pausing and fee changes are granted to minter, pauser and fee manager roles
+                    </div>
+                  </div>
+                </label>
+                <label
+                  htmlFor="bridgeable"
+                  className="flex items-start space-x-2 p-3 mb-4 rounded-lg border border-white/20 bg-white/5 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    id="bridgeable"
+                    checked={!!config.features.bridgeable}
+                    onChange={(e) => updateFeatures({ bridgeable: e.target.checked })}
+                    className="w-4 h-4 mt-1 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="text-white font-medium">Bridgeable</div>
+                    <div className="text-sm text-gray-400">
+                      A bridge adapter set by the owner can burn approved tokens and mint up to the max supply to move supply between the networks the token is deployed on; replacing it takes two days
+                    </div>
+                  </div>
+                </label>
+                <label
+                  htmlFor="upgradeable"
+                  className="flex items-start space-x-2 p-3 mb-4 rounded-lg border border-white/20 bg-white/5 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    id="upgradeable"
+                    checked={!!config.features.upgradeable}
+                    onChange={(e) => updateFeatures({ upgradeable: e.target.checked })}
+                    className="w-4 h-4 mt-1 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="text-white font-medium">Upgradeable (UUPS proxy)</div>
+                    <div className="text-sm text-gray-400">
+                      Deploys an implementation behind a proxy so the owner can add features later without migrating holders
+                    </div>
+                  </div>
+                </label>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Initial Owner (optional)
+                </label>
+                <input
+                  type="text"
+                  value={config.initialOwner || ''}
+                  onChange={(e) => updateConfig({ initialOwner: e.target.value.trim() || undefined })}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="0x... Safe multisig address (defaults to your wallet)"
+                />
+                <p className="text-sm text-gray-400 mt-1">
+                  The owner receives the initial supply and all admin rights. Owner actions are then prepared as Safe transactions.
+                </p>
+                {errors.initialOwner && <p className="text-red-400 text-sm mt-1">{errors.initialOwner}</p>}
+              </div>
+
               {/* Transfer Fees */}
               <div className="p-4 bg-white/5 rounded-lg">
                 <div className="flex items-center justify-between mb-4">
@@ -411,7 +781,8 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
                         id="transferFees"
                         checked={config.features.transferFees.enabled}
                         onChange={(e) => updateFeatures({
-                          transferFees: { ...config.features.transferFees, enabled: e.target.checked }
+                          transferFees: { ...config.features.transferFees, enabled: e.target.checked },
+                          taxes: { ...config.features.taxes!, enabled: e.target.checked ? false : !!config.features.taxes?.enabled }
                         })}
                         className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
                       />
@@ -464,6 +835,233 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
                 )}
               </div>
 
+              {/* Buy/Sell Taxes */}
+              <div className="p-4 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center space-x-3">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="taxes"
+                        checked={!!config.features.taxes?.enabled}
+                        onChange={(e) => toggleTaxes(e.target.checked)}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="taxes" className="text-white font-medium">
+                        Buy/Sell Taxes
+                      </label>
+                    </div>
+                    <Info className="w-4 h-4 text-gray-400" />
+                  </div>
+                  <span className="text-sm text-gray-400">
+                    Separate DEX buy, sell and transfer taxes (replaces transfer fees)
+                  </span>
+                </div>
+                
+                {config.features.taxes?.enabled && (
+                  <div className="space-y-4 mt-4">
+                    <div className="grid md:grid-cols-3 gap-4">
+                      {([
+                        ['buyPercentage', 'Buy Tax (%)'],
+                        ['sellPercentage', 'Sell Tax (%)'],
+                        ['transferPercentage', 'Transfer Tax (%)']
+                      ] as const).map(([key, label]) => (
+                        <div key={key}>
+                          <label className="block text-sm font-medium text-gray-300 mb-2">
+                            {label}
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="25"
+                            step="0.1"
+                            value={config.features.taxes![key]}
+                            onChange={(e) => updateTaxes({ [key]: parseFloat(e.target.value) })}
+                            className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    {errors.taxPercentage && <p className="text-red-400 text-sm">{errors.taxPercentage}</p>}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Tax Recipients (share of collected taxes)
+                      </label>
+                      <div className="space-y-2">
+                        {config.features.taxes.recipients.map((recipient, index) => (
+                          <div key={index} className="flex space-x-2">
+                            <input
+                              type="text"
+                              value={recipient.label}
+                              onChange={(e) => updateTaxRecipient(index, { label: e.target.value })}
+                              className="w-1/4 bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="Marketing"
+                            />
+                            <input
+                              type="text"
+                              value={recipient.address}
+                              onChange={(e) => updateTaxRecipient(index, { address: e.target.value })}
+                              className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="0x..."
+                            />
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="1"
+                              value={recipient.share}
+                              onChange={(e) => updateTaxRecipient(index, { share: parseFloat(e.target.value) })}
+                              className="w-24 bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => updateTaxes({ recipients: config.features.taxes!.recipients.filter((_, i) => i !== index) })}
+                              className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      {config.features.taxes.recipients.length < 5 && (
+                        <button
+                          type="button"
+                          onClick={() => updateTaxes({ recipients: [...config.features.taxes!.recipients, { label: '', address: '', share: 0 }] })}
+                          className="mt-2 text-blue-400 hover:text-blue-300 text-sm flex items-center space-x-1"
+                        >
+                          <Plus className="w-4 h-4" />
+                          <span>Add Recipient</span>
+                        </button>
+                      )}
+                      {errors.taxRecipients && <p className="text-red-400 text-sm mt-1">{errors.taxRecipients}</p>}
+                    </div>
+
+                    <div className="grid md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Liquidity Share (%)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          value={config.features.taxes.liquidityShare}
+                          onChange={(e) => updateTaxes({ liquidityShare: parseFloat(e.target.value) })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {errors.taxShares && <p className="text-red-400 text-sm mt-1">{errors.taxShares}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          DEX Router (optional)
+                        </label>
+                        <input
+                          type="text"
+                          value={config.features.taxes.router}
+                          onChange={(e) => updateTaxes({ router: e.target.value })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="0x... (empty = pay taxes in tokens)"
+                        />
+                        {errors.taxRouter && <p className="text-red-400 text-sm mt-1">{errors.taxRouter}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Swap Threshold (% of supply)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="1"
+                          step="0.01"
+                          value={config.features.taxes.swapThresholdPercentage}
+                          onChange={(e) => updateTaxes({ swapThresholdPercentage: parseFloat(e.target.value) })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {errors.swapThreshold && <p className="text-red-400 text-sm mt-1">{errors.swapThreshold}</p>}
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-400">
+                      With a router, the token creates its {config.network.symbol} pair at deployment and sells collected
+                      taxes for {config.network.symbol} once the threshold is reached. Without one, taxes are paid to the
+                      recipients in tokens.
+                    </p>
+
+                    {/* Holder Dividends */}
+                    <div className="pt-4 border-t border-white/10 space-y-4">
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id="dividends"
+                          checked={!!config.features.taxes.dividends?.enabled}
+                          onChange={(e) => updateDividends({ enabled: e.target.checked })}
+                          className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                        />
+                        <label htmlFor="dividends" className="text-white font-medium">
+                          Pay Holder Dividends
+                        </label>
+                      </div>
+                      {errors.dividends && <p className="text-red-400 text-sm">{errors.dividends}</p>}
+
+                      {config.features.taxes.dividends?.enabled && (
+                        <>
+                          <div className="grid md:grid-cols-3 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-300 mb-2">
+                                Reward Token (optional)
+                              </label>
+                              <input
+                                type="text"
+                                value={config.features.taxes.dividends.rewardToken}
+                                onChange={(e) => updateDividends({ rewardToken: e.target.value })}
+                                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder={`0x... (empty = ${config.network.symbol})`}
+                              />
+                              {errors.rewardToken && <p className="text-red-400 text-sm mt-1">{errors.rewardToken}</p>}
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-300 mb-2">
+                                Minimum Balance (tokens)
+                              </label>
+                              <input
+                                type="text"
+                                value={config.features.taxes.dividends.minimumBalance}
+                                onChange={(e) => updateDividends({ minimumBalance: e.target.value })}
+                                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              {errors.minimumBalance && <p className="text-red-400 text-sm mt-1">{errors.minimumBalance}</p>}
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-300 mb-2">
+                                Auto-Process Gas
+                              </label>
+                              <input
+                                type="number"
+                                min="0"
+                                max="1000000"
+                                step="10000"
+                                value={config.features.taxes.dividends.gasForProcessing}
+                                onChange={(e) => updateDividends({ gasForProcessing: parseInt(e.target.value) })}
+                                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              {errors.gasForProcessing && <p className="text-red-400 text-sm mt-1">{errors.gasForProcessing}</p>}
+                            </div>
+                          </div>
+                          <p className="text-sm text-gray-400">
+                            Holders receive the {Math.max(0, 100 - config.features.taxes.recipients.reduce((sum, recipient) => sum + (recipient.share || 0), config.features.taxes.liquidityShare || 0))}%
+                            of swapped taxes not assigned to recipients or liquidity, paid in{' '}
+                            {config.features.taxes.dividends.rewardToken ? 'the reward token' : config.network.symbol} pro rata to
+                            balances above the minimum. Each transfer spends up to the auto-process gas paying holders; set it
+                            to 0 to have holders claim manually.
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Holder Redistribution */}
               <div className="p-4 bg-white/5 rounded-lg">
                 <div className="flex items-center justify-between mb-4">
@@ -490,22 +1088,140 @@ export const TokenBuilder: React.FC<TokenBuilderProps> = ({ onBack, onNext, init
                 </div>
                 
                 {config.features.holderRedistribution.enabled && (
-                  <div className="mt-4">
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Redistribution Percentage (%)
-                    </label>
-                    <input
-                      type="number"
-                      min="0"
-                      max="5"
-                      step="0.1"
-                      value={config.features.holderRedistribution.percentage}
-                      onChange={(e) => updateFeatures({
-                        holderRedistribution: { ...config.features.holderRedistribution, percentage: parseFloat(e.target.value) }
-                      })}
-                      className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                    {errors.redistributionPercentage && <p className="text-red-400 text-sm mt-1">{errors.redistributionPercentage}</p>}
+                  <div className="mt-4 space-y-4">
+                    <div className="grid md:grid-cols-2 gap-3">
+                      {([
+                        ['claim', 'Claim-based', 'Rewards accrue and holders claim them'],
+                        ['reflection', 'Reflection', 'Balances grow automatically, no claiming']
+                      ] as const).map(([mode, label, description]) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => updateFeatures({
+                            holderRedistribution: { ...config.features.holderRedistribution, mode }
+                          })}
+                          className={`p-3 rounded-lg border text-left transition-colors ${
+                            (config.features.holderRedistribution.mode || 'claim') === mode
+                              ? 'border-blue-500 bg-blue-500/20'
+                              : 'border-white/20 bg-white/5 hover:bg-white/10'
+                          }`}
+                        >
+                          <div className="text-white font-medium">{label}</div>
+                          <div className="text-sm text-gray-400">{description}</div>
+                        </button>
+                      ))}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Redistribution Percentage (%)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="5"
+                        step="0.1"
+                        value={config.features.holderRedistribution.percentage}
+                        onChange={(e) => updateFeatures({
+                          holderRedistribution: { ...config.features.holderRedistribution, percentage: parseFloat(e.target.value) }
+                        })}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      {errors.redistributionPercentage && <p className="text-red-400 text-sm mt-1">{errors.redistributionPercentage}</p>}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Anti-Whale & Trading Limits */}
+              <div className="p-4 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center space-x-3">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="antiWhale"
+                        checked={!!config.features.antiWhale?.enabled}
+                        onChange={(e) => updateAntiWhale({ enabled: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="antiWhale" className="text-white font-medium">
+                        Anti-Whale & Trading Limits
+                      </label>
+                    </div>
+                    <Info className="w-4 h-4 text-gray-400" />
+                  </div>
+                  <span className="text-sm text-gray-400">
+                    Limit transaction and wallet sizes, enable trading at launch
+                  </span>
+                </div>
+                
+                {config.features.antiWhale?.enabled && (
+                  <div className="space-y-4 mt-4">
+                    <div className="grid md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Max Transaction (% of supply)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          value={config.features.antiWhale.maxTransactionPercentage}
+                          onChange={(e) => updateAntiWhale({ maxTransactionPercentage: parseFloat(e.target.value) })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {errors.maxTransactionPercentage && <p className="text-red-400 text-sm mt-1">{errors.maxTransactionPercentage}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Max Wallet (% of supply)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          value={config.features.antiWhale.maxWalletPercentage}
+                          onChange={(e) => updateAntiWhale({ maxWalletPercentage: parseFloat(e.target.value) })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {errors.maxWalletPercentage && <p className="text-red-400 text-sm mt-1">{errors.maxWalletPercentage}</p>}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Launch Protection (blocks)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="20"
+                          step="1"
+                          value={config.features.antiWhale.launchProtectionBlocks}
+                          onChange={(e) => updateAntiWhale({ launchProtectionBlocks: parseInt(e.target.value) })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {errors.launchProtectionBlocks && <p className="text-red-400 text-sm mt-1">{errors.launchProtectionBlocks}</p>}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Exempt Addresses (optional)
+                      </label>
+                      <textarea
+                        rows={3}
+                        value={exemptAddressesText}
+                        onChange={(e) => handleExemptAddressesChange(e.target.value)}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                        placeholder="One address per line, e.g. presale or locker contracts"
+                      />
+                      {errors.exemptAddresses && <p className="text-red-400 text-sm mt-1">{errors.exemptAddresses}</p>}
+                    </div>
+                    <p className="text-sm text-gray-400">
+                      Transfers between non-exempt wallets are blocked until you enable trading from the token
+                      management page. Wallets that buy within the launch protection blocks are flagged as snipers.
+                      The owner is always exempt.
+                    </p>
                   </div>
                 )}
               </div>
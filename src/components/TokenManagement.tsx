@@ -16,7 +16,14 @@ import {
   Percent,
   Wallet,
   Calendar,
-  BarChart3
+  BarChart3,
+  Gauge,
+  Vote,
+  ShieldAlert,
+  KeyRound,
+  Crown,
+  Layers,
+  ArrowLeftRight
 } from 'lucide-react';
 import { useWallet } from '../hooks/useWallet';
 import { useTokenManagement } from '../hooks/useTokenManagement';
@@ -24,11 +31,27 @@ import { WalletConnection } from './WalletConnection';
 import { MintTokensPanel } from './tokenManagement/MintTokensPanel';
 import { BurnTokensPanel } from './tokenManagement/BurnTokensPanel';
 import { FeeManagementPanel } from './tokenManagement/FeeManagementPanel';
+import { AntiWhalePanel } from './tokenManagement/AntiWhalePanel';
 import { TokenMetadataForm } from './TokenMetadataForm';
 import { RedistributionPanel } from './tokenManagement/RedistributionPanel';
+import { GovernancePanel } from './tokenManagement/GovernancePanel';
+import { CompliancePanel } from './tokenManagement/CompliancePanel';
+import { RolesPanel } from './tokenManagement/RolesPanel';
+import { OwnershipPanel } from './tokenManagement/OwnershipPanel';
+import { UpgradePanel } from './tokenManagement/UpgradePanel';
+import { BridgePanel } from './tokenManagement/BridgePanel';
+import { SafeTransactionQueue } from './tokenManagement/SafeTransactionQueue';
 import { VestingManagementPanel } from './tokenManagement/VestingManagementPanel';
 import { VerificationPanel } from './tokenManagement/VerificationPanel';
 import { metadataService } from '../services/metadataService';
+import { TokenRole } from '../types/tokenManagement';
+
+// Tabs that role holders can open without being the owner
+const ROLE_TABS: Record<string, TokenRole> = {
+  mint: 'minter',
+  fees: 'feeManager',
+  compliance: 'pauser'
+};
 
 export const TokenManagement: React.FC = () => {
   // Get token address from URL
@@ -49,8 +72,54 @@ export const TokenManagement: React.FC = () => {
     burnTokens,
     updateFeeSettings,
     updateRedistributionPercentage,
+    updateTaxes,
+    updateTaxRecipients,
+    setAutomatedMarketMakerPair,
+    updateSwapThreshold,
+    swapBack,
+    claimDividends,
+    processDividends,
+    updateDividendSettings,
+    getDividendStatus,
+    setDividendExclusion,
     claimRewards,
-    getUnclaimedRewards
+    getUnclaimedRewards,
+    getReflectionStatus,
+    setReflectionExclusion,
+    enableTrading,
+    updateTradingLimits,
+    setLimitExemption,
+    setSniperFlag,
+    getLimitStatus,
+    delegateVotes,
+    getVotingStatus,
+    takeSnapshot,
+    getSnapshotBalance,
+    setPaused,
+    updateBlacklist,
+    getBlacklistedAddresses,
+    updateRole,
+    getRoleMembers,
+    transferOwnership,
+    cancelOwnershipTransfer,
+    acceptOwnership,
+    renounceOwnership,
+    safeTransactions,
+    getSafeTransactionBatch,
+    clearSafeTransactions,
+    checkUpgrade,
+    upgradeToken,
+    verifyContract,
+    getBridgeChains,
+    deployBridgeAdapter,
+    linkBridgePeers,
+    applyBridgeChange,
+    cancelBridgeChange,
+    bridgeTokens,
+    createVesting,
+    createVestingSchedules,
+    getVestingFunding,
+    revokeVesting
   } = useTokenManagement(address || '');
 
   useEffect(() => {
@@ -83,6 +152,11 @@ export const TokenManagement: React.FC = () => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
+  const hasTabAccess = (tabId: string) => {
+    const role = ROLE_TABS[tabId];
+    return isOwner || (!!role && !!tokenData?.features.roles?.[role]);
+  };
+
   const getAvailableFeatures = () => {
     if (!tokenData) return [];
     
@@ -108,27 +182,99 @@ export const TokenManagement: React.FC = () => {
       });
     }
     
-    if (tokenData.features.transferFees.enabled) {
+    if (tokenData.features.transferFees.enabled || tokenData.features.taxes) {
       features.push({
         id: 'fees',
-        name: 'Transfer Fees',
+        name: tokenData.features.taxes ? 'Buy/Sell Taxes' : 'Transfer Fees',
         icon: Percent,
-        description: 'Manage transfer fees and recipients',
+        description: tokenData.features.taxes ? 'Manage tax rates, recipients and swap-back' : 'Manage transfer fees and recipients',
         ownerOnly: true
       });
     }
     
-    if (tokenData.features.holderRedistribution.enabled) {
+    if (tokenData.features.antiWhale) {
+      features.push({
+        id: 'antiwhale',
+        name: 'Trading Limits',
+        icon: Gauge,
+        description: 'Enable trading and manage anti-whale limits',
+        ownerOnly: true
+      });
+    }
+    
+    // Dividend holders claim and process payouts themselves, so the tab stays open to them
+    if (tokenData.features.holderRedistribution.enabled || tokenData.features.dividends) {
       features.push({
         id: 'redistribution',
-        name: 'Holder Redistribution',
+        name: tokenData.features.holderRedistribution.enabled ? 'Holder Redistribution' : 'Holder Dividends',
         icon: TrendingUp,
         description: 'Manage holder reward distribution',
+        ownerOnly: !tokenData.features.dividends
+      });
+    }
+    
+    if (tokenData.features.governance) {
+      features.push({
+        id: 'governance',
+        name: 'Governance',
+        icon: Vote,
+        description: 'Delegate votes and manage snapshots',
+        ownerOnly: false
+      });
+    }
+    
+    if (tokenData.features.compliance) {
+      features.push({
+        id: 'compliance',
+        name: 'Compliance',
+        icon: ShieldAlert,
+        description: 'Pause transfers and freeze addresses',
         ownerOnly: true
       });
     }
     
-    if (tokenData.features.vesting.enabled) {
+    if (tokenData.features.roles) {
+      features.push({
+        id: 'roles',
+        name: 'Roles',
+        icon: KeyRound,
+        description: 'Grant minter, pauser and fee manager roles',
+        ownerOnly: true
+      });
+    }
+    
+    // The pending owner needs this tab to accept a handover
+    features.push({
+      id: 'ownership',
+      name: 'Ownership',
+      icon: Crown,
+      description: 'Transfer, accept or renounce ownership',
+      ownerOnly: false
+    });
+    
+    if (tokenData.implementationAddress) {
+      features.push({
+        id: 'upgrades',
+        name: 'Upgrades',
+        icon: Layers,
+        description: 'Upgrade the implementation behind the proxy',
+        ownerOnly: true
+      });
+    }
+    
+    // Holders bridge their own tokens; the owner sets up and links the adapters
+    if (tokenData.features.bridge || tokenData.bridgeAdapterAddress || tokenData.projectId) {
+      features.push({
+        id: 'bridge',
+        name: 'Bridge',
+        icon: ArrowLeftRight,
+        description: 'Move supply between networks',
+        ownerOnly: false
+      });
+    }
+    
+    // Owners can set up vesting after deployment; the first schedule deploys the vesting contract
+    if (tokenData.features.vesting.enabled || isOwner) {
       features.push({
         id: 'vesting',
         name: 'Token Vesting',
@@ -165,7 +311,7 @@ export const TokenManagement: React.FC = () => {
         return (
           <MintTokensPanel
             tokenData={tokenData}
-            isOwner={isOwner}
+            isOwner={hasTabAccess('mint')}
             onMint={mintTokens}
           />
         );
@@ -181,8 +327,93 @@ export const TokenManagement: React.FC = () => {
         return (
           <FeeManagementPanel
             tokenData={tokenData}
-            isOwner={isOwner}
+            isOwner={hasTabAccess('fees')}
             onUpdateFees={updateFeeSettings}
+            onUpdateTaxes={updateTaxes}
+            onUpdateTaxRecipients={updateTaxRecipients}
+            onSetPair={setAutomatedMarketMakerPair}
+            onUpdateSwapThreshold={updateSwapThreshold}
+            onSwapBack={swapBack}
+          />
+        );
+      case 'antiwhale':
+        return (
+          <AntiWhalePanel
+            tokenData={tokenData}
+            isOwner={isOwner}
+            onEnableTrading={enableTrading}
+            onUpdateLimits={updateTradingLimits}
+            onSetExemption={setLimitExemption}
+            onSetSniper={setSniperFlag}
+            onSetPair={setAutomatedMarketMakerPair}
+            getLimitStatus={getLimitStatus}
+          />
+        );
+      case 'governance':
+        return (
+          <GovernancePanel
+            tokenData={tokenData}
+            isOwner={isOwner}
+            userAddress={address || ''}
+            onDelegate={delegateVotes}
+            getVotingStatus={getVotingStatus}
+            onTakeSnapshot={takeSnapshot}
+            getSnapshotBalance={getSnapshotBalance}
+          />
+        );
+      case 'compliance':
+        return (
+          <CompliancePanel
+            tokenData={tokenData}
+            isOwner={isOwner}
+            canPause={hasTabAccess('compliance')}
+            onSetPaused={setPaused}
+            onUpdateBlacklist={updateBlacklist}
+            getBlacklistedAddresses={getBlacklistedAddresses}
+          />
+        );
+      case 'roles':
+        return (
+          <RolesPanel
+            tokenData={tokenData}
+            isOwner={isOwner}
+            onUpdateRole={updateRole}
+            getRoleMembers={getRoleMembers}
+          />
+        );
+      case 'ownership':
+        return (
+          <OwnershipPanel
+            tokenData={tokenData}
+            isOwner={isOwner}
+            userAddress={address || ''}
+            onTransferOwnership={transferOwnership}
+            onCancelTransfer={cancelOwnershipTransfer}
+            onAcceptOwnership={acceptOwnership}
+            onRenounceOwnership={renounceOwnership}
+          />
+        );
+      case 'upgrades':
+        return (
+          <UpgradePanel
+            tokenData={tokenData}
+            isOwner={isOwner}
+            onCheckUpgrade={checkUpgrade}
+            onUpgrade={upgradeToken}
+          />
+        );
+      case 'bridge':
+        return (
+          <BridgePanel
+            tokenData={tokenData}
+            isOwner={isOwner}
+            userAddress={address || ''}
+            onGetChains={getBridgeChains}
+            onDeployAdapter={deployBridgeAdapter}
+            onLinkPeers={linkBridgePeers}
+            onApplyBridgeChange={applyBridgeChange}
+            onCancelBridgeChange={cancelBridgeChange}
+            onBridge={bridgeTokens}
           />
         );
       case 'redistribution':
@@ -194,6 +425,13 @@ export const TokenManagement: React.FC = () => {
             onUpdatePercentage={updateRedistributionPercentage}
             onClaimRewards={claimRewards}
             getUnclaimedRewards={getUnclaimedRewards}
+            getReflectionStatus={getReflectionStatus}
+            onSetReflectionExclusion={setReflectionExclusion}
+            onClaimDividends={claimDividends}
+            onProcessDividends={processDividends}
+            onUpdateDividendSettings={updateDividendSettings}
+            getDividendStatus={getDividendStatus}
+            onSetDividendExclusion={setDividendExclusion}
           />
         );
       case 'vesting':
@@ -201,18 +439,26 @@ export const TokenManagement: React.FC = () => {
           <VestingManagementPanel
             tokenData={tokenData}
             isOwner={isOwner}
+            userAddress={address || ''}
+            onCreateVesting={createVesting}
+            onRevokeVesting={revokeVesting}
+            onImportVesting={createVestingSchedules}
+            getVestingFunding={getVestingFunding}
           />
         );
       case 'verification':
         return (
           <VerificationPanel
             tokenData={tokenData}
+            isOwner={isOwner}
+            onVerify={verifyContract}
           />
         );
       case 'metadata':
         return (
           <TokenMetadataForm
             tokenAddress={tokenData.address}
+            chainId={tokenData.chainId}
             tokenName={tokenData.name}
             tokenSymbol={tokenData.symbol}
             isOwner={isOwner}
@@ -338,8 +584,18 @@ export const TokenManagement: React.FC = () => {
           </div>
         </div>
 
+        {/* Safe Owner Transactions */}
+        {tokenData.safeOwner && isOwner && (
+          <SafeTransactionQueue
+            safe={tokenData.safeOwner}
+            transactions={safeTransactions}
+            getBatch={getSafeTransactionBatch}
+            onClear={clearSafeTransactions}
+          />
+        )}
+
         {/* Access Control Warning */}
-        {!isOwner && (
+        {!isOwner && !Object.keys(ROLE_TABS).some(hasTabAccess) && (
           <div className="bg-amber-500/20 border border-amber-500/50 rounded-xl p-6 mb-8">
             <div className="flex items-start space-x-3">
               <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
@@ -376,7 +632,7 @@ export const TokenManagement: React.FC = () => {
                 
                 {availableFeatures.map((feature) => {
                   const Icon = feature.icon;
-                  const canAccess = !feature.ownerOnly || isOwner;
+                  const canAccess = !feature.ownerOnly || hasTabAccess(feature.id);
                   
                   return (
                     <button
@@ -394,7 +650,7 @@ export const TokenManagement: React.FC = () => {
                       <div className="flex items-center space-x-3">
                         <Icon className="w-4 h-4" />
                         <span>{feature.name}</span>
-                        {feature.ownerOnly && !isOwner && (
+                        {!canAccess && (
                           <Shield className="w-3 h-3 text-gray-500" />
                         )}
                       </div>
@@ -20,6 +20,7 @@ import { MetadataPreviewCard } from './MetadataPreviewCard';
 
 interface TokenMetadataFormProps {
   tokenAddress: string;
+  chainId?: number; // Deployment whose owner saves the metadata; required after deployment
   tokenName?: string;
   tokenSymbol?: string;
   isOwner: boolean;
@@ -32,6 +33,7 @@ interface TokenMetadataFormProps {
 
 export const TokenMetadataForm: React.FC<TokenMetadataFormProps> = ({
   tokenAddress,
+  chainId,
   tokenName,
   tokenSymbol,
   isOwner,
@@ -202,18 +204,22 @@ export const TokenMetadataForm: React.FC<TokenMetadataFormProps> = ({
         }
       } else {
         // For post-deployment, save to permanent storage
+        if (!chainId) {
+          throw new Error('Network not detected');
+        }
+        
         // Upload logo if selected
         if (logoFile) {
           setIsUploading(true);
-          const logoUrl = await metadataService.uploadLogo(tokenAddress, logoFile);
+          const logoUrl = await metadataService.uploadLogo(tokenAddress, chainId, logoFile);
           setMetadata(prev => ({ ...prev, logoUrl }));
           setIsUploading(false);
         }
         
         // Save metadata
-        const updatedMetadata = { ...metadata };
+        const updatedMetadata = { ...metadata, chainId };
         if (logoFile) {
-          updatedMetadata.logoUrl = await metadataService.uploadLogo(tokenAddress, logoFile);
+          updatedMetadata.logoUrl = await metadataService.uploadLogo(tokenAddress, chainId, logoFile);
         }
         
         let result;
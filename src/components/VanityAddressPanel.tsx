@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { Fingerprint, Loader2, Search, X, Globe, CheckCircle, AlertTriangle } from 'lucide-react';
+import { TOKEN_FACTORY_ADDRESS } from '../config/constants';
+import { mainnets, testnets } from '../data/networks';
+import { web3Service } from '../services/web3Service';
+import { useVanityMiner } from '../hooks/useVanityMiner';
+import {
+  FactoryDeploymentStatus,
+  getFactoryInitCodeHash,
+  getFactoryDeployments,
+  isValidVanityPrefix,
+  predictFactoryTokenAddress,
+  toSalt
+} from '../services/vanityAddress';
+
+interface VanityAddressPanelProps {
+  contractType: string;
+  constructorArgs: unknown[];
+  isTestnetMode: boolean;
+  salt?: string;
+  onSaltChange: (salt: string | undefined) => void;
+}
+
+const STATUS_LABELS: Record<FactoryDeploymentStatus['status'], string> = {
+  available: 'Address available',
+  deployed: 'Already deployed',
+  'no-factory': 'Factory not deployed',
+  unreachable: 'RPC unreachable'
+};
+
+export const VanityAddressPanel: React.FC<VanityAddressPanelProps> = ({
+  contractType,
+  constructorArgs,
+  isTestnetMode,
+  salt,
+  onSaltChange
+}) => {
+  const { mine, cancel, isMining, attempts } = useVanityMiner();
+  const [initCodeHash, setInitCodeHash] = useState<string | null>(null);
+  const [saltInput, setSaltInput] = useState(salt || '');
+  const [prefix, setPrefix] = useState('');
+  const [deployments, setDeployments] = useState<FactoryDeploymentStatus[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const argsKey = JSON.stringify(constructorArgs);
+
+  // The init code hash covers every constructor argument, so any change gives a new address
+  useEffect(() => {
+    setInitCodeHash(null);
+    setDeployments(null);
+    setError(null);
+
+    const provider = web3Service.getProvider();
+    if (!TOKEN_FACTORY_ADDRESS || !provider) return;
+
+    getFactoryInitCodeHash(TOKEN_FACTORY_ADDRESS, contractType, JSON.parse(argsKey), provider)
+      .then(setInitCodeHash)
+      .catch(() => setError('TokenFactory is not available on the connected network'));
+  }, [contractType, argsKey]);
+
+  // Deployments without a salt use the zero salt
+  const predictedAddress = initCodeHash ? predictFactoryTokenAddress(TOKEN_FACTORY_ADDRESS, salt || ethers.ZeroHash, initCodeHash) : null;
+
+  const handleSaltChange = (value: string) => {
+    setSaltInput(value);
+    setDeployments(null);
+    onSaltChange(value.trim() ? toSalt(value.trim()) : undefined);
+  };
+
+  const handleMine = async () => {
+    if (!initCodeHash) return;
+    setError(null);
+
+    try {
+      const match = await mine(TOKEN_FACTORY_ADDRESS, initCodeHash, prefix);
+      if (match) handleSaltChange(match.salt);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const handleCheckNetworks = async () => {
+    if (!predictedAddress) return;
+    setIsChecking(true);
+
+    try {
+      setDeployments(await getFactoryDeployments(TOKEN_FACTORY_ADDRESS, predictedAddress, isTestnetMode ? testnets : mainnets));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (!TOKEN_FACTORY_ADDRESS) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-2">
+        <Fingerprint className="w-5 h-5 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">Deterministic Address</h2>
+      </div>
+      <p className="text-gray-400 text-sm mb-4">
+        The factory creates the token with CREATE2. Deploying with the same salt and settings on another chain gives the
+        same address there.
+      </p>
+
+      {/* Salt */}
+      <label className="block text-sm font-medium text-gray-300 mb-2">Salt (optional)</label>
+      <input
+        type="text"
+        value={saltInput}
+        onChange={(e) => handleSaltChange(e.target.value)}
+        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+        placeholder="Any phrase or a 32-byte hex value"
+      />
+
+      {/* Vanity Prefix */}
+      <label className="block text-sm font-medium text-gray-300 mt-4 mb-2">Vanity Prefix</label>
+      <div className="flex space-x-3">
+        <div className="flex-1 flex items-center bg-white/10 border border-white/20 rounded-lg px-4">
+          <span className="text-gray-400 font-mono">0x</span>
+          <input
+            type="text"
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value.trim())}
+            disabled={isMining}
+            className="flex-1 bg-transparent py-3 text-white placeholder-gray-400 focus:outline-none font-mono"
+            placeholder="c0ffee"
+          />
+        </div>
+        {isMining ? (
+          <button
+            onClick={cancel}
+            className="bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <X className="w-4 h-4" />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleMine}
+            disabled={!initCodeHash || !isValidVanityPrefix(prefix)}
+            className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            <span>Find Salt</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-400 mt-1">
+        {isMining
+          ? `Searching... ${attempts.toLocaleString()} salts tried`
+          : isValidVanityPrefix(prefix)
+            ? `About ${Math.pow(16, prefix.length).toLocaleString()} salts to try on average`
+            : 'Up to 8 hex characters; each one makes the search 16 times longer'}
+      </p>
+
+      {/* Predicted Address */}
+      {predictedAddress && (
+        <div className="mt-4 bg-white/5 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm text-gray-300">Token Address</div>
+              <div className="text-white font-mono text-sm mt-1 break-all">{predictedAddress}</div>
+            </div>
+            <button
+              onClick={handleCheckNetworks}
+              disabled={isChecking}
+              className="text-blue-400 hover:text-blue-300 text-sm flex items-center space-x-1 disabled:opacity-50"
+            >
+              {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Globe className="w-4 h-4" />}
+              <span>Check networks</span>
+            </button>
+          </div>
+
+          {deployments && (
+            <div className="mt-3 space-y-2">
+              {deployments.map(({ network, status }) => (
+                <div key={network.id} className="flex items-center justify-between text-sm">
+                  <span className="text-white">{network.name}</span>
+                  <span className={`flex items-center space-x-1 ${status === 'available' ? 'text-green-400' : 'text-amber-400'}`}>
+                    {status === 'available' ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+                    <span>{STATUS_LABELS[status]}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+    </div>
+  );
+};
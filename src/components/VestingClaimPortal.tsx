@@ -0,0 +1,502 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { ethers } from 'ethers';
+import {
+  ArrowLeft,
+  Search,
+  Loader2,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Copy,
+  Gift,
+  Users
+} from 'lucide-react';
+import { useWallet } from '../hooks/useWallet';
+import { web3Service } from '../services/web3Service';
+import { networks } from '../data/networks';
+import { findNetwork } from '../services/bridgeService';
+import {
+  VESTING_ABI,
+  VestingToken,
+  getUnlockIntervalLabel,
+  getVestingChart,
+  getVestingClaimUrl,
+  getVestingSchedules,
+  getVestingToken
+} from '../services/vestingService';
+import { VestingSchedule } from '../types/tokenManagement';
+import { WalletConnection } from './WalletConnection';
+
+interface ClaimTarget {
+  vestingAddress: string;
+  chainId?: number; // Read through the connected wallet when not given
+}
+
+interface LoadedVesting extends ClaimTarget {
+  token: VestingToken;
+  schedules: VestingSchedule[];
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Links look like /claim/<vesting address>?chain=<chain ID>
+const readClaimTarget = (): ClaimTarget => ({
+  vestingAddress: window.location.pathname.split('/claim/')[1]?.split('/')[0] || '',
+  chainId: Number(new URLSearchParams(window.location.search).get('chain')) || undefined
+});
+
+const formatAmount = (amount: string | number) =>
+  Number(amount).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+const getScheduleStatus = (schedule: VestingSchedule, now: number) => {
+  if (schedule.revoked) return { label: 'Revoked', className: 'bg-red-500/20 text-red-400' };
+  if (schedule.releasedAmount === schedule.totalAmount) return { label: 'Fully claimed', className: 'bg-gray-500/20 text-gray-300' };
+  if (now < schedule.startTime) return { label: 'Not started', className: 'bg-blue-500/20 text-blue-400' };
+  if (now < schedule.startTime + schedule.cliffDuration) return { label: 'In cliff', className: 'bg-amber-500/20 text-amber-300' };
+  if (now >= schedule.startTime + schedule.duration) return { label: 'Fully vested', className: 'bg-green-500/20 text-green-400' };
+  return { label: 'Vesting', className: 'bg-purple-500/20 text-purple-300' };
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+const VestingChart: React.FC<{ schedules: VestingSchedule[]; symbol: string }> = ({ schedules, symbol }) => {
+  const points = useMemo(() => getVestingChart(schedules), [schedules]);
+  if (points.length < 2) return null;
+
+  const from = points[0].time;
+  const to = points[points.length - 1].time;
+  const maxAmount = Math.max(...points.map(point => point.amount), Number.MIN_VALUE);
+  const x = (time: number) => ((time - from) / (to - from)) * CHART_WIDTH;
+  const y = (amount: number) => CHART_HEIGHT - (amount / maxAmount) * CHART_HEIGHT;
+
+  const line = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.time).toFixed(1)},${y(point.amount).toFixed(1)}`).join(' ');
+  const now = Date.now() / 1000;
+  const vestedNow = points.filter(point => point.time <= now).pop()?.amount ?? 0;
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-400 mb-2">
+        <span>{formatAmount(maxAmount)} {symbol}</span>
+        {now >= from && now <= to && <span>{formatAmount(vestedNow)} {symbol} vested today</span>}
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-48">
+        <defs>
+          <linearGradient id="vested-area" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0%" stopColor="#8b5cf6" stopOpacity="0.4" />
+            <stop offset="100%" stopColor="#3b82f6" stopOpacity="0" />
+          </linearGradient>
+        </defs>
+        <path d={`${line} L${CHART_WIDTH},${CHART_HEIGHT} L0,${CHART_HEIGHT} Z`} fill="url(#vested-area)" />
+        <path d={line} fill="none" stroke="#8b5cf6" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+        {now >= from && now <= to && (
+          <line
+            x1={x(now)}
+            x2={x(now)}
+            y1="0"
+            y2={CHART_HEIGHT}
+            stroke="#facc15"
+            strokeDasharray="4 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-2">
+        <span>{formatDate(from)}</span>
+        <span>{formatDate(to)}</span>
+      </div>
+    </div>
+  );
+};
+
+export const VestingClaimPortal: React.FC = () => {
+  const { isConnected, address, chainId, switchToNetwork } = useWallet();
+  const [target, setTarget] = useState<ClaimTarget>(readClaimTarget);
+  const [addressInput, setAddressInput] = useState(target.vestingAddress);
+  const [chainInput, setChainInput] = useState(target.chainId ? String(target.chainId) : '');
+  const [vesting, setVesting] = useState<LoadedVesting | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [claiming, setClaiming] = useState<number | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // The wallet reads the contract when it is on the contract's network; anyone else reads through
+  // the network's public RPC, so schedules can be checked without connecting
+  const loadVesting = useCallback(async ({ vestingAddress, chainId: targetChainId }: ClaimTarget) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const walletProvider = isConnected ? web3Service.getProvider() : null;
+      let provider: ethers.Provider;
+      if (walletProvider && (!targetChainId || targetChainId === chainId)) {
+        provider = walletProvider;
+      } else {
+        if (!targetChainId) throw new Error('Choose the network of the vesting contract or connect your wallet');
+        const network = findNetwork(targetChainId, networks);
+        if (!network) throw new Error(`Chain ${targetChainId} is not supported`);
+        provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+      }
+
+      if (await provider.getCode(vestingAddress) === '0x') {
+        throw new Error('No contract at this address on this network');
+      }
+
+      const token = await getVestingToken(vestingAddress, provider);
+      const schedules = await getVestingSchedules(vestingAddress, token.decimals, provider);
+      setVesting({ vestingAddress: ethers.getAddress(vestingAddress), chainId: targetChainId, token, schedules });
+    } catch (error) {
+      console.error('Error loading vesting schedules:', error);
+      setVesting(null);
+      setError((error as Error).message || 'Failed to load vesting schedules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isConnected, chainId]);
+
+  useEffect(() => {
+    if (ethers.isAddress(target.vestingAddress)) {
+      loadVesting(target);
+    }
+  }, [target, loadVesting]);
+
+  // Back and forward move between contracts opened on this page
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = readClaimTarget();
+      setAddressInput(next.vestingAddress);
+      setChainInput(next.chainId ? String(next.chainId) : '');
+      setTarget(next);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handleOpen = () => {
+    if (!ethers.isAddress(addressInput)) {
+      setError('Enter a valid vesting contract address');
+      return;
+    }
+
+    const next = { vestingAddress: addressInput, chainId: chainInput ? parseInt(chainInput) : undefined };
+    window.history.pushState({}, '', getVestingClaimUrl(next.vestingAddress, next.chainId));
+    setSuccess(null);
+    setTarget(next);
+  };
+
+  const mySchedules = useMemo(() =>
+    vesting && address
+      ? vesting.schedules.filter(schedule => schedule.beneficiary.toLowerCase() === address.toLowerCase())
+      : [],
+  [vesting, address]);
+
+  const shownSchedules = showAll || mySchedules.length === 0 ? vesting?.schedules || [] : mySchedules;
+  const claimable = mySchedules.filter(schedule => !schedule.revoked && parseFloat(schedule.releasableAmount) > 0);
+  const claimableTotal = claimable.reduce((sum, schedule) => sum + parseFloat(schedule.releasableAmount), 0);
+  const isWrongNetwork = isConnected && !!vesting?.chainId && chainId !== vesting.chainId;
+  const now = Date.now() / 1000;
+
+  const handleClaim = async (schedule?: VestingSchedule) => {
+    if (!vesting) return;
+
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      setError('Connect your wallet to claim');
+      return;
+    }
+
+    setClaiming(schedule ? schedule.id : 'all');
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const contract = new ethers.Contract(vesting.vestingAddress, VESTING_ABI, signer);
+      const tx = schedule ? await contract.release(schedule.id) : await contract.releaseAll();
+      await tx.wait();
+
+      const amount = schedule ? parseFloat(schedule.releasableAmount) : claimableTotal;
+      setSuccess(`Claimed about ${formatAmount(amount)} ${vesting.token.symbol}`);
+
+      await loadVesting(vesting);
+    } catch (error) {
+      console.error('Error claiming vested tokens:', error);
+      setError((error as Error).message || 'Failed to claim tokens');
+    } finally {
+      setClaiming(null);
+    }
+  };
+
+  const copyLink = () => {
+    if (!vesting) return;
+    navigator.clipboard.writeText(`${window.location.origin}${getVestingClaimUrl(vesting.vestingAddress, vesting.chainId || chainId || undefined)}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={() => window.location.href = '/'}
+              className="flex items-center space-x-2 text-gray-300 hover:text-white transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back to Home</span>
+            </button>
+            <WalletConnection />
+          </div>
+          <h1 className="text-3xl font-bold text-white mb-2">Claim Vested Tokens</h1>
+          <p className="text-gray-300">See every schedule of a vesting contract and claim what has unlocked for your wallet</p>
+        </div>
+
+        {/* Contract */}
+        <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10 mb-8">
+          <div className="grid md:grid-cols-3 gap-6">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Vesting Contract Address
+              </label>
+              <input
+                type="text"
+                value={addressInput}
+                onChange={(e) => setAddressInput(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0x..."
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Network
+              </label>
+              <select
+                value={chainInput}
+                onChange={(e) => setChainInput(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="" className="bg-gray-800">Connected wallet's network</option>
+                {networks.map(network => (
+                  <option key={network.id} value={network.chainId} className="bg-gray-800">
+                    {network.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={handleOpen}
+            disabled={!addressInput || isLoading}
+            className="mt-6 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 w-full md:w-auto disabled:opacity-50"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            <span>Open Vesting Contract</span>
+          </button>
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="mt-4 p-3 bg-green-500/20 border border-green-500/50 rounded-lg">
+              <div className="flex items-start space-x-3">
+                <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+                <p className="text-green-400 text-sm">{success}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {vesting && (
+          <>
+            {/* Your Claim */}
+            <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10 mb-8">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-white mb-1">
+                    {vesting.token.name} ({vesting.token.symbol})
+                  </h2>
+                  <div className="flex items-center space-x-2 text-sm text-gray-400">
+                    <span className="font-mono break-all">{vesting.vestingAddress}</span>
+                    <button onClick={copyLink} className="p-1 text-gray-400 hover:text-white transition-colors" title="Copy claim link">
+                      <Copy className="w-3 h-3" />
+                    </button>
+                    {copied && <span className="text-green-400 text-xs">Link copied!</span>}
+                  </div>
+                </div>
+
+                {!isConnected ? (
+                  <p className="text-gray-300 text-sm">Connect your wallet to claim your tokens</p>
+                ) : isWrongNetwork ? (
+                  <button
+                    onClick={() => switchToNetwork(vesting.chainId!)}
+                    className="bg-amber-500/20 border border-amber-500/50 text-amber-300 px-4 py-2 rounded-lg text-sm font-medium"
+                  >
+                    Switch to {findNetwork(vesting.chainId!, networks)?.name} to claim
+                  </button>
+                ) : mySchedules.length === 0 ? (
+                  <p className="text-gray-300 text-sm">Your wallet has no schedules in this contract</p>
+                ) : (
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      <div className="text-gray-300 text-sm">Claimable now</div>
+                      <div className="text-white text-lg font-semibold">
+                        {formatAmount(claimableTotal)} {vesting.token.symbol}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleClaim()}
+                      disabled={claimable.length === 0 || claiming !== null}
+                      className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {claiming === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gift className="w-4 h-4" />}
+                      <span>{claimable.length > 1 ? 'Claim All' : 'Claim'}</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Chart */}
+            {shownSchedules.length > 0 && (
+              <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10 mb-8">
+                <h2 className="text-xl font-semibold text-white mb-4">
+                  Vested Over Time{shownSchedules === mySchedules ? ' (your schedules)' : ''}
+                </h2>
+                <VestingChart schedules={shownSchedules} symbol={vesting.token.symbol} />
+                {shownSchedules.some(schedule => schedule.revoked) && (
+                  <p className="text-gray-400 text-xs mt-3">
+                    Revoked schedules stay at the amount they had released when they were revoked.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Schedules */}
+            <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-white">
+                  {shownSchedules === mySchedules ? 'Your Schedules' : 'All Schedules'}
+                </h2>
+                {mySchedules.length > 0 && mySchedules.length < vesting.schedules.length && (
+                  <button
+                    onClick={() => setShowAll(!showAll)}
+                    className="text-blue-400 hover:text-blue-300 text-sm font-medium transition-colors"
+                  >
+                    {showAll ? 'Show only mine' : `Show all ${vesting.schedules.length}`}
+                  </button>
+                )}
+              </div>
+
+              {shownSchedules.length === 0 ? (
+                <div className="text-center py-12">
+                  <Clock className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-white mb-2">No Vesting Schedules</h3>
+                  <p className="text-gray-300">No schedules have been created in this contract yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {shownSchedules.map(schedule => {
+                    const status = getScheduleStatus(schedule, now);
+                    const isMine = mySchedules.includes(schedule);
+                    const forfeited = parseFloat(schedule.totalAmount) - parseFloat(schedule.releasedAmount);
+
+                    return (
+                      <div
+                        key={schedule.id}
+                        className={`p-6 rounded-xl border ${
+                          schedule.revoked
+                            ? 'bg-gray-500/20 border-gray-500/50'
+                            : isMine
+                            ? 'bg-blue-500/20 border-blue-500/50'
+                            : 'bg-white/5 border-white/10'
+                        }`}
+                      >
+                        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                          <div className="flex-1">
+                            <div className="flex items-center space-x-2 mb-3">
+                              <Users className="w-4 h-4 text-blue-400" />
+                              <span className="text-white font-medium">
+                                {isMine ? 'You' : `${schedule.beneficiary.slice(0, 6)}...${schedule.beneficiary.slice(-4)}`}
+                              </span>
+                              <span className="text-gray-400 text-xs">#{schedule.id}</span>
+                              <span className={`px-2 py-1 rounded-full text-xs ${status.className}`}>{status.label}</span>
+                              {!schedule.revocable && (
+                                <span className="px-2 py-1 bg-gray-500/20 text-gray-300 rounded-full text-xs">
+                                  Irrevocable
+                                </span>
+                              )}
+                            </div>
+
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                              <div>
+                                <div className="text-gray-300">Total</div>
+                                <div className="text-white font-medium">{formatAmount(schedule.totalAmount)} {vesting.token.symbol}</div>
+                              </div>
+                              <div>
+                                <div className="text-gray-300">Vested</div>
+                                <div className="text-white font-medium">{formatAmount(schedule.vestedAmount)} {vesting.token.symbol}</div>
+                              </div>
+                              <div>
+                                <div className="text-gray-300">Claimed</div>
+                                <div className="text-white font-medium">{formatAmount(schedule.releasedAmount)} {vesting.token.symbol}</div>
+                              </div>
+                              <div>
+                                <div className="text-gray-300">Claimable</div>
+                                <div className="text-white font-medium">{formatAmount(schedule.releasableAmount)} {vesting.token.symbol}</div>
+                              </div>
+                            </div>
+
+                            <div className="text-xs text-gray-400 mt-3">
+                              {formatDate(schedule.startTime)} to {formatDate(schedule.startTime + schedule.duration)}
+                              {parseFloat(schedule.tgeAmount) > 0 && ` · ${formatAmount(schedule.tgeAmount)} at start`}
+                              {schedule.cliffDuration > 0 && ` · ${Math.floor(schedule.cliffDuration / SECONDS_PER_DAY)}-day cliff`}
+                              {` · ${getUnlockIntervalLabel(schedule.slicePeriod)} unlocks`}
+                            </div>
+
+                            {schedule.revoked && (
+                              <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                                <p className="text-red-300 text-sm">
+                                  Revoked by the vesting owner. The {formatAmount(schedule.releasedAmount)} {vesting.token.symbol} vested
+                                  until then went to the beneficiary and the remaining {formatAmount(forfeited)} {vesting.token.symbol} returned
+                                  to the owner, so nothing more can be claimed.
+                                </p>
+                              </div>
+                            )}
+                          </div>
+
+                          {isMine && !schedule.revoked && !isWrongNetwork && (
+                            <button
+                              onClick={() => handleClaim(schedule)}
+                              disabled={parseFloat(schedule.releasableAmount) === 0 || claiming !== null}
+                              className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {claiming === schedule.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                              <span>Claim</span>
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,8 @@
 import React, { useState } from 'react';
-import { ArrowLeft, ArrowRight, Plus, Trash2, Calendar, Clock, Percent } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Plus, Trash2, Calendar, Clock, Percent, User } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
 import { TokenConfig, VestingConfig } from '../types';
-import { vestingCategories } from '../data/vestingCategories';
+import { vestingCategories, vestingUnlockIntervals } from '../data/vestingCategories';
 
 interface VestingConfigurationProps {
   config: TokenConfig;
@@ -56,6 +56,18 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
         if (vest.duration <= 0) {
           newErrors[`duration_${index}`] = 'Duration must be at least 1 day';
         }
+        if ((vest.cliff || 0) > vest.duration) {
+          newErrors[`cliff_${index}`] = 'Cliff cannot be longer than the duration';
+        }
+        if ((vest.unlockInterval || 0) > vest.duration) {
+          newErrors[`unlockInterval_${index}`] = 'Unlock interval cannot be longer than the duration';
+        }
+        if ((vest.tgePercentage || 0) < 0 || (vest.tgePercentage || 0) > 100) {
+          newErrors[`tgePercentage_${index}`] = 'TGE unlock must be between 0 and 100%';
+        }
+        if (!/^0x[a-fA-F0-9]{40}$/.test(vest.beneficiary || '')) {
+          newErrors[`beneficiary_${index}`] = 'Please enter a valid beneficiary address';
+        }
         // Check if start date is in the past
         if (vest.startDate && new Date(vest.startDate) <= new Date()) {
           newErrors[`startDate_${index}`] = 'Start date must be in the future';
@@ -222,7 +234,7 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
                       <div>
                         <label className="block text-sm font-medium text-gray-300 mb-2">
                           <Clock className="w-4 h-4 inline mr-1" />
-                          Duration (days)
+                          Duration (days, including cliff)
                         </label>
                         <input
                           type="number"
@@ -238,6 +250,89 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
                           {formatDate(vest.duration)}
                         </div>
                       </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          <Percent className="w-4 h-4 inline mr-1" />
+                          TGE Unlock (%)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={vest.tgePercentage || 0}
+                          onChange={(e) => updateVesting(index, { tgePercentage: parseFloat(e.target.value) || 0 })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {errors[`tgePercentage_${index}`] && (
+                          <p className="text-red-400 text-sm mt-1">{errors[`tgePercentage_${index}`]}</p>
+                        )}
+                      </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          <Clock className="w-4 h-4 inline mr-1" />
+                          Cliff (days)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={vest.cliff || 0}
+                          onChange={(e) => updateVesting(index, { cliff: parseInt(e.target.value) || 0 })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {errors[`cliff_${index}`] && (
+                          <p className="text-red-400 text-sm mt-1">{errors[`cliff_${index}`]}</p>
+                        )}
+                      </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          <Calendar className="w-4 h-4 inline mr-1" />
+                          Unlock Interval
+                        </label>
+                        <select
+                          value={vest.unlockInterval || 0}
+                          onChange={(e) => updateVesting(index, { unlockInterval: parseInt(e.target.value) })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {vestingUnlockIntervals.map(interval => (
+                            <option key={interval.days} value={interval.days} className="bg-gray-800">
+                              {interval.label}
+                            </option>
+                          ))}
+                        </select>
+                        {errors[`unlockInterval_${index}`] && (
+                          <p className="text-red-400 text-sm mt-1">{errors[`unlockInterval_${index}`]}</p>
+                        )}
+                      </div>
+                      
+                      <div className="md:col-span-3">
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          <User className="w-4 h-4 inline mr-1" />
+                          Beneficiary Address
+                        </label>
+                        <input
+                          type="text"
+                          value={vest.beneficiary || ''}
+                          onChange={(e) => updateVesting(index, { beneficiary: e.target.value.trim() })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="0x... (receives the tokens as they vest)"
+                        />
+                        {errors[`beneficiary_${index}`] && (
+                          <p className="text-red-400 text-sm mt-1">{errors[`beneficiary_${index}`]}</p>
+                        )}
+                        <label className="flex items-center space-x-2 text-sm text-gray-300 mt-3">
+                          <input
+                            type="checkbox"
+                            checked={vest.revocable ?? true}
+                            onChange={(e) => updateVesting(index, { revocable: e.target.checked })}
+                            className="w-4 h-4 text-blue-500 bg-white/10 border-white/20 rounded focus:ring-blue-500"
+                          />
+                          <span>Revocable (unvested tokens can be returned to the vesting owner)</span>
+                        </label>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -252,7 +347,9 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
           <p className="text-blue-300 text-sm">
             Vesting schedules lock tokens for a specified period, releasing them gradually over time. 
             This helps prevent token dumps and ensures long-term commitment from team members and investors.
-            Tokens are released linearly over the specified duration starting from the start date.
+            A share can unlock at the start date (TGE); the rest stays locked until the cliff ends and then unlocks
+            at each interval until the duration has passed.
+            Each allocation is held by a vesting contract deployed with the token, and its beneficiary claims tokens as they vest.
           </p>
         </div>
 
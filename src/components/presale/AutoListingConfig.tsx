@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Zap, Info, AlertTriangle } from 'lucide-react';
 import { PresaleConfig } from '../../types/presale';
+import { DEX_ROUTERS, getAutoLiquidityAddress } from '../../config/constants';
+import { getListingTokenAmount } from '../../services/presalePayments';
 
 interface AutoListingConfigProps {
   config: PresaleConfig;
@@ -12,11 +14,19 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
   const [autoListingConfig, setAutoListingConfig] = useState(config.autoListingConfig || {
     enabled: false,
     listingPrice: config.saleConfiguration.tokenPrice || '1000',
-    lpTokenPercentage: 70,
     lpBaseTokenPercentage: 70,
     lockDuration: 180 // 180 days
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // AutoLiquidity pairs the token with the sale's payment token, so native currency sales cannot list
+  const paymentToken = config.saleConfiguration.paymentToken;
+  const liquidityAddress = getAutoLiquidityAddress(config.network.chainId);
+  const unavailableReason = !paymentToken
+    ? `Auto-listing pairs your token with the sale's payment currency, which must be an ERC-20 token. Choose a payment currency such as USDT in the sale configuration to list automatically.`
+    : !liquidityAddress
+    ? `Auto-listing is not available on ${config.network.name} yet.`
+    : null;
+  const listingTokens = getListingTokenAmount({ ...config, autoListingConfig });
 
   const updateConfig = (updates: Partial<typeof autoListingConfig>) => {
     setAutoListingConfig(prev => ({ ...prev, ...updates }));
@@ -30,10 +40,6 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
         newErrors.listingPrice = 'Listing price must be greater than 0';
       }
 
-      if (autoListingConfig.lpTokenPercentage < 10 || autoListingConfig.lpTokenPercentage > 100) {
-        newErrors.lpTokenPercentage = 'Token percentage must be between 10% and 100%';
-      }
-
       if (autoListingConfig.lpBaseTokenPercentage < 10 || autoListingConfig.lpBaseTokenPercentage > 100) {
         newErrors.lpBaseTokenPercentage = 'Base token percentage must be between 10% and 100%';
       }
@@ -48,8 +54,16 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
   };
 
   const handleNext = () => {
-    if (validateForm()) {
-      onNext({ autoListingConfig });
+    if (unavailableReason) {
+      onNext({ autoListingConfig: { ...autoListingConfig, enabled: false } });
+    } else if (validateForm()) {
+      onNext({
+        autoListingConfig: {
+          ...autoListingConfig,
+          liquidityAddress,
+          router: DEX_ROUTERS[config.network.chainId] || ''
+        }
+      });
     }
   };
 
@@ -73,7 +87,8 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
             <input
               type="checkbox"
               id="autoListingEnabled"
-              checked={autoListingConfig.enabled}
+              checked={autoListingConfig.enabled && !unavailableReason}
+              disabled={!!unavailableReason}
               onChange={(e) => updateConfig({ enabled: e.target.checked })}
               className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
             />
@@ -88,17 +103,24 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
           Automatically create a trading pair and add liquidity on DEX after the presale ends successfully.
           This ensures immediate trading capability for participants.
         </p>
+
+        {unavailableReason && (
+          <div className="mt-4 p-3 bg-blue-500/20 rounded-lg flex items-start space-x-2">
+            <Info className="w-4 h-4 text-blue-400 mt-0.5 flex-shrink-0" />
+            <p className="text-blue-300 text-sm">{unavailableReason}</p>
+          </div>
+        )}
       </div>
 
       {/* Auto-Listing Configuration */}
-      {autoListingConfig.enabled && (
+      {autoListingConfig.enabled && !unavailableReason && (
         <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
           <h3 className="text-lg font-semibold text-white mb-4">Listing Parameters</h3>
           
           <div className="grid md:grid-cols-2 gap-6">
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Listing Price (tokens per {config.network.symbol})
+                Listing Price (tokens per {paymentToken?.symbol})
               </label>
               <input
                 type="number"
@@ -141,39 +163,32 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
           <div className="grid md:grid-cols-2 gap-6 mt-6">
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                LP Token Percentage (%)
+                Raise Paired in Liquidity (%)
               </label>
               <input
                 type="number"
                 min="10"
                 max="100"
-                value={autoListingConfig.lpTokenPercentage}
-                onChange={(e) => updateConfig({ lpTokenPercentage: parseInt(e.target.value) })}
+                value={autoListingConfig.lpBaseTokenPercentage}
+                onChange={(e) => updateConfig({ lpBaseTokenPercentage: parseInt(e.target.value) })}
                 className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 placeholder="e.g., 70"
               />
-              {errors.lpTokenPercentage && <p className="text-red-400 text-sm mt-1">{errors.lpTokenPercentage}</p>}
+              {errors.lpBaseTokenPercentage && <p className="text-red-400 text-sm mt-1">{errors.lpBaseTokenPercentage}</p>}
               <p className="text-gray-400 text-xs mt-1">
-                Percentage of unsold tokens to add to liquidity
+                Percentage of the raised {paymentToken?.symbol} added to liquidity; the rest goes to the sale receiver
               </p>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                LP Base Token Percentage (%)
+                Tokens for Liquidity at Hard Cap
               </label>
-              <input
-                type="number"
-                min="10"
-                max="100"
-                value={autoListingConfig.lpBaseTokenPercentage}
-                onChange={(e) => updateConfig({ lpBaseTokenPercentage: parseInt(e.target.value) })}
-                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="e.g., 70"
-              />
-              {errors.lpBaseTokenPercentage && <p className="text-red-400 text-sm mt-1">{errors.lpBaseTokenPercentage}</p>}
+              <div className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white">
+                {listingTokens.toLocaleString()} {config.tokenInfo.tokenSymbol}
+              </div>
               <p className="text-gray-400 text-xs mt-1">
-                Percentage of raised funds to add to liquidity
+                Send these to the sale contract with the tokens sold before finalizing; unused ones are returned
               </p>
             </div>
           </div>
@@ -182,14 +197,14 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
           <div className="mt-6 p-4 bg-blue-500/20 rounded-lg">
             <h4 className="font-medium text-blue-400 mb-2">Liquidity Preview</h4>
             <p className="text-blue-300 text-sm">
-              After the presale ends, {autoListingConfig.lpBaseTokenPercentage}% of raised {config.network.symbol} and {autoListingConfig.lpTokenPercentage}% of unsold tokens will be used to create a liquidity pool. The LP tokens will be locked for {formatDuration(autoListingConfig.lockDuration)}.
+              When a successful presale is finalized, {autoListingConfig.lpBaseTokenPercentage}% of the raised {paymentToken?.symbol} is paired with {config.tokenInfo.tokenSymbol} at {autoListingConfig.listingPrice} {config.tokenInfo.tokenSymbol} per {paymentToken?.symbol} to create a liquidity pool. The LP tokens will be locked in the sale contract for {formatDuration(autoListingConfig.lockDuration)}.
             </p>
           </div>
         </div>
       )}
 
       {/* Warning */}
-      {autoListingConfig.enabled && (
+      {autoListingConfig.enabled && !unavailableReason && (
         <div className="bg-amber-500/20 border border-amber-500/50 rounded-xl p-6">
           <div className="flex items-start space-x-3">
             <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
@@ -1,13 +1,16 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, CheckCircle, AlertTriangle, Clock, DollarSign, Users, Shield } from 'lucide-react';
 import { PresaleConfig, PresaleDeploymentResult } from '../../types/presale';
+import { DeploymentJob } from '../../types';
 import { ESRBalanceCheck } from '../ESRBalanceCheck';
 import { NetworkMismatchModal } from '../NetworkMismatchModal';
 import { NetworkSelector } from '../NetworkSelector';
+import { DeploymentJobTracker } from '../DeploymentJobTracker';
 import { contractService } from '../../services/contractService';
 import { useNetworkMode } from '../../hooks/useNetworkMode';
 import { useWallet } from '../../hooks/useWallet';
 import { web3Service } from '../../services/web3Service';
+import { getListingTokenAmount, getPaymentSymbol } from '../../services/presalePayments';
 
 interface PresaleReviewStepProps {
   config: PresaleConfig;
@@ -23,6 +26,7 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
   const [hasEnoughESR, setHasEnoughESR] = useState(false);
   const [isEstimating, setIsEstimating] = useState(true);
   const [deploymentError, setDeploymentError] = useState<string | null>(null);
+  const [deploymentJob, setDeploymentJob] = useState<DeploymentJob | null>(null);
   const [gasEstimate, setGasEstimate] = useState({
     amount: '0.045',
     usd: '$95',
@@ -30,6 +34,7 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
   });
   const [showNetworkModal, setShowNetworkModal] = useState(false);
   const [showAutoListingPreview, setShowAutoListingPreview] = useState(false);
+  const paymentSymbol = getPaymentSymbol(config);
 
   // Fetch real gas estimate on component mount
   useEffect(() => {
@@ -117,10 +122,14 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
     
     setIsDeploying(true);
     setDeploymentError(null);
+    setDeploymentJob(null);
     
     try {
-      // Deploy presale contract using contractService
-      const deploymentResult = await contractService.deployPresale(config);
+      // Deploy presale contract using contractService; the server queues it and reports each stage
+      const deploymentResult = await contractService.deployPresale(config, {
+        idempotencyKey: crypto.randomUUID(),
+        onJobUpdate: setDeploymentJob
+      });
       
       // Add sale page URL to result
       const result: PresaleDeploymentResult = {
@@ -212,22 +221,22 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
             <div className="grid md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Soft Cap</label>
-                <div className="text-white font-medium">{config.saleConfiguration.softCap} {config.network.symbol}</div>
+                <div className="text-white font-medium">{config.saleConfiguration.softCap} {paymentSymbol}</div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Hard Cap</label>
-                <div className="text-white font-medium">{config.saleConfiguration.hardCap} {config.network.symbol}</div>
+                <div className="text-white font-medium">{config.saleConfiguration.hardCap} {paymentSymbol}</div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Token Price</label>
                 <div className="text-white font-medium">
-                  {config.saleConfiguration.tokenPrice} {config.tokenInfo.tokenSymbol} per {config.network.symbol}
+                  {config.saleConfiguration.tokenPrice} {config.tokenInfo.tokenSymbol} per {paymentSymbol}
                 </div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Purchase Limits</label>
                 <div className="text-white font-medium">
-                  {config.saleConfiguration.minPurchase} - {config.saleConfiguration.maxPurchase} {config.network.symbol}
+                  {config.saleConfiguration.minPurchase} - {config.saleConfiguration.maxPurchase} {paymentSymbol}
                 </div>
               </div>
               <div>
@@ -308,6 +317,14 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
             onBalanceChange={setHasEnoughESR}
           />
 
+          {/* Deployment Progress */}
+          {deploymentJob && (
+            <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+              <h3 className="text-xl font-semibold text-white mb-4">Deployment Progress</h3>
+              <DeploymentJobTracker job={deploymentJob} explorerUrl={config.network.explorerUrl} />
+            </div>
+          )}
+
           {/* Terms */}
           <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
             <h3 className="text-xl font-semibold text-white mb-4">Terms & Conditions</h3>
@@ -385,16 +402,18 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
                   <div className="flex justify-between">
                     <span className="text-gray-300">Listing Price</span>
                     <span className="text-white font-medium">
-                      {config.autoListingConfig.listingPrice} {config.tokenInfo.tokenSymbol} per {config.network.symbol}
+                      {config.autoListingConfig.listingPrice} {config.tokenInfo.tokenSymbol} per {paymentSymbol}
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-300">LP Token %</span>
-                    <span className="text-white font-medium">{config.autoListingConfig.lpTokenPercentage}%</span>
+                    <span className="text-gray-300">Raise Paired in LP</span>
+                    <span className="text-white font-medium">{config.autoListingConfig.lpBaseTokenPercentage}% of {paymentSymbol}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-300">LP Base Token %</span>
-                    <span className="text-white font-medium">{config.autoListingConfig.lpBaseTokenPercentage}%</span>
+                    <span className="text-gray-300">Tokens for LP at Hard Cap</span>
+                    <span className="text-white font-medium">
+                      {getListingTokenAmount(config).toLocaleString()} {config.tokenInfo.tokenSymbol}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-300">Lock Duration</span>
@@ -406,7 +425,7 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
                   <div className="flex items-center space-x-2">
                     <CheckCircle className="w-4 h-4 text-green-400" />
                     <span className="text-green-400 text-sm">
-                      Auto-listing will be triggered after successful presale
+                      Auto-listing will be triggered when a successful presale is finalized
                     </span>
                   </div>
                 </div>
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Calendar, Clock, DollarSign, Users, AlertCircle, Info } from 'lucide-react';
 import { PresaleConfig } from '../../types/presale';
+import { paymentTokens } from '../../data/paymentTokens';
+import { getPaymentToken } from '../../services/presalePayments';
 
 interface SaleConfigStepProps {
   config: PresaleConfig;
@@ -11,11 +13,48 @@ interface SaleConfigStepProps {
 export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext, onBack }) => {
   const [saleConfig, setSaleConfig] = useState(config.saleConfiguration);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const knownPaymentTokens = paymentTokens[config.network.chainId] || [];
+  const [paymentChoice, setPaymentChoice] = useState(() => {
+    const paymentToken = config.saleConfiguration.paymentToken;
+    if (!paymentToken) return 'native';
+    return knownPaymentTokens.some(token => token.address === paymentToken.address) ? paymentToken.address : 'custom';
+  });
+  const [customPaymentAddress, setCustomPaymentAddress] = useState(
+    paymentChoice === 'custom' ? config.saleConfiguration.paymentToken?.address || '' : ''
+  );
+  const [isLoadingPaymentToken, setIsLoadingPaymentToken] = useState(false);
+  const paymentSymbol = saleConfig.paymentToken?.symbol || config.network.symbol;
 
   const updateConfig = (updates: Partial<typeof saleConfig>) => {
     setSaleConfig(prev => ({ ...prev, ...updates }));
   };
 
+  const selectPaymentCurrency = (choice: string) => {
+    setPaymentChoice(choice);
+    setErrors(prev => ({ ...prev, paymentToken: '' }));
+    updateConfig({
+      paymentToken: choice === 'native' || choice === 'custom'
+        ? undefined
+        : knownPaymentTokens.find(token => token.address === choice)
+    });
+  };
+
+  const loadCustomPaymentToken = async (address: string) => {
+    setCustomPaymentAddress(address);
+    updateConfig({ paymentToken: undefined });
+    if (!address) return;
+
+    setIsLoadingPaymentToken(true);
+    try {
+      updateConfig({ paymentToken: await getPaymentToken(address, config.network) });
+      setErrors(prev => ({ ...prev, paymentToken: '' }));
+    } catch (error) {
+      setErrors(prev => ({ ...prev, paymentToken: (error as Error).message }));
+    } finally {
+      setIsLoadingPaymentToken(false);
+    }
+  };
+
   const getTomorrowDate = () => {
     const tomorrow = new Date();
     tomorrow.setDate(tomorrow.getDate() + 1);
@@ -37,6 +76,10 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
       newErrors.saleName = 'Please enter a name for your sale';
     }
 
+    if (paymentChoice === 'custom' && !saleConfig.paymentToken) {
+      newErrors.paymentToken = errors.paymentToken || 'Please enter the payment token address';
+    }
+
     if (!saleConfig.softCap || parseFloat(saleConfig.softCap) <= 0) {
       newErrors.softCap = 'Soft cap must be greater than 0';
     }
@@ -132,9 +175,42 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
             {errors.saleName && <p className="text-red-400 text-sm mt-1">{errors.saleName}</p>}
           </div>
 
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Payment Currency
+            </label>
+            <select
+              value={paymentChoice}
+              onChange={(e) => selectPaymentCurrency(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="native" className="bg-gray-800">{config.network.symbol} (native)</option>
+              {knownPaymentTokens.map(token => (
+                <option key={token.address} value={token.address} className="bg-gray-800">{token.symbol}</option>
+              ))}
+              <option value="custom" className="bg-gray-800">Other ERC-20 token</option>
+            </select>
+            {paymentChoice === 'custom' && (
+              <input
+                type="text"
+                value={customPaymentAddress}
+                onChange={(e) => loadCustomPaymentToken(e.target.value.trim())}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 mt-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                placeholder="Token address (0x...)"
+              />
+            )}
+            {isLoadingPaymentToken && <p className="text-gray-400 text-sm mt-1">Reading token...</p>}
+            {errors.paymentToken && <p className="text-red-400 text-sm mt-1">{errors.paymentToken}</p>}
+            <p className="text-gray-400 text-xs mt-1">
+              {saleConfig.paymentToken
+                ? `Buyers approve ${saleConfig.paymentToken.symbol} before buying; caps, limits and refunds are in ${saleConfig.paymentToken.symbol}. Tokens that charge transfer fees cannot be used.`
+                : `Buyers pay in ${paymentSymbol}. Auto-listing needs an ERC-20 payment currency.`}
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Soft Cap ({config.network.symbol})
+              Soft Cap ({paymentSymbol})
             </label>
             <input
               type="number"
@@ -149,7 +225,7 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
 
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Hard Cap ({config.network.symbol})
+              Hard Cap ({paymentSymbol})
             </label>
             <input
               type="number"
@@ -171,7 +247,7 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
         <div className="grid md:grid-cols-3 gap-6">
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Token Price (tokens per 1 {config.network.symbol})
+              Token Price (tokens per 1 {paymentSymbol})
             </label>
             <input
               type="number"
@@ -186,7 +262,7 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
 
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Min Purchase ({config.network.symbol})
+              Min Purchase ({paymentSymbol})
             </label>
             <input
               type="number"
@@ -201,7 +277,7 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
 
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Max Purchase ({config.network.symbol})
+              Max Purchase ({paymentSymbol})
             </label>
             <input
               type="number"
@@ -221,12 +297,12 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
             <h4 className="font-medium text-blue-400 mb-2">Price Calculator</h4>
             <div className="grid md:grid-cols-2 gap-4 text-sm">
               <div className="flex justify-between">
-                <span className="text-blue-300">1 {config.network.symbol} =</span>
+                <span className="text-blue-300">1 {paymentSymbol} =</span>
                 <span className="text-white font-medium">{saleConfig.tokenPrice} {config.tokenInfo.tokenSymbol}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-blue-300">1 {config.tokenInfo.tokenSymbol} =</span>
-                <span className="text-white font-medium">{(1 / parseFloat(saleConfig.tokenPrice)).toFixed(6)} {config.network.symbol}</span>
+                <span className="text-white font-medium">{(1 / parseFloat(saleConfig.tokenPrice)).toFixed(6)} {paymentSymbol}</span>
               </div>
             </div>
           </div>
@@ -311,11 +387,11 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
           <div className="space-y-3">
             <div className="flex justify-between">
               <span className="text-gray-300">Soft Cap:</span>
-              <span className="text-white font-medium">{saleConfig.softCap} {config.network.symbol}</span>
+              <span className="text-white font-medium">{saleConfig.softCap} {paymentSymbol}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Hard Cap:</span>
-              <span className="text-white font-medium">{saleConfig.hardCap} {config.network.symbol}</span>
+              <span className="text-white font-medium">{saleConfig.hardCap} {paymentSymbol}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Tokens at Soft Cap:</span>
@@ -330,11 +406,11 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
           <div className="space-y-3">
             <div className="flex justify-between">
               <span className="text-gray-300">Min Purchase:</span>
-              <span className="text-white font-medium">{saleConfig.minPurchase} {config.network.symbol}</span>
+              <span className="text-white font-medium">{saleConfig.minPurchase} {paymentSymbol}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Max Purchase:</span>
-              <span className="text-white font-medium">{saleConfig.maxPurchase} {config.network.symbol}</span>
+              <span className="text-white font-medium">{saleConfig.maxPurchase} {paymentSymbol}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Sale Duration:</span>
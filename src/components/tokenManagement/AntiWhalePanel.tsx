@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { Gauge, AlertTriangle, CheckCircle, Loader2, Settings, Play, Search } from 'lucide-react';
+import { TokenManagementData } from '../../types/tokenManagement';
+
+interface AntiWhalePanelProps {
+  tokenData: TokenManagementData;
+  isOwner: boolean;
+  onEnableTrading: () => Promise<string>;
+  onUpdateLimits: (maxTransactionAmount: string, maxWalletAmount: string) => Promise<string>;
+  onSetExemption: (account: string, exempt: boolean) => Promise<string>;
+  onSetSniper: (account: string, flagged: boolean) => Promise<string>;
+  onSetPair: (pair: string, value: boolean) => Promise<string>;
+  getLimitStatus: (account: string) => Promise<{ exempt: boolean; sniper: boolean; pair: boolean }>;
+}
+
+export const AntiWhalePanel: React.FC<AntiWhalePanelProps> = ({
+  tokenData,
+  isOwner,
+  onEnableTrading,
+  onUpdateLimits,
+  onSetExemption,
+  onSetSniper,
+  onSetPair,
+  getLimitStatus
+}) => {
+  const antiWhale = tokenData.features.antiWhale!;
+  const [newMaxTransaction, setNewMaxTransaction] = useState(antiWhale.maxTransactionAmount);
+  const [newMaxWallet, setNewMaxWallet] = useState(antiWhale.maxWalletAmount);
+  const [account, setAccount] = useState('');
+  const [accountStatus, setAccountStatus] = useState<{ exempt: boolean; sniper: boolean; pair: boolean } | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isValidAddress = (address: string) => {
+    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  };
+
+  // The contract rejects non-zero limits below 0.1% of the total supply
+  const minimumLimit = parseFloat(tokenData.totalSupply) / 1000;
+
+  const isValidLimit = (value: string) => {
+    const amount = parseFloat(value);
+    return !isNaN(amount) && (amount === 0 || amount >= minimumLimit);
+  };
+
+  const formatLimit = (value: string) => {
+    return parseFloat(value) === 0 ? 'No limit' : `${parseFloat(value).toLocaleString()} ${tokenData.symbol}`;
+  };
+
+  const runAction = async (action: string, send: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+
+    try {
+      const hash = await send();
+      setTxHash(hash);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleLookup = () => runAction('lookup', async () => {
+    setAccountStatus(await getLimitStatus(account));
+    return '';
+  });
+
+  const handleToggle = (action: 'exempt' | 'sniper' | 'pair') => runAction(action, async () => {
+    const hash = action === 'exempt'
+      ? await onSetExemption(account, !accountStatus?.exempt)
+      : action === 'sniper'
+        ? await onSetSniper(account, !accountStatus?.sniper)
+        : await onSetPair(account, !accountStatus?.pair);
+    setAccountStatus(await getLimitStatus(account));
+    return hash;
+  });
+
+  const canUpdateLimits = () => {
+    if (!isValidLimit(newMaxTransaction) || !isValidLimit(newMaxWallet)) return false;
+
+    // Check if anything changed
+    return newMaxTransaction !== antiWhale.maxTransactionAmount || newMaxWallet !== antiWhale.maxWalletAmount;
+  };
+
+  const currentSettings = (
+    <div className="grid md:grid-cols-3 gap-4 mb-6">
+      <div className="bg-white/5 rounded-lg p-4">
+        <div className="text-sm text-gray-300">Trading</div>
+        <div className={`text-2xl font-bold ${antiWhale.tradingEnabled ? 'text-green-400' : 'text-amber-400'}`}>
+          {antiWhale.tradingEnabled ? 'Enabled' : 'Disabled'}
+        </div>
+        {antiWhale.tradingEnabled && (
+          <div className="text-xs text-gray-400">Since block {antiWhale.tradingEnabledBlock}</div>
+        )}
+      </div>
+      <div className="bg-white/5 rounded-lg p-4">
+        <div className="text-sm text-gray-300">Max Transaction</div>
+        <div className="text-white font-medium">{formatLimit(antiWhale.maxTransactionAmount)}</div>
+      </div>
+      <div className="bg-white/5 rounded-lg p-4">
+        <div className="text-sm text-gray-300">Max Wallet</div>
+        <div className="text-white font-medium">{formatLimit(antiWhale.maxWalletAmount)}</div>
+      </div>
+    </div>
+  );
+
+  if (!isOwner) {
+    return (
+      <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+        <div className="flex items-center space-x-3 mb-4">
+          <Gauge className="w-6 h-6 text-blue-400" />
+          <h3 className="text-xl font-semibold text-white">Trading Limits</h3>
+        </div>
+
+        {currentSettings}
+
+        <div className="bg-amber-500/20 border border-amber-500/50 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-amber-400 mb-1">Owner Only</h4>
+              <p className="text-amber-300 text-sm">
+                Only the contract owner can enable trading or modify trading limits.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <Gauge className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">Trading Limit Management</h3>
+      </div>
+
+      {/* Current Settings */}
+      {currentSettings}
+
+      {/* Launch */}
+      {!antiWhale.tradingEnabled && (
+        <div className="mb-6">
+          <button
+            onClick={() => runAction('enable', onEnableTrading)}
+            disabled={pendingAction !== null}
+            className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {pendingAction === 'enable' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            <span>Enable Trading</span>
+          </button>
+          <p className="text-gray-400 text-sm mt-2">
+            Buyers in the first {antiWhale.launchProtectionBlocks} blocks after enabling are flagged as snipers.
+            This cannot be undone.
+          </p>
+        </div>
+      )}
+
+      {/* Update Form */}
+      <div className="space-y-4 mb-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Max Transaction ({tokenData.symbol}, 0 = no limit)
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={newMaxTransaction}
+              onChange={(e) => setNewMaxTransaction(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {!isValidLimit(newMaxTransaction) && (
+              <p className="text-red-400 text-sm mt-1">Must be 0 or at least {minimumLimit.toLocaleString()}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Max Wallet ({tokenData.symbol}, 0 = no limit)
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={newMaxWallet}
+              onChange={(e) => setNewMaxWallet(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {!isValidLimit(newMaxWallet) && (
+              <p className="text-red-400 text-sm mt-1">Must be 0 or at least {minimumLimit.toLocaleString()}</p>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={() => runAction('limits', () => onUpdateLimits(newMaxTransaction, newMaxWallet))}
+          disabled={!canUpdateLimits() || pendingAction !== null}
+          className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {pendingAction === 'limits' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Settings className="w-4 h-4" />}
+          <span>{pendingAction === 'limits' ? 'Updating...' : 'Update Limits'}</span>
+        </button>
+      </div>
+
+      {/* Address Controls */}
+      <div className="space-y-4">
+        <label className="block text-sm font-medium text-gray-300">
+          {tokenData.features.taxes ? 'Exemptions & Sniper Flags' : 'Exemptions, Sniper Flags & AMM Pairs'}
+        </label>
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            value={account}
+            onChange={(e) => {
+              setAccount(e.target.value);
+              setAccountStatus(null);
+            }}
+            className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="0x... wallet, pair or contract address"
+          />
+          <button
+            onClick={handleLookup}
+            disabled={!isValidAddress(account) || pendingAction !== null}
+            className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            {pendingAction === 'lookup' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            <span>Check</span>
+          </button>
+        </div>
+
+        {accountStatus && (
+          <div className={`grid gap-4 ${tokenData.features.taxes ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
+            <button
+              onClick={() => handleToggle('exempt')}
+              disabled={pendingAction !== null}
+              className="bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {pendingAction === 'exempt' && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{accountStatus.exempt ? 'Remove Exemption' : 'Exempt From Limits'}</span>
+            </button>
+            <button
+              onClick={() => handleToggle('sniper')}
+              disabled={pendingAction !== null}
+              className="bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {pendingAction === 'sniper' && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{accountStatus.sniper ? 'Clear Sniper Flag' : 'Flag as Sniper'}</span>
+            </button>
+            {/* Tokens with taxes manage their pairs in the fee panel */}
+            {!tokenData.features.taxes && (
+              <button
+                onClick={() => handleToggle('pair')}
+                disabled={pendingAction !== null}
+                className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                {pendingAction === 'pair' && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>{accountStatus.pair ? 'Remove AMM Pair' : 'Register AMM Pair'}</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Trading Limits Updated</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Update Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Warning */}
+      <div className="mt-6 p-4 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+          <div>
+            <h4 className="font-medium text-amber-400 mb-1">Important</h4>
+            {tokenData.features.taxes ? (
+              <p className="text-amber-300 text-sm">
+                The token's DEX pair is exempt from the limits, and AMM pairs are never held to the max wallet
+                limit or flagged as snipers. Register other pools as AMM pairs before enabling trading.
+              </p>
+            ) : (
+              <p className="text-amber-300 text-sm">
+                Register your DEX pairs as AMM pairs and exempt the router before enabling trading, otherwise the
+                max wallet limit applies to the pool and blocks sells once it fills up. AMM pairs and exempt
+                accounts are never flagged as snipers.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
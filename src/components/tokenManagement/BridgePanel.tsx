@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { ArrowLeftRight, AlertTriangle, CheckCircle, Clock, Loader2, RefreshCw, Link2, Rocket, Send, ShieldCheck } from 'lucide-react';
+import { TokenManagementData } from '../../types/tokenManagement';
+import { BridgeChainState, getMissingPeers } from '../../services/bridgeService';
+import { BRIDGE_RELAYER_ADDRESS } from '../../config/constants';
+
+interface BridgePanelProps {
+  tokenData: TokenManagementData;
+  isOwner: boolean;
+  userAddress: string;
+  onGetChains: () => Promise<BridgeChainState[]>;
+  onDeployAdapter: (relayer: string) => Promise<string>;
+  onLinkPeers: (peers: Array<{ chainId: number; adapter: string }>) => Promise<string>;
+  onApplyBridgeChange: () => Promise<string>;
+  onCancelBridgeChange: () => Promise<string>;
+  onBridge: (dstChainId: number, to: string, amount: string) => Promise<string>;
+}
+
+export const BridgePanel: React.FC<BridgePanelProps> = ({
+  tokenData,
+  isOwner,
+  userAddress,
+  onGetChains,
+  onDeployAdapter,
+  onLinkPeers,
+  onApplyBridgeChange,
+  onCancelBridgeChange,
+  onBridge
+}) => {
+  const [chains, setChains] = useState<BridgeChainState[] | null>(null);
+  const [relayer, setRelayer] = useState(BRIDGE_RELAYER_ADDRESS);
+  const [destination, setDestination] = useState<number | null>(null);
+  const [recipient, setRecipient] = useState(userAddress);
+  const [amount, setAmount] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The connected network is always listed first
+  const current = chains?.[0];
+  const missingPeers = current ? getMissingPeers(chains!, current.network.chainId) : [];
+  const destinations = (chains || []).slice(1).filter(chain => chain.adapterAddress && current?.peers[chain.network.chainId]);
+  const isBridgeable = !!tokenData.features.bridge;
+
+  // Scheduled adapter changes can be applied once their delay has passed
+  const pendingChangeDue = !!current?.bridgeChangeTime && current.bridgeChangeTime * 1000 <= Date.now();
+
+  // onGetChains changes with the token data, so this reloads after every token update
+  const loadChains = useCallback(async () => {
+    setError(null);
+    try {
+      setChains(await onGetChains());
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  }, [onGetChains]);
+
+  useEffect(() => {
+    loadChains();
+  }, [loadChains]);
+
+  const runAction = async (action: string, run: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setSuccess(await run());
+      await loadChains();
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleDeployAdapter = () => runAction('deploy', async () => {
+    const adapter = await onDeployAdapter(relayer);
+    return `Bridge adapter deployed at ${adapter}`;
+  });
+
+  const handleLinkPeers = () => runAction('link', async () => {
+    const hash = await onLinkPeers(missingPeers);
+    return hash
+      ? `Linked ${missingPeers.length} network${missingPeers.length === 1 ? '' : 's'}`
+      : 'Peer links queued in the Safe transaction queue';
+  });
+
+  const handleApplyBridgeChange = () => runAction('apply', async () => {
+    const hash = await onApplyBridgeChange();
+    return hash ? 'Bridge adapter replaced' : 'Adapter change queued in the Safe transaction queue';
+  });
+
+  const handleCancelBridgeChange = () => runAction('cancel', async () => {
+    const hash = await onCancelBridgeChange();
+    return hash ? 'Scheduled adapter change cancelled' : 'Cancellation queued in the Safe transaction queue';
+  });
+
+  const handleBridge = () => runAction('bridge', async () => {
+    const hash = await onBridge(destination!, recipient, amount);
+    setAmount('');
+    return `Sent in ${hash.slice(0, 10)}...${hash.slice(-8)}. The relayer delivers the tokens on the destination network.`;
+  });
+
+  const totalCirculating = (chains || [])
+    .filter(chain => chain.status === 'ok')
+    .reduce((sum, chain) => sum + parseFloat(chain.totalSupply) - parseFloat(chain.lockedSupply), 0);
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <ArrowLeftRight className="w-6 h-6 text-blue-400" />
+          <h3 className="text-xl font-semibold text-white">Cross-Chain Bridge</h3>
+        </div>
+        <button
+          onClick={loadChains}
+          className="text-blue-400 hover:text-blue-300 text-sm flex items-center space-x-1"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Supply Per Chain */}
+      <h4 className="text-lg font-semibold text-white mb-3">Supply per Network</h4>
+      {!chains ? (
+        <div className="flex items-center space-x-2 text-gray-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Loading networks...</span>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {chains.map((chain, index) => (
+            <div key={chain.network.chainId} className="bg-white/5 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-white font-medium">
+                    {chain.network.name}
+                    {index === 0 && <span className="text-xs text-blue-400 ml-2">Connected</span>}
+                  </div>
+                  <div className="text-xs text-gray-400 font-mono mt-1">
+                    {chain.adapterAddress
+                      ? `${chain.lockRelease ? 'Lock/release' : 'Burn/mint'} adapter ${chain.adapterAddress.slice(0, 8)}...${chain.adapterAddress.slice(-6)}`
+                      : 'No bridge adapter'}
+                  </div>
+                </div>
+                {chain.status === 'unreachable' ? (
+                  <span className="text-amber-400 text-sm">RPC unreachable</span>
+                ) : (
+                  <div className="text-right">
+                    <div className="text-white">{parseFloat(chain.totalSupply).toLocaleString()} {tokenData.symbol}</div>
+                    {parseFloat(chain.lockedSupply) > 0 && (
+                      <div className="text-xs text-gray-400">{parseFloat(chain.lockedSupply).toLocaleString()} locked for other networks</div>
+                    )}
+                  </div>
+                )}
+              </div>
+              {chain.adapterAddress && !chain.lockRelease && !chain.bridgeRoleSet && chain.status === 'ok' && (
+                <div className="text-xs text-amber-400 mt-2">The token does not accept mints and burns from this adapter</div>
+              )}
+              {chain.pendingBridge && (
+                <div className="text-xs text-amber-400 mt-2">
+                  Adapter change to {chain.pendingBridge.slice(0, 8)}...{chain.pendingBridge.slice(-6)} scheduled
+                  for {new Date(chain.bridgeChangeTime! * 1000).toLocaleString()}
+                </div>
+              )}
+            </div>
+          ))}
+          {chains.length > 1 && (
+            <div className="flex justify-between text-sm px-4 pt-2">
+              <span className="text-gray-300">Circulating across networks</span>
+              <span className="text-white font-medium">{totalCirculating.toLocaleString()} {tokenData.symbol}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Safeguards */}
+      {isBridgeable && (
+        <div className="mt-6 p-4 bg-white/5 rounded-lg flex items-start space-x-3">
+          <ShieldCheck className="w-5 h-5 text-green-400 mt-0.5 shrink-0" />
+          <p className="text-gray-300 text-sm">
+            The adapter never mints past the max supply on a network and only burns what holders approve it for, so
+            bridging asks your wallet for an approval first. The first adapter is set right away; replacing it takes
+            effect two days after the owner schedules it.
+          </p>
+        </div>
+      )}
+
+      {/* Scheduled Adapter Change */}
+      {current?.pendingBridge && (
+        <div className="mt-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <Clock className="w-5 h-5 text-amber-400 mt-0.5 shrink-0" />
+            <p className="text-amber-300 text-sm">
+              The owner scheduled {current.pendingBridge} to replace this network's bridge adapter. It can mint and burn
+              once the change is applied, from {new Date(current.bridgeChangeTime! * 1000).toLocaleString()}.
+            </p>
+          </div>
+          {isOwner && (
+            <div className="flex space-x-3 mt-4">
+              <button
+                onClick={handleApplyBridgeChange}
+                disabled={!pendingChangeDue || pendingAction !== null}
+                className="bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/50 text-amber-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                {pendingAction === 'apply' && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Apply Change</span>
+              </button>
+              <button
+                onClick={handleCancelBridgeChange}
+                disabled={pendingAction !== null}
+                className="bg-white/10 hover:bg-white/20 border border-white/20 text-gray-300 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                {pendingAction === 'cancel' && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Cancel Change</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Adapter Setup */}
+      {current && isOwner && !current.adapterAddress && (
+        <div className="mt-6">
+          <h4 className="text-lg font-semibold text-white mb-2">Bridge Adapter</h4>
+          <p className="text-gray-400 text-sm mb-4">
+            {isBridgeable
+              ? 'The adapter burns tokens sent from this network and mints tokens arriving here.'
+              : 'This token has no bridge role, so the adapter locks tokens sent from this network and releases them when they come back. Deploy bridgeable tokens on the other networks.'}
+            {' '}The relayer signs and delivers transfers between adapters.
+          </p>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Relayer Address</label>
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={relayer}
+              onChange={(e) => setRelayer(e.target.value.trim())}
+              className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+              placeholder="0x..."
+            />
+            <button
+              onClick={handleDeployAdapter}
+              disabled={!ethers.isAddress(relayer) || pendingAction !== null}
+              className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              {pendingAction === 'deploy' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Rocket className="w-4 h-4" />}
+              <span>Deploy Adapter</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Peer Links */}
+      {current && isOwner && missingPeers.length > 0 && (
+        <div className="mt-6 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg flex items-center justify-between">
+          <p className="text-blue-300 text-sm">
+            This network's adapter does not accept transfers from {missingPeers.length} other network{missingPeers.length === 1 ? '' : 's'} yet.
+            Link them here, then link back from each of those networks.
+          </p>
+          <button
+            onClick={handleLinkPeers}
+            disabled={pendingAction !== null}
+            className="ml-4 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50 shrink-0"
+          >
+            {pendingAction === 'link' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            <span>{tokenData.safeOwner ? 'Queue Links' : 'Link Networks'}</span>
+          </button>
+        </div>
+      )}
+
+      {/* Send */}
+      {current?.adapterAddress && (
+        <div className="mt-6">
+          <h4 className="text-lg font-semibold text-white mb-4">Bridge Tokens</h4>
+          {destinations.length === 0 ? (
+            <p className="text-gray-400 text-sm">No linked networks to bridge to yet.</p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Destination Network</label>
+                <select
+                  value={destination ?? ''}
+                  onChange={(e) => setDestination(e.target.value ? Number(e.target.value) : null)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="" className="bg-gray-800">Select a network</option>
+                  {destinations.map(chain => (
+                    <option key={chain.network.chainId} value={chain.network.chainId} className="bg-gray-800">
+                      {chain.network.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Recipient</label>
+                <input
+                  type="text"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value.trim())}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                  placeholder="0x..."
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Amount</label>
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  min="0"
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={`Amount of ${tokenData.symbol}`}
+                />
+              </div>
+              <button
+                onClick={handleBridge}
+                disabled={!destination || !ethers.isAddress(recipient) || !(parseFloat(amount) > 0) || pendingAction !== null}
+                className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pendingAction === 'bridge' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                <span>Bridge Tokens</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Success Message */}
+      {success && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <p className="text-green-300 text-sm">{success}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Bridge Action Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldAlert, AlertTriangle, CheckCircle, Loader2, Pause, Play, Lock, Unlock, RefreshCw } from 'lucide-react';
+import { TokenManagementData } from '../../types/tokenManagement';
+
+interface CompliancePanelProps {
+  tokenData: TokenManagementData;
+  isOwner: boolean;
+  canPause: boolean; // Owner or pauser role
+  onSetPaused: (paused: boolean) => Promise<string>;
+  onUpdateBlacklist: (accounts: string[], blacklisted: boolean) => Promise<string>;
+  getBlacklistedAddresses: () => Promise<string[]>;
+}
+
+// Mirrors the batch limit enforced by setBlacklistedBatch
+const MAX_BATCH_SIZE = 200;
+
+const isValidAddress = (address: string) => {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+};
+
+export const CompliancePanel: React.FC<CompliancePanelProps> = ({
+  tokenData,
+  isOwner,
+  canPause,
+  onSetPaused,
+  onUpdateBlacklist,
+  getBlacklistedAddresses
+}) => {
+  const compliance = tokenData.features.compliance!;
+  const [frozenAddresses, setFrozenAddresses] = useState<string[]>([]);
+  const [isLoadingFrozen, setIsLoadingFrozen] = useState(false);
+  const [batchInput, setBatchInput] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFrozenAddresses = useCallback(async () => {
+    if (!compliance.blacklist) return;
+
+    setIsLoadingFrozen(true);
+    try {
+      setFrozenAddresses(await getBlacklistedAddresses());
+    } catch (error) {
+      console.error('Error loading blacklisted addresses:', error);
+    } finally {
+      setIsLoadingFrozen(false);
+    }
+  }, [compliance.blacklist, getBlacklistedAddresses]);
+
+  useEffect(() => {
+    loadFrozenAddresses();
+  }, [loadFrozenAddresses]);
+
+  const runAction = async (action: string, send: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+
+    try {
+      const hash = await send();
+      setTxHash(hash);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const batchAddresses = [...new Set(batchInput.split(/[\s,]+/).filter(Boolean))];
+  const invalidAddresses = batchAddresses.filter(address => !isValidAddress(address));
+  const canSubmitBatch = isOwner &&
+    batchAddresses.length > 0 &&
+    batchAddresses.length <= MAX_BATCH_SIZE &&
+    invalidAddresses.length === 0;
+
+  const handleBlacklist = (accounts: string[], blacklisted: boolean) => runAction(blacklisted ? 'freeze' : 'unfreeze', async () => {
+    const hash = await onUpdateBlacklist(accounts, blacklisted);
+    setBatchInput('');
+    await loadFrozenAddresses();
+    return hash;
+  });
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <ShieldAlert className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">Compliance Controls</h3>
+      </div>
+
+      {/* Pause */}
+      {compliance.pausable && (
+        <div className="mb-6">
+          <div className="flex items-center justify-between bg-white/5 rounded-lg p-4">
+            <div>
+              <div className="text-sm text-gray-300">Transfers</div>
+              <div className={`text-lg font-bold ${compliance.paused ? 'text-red-400' : 'text-green-400'}`}>
+                {compliance.paused ? 'Paused' : 'Active'}
+              </div>
+            </div>
+            <button
+              onClick={() => runAction('pause', () => onSetPaused(!compliance.paused))}
+              disabled={!canPause || pendingAction !== null}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50 ${
+                compliance.paused
+                  ? 'bg-green-500/20 hover:bg-green-500/30 border border-green-500/50 text-green-400'
+                  : 'bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400'
+              }`}
+            >
+              {pendingAction === 'pause'
+                ? <Loader2 className="w-4 h-4 animate-spin" />
+                : compliance.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+              <span>{compliance.paused ? 'Unpause' : 'Pause'}</span>
+            </button>
+          </div>
+          {compliance.paused && (
+            <p className="text-amber-400 text-sm mt-2">
+              All transfers, mints and burns revert until the token is unpaused.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Blacklist */}
+      {compliance.blacklist && (
+        <div className={compliance.pausable ? 'border-t border-white/20 pt-6' : ''}>
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-lg font-semibold text-white">Frozen Addresses</h4>
+            <button
+              onClick={loadFrozenAddresses}
+              disabled={isLoadingFrozen}
+              className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+              title="Refresh"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoadingFrozen ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+
+          {frozenAddresses.length === 0 ? (
+            <p className="text-gray-400 text-sm mb-4">
+              {isLoadingFrozen ? 'Loading frozen addresses...' : 'No addresses are frozen'}
+            </p>
+          ) : (
+            <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+              {frozenAddresses.map(account => (
+                <div key={account} className="flex items-center justify-between bg-white/5 rounded-lg px-4 py-2">
+                  <span className="text-white font-mono text-sm">{account}</span>
+                  <button
+                    onClick={() => handleBlacklist([account], false)}
+                    disabled={!isOwner || pendingAction !== null}
+                    className="text-green-400 hover:text-green-300 text-sm flex items-center space-x-1 disabled:opacity-50"
+                  >
+                    <Unlock className="w-4 h-4" />
+                    <span>Unfreeze</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Batch Update
+          </label>
+          <textarea
+            value={batchInput}
+            onChange={(e) => setBatchInput(e.target.value)}
+            rows={4}
+            className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white font-mono text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="One address per line, or separated by commas"
+          />
+          <div className="flex items-center justify-between mt-2 mb-4">
+            <span className={`text-sm ${invalidAddresses.length > 0 || batchAddresses.length > MAX_BATCH_SIZE ? 'text-red-400' : 'text-gray-400'}`}>
+              {invalidAddresses.length > 0
+                ? `Invalid address: ${invalidAddresses[0]}`
+                : batchAddresses.length > MAX_BATCH_SIZE
+                  ? `At most ${MAX_BATCH_SIZE} addresses per transaction`
+                  : `${batchAddresses.length} address${batchAddresses.length === 1 ? '' : 'es'}`}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => handleBlacklist(batchAddresses, true)}
+              disabled={!canSubmitBatch || pendingAction !== null}
+              className="bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {pendingAction === 'freeze' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+              <span>Freeze</span>
+            </button>
+            <button
+              onClick={() => handleBlacklist(batchAddresses, false)}
+              disabled={!canSubmitBatch || pendingAction !== null}
+              className="bg-green-500/20 hover:bg-green-500/30 border border-green-500/50 text-green-400 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {pendingAction === 'unfreeze' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+              <span>Unfreeze</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Transaction Successful</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Transaction Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
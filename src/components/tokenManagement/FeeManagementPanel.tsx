@@ -1,14 +1,48 @@
 import React, { useState } from 'react';
-import { Percent, AlertTriangle, CheckCircle, Loader2, Settings } from 'lucide-react';
-import { TokenManagementData } from '../../types/tokenManagement';
+import { Percent, AlertTriangle, CheckCircle, Loader2, Settings, Plus, Trash2, RefreshCw } from 'lucide-react';
+import { ethers } from 'ethers';
+import { TokenManagementData, TaxState } from '../../types/tokenManagement';
 
-interface FeeManagementPanelProps {
+interface TaxHandlers {
+  onUpdateTaxes: (buyTax: number, sellTax: number, transferTax: number) => Promise<string>;
+  onUpdateTaxRecipients: (recipients: Array<{ address: string; share: number }>, liquidityShare: number) => Promise<string>;
+  onSetPair: (pair: string, value: boolean) => Promise<string>;
+  onUpdateSwapThreshold: (amount: string) => Promise<string>;
+  onSwapBack: () => Promise<string>;
+}
+
+interface FeeManagementPanelProps extends Partial<TaxHandlers> {
   tokenData: TokenManagementData;
   isOwner: boolean;
   onUpdateFees: (percentage: number, recipient?: string) => Promise<string>;
 }
 
+const isValidAddress = (address: string) => {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+};
+
 export const FeeManagementPanel: React.FC<FeeManagementPanelProps> = ({
+  tokenData,
+  isOwner,
+  onUpdateFees,
+  ...taxHandlers
+}) => {
+  // Tax tokens have buy/sell/transfer buckets instead of a single fee
+  if (tokenData.features.taxes) {
+    return (
+      <TaxManagement
+        tokenData={tokenData}
+        taxes={tokenData.features.taxes}
+        isOwner={isOwner}
+        {...(taxHandlers as TaxHandlers)}
+      />
+    );
+  }
+
+  return <FlatFeeManagement tokenData={tokenData} isOwner={isOwner} onUpdateFees={onUpdateFees} />;
+};
+
+const FlatFeeManagement: React.FC<FeeManagementPanelProps> = ({
   tokenData,
   isOwner,
   onUpdateFees
@@ -43,10 +77,6 @@ export const FeeManagementPanel: React.FC<FeeManagementPanelProps> = ({
     }
   };
 
-  const isValidAddress = (address: string) => {
-    return /^0x[a-fA-F0-9]{40}$/.test(address);
-  };
-
   const canUpdate = () => {
     if (!isOwner) return false;
     
@@ -246,4 +276,353 @@ export const FeeManagementPanel: React.FC<FeeManagementPanelProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+const TaxManagement: React.FC<TaxHandlers & {
+  tokenData: TokenManagementData;
+  taxes: TaxState;
+  isOwner: boolean;
+}> = ({
+  tokenData,
+  taxes,
+  isOwner,
+  onUpdateTaxes,
+  onUpdateTaxRecipients,
+  onSetPair,
+  onUpdateSwapThreshold,
+  onSwapBack
+}) => {
+  const [buckets, setBuckets] = useState({
+    buyTax: taxes.buyTax.toString(),
+    sellTax: taxes.sellTax.toString(),
+    transferTax: taxes.transferTax.toString()
+  });
+  const [recipients, setRecipients] = useState(taxes.recipients.map(recipient => ({
+    address: recipient.address,
+    share: recipient.share.toString()
+  })));
+  const [liquidityShare, setLiquidityShare] = useState(taxes.liquidityShare.toString());
+  const [swapThreshold, setSwapThreshold] = useState(taxes.swapThreshold);
+  const [pair, setPair] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasRouter = taxes.swapRouter !== ethers.ZeroAddress;
+  const totalShare = recipients.reduce((sum, recipient) => sum + (parseFloat(recipient.share) || 0), parseFloat(liquidityShare) || 0);
+
+  const runAction = async (action: string, send: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+
+    try {
+      setTxHash(await send());
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const canUpdateBuckets = () => {
+    const values = [buckets.buyTax, buckets.sellTax, buckets.transferTax].map(parseFloat);
+    if (values.some(value => isNaN(value) || value < 0 || value > 25)) return false;
+
+    return values[0] !== taxes.buyTax || values[1] !== taxes.sellTax || values[2] !== taxes.transferTax;
+  };
+
+  const canUpdateRecipients = () => {
+    if (recipients.length > 5) return false;
+    if (recipients.some(recipient => !isValidAddress(recipient.address) || !(parseFloat(recipient.share) > 0))) return false;
+    if (!hasRouter && parseFloat(liquidityShare) > 0) return false;
+
+    return Math.abs(totalShare - 100) < 0.001;
+  };
+
+  const bucketRows = [
+    { key: 'buyTax', label: 'Buy Tax' },
+    { key: 'sellTax', label: 'Sell Tax' },
+    { key: 'transferTax', label: 'Transfer Tax' }
+  ] as const;
+
+  const inputClassName = 'w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const buttonClassName = 'w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  const currentBuckets = (
+    <div className="grid md:grid-cols-3 gap-4 mb-6">
+      {bucketRows.map(({ key, label }) => (
+        <div key={key} className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">{label}</div>
+          <div className="text-2xl font-bold text-white">{taxes[key]}%</div>
+        </div>
+      ))}
+    </div>
+  );
+
+  if (!isOwner) {
+    return (
+      <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+        <div className="flex items-center space-x-3 mb-4">
+          <Percent className="w-6 h-6 text-blue-400" />
+          <h3 className="text-xl font-semibold text-white">Buy/Sell Taxes</h3>
+        </div>
+
+        {currentBuckets}
+
+        <div className="bg-white/5 rounded-lg p-4 space-y-1">
+          <div className="text-sm text-gray-300">Tax Recipients</div>
+          {taxes.recipients.map(recipient => (
+            <div key={recipient.address} className="flex justify-between text-sm">
+              <span className="text-white font-mono">{recipient.address.slice(0, 10)}...{recipient.address.slice(-8)}</span>
+              <span className="text-white">{recipient.share}%</span>
+            </div>
+          ))}
+          {taxes.liquidityShare > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-300">Liquidity</span>
+              <span className="text-white">{taxes.liquidityShare}%</span>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 bg-amber-500/20 border border-amber-500/50 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-amber-400 mb-1">Owner Only</h4>
+              <p className="text-amber-300 text-sm">
+                Only the contract owner can modify tax settings.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <Percent className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">Tax Management</h3>
+      </div>
+
+      {currentBuckets}
+
+      {/* Buckets */}
+      <div className="space-y-4 mb-6">
+        <div className="grid md:grid-cols-3 gap-4">
+          {bucketRows.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                New {label} (0-25%)
+              </label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                max="25"
+                value={buckets[key]}
+                onChange={(e) => setBuckets(prev => ({ ...prev, [key]: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => runAction('buckets', () => onUpdateTaxes(parseFloat(buckets.buyTax), parseFloat(buckets.sellTax), parseFloat(buckets.transferTax)))}
+          disabled={!canUpdateBuckets() || pendingAction !== null}
+          className={buttonClassName}
+        >
+          {pendingAction === 'buckets' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Settings className="w-4 h-4" />}
+          <span>Update Tax Rates</span>
+        </button>
+      </div>
+
+      {/* Recipients */}
+      <div className="space-y-3 mb-6">
+        <label className="block text-sm font-medium text-gray-300">
+          Recipient Shares (% of collected taxes)
+        </label>
+        {recipients.map((recipient, index) => (
+          <div key={index} className="flex space-x-2">
+            <input
+              type="text"
+              value={recipient.address}
+              onChange={(e) => setRecipients(prev => prev.map((r, i) => i === index ? { ...r, address: e.target.value } : r))}
+              className={inputClassName}
+              placeholder="0x..."
+            />
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={recipient.share}
+              onChange={(e) => setRecipients(prev => prev.map((r, i) => i === index ? { ...r, share: e.target.value } : r))}
+              className="w-28 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={() => setRecipients(prev => prev.filter((_, i) => i !== index))}
+              className="p-3 text-gray-400 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {recipients.length < 5 && (
+          <button
+            onClick={() => setRecipients(prev => [...prev, { address: '', share: '0' }])}
+            className="text-blue-400 hover:text-blue-300 text-sm flex items-center space-x-1"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Recipient</span>
+          </button>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Liquidity Share (%)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={liquidityShare}
+            onChange={(e) => setLiquidityShare(e.target.value)}
+            disabled={!hasRouter}
+            className={`${inputClassName} disabled:opacity-50`}
+          />
+        </div>
+        <p className={`text-sm ${Math.abs(totalShare - 100) < 0.001 ? 'text-gray-400' : 'text-red-400'}`}>
+          Total: {totalShare}% (must be 100%)
+        </p>
+        <button
+          onClick={() => runAction('recipients', () => onUpdateTaxRecipients(
+            recipients.map(recipient => ({ address: recipient.address, share: parseFloat(recipient.share) })),
+            parseFloat(liquidityShare) || 0
+          ))}
+          disabled={!canUpdateRecipients() || pendingAction !== null}
+          className={buttonClassName}
+        >
+          {pendingAction === 'recipients' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Settings className="w-4 h-4" />}
+          <span>Update Recipients</span>
+        </button>
+      </div>
+
+      {/* Swap-back */}
+      {hasRouter && (
+        <div className="space-y-3 mb-6">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Collected Taxes</div>
+              <div className="text-white font-medium">{parseFloat(taxes.pendingTaxes).toLocaleString()} {tokenData.symbol}</div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Liquidity Pair</div>
+              <div className="text-white font-mono text-sm break-all">{taxes.liquidityPair}</div>
+            </div>
+          </div>
+          <label className="block text-sm font-medium text-gray-300">
+            Swap Threshold ({tokenData.symbol}, 0 = manual only)
+          </label>
+          <div className="flex space-x-3">
+            <input
+              type="number"
+              min="0"
+              value={swapThreshold}
+              onChange={(e) => setSwapThreshold(e.target.value)}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => runAction('threshold', () => onUpdateSwapThreshold(swapThreshold))}
+              disabled={swapThreshold === taxes.swapThreshold || isNaN(parseFloat(swapThreshold)) || pendingAction !== null}
+              className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              Update
+            </button>
+          </div>
+          <button
+            onClick={() => runAction('swap', onSwapBack)}
+            disabled={parseFloat(taxes.pendingTaxes) === 0 || pendingAction !== null}
+            className="w-full bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            {pendingAction === 'swap' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            <span>Swap Back Now</span>
+          </button>
+        </div>
+      )}
+
+      {/* AMM Pairs */}
+      <div className="space-y-3">
+        <label className="block text-sm font-medium text-gray-300">
+          Additional AMM Pairs
+        </label>
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            value={pair}
+            onChange={(e) => setPair(e.target.value)}
+            className={inputClassName}
+            placeholder="0x... pair address"
+          />
+          <button
+            onClick={() => runAction('pair-add', () => onSetPair(pair, true))}
+            disabled={!isValidAddress(pair) || pendingAction !== null}
+            className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Register
+          </button>
+          <button
+            onClick={() => runAction('pair-remove', () => onSetPair(pair, false))}
+            disabled={!isValidAddress(pair) || pendingAction !== null}
+            className="bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Tax Settings Updated</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Update Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Warning */}
+      <div className="mt-6 p-4 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+          <div>
+            <h4 className="font-medium text-amber-400 mb-1">Important</h4>
+            <p className="text-amber-300 text-sm">
+              Buy and sell taxes only apply to registered AMM pairs; every other transfer pays the transfer tax.
+              Register pairs on other DEXes before liquidity is added there.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
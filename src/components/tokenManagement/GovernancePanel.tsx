@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Vote, AlertTriangle, CheckCircle, Loader2, Camera, Search, UserCheck } from 'lucide-react';
+import { TokenManagementData } from '../../types/tokenManagement';
+
+interface GovernancePanelProps {
+  tokenData: TokenManagementData;
+  isOwner: boolean;
+  userAddress: string;
+  onDelegate: (delegatee: string) => Promise<string>;
+  getVotingStatus: (account: string) => Promise<{ votes: string; delegate: string }>;
+  onTakeSnapshot: () => Promise<string>;
+  getSnapshotBalance: (account: string, snapshotId: number) => Promise<{ balance: string; totalSupply: string }>;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const isValidAddress = (address: string) => {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+};
+
+export const GovernancePanel: React.FC<GovernancePanelProps> = ({
+  tokenData,
+  isOwner,
+  userAddress,
+  onDelegate,
+  getVotingStatus,
+  onTakeSnapshot,
+  getSnapshotBalance
+}) => {
+  const governance = tokenData.features.governance!;
+  const [votingStatus, setVotingStatus] = useState<{ votes: string; delegate: string } | null>(null);
+  const [delegatee, setDelegatee] = useState('');
+  const [lookupAccount, setLookupAccount] = useState('');
+  const [snapshotId, setSnapshotId] = useState(governance.currentSnapshotId.toString());
+  const [snapshotBalance, setSnapshotBalance] = useState<{ balance: string; totalSupply: string } | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVotingStatus = useCallback(async () => {
+    if (!governance.votes || !userAddress) return;
+
+    try {
+      setVotingStatus(await getVotingStatus(userAddress));
+    } catch (error) {
+      console.error('Error loading voting status:', error);
+    }
+  }, [governance.votes, userAddress, getVotingStatus]);
+
+  useEffect(() => {
+    loadVotingStatus();
+  }, [loadVotingStatus]);
+
+  const runAction = async (action: string, send: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+
+    try {
+      const hash = await send();
+      setTxHash(hash);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleDelegate = (account: string) => runAction('delegate', async () => {
+    const hash = await onDelegate(account);
+    await loadVotingStatus();
+    return hash;
+  });
+
+  const handleSnapshotLookup = () => runAction('lookup', async () => {
+    setSnapshotBalance(await getSnapshotBalance(lookupAccount, parseInt(snapshotId)));
+    return '';
+  });
+
+  const id = parseInt(snapshotId);
+  const canLookupSnapshot = isValidAddress(lookupAccount) && Number.isInteger(id) && id > 0 && id <= governance.currentSnapshotId;
+  const isDelegated = votingStatus && votingStatus.delegate !== ZERO_ADDRESS;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <Vote className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">Governance</h3>
+      </div>
+
+      {/* Extensions */}
+      <div className="grid md:grid-cols-3 gap-4 mb-6">
+        {([
+          ['Permit (EIP-2612)', governance.permit],
+          ['Votes', governance.votes],
+          ['Snapshots', governance.snapshot]
+        ] as const).map(([label, enabled]) => (
+          <div key={label} className="bg-white/5 rounded-lg p-4">
+            <div className="text-sm text-gray-300">{label}</div>
+            <div className={`text-lg font-bold ${enabled ? 'text-green-400' : 'text-gray-500'}`}>
+              {enabled ? 'Enabled' : 'Not available'}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Delegation */}
+      {governance.votes && (
+        <div className="mb-6">
+          <h4 className="text-lg font-semibold text-white mb-4">Voting Power</h4>
+
+          <div className="grid md:grid-cols-2 gap-4 mb-4">
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Your Votes</div>
+              <div className="text-2xl font-bold text-white">
+                {parseFloat(votingStatus?.votes || '0').toLocaleString()} {tokenData.symbol}
+              </div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Delegated To</div>
+              <div className="text-white font-mono text-sm mt-2">
+                {!isDelegated
+                  ? 'Not delegated'
+                  : votingStatus.delegate.toLowerCase() === userAddress.toLowerCase()
+                    ? 'Yourself'
+                    : `${votingStatus.delegate.slice(0, 10)}...${votingStatus.delegate.slice(-8)}`}
+              </div>
+            </div>
+          </div>
+
+          {!isDelegated && (
+            <p className="text-amber-400 text-sm mb-4">
+              Balances only count as votes once delegated. Delegate to yourself to vote directly.
+            </p>
+          )}
+
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={delegatee}
+              onChange={(e) => setDelegatee(e.target.value)}
+              className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="0x... delegate address"
+            />
+            <button
+              onClick={() => handleDelegate(delegatee)}
+              disabled={!isValidAddress(delegatee) || pendingAction !== null}
+              className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              {pendingAction === 'delegate' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Vote className="w-4 h-4" />}
+              <span>Delegate</span>
+            </button>
+            <button
+              onClick={() => handleDelegate(userAddress)}
+              disabled={!userAddress || pendingAction !== null}
+              className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <UserCheck className="w-4 h-4" />
+              <span>Self</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Snapshots */}
+      {governance.snapshot && (
+        <div className="border-t border-white/20 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-lg font-semibold text-white">Snapshots</h4>
+            <span className="text-sm text-gray-400">
+              {governance.currentSnapshotId > 0 ? `Latest snapshot #${governance.currentSnapshotId}` : 'No snapshots yet'}
+            </span>
+          </div>
+
+          {isOwner && (
+            <button
+              onClick={() => runAction('snapshot', onTakeSnapshot)}
+              disabled={pendingAction !== null}
+              className="w-full mb-4 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'snapshot' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+              <span>Take Snapshot</span>
+            </button>
+          )}
+
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={lookupAccount}
+              onChange={(e) => {
+                setLookupAccount(e.target.value);
+                setSnapshotBalance(null);
+              }}
+              className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="0x... holder address"
+            />
+            <input
+              type="number"
+              min="1"
+              max={governance.currentSnapshotId}
+              value={snapshotId}
+              onChange={(e) => {
+                setSnapshotId(e.target.value);
+                setSnapshotBalance(null);
+              }}
+              className="w-28 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="ID"
+            />
+            <button
+              onClick={handleSnapshotLookup}
+              disabled={!canLookupSnapshot || pendingAction !== null}
+              className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Search className="w-4 h-4" />
+              <span>Check</span>
+            </button>
+          </div>
+
+          {snapshotBalance && (
+            <div className="mt-4 bg-white/5 rounded-lg p-4 grid grid-cols-2 gap-4">
+              <div>
+                <div className="text-sm text-gray-300">Balance at #{snapshotId}</div>
+                <div className="text-white font-medium">{parseFloat(snapshotBalance.balance).toLocaleString()} {tokenData.symbol}</div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-300">Total Supply at #{snapshotId}</div>
+                <div className="text-white font-medium">{parseFloat(snapshotBalance.totalSupply).toLocaleString()} {tokenData.symbol}</div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Transaction Successful</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Transaction Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
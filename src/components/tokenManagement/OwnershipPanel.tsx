@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Crown, AlertTriangle, CheckCircle, Loader2, Send, X, UserCheck, Trash2 } from 'lucide-react';
+import { TokenManagementData } from '../../types/tokenManagement';
+
+interface OwnershipPanelProps {
+  tokenData: TokenManagementData;
+  isOwner: boolean;
+  userAddress: string;
+  onTransferOwnership: (newOwner: string) => Promise<string>;
+  onCancelTransfer: () => Promise<string>;
+  onAcceptOwnership: () => Promise<string>;
+  onRenounceOwnership: () => Promise<string>;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const isValidAddress = (address: string) => {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+};
+
+export const OwnershipPanel: React.FC<OwnershipPanelProps> = ({
+  tokenData,
+  isOwner,
+  userAddress,
+  onTransferOwnership,
+  onCancelTransfer,
+  onAcceptOwnership,
+  onRenounceOwnership
+}) => {
+  const [newOwner, setNewOwner] = useState('');
+  const [renounceConfirmation, setRenounceConfirmation] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tokens deployed before two-step ownership hand over immediately
+  const isTwoStep = tokenData.pendingOwner !== undefined;
+  const hasPendingOwner = isTwoStep && tokenData.pendingOwner !== ZERO_ADDRESS;
+  const isPendingOwner = hasPendingOwner && tokenData.pendingOwner!.toLowerCase() === userAddress.toLowerCase();
+  const isRenounced = tokenData.owner === '' || tokenData.owner === ZERO_ADDRESS;
+
+  const runAction = async (action: string, send: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+
+    try {
+      const hash = await send();
+      setTxHash(hash);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleTransfer = () => runAction('transfer', async () => {
+    const hash = await onTransferOwnership(newOwner);
+    setNewOwner('');
+    return hash;
+  });
+
+  const handleRenounce = () => runAction('renounce', async () => {
+    const hash = await onRenounceOwnership();
+    setRenounceConfirmation('');
+    return hash;
+  });
+
+  const canTransfer = isOwner &&
+    isValidAddress(newOwner) &&
+    newOwner.toLowerCase() !== tokenData.owner.toLowerCase() &&
+    newOwner !== ZERO_ADDRESS;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <Crown className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">Ownership</h3>
+      </div>
+
+      {/* Current State */}
+      <div className="grid md:grid-cols-2 gap-4 mb-6">
+        <div className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">Current Owner</div>
+          <div className="text-white font-mono text-sm mt-2 break-all">
+            {isRenounced ? 'Renounced' : tokenData.owner}
+          </div>
+          {tokenData.safeOwner && (
+            <div className="text-xs text-purple-300 mt-1">
+              Safe multisig · {tokenData.safeOwner.threshold} of {tokenData.safeOwner.owners.length}
+            </div>
+          )}
+        </div>
+        <div className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">Pending Owner</div>
+          <div className="text-white font-mono text-sm mt-2 break-all">
+            {!isTwoStep ? 'Not supported by this token' : hasPendingOwner ? tokenData.pendingOwner : 'None'}
+          </div>
+        </div>
+      </div>
+
+      {/* Accept */}
+      {isPendingOwner && (
+        <div className="mb-6 p-4 bg-blue-500/20 border border-blue-500/50 rounded-lg">
+          <p className="text-blue-300 text-sm mb-3">
+            This wallet has been offered ownership of {tokenData.symbol}. Accepting makes it the owner.
+          </p>
+          <button
+            onClick={() => runAction('accept', onAcceptOwnership)}
+            disabled={pendingAction !== null}
+            className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {pendingAction === 'accept' ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserCheck className="w-4 h-4" />}
+            <span>Accept Ownership</span>
+          </button>
+        </div>
+      )}
+
+      {hasPendingOwner && !isPendingOwner && (
+        <p className="text-gray-400 text-sm mb-6">
+          The handover completes when the pending owner calls acceptOwnership(). A Safe accepts through its own transaction.
+        </p>
+      )}
+
+      {isOwner && (
+        <>
+          {/* Transfer */}
+          <div className="mb-6">
+            <h4 className="text-lg font-semibold text-white mb-2">Transfer Ownership</h4>
+            <p className="text-gray-400 text-sm mb-4">
+              {isTwoStep
+                ? 'The new owner must accept before the transfer takes effect. Until then you stay the owner and can cancel.'
+                : 'This token transfers ownership immediately. Double-check the address; a wrong one cannot be undone.'}
+            </p>
+            <div className="flex space-x-3">
+              <input
+                type="text"
+                value={newOwner}
+                onChange={(e) => setNewOwner(e.target.value)}
+                className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0x... new owner or multisig address"
+              />
+              <button
+                onClick={handleTransfer}
+                disabled={!canTransfer || pendingAction !== null}
+                className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                {pendingAction === 'transfer' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                <span>{isTwoStep ? 'Start Transfer' : 'Transfer'}</span>
+              </button>
+            </div>
+            {hasPendingOwner && (
+              <button
+                onClick={() => runAction('cancel', onCancelTransfer)}
+                disabled={pendingAction !== null}
+                className="mt-3 text-gray-300 hover:text-white text-sm flex items-center space-x-1 disabled:opacity-50"
+              >
+                {pendingAction === 'cancel' ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                <span>Cancel pending transfer</span>
+              </button>
+            )}
+          </div>
+
+          {/* Renounce */}
+          <div className="border-t border-white/20 pt-6">
+            <h4 className="text-lg font-semibold text-red-400 mb-2">Renounce Ownership</h4>
+            <p className="text-gray-400 text-sm mb-4">
+              Permanently removes the owner. Owner-only settings such as fees, limits and blacklists can never be changed again.
+              {tokenData.features.roles && ' Role holders keep their roles, but nobody can grant or revoke them.'}
+            </p>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Type <span className="font-mono text-white">{tokenData.symbol}</span> to confirm
+            </label>
+            <div className="flex space-x-3">
+              <input
+                type="text"
+                value={renounceConfirmation}
+                onChange={(e) => setRenounceConfirmation(e.target.value)}
+                className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
+                placeholder={tokenData.symbol}
+              />
+              <button
+                onClick={handleRenounce}
+                disabled={renounceConfirmation !== tokenData.symbol || pendingAction !== null}
+                className="bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                {pendingAction === 'renounce' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                <span>Renounce</span>
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Transaction Successful</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Transaction Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,30 +1,77 @@
-import React, { useState, useEffect } from 'react';
-import { TrendingUp, AlertTriangle, CheckCircle, Loader2, Gift, Settings } from 'lucide-react';
-import { TokenManagementData } from '../../types/tokenManagement';
+import React, { useState, useEffect, useCallback } from 'react';
+import { TrendingUp, AlertTriangle, CheckCircle, Loader2, Gift, Settings, Search, Coins, RefreshCw } from 'lucide-react';
+import { TokenManagementData, DividendState } from '../../types/tokenManagement';
 
-interface RedistributionPanelProps {
+interface DividendHandlers {
+  onClaimDividends: () => Promise<string>;
+  onProcessDividends: (gas: number) => Promise<string>;
+  onUpdateDividendSettings: (minimumBalance: string, gasForProcessing: number) => Promise<string>;
+  getDividendStatus: (address: string) => Promise<{ withdrawable: string; withdrawn: string; excluded: boolean }>;
+  onSetDividendExclusion: (address: string, excluded: boolean) => Promise<string>;
+}
+
+interface RedistributionPanelProps extends Partial<DividendHandlers> {
   tokenData: TokenManagementData;
   isOwner: boolean;
   userAddress: string;
   onUpdatePercentage: (percentage: number) => Promise<string>;
   onClaimRewards: () => Promise<string>;
   getUnclaimedRewards: (address: string) => Promise<string>;
+  getReflectionStatus?: (address: string) => Promise<{ earned: string; excluded: boolean }>;
+  onSetReflectionExclusion?: (address: string, excluded: boolean) => Promise<string>;
 }
 
+const isValidAddress = (address: string) => {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+};
+
 export const RedistributionPanel: React.FC<RedistributionPanelProps> = ({
+  onClaimDividends,
+  onProcessDividends,
+  onUpdateDividendSettings,
+  getDividendStatus,
+  onSetDividendExclusion,
+  ...props
+}) => {
+  const { tokenData, isOwner, userAddress } = props;
+
+  // Dividend tokens pay holders from taxes, alongside or instead of token redistribution
+  return (
+    <div className="space-y-6">
+      {tokenData.features.holderRedistribution.enabled && <HolderRedistribution {...props} />}
+      {tokenData.features.dividends && (
+        <DividendDistribution
+          tokenData={tokenData}
+          dividends={tokenData.features.dividends}
+          isOwner={isOwner}
+          userAddress={userAddress}
+          {...({ onClaimDividends, onProcessDividends, onUpdateDividendSettings, getDividendStatus, onSetDividendExclusion } as DividendHandlers)}
+        />
+      )}
+    </div>
+  );
+};
+
+const HolderRedistribution: React.FC<RedistributionPanelProps> = ({
   tokenData,
   isOwner,
   userAddress,
   onUpdatePercentage,
   onClaimRewards,
-  getUnclaimedRewards
+  getUnclaimedRewards,
+  getReflectionStatus,
+  onSetReflectionExclusion
 }) => {
+  const isReflection = tokenData.features.holderRedistribution.mode === 'reflection';
   const [newPercentage, setNewPercentage] = useState(tokenData.features.holderRedistribution.percentage.toString());
   const [unclaimedRewards, setUnclaimedRewards] = useState('0');
   const [isUpdating, setIsUpdating] = useState(false);
   const [isClaiming, setIsClaiming] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [holderAddress, setHolderAddress] = useState('');
+  const [holderStatus, setHolderStatus] = useState<{ earned: string; excluded: boolean } | null>(null);
+  const [isUpdatingExclusion, setIsUpdatingExclusion] = useState(false);
 
   useEffect(() => {
     loadUnclaimedRewards();
@@ -34,13 +81,45 @@ export const RedistributionPanel: React.FC<RedistributionPanelProps> = ({
     if (!userAddress) return;
     
     try {
-      const rewards = await getUnclaimedRewards(userAddress);
+      // Reflections are already in the balance; show what the holder has earned so far
+      const rewards = isReflection && getReflectionStatus
+        ? (await getReflectionStatus(userAddress)).earned
+        : await getUnclaimedRewards(userAddress);
       setUnclaimedRewards(rewards);
     } catch (error) {
       console.error('Error loading unclaimed rewards:', error);
     }
   };
 
+  const handleLookupHolder = async () => {
+    if (!getReflectionStatus) return;
+    
+    setError(null);
+    try {
+      setHolderStatus(await getReflectionStatus(holderAddress));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const handleToggleExclusion = async () => {
+    if (!isOwner || !holderStatus || !onSetReflectionExclusion) return;
+    
+    setIsUpdatingExclusion(true);
+    setError(null);
+    setTxHash(null);
+    
+    try {
+      const hash = await onSetReflectionExclusion(holderAddress, !holderStatus.excluded);
+      setTxHash(hash);
+      await handleLookupHolder();
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsUpdatingExclusion(false);
+    }
+  };
+
   const handleUpdatePercentage = async () => {
     if (!isOwner) return;
     
@@ -107,15 +186,23 @@ export const RedistributionPanel: React.FC<RedistributionPanelProps> = ({
       </div>
 
       {/* Current Settings */}
-      <div className="grid md:grid-cols-2 gap-4 mb-6">
+      <div className={`grid ${isReflection ? 'md:grid-cols-3' : 'md:grid-cols-2'} gap-4 mb-6`}>
         <div className="bg-white/5 rounded-lg p-4">
-          <div className="text-sm text-gray-300">Redistribution Rate</div>
+          <div className="text-sm text-gray-300">{isReflection ? 'Reflection Fee' : 'Redistribution Rate'}</div>
           <div className="text-2xl font-bold text-white">
             {tokenData.features.holderRedistribution.percentage}%
           </div>
         </div>
+        {isReflection && (
+          <div className="bg-white/5 rounded-lg p-4">
+            <div className="text-sm text-gray-300">Total Reflected</div>
+            <div className="text-2xl font-bold text-white">
+              {parseFloat(tokenData.features.holderRedistribution.totalReflected || '0').toLocaleString()} {tokenData.symbol}
+            </div>
+          </div>
+        )}
         <div className="bg-white/5 rounded-lg p-4">
-          <div className="text-sm text-gray-300">Your Unclaimed Rewards</div>
+          <div className="text-sm text-gray-300">{isReflection ? 'Your Reflections Earned' : 'Your Unclaimed Rewards'}</div>
           <div className="text-2xl font-bold text-purple-400">
             {parseFloat(unclaimedRewards).toFixed(6)} {tokenData.symbol}
           </div>
@@ -123,41 +210,92 @@ export const RedistributionPanel: React.FC<RedistributionPanelProps> = ({
       </div>
 
       {/* Claim Rewards Section */}
-      <div className="mb-6">
-        <h4 className="text-lg font-semibold text-white mb-4">Claim Your Rewards</h4>
+      {!isReflection && (
+        <div className="mb-6">
+          <h4 className="text-lg font-semibold text-white mb-4">Claim Your Rewards</h4>
         
-        {parseFloat(unclaimedRewards) > 0 ? (
-          <button
-            onClick={handleClaimRewards}
-            disabled={isClaiming}
-            className="w-full bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
-          >
-            {isClaiming ? (
-              <>
-                <Loader2 className="w-4 h-4 animate-spin" />
-                <span>Claiming...</span>
-              </>
-            ) : (
-              <>
-                <Gift className="w-4 h-4" />
-                <span>Claim {parseFloat(unclaimedRewards).toFixed(6)} {tokenData.symbol}</span>
-              </>
-            )}
-          </button>
-        ) : (
-          <div className="bg-gray-500/20 border border-gray-500/50 rounded-lg p-4">
-            <div className="flex items-center space-x-3">
-              <Gift className="w-5 h-5 text-gray-400" />
-              <div>
-                <h5 className="font-medium text-gray-400">No Rewards Available</h5>
-                <p className="text-gray-500 text-sm">
-                  You don't have any unclaimed redistribution rewards at the moment.
-                </p>
+          {parseFloat(unclaimedRewards) > 0 ? (
+            <button
+              onClick={handleClaimRewards}
+              disabled={isClaiming}
+              className="w-full bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {isClaiming ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>Claiming...</span>
+                </>
+              ) : (
+                <>
+                  <Gift className="w-4 h-4" />
+                  <span>Claim {parseFloat(unclaimedRewards).toFixed(6)} {tokenData.symbol}</span>
+                </>
+              )}
+            </button>
+          ) : (
+            <div className="bg-gray-500/20 border border-gray-500/50 rounded-lg p-4">
+              <div className="flex items-center space-x-3">
+                <Gift className="w-5 h-5 text-gray-400" />
+                <div>
+                  <h5 className="font-medium text-gray-400">No Rewards Available</h5>
+                  <p className="text-gray-500 text-sm">
+                    You don't have any unclaimed redistribution rewards at the moment.
+                  </p>
+                </div>
               </div>
             </div>
+          )}
+        </div>
+      )}
+
+      {/* Holder Lookup */}
+      {isReflection && (
+        <div className="mb-6">
+          <h4 className="text-lg font-semibold text-white mb-4">Holder Reflections</h4>
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={holderAddress}
+              onChange={(e) => {
+                setHolderAddress(e.target.value);
+                setHolderStatus(null);
+              }}
+              className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              placeholder="0x... holder address"
+            />
+            <button
+              onClick={handleLookupHolder}
+              disabled={!isValidAddress(holderAddress)}
+              className="bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 text-purple-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Search className="w-4 h-4" />
+              <span>Check</span>
+            </button>
           </div>
-        )}
-      </div>
+          
+          {holderStatus && (
+            <div className="mt-4 bg-white/5 rounded-lg p-4 flex items-center justify-between">
+              <div>
+                <div className="text-sm text-gray-300">Earned</div>
+                <div className="text-white font-medium">
+                  {parseFloat(holderStatus.earned).toFixed(6)} {tokenData.symbol}
+                  {holderStatus.excluded && <span className="text-amber-400 text-sm ml-2">(excluded)</span>}
+                </div>
+              </div>
+              {isOwner && (
+                <button
+                  onClick={handleToggleExclusion}
+                  disabled={isUpdatingExclusion}
+                  className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  {isUpdatingExclusion && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>{holderStatus.excluded ? 'Include in Reflections' : 'Exclude from Reflections'}</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Owner Controls */}
       {isOwner && (
@@ -251,13 +389,299 @@ export const RedistributionPanel: React.FC<RedistributionPanelProps> = ({
           <TrendingUp className="w-5 h-5 text-blue-400 mt-0.5" />
           <div>
             <h4 className="font-medium text-blue-400 mb-1">How Redistribution Works</h4>
+            {isReflection ? (
+              <p className="text-blue-300 text-sm">
+                A percentage of each transfer is reflected to all holders by growing their balances directly.
+                No claiming is needed. Exclude pairs and contracts so they do not absorb reflections meant for holders.
+              </p>
+            ) : (
+              <p className="text-blue-300 text-sm">
+                A percentage of each transfer is redistributed proportionally to all token holders.
+                The more tokens you hold, the more rewards you receive. Claim your rewards anytime.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+const DividendDistribution: React.FC<DividendHandlers & {
+  tokenData: TokenManagementData;
+  dividends: DividendState;
+  isOwner: boolean;
+  userAddress: string;
+}> = ({
+  tokenData,
+  dividends,
+  isOwner,
+  userAddress,
+  onClaimDividends,
+  onProcessDividends,
+  onUpdateDividendSettings,
+  getDividendStatus,
+  onSetDividendExclusion
+}) => {
+  const [status, setStatus] = useState<{ withdrawable: string; withdrawn: string; excluded: boolean } | null>(null);
+  const [processGas, setProcessGas] = useState((dividends.gasForProcessing || 300000).toString());
+  const [minimumBalance, setMinimumBalance] = useState(dividends.minimumBalance);
+  const [gasForProcessing, setGasForProcessing] = useState(dividends.gasForProcessing.toString());
+  const [holderAddress, setHolderAddress] = useState('');
+  const [holderStatus, setHolderStatus] = useState<{ withdrawable: string; withdrawn: string; excluded: boolean } | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    if (!userAddress) return;
+    
+    try {
+      setStatus(await getDividendStatus(userAddress));
+    } catch (error) {
+      console.error('Error loading dividend status:', error);
+    }
+  }, [userAddress, getDividendStatus]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const runAction = async (action: string, send: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+    
+    try {
+      setTxHash(await send());
+      await loadStatus();
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleLookupHolder = async () => {
+    setError(null);
+    try {
+      setHolderStatus(await getDividendStatus(holderAddress));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const gas = parseInt(processGas);
+  const canProcess = Number.isInteger(gas) && gas >= 50000 && gas <= 5000000 && dividends.holderCount > 0;
+  const settingsGas = parseInt(gasForProcessing);
+  const canUpdateSettings = isOwner &&
+    /^\d+(\.\d+)?$/.test(minimumBalance) &&
+    Number.isInteger(settingsGas) && settingsGas >= 0 && settingsGas <= 1000000 &&
+    (parseFloat(minimumBalance) !== parseFloat(dividends.minimumBalance) || settingsGas !== dividends.gasForProcessing);
+  const withdrawable = parseFloat(status?.withdrawable || '0');
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <Coins className="w-6 h-6 text-green-400" />
+        <h3 className="text-xl font-semibold text-white">Holder Dividends</h3>
+      </div>
+
+      {/* Current Settings */}
+      <div className="grid md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">Share of Taxes</div>
+          <div className="text-2xl font-bold text-white">{dividends.dividendShare}%</div>
+          <div className="text-xs text-gray-400 mt-1">Paid in {dividends.rewardSymbol}</div>
+        </div>
+        <div className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">Total Distributed</div>
+          <div className="text-2xl font-bold text-white">
+            {parseFloat(dividends.totalDistributed).toLocaleString(undefined, { maximumFractionDigits: 6 })} {dividends.rewardSymbol}
+          </div>
+          <div className="text-xs text-gray-400 mt-1">{dividends.holderCount} eligible holders</div>
+        </div>
+        <div className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">Your Pending Dividends</div>
+          <div className="text-2xl font-bold text-green-400">
+            {withdrawable.toFixed(6)} {dividends.rewardSymbol}
+          </div>
+          <div className="text-xs text-gray-400 mt-1">
+            {parseFloat(status?.withdrawn || '0').toFixed(6)} {dividends.rewardSymbol} received
+            {status?.excluded && <span className="text-amber-400 ml-1">(excluded)</span>}
+          </div>
+        </div>
+      </div>
+
+      {/* Claim and Process */}
+      <div className="grid md:grid-cols-2 gap-4 mb-6">
+        <button
+          onClick={() => runAction('claim', onClaimDividends)}
+          disabled={withdrawable <= 0 || pendingAction !== null}
+          className="bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {pendingAction === 'claim' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gift className="w-4 h-4" />}
+          <span>{withdrawable > 0 ? `Claim ${withdrawable.toFixed(6)} ${dividends.rewardSymbol}` : 'No Dividends to Claim'}</span>
+        </button>
+        <div className="flex space-x-3">
+          <input
+            type="number"
+            min="50000"
+            max="5000000"
+            step="50000"
+            value={processGas}
+            onChange={(e) => setProcessGas(e.target.value)}
+            className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder="Gas"
+          />
+          <button
+            onClick={() => runAction('process', () => onProcessDividends(gas))}
+            disabled={!canProcess || pendingAction !== null}
+            className="bg-green-500/20 hover:bg-green-500/30 border border-green-500/50 text-green-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            {pendingAction === 'process' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            <span>Process Queue</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Holder Lookup */}
+      <div className="mb-6">
+        <h4 className="text-lg font-semibold text-white mb-4">Holder Dividends</h4>
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            value={holderAddress}
+            onChange={(e) => {
+              setHolderAddress(e.target.value);
+              setHolderStatus(null);
+            }}
+            className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder="0x... holder address"
+          />
+          <button
+            onClick={handleLookupHolder}
+            disabled={!isValidAddress(holderAddress)}
+            className="bg-green-500/20 hover:bg-green-500/30 border border-green-500/50 text-green-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            <span>Check</span>
+          </button>
+        </div>
+        
+        {holderStatus && (
+          <div className="mt-4 bg-white/5 rounded-lg p-4 flex items-center justify-between">
+            <div>
+              <div className="text-sm text-gray-300">Pending / Received</div>
+              <div className="text-white font-medium">
+                {parseFloat(holderStatus.withdrawable).toFixed(6)} / {parseFloat(holderStatus.withdrawn).toFixed(6)} {dividends.rewardSymbol}
+                {holderStatus.excluded && <span className="text-amber-400 text-sm ml-2">(excluded)</span>}
+              </div>
+            </div>
+            {isOwner && (
+              <button
+                onClick={() => runAction('exclusion', async () => {
+                  const hash = await onSetDividendExclusion(holderAddress, !holderStatus.excluded);
+                  await handleLookupHolder();
+                  return hash;
+                })}
+                disabled={pendingAction !== null}
+                className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                {pendingAction === 'exclusion' && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>{holderStatus.excluded ? 'Include in Dividends' : 'Exclude from Dividends'}</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Owner Controls */}
+      {isOwner && (
+        <div className="border-t border-white/20 pt-6">
+          <h4 className="text-lg font-semibold text-white mb-4">Dividend Settings</h4>
+          
+          <div className="grid md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Minimum Balance ({tokenData.symbol})
+              </label>
+              <input
+                type="text"
+                value={minimumBalance}
+                onChange={(e) => setMinimumBalance(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Auto-Process Gas (0 = manual claims)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="1000000"
+                step="10000"
+                value={gasForProcessing}
+                onChange={(e) => setGasForProcessing(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={() => runAction('settings', () => onUpdateDividendSettings(minimumBalance, settingsGas))}
+            disabled={!canUpdateSettings || pendingAction !== null}
+            className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {pendingAction === 'settings' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Settings className="w-4 h-4" />}
+            <span>Update Dividend Settings</span>
+          </button>
+        </div>
+      )}
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Transaction Successful</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Transaction Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Information */}
+      <div className="mt-6 p-4 bg-blue-500/20 border border-blue-500/50 rounded-lg">
+        <div className="flex items-start space-x-3">
+          <Coins className="w-5 h-5 text-blue-400 mt-0.5" />
+          <div>
+            <h4 className="font-medium text-blue-400 mb-1">How Dividends Work</h4>
             <p className="text-blue-300 text-sm">
-              A percentage of each transfer is redistributed proportionally to all token holders.
-              The more tokens you hold, the more rewards you receive. Claim your rewards anytime.
+              When collected taxes are swapped back, the holders' share is paid out in {dividends.rewardSymbol} pro rata to
+              balances of at least {parseFloat(dividends.minimumBalance).toLocaleString()} {tokenData.symbol}. Each transfer
+              pays the next holders in the queue up to the auto-process gas limit; anyone can claim their own dividends or
+              process more of the queue at any time. A new minimum balance applies to each holder at their next transfer.
             </p>
           </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyRound, AlertTriangle, CheckCircle, Loader2, UserPlus, UserMinus, RefreshCw } from 'lucide-react';
+import { TokenManagementData, TokenRole } from '../../types/tokenManagement';
+
+interface RolesPanelProps {
+  tokenData: TokenManagementData;
+  isOwner: boolean;
+  onUpdateRole: (role: TokenRole, account: string, granted: boolean) => Promise<string>;
+  getRoleMembers: () => Promise<Record<TokenRole, string[]>>;
+}
+
+// The admin role follows contract ownership, so it is listed but not granted here
+const ASSIGNABLE_ROLES: Array<[TokenRole, string, string]> = [
+  ['minter', 'Minter', 'Can mint new tokens up to the max supply'],
+  ['pauser', 'Pauser', 'Can pause and unpause transfers'],
+  ['feeManager', 'Fee Manager', 'Can change fees, taxes, recipients and reward rates']
+];
+
+const isValidAddress = (address: string) => {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+};
+
+export const RolesPanel: React.FC<RolesPanelProps> = ({
+  tokenData,
+  isOwner,
+  onUpdateRole,
+  getRoleMembers
+}) => {
+  const [members, setMembers] = useState<Record<TokenRole, string[]> | null>(null);
+  const [isLoadingMembers, setIsLoadingMembers] = useState(false);
+  const [role, setRole] = useState<TokenRole>('minter');
+  const [account, setAccount] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    setIsLoadingMembers(true);
+    try {
+      setMembers(await getRoleMembers());
+    } catch (error) {
+      console.error('Error loading role members:', error);
+    } finally {
+      setIsLoadingMembers(false);
+    }
+  }, [getRoleMembers]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const runAction = async (action: string, send: () => Promise<string>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+
+    try {
+      const hash = await send();
+      setTxHash(hash);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleUpdateRole = (targetRole: TokenRole, target: string, granted: boolean) =>
+    runAction(`${granted ? 'grant' : 'revoke'}:${targetRole}:${target}`, async () => {
+      const hash = await onUpdateRole(targetRole, target, granted);
+      setAccount('');
+      await loadMembers();
+      return hash;
+    });
+
+  const isMember = !!members && members[role].some(member => member.toLowerCase() === account.toLowerCase());
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <KeyRound className="w-6 h-6 text-blue-400" />
+          <h3 className="text-xl font-semibold text-white">Roles</h3>
+        </div>
+        <button
+          onClick={loadMembers}
+          disabled={isLoadingMembers}
+          className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoadingMembers ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <p className="text-gray-400 text-sm mb-6">
+        The owner ({tokenData.safeOwner ? 'Safe multisig' : 'wallet'}) administers every role and keeps all other settings.
+        Transferring ownership hands role administration, and the roles the previous owner held, to the new owner.
+      </p>
+
+      {/* Members */}
+      <div className="space-y-4 mb-6">
+        {ASSIGNABLE_ROLES.map(([roleId, label, description]) => (
+          <div key={roleId} className="bg-white/5 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <div>
+                <div className="text-white font-medium">{label}</div>
+                <div className="text-sm text-gray-400">{description}</div>
+              </div>
+              {tokenData.features.roles?.[roleId] && (
+                <span className="text-xs text-green-400 bg-green-500/20 px-2 py-1 rounded">You</span>
+              )}
+            </div>
+
+            {!members || members[roleId].length === 0 ? (
+              <p className="text-gray-500 text-sm">
+                {isLoadingMembers ? 'Loading members...' : 'No members'}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {members[roleId].map(member => (
+                  <div key={member} className="flex items-center justify-between">
+                    <span className="text-gray-300 font-mono text-sm">{member}</span>
+                    <button
+                      onClick={() => handleUpdateRole(roleId, member, false)}
+                      disabled={!isOwner || pendingAction !== null}
+                      className="text-red-400 hover:text-red-300 text-sm flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      {pendingAction === `revoke:${roleId}:${member}`
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <UserMinus className="w-4 h-4" />}
+                      <span>Revoke</span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Grant */}
+      <div className="border-t border-white/20 pt-6">
+        <h4 className="text-lg font-semibold text-white mb-4">Grant Role</h4>
+        <div className="flex space-x-3">
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as TokenRole)}
+            className="bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {ASSIGNABLE_ROLES.map(([roleId, label]) => (
+              <option key={roleId} value={roleId} className="bg-gray-800">{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={account}
+            onChange={(e) => setAccount(e.target.value)}
+            className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="0x... account address"
+          />
+          <button
+            onClick={() => handleUpdateRole(role, account, true)}
+            disabled={!isOwner || !isValidAddress(account) || isMember || pendingAction !== null}
+            className="bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            {pendingAction?.startsWith('grant:') ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            <span>Grant</span>
+          </button>
+        </div>
+        {isMember && <p className="text-amber-400 text-sm mt-2">This account already holds the role</p>}
+      </div>
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Transaction Successful</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Transaction Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
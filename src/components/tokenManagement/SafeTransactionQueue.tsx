@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Users, Download, Copy, CheckCircle, Trash2, ExternalLink } from 'lucide-react';
+import { SafeInfo, SafeTransaction, SafeTransactionBatch } from '../../services/safeTransactions';
+
+interface SafeTransactionQueueProps {
+  safe: SafeInfo;
+  transactions: SafeTransaction[];
+  getBatch: () => Promise<SafeTransactionBatch>;
+  onClear: () => void;
+}
+
+// Owner actions on Safe-owned tokens are collected here and imported into the
+// Safe Transaction Builder, where the other signers confirm them
+export const SafeTransactionQueue: React.FC<SafeTransactionQueueProps> = ({
+  safe,
+  transactions,
+  getBatch,
+  onClear
+}) => {
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const withBatch = async (handle: (json: string) => void) => {
+    setError(null);
+    try {
+      handle(JSON.stringify(await getBatch(), null, 2));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const handleDownload = () => withBatch(json => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `safe-transactions-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const handleCopy = () => withBatch(json => {
+    navigator.clipboard.writeText(json);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  });
+
+  return (
+    <div className="bg-purple-500/10 border border-purple-500/40 rounded-xl p-6 mb-8">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-start space-x-3">
+          <Users className="w-5 h-5 text-purple-400 mt-0.5" />
+          <div>
+            <h3 className="font-medium text-purple-300 mb-1">Safe Multisig Owner</h3>
+            <p className="text-purple-200 text-sm">
+              {safe.address.slice(0, 10)}...{safe.address.slice(-8)} · {safe.threshold} of {safe.owners.length} signers required.
+              Owner actions are prepared as Safe transactions instead of being sent from your wallet.
+            </p>
+          </div>
+        </div>
+        <a
+          href="https://app.safe.global/apps"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-purple-300 hover:text-white transition-colors"
+          title="Open Safe apps"
+        >
+          <ExternalLink className="w-4 h-4" />
+        </a>
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="text-gray-400 text-sm">No transactions queued</p>
+      ) : (
+        <>
+          <ol className="space-y-2 mb-4">
+            {transactions.map((transaction, index) => (
+              <li key={index} className="bg-white/5 rounded-lg px-4 py-2 text-sm">
+                <span className="text-gray-400 mr-2">{index + 1}.</span>
+                <span className="text-white">{transaction.description}</span>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleDownload}
+              className="bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 text-purple-300 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download for Transaction Builder</span>
+            </button>
+            <button
+              onClick={handleCopy}
+              className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+            >
+              {copied ? <CheckCircle className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+              <span>{copied ? 'Copied' : 'Copy JSON'}</span>
+            </button>
+            <button
+              onClick={onClear}
+              className="text-gray-400 hover:text-red-400 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Clear</span>
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Layers, AlertTriangle, CheckCircle, Loader2, Search, ArrowUpCircle } from 'lucide-react';
+import { TokenManagementData } from '../../types/tokenManagement';
+import { StorageLayoutIssue } from '../../services/proxyUpgrades';
+import { TokenContractFeatures, getTokenContractName, parseTokenContractName } from '../../services/tokenContractGenerator';
+
+interface UpgradePanelProps {
+  tokenData: TokenManagementData;
+  isOwner: boolean;
+  onCheckUpgrade: (targetContractType: string) => Promise<StorageLayoutIssue[]>;
+  onUpgrade: (targetContractType: string) => Promise<string>;
+}
+
+// Features an upgrade can switch without new initializer arguments
+const UPGRADE_FEATURES: Array<{ key: keyof TokenContractFeatures; label: string; description: string }> = [
+  { key: 'burnable', label: 'Burnable', description: 'Holders can burn their own tokens' },
+  { key: 'mintable', label: 'Mintable', description: 'The owner can mint up to the max supply' },
+  { key: 'snapshot', label: 'Snapshots', description: 'Record balances for off-chain votes and airdrops' },
+  { key: 'pausable', label: 'Pausable', description: 'Pause all transfers in an emergency' },
+  { key: 'blacklist', label: 'Blacklist', description: 'Block transfers from and to flagged addresses' },
+  { key: 'bridgeable', label: 'Bridgeable', description: 'A bridge adapter can move supply between networks' }
+];
+
+export const UpgradePanel: React.FC<UpgradePanelProps> = ({
+  tokenData,
+  isOwner,
+  onCheckUpgrade,
+  onUpgrade
+}) => {
+  const currentFeatures = tokenData.contractType ? parseTokenContractName(tokenData.contractType) : null;
+  const [targetFeatures, setTargetFeatures] = useState<TokenContractFeatures | null>(currentFeatures && { ...currentFeatures, upgradeable: true });
+  const [issues, setIssues] = useState<StorageLayoutIssue[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetName = targetFeatures ? getTokenContractName(targetFeatures) : null;
+  // Some combinations are never generated, e.g. blacklists on reflection tokens
+  const isValidTarget = !!targetName && parseTokenContractName(targetName) !== null;
+  const isUnchanged = targetName === tokenData.contractType;
+
+  const toggleFeature = (key: keyof TokenContractFeatures) => {
+    setTargetFeatures(prev => prev && { ...prev, [key]: !prev[key] });
+    setIssues(null);
+    setError(null);
+  };
+
+  const runAction = async (action: string, run: () => Promise<void>) => {
+    setPendingAction(action);
+    setError(null);
+    setTxHash(null);
+
+    try {
+      await run();
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleCheck = () => runAction('check', async () => {
+    setIssues(await onCheckUpgrade(targetName!));
+  });
+
+  const handleUpgrade = () => runAction('upgrade', async () => {
+    const hash = await onUpgrade(targetName!);
+    setTxHash(hash);
+    setIssues(null);
+  });
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <Layers className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">Contract Upgrades</h3>
+      </div>
+
+      {/* Current State */}
+      <div className="grid md:grid-cols-2 gap-4 mb-6">
+        <div className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">Proxy</div>
+          <div className="text-white font-mono text-sm mt-2 break-all">{tokenData.address}</div>
+        </div>
+        <div className="bg-white/5 rounded-lg p-4">
+          <div className="text-sm text-gray-300">Implementation</div>
+          <div className="text-white font-mono text-sm mt-2 break-all">{tokenData.implementationAddress}</div>
+          <div className="text-xs text-gray-400 mt-1">{tokenData.contractType || 'Unknown version'}</div>
+        </div>
+      </div>
+
+      {!currentFeatures ? (
+        <p className="text-gray-400 text-sm">
+          The deployment record does not name a generated token contract, so upgrades cannot be prepared here.
+        </p>
+      ) : isOwner ? (
+        <>
+          {/* Target Version */}
+          <div className="mb-6">
+            <h4 className="text-lg font-semibold text-white mb-2">New Version</h4>
+            <p className="text-gray-400 text-sm mb-4">
+              Token holders, balances and settings stay with the proxy. The new implementation must keep every existing
+              storage variable in place, so check compatibility before upgrading.
+            </p>
+            <div className="grid md:grid-cols-2 gap-3">
+              {UPGRADE_FEATURES.map(({ key, label, description }) => (
+                <label key={key} className="flex items-start space-x-3 bg-white/5 rounded-lg p-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!targetFeatures?.[key]}
+                    onChange={() => toggleFeature(key)}
+                    className="mt-1 w-4 h-4 text-blue-500 bg-white/10 border-white/20 rounded focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="text-white text-sm font-medium">{label}</div>
+                    <div className="text-gray-400 text-xs">{description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <div className="mt-3 text-sm text-gray-300">
+              Target: <span className="font-mono text-white">{isValidTarget ? targetName : 'Unsupported feature combination'}</span>
+            </div>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleCheck}
+              disabled={!isValidTarget || isUnchanged || pendingAction !== null}
+              className="flex-1 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-blue-400 px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {pendingAction === 'check' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              <span>Check Compatibility</span>
+            </button>
+            <button
+              onClick={handleUpgrade}
+              disabled={issues === null || issues.length > 0 || pendingAction !== null}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'upgrade' ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowUpCircle className="w-4 h-4" />}
+              <span>{tokenData.safeOwner ? 'Queue Upgrade' : 'Upgrade'}</span>
+            </button>
+          </div>
+
+          {/* Storage Layout Check */}
+          {issues && issues.length === 0 && (
+            <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+              <p className="text-green-300 text-sm">
+                {targetName} keeps the storage layout {tokenData.contractType} was deployed with. Upgrading deploys the new implementation
+                from your wallet first, then switches the proxy to it and sets up what it adds in one transaction.
+              </p>
+            </div>
+          )}
+
+          {issues && issues.length > 0 && (
+            <div className="mt-4 p-4 bg-yellow-500/20 border border-yellow-500/50 rounded-lg">
+              <h4 className="font-medium text-yellow-400 mb-2">Incompatible Storage Layout</h4>
+              <ul className="space-y-1">
+                {issues.map(issue => (
+                  <li key={issue.variable} className="text-yellow-300 text-sm">
+                    <span className="font-mono">{issue.variable}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-gray-400 text-sm">Only the owner can upgrade this token.</p>
+      )}
+
+      {/* Success Message */}
+      {txHash !== null && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">{txHash ? 'Upgrade Complete' : 'Upgrade Queued'}</h4>
+              <p className="text-green-300 text-sm">
+                {txHash
+                  ? `Transaction: ${txHash.slice(0, 10)}...${txHash.slice(-8)}`
+                  : 'The new implementation is deployed. Execute the upgrade from the Safe transaction queue.'}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Upgrade Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,30 @@
 import React from 'react';
-import { Shield, CheckCircle, AlertTriangle, ExternalLink, Copy } from 'lucide-react';
+import { Shield, CheckCircle, AlertTriangle, ExternalLink, Copy, RefreshCw } from 'lucide-react';
 import { TokenManagementData } from '../../types/tokenManagement';
+import { VerificationResult } from '../../services/explorerVerification';
 
 interface VerificationPanelProps {
   tokenData: TokenManagementData;
+  isOwner: boolean;
+  onVerify: () => Promise<VerificationResult>;
 }
 
-export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData }) => {
+export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData, isOwner, onVerify }) => {
   const [copied, setCopied] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const isPending = tokenData.verificationStatus === 'pending';
+
+  const handleVerify = async () => {
+    setError(null);
+    try {
+      const result = await onVerify();
+      if (result.status === 'failed') {
+        setError(result.message);
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Verification failed');
+    }
+  };
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -31,7 +48,19 @@ export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData
       <div className="bg-white/5 rounded-lg p-6 mb-6">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
-            {tokenData.verified ? (
+            {isPending ? (
+              <>
+                <div className="w-12 h-12 bg-blue-500/20 rounded-full flex items-center justify-center">
+                  <RefreshCw className="w-6 h-6 text-blue-400 animate-spin" />
+                </div>
+                <div>
+                  <h4 className="text-lg font-semibold text-white">Verification Pending</h4>
+                  <p className="text-blue-400 text-sm">
+                    Waiting for the blockchain explorer to compile and match your source code
+                  </p>
+                </div>
+              </>
+            ) : tokenData.verified ? (
               <>
                 <div className="w-12 h-12 bg-green-500/20 rounded-full flex items-center justify-center">
                   <CheckCircle className="w-6 h-6 text-green-400" />
@@ -51,7 +80,9 @@ export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData
                 <div>
                   <h4 className="text-lg font-semibold text-white">Contract Not Verified</h4>
                   <p className="text-red-400 text-sm">
-                    Your contract source code has not been verified yet
+                    {tokenData.verificationStatus === 'failed'
+                      ? 'The blockchain explorer rejected the last verification attempt'
+                      : 'Your contract source code has not been verified yet'}
                   </p>
                 </div>
               </>
@@ -70,6 +101,16 @@ export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData
         </div>
       </div>
 
+      {(error || tokenData.verificationMessage) && (
+        <div className={`rounded-lg p-4 mb-6 text-sm ${
+          error || tokenData.verificationStatus === 'failed'
+            ? 'bg-red-500/20 border border-red-500/50 text-red-300'
+            : 'bg-white/5 text-gray-300'
+        }`}>
+          <span className="font-medium">Explorer response:</span> {error || tokenData.verificationMessage}
+        </div>
+      )}
+
       {/* Contract Information */}
       <div className="space-y-4">
         <div className="bg-white/5 rounded-lg p-4">
@@ -136,9 +177,19 @@ export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData
               <div>
                 <h5 className="font-medium text-amber-400 mb-1">Manual Verification Required</h5>
                 <p className="text-amber-300 text-sm mb-3">
-                  If automatic verification failed during deployment, you can manually verify your contract
-                  on the blockchain explorer using the contract source code and constructor parameters.
+                  If automatic verification failed during deployment, you can submit the contract source code
+                  and constructor parameters to the blockchain explorer again, or verify it manually.
                 </p>
+                {isOwner && tokenData.contractType && (
+                  <button
+                    onClick={handleVerify}
+                    disabled={isPending}
+                    className="bg-amber-500 hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2 mb-3"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isPending ? 'animate-spin' : ''}`} />
+                    <span>{isPending ? 'Verifying...' : 'Verify Now'}</span>
+                  </button>
+                )}
                 <a
                   href={`${getExplorerUrl()}#code`}
                   target="_blank"
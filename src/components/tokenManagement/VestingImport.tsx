@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Upload, Download, FileText, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { useDropzone } from 'react-dropzone';
+import Papa from 'papaparse';
+import readXlsxFile from 'read-excel-file';
+import { saveAs } from 'file-saver';
+import { ethers } from 'ethers';
+import { TokenManagementData, VestingScheduleInput } from '../../types/tokenManagement';
+import { VESTING_IMPORT_COLUMNS, VestingBatchResult, VestingImportRow, parseVestingImport } from '../../services/vestingService';
+
+interface VestingImportProps {
+  tokenData: TokenManagementData;
+  onImport: (schedules: VestingScheduleInput[], onBatch?: (batch: VestingBatchResult) => void) => Promise<VestingBatchResult[]>;
+  getFunding: () => Promise<{ wallet: string; vesting: string }>;
+}
+
+interface CreatedSchedule {
+  line: number;
+  scheduleId: number;
+  transactionHash: string;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export const VestingImport: React.FC<VestingImportProps> = ({
+  tokenData,
+  onImport,
+  getFunding
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<VestingImportRow[]>([]);
+  const [created, setCreated] = useState<CreatedSchedule[]>([]);
+  const [funding, setFunding] = useState<{ wallet: string; vesting: string } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFunding().then(setFunding).catch(error => console.error('Error loading vesting balances:', error));
+  }, [getFunding, created.length]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    setError(null);
+    setCreated([]);
+
+    try {
+      // XLSX cells keep their types; CSV cells are all strings
+      const data: unknown[][] = file.name.toLowerCase().endsWith('.xlsx')
+        ? await readXlsxFile(file)
+        : Papa.parse(await file.text(), { skipEmptyLines: true }).data;
+
+      setRows(parseVestingImport(data, tokenData.decimals));
+      setFileName(file.name);
+    } catch (error) {
+      console.error('Error parsing vesting import:', error);
+      setError('Failed to read the file. Please check the format.');
+      setRows([]);
+    }
+  }, [tokenData.decimals]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'text/csv': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
+    },
+    maxFiles: 1
+  });
+
+  const downloadTemplate = () => {
+    const csvContent = Papa.unparse([
+      [...VESTING_IMPORT_COLUMNS],
+      ['0x742d35Cc6634C0532925a3b8D4C9db96590c6C8C', '100000', '2026-01-01', '730', '365', '10', '30', 'yes'],
+      ['0x8ba1f109551bD432803012645Ac136ddd64DBA72', '50000', '2026-01-01', '365', '0', '0', '0', 'no']
+    ]);
+    saveAs(new Blob([csvContent], { type: 'text/csv;charset=utf-8' }), 'vesting_template.csv');
+  };
+
+  const invalidRows = rows.filter(row => row.error);
+  const createdLines = new Set(created.map(schedule => schedule.line));
+  const pendingRows = rows.filter(row => !row.error && !createdLines.has(row.line));
+
+  const sumAmounts = (items: VestingImportRow[]) =>
+    items.reduce((total, row) => total + ethers.parseUnits(row.schedule.amount, tokenData.decimals), 0n);
+  const pendingTotal = invalidRows.length === 0 ? sumAmounts(pendingRows) : 0n;
+  const walletBalance = funding ? ethers.parseUnits(funding.wallet, tokenData.decimals) : null;
+
+  // Tokens the existing schedules have not released yet
+  const outstanding = tokenData.features.vesting.schedules
+    .filter(schedule => !schedule.revoked)
+    .reduce((total, schedule) =>
+      total + ethers.parseUnits(schedule.totalAmount, tokenData.decimals) - ethers.parseUnits(schedule.releasedAmount, tokenData.decimals), 0n);
+  const vestingBalance = funding ? ethers.parseUnits(funding.vesting, tokenData.decimals) : null;
+
+  const exceedsBalance = walletBalance !== null && pendingTotal > walletBalance;
+  const canImport = pendingRows.length > 0 && invalidRows.length === 0 && !exceedsBalance && !isImporting;
+
+  const handleImport = async () => {
+    if (!canImport) return;
+
+    setIsImporting(true);
+    setError(null);
+
+    // Batches keep the order of the rows they were given
+    let next = 0;
+    const lines = pendingRows.map(row => row.line);
+
+    try {
+      await onImport(pendingRows.map(row => row.schedule), batch => {
+        const batchLines = lines.slice(next, next + batch.schedules.length);
+        next += batch.schedules.length;
+        setCreated(previous => [
+          ...previous,
+          ...batchLines.map((line, index) => ({ line, scheduleId: batch.scheduleIds[index], transactionHash: batch.transactionHash }))
+        ]);
+      });
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const downloadReceipt = () => {
+    const rowsByLine = new Map(rows.map(row => [row.line, row.schedule]));
+    const csvContent = Papa.unparse(created.map(({ line, scheduleId, transactionHash }) => {
+      const schedule = rowsByLine.get(line)!;
+      return {
+        scheduleId,
+        beneficiary: schedule.beneficiary,
+        amount: schedule.amount,
+        startDate: new Date(schedule.startTime * 1000).toISOString().split('T')[0],
+        durationDays: schedule.duration / SECONDS_PER_DAY,
+        cliffDays: schedule.cliffDuration / SECONDS_PER_DAY,
+        tgePercentage: schedule.tgePercentage,
+        unlockIntervalDays: schedule.slicePeriod > 1 ? schedule.slicePeriod / SECONDS_PER_DAY : 0,
+        revocable: schedule.revocable ? 'yes' : 'no',
+        vestingContract: tokenData.vestingAddress || '',
+        transactionHash
+      };
+    }));
+    saveAs(new Blob([csvContent], { type: 'text/csv;charset=utf-8' }), `${tokenData.symbol.toLowerCase()}_vesting_receipt.csv`);
+  };
+
+  const format = (amount: bigint) => parseFloat(ethers.formatUnits(amount, tokenData.decimals)).toLocaleString();
+
+  return (
+    <div className="mt-6 border-t border-white/20 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-lg font-semibold text-white">Import Schedules</h4>
+        <button
+          onClick={downloadTemplate}
+          className="px-3 py-1 bg-white/10 text-gray-300 rounded-lg hover:bg-white/20 transition-colors text-sm flex items-center space-x-1"
+        >
+          <Download className="w-3 h-3" />
+          <span>Template</span>
+        </button>
+      </div>
+
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-6 mb-4 text-center cursor-pointer transition-colors ${
+          isDragActive
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-white/20 hover:border-white/40'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <FileText className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+        <p className="text-gray-300">
+          {isDragActive
+            ? 'Drop the file here...'
+            : fileName || 'Drag & drop a CSV or XLSX cap table, or click to select'}
+        </p>
+        <p className="text-gray-400 text-sm mt-2">
+          Columns: {VESTING_IMPORT_COLUMNS.join(', ')}
+        </p>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Rows</div>
+              <div className="text-lg font-bold text-white">{rows.length}</div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">To Create</div>
+              <div className="text-lg font-bold text-white">{format(pendingTotal)}</div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Your Balance</div>
+              <div className={`text-lg font-bold ${exceedsBalance ? 'text-red-400' : 'text-white'}`}>
+                {walletBalance !== null ? format(walletBalance) : '-'}
+              </div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Vesting Contract</div>
+              <div className="text-lg font-bold text-white">
+                {vestingBalance !== null ? format(vestingBalance) : '-'}
+              </div>
+              <div className="text-xs text-gray-400">{format(outstanding)} owed to schedules</div>
+            </div>
+          </div>
+
+          {invalidRows.length > 0 && (
+            <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+                <div>
+                  <h5 className="font-medium text-red-400 mb-1">
+                    {invalidRows.length} invalid row{invalidRows.length === 1 ? '' : 's'}; fix the file and import it again
+                  </h5>
+                  <ul className="text-red-300 text-sm space-y-1">
+                    {invalidRows.slice(0, 10).map(row => (
+                      <li key={row.line}>Row {row.line}: {row.error}</li>
+                    ))}
+                    {invalidRows.length > 10 && <li>...and {invalidRows.length - 10} more</li>}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {exceedsBalance && (
+            <p className="text-red-400 text-sm">
+              The schedules need more {tokenData.symbol} than your wallet holds.
+            </p>
+          )}
+
+          {vestingBalance !== null && vestingBalance < outstanding && (
+            <p className="text-amber-300 text-sm">
+              The vesting contract holds less than its existing schedules still owe.
+            </p>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Creating {created.length} of {rows.length}...</span>
+              </>
+            ) : (
+              <>
+                <Upload className="w-4 h-4" />
+                <span>
+                  {created.length > 0 && pendingRows.length > 0
+                    ? `Create Remaining ${pendingRows.length} Schedules`
+                    : `Create ${pendingRows.length} Schedules`}
+                </span>
+              </>
+            )}
+          </button>
+        </div>
+      )}
+
+      {created.length > 0 && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+              <div>
+                <h5 className="font-medium text-green-400 mb-1">
+                  {created.length} schedule{created.length === 1 ? '' : 's'} created
+                </h5>
+                <p className="text-green-300 text-sm">
+                  In {new Set(created.map(schedule => schedule.transactionHash)).size} transaction(s)
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={downloadReceipt}
+              className="px-3 py-1 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-sm flex items-center space-x-1"
+            >
+              <Download className="w-3 h-3" />
+              <span>Receipt</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h5 className="font-medium text-red-400 mb-1">Import Stopped</h5>
+              <p className="text-red-300 text-sm">
+                {error}
+                {created.length > 0 && ' The schedules created so far are kept; create the remaining ones to continue.'}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,123 @@
 import React, { useState } from 'react';
-import { Clock, AlertTriangle, Calendar, Users, Plus } from 'lucide-react';
-import { TokenManagementData } from '../../types/tokenManagement';
+import { Clock, AlertTriangle, Calendar, Users, Plus, Loader2, CheckCircle, Upload } from 'lucide-react';
+import { TokenManagementData, VestingSchedule, VestingScheduleInput } from '../../types/tokenManagement';
+import { vestingUnlockIntervals } from '../../data/vestingCategories';
+import { VestingBatchResult, getUnlockIntervalLabel, getVestingClaimUrl } from '../../services/vestingService';
+import { useWallet } from '../../hooks/useWallet';
+import { VestingImport } from './VestingImport';
 
 interface VestingManagementPanelProps {
   tokenData: TokenManagementData;
   isOwner: boolean;
+  userAddress: string;
+  onCreateVesting: (schedule: VestingScheduleInput) => Promise<string>;
+  onRevokeVesting: (scheduleId: number) => Promise<string>;
+  onImportVesting: (schedules: VestingScheduleInput[], onBatch?: (batch: VestingBatchResult) => void) => Promise<VestingBatchResult[]>;
+  getVestingFunding: () => Promise<{ wallet: string; vesting: string }>;
 }
 
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const getProgress = (schedule: VestingSchedule, amount: string) =>
+  (parseFloat(amount) / parseFloat(schedule.totalAmount)) * 100;
+
 export const VestingManagementPanel: React.FC<VestingManagementPanelProps> = ({
   tokenData,
-  isOwner
+  isOwner,
+  userAddress,
+  onCreateVesting,
+  onRevokeVesting,
+  onImportVesting,
+  getVestingFunding
 }) => {
+  const { chainId } = useWallet();
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [beneficiary, setBeneficiary] = useState('');
+  const [amount, setAmount] = useState('');
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [durationDays, setDurationDays] = useState('365');
+  const [cliffDays, setCliffDays] = useState('0');
+  const [tgePercentage, setTgePercentage] = useState('0');
+  const [unlockInterval, setUnlockInterval] = useState(0);
+  const [revocable, setRevocable] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revoking, setRevoking] = useState<number | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { schedules, owner: vestingOwner } = tokenData.features.vesting;
+
+  // The vesting contract is owned by the wallet that deployed it, not by the token's owner
+  const isVestingOwner = !!vestingOwner && vestingOwner.toLowerCase() === userAddress.toLowerCase();
+  const canCreate = isOwner && (!tokenData.vestingAddress || isVestingOwner);
+
+  const isValidAddress = (address: string) => {
+    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  };
+
+  // The cliff and the unlock interval both have to fit in the duration
+  const getScheduleError = () => {
+    const duration = parseInt(durationDays) || 0;
+    if ((parseInt(cliffDays) || 0) > duration) return 'The cliff cannot be longer than the duration';
+    if (unlockInterval > duration) return 'The unlock interval cannot be longer than the duration';
+    const tge = parseFloat(tgePercentage) || 0;
+    if (tge < 0 || tge > 100) return 'The TGE unlock must be between 0 and 100%';
+    return null;
+  };
+
+  const canSubmit = () => {
+    if (!canCreate) return false;
+    if (!isValidAddress(beneficiary)) return false;
+    if (!amount || parseFloat(amount) <= 0) return false;
+    if (!startDate || !(parseInt(durationDays) > 0)) return false;
+    return !getScheduleError();
+  };
+
+  const handleCreate = async () => {
+    if (!canSubmit()) return;
+    
+    setIsCreating(true);
+    setError(null);
+    setTxHash(null);
+    
+    try {
+      const hash = await onCreateVesting({
+        beneficiary,
+        amount,
+        tgePercentage: parseFloat(tgePercentage) || 0,
+        startTime: Math.floor(new Date(`${startDate}T00:00:00Z`).getTime() / 1000),
+        cliffDuration: (parseInt(cliffDays) || 0) * SECONDS_PER_DAY,
+        duration: parseInt(durationDays) * SECONDS_PER_DAY,
+        slicePeriod: unlockInterval ? unlockInterval * SECONDS_PER_DAY : 1,
+        revocable
+      });
+      setTxHash(hash);
+      setBeneficiary('');
+      setAmount('');
+      setShowCreateForm(false);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (schedule: VestingSchedule) => {
+    if (!confirm(`Revoke schedule #${schedule.id} of ${schedule.beneficiary}? Vested tokens are released to the beneficiary and the rest is returned to you.`)) return;
+    
+    setRevoking(schedule.id);
+    setError(null);
+    setTxHash(null);
+    
+    try {
+      setTxHash(await onRevokeVesting(schedule.id));
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setRevoking(null);
+    }
+  };
 
   return (
     <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
@@ -21,20 +127,47 @@ export const VestingManagementPanel: React.FC<VestingManagementPanelProps> = ({
           <h3 className="text-xl font-semibold text-white">Token Vesting</h3>
         </div>
         
-        {isOwner && (
-          <button
-            onClick={() => setShowCreateForm(!showCreateForm)}
-            className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2"
-          >
-            <Plus className="w-4 h-4" />
-            <span>Create Vesting</span>
-          </button>
+        {canCreate && (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setShowImport(!showImport)}
+              className="bg-white/10 hover:bg-white/20 text-gray-300 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import</span>
+            </button>
+            <button
+              onClick={() => setShowCreateForm(!showCreateForm)}
+              className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Create Vesting</span>
+            </button>
+          </div>
         )}
       </div>
 
+      {tokenData.vestingAddress && (
+        <div className="bg-white/5 rounded-lg p-4 mb-6">
+          <div className="text-sm text-gray-300">Vesting Contract</div>
+          <div className="text-white font-mono text-sm break-all">{tokenData.vestingAddress}</div>
+          <a
+            href={getVestingClaimUrl(tokenData.vestingAddress, chainId || undefined)}
+            className="inline-block text-blue-400 hover:text-blue-300 text-sm mt-2 transition-colors"
+          >
+            Open the beneficiary claim page →
+          </a>
+          {isOwner && !isVestingOwner && vestingOwner && (
+            <p className="text-amber-300 text-xs mt-2">
+              Owned by {vestingOwner.slice(0, 6)}...{vestingOwner.slice(-4)}; only that wallet can create or revoke schedules.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Vesting Schedules */}
       <div className="space-y-4">
-        {tokenData.features.vesting.schedules.length === 0 ? (
+        {schedules.length === 0 ? (
           <div className="bg-gray-500/20 border border-gray-500/50 rounded-lg p-8 text-center">
             <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h4 className="text-lg font-semibold text-gray-400 mb-2">No Vesting Schedules</h4>
@@ -46,8 +179,8 @@ export const VestingManagementPanel: React.FC<VestingManagementPanelProps> = ({
             </p>
           </div>
         ) : (
-          tokenData.features.vesting.schedules.map((schedule, index) => (
-            <div key={index} className="bg-white/5 rounded-lg p-4">
+          schedules.map(schedule => (
+            <div key={schedule.id} className="bg-white/5 rounded-lg p-4">
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center space-x-3 mb-2">
@@ -55,6 +188,12 @@ export const VestingManagementPanel: React.FC<VestingManagementPanelProps> = ({
                     <span className="text-white font-medium">
                       {schedule.beneficiary.slice(0, 6)}...{schedule.beneficiary.slice(-4)}
                     </span>
+                    <span className="text-gray-400 text-xs">#{schedule.id}</span>
+                    {!schedule.revocable && (
+                      <span className="px-2 py-1 bg-gray-500/20 text-gray-300 rounded-full text-xs">
+                        Irrevocable
+                      </span>
+                    )}
                     {schedule.revoked && (
                       <span className="px-2 py-1 bg-red-500/20 text-red-400 rounded-full text-xs">
                         Revoked
@@ -78,34 +217,61 @@ export const VestingManagementPanel: React.FC<VestingManagementPanelProps> = ({
                     <div>
                       <div className="text-gray-300">Duration</div>
                       <div className="text-white font-medium">
-                        {Math.floor(schedule.duration / (24 * 60 * 60))} days
+                        {Math.floor(schedule.duration / SECONDS_PER_DAY)} days
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-300">TGE Unlock</div>
+                      <div className="text-white font-medium">
+                        {parseFloat(schedule.tgeAmount).toLocaleString()} {tokenData.symbol}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-300">Cliff</div>
+                      <div className="text-white font-medium">
+                        {schedule.cliffDuration > 0 ? `${Math.floor(schedule.cliffDuration / SECONDS_PER_DAY)} days` : 'None'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-300">Unlocks</div>
+                      <div className="text-white font-medium">
+                        {getUnlockIntervalLabel(schedule.slicePeriod)}
                       </div>
                     </div>
                   </div>
                   
+                  <div className="text-xs text-gray-400 mt-3">
+                    Starts {new Date(schedule.startTime * 1000).toLocaleDateString()} · {parseFloat(schedule.vestedAmount).toLocaleString()} {tokenData.symbol} vested
+                  </div>
+                  
                   {/* Progress Bar */}
                   <div className="mt-3">
                     <div className="flex justify-between text-xs text-gray-400 mb-1">
                       <span>Progress</span>
                       <span>
-                        {((parseFloat(schedule.releasedAmount) / parseFloat(schedule.totalAmount)) * 100).toFixed(1)}%
+                        {getProgress(schedule, schedule.releasedAmount).toFixed(1)}%
                       </span>
                     </div>
                     <div className="w-full bg-gray-700 rounded-full h-2">
                       <div 
                         className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
                         style={{ 
-                          width: `${(parseFloat(schedule.releasedAmount) / parseFloat(schedule.totalAmount)) * 100}%` 
+                          width: `${getProgress(schedule, schedule.releasedAmount)}%` 
                         }}
                       ></div>
                     </div>
                   </div>
                 </div>
                 
-                {isOwner && !schedule.revoked && (
+                {isVestingOwner && schedule.revocable && !schedule.revoked && (
                   <div className="ml-4">
-                    <button className="text-red-400 hover:text-red-300 text-sm">
-                      Revoke
+                    <button
+                      onClick={() => handleRevoke(schedule)}
+                      disabled={revoking !== null}
+                      className="text-red-400 hover:text-red-300 text-sm flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {revoking === schedule.id && <Loader2 className="w-3 h-3 animate-spin" />}
+                      <span>Revoke</span>
                     </button>
                   </div>
                 )}
@@ -116,20 +282,190 @@ export const VestingManagementPanel: React.FC<VestingManagementPanelProps> = ({
       </div>
 
       {/* Create Vesting Form */}
-      {showCreateForm && isOwner && (
+      {showCreateForm && canCreate && (
         <div className="mt-6 border-t border-white/20 pt-6">
           <h4 className="text-lg font-semibold text-white mb-4">Create New Vesting Schedule</h4>
           
-          <div className="bg-amber-500/20 border border-amber-500/50 rounded-lg p-4">
-            <div className="flex items-start space-x-3">
-              <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Beneficiary Address
+              </label>
+              <input
+                type="text"
+                value={beneficiary}
+                onChange={(e) => setBeneficiary(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0x..."
+              />
+              {beneficiary && !isValidAddress(beneficiary) && (
+                <p className="text-red-400 text-sm mt-1">Invalid address format</p>
+              )}
+              {isValidAddress(beneficiary) && schedules.some(schedule => schedule.beneficiary.toLowerCase() === beneficiary.toLowerCase()) && (
+                <p className="text-gray-400 text-sm mt-1">This address already has a schedule; the new one is added alongside it</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Amount ({tokenData.symbol})
+              </label>
+              <input
+                type="number"
+                step="0.000001"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0.0"
+              />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Start Date
+                </label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Duration (days, including cliff)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={durationDays}
+                  onChange={(e) => setDurationDays(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
               <div>
-                <h5 className="font-medium text-amber-400 mb-1">Vesting Contract Required</h5>
-                <p className="text-amber-300 text-sm">
-                  Token vesting requires a separate vesting contract to be deployed. 
-                  This feature is not yet implemented in the current interface.
-                </p>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Cliff (days)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={cliffDays}
+                  onChange={(e) => setCliffDays(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  TGE Unlock (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={tgePercentage}
+                  onChange={(e) => setTgePercentage(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Unlock Interval
+                </label>
+                <select
+                  value={unlockInterval}
+                  onChange={(e) => setUnlockInterval(parseInt(e.target.value))}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {vestingUnlockIntervals.map(interval => (
+                    <option key={interval.days} value={interval.days} className="bg-gray-800">
+                      {interval.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-end">
+                <label className="flex items-center space-x-2 text-sm text-gray-300 pb-3">
+                  <input
+                    type="checkbox"
+                    checked={revocable}
+                    onChange={(e) => setRevocable(e.target.checked)}
+                    className="w-4 h-4 text-blue-500 bg-white/10 border-white/20 rounded focus:ring-blue-500"
+                  />
+                  <span>Revocable by the vesting owner</span>
+                </label>
+              </div>
+            </div>
+
+            {getScheduleError() && (
+              <p className="text-red-400 text-sm">{getScheduleError()}</p>
+            )}
+
+            <p className="text-gray-400 text-sm">
+              The TGE unlock is available at the start date. The rest stays locked until the cliff ends and then unlocks
+              at each interval until the duration, which includes the cliff, has passed.
+            </p>
+
+            <p className="text-gray-400 text-sm">
+              {tokenData.vestingAddress
+                ? 'The tokens are transferred from your wallet into the vesting contract.'
+                : 'A vesting contract is deployed for this token first, then the tokens are transferred from your wallet into it.'}
+            </p>
+
+            <button
+              onClick={handleCreate}
+              disabled={!canSubmit() || isCreating}
+              className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCreating ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>Creating Schedule...</span>
+                </>
+              ) : (
+                <>
+                  <Plus className="w-4 h-4" />
+                  <span>Create Schedule</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showImport && canCreate && (
+        <VestingImport
+          tokenData={tokenData}
+          onImport={onImportVesting}
+          getFunding={getVestingFunding}
+        />
+      )}
+
+      {/* Success Message */}
+      {txHash && (
+        <div className="mt-4 p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-green-400 mb-1">Vesting Updated</h4>
+              <p className="text-green-300 text-sm">
+                Transaction: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Vesting Transaction Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
             </div>
           </div>
         </div>
@@ -65,6 +65,48 @@ export const SELF_HOSTED_RPC = {
   7771: import.meta.env.VITE_BITROCK_TESTNET_RPC_URL || 'https://testnet.bit-rock.io'
 };
 
+// Uniswap V2 compatible routers used for token tax swap-back and auto-liquidity
+export const DEX_ROUTERS: Record<number, string> = {
+  1: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', // Uniswap V2
+  56: '0x10ED43C718714eb63d5aA57B78B54704E256024E', // PancakeSwap V2
+  137: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff', // QuickSwap
+  42161: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', // SushiSwap
+  250: '0xF491e7B69E4244ad4002BC14e878a34207E38c29', // SpookySwap
+  8453: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24', // Uniswap V2
+  97: '0xD99D1c33F9fC3444f8101754aBC46c52416550D1' // PancakeSwap V2 Testnet
+};
+
+// TokenFactory, deployed through the deterministic deployment proxy so it has the same address on every chain
+export const TOKEN_FACTORY_ADDRESS = import.meta.env.VITE_TOKEN_FACTORY_ADDRESS || '';
+
+// Factories deployed at a different address on some chains, as JSON of chain ID to address
+const TOKEN_FACTORY_ADDRESSES: Record<string, string> = (() => {
+  try {
+    return JSON.parse(import.meta.env.VITE_TOKEN_FACTORY_ADDRESSES || '{}');
+  } catch {
+    console.warn('VITE_TOKEN_FACTORY_ADDRESSES is not valid JSON');
+    return {};
+  }
+})();
+
+export const getTokenFactoryAddress = (chainId: number): string =>
+  TOKEN_FACTORY_ADDRESSES[chainId] || TOKEN_FACTORY_ADDRESS;
+
+// AutoLiquidity contracts presales list through when auto-listing is enabled, as JSON of chain ID to address
+const AUTO_LIQUIDITY_ADDRESSES: Record<string, string> = (() => {
+  try {
+    return JSON.parse(import.meta.env.VITE_AUTO_LIQUIDITY_ADDRESSES || '{}');
+  } catch {
+    console.warn('VITE_AUTO_LIQUIDITY_ADDRESSES is not valid JSON');
+    return {};
+  }
+})();
+
+export const getAutoLiquidityAddress = (chainId: number): string => AUTO_LIQUIDITY_ADDRESSES[chainId] || '';
+
+// Suggested relayer for new bridge adapters
+export const BRIDGE_RELAYER_ADDRESS = import.meta.env.VITE_BRIDGE_RELAYER_ADDRESS || '';
+
 // Network helpers
 export const isTestnet = (chainId: number): boolean => {
   return SUPPORTED_NETWORKS.TESTNET.includes(chainId);
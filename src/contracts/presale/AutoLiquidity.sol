@@ -6,6 +6,28 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 
+// Interface for DEX router (Uniswap V2 compatible)
+interface IUniswapV2Router {
+    function addLiquidity(
+        address tokenA,
+        address tokenB,
+        uint amountADesired,
+        uint amountBDesired,
+        uint amountAMin,
+        uint amountBMin,
+        address to,
+        uint deadline
+    ) external returns (uint amountA, uint amountB, uint liquidity);
+    
+    function factory() external view returns (address);
+}
+
+// Interface for DEX factory
+interface IUniswapV2Factory {
+    function getPair(address tokenA, address tokenB) external view returns (address pair);
+    function createPair(address tokenA, address tokenB) external returns (address pair);
+}
+
 /**
  * @title AutoLiquidity
  * @dev Contract for automatically adding liquidity to DEX after presale
@@ -13,28 +35,6 @@ import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 contract AutoLiquidity is Ownable, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
-    // Interface for DEX router (Uniswap V2 compatible)
-    interface IUniswapV2Router {
-        function addLiquidity(
-            address tokenA,
-            address tokenB,
-            uint amountADesired,
-            uint amountBDesired,
-            uint amountAMin,
-            uint amountBMin,
-            address to,
-            uint deadline
-        ) external returns (uint amountA, uint amountB, uint liquidity);
-        
-        function factory() external view returns (address);
-    }
-    
-    // Interface for DEX factory
-    interface IUniswapV2Factory {
-        function getPair(address tokenA, address tokenB) external view returns (address pair);
-        function createPair(address tokenA, address tokenB) external returns (address pair);
-    }
-
     struct ListingInfo {
         address token;
         address baseToken;
@@ -60,6 +60,10 @@ contract AutoLiquidity is Ownable, ReentrancyGuard {
     
     // Fee recipient
     address public feeRecipient;
+    
+    // Largest shortfall from the offered amounts a listing accepts (10 = 1%), so a pair someone already
+    // seeded at another price makes the listing revert instead of setting its price
+    uint256 public constant MAX_LISTING_SLIPPAGE = 10;
 
     event LiquidityAdded(
         address indexed presale,
@@ -107,50 +111,16 @@ contract AutoLiquidity is Ownable, ReentrancyGuard {
         if (baseToken == address(0)) baseToken = defaultBaseToken;
         if (router == address(0)) router = defaultRouter;
         
-        // Calculate fee
-        uint256 tokenFee = (tokenAmount * platformFee) / 1000;
-        uint256 baseTokenFee = (baseTokenAmount * platformFee) / 1000;
-        
-        uint256 tokenAmountAfterFee = tokenAmount - tokenFee;
-        uint256 baseTokenAmountAfterFee = baseTokenAmount - baseTokenFee;
-        
-        // Transfer tokens to this contract
-        IERC20(token).safeTransferFrom(msg.sender, address(this), tokenAmount);
-        IERC20(baseToken).safeTransferFrom(msg.sender, address(this), baseTokenAmount);
-        
-        // Transfer fees to fee recipient if fees > 0
-        if (tokenFee > 0) {
-            IERC20(token).safeTransfer(feeRecipient, tokenFee);
-        }
-        if (baseTokenFee > 0) {
-            IERC20(baseToken).safeTransfer(feeRecipient, baseTokenFee);
-        }
+        // Transfer tokens to this contract, less the platform fee
+        uint256 tokenAmountAfterFee = _collect(token, tokenAmount);
+        uint256 baseTokenAmountAfterFee = _collect(baseToken, baseTokenAmount);
         
-        // Approve router to spend tokens
-        IERC20(token).safeApprove(router, tokenAmountAfterFee);
-        IERC20(baseToken).safeApprove(router, baseTokenAmountAfterFee);
-        
-        // Get factory address
-        IUniswapV2Router dexRouter = IUniswapV2Router(router);
-        address factory = dexRouter.factory();
-        
-        // Create pair if it doesn't exist
-        IUniswapV2Factory dexFactory = IUniswapV2Factory(factory);
-        address pair = dexFactory.getPair(token, baseToken);
-        if (pair == address(0)) {
-            pair = dexFactory.createPair(token, baseToken);
-        }
-        
-        // Add liquidity
-        (uint256 tokenUsed, uint256 baseTokenUsed, uint256 liquidity) = dexRouter.addLiquidity(
+        (uint256 tokenUsed, uint256 baseTokenUsed, address pair) = _addToPool(
             token,
             baseToken,
             tokenAmountAfterFee,
             baseTokenAmountAfterFee,
-            0, // Accept any amount
-            0, // Accept any amount
-            msg.sender, // LP tokens go to sender
-            block.timestamp + 300 // 5 minute deadline
+            router
         );
         
         // Store listing info
@@ -166,14 +136,11 @@ contract AutoLiquidity is Ownable, ReentrancyGuard {
         });
         
         // Refund any unused tokens
-        uint256 unusedToken = tokenAmountAfterFee - tokenUsed;
-        uint256 unusedBaseToken = baseTokenAmountAfterFee - baseTokenUsed;
-        
-        if (unusedToken > 0) {
-            IERC20(token).safeTransfer(msg.sender, unusedToken);
+        if (tokenAmountAfterFee > tokenUsed) {
+            IERC20(token).safeTransfer(msg.sender, tokenAmountAfterFee - tokenUsed);
         }
-        if (unusedBaseToken > 0) {
-            IERC20(baseToken).safeTransfer(msg.sender, unusedBaseToken);
+        if (baseTokenAmountAfterFee > baseTokenUsed) {
+            IERC20(baseToken).safeTransfer(msg.sender, baseTokenAmountAfterFee - baseTokenUsed);
         }
         
         emit LiquidityAdded(presale, token, baseToken, tokenUsed, baseTokenUsed, pair);
@@ -181,6 +148,66 @@ contract AutoLiquidity is Ownable, ReentrancyGuard {
         return pair;
     }
 
+    /**
+     * @dev Pull tokens from the caller and pay the platform fee, returning the amount left for the pool
+     */
+    function _collect(address token, uint256 amount) private returns (uint256) {
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        
+        // Transfer fees to fee recipient if fees > 0
+        uint256 fee = (amount * platformFee) / 1000;
+        if (fee > 0) {
+            IERC20(token).safeTransfer(feeRecipient, fee);
+        }
+        
+        return amount - fee;
+    }
+
+    /**
+     * @dev Create the pair if needed and add liquidity at the offered ratio, sending the LP tokens to the caller
+     */
+    function _addToPool(
+        address token,
+        address baseToken,
+        uint256 tokenAmount,
+        uint256 baseTokenAmount,
+        address router
+    ) private returns (uint256 tokenUsed, uint256 baseTokenUsed, address pair) {
+        // Approve router to spend tokens
+        IERC20(token).safeApprove(router, tokenAmount);
+        IERC20(baseToken).safeApprove(router, baseTokenAmount);
+        
+        // Get factory address
+        IUniswapV2Router dexRouter = IUniswapV2Router(router);
+        IUniswapV2Factory dexFactory = IUniswapV2Factory(dexRouter.factory());
+        
+        // Create pair if it doesn't exist
+        pair = dexFactory.getPair(token, baseToken);
+        if (pair == address(0)) {
+            pair = dexFactory.createPair(token, baseToken);
+        }
+        
+        // Add liquidity
+        (tokenUsed, baseTokenUsed, ) = dexRouter.addLiquidity(
+            token,
+            baseToken,
+            tokenAmount,
+            baseTokenAmount,
+            (tokenAmount * (1000 - MAX_LISTING_SLIPPAGE)) / 1000,
+            (baseTokenAmount * (1000 - MAX_LISTING_SLIPPAGE)) / 1000,
+            msg.sender, // LP tokens go to sender
+            block.timestamp + 300 // 5 minute deadline
+        );
+        
+        // Clear allowances the router did not use so later listings can approve again
+        if (tokenUsed < tokenAmount) {
+            IERC20(token).safeApprove(router, 0);
+        }
+        if (baseTokenUsed < baseTokenAmount) {
+            IERC20(baseToken).safeApprove(router, 0);
+        }
+    }
+
     /**
      * @dev Get listing info
      * @param presale Address of the presale contract
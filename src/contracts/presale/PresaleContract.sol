@@ -2,21 +2,37 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 
+interface IAutoLiquidity {
+    function addLiquidity(
+        address presale,
+        address token,
+        address baseToken,
+        uint256 tokenAmount,
+        uint256 baseTokenAmount,
+        address router
+    ) external returns (address);
+}
+
 /**
  * @title PresaleContract
- * @dev A comprehensive presale contract with vesting, whitelist, and refund capabilities
+ * @dev A comprehensive presale contract with vesting, whitelist, and refund capabilities. Sales raise the
+ * network's native currency or an ERC-20 payment token such as USDT; contributions stay in the contract
+ * until the sale is finalized, so they can be refunded in the same currency
  */
 contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     using SafeERC20 for IERC20;
 
     struct SaleInfo {
         IERC20 token;
-        uint256 tokenPrice; // tokens per 1 ETH/BNB/etc
+        IERC20 paymentToken; // address(0) for the native currency
+        uint256 tokenPrice; // token units per 1 whole payment token or ETH/BNB/etc
+        // Caps and purchase limits are in payment token units
         uint256 softCap;
         uint256 hardCap;
         uint256 minPurchase;
@@ -32,6 +48,16 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         uint256 vestingDuration; // in seconds
     }
 
+    // Lists the token against the payment token through AutoLiquidity when the sale is finalized
+    struct AutoListingInfo {
+        bool enabled;
+        address liquidity; // AutoLiquidity contract
+        address router; // address(0) for AutoLiquidity's default router
+        uint256 listingPrice; // token units per 1 whole payment token
+        uint256 liquidityPercentage; // percentage of the raise paired with tokens (0-100)
+        uint256 lockDuration; // in seconds; the LP tokens stay in this contract until then
+    }
+
     struct Participant {
         uint256 contribution;
         uint256 tokenAmount;
@@ -42,6 +68,10 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
 
     SaleInfo public saleInfo;
     VestingInfo public vestingInfo;
+    AutoListingInfo public autoListingInfo;
+    
+    // 10 ** decimals of the payment currency
+    uint256 public immutable paymentUnit;
     
     mapping(address => Participant) public participants;
     mapping(address => bool) public whitelist;
@@ -52,15 +82,25 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     uint256 public totalRaised;
     uint256 public totalParticipants;
     uint256 public totalTokensSold;
+    uint256 public totalTokensClaimed;
     
     bool public saleFinalized;
     bool public refundsEnabled;
+
+    // Anyone can open refunds once the owner has left a sale unfinalized this long after it ended
+    uint256 public constant FINALIZE_GRACE_PERIOD = 7 days;
+    
+    address public lpToken;
+    uint256 public liquidityUnlockTime;
     
     event TokensPurchased(address indexed buyer, uint256 amount, uint256 tokenAmount);
     event TokensClaimed(address indexed buyer, uint256 amount);
     event SaleFinalized(uint256 totalRaised, uint256 totalTokensSold);
     event RefundClaimed(address indexed buyer, uint256 amount);
+    event RefundsEnabled(uint256 totalRaised);
     event WhitelistUpdated(address indexed user, bool status);
+    event AutoListed(address indexed lpToken, uint256 tokenAmount, uint256 paymentAmount, uint256 unlockTime);
+    event LiquidityWithdrawn(address indexed lpToken, uint256 amount);
 
     modifier onlyWhitelisted() {
         if (saleInfo.whitelistEnabled) {
@@ -84,49 +124,89 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     constructor(
         SaleInfo memory _saleInfo,
         VestingInfo memory _vestingInfo,
+        AutoListingInfo memory _autoListingInfo,
         address _saleReceiver,
         address _refundWallet
     ) {
+        // AutoLiquidity pairs two ERC-20 tokens, so only payment token sales can be listed
+        require(
+            !_autoListingInfo.enabled || (address(_saleInfo.paymentToken) != address(0) && _autoListingInfo.liquidity != address(0)),
+            "Auto-listing needs a payment token"
+        );
+        require(_autoListingInfo.liquidityPercentage <= 100, "Invalid liquidity percentage");
+
         saleInfo = _saleInfo;
         vestingInfo = _vestingInfo;
+        autoListingInfo = _autoListingInfo;
         saleReceiver = _saleReceiver;
         refundWallet = _refundWallet;
+        paymentUnit = address(_saleInfo.paymentToken) == address(0)
+            ? 1 ether
+            : 10 ** IERC20Metadata(address(_saleInfo.paymentToken)).decimals();
     }
 
     /**
-     * @dev Purchase tokens during the sale
+     * @dev Purchase tokens with the native currency during the sale
      */
     function buyTokens() external payable nonReentrant whenNotPaused saleActive onlyWhitelisted {
-        require(msg.value >= saleInfo.minPurchase, "Below minimum purchase");
-        require(msg.value <= saleInfo.maxPurchase, "Above maximum purchase");
-        require(totalRaised + msg.value <= saleInfo.hardCap, "Hard cap exceeded");
+        require(address(saleInfo.paymentToken) == address(0), "Pay with the payment token");
+        _purchase(msg.value);
+    }
+
+    /**
+     * @dev Purchase tokens with the payment token; the sale must be approved to spend the amount first
+     */
+    function buyTokensWithPaymentToken(uint256 amount) external nonReentrant whenNotPaused saleActive onlyWhitelisted {
+        require(address(saleInfo.paymentToken) != address(0), "Pay with the native currency");
+
+        // Contributions are only counted if the full amount arrives
+        uint256 balanceBefore = saleInfo.paymentToken.balanceOf(address(this));
+        saleInfo.paymentToken.safeTransferFrom(msg.sender, address(this), amount);
+        require(saleInfo.paymentToken.balanceOf(address(this)) - balanceBefore == amount, "Transfer fees apply to payments");
+
+        _purchase(amount);
+    }
+
+    function _purchase(uint256 amount) private {
+        require(amount >= saleInfo.minPurchase, "Below minimum purchase");
+        require(amount <= saleInfo.maxPurchase, "Above maximum purchase");
+        require(totalRaised + amount <= saleInfo.hardCap, "Hard cap exceeded");
 
         Participant storage participant = participants[msg.sender];
-        require(participant.contribution + msg.value <= saleInfo.maxPurchase, "Max purchase per wallet exceeded");
+        require(participant.contribution + amount <= saleInfo.maxPurchase, "Max purchase per wallet exceeded");
 
-        uint256 tokenAmount = msg.value * saleInfo.tokenPrice;
+        uint256 tokenAmount = (amount * saleInfo.tokenPrice) / paymentUnit;
         
         if (participant.contribution == 0) {
             totalParticipants++;
         }
         
-        participant.contribution += msg.value;
+        participant.contribution += amount;
         participant.tokenAmount += tokenAmount;
         
-        totalRaised += msg.value;
+        totalRaised += amount;
         totalTokensSold += tokenAmount;
 
-        // Transfer funds to sale receiver
-        payable(saleReceiver).transfer(msg.value);
+        emit TokensPurchased(msg.sender, amount, tokenAmount);
+    }
 
-        emit TokensPurchased(msg.sender, msg.value, tokenAmount);
+    function _sendPayment(address to, uint256 amount) private {
+        if (address(saleInfo.paymentToken) == address(0)) {
+            (bool success, ) = payable(to).call{value: amount}("");
+            require(success, "Payment failed");
+        } else {
+            saleInfo.paymentToken.safeTransfer(to, amount);
+        }
     }
 
     /**
-     * @dev Claim purchased tokens (with vesting if enabled)
+     * @dev Claim purchased tokens (with vesting if enabled). Auto-listed sales only release tokens once the
+     * sale is finalized, so no buyer can seed the pair at another price before the listing
      */
     function claimTokens() external nonReentrant saleEnded {
         require(totalRaised >= saleInfo.softCap, "Soft cap not reached");
+        require(!refundsEnabled, "Sale refunded");
+        require(saleFinalized || !autoListingInfo.enabled, "Sale not finalized");
         
         Participant storage participant = participants[msg.sender];
         require(participant.tokenAmount > 0, "No tokens to claim");
@@ -136,6 +216,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
 
         participant.claimedTokens += claimableAmount;
         participant.lastClaimTime = block.timestamp;
+        totalTokensClaimed += claimableAmount;
 
         saleInfo.token.safeTransfer(msg.sender, claimableAmount);
 
@@ -150,6 +231,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         
         if (p.tokenAmount == 0) return 0;
         if (totalRaised < saleInfo.softCap) return 0;
+        if (refundsEnabled || (autoListingInfo.enabled && !saleFinalized)) return 0;
         if (!vestingInfo.enabled) return p.tokenAmount - p.claimedTokens;
 
         uint256 initialAmount = (p.tokenAmount * vestingInfo.initialRelease) / 100;
@@ -170,10 +252,9 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     }
 
     /**
-     * @dev Claim refund if soft cap not reached
+     * @dev Claim refund if soft cap not reached, or if the sale was not finalized in time
      */
     function claimRefund() external nonReentrant saleEnded {
-        require(totalRaised < saleInfo.softCap, "Soft cap reached, no refunds");
         require(refundsEnabled, "Refunds not enabled");
         
         Participant storage participant = participants[msg.sender];
@@ -183,26 +264,96 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         participant.contribution = 0;
         participant.tokenAmount = 0;
 
-        payable(msg.sender).transfer(refundAmount);
+        _sendPayment(msg.sender, refundAmount);
 
         emit RefundClaimed(msg.sender, refundAmount);
     }
 
     /**
-     * @dev Finalize the sale (owner only)
+     * @dev Open refunds when the owner has not finalized the sale within FINALIZE_GRACE_PERIOD after it
+     * ended, e.g. because listing failed; anyone can call it. Buyers of sales that reached their soft cap
+     * without auto-listing can claim their tokens without finalization instead
      */
-    function finalizeSale() external onlyOwner {
+    function enableRefunds() external {
+        require(!saleFinalized, "Already finalized");
+        require(block.timestamp > saleInfo.endTime + FINALIZE_GRACE_PERIOD, "Owner can still finalize");
+        require(totalRaised < saleInfo.softCap || autoListingInfo.enabled, "Tokens are claimable");
+
+        saleFinalized = true;
+        refundsEnabled = true;
+
+        emit RefundsEnabled(totalRaised);
+    }
+
+    /**
+     * @dev Finalize the sale (owner only). A successful sale pays the raise to the sale receiver, less the
+     * part listed with tokens from this contract's balance when auto-listing is enabled
+     */
+    function finalizeSale() external onlyOwner nonReentrant {
         require(!saleFinalized, "Already finalized");
         
         saleFinalized = true;
         
         if (totalRaised < saleInfo.softCap) {
             refundsEnabled = true;
+        } else {
+            uint256 listingAmount = autoListingInfo.enabled
+                ? (totalRaised * autoListingInfo.liquidityPercentage) / 100
+                : 0;
+            uint256 listedAmount = listingAmount > 0 ? _autoList(listingAmount) : 0;
+            _sendPayment(saleReceiver, totalRaised - listedAmount);
         }
 
         emit SaleFinalized(totalRaised, totalTokensSold);
     }
 
+    // Returns the payment tokens AutoLiquidity kept, including its fee; the pool's leftovers come back to this contract
+    function _autoList(uint256 paymentAmount) private returns (uint256) {
+        uint256 tokenAmount = (paymentAmount * autoListingInfo.listingPrice) / paymentUnit;
+        uint256 claimsOutstanding = totalTokensSold - totalTokensClaimed;
+        uint256 paymentBalance = saleInfo.paymentToken.balanceOf(address(this));
+        require(
+            saleInfo.token.balanceOf(address(this)) >= claimsOutstanding + tokenAmount,
+            "Not enough tokens for listing"
+        );
+
+        saleInfo.token.safeApprove(autoListingInfo.liquidity, tokenAmount);
+        saleInfo.paymentToken.safeApprove(autoListingInfo.liquidity, paymentAmount);
+
+        lpToken = IAutoLiquidity(autoListingInfo.liquidity).addLiquidity(
+            address(this),
+            address(saleInfo.token),
+            address(saleInfo.paymentToken),
+            tokenAmount,
+            paymentAmount,
+            autoListingInfo.router
+        );
+        liquidityUnlockTime = block.timestamp + autoListingInfo.lockDuration;
+
+        // Tokens the pool did not take go back to the owner with the rest of the unsold supply
+        uint256 unusedTokens = saleInfo.token.balanceOf(address(this));
+        if (unusedTokens > claimsOutstanding) {
+            saleInfo.token.safeTransfer(owner(), unusedTokens - claimsOutstanding);
+        }
+
+        uint256 listedAmount = paymentBalance - saleInfo.paymentToken.balanceOf(address(this));
+        emit AutoListed(lpToken, tokenAmount, listedAmount, liquidityUnlockTime);
+        return listedAmount;
+    }
+
+    /**
+     * @dev Withdraw the listed LP tokens once their lock has ended (owner only)
+     */
+    function withdrawLiquidity() external onlyOwner nonReentrant {
+        require(lpToken != address(0), "Not listed");
+        require(block.timestamp >= liquidityUnlockTime, "Liquidity is locked");
+
+        uint256 amount = IERC20(lpToken).balanceOf(address(this));
+        IERC20(lpToken).safeTransfer(owner(), amount);
+
+        emit LiquidityWithdrawn(lpToken, amount);
+    }
+
     /**
      * @dev Update whitelist status for multiple addresses
      */
@@ -217,9 +368,21 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     }
 
     /**
-     * @dev Emergency withdraw tokens (owner only)
+     * @dev Emergency withdraw tokens (owner only). Contributions cannot be withdrawn before a successful
+     * finalization, sold tokens not before they are claimed unless the sale is refunded, and listed
+     * liquidity not before its lock ends
      */
     function emergencyWithdraw(IERC20 token, uint256 amount) external onlyOwner {
+        require(
+            address(token) != address(saleInfo.paymentToken) || (saleFinalized && !refundsEnabled),
+            "Contributions are held for the sale"
+        );
+        require(
+            address(token) != address(saleInfo.token) || refundsEnabled ||
+                token.balanceOf(address(this)) >= totalTokensSold - totalTokensClaimed + amount,
+            "Tokens are held for claims"
+        );
+        require(address(token) != lpToken || block.timestamp >= liquidityUnlockTime, "Liquidity is locked");
         token.safeTransfer(owner(), amount);
     }
 
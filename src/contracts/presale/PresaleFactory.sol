@@ -45,6 +45,7 @@ contract PresaleFactory is Ownable {
     function createPresale(
         PresaleContract.SaleInfo memory saleInfo,
         PresaleContract.VestingInfo memory vestingInfo,
+        PresaleContract.AutoListingInfo memory autoListingInfo,
         address saleReceiver,
         address refundWallet
     ) external payable returns (address) {
@@ -54,6 +55,7 @@ contract PresaleFactory is Ownable {
         PresaleContract presale = new PresaleContract(
             saleInfo,
             vestingInfo,
+            autoListingInfo,
             saleReceiver,
             refundWallet
         );
@@ -8,121 +8,169 @@ import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 
 /**
  * @title TokenVesting
- * @dev Token vesting contract with linear release schedule
+ * @dev Token vesting with any number of schedules per beneficiary. A schedule can release part of its
+ * tokens at the start (TGE), holds the rest until its cliff and then unlocks it linearly in slices
  */
 contract TokenVesting is Ownable, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
     struct VestingSchedule {
+        address beneficiary;
         uint256 totalAmount;
+        uint256 tgeAmount; // Released at startTime
         uint256 startTime;
-        uint256 duration;
+        uint256 cliffDuration; // Seconds after startTime before the rest starts unlocking
+        uint256 duration; // Seconds from startTime until everything is unlocked, including the cliff
+        uint256 slicePeriod; // Tokens unlock in whole slices of this many seconds
         uint256 releasedAmount;
+        bool revocable;
         bool revoked;
     }
 
+    struct ScheduleParams {
+        address beneficiary;
+        uint256 totalAmount;
+        uint256 tgeAmount;
+        uint256 startTime;
+        uint256 cliffDuration;
+        uint256 duration;
+        uint256 slicePeriod;
+        bool revocable;
+    }
+
     IERC20 public immutable token;
-    mapping(address => VestingSchedule) public vestingSchedules;
-    mapping(address => bool) public vestingExists;
+    VestingSchedule[] private _schedules;
+    mapping(address => uint256[]) private _beneficiarySchedules;
+    address[] private _beneficiaries;
     
     uint256 public totalVestedAmount;
     uint256 public totalReleasedAmount;
 
-    event VestingScheduleCreated(
-        address indexed beneficiary,
-        uint256 totalAmount,
-        uint256 startTime,
-        uint256 duration
-    );
-    
-    event TokensReleased(address indexed beneficiary, uint256 amount);
-    event VestingRevoked(address indexed beneficiary, uint256 unreleased);
+    event VestingScheduleCreated(uint256 indexed scheduleId, address indexed beneficiary, uint256 totalAmount);
+    event TokensReleased(uint256 indexed scheduleId, address indexed beneficiary, uint256 amount);
+    event VestingRevoked(uint256 indexed scheduleId, address indexed beneficiary, uint256 unreleased);
 
     constructor(IERC20 token_) {
         token = token_;
     }
 
-    function createVestingSchedule(
-        address beneficiary,
-        uint256 totalAmount,
-        uint256 startTime,
-        uint256 duration
-    ) external onlyOwner {
-        require(beneficiary != address(0), "Invalid beneficiary");
-        require(totalAmount > 0, "Amount must be > 0");
-        require(duration > 0, "Duration must be > 0");
-        require(!vestingExists[beneficiary], "Vesting already exists");
-
-        vestingSchedules[beneficiary] = VestingSchedule({
-            totalAmount: totalAmount,
-            startTime: startTime,
-            duration: duration,
+    function createVestingSchedule(ScheduleParams calldata params) external onlyOwner returns (uint256 scheduleId) {
+        scheduleId = _addVestingSchedule(params);
+        _deposit(params.totalAmount);
+    }
+
+    /**
+     * @dev Creates several schedules and pulls their tokens from the owner in one transfer
+     */
+    function createVestingSchedules(ScheduleParams[] calldata params) external onlyOwner {
+        uint256 total;
+        for (uint256 i = 0; i < params.length; i++) {
+            _addVestingSchedule(params[i]);
+            total += params[i].totalAmount;
+        }
+        _deposit(total);
+    }
+
+    function getScheduleCount() external view returns (uint256) {
+        return _schedules.length;
+    }
+
+    function getScheduleIds(address beneficiary) external view returns (uint256[] memory) {
+        return _beneficiarySchedules[beneficiary];
+    }
+
+    function getBeneficiaries() external view returns (address[] memory) {
+        return _beneficiaries;
+    }
+
+    function _addVestingSchedule(ScheduleParams calldata params) private returns (uint256 scheduleId) {
+        require(params.beneficiary != address(0), "Invalid beneficiary");
+        require(params.totalAmount > 0, "Amount must be > 0");
+        require(params.tgeAmount <= params.totalAmount, "TGE exceeds amount");
+        require(params.duration > 0, "Duration must be > 0");
+        require(params.cliffDuration <= params.duration, "Cliff exceeds duration");
+        require(params.slicePeriod > 0 && params.slicePeriod <= params.duration, "Invalid slice period");
+
+        scheduleId = _schedules.length;
+        _schedules.push(VestingSchedule({
+            beneficiary: params.beneficiary,
+            totalAmount: params.totalAmount,
+            tgeAmount: params.tgeAmount,
+            startTime: params.startTime,
+            cliffDuration: params.cliffDuration,
+            duration: params.duration,
+            slicePeriod: params.slicePeriod,
             releasedAmount: 0,
+            revocable: params.revocable,
             revoked: false
-        });
+        }));
 
-        vestingExists[beneficiary] = true;
-        totalVestedAmount += totalAmount;
+        if (_beneficiarySchedules[params.beneficiary].length == 0) {
+            _beneficiaries.push(params.beneficiary);
+        }
+        _beneficiarySchedules[params.beneficiary].push(scheduleId);
+        totalVestedAmount += params.totalAmount;
 
-        token.safeTransferFrom(msg.sender, address(this), totalAmount);
+        emit VestingScheduleCreated(scheduleId, params.beneficiary, params.totalAmount);
+    }
 
-        emit VestingScheduleCreated(beneficiary, totalAmount, startTime, duration);
+    // Schedules are only backed if the full amount arrives, so tokens that charge fees on the
+    // transfer into this contract are rejected
+    function _deposit(uint256 amount) private {
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        require(token.balanceOf(address(this)) - balanceBefore == amount, "Transfer fees apply to deposits");
     }
 
-    function release() external nonReentrant {
-        address beneficiary = msg.sender;
-        require(vestingExists[beneficiary], "No vesting schedule");
-        
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
+    function release(uint256 scheduleId) external nonReentrant {
+        VestingSchedule storage schedule = _getSchedule(scheduleId);
+        require(schedule.beneficiary == msg.sender, "Not the beneficiary");
         require(!schedule.revoked, "Vesting revoked");
 
-        uint256 releasableAmount = getReleasableAmount(beneficiary);
+        uint256 releasableAmount = _releasableAmount(schedule);
         require(releasableAmount > 0, "No tokens to release");
 
-        schedule.releasedAmount += releasableAmount;
-        totalReleasedAmount += releasableAmount;
-
-        token.safeTransfer(beneficiary, releasableAmount);
-
-        emit TokensReleased(beneficiary, releasableAmount);
+        _release(scheduleId, schedule, releasableAmount);
     }
 
-    function getReleasableAmount(address beneficiary) public view returns (uint256) {
-        if (!vestingExists[beneficiary]) return 0;
-        
-        VestingSchedule memory schedule = vestingSchedules[beneficiary];
-        if (schedule.revoked) return 0;
+    /**
+     * @dev Releases everything the caller's schedules have unlocked
+     */
+    function releaseAll() external nonReentrant {
+        uint256[] storage scheduleIds = _beneficiarySchedules[msg.sender];
+        uint256 total;
+
+        for (uint256 i = 0; i < scheduleIds.length; i++) {
+            VestingSchedule storage schedule = _schedules[scheduleIds[i]];
+            uint256 releasableAmount = _releasableAmount(schedule);
+            if (releasableAmount > 0) {
+                schedule.releasedAmount += releasableAmount;
+                total += releasableAmount;
+                emit TokensReleased(scheduleIds[i], msg.sender, releasableAmount);
+            }
+        }
+        require(total > 0, "No tokens to release");
 
-        return getVestedAmount(beneficiary) - schedule.releasedAmount;
+        totalReleasedAmount += total;
+        token.safeTransfer(msg.sender, total);
     }
 
-    function getVestedAmount(address beneficiary) public view returns (uint256) {
-        if (!vestingExists[beneficiary]) return 0;
-        
-        VestingSchedule memory schedule = vestingSchedules[beneficiary];
-        if (schedule.revoked) return schedule.releasedAmount;
+    function getReleasableAmount(uint256 scheduleId) public view returns (uint256) {
+        return _releasableAmount(_getSchedule(scheduleId));
+    }
 
-        if (block.timestamp < schedule.startTime) {
-            return 0;
-        } else if (block.timestamp >= schedule.startTime + schedule.duration) {
-            return schedule.totalAmount;
-        } else {
-            uint256 timeElapsed = block.timestamp - schedule.startTime;
-            return (schedule.totalAmount * timeElapsed) / schedule.duration;
-        }
+    function getVestedAmount(uint256 scheduleId) public view returns (uint256) {
+        return _vestedAmount(_getSchedule(scheduleId));
     }
 
-    function revokeVesting(address beneficiary) external onlyOwner {
-        require(vestingExists[beneficiary], "No vesting schedule");
-        
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
+    function revokeVesting(uint256 scheduleId) external onlyOwner {
+        VestingSchedule storage schedule = _getSchedule(scheduleId);
+        require(schedule.revocable, "Schedule is not revocable");
         require(!schedule.revoked, "Already revoked");
 
-        uint256 releasableAmount = getReleasableAmount(beneficiary);
+        uint256 releasableAmount = _releasableAmount(schedule);
         if (releasableAmount > 0) {
-            schedule.releasedAmount += releasableAmount;
-            totalReleasedAmount += releasableAmount;
-            token.safeTransfer(beneficiary, releasableAmount);
+            _release(scheduleId, schedule, releasableAmount);
         }
 
         uint256 unreleased = schedule.totalAmount - schedule.releasedAmount;
@@ -132,29 +180,52 @@ contract TokenVesting is Ownable, ReentrancyGuard {
             token.safeTransfer(owner(), unreleased);
         }
 
-        emit VestingRevoked(beneficiary, unreleased);
+        emit VestingRevoked(scheduleId, schedule.beneficiary, unreleased);
     }
 
-    function getVestingSchedule(address beneficiary) external view returns (
-        uint256 totalAmount,
-        uint256 startTime,
-        uint256 duration,
-        uint256 releasedAmount,
+    function getVestingSchedule(uint256 scheduleId) external view returns (
+        VestingSchedule memory schedule,
         uint256 vestedAmount,
-        uint256 releasableAmount,
-        bool revoked
+        uint256 releasableAmount
     ) {
-        require(vestingExists[beneficiary], "No vesting schedule");
-        
-        VestingSchedule memory schedule = vestingSchedules[beneficiary];
-        return (
-            schedule.totalAmount,
-            schedule.startTime,
-            schedule.duration,
-            schedule.releasedAmount,
-            getVestedAmount(beneficiary),
-            getReleasableAmount(beneficiary),
-            schedule.revoked
-        );
-    }
-}
\ No newline at end of file
+        VestingSchedule storage stored = _getSchedule(scheduleId);
+        return (stored, _vestedAmount(stored), _releasableAmount(stored));
+    }
+
+    function _getSchedule(uint256 scheduleId) private view returns (VestingSchedule storage) {
+        require(scheduleId < _schedules.length, "No vesting schedule");
+        return _schedules[scheduleId];
+    }
+
+    function _release(uint256 scheduleId, VestingSchedule storage schedule, uint256 amount) private {
+        schedule.releasedAmount += amount;
+        totalReleasedAmount += amount;
+
+        token.safeTransfer(schedule.beneficiary, amount);
+
+        emit TokensReleased(scheduleId, schedule.beneficiary, amount);
+    }
+
+    function _releasableAmount(VestingSchedule storage schedule) private view returns (uint256) {
+        if (schedule.revoked) return 0;
+
+        return _vestedAmount(schedule) - schedule.releasedAmount;
+    }
+
+    function _vestedAmount(VestingSchedule storage schedule) private view returns (uint256) {
+        if (schedule.revoked) return schedule.releasedAmount;
+
+        if (block.timestamp < schedule.startTime) {
+            return 0;
+        } else if (block.timestamp >= schedule.startTime + schedule.duration) {
+            return schedule.totalAmount;
+        } else if (block.timestamp < schedule.startTime + schedule.cliffDuration) {
+            return schedule.tgeAmount;
+        } else {
+            // Time is counted from the start, so the slices that passed during the cliff unlock with it
+            uint256 timeElapsed = block.timestamp - schedule.startTime;
+            uint256 vestedTime = timeElapsed - (timeElapsed % schedule.slicePeriod);
+            return schedule.tgeAmount + ((schedule.totalAmount - schedule.tgeAmount) * vestedTime) / schedule.duration;
+        }
+    }
+}
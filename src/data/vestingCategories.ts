@@ -64,4 +64,12 @@ export const vestingCategories: Array<{
     suggestedPercentage: 5,
     suggestedDuration: 910 // 2.5 years
   }
-];
\ No newline at end of file
+];
+// Days between unlocks; continuous schedules unlock every second
+export const vestingUnlockIntervals: Array<{ days: number; label: string }> = [
+  { days: 0, label: 'Continuous' },
+  { days: 1, label: 'Daily' },
+  { days: 7, label: 'Weekly' },
+  { days: 30, label: 'Monthly (30 days)' },
+  { days: 90, label: 'Quarterly (90 days)' }
+];
@@ -0,0 +1,149 @@
+import { useState, useCallback } from 'react';
+import { TokenConfig, Network, DeploymentResult, DeploymentJob } from '../types';
+import { DEX_ROUTERS } from '../config/constants';
+import { contractService } from '../services/contractService';
+import { web3Service } from '../services/web3Service';
+
+export type ChainDeploymentStatus = 'pending' | 'switching' | 'deploying' | 'deployed' | 'failed';
+
+export interface ChainDeployment {
+  network: Network;
+  status: ChainDeploymentStatus;
+  result?: DeploymentResult;
+  error?: string;
+  job?: DeploymentJob; // Server-side deployment job, once queued
+}
+
+interface MultiChainProgress {
+  projectId: string;
+  chains: ChainDeployment[];
+}
+
+// Networks in deployment order, the primary network first
+export const getTargetNetworks = (config: TokenConfig): Network[] => [
+  config.network,
+  ...(config.additionalNetworks || []).filter(network => network.chainId !== config.network.chainId)
+];
+
+// DEX routers differ per chain: the builder's default router for the primary network is
+// replaced with the target network's, a custom router is kept as entered
+export const getNetworkConfig = (config: TokenConfig, network: Network): TokenConfig => {
+  const taxes = config.features.taxes;
+  const usesDefaultRouter = !!taxes?.router && taxes.router === DEX_ROUTERS[config.network.chainId];
+
+  return {
+    ...config,
+    network,
+    additionalNetworks: undefined,
+    features: usesDefaultRouter
+      ? { ...config.features, taxes: { ...taxes!, router: DEX_ROUTERS[network.chainId] || '' } }
+      : config.features
+  };
+};
+
+// Progress is stored per token and network set, so after a failure or a reload only the
+// networks without a deployment are deployed (and paid for) again
+const getStorageKey = (config: TokenConfig) =>
+  `multichain_${config.symbol}_${getTargetNetworks(config).map(network => network.chainId).join('-')}`;
+
+const loadProgress = (config: TokenConfig): MultiChainProgress => {
+  const networks = getTargetNetworks(config);
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(getStorageKey(config)) || 'null') as MultiChainProgress | null;
+    if (saved?.projectId && Array.isArray(saved.chains)) {
+      return {
+        projectId: saved.projectId,
+        chains: networks.map(network => {
+          const chain = saved.chains.find(c => c.network.chainId === network.chainId);
+          if (chain?.status === 'deployed') return chain;
+          // The page was closed mid-deployment; the job keeps running on the server and resuming follows it
+          if (chain?.status === 'deploying') {
+            return { network, status: 'failed', error: 'Interrupted while deploying; resume to follow the queued deployment', job: chain.job };
+          }
+          return { network, status: chain?.status === 'failed' ? 'failed' : 'pending', error: chain?.error, job: chain?.job };
+        })
+      };
+    }
+  } catch (error) {
+    console.error('Error loading multi-network deployment progress:', error);
+  }
+
+  return { projectId: crypto.randomUUID(), chains: networks.map(network => ({ network, status: 'pending' })) };
+};
+
+// Deploys a token to each target network in turn, switching the wallet between them
+export const useMultiChainDeployment = (config: TokenConfig) => {
+  const storageKey = getStorageKey(config);
+  const [progress, setProgress] = useState<MultiChainProgress>(() => loadProgress(config));
+  const [loadedKey, setLoadedKey] = useState(storageKey);
+  const [isDeploying, setIsDeploying] = useState(false);
+
+  // Another token or network set has its own progress, loaded while rendering so it is never
+  // shown, or resumed, with the previous one's
+  if (loadedKey !== storageKey) {
+    setLoadedKey(storageKey);
+    setProgress(loadProgress(config));
+  }
+
+  // Resolves with the primary network's result and every deployment once all networks are deployed
+  const deployAll = useCallback(async (options: Partial<TokenConfig> = {}): Promise<DeploymentResult | null> => {
+    const { projectId } = progress;
+    let chains = progress.chains;
+
+    const updateChain = (chainId: number, update: Partial<ChainDeployment>) => {
+      chains = chains.map(chain => chain.network.chainId === chainId ? { ...chain, ...update } : chain);
+      // Job logs are only kept in memory; a reloaded page gets them again from the job's status stream
+      const saved = chains.map(chain => chain.job ? { ...chain, job: { ...chain.job, logs: undefined } } : chain);
+      localStorage.setItem(storageKey, JSON.stringify({ projectId, chains: saved }));
+      setProgress({ projectId, chains });
+    };
+
+    setIsDeploying(true);
+    try {
+      for (const { network, status } of progress.chains) {
+        if (status === 'deployed') continue;
+
+        try {
+          updateChain(network.chainId, { status: 'switching', error: undefined });
+          const currentNetwork = await web3Service.getCurrentNetwork();
+          if (currentNetwork?.chainId !== network.chainId) {
+            await web3Service.switchNetwork(network);
+          }
+
+          updateChain(network.chainId, { status: 'deploying', job: undefined });
+          // One key per project and network, so resuming follows or retries this network's job
+          // instead of deploying the token there twice
+          const result = await contractService.deployToken({ ...getNetworkConfig(config, network), ...options }, {
+            projectId,
+            idempotencyKey: `${projectId}:${network.chainId}`,
+            onJobUpdate: job => updateChain(network.chainId, { job })
+          });
+          updateChain(network.chainId, { status: 'deployed', result });
+        } catch (error) {
+          // Keep going so one failing network does not hold up the others
+          console.error(`Deployment to ${network.name} failed:`, error);
+          updateChain(network.chainId, { status: 'failed', error: (error as Error).message });
+        }
+      }
+    } finally {
+      setIsDeploying(false);
+    }
+
+    if (chains.some(chain => chain.status !== 'deployed')) {
+      return null;
+    }
+
+    localStorage.removeItem(storageKey);
+    const deployments = chains.map(chain => chain.result!);
+    return { ...deployments[0], projectId, deployments };
+  }, [config, progress, storageKey]);
+
+  return {
+    projectId: progress.projectId,
+    chains: progress.chains,
+    isDeploying,
+    hasStarted: progress.chains.some(chain => chain.status !== 'pending'),
+    deployAll
+  };
+};
@@ -3,6 +3,13 @@ import { Network } from '../types';
 import { ethers } from 'ethers';
 import { web3Service } from '../services/web3Service';
 import PresaleContractABI from '../abis/PresaleContract.json';
+import { approvePayment, PresalePurchaseStep } from '../services/presalePayments';
+
+const TOKEN_INFO_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
 
 interface SaleData {
   saleName: string;
@@ -19,12 +26,25 @@ interface SaleData {
   endTime: number;
   totalRaised: string;
   totalParticipants: number;
+  tokenDecimals: number;
+  paymentToken: string; // ZeroAddress when the sale raises the native currency
+  paymentSymbol: string; // Caps, limits, contributions and refunds are in this currency
+  paymentDecimals: number;
   networkSymbol: string;
   explorerUrl: string;
   vestingEnabled: boolean;
   initialRelease: number;
   vestingDuration: number;
   isFinalized: boolean;
+  refundsEnabled: boolean;
+  refundDeadline: number; // Anyone can open refunds for a sale still unfinalized after this
+  autoListing: {
+    listingPrice: string; // tokens per payment token
+    liquidityPercentage: number;
+    lockDuration: number; // in days
+    lpToken: string; // ZeroAddress until the sale is finalized
+    unlockTime: number;
+  } | null;
 }
 
 interface UserInfo {
@@ -40,8 +60,10 @@ interface SaleContractHook {
   userInfo: UserInfo | null;
   isLoading: boolean;
   isWhitelisted: boolean;
-  buyTokens: (amount: string) => Promise<void>;
+  buyTokens: (amount: string, onStep?: (step: PresalePurchaseStep) => void) => Promise<void>;
   claimTokens: () => Promise<void>;
+  claimRefund: () => Promise<void>;
+  enableRefunds: () => Promise<void>;
   loadSaleData: () => Promise<void>;
   loadUserInfo: (address: string) => Promise<void>;
 }
@@ -67,23 +89,29 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
       // Get sale info
       const saleInfo = await contract.saleInfo();
       const vestingInfo = await contract.vestingInfo();
+      const listingInfo = await contract.autoListingInfo();
       const stats = await contract.getSaleStats();
       
       // Get token info
-      const tokenContract = new ethers.Contract(
-        saleInfo.token,
-        ['function name() view returns (string)', 'function symbol() view returns (string)'],
-        provider
-      );
+      const tokenContract = new ethers.Contract(saleInfo.token, TOKEN_INFO_ABI, provider);
       
-      const [tokenName, tokenSymbol] = await Promise.all([
+      const [tokenName, tokenSymbol, tokenDecimals] = await Promise.all([
         tokenContract.name(),
-        tokenContract.symbol()
+        tokenContract.symbol(),
+        tokenContract.decimals().then(Number)
       ]);
       
       // Get network info
       const network = await web3Service.getCurrentNetwork();
       
+      // Sales without a payment token raise the native currency
+      const isNative = saleInfo.paymentToken === ethers.ZeroAddress;
+      const paymentContract = new ethers.Contract(saleInfo.paymentToken, TOKEN_INFO_ABI, provider);
+      const [paymentSymbol, paymentDecimals] = isNative
+        ? [network?.symbol || 'ETH', 18]
+        : await Promise.all([paymentContract.symbol(), paymentContract.decimals().then(Number)]);
+      const formatPayment = (amount: bigint) => ethers.formatUnits(amount, paymentDecimals);
+      
       // Determine sale type based on whitelist
       const saleType = saleInfo.whitelistEnabled ? 'private' : 'presale';
       
@@ -94,21 +122,36 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
         tokenSymbol,
         tokenAddress: saleInfo.token,
         saleType,
-        tokenPrice: ethers.formatEther(saleInfo.tokenPrice),
-        softCap: ethers.formatEther(saleInfo.softCap),
-        hardCap: ethers.formatEther(saleInfo.hardCap),
-        minPurchase: ethers.formatEther(saleInfo.minPurchase),
-        maxPurchase: ethers.formatEther(saleInfo.maxPurchase),
+        tokenPrice: ethers.formatUnits(saleInfo.tokenPrice, tokenDecimals),
+        softCap: formatPayment(saleInfo.softCap),
+        hardCap: formatPayment(saleInfo.hardCap),
+        minPurchase: formatPayment(saleInfo.minPurchase),
+        maxPurchase: formatPayment(saleInfo.maxPurchase),
         startTime: Number(saleInfo.startTime),
         endTime: Number(saleInfo.endTime),
-        totalRaised: ethers.formatEther(stats[0]),
+        totalRaised: formatPayment(stats[0]),
         totalParticipants: Number(stats[1]),
+        tokenDecimals,
+        paymentToken: saleInfo.paymentToken,
+        paymentSymbol,
+        paymentDecimals,
         networkSymbol: network?.symbol || 'ETH',
         explorerUrl: network?.explorerUrl || 'https://etherscan.io',
         vestingEnabled: vestingInfo.enabled,
         initialRelease: Number(vestingInfo.initialRelease),
         vestingDuration: Number(vestingInfo.vestingDuration) / (24 * 60 * 60), // Convert seconds to days
-        isFinalized: await contract.saleFinalized()
+        isFinalized: await contract.saleFinalized(),
+        refundsEnabled: await contract.refundsEnabled(),
+        refundDeadline: Number(saleInfo.endTime) + Number(await contract.FINALIZE_GRACE_PERIOD()),
+        autoListing: listingInfo.enabled
+          ? {
+              listingPrice: ethers.formatUnits(listingInfo.listingPrice, tokenDecimals),
+              liquidityPercentage: Number(listingInfo.liquidityPercentage),
+              lockDuration: Number(listingInfo.lockDuration) / (24 * 60 * 60),
+              lpToken: await contract.lpToken(),
+              unlockTime: Number(await contract.liquidityUnlockTime())
+            }
+          : null
       };
       
       setSaleData(realSaleData);
@@ -136,12 +179,21 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
       // Check whitelist status
       const whitelistStatus = info[4] || await contract.whitelist(address);
       
+      // Contributions are in the payment currency, token amounts in the sale token's decimals
+      const saleInfo = await contract.saleInfo();
+      const decimalsOf = async (token: string) =>
+        Number(await new ethers.Contract(token, TOKEN_INFO_ABI, provider).decimals());
+      const [tokenDecimals, paymentDecimals] = await Promise.all([
+        decimalsOf(saleInfo.token),
+        saleInfo.paymentToken === ethers.ZeroAddress ? 18 : decimalsOf(saleInfo.paymentToken)
+      ]);
+      
       // Create user info object
       const userInfoData: UserInfo = {
-        contribution: ethers.formatEther(info[0]),
-        tokenAmount: ethers.formatEther(info[1]),
-        claimedTokens: ethers.formatEther(info[2]),
-        claimableTokens: ethers.formatEther(info[3]),
+        contribution: ethers.formatUnits(info[0], paymentDecimals),
+        tokenAmount: ethers.formatUnits(info[1], tokenDecimals),
+        claimedTokens: ethers.formatUnits(info[2], tokenDecimals),
+        claimableTokens: ethers.formatUnits(info[3], tokenDecimals),
         isWhitelisted: whitelistStatus
       };
       
@@ -152,7 +204,7 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
     }
   }, [contractAddress]);
 
-  const buyTokens = useCallback(async (amount: string) => {
+  const buyTokens = useCallback(async (amount: string, onStep?: (step: PresalePurchaseStep) => void) => {
     if (!contractAddress || typeof window.ethereum === 'undefined') {
       throw new Error('Wallet not connected');
     }
@@ -164,47 +216,23 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
       
       // Create contract instance
       const contract = new ethers.Contract(contractAddress, PresaleContractABI, signer);
-      
-      // Check if this is a V2 contract with referral support
-      let isV2 = false;
-      try {
-        // Try to access a V2-specific function
-        await contract.autoListingInfo();
-        isV2 = true;
-      } catch (error) {
-        // Not a V2 contract, continue with V1 logic
-      }
+      const { paymentToken } = await contract.saleInfo();
       
       let tx;
-      if (isV2) {
-        // For V2 contracts, we need to approve the base token first
-        // Get the base token address from the contract
-        const saleInfo = await contract.saleInfo();
-        const baseToken = saleInfo.baseToken;
-        
-        // Create base token contract instance
-        const baseTokenContract = new ethers.Contract(
-          baseToken,
-          ['function approve(address,uint256) returns (bool)'],
-          signer
-        );
-        
-        // Convert amount to wei
-        const amountWei = ethers.parseEther(amount);
-        
-        // Approve the presale contract to spend base tokens
-        const approveTx = await baseTokenContract.approve(contractAddress, amountWei);
-        await approveTx.wait();
-        
-        // Call buyTokens function with referrer (null address for no referrer)
-        tx = await contract.buyTokens(ethers.ZeroAddress);
+      if (paymentToken === ethers.ZeroAddress) {
+        // Native currency sales are paid with the transaction value
+        onStep?.('buying');
+        tx = await contract.buyTokens({ value: ethers.parseEther(amount) });
       } else {
-        // For V1 contracts, send native tokens directly
-        // Convert amount to wei
-        const amountWei = ethers.parseEther(amount);
+        // The sale pulls the payment token, so it is approved for the amount first
+        const paymentContract = new ethers.Contract(paymentToken, TOKEN_INFO_ABI, signer);
+        const amountUnits = ethers.parseUnits(amount, Number(await paymentContract.decimals()));
         
-        // Call buyTokens function
-        tx = await contract.buyTokens({ value: amountWei });
+        onStep?.('approving');
+        await approvePayment(paymentToken, contractAddress, amountUnits, signer);
+        
+        onStep?.('buying');
+        tx = await contract.buyTokensWithPaymentToken(amountUnits);
       }
       
       // Wait for transaction confirmation
@@ -241,6 +269,46 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
     }
   }, [contractAddress]);
 
+  // Sales that missed the soft cap repay contributions in the currency they were made in
+  const claimRefund = useCallback(async () => {
+    if (!contractAddress || typeof window.ethereum === 'undefined') {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      const signer = web3Service.getSigner();
+      if (!signer) throw new Error('Signer not available');
+      
+      const contract = new ethers.Contract(contractAddress, PresaleContractABI, signer);
+      const tx = await contract.claimRefund();
+      await tx.wait();
+      
+    } catch (error) {
+      console.error('Error claiming refund:', error);
+      throw error;
+    }
+  }, [contractAddress]);
+
+  // Sales the owner left unfinalized past the grace period can be switched to refunds by anyone
+  const enableRefunds = useCallback(async () => {
+    if (!contractAddress || typeof window.ethereum === 'undefined') {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      const signer = web3Service.getSigner();
+      if (!signer) throw new Error('Signer not available');
+      
+      const contract = new ethers.Contract(contractAddress, PresaleContractABI, signer);
+      const tx = await contract.enableRefunds();
+      await tx.wait();
+      
+    } catch (error) {
+      console.error('Error enabling refunds:', error);
+      throw error;
+    }
+  }, [contractAddress]);
+
   return {
     saleData,
     userInfo,
@@ -248,6 +316,8 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
     isWhitelisted,
     buyTokens,
     claimTokens,
+    claimRefund,
+    enableRefunds,
     loadSaleData,
     loadUserInfo
   };
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { WalletName } from '@solana/wallet-adapter-base';
+import { Transaction, Signer } from '@solana/web3.js';
 import { SolanaWalletState, SolanaNetwork } from '../types/solana';
 import { solanaService } from '../services/solanaService';
 import { getDefaultSolanaNetwork } from '../config/solanaNetworks';
@@ -13,7 +14,8 @@ export const useSolanaWallet = () => {
     disconnect, 
     select, 
     wallets, 
-    wallet 
+    wallet,
+    sendTransaction
   } = useWallet();
   
   const [state, setState] = useState<SolanaWalletState>({
@@ -31,6 +33,7 @@ export const useSolanaWallet = () => {
     if (state.network) {
       try {
         solanaService.initializeConnection(state.network);
+        solanaService.setMetadataApiUrl(import.meta.env.VITE_PUBLIC_API_URL || import.meta.env.VITE_API_URL || 'http://localhost:3001');
       } catch (error) {
         console.error('Failed to initialize Solana connection:', error);
         setError('Failed to connect to Solana network');
@@ -146,6 +149,27 @@ export const useSolanaWallet = () => {
     }
   }, [state.publicKey, state.network]);
 
+  // Have the connected wallet sign and send a prepared transaction, then wait for confirmation.
+  // Extra signers (e.g. a freshly generated mint keypair) are applied before the wallet signs.
+  const signAndSendTransaction = useCallback(async (
+    transaction: Transaction,
+    signers: Signer[] = []
+  ): Promise<string> => {
+    if (!connected || !publicKey) {
+      throw new Error('Wallet not connected. Please connect your wallet first.');
+    }
+    
+    const connection = solanaService.getConnection();
+    const signature = await sendTransaction(transaction, connection, { signers });
+    await connection.confirmTransaction(signature, 'confirmed');
+    
+    if (state.publicKey) {
+      fetchBalance(state.publicKey);
+    }
+    
+    return signature;
+  }, [connected, publicKey, sendTransaction, state.publicKey]);
+
   return {
     ...state,
     isConnecting,
@@ -154,6 +178,7 @@ export const useSolanaWallet = () => {
     disconnectWallet,
     switchNetwork,
     requestAirdrop,
+    signAndSendTransaction,
     refreshBalance: state.publicKey ? () => fetchBalance(state.publicKey!) : undefined,
     availableWallets: wallets,
     currentWallet: wallet
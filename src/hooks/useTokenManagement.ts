@@ -1,7 +1,14 @@
 import { useState, useCallback, useEffect } from 'react';
 import { ethers } from 'ethers';
 import { web3Service } from '../services/web3Service';
-import { TokenManagementData, VestingSchedule, MintTransaction, BurnTransaction } from '../types/tokenManagement';
+import { contractService } from '../services/contractService';
+import { VerificationResult } from '../services/explorerVerification';
+import { SafeTransaction, SafeTransactionBatch, getSafeInfo, isSafeOwner, buildSafeTransactionBatch } from '../services/safeTransactions';
+import { StorageLayoutIssue, getImplementationAddress, compareStorageLayouts } from '../services/proxyUpgrades';
+import { BRIDGE_ADAPTER_ABI, BridgeChainState, BridgeDeployment, findNetwork, getBridgeChainStates } from '../services/bridgeService';
+import { VESTING_ABI, VestingBatchResult, fundVestingSchedules, getVestingBalances, getVestingSchedules, toVestingScheduleParams } from '../services/vestingService';
+import { networks } from '../data/networks';
+import { TokenManagementData, TokenFeatureConfig, TokenRole, VestingScheduleInput, MintTransaction, BurnTransaction } from '../types/tokenManagement';
 
 // Token ABI with management functions
 const TOKEN_MANAGEMENT_ABI = [
@@ -11,6 +18,8 @@ const TOKEN_MANAGEMENT_ABI = [
   'function decimals() view returns (uint8)',
   'function totalSupply() view returns (uint256)',
   'function balanceOf(address) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
   'function owner() view returns (address)',
   
   // Mintable
@@ -27,25 +36,126 @@ const TOKEN_MANAGEMENT_ABI = [
   'function setTransferFee(uint256 feePercentage)',
   'function setFeeRecipient(address recipient)',
   
+  // Tax Token
+  'function buyTax() view returns (uint256)',
+  'function sellTax() view returns (uint256)',
+  'function transferTax() view returns (uint256)',
+  'function liquidityShare() view returns (uint256)',
+  'function swapRouter() view returns (address)',
+  'function liquidityPair() view returns (address)',
+  'function swapThreshold() view returns (uint256)',
+  'function getTaxRecipients() view returns (address[] recipients, uint256[] shares)',
+  'function automatedMarketMakerPairs(address pair) view returns (bool)',
+  'function setTaxes(uint256 buyTaxBps, uint256 sellTaxBps, uint256 transferTaxBps)',
+  'function setTaxRecipients(address[] recipients, uint256[] shares, uint256 liquidityShareBps)',
+  'function setAutomatedMarketMakerPair(address pair, bool value)',
+  'function setExemptFromTaxes(address account, bool exempt)',
+  'function setSwapThreshold(uint256 amount)',
+  'function manualSwapBack()',
+  
+  // Dividend Token
+  'function rewardToken() view returns (address)',
+  'function dividendShare() view returns (uint256)',
+  'function totalDividendsDistributed() view returns (uint256)',
+  'function minimumBalanceForDividends() view returns (uint256)',
+  'function gasForProcessing() view returns (uint256)',
+  'function dividendHolderCount() view returns (uint256)',
+  'function lastProcessedIndex() view returns (uint256)',
+  'function withdrawableDividendOf(address account) view returns (uint256)',
+  'function withdrawnDividendOf(address account) view returns (uint256)',
+  'function isExcludedFromDividends(address account) view returns (bool)',
+  'function claimDividends()',
+  'function processDividends(uint256 gas) returns (uint256 iterations, uint256 claims)',
+  'function setDividendSettings(uint256 minimumBalance, uint256 gas)',
+  'function setExcludedFromDividends(address account, bool excluded)',
+  
   // Redistribution Token
   'function redistributionPercentage() view returns (uint256)',
   'function setRedistributionPercentage(uint256 percentage)',
   'function claimRewards()',
   'function getUnclaimedRewards(address account) view returns (uint256)',
   
+  // Reflection Token
+  'function reflectionFee() view returns (uint256)',
+  'function totalReflected() view returns (uint256)',
+  'function reflectionsEarned(address account) view returns (uint256)',
+  'function isExcludedFromReflection(address account) view returns (bool)',
+  'function setReflectionFee(uint256 fee)',
+  'function excludeFromReflection(address account)',
+  'function includeInReflection(address account)',
+  
+  // Anti-Whale Token
+  'function tradingEnabled() view returns (bool)',
+  'function tradingEnabledBlock() view returns (uint256)',
+  'function launchProtectionBlocks() view returns (uint256)',
+  'function maxTransactionAmount() view returns (uint256)',
+  'function maxWalletAmount() view returns (uint256)',
+  'function isExemptFromLimits(address account) view returns (bool)',
+  'function isSniper(address account) view returns (bool)',
+  'function enableTrading()',
+  'function setMaxTransactionAmount(uint256 amount)',
+  'function setMaxWalletAmount(uint256 amount)',
+  'function setExemptFromLimits(address account, bool exempt)',
+  'function setSniper(address account, bool flagged)',
+  
+  // Permit, Votes and Snapshot Tokens
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function delegates(address account) view returns (address)',
+  'function delegate(address delegatee)',
+  'function getVotes(address account) view returns (uint256)',
+  'function getPastVotes(address account, uint256 blockNumber) view returns (uint256)',
+  'function getPastTotalSupply(uint256 blockNumber) view returns (uint256)',
+  'function snapshot() returns (uint256)',
+  'function currentSnapshotId() view returns (uint256)',
+  'function balanceOfAt(address account, uint256 snapshotId) view returns (uint256)',
+  'function totalSupplyAt(uint256 snapshotId) view returns (uint256)',
+  
+  // Pausable and Blacklist Tokens
+  'function paused() view returns (bool)',
+  'function pause()',
+  'function unpause()',
+  'function isBlacklisted(address account) view returns (bool)',
+  'function setBlacklisted(address account, bool blacklisted)',
+  'function setBlacklistedBatch(address[] accounts, bool blacklisted)',
+  
+  // Ownership
+  'function pendingOwner() view returns (address)',
+  'function transferOwnership(address newOwner)',
+  'function acceptOwnership()',
+  'function renounceOwnership()',
+  
+  // Role-Based Access Tokens
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function grantRole(bytes32 role, address account)',
+  'function revokeRole(bytes32 role, address account)',
+  
+  // Upgradeable Tokens (UUPS)
+  'function upgradeToAndCall(address newImplementation, bytes data) payable',
+  'function proxiableUUID() view returns (bytes32)',
+  
+  // Bridgeable Tokens
+  'function bridge() view returns (address)',
+  'function setBridge(address newBridge)',
+  'function applyBridgeChange()',
+  'function cancelBridgeChange()',
+  
   // Events
   'event Transfer(address indexed from, address indexed to, uint256 value)',
   'event Mint(address indexed to, uint256 amount)',
-  'event Burn(address indexed from, uint256 amount)'
+  'event Burn(address indexed from, uint256 amount)',
+  'event BlacklistUpdated(address indexed account, bool blacklisted)',
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)'
 ];
 
-const VESTING_ABI = [
-  'function getVestingSchedule(address beneficiary) view returns (uint256 totalAmount, uint256 startTime, uint256 duration, uint256 releasedAmount, uint256 vestedAmount, uint256 releasableAmount, bool revoked)',
-  'function createVestingSchedule(address beneficiary, uint256 totalAmount, uint256 startTime, uint256 duration)',
-  'function release()',
-  'function revokeVesting(address beneficiary)',
-  'function vestingExists(address beneficiary) view returns (bool)'
-];
+// AccessControl role ids; the admin role is the zero hash
+const ROLE_IDS: Record<TokenRole, string> = {
+  admin: ethers.ZeroHash,
+  minter: ethers.id('MINTER_ROLE'),
+  pauser: ethers.id('PAUSER_ROLE'),
+  feeManager: ethers.id('FEE_MANAGER_ROLE')
+};
 
 interface TokenManagementHook {
   tokenData: TokenManagementData | null;
@@ -56,17 +166,63 @@ interface TokenManagementHook {
   burnTokens: (amount: string) => Promise<string>;
   updateFeeSettings: (percentage: number, recipient?: string) => Promise<string>;
   updateRedistributionPercentage: (percentage: number) => Promise<string>;
-  createVesting: (beneficiary: string, amount: string, startTime: number, duration: number) => Promise<string>;
+  updateTaxes: (buyTax: number, sellTax: number, transferTax: number) => Promise<string>;
+  updateTaxRecipients: (recipients: Array<{ address: string; share: number }>, liquidityShare: number) => Promise<string>;
+  setAutomatedMarketMakerPair: (pair: string, value: boolean) => Promise<string>;
+  updateSwapThreshold: (amount: string) => Promise<string>;
+  swapBack: () => Promise<string>;
+  claimDividends: () => Promise<string>;
+  processDividends: (gas: number) => Promise<string>;
+  updateDividendSettings: (minimumBalance: string, gasForProcessing: number) => Promise<string>;
+  getDividendStatus: (address: string) => Promise<{ withdrawable: string; withdrawn: string; excluded: boolean }>;
+  setDividendExclusion: (address: string, excluded: boolean) => Promise<string>;
+  createVesting: (schedule: VestingScheduleInput) => Promise<string>;
+  createVestingSchedules: (schedules: VestingScheduleInput[], onBatch?: (batch: VestingBatchResult) => void) => Promise<VestingBatchResult[]>;
+  getVestingFunding: () => Promise<{ wallet: string; vesting: string }>;
+  revokeVesting: (scheduleId: number) => Promise<string>;
   claimRewards: () => Promise<string>;
   getUnclaimedRewards: (address: string) => Promise<string>;
+  getReflectionStatus: (address: string) => Promise<{ earned: string; excluded: boolean }>;
+  setReflectionExclusion: (address: string, excluded: boolean) => Promise<string>;
+  enableTrading: () => Promise<string>;
+  updateTradingLimits: (maxTransactionAmount: string, maxWalletAmount: string) => Promise<string>;
+  setLimitExemption: (account: string, exempt: boolean) => Promise<string>;
+  setSniperFlag: (account: string, flagged: boolean) => Promise<string>;
+  getLimitStatus: (account: string) => Promise<{ exempt: boolean; sniper: boolean; pair: boolean }>;
+  delegateVotes: (delegatee: string) => Promise<string>;
+  getVotingStatus: (account: string) => Promise<{ votes: string; delegate: string }>;
+  takeSnapshot: () => Promise<string>;
+  getSnapshotBalance: (account: string, snapshotId: number) => Promise<{ balance: string; totalSupply: string }>;
+  setPaused: (paused: boolean) => Promise<string>;
+  updateBlacklist: (accounts: string[], blacklisted: boolean) => Promise<string>;
+  getBlacklistedAddresses: () => Promise<string[]>;
+  transferOwnership: (newOwner: string) => Promise<string>;
+  cancelOwnershipTransfer: () => Promise<string>;
+  acceptOwnership: () => Promise<string>;
+  renounceOwnership: () => Promise<string>;
+  updateRole: (role: TokenRole, account: string, granted: boolean) => Promise<string>;
+  getRoleMembers: () => Promise<Record<TokenRole, string[]>>;
+  safeTransactions: SafeTransaction[];
+  getSafeTransactionBatch: () => Promise<SafeTransactionBatch>;
+  clearSafeTransactions: () => void;
   getMintHistory: () => Promise<MintTransaction[]>;
   getBurnHistory: () => Promise<BurnTransaction[]>;
+  checkUpgrade: (targetContractType: string) => Promise<StorageLayoutIssue[]>;
+  upgradeToken: (targetContractType: string) => Promise<string>;
+  verifyContract: () => Promise<VerificationResult>;
+  getBridgeChains: () => Promise<BridgeChainState[]>;
+  deployBridgeAdapter: (relayer: string) => Promise<string>;
+  linkBridgePeers: (peers: Array<{ chainId: number; adapter: string }>) => Promise<string>;
+  applyBridgeChange: () => Promise<string>;
+  cancelBridgeChange: () => Promise<string>;
+  bridgeTokens: (dstChainId: number, to: string, amount: string) => Promise<string>;
 }
 
 export const useTokenManagement = (userAddress: string): TokenManagementHook => {
   const [tokenData, setTokenData] = useState<TokenManagementData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isOwner, setIsOwner] = useState(false);
+  const [safeTransactions, setSafeTransactions] = useState<SafeTransaction[]>([]);
 
   const loadTokenData = useCallback(async (contractAddress: string) => {
     if (!contractAddress) return;
@@ -79,21 +235,24 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
       const contract = new ethers.Contract(contractAddress, TOKEN_MANAGEMENT_ABI, provider);
       
       // Get basic token info
-      const [name, symbol, decimals, totalSupply, owner] = await Promise.all([
+      const [name, symbol, decimals, totalSupply, owner, pendingOwner] = await Promise.all([
         contract.name(),
         contract.symbol(),
         contract.decimals(),
         contract.totalSupply(),
-        contract.owner().catch(() => null)
+        contract.owner().catch(() => null),
+        // Tokens deployed before two-step ownership have no pending owner
+        contract.pendingOwner().catch(() => null)
       ]);
       
-      // Check if user is owner
+      // Check if user is owner, directly or as one of the signers of a Safe owner
       const ownerAddress = owner?.toLowerCase();
-      const userIsOwner = ownerAddress === userAddress?.toLowerCase();
+      const safeOwner = ownerAddress ? await getSafeInfo(ownerAddress, provider) : null;
+      const userIsOwner = ownerAddress === userAddress?.toLowerCase() || (!!safeOwner && !!userAddress && isSafeOwner(safeOwner, userAddress));
       setIsOwner(userIsOwner);
       
       // Detect features by trying to call functions
-      const features = await detectTokenFeatures(contract);
+      const features = await detectTokenFeatures(contract, decimals);
       
       // Get max supply if mintable
       let maxSupply = '0';
@@ -108,6 +267,26 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
       // Get network info
       const network = await web3Service.getCurrentNetwork();
       
+      // Verification status and constructor args are tracked on the deployment record
+      const [deployment, implementationAddress] = await Promise.all([
+        network ? contractService.getContractDetails(contractAddress, network.chainId) : null,
+        getImplementationAddress(contractAddress, provider)
+      ]);
+      
+      // Schedules are read from the vesting contract recorded for the token
+      if (deployment?.vestingAddress) {
+        try {
+          const vesting = new ethers.Contract(deployment.vestingAddress, VESTING_ABI, provider);
+          const [schedules, vestingOwner] = await Promise.all([
+            getVestingSchedules(deployment.vestingAddress, Number(decimals), provider),
+            vesting.owner()
+          ]);
+          features.vesting = { enabled: true, schedules, owner: vestingOwner };
+        } catch (error) {
+          console.error('Error loading vesting schedules:', error);
+        }
+      }
+      
       const tokenManagementData: TokenManagementData = {
         address: contractAddress,
         name,
@@ -116,10 +295,27 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
         totalSupply: ethers.formatUnits(totalSupply, decimals),
         maxSupply: maxSupply ? ethers.formatUnits(maxSupply, decimals) : '0',
         owner: ownerAddress || '',
+        safeOwner: safeOwner || undefined,
+        pendingOwner: pendingOwner || undefined,
         network: network?.name || 'Unknown',
+        chainId: network?.chainId,
         features,
-        deploymentDate: new Date().toISOString(), // Would come from API in real implementation
-        verified: true // Would come from explorer API
+        deploymentDate: deployment?.timestamp || new Date().toISOString(),
+        verified: deployment?.verified || false,
+        verificationStatus: deployment?.verificationStatus || (deployment?.verified ? 'verified' : 'unverified'),
+        verificationMessage: deployment?.verificationMessage || undefined,
+        contractType: deployment?.contractType,
+        constructorArgs: deployment?.constructorArgs || undefined,
+        implementationAddress: implementationAddress || undefined,
+        // Only describes the proxy while the recorded implementation is still the one behind it
+        implementationArtifactHash: implementationAddress && deployment?.implementationAddress?.toLowerCase() === implementationAddress.toLowerCase()
+          ? deployment.implementationArtifactHash
+          : undefined,
+        projectId: deployment?.projectId,
+        bridgeAdapterAddress: features.bridge && features.bridge.adapter !== ethers.ZeroAddress
+          ? features.bridge.adapter
+          : deployment?.bridgeAdapterAddress,
+        vestingAddress: deployment?.vestingAddress
       };
       
       setTokenData(tokenManagementData);
@@ -131,8 +327,8 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
     }
   }, [userAddress]);
 
-  const detectTokenFeatures = async (contract: ethers.Contract) => {
-    const features = {
+  const detectTokenFeatures = async (contract: ethers.Contract, decimals: number) => {
+    const features: TokenFeatureConfig = {
       mintable: false,
       burnable: false,
       transferFees: {
@@ -203,39 +399,194 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
       // No redistribution
     }
     
-    // Check for vesting by looking for a separate vesting contract
-    // This would require additional logic to find associated vesting contracts
+    // Reflection tokens redistribute through balances instead of claims
+    try {
+      const [reflectionFee, totalReflected] = await Promise.all([
+        contract.reflectionFee(),
+        contract.totalReflected()
+      ]);
+      
+      features.holderRedistribution = {
+        enabled: true,
+        percentage: Number(reflectionFee) / 100,
+        mode: 'reflection',
+        totalReflected: ethers.formatUnits(totalReflected, decimals)
+      };
+    } catch {
+      // No reflection
+    }
+    
+    // Tax tokens replace the flat fee with buy/sell/transfer buckets; calls revert on other tokens
+    try {
+      const [buyTax, sellTax, transferTax, [recipients, shares], liquidityShare, swapRouter, liquidityPair, swapThreshold, pendingTaxes] = await Promise.all([
+        contract.buyTax(),
+        contract.sellTax(),
+        contract.transferTax(),
+        contract.getTaxRecipients(),
+        contract.liquidityShare(),
+        contract.swapRouter(),
+        contract.liquidityPair(),
+        contract.swapThreshold(),
+        contract.balanceOf(await contract.getAddress())
+      ]);
+      
+      features.taxes = {
+        buyTax: Number(buyTax) / 100, // Convert from basis points
+        sellTax: Number(sellTax) / 100,
+        transferTax: Number(transferTax) / 100,
+        recipients: recipients.map((address: string, index: number) => ({ address, share: Number(shares[index]) / 100 })),
+        liquidityShare: Number(liquidityShare) / 100,
+        swapRouter,
+        liquidityPair,
+        swapThreshold: ethers.formatUnits(swapThreshold, decimals),
+        pendingTaxes: ethers.formatUnits(pendingTaxes, decimals)
+      };
+    } catch {
+      // No taxes
+    }
+    
+    // Dividend tokens pay holders from the tax swap-back in the native currency or a reward token
     try {
-      // Check if this token has any vesting schedules in our database
-      // This is a placeholder - in a real implementation, we would query the backend
-      const vestingContractAddress = localStorage.getItem(`vesting_${tokenData.address.toLowerCase()}`);
-      if (vestingContractAddress) {
-        features.vesting.enabled = true;
+      const [rewardToken, dividendShare, totalDistributed, minimumBalance, gasForProcessing, holderCount, lastProcessedIndex] = await Promise.all([
+        contract.rewardToken(),
+        contract.dividendShare(),
+        contract.totalDividendsDistributed(),
+        contract.minimumBalanceForDividends(),
+        contract.gasForProcessing(),
+        contract.dividendHolderCount(),
+        contract.lastProcessedIndex()
+      ]);
+      
+      let rewardSymbol = (await web3Service.getCurrentNetwork())?.symbol || 'ETH';
+      let rewardDecimals = 18;
+      if (rewardToken !== ethers.ZeroAddress) {
+        const reward = new ethers.Contract(rewardToken, TOKEN_MANAGEMENT_ABI, contract.runner);
+        [rewardSymbol, rewardDecimals] = await Promise.all([reward.symbol(), reward.decimals().then(Number)]);
       }
-    } catch (error) {
-      // No vesting
+      
+      features.dividends = {
+        rewardToken,
+        rewardSymbol,
+        rewardDecimals,
+        dividendShare: Number(dividendShare) / 100,
+        totalDistributed: ethers.formatUnits(totalDistributed, rewardDecimals),
+        minimumBalance: ethers.formatUnits(minimumBalance, decimals),
+        gasForProcessing: Number(gasForProcessing),
+        holderCount: Number(holderCount),
+        lastProcessedIndex: Number(lastProcessedIndex)
+      };
+    } catch {
+      // No dividends
+    }
+    
+    // Anti-whale tokens expose their limits as public state; calls revert on other tokens
+    try {
+      const [tradingEnabled, tradingEnabledBlock, launchProtectionBlocks, maxTransactionAmount, maxWalletAmount] = await Promise.all([
+        contract.tradingEnabled(),
+        contract.tradingEnabledBlock(),
+        contract.launchProtectionBlocks(),
+        contract.maxTransactionAmount(),
+        contract.maxWalletAmount()
+      ]);
+      
+      features.antiWhale = {
+        tradingEnabled,
+        tradingEnabledBlock: Number(tradingEnabledBlock),
+        launchProtectionBlocks: Number(launchProtectionBlocks),
+        maxTransactionAmount: ethers.formatUnits(maxTransactionAmount, decimals),
+        maxWalletAmount: ethers.formatUnits(maxWalletAmount, decimals)
+      };
+    } catch {
+      // No anti-whale limits
+    }
+    
+    // Governance extensions are detected independently; each call reverts on tokens without it
+    const [permit, votes, currentSnapshotId] = await Promise.all([
+      contract.DOMAIN_SEPARATOR().then(() => true, () => false),
+      contract.getVotes(ethers.ZeroAddress).then(() => true, () => false),
+      contract.currentSnapshotId().then(Number, () => null)
+    ]);
+    if (permit || votes || currentSnapshotId !== null) {
+      features.governance = {
+        permit,
+        votes,
+        snapshot: currentSnapshotId !== null,
+        currentSnapshotId: currentSnapshotId || 0
+      };
+    }
+    
+    const [paused, blacklist] = await Promise.all([
+      contract.paused().then(Boolean, () => null),
+      contract.isBlacklisted(ethers.ZeroAddress).then(() => true, () => false)
+    ]);
+    if (paused !== null || blacklist) {
+      features.compliance = {
+        pausable: paused !== null,
+        paused: !!paused,
+        blacklist
+      };
+    }
+    
+    // hasRole reverts on Ownable-only tokens
+    try {
+      const account = userAddress || ethers.ZeroAddress;
+      const [admin, minter, pauser, feeManager] = await Promise.all(
+        (['admin', 'minter', 'pauser', 'feeManager'] as const).map(role => contract.hasRole(ROLE_IDS[role], account))
+      );
+      features.roles = { admin, minter, pauser, feeManager };
+    } catch {
+      // No role-based access
+    }
+    
+    const bridge = await contract.bridge().catch(() => null);
+    if (bridge !== null) {
+      features.bridge = { adapter: bridge };
     }
     
     return features;
   };
 
-  const mintTokens = useCallback(async (to: string, amount: string): Promise<string> => {
-    if (!tokenData || !isOwner) throw new Error('Not authorized');
+  // Owner and role-gated calls go out from the wallet, or are queued as Safe transactions when the
+  // token is Safe-owned and the wallet does not hold the required role itself. Contracts owned
+  // together with the token, like its bridge adapter, are passed as the target
+  const sendAdminTransaction = useCallback(async (
+    method: string,
+    args: unknown[],
+    description: string,
+    role?: TokenRole,
+    target?: { address: string; abi: string[] }
+  ): Promise<string> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const to = target?.address || tokenData.address;
+    const contract = new ethers.Contract(to, target?.abi || TOKEN_MANAGEMENT_ABI);
+    if (tokenData.safeOwner && !(role && tokenData.features.roles?.[role])) {
+      const data = contract.interface.encodeFunctionData(method, args);
+      setSafeTransactions(prev => [...prev, { to, value: '0', data, description }]);
+      return '';
+    }
     
     const signer = web3Service.getSigner();
     if (!signer) throw new Error('Signer not available');
     
-    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
+    const tx = await (contract.connect(signer) as ethers.Contract)[method](...args);
+    await tx.wait();
+    
+    return tx.hash;
+  }, [tokenData]);
+
+  const mintTokens = useCallback(async (to: string, amount: string): Promise<string> => {
+    if (!tokenData || !(isOwner || tokenData.features.roles?.minter)) throw new Error('Not authorized');
+    
     const amountWei = ethers.parseUnits(amount, tokenData.decimals);
     
-    const tx = await contract.mint(to, amountWei);
-    await tx.wait();
+    const hash = await sendAdminTransaction('mint', [to, amountWei], `Mint ${amount} ${tokenData.symbol} to ${to}`, 'minter');
     
     // Reload token data to update supply
     await loadTokenData(tokenData.address);
     
-    return tx.hash;
-  }, [tokenData, isOwner, loadTokenData]);
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
 
   const burnTokens = useCallback(async (amount: string): Promise<string> => {
     if (!tokenData) throw new Error('Token data not available');
@@ -256,83 +607,571 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
   }, [tokenData, loadTokenData]);
 
   const updateFeeSettings = useCallback(async (percentage: number, recipient?: string): Promise<string> => {
+    if (!tokenData || !(isOwner || tokenData.features.roles?.feeManager)) throw new Error('Not authorized');
+    
+    if (recipient) {
+      await sendAdminTransaction('setFeeRecipient', [recipient], `Set fee recipient to ${recipient}`, 'feeManager');
+    }
+    
+    const feeInBasisPoints = Math.floor(percentage * 100); // Convert to basis points
+    const hash = await sendAdminTransaction('setTransferFee', [feeInBasisPoints], `Set transfer fee to ${percentage}%`, 'feeManager');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const updateRedistributionPercentage = useCallback(async (percentage: number): Promise<string> => {
+    if (!tokenData || !(isOwner || tokenData.features.roles?.feeManager)) throw new Error('Not authorized');
+    
+    const percentageInBasisPoints = Math.floor(percentage * 100);
+    
+    const method = tokenData.features.holderRedistribution.mode === 'reflection' ? 'setReflectionFee' : 'setRedistributionPercentage';
+    const hash = await sendAdminTransaction(method, [percentageInBasisPoints], `Set holder redistribution to ${percentage}%`, 'feeManager');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const updateTaxes = useCallback(async (buyTax: number, sellTax: number, transferTax: number): Promise<string> => {
+    if (!tokenData || !(isOwner || tokenData.features.roles?.feeManager)) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction(
+      'setTaxes',
+      [Math.round(buyTax * 100), Math.round(sellTax * 100), Math.round(transferTax * 100)],
+      `Set taxes to ${buyTax}% buy, ${sellTax}% sell, ${transferTax}% transfer`,
+      'feeManager'
+    );
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const updateTaxRecipients = useCallback(async (recipients: Array<{ address: string; share: number }>, liquidityShare: number): Promise<string> => {
+    if (!tokenData || !(isOwner || tokenData.features.roles?.feeManager)) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('setTaxRecipients', [
+      recipients.map(recipient => recipient.address),
+      recipients.map(recipient => Math.round(recipient.share * 100)),
+      Math.round(liquidityShare * 100)
+    ], 'Update tax recipients', 'feeManager');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const setAutomatedMarketMakerPair = useCallback(async (pair: string, value: boolean): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('setAutomatedMarketMakerPair', [pair, value], `${value ? 'Add' : 'Remove'} market pair ${pair}`);
+    
+    return hash;
+  }, [tokenData, isOwner, sendAdminTransaction]);
+
+  const updateSwapThreshold = useCallback(async (amount: string): Promise<string> => {
+    if (!tokenData || !(isOwner || tokenData.features.roles?.feeManager)) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('setSwapThreshold', [ethers.parseUnits(amount, tokenData.decimals)], `Set swap threshold to ${amount} ${tokenData.symbol}`, 'feeManager');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const swapBack = useCallback(async (): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('manualSwapBack', [], 'Swap collected taxes');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  // The first schedules deploy the token's vesting contract from the wallet, which then owns it and
+  // funds every schedule from its own balance. Imports are created in batches that fit the gas limit
+  const createVestingSchedules = useCallback(async (
+    schedules: VestingScheduleInput[],
+    onBatch?: (batch: VestingBatchResult) => void
+  ): Promise<VestingBatchResult[]> => {
     if (!tokenData || !isOwner) throw new Error('Not authorized');
     
     const signer = web3Service.getSigner();
     if (!signer) throw new Error('Signer not available');
     
-    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
+    let vestingAddress = tokenData.vestingAddress;
+    if (!vestingAddress) {
+      const network = await web3Service.getCurrentNetwork();
+      if (!network) throw new Error('Network not detected');
+      
+      const { getCompiledContract } = await import('../services/contractSource');
+      const compiled = await getCompiledContract('TokenVesting');
+      vestingAddress = (await web3Service.deployContract(compiled.abi, compiled.bytecode, [tokenData.address])).address;
+      await contractService.recordVestingContract(tokenData.address, network.chainId, vestingAddress);
+    } else if (tokenData.features.vesting.owner?.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error('Only the owner of the vesting contract can create schedules');
+    }
     
-    let tx;
-    if (recipient) {
-      tx = await contract.setFeeRecipient(recipient);
-      await tx.wait();
+    try {
+      // Only the Safe can exempt the vesting contract from the limits of a Safe-owned token
+      return await fundVestingSchedules(
+        vestingAddress,
+        tokenData.address,
+        schedules.map(schedule => toVestingScheduleParams(schedule, tokenData.decimals)),
+        signer,
+        { exemptFromLimits: !!tokenData.features.antiWhale && !tokenData.safeOwner, onBatch }
+      );
+    } finally {
+      // Batches confirmed before a failure still show up
+      await loadTokenData(tokenData.address);
     }
+  }, [tokenData, isOwner, userAddress, loadTokenData]);
+
+  const createVesting = useCallback(async (schedule: VestingScheduleInput): Promise<string> => {
+    const [batch] = await createVestingSchedules([schedule]);
+    return batch.transactionHash;
+  }, [createVestingSchedules]);
+
+  const getVestingFunding = useCallback(async (): Promise<{ wallet: string; vesting: string }> => {
+    if (!tokenData) throw new Error('Token data not available');
     
-    const feeInBasisPoints = Math.floor(percentage * 100); // Convert to basis points
-    tx = await contract.setTransferFee(feeInBasisPoints);
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    const balances = await getVestingBalances(tokenData.vestingAddress || '', tokenData.address, userAddress, provider);
+    return {
+      wallet: ethers.formatUnits(balances.wallet, tokenData.decimals),
+      vesting: ethers.formatUnits(balances.vesting, tokenData.decimals)
+    };
+  }, [tokenData, userAddress]);
+
+  const revokeVesting = useCallback(async (scheduleId: number): Promise<string> => {
+    if (!tokenData?.vestingAddress) throw new Error('No vesting contract for this token');
+    
+    const signer = web3Service.getSigner();
+    if (!signer) throw new Error('Signer not available');
+    
+    const vesting = new ethers.Contract(tokenData.vestingAddress, VESTING_ABI, signer);
+    const tx = await vesting.revokeVesting(scheduleId);
     await tx.wait();
     
-    // Reload token data
     await loadTokenData(tokenData.address);
     
     return tx.hash;
-  }, [tokenData, isOwner, loadTokenData]);
+  }, [tokenData, loadTokenData]);
 
-  const updateRedistributionPercentage = useCallback(async (percentage: number): Promise<string> => {
+  const claimRewards = useCallback(async (): Promise<string> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const signer = web3Service.getSigner();
+    if (!signer) throw new Error('Signer not available');
+    
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
+    const tx = await contract.claimRewards();
+    await tx.wait();
+    
+    return tx.hash;
+  }, [tokenData]);
+
+  const getUnclaimedRewards = useCallback(async (address: string): Promise<string> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
+    const rewards = await contract.getUnclaimedRewards(address);
+    
+    return ethers.formatUnits(rewards, tokenData.decimals);
+  }, [tokenData]);
+
+  const enableTrading = useCallback(async (): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('enableTrading', [], 'Enable trading');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const updateTradingLimits = useCallback(async (maxTransactionAmount: string, maxWalletAmount: string): Promise<string> => {
+    if (!tokenData?.features.antiWhale || !isOwner) throw new Error('Not authorized');
+    
+    const current = tokenData.features.antiWhale;
+    if (maxTransactionAmount === current.maxTransactionAmount && maxWalletAmount === current.maxWalletAmount) {
+      throw new Error('No limit changes to apply');
+    }
+    
+    // Only send the limits that changed; each setter is its own transaction
+    let hash = '';
+    if (maxTransactionAmount !== current.maxTransactionAmount) {
+      hash = await sendAdminTransaction(
+        'setMaxTransactionAmount',
+        [ethers.parseUnits(maxTransactionAmount, tokenData.decimals)],
+        `Set max transaction to ${maxTransactionAmount} ${tokenData.symbol}`
+      );
+    }
+    if (maxWalletAmount !== current.maxWalletAmount) {
+      hash = await sendAdminTransaction(
+        'setMaxWalletAmount',
+        [ethers.parseUnits(maxWalletAmount, tokenData.decimals)],
+        `Set max wallet to ${maxWalletAmount} ${tokenData.symbol}`
+      );
+    }
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const setLimitExemption = useCallback(async (account: string, exempt: boolean): Promise<string> => {
     if (!tokenData || !isOwner) throw new Error('Not authorized');
     
+    const hash = await sendAdminTransaction('setExemptFromLimits', [account, exempt], `${exempt ? 'Exempt' : 'Unexempt'} ${account} from limits`);
+    
+    return hash;
+  }, [tokenData, isOwner, sendAdminTransaction]);
+
+  const setSniperFlag = useCallback(async (account: string, flagged: boolean): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('setSniper', [account, flagged], `${flagged ? 'Flag' : 'Clear'} sniper ${account}`);
+    
+    return hash;
+  }, [tokenData, isOwner, sendAdminTransaction]);
+
+  const getLimitStatus = useCallback(async (account: string): Promise<{ exempt: boolean; sniper: boolean; pair: boolean }> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
+    const [exempt, sniper, pair] = await Promise.all([
+      contract.isExemptFromLimits(account),
+      contract.isSniper(account),
+      contract.automatedMarketMakerPairs(account)
+    ]);
+    
+    return { exempt, sniper, pair };
+  }, [tokenData]);
+
+  const getReflectionStatus = useCallback(async (address: string): Promise<{ earned: string; excluded: boolean }> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
+    const [earned, excluded] = await Promise.all([
+      contract.reflectionsEarned(address),
+      contract.isExcludedFromReflection(address)
+    ]);
+    
+    return { earned: ethers.formatUnits(earned, tokenData.decimals), excluded };
+  }, [tokenData]);
+
+  const setReflectionExclusion = useCallback(async (address: string, excluded: boolean): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = excluded
+      ? await sendAdminTransaction('excludeFromReflection', [address], `Exclude ${address} from reflection`)
+      : await sendAdminTransaction('includeInReflection', [address], `Include ${address} in reflection`);
+    
+    return hash;
+  }, [tokenData, isOwner, sendAdminTransaction]);
+
+  const claimDividends = useCallback(async (): Promise<string> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
     const signer = web3Service.getSigner();
     if (!signer) throw new Error('Signer not available');
     
     const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
-    const percentageInBasisPoints = Math.floor(percentage * 100);
+    const tx = await contract.claimDividends();
+    await tx.wait();
+    
+    return tx.hash;
+  }, [tokenData]);
+
+  // Anyone can advance the payout loop; it pays as many holders as the gas allows
+  const processDividends = useCallback(async (gas: number): Promise<string> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const signer = web3Service.getSigner();
+    if (!signer) throw new Error('Signer not available');
     
-    const tx = await contract.setRedistributionPercentage(percentageInBasisPoints);
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
+    const tx = await contract.processDividends(gas);
     await tx.wait();
     
     // Reload token data
     await loadTokenData(tokenData.address);
     
     return tx.hash;
-  }, [tokenData, isOwner, loadTokenData]);
+  }, [tokenData, loadTokenData]);
 
-  const createVesting = useCallback(async (beneficiary: string, amount: string, startTime: number, duration: number): Promise<string> => {
+  const updateDividendSettings = useCallback(async (minimumBalance: string, gasForProcessing: number): Promise<string> => {
     if (!tokenData || !isOwner) throw new Error('Not authorized');
     
-    const signer = web3Service.getSigner();
-    if (!signer) throw new Error('Signer not available');
+    const hash = await sendAdminTransaction(
+      'setDividendSettings',
+      [ethers.parseUnits(minimumBalance, tokenData.decimals), gasForProcessing],
+      'Update dividend settings'
+    );
     
-    // This would interact with a separate vesting contract
-    // For now, we'll simulate the transaction
-    throw new Error('Vesting contract integration not implemented');
-  }, [tokenData, isOwner]);
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
 
-  const claimRewards = useCallback(async (): Promise<string> => {
+  const getDividendStatus = useCallback(async (address: string): Promise<{ withdrawable: string; withdrawn: string; excluded: boolean }> => {
+    if (!tokenData?.features.dividends) throw new Error('Token data not available');
+    
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
+    const [withdrawable, withdrawn, excluded] = await Promise.all([
+      contract.withdrawableDividendOf(address),
+      contract.withdrawnDividendOf(address),
+      contract.isExcludedFromDividends(address)
+    ]);
+    
+    const { rewardDecimals } = tokenData.features.dividends;
+    return {
+      withdrawable: ethers.formatUnits(withdrawable, rewardDecimals),
+      withdrawn: ethers.formatUnits(withdrawn, rewardDecimals),
+      excluded
+    };
+  }, [tokenData]);
+
+  const setDividendExclusion = useCallback(async (address: string, excluded: boolean): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('setExcludedFromDividends', [address, excluded], `${excluded ? 'Exclude' : 'Include'} ${address} ${excluded ? 'from' : 'in'} dividends`);
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const delegateVotes = useCallback(async (delegatee: string): Promise<string> => {
     if (!tokenData) throw new Error('Token data not available');
     
     const signer = web3Service.getSigner();
     if (!signer) throw new Error('Signer not available');
     
     const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
-    const tx = await contract.claimRewards();
+    const tx = await contract.delegate(delegatee);
     await tx.wait();
     
     return tx.hash;
   }, [tokenData]);
 
-  const getUnclaimedRewards = useCallback(async (address: string): Promise<string> => {
+  const getVotingStatus = useCallback(async (account: string): Promise<{ votes: string; delegate: string }> => {
     if (!tokenData) throw new Error('Token data not available');
     
     const provider = web3Service.getProvider();
     if (!provider) throw new Error('Provider not available');
     
     const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
-    const rewards = await contract.getUnclaimedRewards(address);
+    const [votes, delegate] = await Promise.all([
+      contract.getVotes(account),
+      contract.delegates(account)
+    ]);
     
-    return ethers.formatUnits(rewards, tokenData.decimals);
+    return { votes: ethers.formatUnits(votes, tokenData.decimals), delegate };
+  }, [tokenData]);
+
+  const takeSnapshot = useCallback(async (): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('snapshot', [], 'Take balance snapshot');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const getSnapshotBalance = useCallback(async (account: string, snapshotId: number): Promise<{ balance: string; totalSupply: string }> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
+    const [balance, totalSupply] = await Promise.all([
+      contract.balanceOfAt(account, snapshotId),
+      contract.totalSupplyAt(snapshotId)
+    ]);
+    
+    return {
+      balance: ethers.formatUnits(balance, tokenData.decimals),
+      totalSupply: ethers.formatUnits(totalSupply, tokenData.decimals)
+    };
+  }, [tokenData]);
+
+  const setPaused = useCallback(async (paused: boolean): Promise<string> => {
+    if (!tokenData || !(isOwner || tokenData.features.roles?.pauser)) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction(paused ? 'pause' : 'unpause', [], paused ? 'Pause transfers' : 'Unpause transfers', 'pauser');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const updateBlacklist = useCallback(async (accounts: string[], blacklisted: boolean): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const description = `${blacklisted ? 'Freeze' : 'Unfreeze'} ${accounts.length === 1 ? accounts[0] : `${accounts.length} addresses`}`;
+    const hash = accounts.length === 1
+      ? await sendAdminTransaction('setBlacklisted', [accounts[0], blacklisted], description)
+      : await sendAdminTransaction('setBlacklistedBatch', [accounts, blacklisted], description);
+    
+    return hash;
+  }, [tokenData, isOwner, sendAdminTransaction]);
+
+  const getBlacklistedAddresses = useCallback(async (): Promise<string[]> => {
+    if (!tokenData) return [];
+    
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    // The contract keeps no list, so replay the update events and keep each address's latest state
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
+    const events = await contract.queryFilter(contract.filters.BlacklistUpdated());
+    const latest = new Map<string, boolean>();
+    for (const event of events) {
+      const { account, blacklisted } = (event as ethers.EventLog).args;
+      latest.set(ethers.getAddress(account), blacklisted);
+    }
+    
+    return [...latest].filter(([, blacklisted]) => blacklisted).map(([account]) => account);
+  }, [tokenData]);
+
+  // Two-step tokens only record the new owner as pending until they accept
+  const transferOwnership = useCallback(async (newOwner: string): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('transferOwnership', [newOwner], `Transfer ownership to ${newOwner}`);
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const cancelOwnershipTransfer = useCallback(async (): Promise<string> => {
+    if (!tokenData?.pendingOwner || !isOwner) throw new Error('Not authorized');
+    
+    // Ownable2Step cancels a handover by making the zero address the pending owner
+    const hash = await sendAdminTransaction('transferOwnership', [ethers.ZeroAddress], 'Cancel ownership transfer');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const acceptOwnership = useCallback(async (): Promise<string> => {
+    if (!tokenData?.pendingOwner || tokenData.pendingOwner.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error('Only the pending owner can accept ownership');
+    }
+    
+    const signer = web3Service.getSigner();
+    if (!signer) throw new Error('Signer not available');
+    
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
+    const tx = await contract.acceptOwnership();
+    await tx.wait();
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return tx.hash;
+  }, [tokenData, userAddress, loadTokenData]);
+
+  const renounceOwnership = useCallback(async (): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('renounceOwnership', [], 'Renounce ownership');
+    
+    // Reload token data
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const updateRole = useCallback(async (role: TokenRole, account: string, granted: boolean): Promise<string> => {
+    if (!tokenData?.features.roles || !isOwner) throw new Error('Not authorized');
+    
+    const description = `${granted ? 'Grant' : 'Revoke'} ${role} role ${granted ? 'to' : 'from'} ${account}`;
+    const hash = await sendAdminTransaction(granted ? 'grantRole' : 'revokeRole', [ROLE_IDS[role], account], description, 'admin');
+    
+    // Reload token data in case the wallet changed its own roles
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const getRoleMembers = useCallback(async (): Promise<Record<TokenRole, string[]>> => {
+    const members: Record<TokenRole, string[]> = { admin: [], minter: [], pauser: [], feeManager: [] };
+    if (!tokenData?.features.roles) return members;
+    
+    const provider = web3Service.getProvider();
+    if (!provider) throw new Error('Provider not available');
+    
+    // AccessControl does not enumerate members, so replay grants and revocations in order
+    const contract = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, provider);
+    const [granted, revoked] = await Promise.all([
+      contract.queryFilter(contract.filters.RoleGranted()),
+      contract.queryFilter(contract.filters.RoleRevoked())
+    ]);
+    const events = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index) as ethers.EventLog[];
+    
+    const roleNames = Object.fromEntries(Object.entries(ROLE_IDS).map(([name, id]) => [id, name as TokenRole]));
+    const current = new Map<string, boolean>();
+    for (const event of events) {
+      const role = roleNames[event.args.role];
+      if (role) current.set(`${role}:${ethers.getAddress(event.args.account)}`, event.eventName === 'RoleGranted');
+    }
+    
+    for (const [key, held] of current) {
+      const [role, account] = key.split(':') as [TokenRole, string];
+      if (held) members[role].push(account);
+    }
+    return members;
   }, [tokenData]);
 
+  const getSafeTransactionBatch = useCallback(async (): Promise<SafeTransactionBatch> => {
+    if (!tokenData?.safeOwner) throw new Error('Token is not owned by a Safe');
+    
+    const network = await web3Service.getCurrentNetwork();
+    if (!network) throw new Error('Network not available');
+    
+    return buildSafeTransactionBatch(network.chainId, tokenData.safeOwner.address, safeTransactions, `${tokenData.symbol} admin actions`, userAddress);
+  }, [tokenData, safeTransactions, userAddress]);
+
+  const clearSafeTransactions = useCallback(() => setSafeTransactions([]), []);
+
   const getMintHistory = useCallback(async (): Promise<MintTransaction[]> => {
     if (!tokenData) return [];
     
@@ -349,6 +1188,195 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
     return [];
   }, [tokenData]);
 
+  // The proxy keeps its storage across upgrades, so the target implementation must keep every variable
+  // of the one actually behind the proxy where it is. That is the artifact recorded when the implementation
+  // was deployed; the generator's current output for the same type may have changed since
+  const checkUpgrade = useCallback(async (targetContractType: string): Promise<StorageLayoutIssue[]> => {
+    if (!tokenData?.implementationAddress || !tokenData.contractType) {
+      throw new Error('Token is not upgradeable');
+    }
+    if (!tokenData.implementationArtifactHash) {
+      throw new Error('The artifact this token\'s implementation was deployed from is not on record, so its storage layout is unknown');
+    }
+    
+    const { compileWithArtifactStore, getStoredArtifact } = await import('../services/artifactStore');
+    const [current, target] = await Promise.all([
+      getStoredArtifact(tokenData.implementationArtifactHash),
+      compileWithArtifactStore(targetContractType)
+    ]);
+    
+    return compareStorageLayouts(current.storageLayout, target.storageLayout);
+  }, [tokenData]);
+
+  const upgradeToken = useCallback(async (targetContractType: string): Promise<string> => {
+    if (!tokenData?.implementationAddress || !isOwner) throw new Error('Not authorized');
+    const { chainId } = tokenData;
+    if (!chainId) throw new Error('Network not detected');
+    
+    const issues = await checkUpgrade(targetContractType);
+    if (issues.length > 0) {
+      throw new Error(`${targetContractType} is not storage compatible: ${issues[0].variable} ${issues[0].message.toLowerCase()}`);
+    }
+    
+    // The new implementation is deployed from the wallet with the stored artifact, so its layout is on record for
+    // the next upgrade; the owner (or Safe) then points the proxy at it and runs its reinitializer in one call
+    const { compileWithArtifactStore } = await import('../services/artifactStore');
+    const artifact = await compileWithArtifactStore(targetContractType);
+    const implementation = await web3Service.deployContract(artifact.abi, artifact.bytecode, []);
+    const reinitialize = new ethers.Interface(artifact.abi).encodeFunctionData('reinitialize');
+    
+    const hash = await sendAdminTransaction(
+      'upgradeToAndCall',
+      [implementation.address, reinitialize],
+      `Upgrade to ${targetContractType} at ${implementation.address}`
+    );
+    
+    // Safe-queued upgrades are recorded once the batch has executed and the token is reloaded
+    if (hash) {
+      await contractService.recordUpgrade(tokenData.address, chainId, implementation.address, targetContractType, artifact.hash);
+      await loadTokenData(tokenData.address);
+    }
+    
+    return hash;
+  }, [tokenData, isOwner, checkUpgrade, loadTokenData, sendAdminTransaction]);
+
+  const verifyContract = useCallback(async (): Promise<VerificationResult> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    if (!tokenData.contractType || !tokenData.constructorArgs || !tokenData.chainId) {
+      throw new Error('Deployment record not found for this token');
+    }
+    const { chainId } = tokenData;
+    
+    setTokenData(prev => prev && { ...prev, verificationStatus: 'pending', verificationMessage: undefined });
+    
+    try {
+      // The server submits the implementation of upgradeable tokens, and the token itself otherwise
+      const result = await contractService.verifyContract(tokenData.address, chainId);
+      
+      setTokenData(prev => prev && {
+        ...prev,
+        verified: result.status === 'verified',
+        verificationStatus: result.status,
+        verificationMessage: result.message
+      });
+      
+      return result;
+    } catch (error) {
+      setTokenData(prev => prev && {
+        ...prev,
+        verificationStatus: 'failed',
+        verificationMessage: (error as Error).message
+      });
+      throw error;
+    }
+  }, [tokenData, isOwner]);
+
+  // Supply and adapter state on every network the token was deployed to in the same project
+  const getBridgeChains = useCallback(async (): Promise<BridgeChainState[]> => {
+    if (!tokenData) throw new Error('Token data not available');
+    
+    const currentNetwork = await web3Service.getCurrentNetwork();
+    const network = currentNetwork && findNetwork(currentNetwork.chainId, networks);
+    if (!network) throw new Error('Network not supported');
+    
+    const siblings = tokenData.projectId
+      ? (await contractService.getDeployedTokens()).filter(token =>
+        token.projectId === tokenData.projectId && token.network?.chainId !== network.chainId)
+      : [];
+    
+    const deployments: BridgeDeployment[] = [
+      { network, tokenAddress: tokenData.address, adapterAddress: tokenData.bridgeAdapterAddress },
+      ...siblings.flatMap(token => {
+        const siblingNetwork = findNetwork(token.network.chainId, networks);
+        return siblingNetwork
+          ? [{ network: siblingNetwork, tokenAddress: token.contractAddress, adapterAddress: token.bridgeAdapterAddress }]
+          : [];
+      })
+    ];
+    
+    return getBridgeChainStates(deployments);
+  }, [tokenData]);
+
+  const deployBridgeAdapter = useCallback(async (relayer: string): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const network = await web3Service.getCurrentNetwork();
+    if (!network) throw new Error('Network not detected');
+    
+    // Bridgeable tokens are burned and minted by the adapter; any other token is locked in it
+    const lockRelease = !tokenData.features.bridge;
+    
+    // The adapter is owned like the token, so a Safe-owned token's adapter is linked through the same Safe
+    const { getCompiledContract } = await import('../services/contractSource');
+    const compiled = await getCompiledContract('RelayerBridgeAdapter');
+    const adapter = await web3Service.deployContract(compiled.abi, compiled.bytecode, [tokenData.address, lockRelease, relayer, tokenData.owner]);
+    await contractService.recordBridgeAdapter(tokenData.address, network.chainId, adapter.address);
+    
+    if (!lockRelease) {
+      await sendAdminTransaction('setBridge', [adapter.address], `Set bridge adapter to ${adapter.address}`);
+    }
+    
+    await loadTokenData(tokenData.address);
+    
+    return adapter.address;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  // Peers are set on this network's adapter; each other network's adapter is linked back from there
+  const linkBridgePeers = useCallback(async (peers: Array<{ chainId: number; adapter: string }>): Promise<string> => {
+    if (!tokenData?.bridgeAdapterAddress || !isOwner) throw new Error('Not authorized');
+    
+    const target = { address: tokenData.bridgeAdapterAddress, abi: BRIDGE_ADAPTER_ABI };
+    let hash = '';
+    for (const peer of peers) {
+      hash = await sendAdminTransaction('setPeer', [peer.chainId, peer.adapter], `Link bridge adapter to ${peer.adapter} on chain ${peer.chainId}`, undefined, target);
+    }
+    
+    return hash;
+  }, [tokenData, isOwner, sendAdminTransaction]);
+
+  // Replacing a token's bridge adapter is scheduled by setBridge and applied once the delay has passed
+  const applyBridgeChange = useCallback(async (): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    const hash = await sendAdminTransaction('applyBridgeChange', [], 'Apply the scheduled bridge adapter change');
+    await loadTokenData(tokenData.address);
+    
+    return hash;
+  }, [tokenData, isOwner, loadTokenData, sendAdminTransaction]);
+
+  const cancelBridgeChange = useCallback(async (): Promise<string> => {
+    if (!tokenData || !isOwner) throw new Error('Not authorized');
+    
+    return sendAdminTransaction('cancelBridgeChange', [], 'Cancel the scheduled bridge adapter change');
+  }, [tokenData, isOwner, sendAdminTransaction]);
+
+  // Sends tokens from the wallet; the relayer delivers them on the destination network
+  const bridgeTokens = useCallback(async (dstChainId: number, to: string, amount: string): Promise<string> => {
+    if (!tokenData?.bridgeAdapterAddress) throw new Error('No bridge adapter on this network');
+    
+    const signer = web3Service.getSigner();
+    if (!signer) throw new Error('Signer not available');
+    
+    const adapter = new ethers.Contract(tokenData.bridgeAdapterAddress, BRIDGE_ADAPTER_ABI, signer);
+    const amountWei = ethers.parseUnits(amount, tokenData.decimals);
+    const fee = await adapter.quoteSend(dstChainId, amountWei);
+    
+    // Lock/release adapters transfer the tokens in and burn/mint adapters burn them; both spend an allowance
+    const token = new ethers.Contract(tokenData.address, TOKEN_MANAGEMENT_ABI, signer);
+    const allowance = await token.allowance(userAddress, tokenData.bridgeAdapterAddress);
+    if (allowance < amountWei) {
+      await (await token.approve(tokenData.bridgeAdapterAddress, amountWei)).wait();
+    }
+    
+    const tx = await adapter.sendTokens(dstChainId, to, amountWei, { value: fee });
+    await tx.wait();
+    
+    // Reload token data to update supply
+    await loadTokenData(tokenData.address);
+    
+    return tx.hash;
+  }, [tokenData, userAddress, loadTokenData]);
+
   return {
     tokenData,
     isLoading,
@@ -358,10 +1386,55 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
     burnTokens,
     updateFeeSettings,
     updateRedistributionPercentage,
+    updateTaxes,
+    updateTaxRecipients,
+    setAutomatedMarketMakerPair,
+    updateSwapThreshold,
+    swapBack,
+    claimDividends,
+    processDividends,
+    updateDividendSettings,
+    getDividendStatus,
+    setDividendExclusion,
     createVesting,
+    createVestingSchedules,
+    getVestingFunding,
+    revokeVesting,
     claimRewards,
     getUnclaimedRewards,
+    getReflectionStatus,
+    setReflectionExclusion,
+    enableTrading,
+    updateTradingLimits,
+    setLimitExemption,
+    setSniperFlag,
+    getLimitStatus,
+    delegateVotes,
+    getVotingStatus,
+    takeSnapshot,
+    getSnapshotBalance,
+    setPaused,
+    updateBlacklist,
+    getBlacklistedAddresses,
+    transferOwnership,
+    cancelOwnershipTransfer,
+    acceptOwnership,
+    renounceOwnership,
+    updateRole,
+    getRoleMembers,
+    safeTransactions,
+    getSafeTransactionBatch,
+    clearSafeTransactions,
     getMintHistory,
-    getBurnHistory
+    getBurnHistory,
+    checkUpgrade,
+    upgradeToken,
+    verifyContract,
+    getBridgeChains,
+    deployBridgeAdapter,
+    linkBridgePeers,
+    applyBridgeChange,
+    cancelBridgeChange,
+    bridgeTokens
   };
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { VanityMatch } from '../services/vanityAddress';
+import { VanityMinerMessage } from '../services/vanityMiner.worker';
+
+// Runs the CREATE2 salt search in a web worker so the page stays responsive
+export const useVanityMiner = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const settleRef = useRef<((match: VanityMatch | null) => void) | null>(null);
+  const [isMining, setIsMining] = useState(false);
+  const [attempts, setAttempts] = useState(0);
+
+  // Stops the search; a pending mine() resolves with no match
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    settleRef.current?.(null);
+    settleRef.current = null;
+    setIsMining(false);
+  }, []);
+
+  const mine = useCallback((factoryAddress: string, initCodeHash: string, prefix: string): Promise<VanityMatch | null> => {
+    cancel();
+    setAttempts(0);
+    setIsMining(true);
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../services/vanityMiner.worker.ts', import.meta.url), { type: 'module' });
+      workerRef.current = worker;
+      settleRef.current = resolve;
+
+      worker.onmessage = (event: MessageEvent<VanityMinerMessage>) => {
+        setAttempts(event.data.attempts);
+        if (event.data.type === 'found') {
+          settleRef.current = null;
+          cancel();
+          resolve({ salt: event.data.salt, address: event.data.address });
+        }
+      };
+      worker.onerror = (event) => {
+        settleRef.current = null;
+        cancel();
+        reject(new Error(event.message || 'Vanity search failed'));
+      };
+
+      worker.postMessage({ factoryAddress, initCodeHash, prefix });
+    });
+  }, [cancel]);
+
+  // Stop searching when the component using the miner unmounts
+  useEffect(() => cancel, [cancel]);
+
+  return { mine, cancel, isMining, attempts };
+};
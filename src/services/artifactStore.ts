@@ -0,0 +1,50 @@
+import { CompiledContract } from './contractSource';
+import { StorageLayout } from './proxyUpgrades';
+
+// Client for the server's content-addressed artifact store (/api/artifacts). The server compiles each of the
+// app's contract types once from the source it generates itself, so the browser rarely has to download solc.js.
+
+export interface StoredArtifact {
+  hash: string;
+  contractName: string;
+  compilerVersion: string;
+  abi: CompiledContract['abi'];
+  bytecode: string;
+  metadata: string;
+  storageLayout: StorageLayout;
+  sourceHash: string; // getSourceHash of the standard-JSON input the server compiled
+}
+
+const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+const request = async (path: string, init: RequestInit = {}): Promise<StoredArtifact> => {
+  const token = localStorage.getItem('authToken');
+  if (!token) {
+    throw new Error('Not signed in');
+  }
+
+  const response = await fetch(`${apiUrl}/api/artifacts${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.error || `Artifact store request failed: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Returns the stored artifact for a contract type, compiling it on the server the first time
+export async function compileWithArtifactStore(contractType: string): Promise<StoredArtifact> {
+  return request('/compile', { method: 'POST', body: JSON.stringify({ contractType }) });
+}
+
+// Returns an artifact stored earlier, e.g. the one a proxy's implementation was deployed from
+export async function getStoredArtifact(hash: string): Promise<StoredArtifact> {
+  return request(`/${hash}`);
+}
@@ -0,0 +1,125 @@
+import { ethers } from 'ethers';
+import { Network } from '../types';
+
+// Cross-chain transfers through RelayerBridgeAdapter. Every deployment of a token has its own
+// adapter; adapters are linked to each other as peers and a relayer delivers what one sends to another
+
+export const BRIDGE_ADAPTER_ABI = [
+  'function token() view returns (address)',
+  'function lockRelease() view returns (bool)',
+  'function relayer() view returns (address)',
+  'function relayerFee() view returns (uint256)',
+  'function owner() view returns (address)',
+  'function peers(uint256 chainId) view returns (address)',
+  'function quoteSend(uint256 dstChainId, uint256 amount) view returns (uint256)',
+  'function sendTokens(uint256 dstChainId, address to, uint256 amount) payable returns (uint256)',
+  'function setPeer(uint256 chainId, address peer)',
+  'function setRelayer(address relayer, uint256 fee)'
+];
+
+const BRIDGE_TOKEN_ABI = [
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function bridge() view returns (address)',
+  'function pendingBridge() view returns (address)',
+  'function bridgeChangeTime() view returns (uint256)'
+];
+
+export interface BridgeDeployment {
+  network: Network;
+  tokenAddress: string;
+  adapterAddress?: string; // As recorded at deployment; bridgeable tokens also store it on-chain
+}
+
+export interface BridgeChainState extends BridgeDeployment {
+  status: 'ok' | 'unreachable';
+  totalSupply: string;
+  lockedSupply: string; // Held by a lock/release adapter for the other chains, so not circulating here
+  lockRelease: boolean;
+  bridgeRoleSet: boolean; // Whether a bridgeable token accepts mints and burns from the adapter
+  pendingBridge?: string; // Adapter the token switches to once the change delay has passed
+  bridgeChangeTime?: number; // Unix time the pending adapter can be applied from
+  peers: Record<number, string>; // Chain ID => peer adapter, for the other deployments
+}
+
+// Deployments are stored with the network's chain ID and name only
+export const findNetwork = (chainId: number, networks: Network[]) =>
+  networks.find(network => network.chainId === chainId);
+
+// Reads supply and adapter state of every deployment through the networks' public RPCs
+export async function getBridgeChainStates(deployments: BridgeDeployment[]): Promise<BridgeChainState[]> {
+  return Promise.all(deployments.map(async (deployment): Promise<BridgeChainState> => {
+    const empty = {
+      ...deployment,
+      totalSupply: '0',
+      lockedSupply: '0',
+      lockRelease: false,
+      bridgeRoleSet: false,
+      peers: {}
+    };
+
+    try {
+      const provider = new ethers.JsonRpcProvider(deployment.network.rpcUrl, deployment.network.chainId, { staticNetwork: true });
+      const token = new ethers.Contract(deployment.tokenAddress, BRIDGE_TOKEN_ABI, provider);
+
+      const [decimals, totalSupply, tokenBridge, pendingBridge, bridgeChangeTime] = await Promise.all([
+        token.decimals(),
+        token.totalSupply(),
+        // Tokens without the bridgeable feature have no bridge role, older bridgeable tokens no change delay
+        token.bridge().catch(() => null),
+        token.pendingBridge().catch(() => null),
+        token.bridgeChangeTime().catch(() => null)
+      ]);
+      const pendingChange = pendingBridge && pendingBridge !== ethers.ZeroAddress
+        ? { pendingBridge, bridgeChangeTime: Number(bridgeChangeTime) }
+        : {};
+
+      const tokenAdapter = tokenBridge && tokenBridge !== ethers.ZeroAddress ? tokenBridge : undefined;
+      const adapterAddress = tokenAdapter || deployment.adapterAddress;
+      if (!adapterAddress) {
+        provider.destroy();
+        return { ...empty, ...pendingChange, status: 'ok', adapterAddress, totalSupply: ethers.formatUnits(totalSupply, decimals) };
+      }
+
+      const adapter = new ethers.Contract(adapterAddress, BRIDGE_ADAPTER_ABI, provider);
+      const otherChainIds = deployments
+        .map(other => other.network.chainId)
+        .filter(chainId => chainId !== deployment.network.chainId);
+
+      const [lockRelease, peerAddresses] = await Promise.all([
+        adapter.lockRelease(),
+        Promise.all(otherChainIds.map(chainId => adapter.peers(chainId)))
+      ]);
+      const lockedSupply = lockRelease ? await token.balanceOf(adapterAddress) : 0n;
+      provider.destroy();
+
+      return {
+        ...deployment,
+        status: 'ok',
+        adapterAddress,
+        totalSupply: ethers.formatUnits(totalSupply, decimals),
+        lockedSupply: ethers.formatUnits(lockedSupply, decimals),
+        lockRelease,
+        bridgeRoleSet: !!tokenAdapter && tokenAdapter.toLowerCase() === adapterAddress.toLowerCase(),
+        ...pendingChange,
+        peers: Object.fromEntries(otherChainIds
+          .map((chainId, index) => [chainId, peerAddresses[index]] as const)
+          .filter(([, peer]) => peer !== ethers.ZeroAddress))
+      };
+    } catch {
+      return { ...empty, status: 'unreachable' };
+    }
+  }));
+}
+
+// Adapters of the other deployments that the adapter on `chainId` does not list as its peers yet
+export function getMissingPeers(states: BridgeChainState[], chainId: number): Array<{ chainId: number; adapter: string }> {
+  const state = states.find(s => s.network.chainId === chainId);
+  if (!state?.adapterAddress) return [];
+
+  return states
+    .filter(other => other.network.chainId !== chainId && other.adapterAddress)
+    .filter(other => state.peers[other.network.chainId]?.toLowerCase() !== other.adapterAddress!.toLowerCase())
+    .map(other => ({ chainId: other.network.chainId, adapter: other.adapterAddress! }));
+}
@@ -1,5 +1,4410 @@
-// This file would normally contain the bytecode for each contract
-// In a production environment, this would be generated from the Solidity source code
-// For now, we'll use the contractSource.ts file to compile contracts on-the-fly
+// Generated by scripts/build-contract-bundle.js; do not edit by hand.
+// Entries are only used while their source hash matches the sources the app compiles today.
+import type { PrecompiledContract } from './contractSource';
 
-export const contractBytecode: Record<string, string> = {};
\ No newline at end of file
+export const contractBytecode: Record<string, PrecompiledContract> = {
+  "BasicToken": {
+    "sourceHash": "0x561a501fa4a7217128430401d2bc96c6e723cbc74f0a0daa765e227953843923",
+    "compilerVersion": "v0.8.30+commit.73712a01",
+    "abi": [
+      {
+        "inputs": [
+          {
+            "internalType": "string",
+            "name": "name",
+            "type": "string"
+          },
+          {
+            "internalType": "string",
+            "name": "symbol",
+            "type": "string"
+          },
+          {
+            "internalType": "uint8",
+            "name": "decimals_",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "initialSupply",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxSupply_",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Approval",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferStarted",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Transfer",
+        "type": "event"
+      },
+      {
+        "inputs": [],
+        "name": "acceptOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          }
+        ],
+        "name": "allowance",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "approve",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          }
+        ],
+        "name": "balanceOf",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "decimals",
+        "outputs": [
+          {
+            "internalType": "uint8",
+            "name": "",
+            "type": "uint8"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "subtractedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "decreaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "addedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "increaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "maxSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "name",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "pendingOwner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "renounceOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "symbol",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transfer",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transferFrom",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "608060405234801561000f575f5ffd5b50604051610f3e380380610f3e83398101604081905261002e91610277565b8585600361003c83826103a8565b50600461004982826103a8565b50505061006261005d6100a360201b60201c565b6100a7565b6006805460ff60a01b1916600160a01b60ff8716021790556007829055821561008f5761008f81846100c3565b610098816100a7565b505050505050610487565b3390565b600680546001600160a01b03191690556100c081610184565b50565b6001600160a01b03821661011d5760405162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015260640160405180910390fd5b8060025f82825461012e9190610462565b90915550506001600160a01b0382165f81815260208181526040808320805486019055518481527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a35050565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b505050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126101fd575f5ffd5b81516001600160401b03811115610216576102166101da565b604051601f8201601f19908116603f011681016001600160401b0381118282101715610244576102446101da565b60405281815283820160200185101561025b575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f5f5f5f5f60c0878903121561028c575f5ffd5b86516001600160401b038111156102a1575f5ffd5b6102ad89828a016101ee565b602089015190975090506001600160401b038111156102ca575f5ffd5b6102d689828a016101ee565b955050604087015160ff811681146102ec575f5ffd5b6060880151608089015160a08a015192965090945092506001600160a01b0381168114610317575f5ffd5b809150509295509295509295565b600181811c9082168061033957607f821691505b60208210810361035757634e487b7160e01b5f52602260045260245ffd5b50919050565b601f8211156101d557805f5260205f20601f840160051c810160208510156103825750805b601f840160051c820191505b818110156103a1575f815560010161038e565b5050505050565b81516001600160401b038111156103c1576103c16101da565b6103d5816103cf8454610325565b8461035d565b6020601f821160018114610407575f83156103f05750848201515b5f19600385901b1c1916600184901b1784556103a1565b5f84815260208120601f198516915b828110156104365787850151825560209485019460019092019101610416565b508482101561045357868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b8082018082111561048157634e487b7160e01b5f52601160045260245ffd5b92915050565b610aaa806104945f395ff3fe608060405234801561000f575f5ffd5b5060043610610106575f3560e01c806379ba50971161009e578063a9059cbb1161006e578063a9059cbb1461021c578063d5abeb011461022f578063dd62ed3e14610237578063e30c39781461024a578063f2fde38b1461025b575f5ffd5b806379ba5097146101d45780638da5cb5b146101dc57806395d89b4114610201578063a457c2d714610209575f5ffd5b8063313ce567116100d9578063313ce56714610170578063395093511461018f57806370a08231146101a2578063715018a6146101ca575f5ffd5b806306fdde031461010a578063095ea7b31461012857806318160ddd1461014b57806323b872dd1461015d575b5f5ffd5b61011261026e565b60405161011f919061091a565b60405180910390f35b61013b61013636600461096a565b6102fe565b604051901515815260200161011f565b6002545b60405190815260200161011f565b61013b61016b366004610992565b610317565b600654600160a01b900460ff1660405160ff909116815260200161011f565b61013b61019d36600461096a565b61033a565b61014f6101b03660046109cc565b6001600160a01b03165f9081526020819052604090205490565b6101d261035b565b005b6101d261036e565b6005546001600160a01b03165b6040516001600160a01b03909116815260200161011f565b6101126103ed565b61013b61021736600461096a565b6103fc565b61013b61022a36600461096a565b610476565b60075461014f565b61014f6102453660046109ec565b610483565b6006546001600160a01b03166101e9565b6101d26102693660046109cc565b6104ad565b60606003805461027d90610a1d565b80601f01602080910402602001604051908101604052809291908181526020018280546102a990610a1d565b80156102f45780601f106102cb576101008083540402835291602001916102f4565b820191905f5260205f20905b8154815290600101906020018083116102d757829003601f168201915b5050505050905090565b5f3361030b81858561051e565b60019150505b92915050565b5f33610324858285610641565b61032f8585856106b9565b506001949350505050565b5f3361030b81858561034c8383610483565b6103569190610a55565b61051e565b61036361085b565b61036c5f6108b5565b565b60065433906001600160a01b031681146103e15760405162461bcd60e51b815260206004820152602960248201527f4f776e61626c6532537465703a2063616c6c6572206973206e6f7420746865206044820152683732bb9037bbb732b960b91b60648201526084015b60405180910390fd5b6103ea816108b5565b50565b60606004805461027d90610a1d565b5f33816104098286610483565b9050838110156104695760405162461bcd60e51b815260206004820152602560248201527f45524332303a2064656372656173656420616c6c6f77616e63652062656c6f77604482015264207a65726f60d81b60648201526084016103d8565b61032f828686840361051e565b5f3361030b8185856106b9565b6001600160a01b039182165f90815260016020908152604080832093909416825291909152205490565b6104b561085b565b600680546001600160a01b0383166001600160a01b031990911681179091556104e66005546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b6001600160a01b0383166105805760405162461bcd60e51b8152602060048201526024808201527f45524332303a20617070726f76652066726f6d20746865207a65726f206164646044820152637265737360e01b60648201526084016103d8565b6001600160a01b0382166105e15760405162461bcd60e51b815260206004820152602260248201527f45524332303a20617070726f766520746f20746865207a65726f206164647265604482015261737360f01b60648201526084016103d8565b6001600160a01b038381165f8181526001602090815260408083209487168084529482529182902085905590518481527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925910160405180910390a3505050565b5f61064c8484610483565b90505f1981146106b357818110156106a65760405162461bcd60e51b815260206004820152601d60248201527f45524332303a20696e73756666696369656e7420616c6c6f77616e636500000060448201526064016103d8565b6106b3848484840361051e565b50505050565b6001600160a01b03831661071d5760405162461bcd60e51b815260206004820152602560248201527f45524332303a207472616e736665722066726f6d20746865207a65726f206164604482015264647265737360d81b60648201526084016103d8565b6001600160a01b03821661077f5760405162461bcd60e51b815260206004820152602360248201527f45524332303a207472616e7366657220746f20746865207a65726f206164647260448201526265737360e81b60648201526084016103d8565b6001600160a01b0383165f90815260208190526040902054818110156107f65760405162461bcd60e51b815260206004820152602660248201527f45524332303a207472616e7366657220616d6f756e7420657863656564732062604482015265616c616e636560d01b60648201526084016103d8565b6001600160a01b038481165f81815260208181526040808320878703905593871680835291849020805487019055925185815290927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a36106b3565b6005546001600160a01b0316331461036c5760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016103d8565b600680546001600160a01b03191690556103ea81600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610965575f5ffd5b919050565b5f5f6040838503121561097b575f5ffd5b6109848361094f565b946020939093013593505050565b5f5f5f606084860312156109a4575f5ffd5b6109ad8461094f565b92506109bb6020850161094f565b929592945050506040919091013590565b5f602082840312156109dc575f5ffd5b6109e58261094f565b9392505050565b5f5f604083850312156109fd575f5ffd5b610a068361094f565b9150610a146020840161094f565b90509250929050565b600181811c90821680610a3157607f821691505b602082108103610a4f57634e487b7160e01b5f52602260045260245ffd5b50919050565b8082018082111561031157634e487b7160e01b5f52601160045260245ffdfea2646970667358221220e3618ddfd06f529b397eb0444ed11ee3ef60979e1a78937b6255734d1d08376464736f6c634300081e0033",
+    "storageLayout": {
+      "storage": [
+        {
+          "label": "_balances",
+          "slot": "0",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_uint256)",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_allowances",
+          "slot": "1",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_mapping(t_address,t_uint256))",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_totalSupply",
+          "slot": "2",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_name",
+          "slot": "3",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_symbol",
+          "slot": "4",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_owner",
+          "slot": "5",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_pendingOwner",
+          "slot": "6",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_decimals",
+          "slot": "6",
+          "offset": 20,
+          "type": "t_uint8",
+          "contract": "contract.sol:BasicToken"
+        },
+        {
+          "label": "_maxSupply",
+          "slot": "7",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:BasicToken"
+        }
+      ],
+      "types": {
+        "t_address": {
+          "label": "address",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_mapping(t_address,t_mapping(t_address,t_uint256))": {
+          "label": "mapping(address => mapping(address => uint256))",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_mapping(t_address,t_uint256)": {
+          "label": "mapping(address => uint256)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_string_storage": {
+          "label": "string",
+          "numberOfBytes": "32",
+          "encoding": "bytes"
+        },
+        "t_uint256": {
+          "label": "uint256",
+          "numberOfBytes": "32",
+          "encoding": "inplace"
+        },
+        "t_uint8": {
+          "label": "uint8",
+          "numberOfBytes": "1",
+          "encoding": "inplace"
+        }
+      }
+    }
+  },
+  "BurnableToken": {
+    "sourceHash": "0xbfb229303501a574f8df8fad61dfbc4e008d4173521db7738712f70e6054e6aa",
+    "compilerVersion": "v0.8.30+commit.73712a01",
+    "abi": [
+      {
+        "inputs": [
+          {
+            "internalType": "string",
+            "name": "name",
+            "type": "string"
+          },
+          {
+            "internalType": "string",
+            "name": "symbol",
+            "type": "string"
+          },
+          {
+            "internalType": "uint8",
+            "name": "decimals_",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "initialSupply",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxSupply_",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Approval",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferStarted",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Transfer",
+        "type": "event"
+      },
+      {
+        "inputs": [],
+        "name": "acceptOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          }
+        ],
+        "name": "allowance",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "approve",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          }
+        ],
+        "name": "balanceOf",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "burn",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "burnFrom",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "decimals",
+        "outputs": [
+          {
+            "internalType": "uint8",
+            "name": "",
+            "type": "uint8"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "subtractedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "decreaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "addedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "increaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "maxSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "name",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "pendingOwner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "renounceOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "symbol",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transfer",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transferFrom",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "608060405234801561000f575f5ffd5b506040516110dd3803806110dd83398101604081905261002e91610277565b8585600361003c83826103a8565b50600461004982826103a8565b50505061006261005d6100a360201b60201c565b6100a7565b6006805460ff60a01b1916600160a01b60ff8716021790556007829055821561008f5761008f81846100c3565b610098816100a7565b505050505050610487565b3390565b600680546001600160a01b03191690556100c081610184565b50565b6001600160a01b03821661011d5760405162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015260640160405180910390fd5b8060025f82825461012e9190610462565b90915550506001600160a01b0382165f81815260208181526040808320805486019055518481527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a35050565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b505050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126101fd575f5ffd5b81516001600160401b03811115610216576102166101da565b604051601f8201601f19908116603f011681016001600160401b0381118282101715610244576102446101da565b60405281815283820160200185101561025b575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f5f5f5f5f60c0878903121561028c575f5ffd5b86516001600160401b038111156102a1575f5ffd5b6102ad89828a016101ee565b602089015190975090506001600160401b038111156102ca575f5ffd5b6102d689828a016101ee565b955050604087015160ff811681146102ec575f5ffd5b6060880151608089015160a08a015192965090945092506001600160a01b0381168114610317575f5ffd5b809150509295509295509295565b600181811c9082168061033957607f821691505b60208210810361035757634e487b7160e01b5f52602260045260245ffd5b50919050565b601f8211156101d557805f5260205f20601f840160051c810160208510156103825750805b601f840160051c820191505b818110156103a1575f815560010161038e565b5050505050565b81516001600160401b038111156103c1576103c16101da565b6103d5816103cf8454610325565b8461035d565b6020601f821160018114610407575f83156103f05750848201515b5f19600385901b1c1916600184901b1784556103a1565b5f84815260208120601f198516915b828110156104365787850151825560209485019460019092019101610416565b508482101561045357868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b8082018082111561048157634e487b7160e01b5f52601160045260245ffd5b92915050565b610c49806104945f395ff3fe608060405234801561000f575f5ffd5b506004361061011c575f3560e01c806379ba5097116100a9578063a9059cbb1161006e578063a9059cbb14610258578063d5abeb011461026b578063dd62ed3e14610273578063e30c397814610286578063f2fde38b14610297575f5ffd5b806379ba5097146101fd57806379cc6790146102055780638da5cb5b1461021857806395d89b411461023d578063a457c2d714610245575f5ffd5b8063313ce567116100ef578063313ce5671461018657806339509351146101a557806342966c68146101b857806370a08231146101cd578063715018a6146101f5575f5ffd5b806306fdde0314610120578063095ea7b31461013e57806318160ddd1461016157806323b872dd14610173575b5f5ffd5b6101286102aa565b6040516101359190610aa2565b60405180910390f35b61015161014c366004610af2565b61033a565b6040519015158152602001610135565b6002545b604051908152602001610135565b610151610181366004610b1a565b610353565b600654600160a01b900460ff1660405160ff9091168152602001610135565b6101516101b3366004610af2565b610376565b6101cb6101c6366004610b54565b610397565b005b6101656101db366004610b6b565b6001600160a01b03165f9081526020819052604090205490565b6101cb6103a4565b6101cb6103b7565b6101cb610213366004610af2565b610433565b6005546001600160a01b03165b6040516001600160a01b039091168152602001610135565b61012861044c565b610151610253366004610af2565b61045b565b610151610266366004610af2565b6104d5565b600754610165565b610165610281366004610b8b565b6104e2565b6006546001600160a01b0316610225565b6101cb6102a5366004610b6b565b61050c565b6060600380546102b990610bbc565b80601f01602080910402602001604051908101604052809291908181526020018280546102e590610bbc565b80156103305780601f1061030757610100808354040283529160200191610330565b820191905f5260205f20905b81548152906001019060200180831161031357829003601f168201915b5050505050905090565b5f3361034781858561057d565b60019150505b92915050565b5f336103608582856106a1565b61036b858585610719565b506001949350505050565b5f3361034781858561038883836104e2565b6103929190610bf4565b61057d565b6103a133826108bb565b50565b6103ac6109e3565b6103b55f610a3d565b565b60065433906001600160a01b0316811461042a5760405162461bcd60e51b815260206004820152602960248201527f4f776e61626c6532537465703a2063616c6c6572206973206e6f7420746865206044820152683732bb9037bbb732b960b91b60648201526084015b60405180910390fd5b6103a181610a3d565b61043e8233836106a1565b61044882826108bb565b5050565b6060600480546102b990610bbc565b5f338161046882866104e2565b9050838110156104c85760405162461bcd60e51b815260206004820152602560248201527f45524332303a2064656372656173656420616c6c6f77616e63652062656c6f77604482015264207a65726f60d81b6064820152608401610421565b61036b828686840361057d565b5f33610347818585610719565b6001600160a01b039182165f90815260016020908152604080832093909416825291909152205490565b6105146109e3565b600680546001600160a01b0383166001600160a01b031990911681179091556105456005546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b6001600160a01b0383166105df5760405162461bcd60e51b8152602060048201526024808201527f45524332303a20617070726f76652066726f6d20746865207a65726f206164646044820152637265737360e01b6064820152608401610421565b6001600160a01b0382166106405760405162461bcd60e51b815260206004820152602260248201527f45524332303a20617070726f766520746f20746865207a65726f206164647265604482015261737360f01b6064820152608401610421565b6001600160a01b038381165f8181526001602090815260408083209487168084529482529182902085905590518481527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92591015b60405180910390a3505050565b5f6106ac84846104e2565b90505f19811461071357818110156107065760405162461bcd60e51b815260206004820152601d60248201527f45524332303a20696e73756666696369656e7420616c6c6f77616e63650000006044820152606401610421565b610713848484840361057d565b50505050565b6001600160a01b03831661077d5760405162461bcd60e51b815260206004820152602560248201527f45524332303a207472616e736665722066726f6d20746865207a65726f206164604482015264647265737360d81b6064820152608401610421565b6001600160a01b0382166107df5760405162461bcd60e51b815260206004820152602360248201527f45524332303a207472616e7366657220746f20746865207a65726f206164647260448201526265737360e81b6064820152608401610421565b6001600160a01b0383165f90815260208190526040902054818110156108565760405162461bcd60e51b815260206004820152602660248201527f45524332303a207472616e7366657220616d6f756e7420657863656564732062604482015265616c616e636560d01b6064820152608401610421565b6001600160a01b038481165f81815260208181526040808320878703905593871680835291849020805487019055925185815290927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a3610713565b6001600160a01b03821661091b5760405162461bcd60e51b815260206004820152602160248201527f45524332303a206275726e2066726f6d20746865207a65726f206164647265736044820152607360f81b6064820152608401610421565b6001600160a01b0382165f908152602081905260409020548181101561098e5760405162461bcd60e51b815260206004820152602260248201527f45524332303a206275726e20616d6f756e7420657863656564732062616c616e604482015261636560f01b6064820152608401610421565b6001600160a01b0383165f818152602081815260408083208686039055600280548790039055518581529192917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9101610694565b6005546001600160a01b031633146103b55760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401610421565b600680546001600160a01b03191690556103a181600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610aed575f5ffd5b919050565b5f5f60408385031215610b03575f5ffd5b610b0c83610ad7565b946020939093013593505050565b5f5f5f60608486031215610b2c575f5ffd5b610b3584610ad7565b9250610b4360208501610ad7565b929592945050506040919091013590565b5f60208284031215610b64575f5ffd5b5035919050565b5f60208284031215610b7b575f5ffd5b610b8482610ad7565b9392505050565b5f5f60408385031215610b9c575f5ffd5b610ba583610ad7565b9150610bb360208401610ad7565b90509250929050565b600181811c90821680610bd057607f821691505b602082108103610bee57634e487b7160e01b5f52602260045260245ffd5b50919050565b8082018082111561034d57634e487b7160e01b5f52601160045260245ffdfea264697066735822122057bc3d31b09a047cc4eeea577f03cccd778ff93b40bc49b16795f32cad08578964736f6c634300081e0033",
+    "storageLayout": {
+      "storage": [
+        {
+          "label": "_balances",
+          "slot": "0",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_uint256)",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_allowances",
+          "slot": "1",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_mapping(t_address,t_uint256))",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_totalSupply",
+          "slot": "2",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_name",
+          "slot": "3",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_symbol",
+          "slot": "4",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_owner",
+          "slot": "5",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_pendingOwner",
+          "slot": "6",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_decimals",
+          "slot": "6",
+          "offset": 20,
+          "type": "t_uint8",
+          "contract": "contract.sol:BurnableToken"
+        },
+        {
+          "label": "_maxSupply",
+          "slot": "7",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:BurnableToken"
+        }
+      ],
+      "types": {
+        "t_address": {
+          "label": "address",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_mapping(t_address,t_mapping(t_address,t_uint256))": {
+          "label": "mapping(address => mapping(address => uint256))",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_mapping(t_address,t_uint256)": {
+          "label": "mapping(address => uint256)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_string_storage": {
+          "label": "string",
+          "numberOfBytes": "32",
+          "encoding": "bytes"
+        },
+        "t_uint256": {
+          "label": "uint256",
+          "numberOfBytes": "32",
+          "encoding": "inplace"
+        },
+        "t_uint8": {
+          "label": "uint8",
+          "numberOfBytes": "1",
+          "encoding": "inplace"
+        }
+      }
+    }
+  },
+  "MintableToken": {
+    "sourceHash": "0x427a05e1049e3ab129cfb52af5bbcbca3498a4d91eef579e3e6a1d906b428090",
+    "compilerVersion": "v0.8.30+commit.73712a01",
+    "abi": [
+      {
+        "inputs": [
+          {
+            "internalType": "string",
+            "name": "name",
+            "type": "string"
+          },
+          {
+            "internalType": "string",
+            "name": "symbol",
+            "type": "string"
+          },
+          {
+            "internalType": "uint8",
+            "name": "decimals_",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "initialSupply",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxSupply_",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Approval",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferStarted",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Transfer",
+        "type": "event"
+      },
+      {
+        "inputs": [],
+        "name": "acceptOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          }
+        ],
+        "name": "allowance",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "approve",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          }
+        ],
+        "name": "balanceOf",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "decimals",
+        "outputs": [
+          {
+            "internalType": "uint8",
+            "name": "",
+            "type": "uint8"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "subtractedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "decreaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "addedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "increaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "maxSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "mint",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "name",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "pendingOwner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "renounceOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "symbol",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transfer",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transferFrom",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "608060405234801561000f575f5ffd5b5060405161109538038061109583398101604081905261002e91610277565b8585600361003c83826103a8565b50600461004982826103a8565b50505061006261005d6100a360201b60201c565b6100a7565b6006805460ff60a01b1916600160a01b60ff8716021790556007829055821561008f5761008f81846100c3565b610098816100a7565b505050505050610487565b3390565b600680546001600160a01b03191690556100c081610184565b50565b6001600160a01b03821661011d5760405162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015260640160405180910390fd5b8060025f82825461012e9190610462565b90915550506001600160a01b0382165f81815260208181526040808320805486019055518481527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a35050565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b505050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126101fd575f5ffd5b81516001600160401b03811115610216576102166101da565b604051601f8201601f19908116603f011681016001600160401b0381118282101715610244576102446101da565b60405281815283820160200185101561025b575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f5f5f5f5f60c0878903121561028c575f5ffd5b86516001600160401b038111156102a1575f5ffd5b6102ad89828a016101ee565b602089015190975090506001600160401b038111156102ca575f5ffd5b6102d689828a016101ee565b955050604087015160ff811681146102ec575f5ffd5b6060880151608089015160a08a015192965090945092506001600160a01b0381168114610317575f5ffd5b809150509295509295509295565b600181811c9082168061033957607f821691505b60208210810361035757634e487b7160e01b5f52602260045260245ffd5b50919050565b601f8211156101d557805f5260205f20601f840160051c810160208510156103825750805b601f840160051c820191505b818110156103a1575f815560010161038e565b5050505050565b81516001600160401b038111156103c1576103c16101da565b6103d5816103cf8454610325565b8461035d565b6020601f821160018114610407575f83156103f05750848201515b5f19600385901b1c1916600184901b1784556103a1565b5f84815260208120601f198516915b828110156104365787850151825560209485019460019092019101610416565b508482101561045357868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b8082018082111561048157634e487b7160e01b5f52601160045260245ffd5b92915050565b610c01806104945f395ff3fe608060405234801561000f575f5ffd5b5060043610610111575f3560e01c806379ba50971161009e578063a9059cbb1161006e578063a9059cbb1461023a578063d5abeb011461024d578063dd62ed3e14610255578063e30c397814610268578063f2fde38b14610279575f5ffd5b806379ba5097146101f25780638da5cb5b146101fa57806395d89b411461021f578063a457c2d714610227575f5ffd5b8063313ce567116100e4578063313ce5671461017b578063395093511461019a57806340c10f19146101ad57806370a08231146101c2578063715018a6146101ea575f5ffd5b806306fdde0314610115578063095ea7b31461013357806318160ddd1461015657806323b872dd14610168575b5f5ffd5b61011d61028c565b60405161012a9190610a71565b60405180910390f35b610146610141366004610ac1565b61031c565b604051901515815260200161012a565b6002545b60405190815260200161012a565b610146610176366004610ae9565b610335565b600654600160a01b900460ff1660405160ff909116815260200161012a565b6101466101a8366004610ac1565b610358565b6101c06101bb366004610ac1565b610379565b005b61015a6101d0366004610b23565b6001600160a01b03165f9081526020819052604090205490565b6101c06103fa565b6101c061040d565b6005546001600160a01b03165b6040516001600160a01b03909116815260200161012a565b61011d610487565b610146610235366004610ac1565b610496565b610146610248366004610ac1565b610510565b60075461015a565b61015a610263366004610b43565b61051d565b6006546001600160a01b0316610207565b6101c0610287366004610b23565b610547565b60606003805461029b90610b74565b80601f01602080910402602001604051908101604052809291908181526020018280546102c790610b74565b80156103125780601f106102e957610100808354040283529160200191610312565b820191905f5260205f20905b8154815290600101906020018083116102f557829003601f168201915b5050505050905090565b5f336103298185856105b8565b60019150505b92915050565b5f336103428582856106db565b61034d858585610753565b506001949350505050565b5f3361032981858561036a838361051d565b6103749190610bac565b6105b8565b6103816108f5565b60075415806103a557506007548161039860025490565b6103a29190610bac565b11155b6103ec5760405162461bcd60e51b815260206004820152601360248201527213585e081cdd5c1c1b1e48195e18d959591959606a1b60448201526064015b60405180910390fd5b6103f6828261094f565b5050565b6104026108f5565b61040b5f610a0c565b565b60065433906001600160a01b0316811461047b5760405162461bcd60e51b815260206004820152602960248201527f4f776e61626c6532537465703a2063616c6c6572206973206e6f7420746865206044820152683732bb9037bbb732b960b91b60648201526084016103e3565b61048481610a0c565b50565b60606004805461029b90610b74565b5f33816104a3828661051d565b9050838110156105035760405162461bcd60e51b815260206004820152602560248201527f45524332303a2064656372656173656420616c6c6f77616e63652062656c6f77604482015264207a65726f60d81b60648201526084016103e3565b61034d82868684036105b8565b5f33610329818585610753565b6001600160a01b039182165f90815260016020908152604080832093909416825291909152205490565b61054f6108f5565b600680546001600160a01b0383166001600160a01b031990911681179091556105806005546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b6001600160a01b03831661061a5760405162461bcd60e51b8152602060048201526024808201527f45524332303a20617070726f76652066726f6d20746865207a65726f206164646044820152637265737360e01b60648201526084016103e3565b6001600160a01b03821661067b5760405162461bcd60e51b815260206004820152602260248201527f45524332303a20617070726f766520746f20746865207a65726f206164647265604482015261737360f01b60648201526084016103e3565b6001600160a01b038381165f8181526001602090815260408083209487168084529482529182902085905590518481527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925910160405180910390a3505050565b5f6106e6848461051d565b90505f19811461074d57818110156107405760405162461bcd60e51b815260206004820152601d60248201527f45524332303a20696e73756666696369656e7420616c6c6f77616e636500000060448201526064016103e3565b61074d84848484036105b8565b50505050565b6001600160a01b0383166107b75760405162461bcd60e51b815260206004820152602560248201527f45524332303a207472616e736665722066726f6d20746865207a65726f206164604482015264647265737360d81b60648201526084016103e3565b6001600160a01b0382166108195760405162461bcd60e51b815260206004820152602360248201527f45524332303a207472616e7366657220746f20746865207a65726f206164647260448201526265737360e81b60648201526084016103e3565b6001600160a01b0383165f90815260208190526040902054818110156108905760405162461bcd60e51b815260206004820152602660248201527f45524332303a207472616e7366657220616d6f756e7420657863656564732062604482015265616c616e636560d01b60648201526084016103e3565b6001600160a01b038481165f81815260208181526040808320878703905593871680835291849020805487019055925185815290927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a361074d565b6005546001600160a01b0316331461040b5760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016103e3565b6001600160a01b0382166109a55760405162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f20616464726573730060448201526064016103e3565b8060025f8282546109b69190610bac565b90915550506001600160a01b0382165f81815260208181526040808320805486019055518481527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a35050565b600680546001600160a01b031916905561048481600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610abc575f5ffd5b919050565b5f5f60408385031215610ad2575f5ffd5b610adb83610aa6565b946020939093013593505050565b5f5f5f60608486031215610afb575f5ffd5b610b0484610aa6565b9250610b1260208501610aa6565b929592945050506040919091013590565b5f60208284031215610b33575f5ffd5b610b3c82610aa6565b9392505050565b5f5f60408385031215610b54575f5ffd5b610b5d83610aa6565b9150610b6b60208401610aa6565b90509250929050565b600181811c90821680610b8857607f821691505b602082108103610ba657634e487b7160e01b5f52602260045260245ffd5b50919050565b8082018082111561032f57634e487b7160e01b5f52601160045260245ffdfea2646970667358221220e400f316aa2f62305ae9c72ee4ff71e95b3d472b7858fc24019c6f7e80db6afd64736f6c634300081e0033",
+    "storageLayout": {
+      "storage": [
+        {
+          "label": "_balances",
+          "slot": "0",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_uint256)",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_allowances",
+          "slot": "1",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_mapping(t_address,t_uint256))",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_totalSupply",
+          "slot": "2",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_name",
+          "slot": "3",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_symbol",
+          "slot": "4",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_owner",
+          "slot": "5",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_pendingOwner",
+          "slot": "6",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_decimals",
+          "slot": "6",
+          "offset": 20,
+          "type": "t_uint8",
+          "contract": "contract.sol:MintableToken"
+        },
+        {
+          "label": "_maxSupply",
+          "slot": "7",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:MintableToken"
+        }
+      ],
+      "types": {
+        "t_address": {
+          "label": "address",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_mapping(t_address,t_mapping(t_address,t_uint256))": {
+          "label": "mapping(address => mapping(address => uint256))",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_mapping(t_address,t_uint256)": {
+          "label": "mapping(address => uint256)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_string_storage": {
+          "label": "string",
+          "numberOfBytes": "32",
+          "encoding": "bytes"
+        },
+        "t_uint256": {
+          "label": "uint256",
+          "numberOfBytes": "32",
+          "encoding": "inplace"
+        },
+        "t_uint8": {
+          "label": "uint8",
+          "numberOfBytes": "1",
+          "encoding": "inplace"
+        }
+      }
+    }
+  },
+  "BurnableMintableToken": {
+    "sourceHash": "0x42093fd24c6b58c11a560330a222d437ffbec2e2db11e117e95cab653fb91345",
+    "compilerVersion": "v0.8.30+commit.73712a01",
+    "abi": [
+      {
+        "inputs": [
+          {
+            "internalType": "string",
+            "name": "name",
+            "type": "string"
+          },
+          {
+            "internalType": "string",
+            "name": "symbol",
+            "type": "string"
+          },
+          {
+            "internalType": "uint8",
+            "name": "decimals_",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "initialSupply",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxSupply_",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Approval",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferStarted",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "value",
+            "type": "uint256"
+          }
+        ],
+        "name": "Transfer",
+        "type": "event"
+      },
+      {
+        "inputs": [],
+        "name": "acceptOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "owner",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          }
+        ],
+        "name": "allowance",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "approve",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          }
+        ],
+        "name": "balanceOf",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "burn",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "burnFrom",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "decimals",
+        "outputs": [
+          {
+            "internalType": "uint8",
+            "name": "",
+            "type": "uint8"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "subtractedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "decreaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "spender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "addedValue",
+            "type": "uint256"
+          }
+        ],
+        "name": "increaseAllowance",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "maxSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "mint",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "name",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "pendingOwner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "renounceOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "symbol",
+        "outputs": [
+          {
+            "internalType": "string",
+            "name": "",
+            "type": "string"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalSupply",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transfer",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "transferFrom",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "608060405234801561000f575f5ffd5b5060405161123038038061123083398101604081905261002e91610277565b8585600361003c83826103a8565b50600461004982826103a8565b50505061006261005d6100a360201b60201c565b6100a7565b6006805460ff60a01b1916600160a01b60ff8716021790556007829055821561008f5761008f81846100c3565b610098816100a7565b505050505050610487565b3390565b600680546001600160a01b03191690556100c081610184565b50565b6001600160a01b03821661011d5760405162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015260640160405180910390fd5b8060025f82825461012e9190610462565b90915550506001600160a01b0382165f81815260208181526040808320805486019055518481527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a35050565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b505050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126101fd575f5ffd5b81516001600160401b03811115610216576102166101da565b604051601f8201601f19908116603f011681016001600160401b0381118282101715610244576102446101da565b60405281815283820160200185101561025b575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f5f5f5f5f60c0878903121561028c575f5ffd5b86516001600160401b038111156102a1575f5ffd5b6102ad89828a016101ee565b602089015190975090506001600160401b038111156102ca575f5ffd5b6102d689828a016101ee565b955050604087015160ff811681146102ec575f5ffd5b6060880151608089015160a08a015192965090945092506001600160a01b0381168114610317575f5ffd5b809150509295509295509295565b600181811c9082168061033957607f821691505b60208210810361035757634e487b7160e01b5f52602260045260245ffd5b50919050565b601f8211156101d557805f5260205f20601f840160051c810160208510156103825750805b601f840160051c820191505b818110156103a1575f815560010161038e565b5050505050565b81516001600160401b038111156103c1576103c16101da565b6103d5816103cf8454610325565b8461035d565b6020601f821160018114610407575f83156103f05750848201515b5f19600385901b1c1916600184901b1784556103a1565b5f84815260208120601f198516915b828110156104365787850151825560209485019460019092019101610416565b508482101561045357868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b8082018082111561048157634e487b7160e01b5f52601160045260245ffd5b92915050565b610d9c806104945f395ff3fe608060405234801561000f575f5ffd5b5060043610610127575f3560e01c806379ba5097116100a9578063a9059cbb1161006e578063a9059cbb14610276578063d5abeb0114610289578063dd62ed3e14610291578063e30c3978146102a4578063f2fde38b146102b5575f5ffd5b806379ba50971461021b57806379cc6790146102235780638da5cb5b1461023657806395d89b411461025b578063a457c2d714610263575f5ffd5b806339509351116100ef57806339509351146101b057806340c10f19146101c357806342966c68146101d857806370a08231146101eb578063715018a614610213575f5ffd5b806306fdde031461012b578063095ea7b31461014957806318160ddd1461016c57806323b872dd1461017e578063313ce56714610191575b5f5ffd5b6101336102c8565b6040516101409190610bf5565b60405180910390f35b61015c610157366004610c45565b610358565b6040519015158152602001610140565b6002545b604051908152602001610140565b61015c61018c366004610c6d565b610371565b600654600160a01b900460ff1660405160ff9091168152602001610140565b61015c6101be366004610c45565b610394565b6101d66101d1366004610c45565b6103b5565b005b6101d66101e6366004610ca7565b610436565b6101706101f9366004610cbe565b6001600160a01b03165f9081526020819052604090205490565b6101d6610443565b6101d6610456565b6101d6610231366004610c45565b6104cd565b6005546001600160a01b03165b6040516001600160a01b039091168152602001610140565b6101336104e2565b61015c610271366004610c45565b6104f1565b61015c610284366004610c45565b61056b565b600754610170565b61017061029f366004610cde565b610578565b6006546001600160a01b0316610243565b6101d66102c3366004610cbe565b6105a2565b6060600380546102d790610d0f565b80601f016020809104026020016040519081016040528092919081815260200182805461030390610d0f565b801561034e5780601f106103255761010080835404028352916020019161034e565b820191905f5260205f20905b81548152906001019060200180831161033157829003601f168201915b5050505050905090565b5f33610365818585610613565b60019150505b92915050565b5f3361037e858285610737565b6103898585856107af565b506001949350505050565b5f336103658185856103a68383610578565b6103b09190610d47565b610613565b6103bd610951565b60075415806103e15750600754816103d460025490565b6103de9190610d47565b11155b6104285760405162461bcd60e51b815260206004820152601360248201527213585e081cdd5c1c1b1e48195e18d959591959606a1b60448201526064015b60405180910390fd5b61043282826109ab565b5050565b6104403382610a68565b50565b61044b610951565b6104545f610b90565b565b60065433906001600160a01b031681146104c45760405162461bcd60e51b815260206004820152602960248201527f4f776e61626c6532537465703a2063616c6c6572206973206e6f7420746865206044820152683732bb9037bbb732b960b91b606482015260840161041f565b61044081610b90565b6104d8823383610737565b6104328282610a68565b6060600480546102d790610d0f565b5f33816104fe8286610578565b90508381101561055e5760405162461bcd60e51b815260206004820152602560248201527f45524332303a2064656372656173656420616c6c6f77616e63652062656c6f77604482015264207a65726f60d81b606482015260840161041f565b6103898286868403610613565b5f336103658185856107af565b6001600160a01b039182165f90815260016020908152604080832093909416825291909152205490565b6105aa610951565b600680546001600160a01b0383166001600160a01b031990911681179091556105db6005546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b6001600160a01b0383166106755760405162461bcd60e51b8152602060048201526024808201527f45524332303a20617070726f76652066726f6d20746865207a65726f206164646044820152637265737360e01b606482015260840161041f565b6001600160a01b0382166106d65760405162461bcd60e51b815260206004820152602260248201527f45524332303a20617070726f766520746f20746865207a65726f206164647265604482015261737360f01b606482015260840161041f565b6001600160a01b038381165f8181526001602090815260408083209487168084529482529182902085905590518481527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92591015b60405180910390a3505050565b5f6107428484610578565b90505f1981146107a9578181101561079c5760405162461bcd60e51b815260206004820152601d60248201527f45524332303a20696e73756666696369656e7420616c6c6f77616e6365000000604482015260640161041f565b6107a98484848403610613565b50505050565b6001600160a01b0383166108135760405162461bcd60e51b815260206004820152602560248201527f45524332303a207472616e736665722066726f6d20746865207a65726f206164604482015264647265737360d81b606482015260840161041f565b6001600160a01b0382166108755760405162461bcd60e51b815260206004820152602360248201527f45524332303a207472616e7366657220746f20746865207a65726f206164647260448201526265737360e81b606482015260840161041f565b6001600160a01b0383165f90815260208190526040902054818110156108ec5760405162461bcd60e51b815260206004820152602660248201527f45524332303a207472616e7366657220616d6f756e7420657863656564732062604482015265616c616e636560d01b606482015260840161041f565b6001600160a01b038481165f81815260208181526040808320878703905593871680835291849020805487019055925185815290927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a36107a9565b6005546001600160a01b031633146104545760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161041f565b6001600160a01b038216610a015760405162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015260640161041f565b8060025f828254610a129190610d47565b90915550506001600160a01b0382165f81815260208181526040808320805486019055518481527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a35050565b6001600160a01b038216610ac85760405162461bcd60e51b815260206004820152602160248201527f45524332303a206275726e2066726f6d20746865207a65726f206164647265736044820152607360f81b606482015260840161041f565b6001600160a01b0382165f9081526020819052604090205481811015610b3b5760405162461bcd60e51b815260206004820152602260248201527f45524332303a206275726e20616d6f756e7420657863656564732062616c616e604482015261636560f01b606482015260840161041f565b6001600160a01b0383165f818152602081815260408083208686039055600280548790039055518581529192917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910161072a565b600680546001600160a01b031916905561044081600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610c40575f5ffd5b919050565b5f5f60408385031215610c56575f5ffd5b610c5f83610c2a565b946020939093013593505050565b5f5f5f60608486031215610c7f575f5ffd5b610c8884610c2a565b9250610c9660208501610c2a565b929592945050506040919091013590565b5f60208284031215610cb7575f5ffd5b5035919050565b5f60208284031215610cce575f5ffd5b610cd782610c2a565b9392505050565b5f5f60408385031215610cef575f5ffd5b610cf883610c2a565b9150610d0660208401610c2a565b90509250929050565b600181811c90821680610d2357607f821691505b602082108103610d4157634e487b7160e01b5f52602260045260245ffd5b50919050565b8082018082111561036b57634e487b7160e01b5f52601160045260245ffdfea2646970667358221220b9f79b6e3248a32b04039e9eff0f518cef0a14f04df9b0b6a71936b61e1b8cab64736f6c634300081e0033",
+    "storageLayout": {
+      "storage": [
+        {
+          "label": "_balances",
+          "slot": "0",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_uint256)",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_allowances",
+          "slot": "1",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_mapping(t_address,t_uint256))",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_totalSupply",
+          "slot": "2",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_name",
+          "slot": "3",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_symbol",
+          "slot": "4",
+          "offset": 0,
+          "type": "t_string_storage",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_owner",
+          "slot": "5",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_pendingOwner",
+          "slot": "6",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_decimals",
+          "slot": "6",
+          "offset": 20,
+          "type": "t_uint8",
+          "contract": "contract.sol:BurnableMintableToken"
+        },
+        {
+          "label": "_maxSupply",
+          "slot": "7",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:BurnableMintableToken"
+        }
+      ],
+      "types": {
+        "t_address": {
+          "label": "address",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_mapping(t_address,t_mapping(t_address,t_uint256))": {
+          "label": "mapping(address => mapping(address => uint256))",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_mapping(t_address,t_uint256)": {
+          "label": "mapping(address => uint256)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_string_storage": {
+          "label": "string",
+          "numberOfBytes": "32",
+          "encoding": "bytes"
+        },
+        "t_uint256": {
+          "label": "uint256",
+          "numberOfBytes": "32",
+          "encoding": "inplace"
+        },
+        "t_uint8": {
+          "label": "uint8",
+          "numberOfBytes": "1",
+          "encoding": "inplace"
+        }
+      }
+    }
+  },
+  "TokenVesting": {
+    "sourceHash": "0x213c0826193c565c65d7d8de918b6dfdfa33e5ea6eee9024950f3d438f6091f9",
+    "compilerVersion": "v0.8.30+commit.73712a01",
+    "abi": [
+      {
+        "inputs": [
+          {
+            "internalType": "contract IERC20",
+            "name": "token_",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "beneficiary",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "TokensReleased",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "beneficiary",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "unreleased",
+            "type": "uint256"
+          }
+        ],
+        "name": "VestingRevoked",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "beneficiary",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "totalAmount",
+            "type": "uint256"
+          }
+        ],
+        "name": "VestingScheduleCreated",
+        "type": "event"
+      },
+      {
+        "inputs": [
+          {
+            "components": [
+              {
+                "internalType": "address",
+                "name": "beneficiary",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "totalAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "tgeAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "startTime",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "cliffDuration",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "duration",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "slicePeriod",
+                "type": "uint256"
+              },
+              {
+                "internalType": "bool",
+                "name": "revocable",
+                "type": "bool"
+              }
+            ],
+            "internalType": "struct TokenVesting.ScheduleParams",
+            "name": "params",
+            "type": "tuple"
+          }
+        ],
+        "name": "createVestingSchedule",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "components": [
+              {
+                "internalType": "address",
+                "name": "beneficiary",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "totalAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "tgeAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "startTime",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "cliffDuration",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "duration",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "slicePeriod",
+                "type": "uint256"
+              },
+              {
+                "internalType": "bool",
+                "name": "revocable",
+                "type": "bool"
+              }
+            ],
+            "internalType": "struct TokenVesting.ScheduleParams[]",
+            "name": "params",
+            "type": "tuple[]"
+          }
+        ],
+        "name": "createVestingSchedules",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "getBeneficiaries",
+        "outputs": [
+          {
+            "internalType": "address[]",
+            "name": "",
+            "type": "address[]"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          }
+        ],
+        "name": "getReleasableAmount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "getScheduleCount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "beneficiary",
+            "type": "address"
+          }
+        ],
+        "name": "getScheduleIds",
+        "outputs": [
+          {
+            "internalType": "uint256[]",
+            "name": "",
+            "type": "uint256[]"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          }
+        ],
+        "name": "getVestedAmount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          }
+        ],
+        "name": "getVestingSchedule",
+        "outputs": [
+          {
+            "components": [
+              {
+                "internalType": "address",
+                "name": "beneficiary",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "totalAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "tgeAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "startTime",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "cliffDuration",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "duration",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "slicePeriod",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "releasedAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "bool",
+                "name": "revocable",
+                "type": "bool"
+              },
+              {
+                "internalType": "bool",
+                "name": "revoked",
+                "type": "bool"
+              }
+            ],
+            "internalType": "struct TokenVesting.VestingSchedule",
+            "name": "schedule",
+            "type": "tuple"
+          },
+          {
+            "internalType": "uint256",
+            "name": "vestedAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "releasableAmount",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          }
+        ],
+        "name": "release",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "releaseAll",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "renounceOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "scheduleId",
+            "type": "uint256"
+          }
+        ],
+        "name": "revokeVesting",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "token",
+        "outputs": [
+          {
+            "internalType": "contract IERC20",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalReleasedAmount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalVestedAmount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "60a060405234801561000f575f5ffd5b50604051611a0b380380611a0b83398101604081905261002e9161009b565b6100373361004c565b600180556001600160a01b03166080526100c8565b5f80546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b5f602082840312156100ab575f5ffd5b81516001600160a01b03811681146100c1575f5ffd5b9392505050565b60805161190161010a5f395f818161024e015281816105ad015281816108f601528181610f3f01528181610fbf01528181611008015261116501526119015ff3fe608060405234801561000f575f5ffd5b5060043610610106575f3560e01c8063778897761161009e578063beb8f8831161006e578063beb8f883146101ee578063cafeedf614610210578063dd12820014610223578063f2fde38b14610236578063fc0c546a14610249575f5ffd5b8063778897761461018c57806383273cd1146101ac5780638da5cb5b146101b5578063913b722c146101d9575f5ffd5b80635a3c3c2c116100d95780635a3c3c2c1461016b5780635be7fde81461017357806364893fcb1461017b578063715018a614610184575f5ffd5b8063025d3c831461010a578063191888ff146101305780633665fe221461014557806337bdc99b14610158575b5f5ffd5b61011d61011836600461159f565b610270565b6040519081526020015b60405180910390f35b61014361013e3660046115b6565b610288565b005b61011d610153366004611627565b6102fe565b61014361016636600461159f565b610324565b60025461011d565b610143610444565b61011d60055481565b6101436105e1565b61019f61019a366004611641565b6105f2565b604051610127919061166e565b61011d60065481565b5f546001600160a01b03165b6040516001600160a01b039091168152602001610127565b6101e161065b565b60405161012791906116b0565b6102016101fc36600461159f565b6106bb565b604051610127939291906116f0565b61011d61021e36600461159f565b6107c6565b61014361023136600461159f565b6107d8565b610143610244366004611641565b610966565b6101c17f000000000000000000000000000000000000000000000000000000000000000081565b5f61028261027d836109dc565b610a4b565b92915050565b610290610a7e565b5f805b828110156102ef576102bc8484838181106102b0576102b0611787565b90506101000201610ad7565b508383828181106102cf576102cf611787565b9050610100020160200135826102e591906117af565b9150600101610293565b506102f981610f28565b505050565b5f610307610a7e565b61031082610ad7565b905061031f8260200135610f28565b919050565b61032c6110cc565b5f610336826109dc565b80549091506001600160a01b0316331461038d5760405162461bcd60e51b81526020600482015260136024820152724e6f74207468652062656e656669636961727960681b60448201526064015b60405180910390fd5b6008810154610100900460ff16156103d95760405162461bcd60e51b815260206004820152600f60248201526e15995cdd1a5b99c81c995d9bdad959608a1b6044820152606401610384565b5f6103e382610a4b565b90505f811161042b5760405162461bcd60e51b81526020600482015260146024820152734e6f20746f6b656e7320746f2072656c6561736560601b6044820152606401610384565b610436838383611125565b505061044160018055565b50565b61044c6110cc565b335f90815260036020526040812090805b8254811015610542575f600284838154811061047b5761047b611787565b905f5260205f2001548154811061049457610494611787565b905f5260205f20906009020190505f6104ac82610a4b565b905080156105385780826007015f8282546104c791906117af565b909155506104d7905081856117af565b9350336001600160a01b03168584815481106104f5576104f5611787565b905f5260205f2001547fa6c812047c4dc10f52f9e7943b1b3dfafae864d5e0d4ded081bbbde69dd6ff0d8360405161052f91815260200190565b60405180910390a35b505060010161045d565b505f81116105895760405162461bcd60e51b81526020600482015260146024820152734e6f20746f6b656e7320746f2072656c6561736560601b6044820152606401610384565b8060065f82825461059a91906117af565b909155506105d490506001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001633836111d6565b50506105df60018055565b565b6105e9610a7e565b6105df5f611239565b6001600160a01b0381165f9081526003602090815260409182902080548351818402810184019094528084526060939283018282801561064f57602002820191905f5260205f20905b81548152602001906001019080831161063b575b50505050509050919050565b606060048054806020026020016040519081016040528092919081815260200182805480156106b157602002820191905f5260205f20905b81546001600160a01b03168152600190910190602001808311610693575b5050505050905090565b6107146040518061014001604052805f6001600160a01b031681526020015f81526020015f81526020015f81526020015f81526020015f81526020015f81526020015f81526020015f151581526020015f151581525090565b5f5f5f610720856109dc565b90508061072c82611288565b61073583610a4b565b604080516101408101825284546001600160a01b03168152600185015460208201526002850154918101919091526003840154606082015260048401546080820152600584015460a0820152600684015460c0820152600784015460e082015260089093015460ff808216151561010080870191909152909104161515610120840152919790965090945092505050565b5f6102826107d3836109dc565b611288565b6107e0610a7e565b5f6107ea826109dc565b600881015490915060ff166108415760405162461bcd60e51b815260206004820152601960248201527f5363686564756c65206973206e6f74207265766f6361626c65000000000000006044820152606401610384565b6008810154610100900460ff161561088d5760405162461bcd60e51b815260206004820152600f60248201526e105b1c9958591e481c995d9bdad959608a1b6044820152606401610384565b5f61089782610a4b565b905080156108aa576108aa838383611125565b5f826007015483600101546108bf91906117c2565b60088401805461ff0019166101001790559050801561091d5761091d6108ec5f546001600160a01b031690565b6001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001690836111d6565b82546040518281526001600160a01b039091169085907f740e00656bffeb4991e0c72cb99c21c504d644c1f90eaff0d75112260f5889179060200160405180910390a350505050565b61096e610a7e565b6001600160a01b0381166109d35760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b6064820152608401610384565b61044181611239565b6002545f908210610a255760405162461bcd60e51b81526020600482015260136024820152724e6f2076657374696e67207363686564756c6560681b6044820152606401610384565b60028281548110610a3857610a38611787565b905f5260205f2090600902019050919050565b60088101545f90610100900460ff1615610a6657505f919050565b8160070154610a7483611288565b61028291906117c2565b5f546001600160a01b031633146105df5760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401610384565b5f80610ae66020840184611641565b6001600160a01b031603610b325760405162461bcd60e51b8152602060048201526013602482015272496e76616c69642062656e656669636961727960681b6044820152606401610384565b5f826020013511610b7a5760405162461bcd60e51b81526020600482015260126024820152710416d6f756e74206d757374206265203e20360741b6044820152606401610384565b816020013582604001351115610bc75760405162461bcd60e51b81526020600482015260126024820152711511d148195e18d959591cc8185b5bdd5b9d60721b6044820152606401610384565b5f8260a0013511610c115760405162461bcd60e51b815260206004820152601460248201527304475726174696f6e206d757374206265203e20360641b6044820152606401610384565b8160a0013582608001351115610c625760405162461bcd60e51b815260206004820152601660248201527521b634b3331032bc31b2b2b23990323ab930ba34b7b760511b6044820152606401610384565b5f8260c00135118015610c7d57508160a001358260c0013511155b610cc05760405162461bcd60e51b8152602060048201526014602482015273125b9d985b1a59081cdb1a58d9481c195c9a5bd960621b6044820152606401610384565b506002805460408051610140810190915290919080610ce26020860186611641565b6001600160a01b03168152602001846020013581526020018460400135815260200184606001358152602001846080013581526020018460a0013581526020018460c0013581526020015f81526020018460e0016020810190610d4591906117e2565b151581525f6020918201819052835460018082018655948252828220845160099092020180546001600160a01b0319166001600160a01b0390921691909117815583830151948101949094556040830151600285015560608301516003808601919091556080840151600486015560a0840151600586015560c0840151600686015560e0840151600786015561010080850151600890960180546101209096015161ffff1990961696151561ff001916969096179415150293909317909355909190610e1390850185611641565b6001600160a01b0316815260208101919091526040015f908120549003610e75576004610e436020840184611641565b81546001810183555f928352602090922090910180546001600160a01b0319166001600160a01b039092169190911790555b60035f610e856020850185611641565b6001600160a01b031681526020808201929092526040015f908120805460018101825590825282822001839055600580549285013592909190610ec99084906117af565b90915550610edc90506020830183611641565b6001600160a01b0316817fc5fe10002947d574aa59081d50c74a9a815e093167384ee589a1c827bfd9d3af8460200135604051610f1b91815260200190565b60405180910390a3919050565b6040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610f8c573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610fb091906117fd565b9050610fe76001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016333085611371565b6040516370a0823160e01b8152306004820152829082906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa15801561104d573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061107191906117fd565b61107b91906117c2565b146110c85760405162461bcd60e51b815260206004820152601f60248201527f5472616e736665722066656573206170706c7920746f206465706f73697473006044820152606401610384565b5050565b60026001540361111e5760405162461bcd60e51b815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c006044820152606401610384565b6002600155565b80826007015f82825461113891906117af565b925050819055508060065f82825461115091906117af565b9091555050815461118e906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000081169116836111d6565b81546040518281526001600160a01b039091169084907fa6c812047c4dc10f52f9e7943b1b3dfafae864d5e0d4ded081bbbde69dd6ff0d9060200160405180910390a3505050565b6040516001600160a01b0383166024820152604481018290526102f990849063a9059cbb60e01b906064015b60408051601f198184030181529190526020810180516001600160e01b03166001600160e01b0319909316929092179091526113af565b5f80546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b60088101545f90610100900460ff16156112a457506007015490565b81600301544210156112b757505f919050565b816005015482600301546112cb91906117af565b42106112d957506001015490565b816004015482600301546112ed91906117af565b4210156112fc57506002015490565b5f82600301544261130d91906117c2565b90505f8360060154826113209190611828565b61132a90836117c2565b90508360050154818560020154866001015461134691906117c2565b611350919061183b565b61135a9190611852565b846002015461136991906117af565b949350505050565b6040516001600160a01b03808516602483015283166044820152606481018290526113a99085906323b872dd60e01b90608401611202565b50505050565b5f611403826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c6564815250856001600160a01b03166114829092919063ffffffff16565b905080515f14806114235750808060200190518101906114239190611865565b6102f95760405162461bcd60e51b815260206004820152602a60248201527f5361666545524332303a204552433230206f7065726174696f6e20646964206e6044820152691bdd081cdd58d8d9595960b21b6064820152608401610384565b606061136984845f85855f5f866001600160a01b031685876040516114a79190611880565b5f6040518083038185875af1925050503d805f81146114e1576040519150601f19603f3d011682016040523d82523d5f602084013e6114e6565b606091505b50915091506114f787838387611502565b979650505050505050565b606083156115705782515f03611569576001600160a01b0385163b6115695760405162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e74726163740000006044820152606401610384565b5081611369565b61136983838151156115855781518083602001fd5b8060405162461bcd60e51b81526004016103849190611896565b5f602082840312156115af575f5ffd5b5035919050565b5f5f602083850312156115c7575f5ffd5b823567ffffffffffffffff8111156115dd575f5ffd5b8301601f810185136115ed575f5ffd5b803567ffffffffffffffff811115611603575f5ffd5b8560208260081b8401011115611617575f5ffd5b6020919091019590945092505050565b5f610100828403128015611639575f5ffd5b509092915050565b5f60208284031215611651575f5ffd5b81356001600160a01b0381168114611667575f5ffd5b9392505050565b602080825282518282018190525f918401906040840190835b818110156116a5578351835260209384019390920191600101611687565b509095945050505050565b602080825282518282018190525f918401906040840190835b818110156116a55783516001600160a01b03168352602093840193909201916001016116c9565b83516001600160a01b0316815261018081016020850151602083015260408501516040830152606085015160608301526080850151608083015260a085015160a083015260c085015160c083015260e085015160e083015261010085015161175d61010084018215159052565b5061012085015161177361012084018215159052565b506101408201939093526101600152919050565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b808201808211156102825761028261179b565b818103818111156102825761028261179b565b8015158114610441575f5ffd5b5f602082840312156117f2575f5ffd5b8135611667816117d5565b5f6020828403121561180d575f5ffd5b5051919050565b634e487b7160e01b5f52601260045260245ffd5b5f8261183657611836611814565b500690565b80820281158282048414176102825761028261179b565b5f8261186057611860611814565b500490565b5f60208284031215611875575f5ffd5b8151611667816117d5565b5f82518060208501845e5f920191825250919050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f8301168401019150509291505056fea26469706673582212205e9870a20cda804643982decf572d72d6f704274a75c840075c055b8992ed61264736f6c634300081e0033",
+    "storageLayout": {
+      "storage": [
+        {
+          "label": "_owner",
+          "slot": "0",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:TokenVesting"
+        },
+        {
+          "label": "_status",
+          "slot": "1",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:TokenVesting"
+        },
+        {
+          "label": "_schedules",
+          "slot": "2",
+          "offset": 0,
+          "type": "t_array(t_struct(VestingSchedule)1063_storage)dyn_storage",
+          "contract": "contract.sol:TokenVesting"
+        },
+        {
+          "label": "_beneficiarySchedules",
+          "slot": "3",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_array(t_uint256)dyn_storage)",
+          "contract": "contract.sol:TokenVesting"
+        },
+        {
+          "label": "_beneficiaries",
+          "slot": "4",
+          "offset": 0,
+          "type": "t_array(t_address)dyn_storage",
+          "contract": "contract.sol:TokenVesting"
+        },
+        {
+          "label": "totalVestedAmount",
+          "slot": "5",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:TokenVesting"
+        },
+        {
+          "label": "totalReleasedAmount",
+          "slot": "6",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:TokenVesting"
+        }
+      ],
+      "types": {
+        "t_address": {
+          "label": "address",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_array(t_address)dyn_storage": {
+          "label": "address[]",
+          "numberOfBytes": "32",
+          "encoding": "dynamic_array"
+        },
+        "t_array(t_struct(VestingSchedule)1063_storage)dyn_storage": {
+          "label": "struct TokenVesting.VestingSchedule[]",
+          "numberOfBytes": "32",
+          "encoding": "dynamic_array"
+        },
+        "t_array(t_uint256)dyn_storage": {
+          "label": "uint256[]",
+          "numberOfBytes": "32",
+          "encoding": "dynamic_array"
+        },
+        "t_bool": {
+          "label": "bool",
+          "numberOfBytes": "1",
+          "encoding": "inplace"
+        },
+        "t_mapping(t_address,t_array(t_uint256)dyn_storage)": {
+          "label": "mapping(address => uint256[])",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_struct(VestingSchedule)1063_storage": {
+          "label": "struct TokenVesting.VestingSchedule",
+          "numberOfBytes": "288",
+          "encoding": "inplace"
+        },
+        "t_uint256": {
+          "label": "uint256",
+          "numberOfBytes": "32",
+          "encoding": "inplace"
+        }
+      }
+    }
+  },
+  "PresaleContract": {
+    "sourceHash": "0x09a6ebe321711ab0f1223e4ac09ab919a6f168e1956c5612d8c88ce2d07a387a",
+    "compilerVersion": "v0.8.30+commit.73712a01",
+    "abi": [
+      {
+        "inputs": [
+          {
+            "components": [
+              {
+                "internalType": "contract IERC20",
+                "name": "token",
+                "type": "address"
+              },
+              {
+                "internalType": "contract IERC20",
+                "name": "paymentToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "tokenPrice",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "softCap",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "hardCap",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "minPurchase",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "maxPurchase",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "startTime",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "endTime",
+                "type": "uint256"
+              },
+              {
+                "internalType": "bool",
+                "name": "whitelistEnabled",
+                "type": "bool"
+              }
+            ],
+            "internalType": "struct PresaleContract.SaleInfo",
+            "name": "_saleInfo",
+            "type": "tuple"
+          },
+          {
+            "components": [
+              {
+                "internalType": "bool",
+                "name": "enabled",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint256",
+                "name": "initialRelease",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "vestingDuration",
+                "type": "uint256"
+              }
+            ],
+            "internalType": "struct PresaleContract.VestingInfo",
+            "name": "_vestingInfo",
+            "type": "tuple"
+          },
+          {
+            "components": [
+              {
+                "internalType": "bool",
+                "name": "enabled",
+                "type": "bool"
+              },
+              {
+                "internalType": "address",
+                "name": "liquidity",
+                "type": "address"
+              },
+              {
+                "internalType": "address",
+                "name": "router",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "listingPrice",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "liquidityPercentage",
+                "type": "uint256"
+              },
+              {
+                "internalType": "uint256",
+                "name": "lockDuration",
+                "type": "uint256"
+              }
+            ],
+            "internalType": "struct PresaleContract.AutoListingInfo",
+            "name": "_autoListingInfo",
+            "type": "tuple"
+          },
+          {
+            "internalType": "address",
+            "name": "_saleReceiver",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "_refundWallet",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "lpToken",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "tokenAmount",
+            "type": "uint256"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "paymentAmount",
+            "type": "uint256"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "unlockTime",
+            "type": "uint256"
+          }
+        ],
+        "name": "AutoListed",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "lpToken",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "LiquidityWithdrawn",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": false,
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          }
+        ],
+        "name": "Paused",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "buyer",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "RefundClaimed",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "totalRaised",
+            "type": "uint256"
+          }
+        ],
+        "name": "RefundsEnabled",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "totalRaised",
+            "type": "uint256"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "totalTokensSold",
+            "type": "uint256"
+          }
+        ],
+        "name": "SaleFinalized",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "buyer",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "TokensClaimed",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "buyer",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "tokenAmount",
+            "type": "uint256"
+          }
+        ],
+        "name": "TokensPurchased",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": false,
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          }
+        ],
+        "name": "Unpaused",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "user",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "bool",
+            "name": "status",
+            "type": "bool"
+          }
+        ],
+        "name": "WhitelistUpdated",
+        "type": "event"
+      },
+      {
+        "inputs": [],
+        "name": "FINALIZE_GRACE_PERIOD",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "autoListingInfo",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "enabled",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "liquidity",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "router",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "listingPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "liquidityPercentage",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "lockDuration",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "buyTokens",
+        "outputs": [],
+        "stateMutability": "payable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "buyTokensWithPaymentToken",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "claimRefund",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "claimTokens",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "contract IERC20",
+            "name": "token",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "emergencyWithdraw",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "enableRefunds",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "finalizeSale",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "participant",
+            "type": "address"
+          }
+        ],
+        "name": "getClaimableAmount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "participant",
+            "type": "address"
+          }
+        ],
+        "name": "getParticipantInfo",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "contribution",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "tokenAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "claimedTokens",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "claimableTokens",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isWhitelisted",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "getSaleStats",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "_totalRaised",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "_totalParticipants",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "_totalTokensSold",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "_softCapReached",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "_hardCapReached",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint256",
+            "name": "_timeRemaining",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "liquidityUnlockTime",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "lpToken",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "name": "participants",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "contribution",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "tokenAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "claimedTokens",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isWhitelisted",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint256",
+            "name": "lastClaimTime",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "pause",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "paused",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "paymentUnit",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "refundWallet",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "refundsEnabled",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "renounceOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "saleFinalized",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "saleInfo",
+        "outputs": [
+          {
+            "internalType": "contract IERC20",
+            "name": "token",
+            "type": "address"
+          },
+          {
+            "internalType": "contract IERC20",
+            "name": "paymentToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "tokenPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "softCap",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "hardCap",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "minPurchase",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "maxPurchase",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "startTime",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "endTime",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "whitelistEnabled",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "saleReceiver",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalParticipants",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalRaised",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalTokensClaimed",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "totalTokensSold",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "unpause",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address[]",
+            "name": "addresses",
+            "type": "address[]"
+          },
+          {
+            "internalType": "bool",
+            "name": "status",
+            "type": "bool"
+          }
+        ],
+        "name": "updateWhitelist",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "vestingInfo",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "enabled",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint256",
+            "name": "initialRelease",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "vestingDuration",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "name": "whitelist",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "withdrawLiquidity",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "60a060405234801561000f575f5ffd5b5060405161316438038061316483398101604081905261002e9161049b565b60015f5561003b336102db565b6001805460ff60a01b1916905582511580610079575060208501516001600160a01b031615801590610079575060208301516001600160a01b031615155b6100d55760405162461bcd60e51b815260206004820152602260248201527f4175746f2d6c697374696e67206e656564732061207061796d656e7420746f6b60448201526132b760f11b60648201526084015b60405180910390fd5b60648360800151111561012a5760405162461bcd60e51b815260206004820152601c60248201527f496e76616c6964206c69717569646974792070657263656e746167650000000060448201526064016100cc565b8451600280546001600160a01b03199081166001600160a01b039384161790915560208088015160038054841691851691821790556040808a01516004556060808b01516005556080808c015160065560a0808d015160075560c08d015160085560e08d0151600955610100808e0151600a556101208e0151600b805460ff199081169215159290921790558d51600c80549092169015151790558c870151600d558c850151600e558b51600f8054988e01516001600160a81b0319909916911515610100600160a81b03191691909117978a1690910296909617909555918901516010805487169188169190911790558801516011558701516012559086015160135560168054831686851617905560178054909216928416929092179055156102c35784602001516001600160a01b031663313ce5676040518163ffffffff1660e01b8152600401602060405180830381865afa15801561028f573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906102b39190610588565b6102be90600a6106a8565b6102cd565b670de0b6b3a76400005b608052506106b69350505050565b600180546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b60405161014081016001600160401b038111828210171561035b57634e487b7160e01b5f52604160045260245ffd5b60405290565b6001600160a01b0381168114610375575f5ffd5b50565b805161038381610361565b919050565b80518015158114610383575f5ffd5b5f606082840312156103a7575f5ffd5b604051606081016001600160401b03811182821017156103d557634e487b7160e01b5f52604160045260245ffd5b6040529050806103e483610388565b815260208381015190820152604092830151920191909152919050565b5f60c08284031215610411575f5ffd5b60405160c081016001600160401b038111828210171561043f57634e487b7160e01b5f52604160045260245ffd5b60405290508061044e83610388565b8152602083015161045e81610361565b6020820152604083015161047181610361565b6040820152606083810151908201526080808401519082015260a092830151920191909152919050565b5f5f5f5f5f8587036102a08112156104b1575f5ffd5b6101408112156104bf575f5ffd5b506104c861032c565b6104d187610378565b81526104df60208801610378565b602082015260408781015190820152606080880151908201526080808801519082015260a0808801519082015260c0808801519082015260e0808801519082015261010080880151908201526105386101208801610388565b610120820152945061054e876101408801610397565b935061055e876101a08801610401565b925061056d6102608701610378565b915061057c6102808701610378565b90509295509295909350565b5f60208284031215610598575f5ffd5b815160ff811681146105a8575f5ffd5b9392505050565b634e487b7160e01b5f52601160045260245ffd5b6001815b60018411156105fe578085048111156105e2576105e26105af565b60018416156105f057908102905b60019390931c9280026105c7565b935093915050565b5f82610614575060016106a2565b8161062057505f6106a2565b816001811461063657600281146106405761065c565b60019150506106a2565b60ff841115610651576106516105af565b50506001821b6106a2565b5060208310610133831016604e8410600b841016171561067f575081810a6106a2565b61068b5f1984846105c3565b805f190482111561069e5761069e6105af565b0290505b92915050565b5f6105a860ff841683610606565b608051612a886106dc5f395f81816106bf01528181611d2b0152611f030152612a885ff3fe6080604052600436106101fc575f3560e01c80638456cb5911610113578063b5545a3c1161009d578063e12f3a611161006d578063e12f3a611461068f578063e6f71cee146106ae578063f2fde38b146106e1578063f688bdcc14610700578063fc59e23a14610716575f5ffd5b8063b5545a3c14610649578063c5c4744c1461065d578063cbdbc1a714610672578063d0febe4c14610687575f5ffd5b806395ccea67116100e357806395ccea67146105af5780639b19251a146105ce578063a26dbf26146105fc578063a5f0dea214610611578063aff177ca1461062a575f5ffd5b80638456cb59146104ca5780638c52dc41146104de5780638da5cb5b146104f25780638e3695b81461050f575f5ffd5b806358a687ec1161019457806361a899d21161016457806361a899d21461042557806363b2011714610444578063715018a61461045957806371bdce551461046d5780637ea382c1146104b6575f5ffd5b806358a687ec146103ab5780635912c046146103bf5780635c975abb146103e25780635fcbd28514610400575f5ffd5b806332d56d1d116101cf57806332d56d1d1461031e5780633f4ba83a1461035557806348c54b9d14610369578063532f11791461037d575f5ffd5b806309e69ede14610200578063136ea6741461027a5780631a093bb4146102bf57806320df1344146102e0575b5f5ffd5b34801561020b575f5ffd5b5061024b61021a36600461282d565b60146020525f90815260409020805460018201546002830154600384015460049094015492939192909160ff169085565b6040805195865260208601949094529284019190915215156060830152608082015260a0015b60405180910390f35b348015610285575f5ffd5b5061028e61078e565b60408051968752602087019590955293850192909252151560608401521515608083015260a082015260c001610271565b3480156102ca575f5ffd5b506102de6102d9366004612848565b6107d2565b005b3480156102eb575f5ffd5b50600c54600d54600e546103019260ff16919083565b604080519315158452602084019290925290820152606001610271565b348015610329575f5ffd5b5060165461033d906001600160a01b031681565b6040516001600160a01b039091168152602001610271565b348015610360575f5ffd5b506102de610ac2565b348015610374575f5ffd5b506102de610ad4565b348015610388575f5ffd5b50601c5461039b90610100900460ff1681565b6040519015158152602001610271565b3480156103b6575f5ffd5b506102de610d54565b3480156103ca575f5ffd5b506103d4601b5481565b604051908152602001610271565b3480156103ed575f5ffd5b50600154600160a01b900460ff1661039b565b34801561040b575f5ffd5b50601c5461033d906201000090046001600160a01b031681565b348015610430575f5ffd5b5060175461033d906001600160a01b031681565b34801561044f575f5ffd5b506103d4601a5481565b348015610464575f5ffd5b506102de610e9a565b348015610478575f5ffd5b5061048c61048736600461282d565b610eab565b6040805195865260208601949094529284019190915260608301521515608082015260a001610271565b3480156104c1575f5ffd5b506102de610f50565b3480156104d5575f5ffd5b506102de6110e4565b3480156104e9575f5ffd5b506102de6110f4565b3480156104fd575f5ffd5b506001546001600160a01b031661033d565b34801561051a575f5ffd5b50600254600354600454600554600654600754600854600954600a54600b54610558996001600160a01b039081169916979695949392919060ff168a565b604080516001600160a01b039b8c1681529a90991660208b0152978901969096526060880194909452608087019290925260a086015260c085015260e0840152610100830152151561012082015261014001610271565b3480156105ba575f5ffd5b506102de6105c936600461285f565b611239565b3480156105d9575f5ffd5b5061039b6105e836600461282d565b60156020525f908152604090205460ff1681565b348015610607575f5ffd5b506103d460195481565b34801561061c575f5ffd5b50601c5461039b9060ff1681565b348015610635575f5ffd5b506102de610644366004612896565b611456565b348015610654575f5ffd5b506102de6115dd565b348015610668575f5ffd5b506103d460185481565b34801561067d575f5ffd5b506103d4601d5481565b6102de611727565b34801561069a575f5ffd5b506103d46106a936600461282d565b6118c5565b3480156106b9575f5ffd5b506103d47f000000000000000000000000000000000000000000000000000000000000000081565b3480156106ec575f5ffd5b506102de6106fb36600461282d565b611a4a565b34801561070b575f5ffd5b506103d462093a8081565b348015610721575f5ffd5b50600f546010546011546012546013546107539460ff8116946001600160a01b03610100909204821694911692909186565b6040805196151587526001600160a01b03958616602088015293909416928501929092526060840152608083015260a082015260c001610271565b601854601954601a54600554600654600a54918510159190851015905f9042106107b957505f6107ca565b600a546107c790429061292c565b90505b909192939495565b6107da611ac0565b6107e2611b17565b60095442101561082c5760405162461bcd60e51b815260206004820152601060248201526f14d85b19481b9bdd081cdd185c9d195960821b60448201526064015b60405180910390fd5b600a5442111561086b5760405162461bcd60e51b815260206004820152600a60248201526914d85b1948195b99195960b21b6044820152606401610823565b601c5460ff16156108af5760405162461bcd60e51b815260206004820152600e60248201526d14d85b1948199a5b985b1a5e995960921b6044820152606401610823565b600b5460ff161561090a57335f9081526015602052604090205460ff1661090a5760405162461bcd60e51b815260206004820152600f60248201526e139bdd081dda1a5d195b1a5cdd1959608a1b6044820152606401610823565b6003546001600160a01b03166109625760405162461bcd60e51b815260206004820152601c60248201527f506179207769746820746865206e61746976652063757272656e6379000000006044820152606401610823565b6003546040516370a0823160e01b81523060048201525f916001600160a01b0316906370a0823190602401602060405180830381865afa1580156109a8573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906109cc9190612945565b6003549091506109e7906001600160a01b0316333085611b64565b6003546040516370a0823160e01b8152306004820152839183916001600160a01b03909116906370a0823190602401602060405180830381865afa158015610a31573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610a559190612945565b610a5f919061292c565b14610aac5760405162461bcd60e51b815260206004820152601f60248201527f5472616e736665722066656573206170706c7920746f207061796d656e7473006044820152606401610823565b610ab582611bcf565b50610abf60015f55565b50565b610aca611e20565b610ad2611e7a565b565b610adc611ac0565b600a54421180610aee5750601c5460ff165b610b2e5760405162461bcd60e51b815260206004820152601160248201527053616c65207374696c6c2061637469766560781b6044820152606401610823565b6005546018541015610b795760405162461bcd60e51b815260206004820152601460248201527314dbd99d0818d85c081b9bdd081c995858da195960621b6044820152606401610823565b601c54610100900460ff1615610bc15760405162461bcd60e51b815260206004820152600d60248201526c14d85b19481c99599d5b991959609a1b6044820152606401610823565b601c5460ff1680610bd55750600f5460ff16155b610c165760405162461bcd60e51b815260206004820152601260248201527114d85b19481b9bdd08199a5b985b1a5e995960721b6044820152606401610823565b335f9081526014602052604090206001810154610c6a5760405162461bcd60e51b81526020600482015260126024820152714e6f20746f6b656e7320746f20636c61696d60701b6044820152606401610823565b5f610c74336118c5565b90505f8111610cc55760405162461bcd60e51b815260206004820152601d60248201527f4e6f20746f6b656e7320617661696c61626c6520666f7220636c61696d0000006044820152606401610823565b80826002015f828254610cd8919061295c565b9091555050426004830155601b80548291905f90610cf790849061295c565b9091555050600254610d13906001600160a01b03163383611eca565b60405181815233907f896e034966eaaf1adc54acc0f257056febbd300c9e47182cf761982cf1f5e430906020015b60405180910390a25050610ad260015f55565b610d5c611e20565b610d64611ac0565b601c5460ff1615610dab5760405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e48199a5b985b1a5e9959607a1b6044820152606401610823565b601c805460ff191660011790556005546018541015610dd857601c805461ff001916610100179055610e4b565b600f545f9060ff16610dea575f610e06565b601254601854606491610dfc9161296f565b610e069190612986565b90505f5f8211610e16575f610e1f565b610e1f82611eff565b601654601854919250610e48916001600160a01b0390911690610e4390849061292c565b61231e565b50505b7f17b1a568460bc127a7f9a9677d502ac593fa4af690a1c3aed38bda591e196e2e601854601a54604051610e89929190918252602082015260400190565b60405180910390a1610ad260015f55565b610ea2611e20565b610ad25f6123d5565b6001600160a01b0381165f908152601460209081526040808320815160a081018352815480825260018301549482018590526002830154938201849052600383015460ff161515606083015260049092015460808201528493849384938493929091610f168a6118c5565b846060015180610f3d57506001600160a01b038b165f9081526015602052604090205460ff165b939b929a50909850965090945092505050565b610f58611e20565b610f60611ac0565b601c546201000090046001600160a01b0316610fab5760405162461bcd60e51b815260206004820152600a602482015269139bdd081b1a5cdd195960b21b6044820152606401610823565b601d54421015610ff35760405162461bcd60e51b8152602060048201526013602482015272131a5c5d5a591a5d1e481a5cc81b1bd8dad959606a1b6044820152606401610823565b601c546040516370a0823160e01b81523060048201525f916201000090046001600160a01b0316906370a0823190602401602060405180830381865afa15801561103f573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906110639190612945565b905061109361107a6001546001600160a01b031690565b601c546201000090046001600160a01b03169083611eca565b601c54604051828152620100009091046001600160a01b0316907fb1cce8684b4ffa8667b4577654e61ee3480d661ee9c27522ac80e211f6bd4d259060200160405180910390a250610ad260015f55565b6110ec611e20565b610ad2612426565b601c5460ff161561113b5760405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e48199a5b985b1a5e9959607a1b6044820152606401610823565b600a5461114c9062093a809061295c565b421161119a5760405162461bcd60e51b815260206004820152601860248201527f4f776e65722063616e207374696c6c2066696e616c697a6500000000000000006044820152606401610823565b60055460185410806111ae5750600f5460ff165b6111f15760405162461bcd60e51b8152602060048201526014602482015273546f6b656e732061726520636c61696d61626c6560601b6044820152606401610823565b601c805461ffff19166101011790556018546040519081527f01fd9d9d9f159bbb346cbe96d08df5b61108b672fa79a2d53fb9c67b9717d273906020015b60405180910390a1565b611241611e20565b6003546001600160a01b0383811691161415806112735750601c5460ff1680156112735750601c54610100900460ff16155b6112cb5760405162461bcd60e51b815260206004820152602360248201527f436f6e747269627574696f6e73206172652068656c6420666f72207468652073604482015262616c6560e81b6064820152608401610823565b6002546001600160a01b0383811691161415806112ef5750601c54610100900460ff165b80611379575080601b54601a54611306919061292c565b611310919061295c565b6040516370a0823160e01b81523060048201526001600160a01b038416906370a0823190602401602060405180830381865afa158015611352573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906113769190612945565b10155b6113c55760405162461bcd60e51b815260206004820152601a60248201527f546f6b656e73206172652068656c6420666f7220636c61696d730000000000006044820152606401610823565b601c546001600160a01b0383811662010000909204161415806113ea5750601d544210155b61142c5760405162461bcd60e51b8152602060048201526013602482015272131a5c5d5a591a5d1e481a5cc81b1bd8dad959606a1b6044820152606401610823565b6114526114416001546001600160a01b031690565b6001600160a01b0384169083611eca565b5050565b61145e611e20565b5f5b828110156115d7578160155f86868581811061147e5761147e6129a5565b9050602002016020810190611493919061282d565b6001600160a01b0316815260208101919091526040015f20805460ff191691151591909117905581801561150857505f60145f8686858181106114d8576114d86129a5565b90506020020160208101906114ed919061282d565b6001600160a01b0316815260208101919091526040015f2054115b1561156457600160145f868685818110611524576115246129a5565b9050602002016020810190611539919061282d565b6001600160a01b0316815260208101919091526040015f20600301805460ff19169115159190911790555b838382818110611576576115766129a5565b905060200201602081019061158b919061282d565b6001600160a01b03167ff93f9a76c1bf3444d22400a00cb9fe990e6abe9dbb333fda48859cfee864543d836040516115c7911515815260200190565b60405180910390a2600101611460565b50505050565b6115e5611ac0565b600a544211806115f75750601c5460ff165b6116375760405162461bcd60e51b815260206004820152601160248201527053616c65207374696c6c2061637469766560781b6044820152606401610823565b601c54610100900460ff166116845760405162461bcd60e51b81526020600482015260136024820152721499599d5b991cc81b9bdd08195b98589b1959606a1b6044820152606401610823565b335f90815260146020526040902080546116e05760405162461bcd60e51b815260206004820152601960248201527f4e6f20636f6e747269627574696f6e20746f20726566756e64000000000000006044820152606401610823565b80545f80835560018301556116f5338261231e565b60405181815233907f358fe4192934d3bf28ae181feda1f4bd08ca67f5e2fad55582cce5eb67304ae990602001610d41565b61172f611ac0565b611737611b17565b60095442101561177c5760405162461bcd60e51b815260206004820152601060248201526f14d85b19481b9bdd081cdd185c9d195960821b6044820152606401610823565b600a544211156117bb5760405162461bcd60e51b815260206004820152600a60248201526914d85b1948195b99195960b21b6044820152606401610823565b601c5460ff16156117ff5760405162461bcd60e51b815260206004820152600e60248201526d14d85b1948199a5b985b1a5e995960921b6044820152606401610823565b600b5460ff161561185a57335f9081526015602052604090205460ff1661185a5760405162461bcd60e51b815260206004820152600f60248201526e139bdd081dda1a5d195b1a5cdd1959608a1b6044820152606401610823565b6003546001600160a01b0316156118b35760405162461bcd60e51b815260206004820152601a60248201527f506179207769746820746865207061796d656e7420746f6b656e0000000000006044820152606401610823565b6118bc34611bcf565b610ad260015f55565b6001600160a01b0381165f908152601460209081526040808320815160a081018352815481526001820154938101849052600282015492810192909252600381015460ff161515606083015260040154608082015290820361192957505f92915050565b600554601854101561193d57505f92915050565b601c54610100900460ff16806119635750600f5460ff1680156119635750601c5460ff16155b1561197057505f92915050565b600c5460ff16611995578060400151816020015161198e919061292c565b9392505050565b5f6064600c6001015483602001516119ad919061296f565b6119b79190612986565b90505f8183602001516119ca919061292c565b600a5490915042116119ee5760408301516119e5908361292c565b95945050505050565b600a545f906119fd904261292c565b600e549091505f90611a0f838561296f565b611a199190612986565b905082811115611a265750815b6040850151611a35828661295c565b611a3f919061292c565b979650505050505050565b611a52611e20565b6001600160a01b038116611ab75760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b6064820152608401610823565b610abf816123d5565b60025f5403611b115760405162461bcd60e51b815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c006044820152606401610823565b60025f55565b600154600160a01b900460ff1615610ad25760405162461bcd60e51b815260206004820152601060248201526f14185d5cd8589b194e881c185d5cd95960821b6044820152606401610823565b6040516001600160a01b03808516602483015283166044820152606481018290526115d79085906323b872dd60e01b906084015b60408051601f198184030181529190526020810180516001600160e01b03166001600160e01b031990931692909217909152612469565b600754811015611c1a5760405162461bcd60e51b815260206004820152601660248201527542656c6f77206d696e696d756d20707572636861736560501b6044820152606401610823565b600854811115611c655760405162461bcd60e51b815260206004820152601660248201527541626f7665206d6178696d756d20707572636861736560501b6044820152606401610823565b600654601854611c7690839061295c565b1115611cb85760405162461bcd60e51b815260206004820152601160248201527012185c990818d85c08195e18d959591959607a1b6044820152606401610823565b335f9081526014602052604090206008548154611cd690849061295c565b1115611d245760405162461bcd60e51b815260206004820181905260248201527f4d6178207075726368617365207065722077616c6c65742065786365656465646044820152606401610823565b6004545f907f000000000000000000000000000000000000000000000000000000000000000090611d55908561296f565b611d5f9190612986565b82549091505f03611d7f5760198054905f611d79836129b9565b91905055505b82825f015f828254611d91919061295c565b9250508190555080826001015f828254611dab919061295c565b925050819055508260185f828254611dc3919061295c565b9250508190555080601a5f828254611ddb919061295c565b9091555050604080518481526020810183905233917f8fafebcaf9d154343dad25669bfa277f4fbacd7ac6b0c4fed522580e040a0f33910160405180910390a2505050565b6001546001600160a01b03163314610ad25760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401610823565b611e8261253c565b6001805460ff60a01b191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200161122f565b6040516001600160a01b038316602482015260448101829052611efa90849063a9059cbb60e01b90606401611b98565b505050565b5f5f7f0000000000000000000000000000000000000000000000000000000000000000600f6002015484611f33919061296f565b611f3d9190612986565b90505f601b54601a54611f50919061292c565b6003546040516370a0823160e01b81523060048201529192505f916001600160a01b03909116906370a0823190602401602060405180830381865afa158015611f9b573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611fbf9190612945565b9050611fcb838361295c565b6002546040516370a0823160e01b81523060048201526001600160a01b03909116906370a0823190602401602060405180830381865afa158015612011573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906120359190612945565b10156120835760405162461bcd60e51b815260206004820152601d60248201527f4e6f7420656e6f75676820746f6b656e7320666f72206c697374696e670000006044820152606401610823565b600f546002546120a6916001600160a01b0391821691610100909104168561258c565b600f546003546120c9916001600160a01b0391821691610100909104168761258c565b600f5460025460035460105460405163863f15cd60e01b81523060048201526001600160a01b03938416602482015291831660448301526064820187905260848201899052821660a4820152610100909204169063863f15cd9060c4016020604051808303815f875af1158015612142573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061216691906129d1565b601c80546001600160a01b0392909216620100000262010000600160b01b031990921691909117905560135461219c904261295c565b601d556002546040516370a0823160e01b81523060048201525f916001600160a01b0316906370a0823190602401602060405180830381865afa1580156121e5573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906122099190612945565b905082811115612245576122456122286001546001600160a01b031690565b612232858461292c565b6002546001600160a01b03169190611eca565b6003546040516370a0823160e01b81523060048201525f916001600160a01b0316906370a0823190602401602060405180830381865afa15801561228b573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906122af9190612945565b6122b9908461292c565b601c54601d546040805189815260208101859052908101919091529192506201000090046001600160a01b0316907f5585bee020de300a9710d6c000625ab35a83456206889824003cc1342fbc0d289060600160405180910390a29695505050505050565b6003546001600160a01b03166123be575f826001600160a01b0316826040515f6040518083038185875af1925050503d805f8114612377576040519150601f19603f3d011682016040523d82523d5f602084013e61237c565b606091505b5050905080611efa5760405162461bcd60e51b815260206004820152600e60248201526d14185e5b595b9d0819985a5b195960921b6044820152606401610823565b600354611452906001600160a01b03168383611eca565b600180546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b61242e611b17565b6001805460ff60a01b1916600160a01b1790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258611eb23390565b5f6124bd826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c6564815250856001600160a01b031661269f9092919063ffffffff16565b905080515f14806124dd5750808060200190518101906124dd91906129ec565b611efa5760405162461bcd60e51b815260206004820152602a60248201527f5361666545524332303a204552433230206f7065726174696f6e20646964206e6044820152691bdd081cdd58d8d9595960b21b6064820152608401610823565b600154600160a01b900460ff16610ad25760405162461bcd60e51b815260206004820152601460248201527314185d5cd8589b194e881b9bdd081c185d5cd95960621b6044820152606401610823565b8015806126045750604051636eb1769f60e11b81523060048201526001600160a01b03838116602483015284169063dd62ed3e90604401602060405180830381865afa1580156125de573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906126029190612945565b155b61266f5760405162461bcd60e51b815260206004820152603660248201527f5361666545524332303a20617070726f76652066726f6d206e6f6e2d7a65726f60448201527520746f206e6f6e2d7a65726f20616c6c6f77616e636560501b6064820152608401610823565b6040516001600160a01b038316602482015260448101829052611efa90849063095ea7b360e01b90606401611b98565b60606126ad84845f856126b5565b949350505050565b6060824710156127165760405162461bcd60e51b815260206004820152602660248201527f416464726573733a20696e73756666696369656e742062616c616e636520666f6044820152651c8818d85b1b60d21b6064820152608401610823565b5f5f866001600160a01b031685876040516127319190612a07565b5f6040518083038185875af1925050503d805f811461276b576040519150601f19603f3d011682016040523d82523d5f602084013e612770565b606091505b5091509150611a3f87838387606083156127ea5782515f036127e3576001600160a01b0385163b6127e35760405162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e74726163740000006044820152606401610823565b50816126ad565b6126ad83838151156127ff5781518083602001fd5b8060405162461bcd60e51b81526004016108239190612a1d565b6001600160a01b0381168114610abf575f5ffd5b5f6020828403121561283d575f5ffd5b813561198e81612819565b5f60208284031215612858575f5ffd5b5035919050565b5f5f60408385031215612870575f5ffd5b823561287b81612819565b946020939093013593505050565b8015158114610abf575f5ffd5b5f5f5f604084860312156128a8575f5ffd5b833567ffffffffffffffff8111156128be575f5ffd5b8401601f810186136128ce575f5ffd5b803567ffffffffffffffff8111156128e4575f5ffd5b8660208260051b84010111156128f8575f5ffd5b60209182019450925084013561290d81612889565b809150509250925092565b634e487b7160e01b5f52601160045260245ffd5b8181038181111561293f5761293f612918565b92915050565b5f60208284031215612955575f5ffd5b5051919050565b8082018082111561293f5761293f612918565b808202811582820484141761293f5761293f612918565b5f826129a057634e487b7160e01b5f52601260045260245ffd5b500490565b634e487b7160e01b5f52603260045260245ffd5b5f600182016129ca576129ca612918565b5060010190565b5f602082840312156129e1575f5ffd5b815161198e81612819565b5f602082840312156129fc575f5ffd5b815161198e81612889565b5f82518060208501845e5f920191825250919050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f8301168401019150509291505056fea2646970667358221220af48dae1295ca4abab1e2b81d40ba36e7710457f400bdd204affa05c6fa1eb5564736f6c634300081e0033",
+    "storageLayout": {
+      "storage": [
+        {
+          "label": "_status",
+          "slot": "0",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "_owner",
+          "slot": "1",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "_paused",
+          "slot": "1",
+          "offset": 20,
+          "type": "t_bool",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "saleInfo",
+          "slot": "2",
+          "offset": 0,
+          "type": "t_struct(SaleInfo)1220_storage",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "vestingInfo",
+          "slot": "12",
+          "offset": 0,
+          "type": "t_struct(VestingInfo)1227_storage",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "autoListingInfo",
+          "slot": "15",
+          "offset": 0,
+          "type": "t_struct(AutoListingInfo)1240_storage",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "participants",
+          "slot": "20",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_struct(Participant)1251_storage)",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "whitelist",
+          "slot": "21",
+          "offset": 0,
+          "type": "t_mapping(t_address,t_bool)",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "saleReceiver",
+          "slot": "22",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "refundWallet",
+          "slot": "23",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "totalRaised",
+          "slot": "24",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "totalParticipants",
+          "slot": "25",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "totalTokensSold",
+          "slot": "26",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "totalTokensClaimed",
+          "slot": "27",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "saleFinalized",
+          "slot": "28",
+          "offset": 0,
+          "type": "t_bool",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "refundsEnabled",
+          "slot": "28",
+          "offset": 1,
+          "type": "t_bool",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "lpToken",
+          "slot": "28",
+          "offset": 2,
+          "type": "t_address",
+          "contract": "contract.sol:PresaleContract"
+        },
+        {
+          "label": "liquidityUnlockTime",
+          "slot": "29",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:PresaleContract"
+        }
+      ],
+      "types": {
+        "t_address": {
+          "label": "address",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_bool": {
+          "label": "bool",
+          "numberOfBytes": "1",
+          "encoding": "inplace"
+        },
+        "t_contract(IERC20)363": {
+          "label": "contract IERC20",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_mapping(t_address,t_bool)": {
+          "label": "mapping(address => bool)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_mapping(t_address,t_struct(Participant)1251_storage)": {
+          "label": "mapping(address => struct PresaleContract.Participant)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_struct(AutoListingInfo)1240_storage": {
+          "label": "struct PresaleContract.AutoListingInfo",
+          "numberOfBytes": "160",
+          "encoding": "inplace"
+        },
+        "t_struct(Participant)1251_storage": {
+          "label": "struct PresaleContract.Participant",
+          "numberOfBytes": "160",
+          "encoding": "inplace"
+        },
+        "t_struct(SaleInfo)1220_storage": {
+          "label": "struct PresaleContract.SaleInfo",
+          "numberOfBytes": "320",
+          "encoding": "inplace"
+        },
+        "t_struct(VestingInfo)1227_storage": {
+          "label": "struct PresaleContract.VestingInfo",
+          "numberOfBytes": "96",
+          "encoding": "inplace"
+        },
+        "t_uint256": {
+          "label": "uint256",
+          "numberOfBytes": "32",
+          "encoding": "inplace"
+        }
+      }
+    }
+  },
+  "RelayerBridgeAdapter": {
+    "sourceHash": "0xfa0d0b18a40fca7fcc27c6eab30b355cc948261bf5a26047329a76da12aa4992",
+    "compilerVersion": "v0.8.30+commit.73712a01",
+    "abi": [
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "token_",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "lockRelease_",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "relayer_",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "owner_",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "previousOwner",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "chainId",
+            "type": "uint256"
+          },
+          {
+            "indexed": false,
+            "internalType": "address",
+            "name": "peer",
+            "type": "address"
+          }
+        ],
+        "name": "PeerUpdated",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "relayer",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "fee",
+            "type": "uint256"
+          }
+        ],
+        "name": "RelayerUpdated",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "srcChainId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "nonce",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "TokensReceived",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "nonce",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "dstChainId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "from",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "TokensSent",
+        "type": "event"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "srcChainId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "transferNonce",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "getTransferHash",
+        "outputs": [
+          {
+            "internalType": "bytes32",
+            "name": "",
+            "type": "bytes32"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "lockRelease",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "nonce",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "name": "peers",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "name": "quoteSend",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "srcChainId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "transferNonce",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bytes",
+            "name": "signature",
+            "type": "bytes"
+          }
+        ],
+        "name": "receiveTokens",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "name": "received",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "relayer",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "relayerFee",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "renounceOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "dstChainId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "to",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          }
+        ],
+        "name": "sendTokens",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "payable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "chainId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "peer",
+            "type": "address"
+          }
+        ],
+        "name": "setPeer",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "relayer_",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fee",
+            "type": "uint256"
+          }
+        ],
+        "name": "setRelayer",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "token",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "newOwner",
+            "type": "address"
+          }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "60c060405234801561000f575f5ffd5b5060405161181f38038061181f83398101604081905261002e91610175565b6100373361010b565b600180556001600160a01b0384166100865760405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b2103a37b5b2b760991b60448201526064015b60405180910390fd5b6001600160a01b0382166100ce5760405162461bcd60e51b815260206004820152600f60248201526e24b73b30b634b2103932b630bcb2b960891b604482015260640161007d565b6001600160a01b0384811660805283151560a052600280546001600160a01b0319169184169190911790556101028161010b565b505050506101cc565b5f80546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b80516001600160a01b0381168114610170575f5ffd5b919050565b5f5f5f5f60808587031215610188575f5ffd5b6101918561015a565b9350602085015180151581146101a5575f5ffd5b92506101b36040860161015a565b91506101c16060860161015a565b905092959194509250565b60805160a0516115fa6102255f395f8181610104015281816105db015261085d01525f81816103270152818161060c0152818161065e01528181610898015281816109180152818161095701526109f601526115fa5ff3fe6080604052600436106100ef575f3560e01c80638069c49711610087578063be4f3e8f11610057578063be4f3e8f146102a4578063f2475fce146102d8578063f2fde38b146102f7578063fc0c546a14610316575f5ffd5b80638069c4971461021d5780638406c0791461023c5780638da5cb5b14610273578063affed0e01461028f575f5ffd5b806349c1033d116100c257806349c1033d1461019e57806370b41d38146101d7578063715018a6146101ea578063731c8e0c146101fe575f5ffd5b806324be8f59146100f35780632fdeb1111461013b5780633b080be61461015e57806344abebe71461017f575b5f5ffd5b3480156100fe575f5ffd5b506101267f000000000000000000000000000000000000000000000000000000000000000081565b60405190151581526020015b60405180910390f35b348015610146575f5ffd5b5061015060035481565b604051908152602001610132565b348015610169575f5ffd5b5061017d610178366004611347565b610349565b005b34801561018a575f5ffd5b5061017d61019936600461136f565b6103f9565b3480156101a9575f5ffd5b506101266101b8366004611409565b600660209081525f928352604080842090915290825290205460ff1681565b6101506101e5366004611429565b61070d565b3480156101f5575f5ffd5b5061017d610b71565b348015610209575f5ffd5b5061015061021836600461145c565b610b84565b348015610228575f5ffd5b5061017d610237366004611496565b610bf5565b348015610247575f5ffd5b5060025461025b906001600160a01b031681565b6040516001600160a01b039091168152602001610132565b34801561027e575f5ffd5b505f546001600160a01b031661025b565b34801561029a575f5ffd5b5061015060045481565b3480156102af575f5ffd5b5061025b6102be3660046114c0565b60056020525f90815260409020546001600160a01b031681565b3480156102e3575f5ffd5b506101506102f2366004611409565b610ca8565b348015610302575f5ffd5b5061017d6103113660046114d7565b610cb2565b348015610321575f5ffd5b5061025b7f000000000000000000000000000000000000000000000000000000000000000081565b610351610d2b565b6001600160a01b03821661039e5760405162461bcd60e51b815260206004820152600f60248201526e24b73b30b634b2103932b630bcb2b960891b60448201526064015b60405180910390fd5b600280546001600160a01b0319166001600160a01b03841690811790915560038290556040518281527f9f596c0bc3ac100f75f90545c17375580836520cce0e9a4cbb71d9da8392e538906020015b60405180910390a25050565b610401610d84565b5f868152600560205260409020546001600160a01b03166104645760405162461bcd60e51b815260206004820152601860248201527f556e737570706f7274656420736f7572636520636861696e00000000000000006044820152606401610395565b5f86815260066020908152604080832088845290915290205460ff16156104cd5760405162461bcd60e51b815260206004820152601960248201527f5472616e7366657220616c7265616479207265636569766564000000000000006044820152606401610395565b5f61050f6104dd88888888610b84565b7f19457468657265756d205369676e6564204d6573736167653a0a3332000000005f908152601c91909152603c902090565b600254604080516020601f87018190048102820181019092528581529293506001600160a01b03909116916105609184919087908790819084018382808284375f92019190915250610ddd92505050565b6001600160a01b0316146105b65760405162461bcd60e51b815260206004820152601960248201527f496e76616c69642072656c61796572207369676e6174757265000000000000006044820152606401610395565b5f8781526006602090815260408083208984529091529020805460ff191660011790557f000000000000000000000000000000000000000000000000000000000000000015610638576106336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168686610dff565b6106b6565b6040516346154c9f60e11b81526001600160a01b038681166004830152602482018690527f00000000000000000000000000000000000000000000000000000000000000001690638c2a993e906044015f604051808303815f87803b15801561069f575f5ffd5b505af11580156106b1573d5f5f3e3d5ffd5b505050505b846001600160a01b031686887f4e330080f651b23c133f582ec518e92885ef8f97079c7329163b7e15dbbe79aa876040516106f391815260200190565b60405180910390a45061070560018055565b505050505050565b5f610716610d84565b5f848152600560205260409020546001600160a01b03166107795760405162461bcd60e51b815260206004820152601d60248201527f556e737570706f727465642064657374696e6174696f6e20636861696e0000006044820152606401610395565b6001600160a01b0383166107c35760405162461bcd60e51b8152602060048201526011602482015270125b9d985b1a59081c9958da5c1a595b9d607a1b6044820152606401610395565b5f82116108125760405162461bcd60e51b815260206004820152601d60248201527f416d6f756e74206d7573742062652067726561746572207468616e20300000006044820152606401610395565b600354341461085b5760405162461bcd60e51b8152602060048201526015602482015274496e636f72726563742072656c617965722066656560581b6044820152606401610395565b7f0000000000000000000000000000000000000000000000000000000000000000156109da576040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156108e5573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061090991906114f0565b90506109406001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016333086610e67565b6040516370a0823160e01b815230600482015281907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156109a4573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906109c891906114f0565b6109d2919061151b565b925050610a56565b6040516374f4f54760e01b8152336004820152602481018390527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906374f4f547906044015f604051808303815f87803b158015610a3f575f5ffd5b505af1158015610a51573d5f5f3e3d5ffd5b505050505b3415610afe576002546040515f916001600160a01b03169034908381818185875af1925050503d805f8114610aa6576040519150601f19603f3d011682016040523d82523d5f602084013e610aab565b606091505b5050905080610afc5760405162461bcd60e51b815260206004820152601b60248201527f52656c6179657220666565207472616e73666572206661696c656400000000006044820152606401610395565b505b60048054905f610b0d8361152e565b9091555050600454604080516001600160a01b0386168152602081018590523392879290917f3ac7ef46e214db370722b8a923dcd43870afcf512e79ea435550e1eecd588762910160405180910390a450600454610b6a60018055565b9392505050565b610b79610d2b565b610b825f610ea5565b565b5f8481526005602090815260408083205481519283018890526001600160a01b039081169183019190915246606083015230608083015260a08201869052841660c082015260e08101839052610100016040516020818303038152906040528051906020012090505b949350505050565b610bfd610d2b565b468203610c4c5760405162461bcd60e51b815260206004820152601a60248201527f43616e6e6f7420706565722077697468206f776e20636861696e0000000000006044820152606401610395565b5f8281526005602090815260409182902080546001600160a01b0319166001600160a01b038516908117909155915191825283917fb7ccf74e05cb794ad6a6d070fbf4e1068109509a3428dd72ee12694aca3e477891016103ed565b6003545b92915050565b610cba610d2b565b6001600160a01b038116610d1f5760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b6064820152608401610395565b610d2881610ea5565b50565b5f546001600160a01b03163314610b825760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401610395565b600260015403610dd65760405162461bcd60e51b815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c006044820152606401610395565b6002600155565b5f5f5f610dea8585610ef4565b91509150610df781610f36565b509392505050565b6040516001600160a01b038316602482015260448101829052610e6290849063a9059cbb60e01b906064015b60408051601f198184030181529190526020810180516001600160e01b03166001600160e01b03199093169290921790915261107f565b505050565b6040516001600160a01b0380851660248301528316604482015260648101829052610e9f9085906323b872dd60e01b90608401610e2b565b50505050565b5f80546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b5f5f8251604103610f28576020830151604084015160608501515f1a610f1c87828585611152565b94509450505050610f2f565b505f905060025b9250929050565b5f816004811115610f4957610f49611546565b03610f515750565b6001816004811115610f6557610f65611546565b03610fb25760405162461bcd60e51b815260206004820152601860248201527f45434453413a20696e76616c6964207369676e617475726500000000000000006044820152606401610395565b6002816004811115610fc657610fc6611546565b036110135760405162461bcd60e51b815260206004820152601f60248201527f45434453413a20696e76616c6964207369676e6174757265206c656e677468006044820152606401610395565b600381600481111561102757611027611546565b03610d285760405162461bcd60e51b815260206004820152602260248201527f45434453413a20696e76616c6964207369676e6174757265202773272076616c604482015261756560f01b6064820152608401610395565b5f6110d3826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c6564815250856001600160a01b031661120f9092919063ffffffff16565b905080515f14806110f35750808060200190518101906110f3919061155a565b610e625760405162461bcd60e51b815260206004820152602a60248201527f5361666545524332303a204552433230206f7065726174696f6e20646964206e6044820152691bdd081cdd58d8d9595960b21b6064820152608401610395565b5f807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a083111561118757505f90506003611206565b604080515f8082526020820180845289905260ff881692820192909252606081018690526080810185905260019060a0016020604051602081039080840390855afa1580156111d8573d5f5f3e3d5ffd5b5050604051601f1901519150506001600160a01b038116611200575f60019250925050611206565b91505f90505b94509492505050565b6060610bed84845f85855f5f866001600160a01b031685876040516112349190611579565b5f6040518083038185875af1925050503d805f811461126e576040519150601f19603f3d011682016040523d82523d5f602084013e611273565b606091505b50915091506112848783838761128f565b979650505050505050565b606083156112fd5782515f036112f6576001600160a01b0385163b6112f65760405162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e74726163740000006044820152606401610395565b5081610bed565b610bed83838151156113125781518083602001fd5b8060405162461bcd60e51b8152600401610395919061158f565b80356001600160a01b0381168114611342575f5ffd5b919050565b5f5f60408385031215611358575f5ffd5b6113618361132c565b946020939093013593505050565b5f5f5f5f5f5f60a08789031215611384575f5ffd5b863595506020870135945061139b6040880161132c565b935060608701359250608087013567ffffffffffffffff8111156113bd575f5ffd5b8701601f810189136113cd575f5ffd5b803567ffffffffffffffff8111156113e3575f5ffd5b8960208284010111156113f4575f5ffd5b60208201935080925050509295509295509295565b5f5f6040838503121561141a575f5ffd5b50508035926020909101359150565b5f5f5f6060848603121561143b575f5ffd5b8335925061144b6020850161132c565b929592945050506040919091013590565b5f5f5f5f6080858703121561146f575f5ffd5b84359350602085013592506114866040860161132c565b9396929550929360600135925050565b5f5f604083850312156114a7575f5ffd5b823591506114b76020840161132c565b90509250929050565b5f602082840312156114d0575f5ffd5b5035919050565b5f602082840312156114e7575f5ffd5b610b6a8261132c565b5f60208284031215611500575f5ffd5b5051919050565b634e487b7160e01b5f52601160045260245ffd5b81810381811115610cac57610cac611507565b5f6001820161153f5761153f611507565b5060010190565b634e487b7160e01b5f52602160045260245ffd5b5f6020828403121561156a575f5ffd5b81518015158114610b6a575f5ffd5b5f82518060208501845e5f920191825250919050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f8301168401019150509291505056fea2646970667358221220e523f95dd6bdc1b5ac6d37d34eeab8afbac0aa6a743bf876cbd79dfeb590f17d64736f6c634300081e0033",
+    "storageLayout": {
+      "storage": [
+        {
+          "label": "_owner",
+          "slot": "0",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:RelayerBridgeAdapter"
+        },
+        {
+          "label": "_status",
+          "slot": "1",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:RelayerBridgeAdapter"
+        },
+        {
+          "label": "relayer",
+          "slot": "2",
+          "offset": 0,
+          "type": "t_address",
+          "contract": "contract.sol:RelayerBridgeAdapter"
+        },
+        {
+          "label": "relayerFee",
+          "slot": "3",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:RelayerBridgeAdapter"
+        },
+        {
+          "label": "nonce",
+          "slot": "4",
+          "offset": 0,
+          "type": "t_uint256",
+          "contract": "contract.sol:RelayerBridgeAdapter"
+        },
+        {
+          "label": "peers",
+          "slot": "5",
+          "offset": 0,
+          "type": "t_mapping(t_uint256,t_address)",
+          "contract": "contract.sol:RelayerBridgeAdapter"
+        },
+        {
+          "label": "received",
+          "slot": "6",
+          "offset": 0,
+          "type": "t_mapping(t_uint256,t_mapping(t_uint256,t_bool))",
+          "contract": "contract.sol:RelayerBridgeAdapter"
+        }
+      ],
+      "types": {
+        "t_address": {
+          "label": "address",
+          "numberOfBytes": "20",
+          "encoding": "inplace"
+        },
+        "t_bool": {
+          "label": "bool",
+          "numberOfBytes": "1",
+          "encoding": "inplace"
+        },
+        "t_mapping(t_uint256,t_address)": {
+          "label": "mapping(uint256 => address)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_mapping(t_uint256,t_bool)": {
+          "label": "mapping(uint256 => bool)",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_mapping(t_uint256,t_mapping(t_uint256,t_bool))": {
+          "label": "mapping(uint256 => mapping(uint256 => bool))",
+          "numberOfBytes": "32",
+          "encoding": "mapping"
+        },
+        "t_uint256": {
+          "label": "uint256",
+          "numberOfBytes": "32",
+          "encoding": "inplace"
+        }
+      }
+    }
+  }
+};
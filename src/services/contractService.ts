@@ -1,8 +1,13 @@
-import { TokenConfig, Network, VestingConfig } from '../types';
+import { ethers } from 'ethers';
+import { TokenConfig, TokenFeatures, Network, VestingConfig, DeploymentJob, DeploymentCostEstimate } from '../types';
 import { PresaleConfig } from '../types/presale';
 import { AppError, ErrorType, reportError } from './errorHandler';
 import { web3Service } from './web3Service';
-import { MODE_STORAGE_KEY, DEFAULT_MODE } from '../config/constants';
+import { VerificationResult, VerificationStatus } from './explorerVerification';
+import { getTokenContractFeatures, getTokenContractName, getTokenConstructorArgs } from './tokenContractGenerator';
+import { VestingFundingStep, fundVestingSchedules, getVestingAllocations, getVestingFundingIssue } from './vestingService';
+import { FACTORY_TOKEN_TYPES } from './vanityAddress';
+import { MODE_STORAGE_KEY, DEFAULT_MODE, getTokenFactoryAddress } from '../config/constants';
 
 export interface DeploymentResult {
   contractAddress: string;
@@ -11,6 +16,48 @@ export interface DeploymentResult {
   explorerUrl: string;
   gasUsed: string;
   deploymentCost: string;
+  features?: TokenFeatures;
+  implementationAddress?: string;
+  projectId?: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+}
+
+export interface DeployedContractDetails {
+  contractType: string;
+  contractAddress: string;
+  implementationAddress?: string; // Upgradeable tokens only
+  implementationArtifactHash?: string; // Stored artifact the implementation was deployed from, when recorded
+  bridgeAdapterAddress?: string;
+  vestingAddress?: string;
+  projectId?: string; // Shared with the token's deployments on other networks
+  timestamp: string;
+  verified: boolean;
+  verificationStatus?: VerificationStatus;
+  verificationMessage?: string | null;
+  constructorArgs?: unknown[] | null;
+  owner: string;
+}
+
+export interface DeploymentJobOptions {
+  projectId?: string;
+  // Requests with the same key follow the deployment already queued for it instead of starting another
+  idempotencyKey?: string;
+  onJobUpdate?: (job: DeploymentJob) => void;
+}
+
+// Applies one event of a deployment job's status stream
+function applyJobEvent(job: DeploymentJob | null, event: string, data: DeploymentJob & { text?: string }): DeploymentJob | null {
+  switch (event) {
+    case 'snapshot':
+      return data;
+    case 'update':
+      return { ...data, logs: job?.logs };
+    case 'log':
+      return job && { ...job, logs: (job.logs || '') + data.text };
+    default:
+      return job;
+  }
 }
 
 export class ContractService {
@@ -84,92 +131,38 @@ export class ContractService {
   }
 
   private getContractType(config: TokenConfig): string {
-    const features = config.features;
-    
-    if (features.burnable && features.mintable && features.transferFees.enabled && features.holderRedistribution.enabled) {
-      return 'AdvancedToken';
-    } else if (features.burnable && features.mintable && features.transferFees.enabled) {
-      return 'BurnableMintableFeeToken';
-    } else if (features.burnable && features.mintable && features.holderRedistribution.enabled) {
-      return 'BurnableMintableRedistributionToken';
-    } else if (features.burnable && features.mintable) {
-      return 'BurnableMintableToken';
-    } else if (features.burnable) {
-      return 'BurnableToken';
-    } else if (features.mintable) {
-      return 'MintableToken';
-    } else if (features.transferFees.enabled) {
-      return 'FeeToken';
-    } else if (features.holderRedistribution.enabled) {
-      return 'RedistributionToken';
-    } else {
-      return 'BasicToken';
-    }
+    return getTokenContractName(getTokenContractFeatures(config.features));
   }
 
   private getConstructorParams(config: TokenConfig): any[] {
-    const contractType = this.getContractType(config);
-    const baseParams = [
-      config.name,
-      config.symbol,
-      config.decimals,
-      config.initialSupply,
-      config.maxSupply || '0',
-    ];
-
-    switch (contractType) {
-      case 'FeeToken':
-        return [
-          ...baseParams,
-          Math.floor(config.features.transferFees.percentage * 100),
-          config.features.transferFees.recipient,
-          'DEPLOYER_ADDRESS' // Will be replaced by backend
-        ];
-      case 'RedistributionToken':
-        return [
-          ...baseParams,
-          Math.floor(config.features.holderRedistribution.percentage * 100),
-          'DEPLOYER_ADDRESS'
-        ];
-      case 'AdvancedToken':
-        return [
-          ...baseParams,
-          Math.floor(config.features.transferFees.percentage * 100),
-          config.features.transferFees.recipient,
-          Math.floor(config.features.holderRedistribution.percentage * 100),
-          'DEPLOYER_ADDRESS'
-        ];
-      default:
-        return [...baseParams, 'DEPLOYER_ADDRESS'];
-    }
+    // Without an explicit owner (e.g. a Safe) the backend substitutes the deploying wallet
+    return getTokenConstructorArgs(config, config.initialOwner || 'DEPLOYER_ADDRESS');
   }
 
-  async estimateDeploymentCost(config: TokenConfig): Promise<{
-    gasEstimate: string;
-    gasCost: string;
-    gasCostUsd: string;
-    timeEstimate: string;
-    useFactory: boolean;
-  }> {
+  async estimateDeploymentCost(config: TokenConfig): Promise<DeploymentCostEstimate> {
+    const contractType = this.getContractType(config);
+    const useFactory = this.shouldUseFactory(config, contractType);
     try {
-      const contractType = this.getContractType(config);
       const constructorParams = this.getConstructorParams(config);
       
-      // Get gas estimate from web3Service
-      const estimate = await web3Service.estimateTokenDeploymentGas(contractType, constructorParams);
-      
-      // Determine if factory should be used (cheaper for standard tokens)
-      const useFactory = ['BasicToken', 'BurnableToken', 'MintableToken', 'BurnableMintableToken'].includes(contractType);
-      
-      // If using factory, reduce gas cost by approximately 30%
-      const factoryDiscount = useFactory ? 0.7 : 1.0;
+      // Factory deployments are estimated as the factory's create call; networks without a factory
+      // are estimated as a direct deployment
+      const estimate = await web3Service.estimateTokenDeploymentGas(contractType, constructorParams, {
+        factoryAddress: useFactory ? getTokenFactoryAddress(config.network.chainId) : undefined,
+        salt: config.create2Salt
+      });
       
       return {
         gasEstimate: estimate.gasEstimate.toString(),
-        gasCost: (parseFloat(estimate.gasCost) * factoryDiscount).toFixed(6),
+        gasCost: estimate.gasCost,
         gasCostUsd: estimate.gasCostUsd,
         timeEstimate: estimate.timeEstimate,
-        useFactory
+        useFactory,
+        factoryAvailable: estimate.factoryAvailable,
+        creationFee: ethers.formatEther(estimate.creationFee),
+        creationFeeUsd: estimate.creationFeeUsd,
+        eip1559: estimate.eip1559,
+        tiers: estimate.tiers
       };
     } catch (error) {
       console.error('Error estimating deployment cost:', error);
@@ -181,18 +174,27 @@ export class ContractService {
         gasCost: '0.0',
         gasCostUsd: '$0.00',
         timeEstimate: '1-3 minutes',
-        useFactory: false
+        useFactory,
+        factoryAvailable: false,
+        creationFee: '0.0',
+        creationFeeUsd: null,
+        eip1559: false,
+        tiers: []
       };
     }
   }
 
-  async deployToken(config: TokenConfig): Promise<DeploymentResult> {
+  // The factory deploys the plain immutable token types only; upgradeable ones need an implementation and a proxy
+  private shouldUseFactory(config: TokenConfig, contractType: string): boolean {
+    return !config.features.upgradeable && config.useFactory !== false && FACTORY_TOKEN_TYPES.includes(contractType);
+  }
+
+  async deployToken(config: TokenConfig, options: DeploymentJobOptions = {}): Promise<DeploymentResult> {
+    const { projectId, idempotencyKey = crypto.randomUUID(), onJobUpdate } = options;
     try {
       const contractType = this.getContractType(config);
       const constructorParams = this.getConstructorParams(config);
-      const useFactory = config.useFactory !== undefined ? 
-        config.useFactory : 
-        ['BasicToken', 'BurnableToken', 'MintableToken', 'BurnableMintableToken'].includes(contractType);
+      const useFactory = this.shouldUseFactory(config, contractType);
       
       // Check if we're on the correct network
       const currentNetwork = await web3Service.getCurrentNetwork();
@@ -208,8 +210,11 @@ export class ContractService {
         }
       }
 
+      // A deployment already queued for this key was paid for when it was requested
+      let job = await this.findDeploymentJob(idempotencyKey);
+      
       // Check if user has enough ESR tokens for mainnet deployment
-      if (!config.network.id.includes('testnet') && !config.network.id.includes('goerli') && !config.network.id.includes('sepolia')) {
+      if ((!job || job.status === 'failed') && !config.network.id.includes('testnet') && !config.network.id.includes('goerli') && !config.network.id.includes('sepolia')) {
         try {
           const esrBalance = await this.checkESRBalance(await web3Service.getSigner()?.getAddress() || '');
           const requiredBalance = 100; // 100 ESR tokens required
@@ -232,41 +237,38 @@ export class ContractService {
         }
       }
 
-      const response = await fetch(`${this.apiUrl}/api/deploy/token`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-        body: JSON.stringify({
+      if (!job || job.status === 'failed') {
+        job = await this.requestDeployment('token', {
           contractType,
           constructorArgs: constructorParams,
           network: config.network.id,
           verify: true,
-          useFactory
-        }),
-      });
+          useFactory,
+          salt: useFactory ? config.create2Salt : undefined,
+          projectId
+        }, idempotencyKey);
+      }
 
-      if (!response.ok) {
-        let errorMessage = 'Deployment failed';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.error || errorData.details || 'Deployment failed';
-        } catch (e) {
-          // If we can't parse the JSON, use the status text
-          errorMessage = `Deployment failed: ${response.status} ${response.statusText}`;
-        }
-        throw new AppError(errorMessage, ErrorType.SERVER);
+      job = await this.followDeploymentJob(job.id, onJobUpdate);
+      if (job.status === 'failed') {
+        throw new AppError(job.error || 'Deployment failed', ErrorType.SERVER);
       }
 
-      const result = await response.json();
+      const result = job.result!;
 
       return {
         contractAddress: result.contractAddress,
+        // The script reports null for immutable tokens
+        implementationAddress: result.implementationAddress ?? undefined,
+        projectId,
         transactionHash: result.transactionHash,
         tokenName: config.name,
         tokenSymbol: config.symbol,
         network: config.network,
         explorerUrl: `${config.network.explorerUrl}/token/${result.contractAddress}`,
         gasUsed: result.gasUsed,
-        deploymentCost: result.deploymentCost
+        deploymentCost: result.deploymentCost,
+        features: config.features
       };
     } catch (error) {
       console.error('Error deploying token:', error);
@@ -282,7 +284,8 @@ export class ContractService {
     }
   }
 
-  async deployPresale(config: PresaleConfig): Promise<DeploymentResult> {
+  async deployPresale(config: PresaleConfig, options: DeploymentJobOptions = {}): Promise<DeploymentResult> {
+    const { idempotencyKey = crypto.randomUUID(), onJobUpdate } = options;
     try {
       // Check if we're on the correct network
       const currentNetwork = await web3Service.getCurrentNetwork();
@@ -298,8 +301,11 @@ export class ContractService {
         }
       }
       
+      // A deployment already queued for this key was paid for when it was requested
+      let job = await this.findDeploymentJob(idempotencyKey);
+      
       // Check if user has enough ESR tokens for mainnet deployment
-      if (!config.network.id.includes('testnet') && !config.network.id.includes('goerli') && !config.network.id.includes('sepolia')) {
+      if ((!job || job.status === 'failed') && !config.network.id.includes('testnet') && !config.network.id.includes('goerli') && !config.network.id.includes('sepolia')) {
         try {
           const esrBalance = await this.checkESRBalance(await web3Service.getSigner()?.getAddress() || '');
           const requiredBalance = 100; // 100 ESR tokens required
@@ -322,29 +328,20 @@ export class ContractService {
         }
       }
       
-      const response = await fetch(`${this.apiUrl}/api/deploy/presale`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-        body: JSON.stringify({
+      if (!job || job.status === 'failed') {
+        job = await this.requestDeployment('presale', {
           presaleConfig: config,
           network: config.network.id,
           verify: true
-        }),
-      });
+        }, idempotencyKey);
+      }
 
-      if (!response.ok) {
-        let errorMessage = 'Presale deployment failed';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.error || errorData.details || 'Presale deployment failed';
-        } catch (e) {
-          // If we can't parse the JSON, use the status text
-          errorMessage = `Presale deployment failed: ${response.status} ${response.statusText}`;
-        }
-        throw new AppError(errorMessage, ErrorType.SERVER);
+      job = await this.followDeploymentJob(job.id, onJobUpdate);
+      if (job.status === 'failed') {
+        throw new AppError(job.error || 'Presale deployment failed', ErrorType.SERVER);
       }
 
-      const result = await response.json();
+      const result = job.result!;
 
       return {
         contractAddress: result.contractAddress,
@@ -369,6 +366,98 @@ export class ContractService {
     }
   }
 
+  // Queues a server-side deployment; the server answers a repeated key with the job it already has
+  private async requestDeployment(kind: DeploymentJob['kind'], body: Record<string, unknown>, idempotencyKey: string): Promise<DeploymentJob> {
+    const failureMessage = kind === 'presale' ? 'Presale deployment failed' : 'Deployment failed';
+    const response = await fetch(`${this.apiUrl}/api/deploy/${kind}`, {
+      method: 'POST',
+      headers: { ...this.getAuthHeaders(), 'Idempotency-Key': idempotencyKey },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let errorMessage = failureMessage;
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorData.details || failureMessage;
+      } catch (e) {
+        // If we can't parse the JSON, use the status text
+        errorMessage = `${failureMessage}: ${response.status} ${response.statusText}`;
+      }
+      throw new AppError(errorMessage, ErrorType.SERVER);
+    }
+
+    return response.json();
+  }
+
+  async findDeploymentJob(idempotencyKey: string): Promise<DeploymentJob | null> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/deploy/jobs?idempotencyKey=${encodeURIComponent(idempotencyKey)}`, {
+        headers: this.getAuthHeaders()
+      });
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      console.error('Error fetching deployment job:', error);
+      return null;
+    }
+  }
+
+  // Follows a deployment job's event stream until it is confirmed, verified or failed, reconnecting
+  // when the connection drops; each new connection starts with a snapshot of the job
+  async followDeploymentJob(jobId: string, onUpdate?: (job: DeploymentJob) => void): Promise<DeploymentJob> {
+    let job: DeploymentJob | null = null;
+    let failures = 0;
+    let lastError: unknown;
+
+    for (;;) {
+      try {
+        const response = await fetch(`${this.apiUrl}/api/deploy/jobs/${jobId}/events`, {
+          headers: this.getAuthHeaders()
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Deployment status unavailable: ${response.status} ${response.statusText}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop() || '';
+
+          for (const message of messages) {
+            const lines = message.split('\n');
+            const event = lines.find(line => line.startsWith('event: '))?.slice(7);
+            const data = lines.find(line => line.startsWith('data: '))?.slice(6);
+            if (!event || !data) continue; // Heartbeats
+
+            job = applyJobEvent(job, event, JSON.parse(data));
+            if (!job) continue;
+
+            failures = 0;
+            onUpdate?.(job);
+            if (job.done) {
+              reader.cancel();
+              return job;
+            }
+          }
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      if (++failures >= 5) {
+        throw new AppError('Lost track of the deployment; check Deployed Tokens before deploying again', ErrorType.NETWORK, lastError);
+      }
+      await new Promise(resolve => setTimeout(resolve, 2000 * failures));
+    }
+  }
+
   async getDeployedTokens(): Promise<any[]> {
     try {
       const response = await fetch(`${this.apiUrl}/api/contracts/deployed`, {
@@ -514,6 +603,183 @@ export class ContractService {
     }
   }
 
+  // The chain ID picks the deployment, since the same address can belong to the token on several networks
+  async getContractDetails(contractAddress: string, chainId: number): Promise<DeployedContractDetails | null> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}?chainId=${chainId}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        console.error(`Failed to fetch contract details: ${response.status} ${response.statusText}`);
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching contract details:', error);
+      reportError(new AppError('Failed to fetch contract details', ErrorType.SERVER, error));
+      return null;
+    }
+  }
+
+  // Has the server submit the token to its explorer and follows the submission until the explorer answers
+  async verifyContract(contractAddress: string, chainId: number, pollInterval = 5000, maxAttempts = 24): Promise<VerificationResult> {
+    try {
+      let result = await this.requestVerification(contractAddress, chainId, 'POST');
+
+      for (let attempt = 0; attempt < maxAttempts && result.status === 'pending'; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        result = await this.requestVerification(contractAddress, chainId, 'GET');
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error verifying contract:', error);
+      if (error instanceof AppError) {
+        throw error;
+      } else {
+        throw new AppError('Contract verification failed', ErrorType.SERVER, error);
+      }
+    }
+  }
+
+  private async requestVerification(contractAddress: string, chainId: number, method: 'GET' | 'POST'): Promise<VerificationResult> {
+    const response = await fetch(
+      method === 'GET'
+        ? `${this.apiUrl}/api/contracts/${contractAddress}/verification?chainId=${chainId}`
+        : `${this.apiUrl}/api/contracts/${contractAddress}/verification`,
+      {
+        method,
+        headers: this.getAuthHeaders(),
+        ...(method === 'POST' && { body: JSON.stringify({ chainId }) }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(
+        errorData.error || 'Contract verification failed',
+        ErrorType.SERVER,
+        errorData
+      );
+    }
+
+    return response.json();
+  }
+
+  async recordUpgrade(
+    contractAddress: string,
+    chainId: number,
+    implementationAddress: string,
+    contractType: string,
+    artifactHash: string
+  ): Promise<void> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/implementation`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ implementationAddress, contractType, artifactHash, chainId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new AppError(
+          errorData.error || 'Failed to record upgrade',
+          ErrorType.SERVER,
+          errorData
+        );
+      }
+    } catch (error) {
+      console.error('Error recording upgrade:', error);
+      if (error instanceof AppError) {
+        throw error;
+      } else {
+        throw new AppError('Failed to record upgrade', ErrorType.SERVER, error);
+      }
+    }
+  }
+
+  // Deploys TokenVesting from the connected wallet, which holds the new token's supply, and moves the
+  // configured allocations into it. The contract is recorded before funding so a failed funding step
+  // can be finished from token management
+  async deployVesting(
+    config: TokenConfig,
+    tokenAddress: string,
+    onStep?: (step: 'deploying' | VestingFundingStep) => void
+  ): Promise<string> {
+    const signer = web3Service.getSigner();
+    if (!signer) throw new AppError('Signer not available', ErrorType.WALLET);
+
+    const issue = getVestingFundingIssue(config, await signer.getAddress());
+    if (issue) throw new AppError(issue, ErrorType.VALIDATION);
+
+    onStep?.('deploying');
+    const { getCompiledContract } = await import('./contractSource');
+    const compiled = await getCompiledContract('TokenVesting');
+    const vesting = await web3Service.deployContract(compiled.abi, compiled.bytecode, [tokenAddress]);
+    await this.recordVestingContract(tokenAddress, config.network.chainId, vesting.address);
+
+    await fundVestingSchedules(vesting.address, tokenAddress, getVestingAllocations(config), signer, {
+      exemptFromLimits: !!config.features.antiWhale?.enabled,
+      onStep
+    });
+
+    return vesting.address;
+  }
+
+  async recordVestingContract(contractAddress: string, chainId: number, vestingAddress: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/vesting`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ vestingAddress, chainId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new AppError(
+          errorData.error || 'Failed to record vesting contract',
+          ErrorType.SERVER,
+          errorData
+        );
+      }
+    } catch (error) {
+      console.error('Error recording vesting contract:', error);
+      if (error instanceof AppError) {
+        throw error;
+      } else {
+        throw new AppError('Failed to record vesting contract', ErrorType.SERVER, error);
+      }
+    }
+  }
+
+  async recordBridgeAdapter(contractAddress: string, chainId: number, bridgeAdapterAddress: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/bridge-adapter`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ bridgeAdapterAddress, chainId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new AppError(
+          errorData.error || 'Failed to record bridge adapter',
+          ErrorType.SERVER,
+          errorData
+        );
+      }
+    } catch (error) {
+      console.error('Error recording bridge adapter:', error);
+      if (error instanceof AppError) {
+        throw error;
+      } else {
+        throw new AppError('Failed to record bridge adapter', ErrorType.SERVER, error);
+      }
+    }
+  }
+
   // Real data fetching methods
   async getTokenStatistics(contractAddress: string, network: Network): Promise<{
     holders: number;
@@ -522,7 +788,7 @@ export class ContractService {
     lastUpdated: string;
   }> {
     try {
-      const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/stats?network=${network.id}`, {
+      const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/stats?network=${network.id}&chainId=${network.chainId}`, {
         headers: this.getAuthHeaders(),
       });
 
@@ -557,7 +823,7 @@ export class ContractService {
       // Retry once after a short delay
       try {
         await new Promise(resolve => setTimeout(resolve, 2000));
-        const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/stats?network=${network.id}`, {
+        const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/stats?network=${network.id}&chainId=${network.chainId}`, {
           headers: this.getAuthHeaders(),
           cache: 'no-store'
         });
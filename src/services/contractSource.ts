@@ -1,705 +1,264 @@
+import { ethers } from 'ethers';
+import { generateTokenContract, parseTokenContractName } from './tokenContractGenerator';
+import { StorageLayout } from './proxyUpgrades';
+import { contractBytecode } from './contractBytecode';
+
 // This file contains the source code for the contracts
 // In a production environment, these would be loaded from actual .sol files
 
 // Cache for compiled contracts to avoid recompilation
-const contractCache: Record<string, { bytecode: string, abi: any }> = {};
+const contractCache: Record<string, CompiledContract> = {};
 
 export function getContractSource(contractType: string): string {
+  // Token contracts are generated from their features; the name encodes which ones
+  const tokenFeatures = parseTokenContractName(contractType);
+  if (tokenFeatures) {
+    return generateTokenContract(tokenFeatures);
+  }
+  
   // Validate contract type
   const validContractTypes = [
-    'BasicToken',
-    'BurnableToken',
-    'MintableToken',
-    'BurnableMintableToken',
-    'FeeToken',
-    'RedistributionToken',
-    'AdvancedToken',
     'TokenVesting',
-    'PresaleContract'
+    'PresaleContract',
+    'RelayerBridgeAdapter'
   ];
   
   if (!validContractTypes.includes(contractType)) {
-    throw new Error(`Invalid contract type: ${contractType}. Valid types are: ${validContractTypes.join(', ')}`);
+    throw new Error(`Invalid contract type: ${contractType}. Valid types are: token contracts, ${validContractTypes.join(', ')}`);
   }
   
   switch (contractType) {
-    case 'BasicToken':
-      return `
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
-
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-
-/**
- * @title BasicToken
- * @dev Basic ERC20 token with no additional features
- */
-contract BasicToken is ERC20, Ownable {
-    uint8 private _decimals;
-    uint256 private _maxSupply;
-
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint8 decimals_,
-        uint256 initialSupply,
-        uint256 maxSupply_,
-        address owner
-    ) ERC20(name, symbol) {
-        _decimals = decimals_;
-        _maxSupply = maxSupply_;
-        
-        if (initialSupply > 0) {
-            _mint(owner, initialSupply);
-        }
-        
-        _transferOwnership(owner);
-    }
-
-    function decimals() public view virtual override returns (uint8) {
-        return _decimals;
-    }
-
-    function maxSupply() public view returns (uint256) {
-        return _maxSupply;
-    }
-}
-      `;
-    
-    case 'BurnableToken':
-      return `
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
-
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-
-/**
- * @title BurnableToken
- * @dev ERC20 token with burn functionality
- */
-contract BurnableToken is ERC20, ERC20Burnable, Ownable {
-    uint8 private _decimals;
-    uint256 private _maxSupply;
-
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint8 decimals_,
-        uint256 initialSupply,
-        uint256 maxSupply_,
-        address owner
-    ) ERC20(name, symbol) {
-        _decimals = decimals_;
-        _maxSupply = maxSupply_;
-        
-        if (initialSupply > 0) {
-            _mint(owner, initialSupply);
-        }
-        
-        _transferOwnership(owner);
-    }
-
-    function decimals() public view virtual override returns (uint8) {
-        return _decimals;
-    }
-
-    function maxSupply() public view returns (uint256) {
-        return _maxSupply;
-    }
-}
-      `;
-    
-    case 'MintableToken':
+    case 'TokenVesting':
       return `
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 
 /**
- * @title MintableToken
- * @dev ERC20 token with mint functionality
+ * @title TokenVesting
+ * @dev Token vesting with any number of schedules per beneficiary. A schedule can release part of its
+ * tokens at the start (TGE), holds the rest until its cliff and then unlocks it linearly in slices
  */
-contract MintableToken is ERC20, Ownable {
-    uint8 private _decimals;
-    uint256 private _maxSupply;
-
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint8 decimals_,
-        uint256 initialSupply,
-        uint256 maxSupply_,
-        address owner
-    ) ERC20(name, symbol) {
-        _decimals = decimals_;
-        _maxSupply = maxSupply_;
-        
-        if (initialSupply > 0) {
-            _mint(owner, initialSupply);
-        }
-        
-        _transferOwnership(owner);
-    }
+contract TokenVesting is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
 
-    function decimals() public view virtual override returns (uint8) {
-        return _decimals;
+    struct VestingSchedule {
+        address beneficiary;
+        uint256 totalAmount;
+        uint256 tgeAmount; // Released at startTime
+        uint256 startTime;
+        uint256 cliffDuration; // Seconds after startTime before the rest starts unlocking
+        uint256 duration; // Seconds from startTime until everything is unlocked, including the cliff
+        uint256 slicePeriod; // Tokens unlock in whole slices of this many seconds
+        uint256 releasedAmount;
+        bool revocable;
+        bool revoked;
     }
 
-    function maxSupply() public view returns (uint256) {
-        return _maxSupply;
+    struct ScheduleParams {
+        address beneficiary;
+        uint256 totalAmount;
+        uint256 tgeAmount;
+        uint256 startTime;
+        uint256 cliffDuration;
+        uint256 duration;
+        uint256 slicePeriod;
+        bool revocable;
     }
 
-    function mint(address to, uint256 amount) public onlyOwner {
-        require(_maxSupply == 0 || totalSupply() + amount <= _maxSupply, "Max supply exceeded");
-        _mint(to, amount);
-    }
-}
-      `;
+    IERC20 public immutable token;
+    VestingSchedule[] private _schedules;
+    mapping(address => uint256[]) private _beneficiarySchedules;
+    address[] private _beneficiaries;
     
-    case 'BurnableMintableToken':
-      return `
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
-
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-
-/**
- * @title BurnableMintableToken
- * @dev ERC20 token with both burn and mint functionality
- */
-contract BurnableMintableToken is ERC20, ERC20Burnable, Ownable {
-    uint8 private _decimals;
-    uint256 private _maxSupply;
-
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint8 decimals_,
-        uint256 initialSupply,
-        uint256 maxSupply_,
-        address owner
-    ) ERC20(name, symbol) {
-        _decimals = decimals_;
-        _maxSupply = maxSupply_;
-        
-        if (initialSupply > 0) {
-            _mint(owner, initialSupply);
-        }
-        
-        _transferOwnership(owner);
-    }
+    uint256 public totalVestedAmount;
+    uint256 public totalReleasedAmount;
 
-    function decimals() public view virtual override returns (uint8) {
-        return _decimals;
-    }
+    event VestingScheduleCreated(uint256 indexed scheduleId, address indexed beneficiary, uint256 totalAmount);
+    event TokensReleased(uint256 indexed scheduleId, address indexed beneficiary, uint256 amount);
+    event VestingRevoked(uint256 indexed scheduleId, address indexed beneficiary, uint256 unreleased);
 
-    function maxSupply() public view returns (uint256) {
-        return _maxSupply;
+    constructor(IERC20 token_) {
+        token = token_;
     }
 
-    function mint(address to, uint256 amount) public onlyOwner {
-        require(_maxSupply == 0 || totalSupply() + amount <= _maxSupply, "Max supply exceeded");
-        _mint(to, amount);
+    function createVestingSchedule(ScheduleParams calldata params) external onlyOwner returns (uint256 scheduleId) {
+        scheduleId = _addVestingSchedule(params);
+        _deposit(params.totalAmount);
     }
-}
-      `;
-    
-    case 'FeeToken':
-      return `
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
-
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-
-/**
- * @title FeeToken
- * @dev ERC20 token with transfer fees
- */
-contract FeeToken is ERC20, Ownable {
-    uint8 private _decimals;
-    uint256 private _maxSupply;
-    uint256 public transferFeePercentage; // Fee percentage (0-1000 = 0-10%)
-    address public feeRecipient;
 
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint8 decimals_,
-        uint256 initialSupply,
-        uint256 maxSupply_,
-        uint256 feePercentage,
-        address feeRecipient_,
-        address owner
-    ) ERC20(name, symbol) {
-        _decimals = decimals_;
-        _maxSupply = maxSupply_;
-        transferFeePercentage = feePercentage;
-        feeRecipient = feeRecipient_;
-        
-        if (initialSupply > 0) {
-            _mint(owner, initialSupply);
+    /**
+     * @dev Creates several schedules and pulls their tokens from the owner in one transfer
+     */
+    function createVestingSchedules(ScheduleParams[] calldata params) external onlyOwner {
+        uint256 total;
+        for (uint256 i = 0; i < params.length; i++) {
+            _addVestingSchedule(params[i]);
+            total += params[i].totalAmount;
         }
-        
-        _transferOwnership(owner);
+        _deposit(total);
     }
 
-    function decimals() public view virtual override returns (uint8) {
-        return _decimals;
+    function getScheduleCount() external view returns (uint256) {
+        return _schedules.length;
     }
 
-    function maxSupply() public view returns (uint256) {
-        return _maxSupply;
+    function getScheduleIds(address beneficiary) external view returns (uint256[] memory) {
+        return _beneficiarySchedules[beneficiary];
     }
 
-    function _transfer(address from, address to, uint256 amount) internal virtual override {
-        require(from != address(0), "ERC20: transfer from the zero address");
-        require(to != address(0), "ERC20: transfer to the zero address");
-
-        if (transferFeePercentage > 0 && from != owner() && to != owner()) {
-            uint256 feeAmount = (amount * transferFeePercentage) / 10000;
-            uint256 transferAmount = amount - feeAmount;
-            
-            super._transfer(from, feeRecipient, feeAmount);
-            super._transfer(from, to, transferAmount);
-        } else {
-            super._transfer(from, to, amount);
-        }
+    function getBeneficiaries() external view returns (address[] memory) {
+        return _beneficiaries;
     }
 
-    function setTransferFee(uint256 feePercentage) external onlyOwner {
-        require(feePercentage <= 1000, "Fee too high"); // Max 10%
-        transferFeePercentage = feePercentage;
-    }
+    function _addVestingSchedule(ScheduleParams calldata params) private returns (uint256 scheduleId) {
+        require(params.beneficiary != address(0), "Invalid beneficiary");
+        require(params.totalAmount > 0, "Amount must be > 0");
+        require(params.tgeAmount <= params.totalAmount, "TGE exceeds amount");
+        require(params.duration > 0, "Duration must be > 0");
+        require(params.cliffDuration <= params.duration, "Cliff exceeds duration");
+        require(params.slicePeriod > 0 && params.slicePeriod <= params.duration, "Invalid slice period");
 
-    function setFeeRecipient(address recipient) external onlyOwner {
-        require(recipient != address(0), "Invalid recipient");
-        feeRecipient = recipient;
-    }
-}
-      `;
-    
-    case 'RedistributionToken':
-      return `
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
-
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-
-/**
- * @title RedistributionToken
- * @dev ERC20 token with holder redistribution mechanism
- */
-contract RedistributionToken is ERC20, Ownable {
-    uint8 private _decimals;
-    uint256 private _maxSupply;
-    uint256 public redistributionPercentage; // Redistribution percentage (0-500 = 0-5%)
-    
-    mapping(address => uint256) private _lastClaimTime;
-    mapping(address => bool) private _excludedFromRewards;
-    
-    uint256 private _totalRewards;
-    uint256 private _rewardsPerToken;
-    uint256 private _lastUpdateTime;
+        scheduleId = _schedules.length;
+        _schedules.push(VestingSchedule({
+            beneficiary: params.beneficiary,
+            totalAmount: params.totalAmount,
+            tgeAmount: params.tgeAmount,
+            startTime: params.startTime,
+            cliffDuration: params.cliffDuration,
+            duration: params.duration,
+            slicePeriod: params.slicePeriod,
+            releasedAmount: 0,
+            revocable: params.revocable,
+            revoked: false
+        }));
 
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint8 decimals_,
-        uint256 initialSupply,
-        uint256 maxSupply_,
-        uint256 redistributionPercentage_,
-        address owner
-    ) ERC20(name, symbol) {
-        _decimals = decimals_;
-        _maxSupply = maxSupply_;
-        redistributionPercentage = redistributionPercentage_;
-        _lastUpdateTime = block.timestamp;
-        
-        if (initialSupply > 0) {
-            _mint(owner, initialSupply);
+        if (_beneficiarySchedules[params.beneficiary].length == 0) {
+            _beneficiaries.push(params.beneficiary);
         }
-        
-        _transferOwnership(owner);
-    }
+        _beneficiarySchedules[params.beneficiary].push(scheduleId);
+        totalVestedAmount += params.totalAmount;
 
-    function decimals() public view virtual override returns (uint8) {
-        return _decimals;
+        emit VestingScheduleCreated(scheduleId, params.beneficiary, params.totalAmount);
     }
 
-    function maxSupply() public view returns (uint256) {
-        return _maxSupply;
+    // Schedules are only backed if the full amount arrives, so tokens that charge fees on the
+    // transfer into this contract are rejected
+    function _deposit(uint256 amount) private {
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        require(token.balanceOf(address(this)) - balanceBefore == amount, "Transfer fees apply to deposits");
     }
 
-    function _transfer(address from, address to, uint256 amount) internal virtual override {
-        require(from != address(0), "ERC20: transfer from the zero address");
-        require(to != address(0), "ERC20: transfer to the zero address");
+    function release(uint256 scheduleId) external nonReentrant {
+        VestingSchedule storage schedule = _getSchedule(scheduleId);
+        require(schedule.beneficiary == msg.sender, "Not the beneficiary");
+        require(!schedule.revoked, "Vesting revoked");
 
-        _updateRewards();
+        uint256 releasableAmount = _releasableAmount(schedule);
+        require(releasableAmount > 0, "No tokens to release");
 
-        if (redistributionPercentage > 0 && from != owner() && to != owner()) {
-            uint256 redistributionAmount = (amount * redistributionPercentage) / 10000;
-            uint256 transferAmount = amount - redistributionAmount;
-            
-            _totalRewards += redistributionAmount;
-            super._transfer(from, to, transferAmount);
-        } else {
-            super._transfer(from, to, amount);
-        }
+        _release(scheduleId, schedule, releasableAmount);
     }
 
-    function _updateRewards() internal {
-        if (totalSupply() > 0) {
-            uint256 timeDelta = block.timestamp - _lastUpdateTime;
-            if (timeDelta > 0 && _totalRewards > 0) {
-                _rewardsPerToken += (_totalRewards * 1e18) / totalSupply();
-                _totalRewards = 0;
+    /**
+     * @dev Releases everything the caller's schedules have unlocked
+     */
+    function releaseAll() external nonReentrant {
+        uint256[] storage scheduleIds = _beneficiarySchedules[msg.sender];
+        uint256 total;
+
+        for (uint256 i = 0; i < scheduleIds.length; i++) {
+            VestingSchedule storage schedule = _schedules[scheduleIds[i]];
+            uint256 releasableAmount = _releasableAmount(schedule);
+            if (releasableAmount > 0) {
+                schedule.releasedAmount += releasableAmount;
+                total += releasableAmount;
+                emit TokensReleased(scheduleIds[i], msg.sender, releasableAmount);
             }
         }
-        _lastUpdateTime = block.timestamp;
-    }
-
-    function claimRewards() external {
-        _updateRewards();
-        
-        uint256 rewards = getUnclaimedRewards(msg.sender);
-        if (rewards > 0) {
-            _lastClaimTime[msg.sender] = block.timestamp;
-            _mint(msg.sender, rewards);
-        }
-    }
-
-    function getUnclaimedRewards(address account) public view returns (uint256) {
-        if (_excludedFromRewards[account]) return 0;
-        
-        uint256 accountBalance = balanceOf(account);
-        if (accountBalance == 0) return 0;
-        
-        return (accountBalance * _rewardsPerToken) / 1e18;
-    }
-
-    function setRedistributionPercentage(uint256 percentage) external onlyOwner {
-        require(percentage <= 500, "Percentage too high"); // Max 5%
-        redistributionPercentage = percentage;
-    }
-
-    function excludeFromRewards(address account, bool excluded) external onlyOwner {
-        _excludedFromRewards[account] = excluded;
-    }
-}
-      `;
-    
-    case 'AdvancedToken':
-      return `
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
-
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-
-/**
- * @title AdvancedToken
- * @dev ERC20 token with all features: burnable, mintable, fees, and redistribution
- */
-contract AdvancedToken is ERC20, ERC20Burnable, Ownable {
-    uint8 private _decimals;
-    uint256 private _maxSupply;
-    
-    // Fee mechanism
-    uint256 public transferFeePercentage;
-    address public feeRecipient;
-    
-    // Redistribution mechanism
-    uint256 public redistributionPercentage;
-    mapping(address => uint256) private _lastClaimTime;
-    mapping(address => bool) private _excludedFromRewards;
-    uint256 private _totalRewards;
-    uint256 private _rewardsPerToken;
-    uint256 private _lastUpdateTime;
-
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint8 decimals_,
-        uint256 initialSupply,
-        uint256 maxSupply_,
-        uint256 feePercentage,
-        address feeRecipient_,
-        uint256 redistributionPercentage_,
-        address owner
-    ) ERC20(name, symbol) {
-        _decimals = decimals_;
-        _maxSupply = maxSupply_;
-        transferFeePercentage = feePercentage;
-        feeRecipient = feeRecipient_;
-        redistributionPercentage = redistributionPercentage_;
-        _lastUpdateTime = block.timestamp;
-        
-        if (initialSupply > 0) {
-            _mint(owner, initialSupply);
-        }
-        
-        _transferOwnership(owner);
-    }
+        require(total > 0, "No tokens to release");
 
-    function decimals() public view virtual override returns (uint8) {
-        return _decimals;
+        totalReleasedAmount += total;
+        token.safeTransfer(msg.sender, total);
     }
 
-    function maxSupply() public view returns (uint256) {
-        return _maxSupply;
+    function getReleasableAmount(uint256 scheduleId) public view returns (uint256) {
+        return _releasableAmount(_getSchedule(scheduleId));
     }
 
-    function mint(address to, uint256 amount) public onlyOwner {
-        require(_maxSupply == 0 || totalSupply() + amount <= _maxSupply, "Max supply exceeded");
-        _mint(to, amount);
+    function getVestedAmount(uint256 scheduleId) public view returns (uint256) {
+        return _vestedAmount(_getSchedule(scheduleId));
     }
 
-    function _transfer(address from, address to, uint256 amount) internal virtual override {
-        require(from != address(0), "ERC20: transfer from the zero address");
-        require(to != address(0), "ERC20: transfer to the zero address");
-
-        _updateRewards();
+    function revokeVesting(uint256 scheduleId) external onlyOwner {
+        VestingSchedule storage schedule = _getSchedule(scheduleId);
+        require(schedule.revocable, "Schedule is not revocable");
+        require(!schedule.revoked, "Already revoked");
 
-        if ((transferFeePercentage > 0 || redistributionPercentage > 0) && from != owner() && to != owner()) {
-            uint256 feeAmount = (amount * transferFeePercentage) / 10000;
-            uint256 redistributionAmount = (amount * redistributionPercentage) / 10000;
-            uint256 transferAmount = amount - feeAmount - redistributionAmount;
-            
-            if (feeAmount > 0) {
-                super._transfer(from, feeRecipient, feeAmount);
-            }
-            
-            if (redistributionAmount > 0) {
-                _totalRewards += redistributionAmount;
-            }
-            
-            super._transfer(from, to, transferAmount);
-        } else {
-            super._transfer(from, to, amount);
+        uint256 releasableAmount = _releasableAmount(schedule);
+        if (releasableAmount > 0) {
+            _release(scheduleId, schedule, releasableAmount);
         }
-    }
 
-    function _updateRewards() internal {
-        if (totalSupply() > 0) {
-            uint256 timeDelta = block.timestamp - _lastUpdateTime;
-            if (timeDelta > 0 && _totalRewards > 0) {
-                _rewardsPerToken += (_totalRewards * 1e18) / totalSupply();
-                _totalRewards = 0;
-            }
-        }
-        _lastUpdateTime = block.timestamp;
-    }
+        uint256 unreleased = schedule.totalAmount - schedule.releasedAmount;
+        schedule.revoked = true;
 
-    function claimRewards() external {
-        _updateRewards();
-        
-        uint256 rewards = getUnclaimedRewards(msg.sender);
-        if (rewards > 0) {
-            _lastClaimTime[msg.sender] = block.timestamp;
-            _mint(msg.sender, rewards);
+        if (unreleased > 0) {
+            token.safeTransfer(owner(), unreleased);
         }
-    }
-
-    function getUnclaimedRewards(address account) public view returns (uint256) {
-        if (_excludedFromRewards[account]) return 0;
-        
-        uint256 accountBalance = balanceOf(account);
-        if (accountBalance == 0) return 0;
-        
-        return (accountBalance * _rewardsPerToken) / 1e18;
-    }
 
-    function setTransferFee(uint256 feePercentage) external onlyOwner {
-        require(feePercentage <= 1000, "Fee too high"); // Max 10%
-        transferFeePercentage = feePercentage;
+        emit VestingRevoked(scheduleId, schedule.beneficiary, unreleased);
     }
 
-    function setFeeRecipient(address recipient) external onlyOwner {
-        require(recipient != address(0), "Invalid recipient");
-        feeRecipient = recipient;
-    }
-
-    function setRedistributionPercentage(uint256 percentage) external onlyOwner {
-        require(percentage <= 500, "Percentage too high"); // Max 5%
-        redistributionPercentage = percentage;
-    }
-
-    function excludeFromRewards(address account, bool excluded) external onlyOwner {
-        _excludedFromRewards[account] = excluded;
-    }
-}
-      `;
-    
-    case 'TokenVesting':
-      return `
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
-
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
-
-/**
- * @title TokenVesting
- * @dev Token vesting contract with linear release schedule
- */
-contract TokenVesting is Ownable, ReentrancyGuard {
-    using SafeERC20 for IERC20;
-
-    struct VestingSchedule {
-        uint256 totalAmount;
-        uint256 startTime;
-        uint256 duration;
-        uint256 releasedAmount;
-        bool revoked;
-    }
-
-    IERC20 public immutable token;
-    mapping(address => VestingSchedule) public vestingSchedules;
-    mapping(address => bool) public vestingExists;
-    
-    uint256 public totalVestedAmount;
-    uint256 public totalReleasedAmount;
-
-    event VestingScheduleCreated(
-        address indexed beneficiary,
-        uint256 totalAmount,
-        uint256 startTime,
-        uint256 duration
-    );
-    
-    event TokensReleased(address indexed beneficiary, uint256 amount);
-    event VestingRevoked(address indexed beneficiary, uint256 unreleased);
-
-    constructor(IERC20 token_) {
-        token = token_;
+    function getVestingSchedule(uint256 scheduleId) external view returns (
+        VestingSchedule memory schedule,
+        uint256 vestedAmount,
+        uint256 releasableAmount
+    ) {
+        VestingSchedule storage stored = _getSchedule(scheduleId);
+        return (stored, _vestedAmount(stored), _releasableAmount(stored));
     }
 
-    function createVestingSchedule(
-        address beneficiary,
-        uint256 totalAmount,
-        uint256 startTime,
-        uint256 duration
-    ) external onlyOwner {
-        require(beneficiary != address(0), "Invalid beneficiary");
-        require(totalAmount > 0, "Amount must be > 0");
-        require(duration > 0, "Duration must be > 0");
-        require(!vestingExists[beneficiary], "Vesting already exists");
-
-        vestingSchedules[beneficiary] = VestingSchedule({
-            totalAmount: totalAmount,
-            startTime: startTime,
-            duration: duration,
-            releasedAmount: 0,
-            revoked: false
-        });
-
-        vestingExists[beneficiary] = true;
-        totalVestedAmount += totalAmount;
-
-        token.safeTransferFrom(msg.sender, address(this), totalAmount);
-
-        emit VestingScheduleCreated(beneficiary, totalAmount, startTime, duration);
+    function _getSchedule(uint256 scheduleId) private view returns (VestingSchedule storage) {
+        require(scheduleId < _schedules.length, "No vesting schedule");
+        return _schedules[scheduleId];
     }
 
-    function release() external nonReentrant {
-        address beneficiary = msg.sender;
-        require(vestingExists[beneficiary], "No vesting schedule");
-        
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
-        require(!schedule.revoked, "Vesting revoked");
+    function _release(uint256 scheduleId, VestingSchedule storage schedule, uint256 amount) private {
+        schedule.releasedAmount += amount;
+        totalReleasedAmount += amount;
 
-        uint256 releasableAmount = getReleasableAmount(beneficiary);
-        require(releasableAmount > 0, "No tokens to release");
+        token.safeTransfer(schedule.beneficiary, amount);
 
-        schedule.releasedAmount += releasableAmount;
-        totalReleasedAmount += releasableAmount;
-
-        token.safeTransfer(beneficiary, releasableAmount);
-
-        emit TokensReleased(beneficiary, releasableAmount);
+        emit TokensReleased(scheduleId, schedule.beneficiary, amount);
     }
 
-    function getReleasableAmount(address beneficiary) public view returns (uint256) {
-        if (!vestingExists[beneficiary]) return 0;
-        
-        VestingSchedule memory schedule = vestingSchedules[beneficiary];
+    function _releasableAmount(VestingSchedule storage schedule) private view returns (uint256) {
         if (schedule.revoked) return 0;
 
-        return getVestedAmount(beneficiary) - schedule.releasedAmount;
+        return _vestedAmount(schedule) - schedule.releasedAmount;
     }
 
-    function getVestedAmount(address beneficiary) public view returns (uint256) {
-        if (!vestingExists[beneficiary]) return 0;
-        
-        VestingSchedule memory schedule = vestingSchedules[beneficiary];
+    function _vestedAmount(VestingSchedule storage schedule) private view returns (uint256) {
         if (schedule.revoked) return schedule.releasedAmount;
 
         if (block.timestamp < schedule.startTime) {
             return 0;
         } else if (block.timestamp >= schedule.startTime + schedule.duration) {
             return schedule.totalAmount;
+        } else if (block.timestamp < schedule.startTime + schedule.cliffDuration) {
+            return schedule.tgeAmount;
         } else {
+            // Time is counted from the start, so the slices that passed during the cliff unlock with it
             uint256 timeElapsed = block.timestamp - schedule.startTime;
-            return (schedule.totalAmount * timeElapsed) / schedule.duration;
-        }
-    }
-
-    function revokeVesting(address beneficiary) external onlyOwner {
-        require(vestingExists[beneficiary], "No vesting schedule");
-        
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
-        require(!schedule.revoked, "Already revoked");
-
-        uint256 releasableAmount = getReleasableAmount(beneficiary);
-        if (releasableAmount > 0) {
-            schedule.releasedAmount += releasableAmount;
-            totalReleasedAmount += releasableAmount;
-            token.safeTransfer(beneficiary, releasableAmount);
-        }
-
-        uint256 unreleased = schedule.totalAmount - schedule.releasedAmount;
-        schedule.revoked = true;
-
-        if (unreleased > 0) {
-            token.safeTransfer(owner(), unreleased);
+            uint256 vestedTime = timeElapsed - (timeElapsed % schedule.slicePeriod);
+            return schedule.tgeAmount + ((schedule.totalAmount - schedule.tgeAmount) * vestedTime) / schedule.duration;
         }
-
-        emit VestingRevoked(beneficiary, unreleased);
-    }
-
-    function getVestingSchedule(address beneficiary) external view returns (
-        uint256 totalAmount,
-        uint256 startTime,
-        uint256 duration,
-        uint256 releasedAmount,
-        uint256 vestedAmount,
-        uint256 releasableAmount,
-        bool revoked
-    ) {
-        require(vestingExists[beneficiary], "No vesting schedule");
-        
-        VestingSchedule memory schedule = vestingSchedules[beneficiary];
-        return (
-            schedule.totalAmount,
-            schedule.startTime,
-            schedule.duration,
-            schedule.releasedAmount,
-            getVestedAmount(beneficiary),
-            getReleasableAmount(beneficiary),
-            schedule.revoked
-        );
     }
 }
       `;
@@ -710,21 +269,37 @@ contract TokenVesting is Ownable, ReentrancyGuard {
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 
+interface IAutoLiquidity {
+    function addLiquidity(
+        address presale,
+        address token,
+        address baseToken,
+        uint256 tokenAmount,
+        uint256 baseTokenAmount,
+        address router
+    ) external returns (address);
+}
+
 /**
  * @title PresaleContract
- * @dev A comprehensive presale contract with vesting, whitelist, and refund capabilities
+ * @dev A comprehensive presale contract with vesting, whitelist, and refund capabilities. Sales raise the
+ * network's native currency or an ERC-20 payment token such as USDT; contributions stay in the contract
+ * until the sale is finalized, so they can be refunded in the same currency
  */
 contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     using SafeERC20 for IERC20;
 
     struct SaleInfo {
         IERC20 token;
-        uint256 tokenPrice; // tokens per 1 ETH/BNB/etc
+        IERC20 paymentToken; // address(0) for the native currency
+        uint256 tokenPrice; // token units per 1 whole payment token or ETH/BNB/etc
+        // Caps and purchase limits are in payment token units
         uint256 softCap;
         uint256 hardCap;
         uint256 minPurchase;
@@ -740,6 +315,16 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         uint256 vestingDuration; // in seconds
     }
 
+    // Lists the token against the payment token through AutoLiquidity when the sale is finalized
+    struct AutoListingInfo {
+        bool enabled;
+        address liquidity; // AutoLiquidity contract
+        address router; // address(0) for AutoLiquidity's default router
+        uint256 listingPrice; // token units per 1 whole payment token
+        uint256 liquidityPercentage; // percentage of the raise paired with tokens (0-100)
+        uint256 lockDuration; // in seconds; the LP tokens stay in this contract until then
+    }
+
     struct Participant {
         uint256 contribution;
         uint256 tokenAmount;
@@ -750,6 +335,10 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
 
     SaleInfo public saleInfo;
     VestingInfo public vestingInfo;
+    AutoListingInfo public autoListingInfo;
+    
+    // 10 ** decimals of the payment currency
+    uint256 public immutable paymentUnit;
     
     mapping(address => Participant) public participants;
     mapping(address => bool) public whitelist;
@@ -760,15 +349,25 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     uint256 public totalRaised;
     uint256 public totalParticipants;
     uint256 public totalTokensSold;
+    uint256 public totalTokensClaimed;
     
     bool public saleFinalized;
     bool public refundsEnabled;
+
+    // Anyone can open refunds once the owner has left a sale unfinalized this long after it ended
+    uint256 public constant FINALIZE_GRACE_PERIOD = 7 days;
+    
+    address public lpToken;
+    uint256 public liquidityUnlockTime;
     
     event TokensPurchased(address indexed buyer, uint256 amount, uint256 tokenAmount);
     event TokensClaimed(address indexed buyer, uint256 amount);
     event SaleFinalized(uint256 totalRaised, uint256 totalTokensSold);
     event RefundClaimed(address indexed buyer, uint256 amount);
+    event RefundsEnabled(uint256 totalRaised);
     event WhitelistUpdated(address indexed user, bool status);
+    event AutoListed(address indexed lpToken, uint256 tokenAmount, uint256 paymentAmount, uint256 unlockTime);
+    event LiquidityWithdrawn(address indexed lpToken, uint256 amount);
 
     modifier onlyWhitelisted() {
         if (saleInfo.whitelistEnabled) {
@@ -792,49 +391,89 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     constructor(
         SaleInfo memory _saleInfo,
         VestingInfo memory _vestingInfo,
+        AutoListingInfo memory _autoListingInfo,
         address _saleReceiver,
         address _refundWallet
     ) {
+        // AutoLiquidity pairs two ERC-20 tokens, so only payment token sales can be listed
+        require(
+            !_autoListingInfo.enabled || (address(_saleInfo.paymentToken) != address(0) && _autoListingInfo.liquidity != address(0)),
+            "Auto-listing needs a payment token"
+        );
+        require(_autoListingInfo.liquidityPercentage <= 100, "Invalid liquidity percentage");
+
         saleInfo = _saleInfo;
         vestingInfo = _vestingInfo;
+        autoListingInfo = _autoListingInfo;
         saleReceiver = _saleReceiver;
         refundWallet = _refundWallet;
+        paymentUnit = address(_saleInfo.paymentToken) == address(0)
+            ? 1 ether
+            : 10 ** IERC20Metadata(address(_saleInfo.paymentToken)).decimals();
     }
 
     /**
-     * @dev Purchase tokens during the sale
+     * @dev Purchase tokens with the native currency during the sale
      */
     function buyTokens() external payable nonReentrant whenNotPaused saleActive onlyWhitelisted {
-        require(msg.value >= saleInfo.minPurchase, "Below minimum purchase");
-        require(msg.value <= saleInfo.maxPurchase, "Above maximum purchase");
-        require(totalRaised + msg.value <= saleInfo.hardCap, "Hard cap exceeded");
+        require(address(saleInfo.paymentToken) == address(0), "Pay with the payment token");
+        _purchase(msg.value);
+    }
+
+    /**
+     * @dev Purchase tokens with the payment token; the sale must be approved to spend the amount first
+     */
+    function buyTokensWithPaymentToken(uint256 amount) external nonReentrant whenNotPaused saleActive onlyWhitelisted {
+        require(address(saleInfo.paymentToken) != address(0), "Pay with the native currency");
+
+        // Contributions are only counted if the full amount arrives
+        uint256 balanceBefore = saleInfo.paymentToken.balanceOf(address(this));
+        saleInfo.paymentToken.safeTransferFrom(msg.sender, address(this), amount);
+        require(saleInfo.paymentToken.balanceOf(address(this)) - balanceBefore == amount, "Transfer fees apply to payments");
+
+        _purchase(amount);
+    }
+
+    function _purchase(uint256 amount) private {
+        require(amount >= saleInfo.minPurchase, "Below minimum purchase");
+        require(amount <= saleInfo.maxPurchase, "Above maximum purchase");
+        require(totalRaised + amount <= saleInfo.hardCap, "Hard cap exceeded");
 
         Participant storage participant = participants[msg.sender];
-        require(participant.contribution + msg.value <= saleInfo.maxPurchase, "Max purchase per wallet exceeded");
+        require(participant.contribution + amount <= saleInfo.maxPurchase, "Max purchase per wallet exceeded");
 
-        uint256 tokenAmount = msg.value * saleInfo.tokenPrice;
+        uint256 tokenAmount = (amount * saleInfo.tokenPrice) / paymentUnit;
         
         if (participant.contribution == 0) {
             totalParticipants++;
         }
         
-        participant.contribution += msg.value;
+        participant.contribution += amount;
         participant.tokenAmount += tokenAmount;
         
-        totalRaised += msg.value;
+        totalRaised += amount;
         totalTokensSold += tokenAmount;
 
-        // Transfer funds to sale receiver
-        payable(saleReceiver).transfer(msg.value);
+        emit TokensPurchased(msg.sender, amount, tokenAmount);
+    }
 
-        emit TokensPurchased(msg.sender, msg.value, tokenAmount);
+    function _sendPayment(address to, uint256 amount) private {
+        if (address(saleInfo.paymentToken) == address(0)) {
+            (bool success, ) = payable(to).call{value: amount}("");
+            require(success, "Payment failed");
+        } else {
+            saleInfo.paymentToken.safeTransfer(to, amount);
+        }
     }
 
     /**
-     * @dev Claim purchased tokens (with vesting if enabled)
+     * @dev Claim purchased tokens (with vesting if enabled). Auto-listed sales only release tokens once the
+     * sale is finalized, so no buyer can seed the pair at another price before the listing
      */
     function claimTokens() external nonReentrant saleEnded {
         require(totalRaised >= saleInfo.softCap, "Soft cap not reached");
+        require(!refundsEnabled, "Sale refunded");
+        require(saleFinalized || !autoListingInfo.enabled, "Sale not finalized");
         
         Participant storage participant = participants[msg.sender];
         require(participant.tokenAmount > 0, "No tokens to claim");
@@ -844,6 +483,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
 
         participant.claimedTokens += claimableAmount;
         participant.lastClaimTime = block.timestamp;
+        totalTokensClaimed += claimableAmount;
 
         saleInfo.token.safeTransfer(msg.sender, claimableAmount);
 
@@ -858,6 +498,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         
         if (p.tokenAmount == 0) return 0;
         if (totalRaised < saleInfo.softCap) return 0;
+        if (refundsEnabled || (autoListingInfo.enabled && !saleFinalized)) return 0;
         if (!vestingInfo.enabled) return p.tokenAmount - p.claimedTokens;
 
         uint256 initialAmount = (p.tokenAmount * vestingInfo.initialRelease) / 100;
@@ -878,10 +519,9 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     }
 
     /**
-     * @dev Claim refund if soft cap not reached
+     * @dev Claim refund if soft cap not reached, or if the sale was not finalized in time
      */
     function claimRefund() external nonReentrant saleEnded {
-        require(totalRaised < saleInfo.softCap, "Soft cap reached, no refunds");
         require(refundsEnabled, "Refunds not enabled");
         
         Participant storage participant = participants[msg.sender];
@@ -891,26 +531,96 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         participant.contribution = 0;
         participant.tokenAmount = 0;
 
-        payable(msg.sender).transfer(refundAmount);
+        _sendPayment(msg.sender, refundAmount);
 
         emit RefundClaimed(msg.sender, refundAmount);
     }
 
     /**
-     * @dev Finalize the sale (owner only)
+     * @dev Open refunds when the owner has not finalized the sale within FINALIZE_GRACE_PERIOD after it
+     * ended, e.g. because listing failed; anyone can call it. Buyers of sales that reached their soft cap
+     * without auto-listing can claim their tokens without finalization instead
      */
-    function finalizeSale() external onlyOwner {
+    function enableRefunds() external {
+        require(!saleFinalized, "Already finalized");
+        require(block.timestamp > saleInfo.endTime + FINALIZE_GRACE_PERIOD, "Owner can still finalize");
+        require(totalRaised < saleInfo.softCap || autoListingInfo.enabled, "Tokens are claimable");
+
+        saleFinalized = true;
+        refundsEnabled = true;
+
+        emit RefundsEnabled(totalRaised);
+    }
+
+    /**
+     * @dev Finalize the sale (owner only). A successful sale pays the raise to the sale receiver, less the
+     * part listed with tokens from this contract's balance when auto-listing is enabled
+     */
+    function finalizeSale() external onlyOwner nonReentrant {
         require(!saleFinalized, "Already finalized");
         
         saleFinalized = true;
         
         if (totalRaised < saleInfo.softCap) {
             refundsEnabled = true;
+        } else {
+            uint256 listingAmount = autoListingInfo.enabled
+                ? (totalRaised * autoListingInfo.liquidityPercentage) / 100
+                : 0;
+            uint256 listedAmount = listingAmount > 0 ? _autoList(listingAmount) : 0;
+            _sendPayment(saleReceiver, totalRaised - listedAmount);
         }
 
         emit SaleFinalized(totalRaised, totalTokensSold);
     }
 
+    // Returns the payment tokens AutoLiquidity kept, including its fee; the pool's leftovers come back to this contract
+    function _autoList(uint256 paymentAmount) private returns (uint256) {
+        uint256 tokenAmount = (paymentAmount * autoListingInfo.listingPrice) / paymentUnit;
+        uint256 claimsOutstanding = totalTokensSold - totalTokensClaimed;
+        uint256 paymentBalance = saleInfo.paymentToken.balanceOf(address(this));
+        require(
+            saleInfo.token.balanceOf(address(this)) >= claimsOutstanding + tokenAmount,
+            "Not enough tokens for listing"
+        );
+
+        saleInfo.token.safeApprove(autoListingInfo.liquidity, tokenAmount);
+        saleInfo.paymentToken.safeApprove(autoListingInfo.liquidity, paymentAmount);
+
+        lpToken = IAutoLiquidity(autoListingInfo.liquidity).addLiquidity(
+            address(this),
+            address(saleInfo.token),
+            address(saleInfo.paymentToken),
+            tokenAmount,
+            paymentAmount,
+            autoListingInfo.router
+        );
+        liquidityUnlockTime = block.timestamp + autoListingInfo.lockDuration;
+
+        // Tokens the pool did not take go back to the owner with the rest of the unsold supply
+        uint256 unusedTokens = saleInfo.token.balanceOf(address(this));
+        if (unusedTokens > claimsOutstanding) {
+            saleInfo.token.safeTransfer(owner(), unusedTokens - claimsOutstanding);
+        }
+
+        uint256 listedAmount = paymentBalance - saleInfo.paymentToken.balanceOf(address(this));
+        emit AutoListed(lpToken, tokenAmount, listedAmount, liquidityUnlockTime);
+        return listedAmount;
+    }
+
+    /**
+     * @dev Withdraw the listed LP tokens once their lock has ended (owner only)
+     */
+    function withdrawLiquidity() external onlyOwner nonReentrant {
+        require(lpToken != address(0), "Not listed");
+        require(block.timestamp >= liquidityUnlockTime, "Liquidity is locked");
+
+        uint256 amount = IERC20(lpToken).balanceOf(address(this));
+        IERC20(lpToken).safeTransfer(owner(), amount);
+
+        emit LiquidityWithdrawn(lpToken, amount);
+    }
+
     /**
      * @dev Update whitelist status for multiple addresses
      */
@@ -925,9 +635,21 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     }
 
     /**
-     * @dev Emergency withdraw tokens (owner only)
+     * @dev Emergency withdraw tokens (owner only). Contributions cannot be withdrawn before a successful
+     * finalization, sold tokens not before they are claimed unless the sale is refunded, and listed
+     * liquidity not before its lock ends
      */
     function emergencyWithdraw(IERC20 token, uint256 amount) external onlyOwner {
+        require(
+            address(token) != address(saleInfo.paymentToken) || (saleFinalized && !refundsEnabled),
+            "Contributions are held for the sale"
+        );
+        require(
+            address(token) != address(saleInfo.token) || refundsEnabled ||
+                token.balanceOf(address(this)) >= totalTokensSold - totalTokensClaimed + amount,
+            "Tokens are held for claims"
+        );
+        require(address(token) != lpToken || block.timestamp >= liquidityUnlockTime, "Liquidity is locked");
         token.safeTransfer(owner(), amount);
     }
 
@@ -988,13 +710,250 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
 }
       `;
     
+    // Same source as contracts/bridge/RelayerBridgeAdapter.sol, which the local Hardhat bridge setup compiles
+    case 'RelayerBridgeAdapter':
+      return `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title IBridgeAdapter
+ * @dev Moves one token between chains. Bridgeable tokens accept mints and burns from a single adapter,
+ * so the messaging layer behind it (a signing relayer, LayerZero, ...) is swapped by deploying another
+ * adapter with this interface and pointing the token at it
+ */
+interface IBridgeAdapter {
+    event TokensSent(uint256 indexed nonce, uint256 indexed dstChainId, address indexed from, address to, uint256 amount);
+    event TokensReceived(uint256 indexed srcChainId, uint256 indexed nonce, address indexed to, uint256 amount);
+
+    function token() external view returns (address);
+
+    // Native fee the messaging layer charges for delivering a transfer to \`dstChainId\`
+    function quoteSend(uint256 dstChainId, uint256 amount) external view returns (uint256);
+
+    function sendTokens(uint256 dstChainId, address to, uint256 amount) external payable returns (uint256);
+}
+
+// Implemented by tokens generated with the bridgeable feature
+interface IBridgeableToken {
+    function bridgeMint(address to, uint256 amount) external;
+    function bridgeBurn(address from, uint256 amount) external;
+}
+
+/**
+ * @title RelayerBridgeAdapter
+ * @dev Bridge adapter whose transfers are delivered by a trusted relayer. On chains with a bridgeable
+ * token it burns on send and mints on receipt; for a token without a bridge role (usually on its home
+ * chain) it locks sent tokens and releases them when they come back
+ */
+contract RelayerBridgeAdapter is IBridgeAdapter, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    address public immutable override token;
+    bool public immutable lockRelease;
+
+    address public relayer;
+    uint256 public relayerFee; // Paid by the sender and forwarded to the relayer for destination gas
+    uint256 public nonce;
+
+    mapping(uint256 => address) public peers; // Chain ID => adapter for the same token on that chain
+    mapping(uint256 => mapping(uint256 => bool)) public received; // Source chain ID => nonce => delivered
+
+    event RelayerUpdated(address indexed relayer, uint256 fee);
+    event PeerUpdated(uint256 indexed chainId, address peer);
+
+    constructor(address token_, bool lockRelease_, address relayer_, address owner_) {
+        require(token_ != address(0), "Invalid token");
+        require(relayer_ != address(0), "Invalid relayer");
+        token = token_;
+        lockRelease = lockRelease_;
+        relayer = relayer_;
+        _transferOwnership(owner_);
+    }
+
+    function setRelayer(address relayer_, uint256 fee) external onlyOwner {
+        require(relayer_ != address(0), "Invalid relayer");
+        relayer = relayer_;
+        relayerFee = fee;
+        emit RelayerUpdated(relayer_, fee);
+    }
+
+    function setPeer(uint256 chainId, address peer) external onlyOwner {
+        require(chainId != block.chainid, "Cannot peer with own chain");
+        peers[chainId] = peer;
+        emit PeerUpdated(chainId, peer);
+    }
+
+    function quoteSend(uint256, uint256) external view override returns (uint256) {
+        return relayerFee;
+    }
+
+    function sendTokens(uint256 dstChainId, address to, uint256 amount) external payable override nonReentrant returns (uint256) {
+        require(peers[dstChainId] != address(0), "Unsupported destination chain");
+        require(to != address(0), "Invalid recipient");
+        require(amount > 0, "Amount must be greater than 0");
+        require(msg.value == relayerFee, "Incorrect relayer fee");
+
+        if (lockRelease) {
+            // Fee-on-transfer tokens deliver less than \`amount\`; only what arrived is bridged
+            uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+            IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+            amount = IERC20(token).balanceOf(address(this)) - balanceBefore;
+        } else {
+            IBridgeableToken(token).bridgeBurn(msg.sender, amount);
+        }
+
+        if (msg.value > 0) {
+            (bool sent, ) = payable(relayer).call{value: msg.value}("");
+            require(sent, "Relayer fee transfer failed");
+        }
+
+        nonce++;
+        emit TokensSent(nonce, dstChainId, msg.sender, to, amount);
+        return nonce;
+    }
+
+    // Signed by the relayer; it names both chains and both adapters, so a signature is only valid here
+    function getTransferHash(uint256 srcChainId, uint256 transferNonce, address to, uint256 amount) public view returns (bytes32) {
+        return keccak256(abi.encode(srcChainId, peers[srcChainId], block.chainid, address(this), transferNonce, to, amount));
+    }
+
+    function receiveTokens(
+        uint256 srcChainId,
+        uint256 transferNonce,
+        address to,
+        uint256 amount,
+        bytes calldata signature
+    ) external nonReentrant {
+        require(peers[srcChainId] != address(0), "Unsupported source chain");
+        require(!received[srcChainId][transferNonce], "Transfer already received");
+
+        bytes32 digest = ECDSA.toEthSignedMessageHash(getTransferHash(srcChainId, transferNonce, to, amount));
+        require(ECDSA.recover(digest, signature) == relayer, "Invalid relayer signature");
+        received[srcChainId][transferNonce] = true;
+
+        if (lockRelease) {
+            IERC20(token).safeTransfer(to, amount);
+        } else {
+            IBridgeableToken(token).bridgeMint(to, amount);
+        }
+
+        emit TokensReceived(srcChainId, transferNonce, to, amount);
+    }
+}
+      `;
+    
     default:
       throw new Error(`Contract type ${contractType} not found`);
   }
 }
 
-// Get compiled contract (bytecode and ABI)
-export async function getCompiledContract(contractType: string) {
+export interface CompiledContract {
+  bytecode: string;
+  abi: any;
+  contractName: string; // fully qualified, e.g. "contract.sol:BasicToken"
+  compilerVersion: string;
+  standardJsonInput: SolcStandardInput;
+  storageLayout: StorageLayout; // Checked before upgrading a proxy to this contract
+  sourceHash: string; // Hash of the standard-JSON input, i.e. the sources and compiler settings
+  artifactHash?: string; // Key in the server's artifact store when compiled there
+}
+
+// Entry of the precompiled bundle in contractBytecode.ts, generated by scripts/build-contract-bundle.js
+export type PrecompiledContract = Pick<CompiledContract, 'sourceHash' | 'compilerVersion' | 'abi' | 'bytecode' | 'storageLayout'>;
+
+export interface SolcStandardInput {
+  language: 'Solidity';
+  sources: Record<string, { content: string }>;
+  settings: {
+    outputSelection: Record<string, Record<string, string[]>>;
+    optimizer: { enabled: boolean; runs: number };
+  };
+}
+
+// Resolves an import path (e.g. "@openzeppelin/contracts/token/ERC20/ERC20.sol") to its source
+export type ImportLoader = (path: string) => Promise<string>;
+
+const ENTRY_SOURCE_NAME = 'contract.sol';
+
+// Walk the import graph of the entry source so the standard-JSON input is self-contained
+export async function collectSources(entrySource: string, loadImport: ImportLoader): Promise<Record<string, { content: string }>> {
+  const sources: Record<string, { content: string }> = {};
+  const queue: Array<{ name: string; content: string }> = [{ name: ENTRY_SOURCE_NAME, content: entrySource }];
+
+  while (queue.length > 0) {
+    const { name, content } = queue.shift()!;
+    if (sources[name]) continue;
+    sources[name] = { content };
+
+    const importPattern = /^\s*import\s+(?:[^'"]*from\s+)?["']([^"']+)["']\s*;/gm;
+    let match;
+    while ((match = importPattern.exec(content)) !== null) {
+      const importPath = resolveImportPath(name, match[1]);
+      if (!sources[importPath]) {
+        queue.push({ name: importPath, content: await loadImport(importPath) });
+      }
+    }
+  }
+
+  return sources;
+}
+
+function resolveImportPath(fromSource: string, importPath: string): string {
+  if (!importPath.startsWith('.')) {
+    return importPath;
+  }
+
+  const segments = fromSource.split('/').slice(0, -1);
+  for (const segment of importPath.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+export const getSourceHash = (input: SolcStandardInput) => ethers.sha256(ethers.toUtf8Bytes(JSON.stringify(input)));
+
+// Compiles in the browser with solc.js, which is only downloaded when this runs
+async function compileWithSolc(input: SolcStandardInput, contractType: string, sourceHash: string): Promise<CompiledContract> {
+  // Default export of the CommonJS module, which is how Vite, Node and Jest all expose it
+  const { default: solc } = await import('solc');
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  
+  // Check for errors
+  if (output.errors) {
+    const errors = output.errors.filter((error: any) => error.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(`Compilation errors: ${errors.map((e: any) => e.message).join(', ')}`);
+    }
+  }
+  
+  const contract = output.contracts[ENTRY_SOURCE_NAME][contractType];
+  return {
+    bytecode: contract.evm.bytecode.object,
+    abi: contract.abi,
+    contractName: `${ENTRY_SOURCE_NAME}:${contractType}`,
+    // Explorers expect e.g. "v0.8.30+commit.73712a01" without the build platform suffix
+    compilerVersion: `v${solc.version().replace(/\.Emscripten\.clang$/, '')}`,
+    standardJsonInput: input,
+    storageLayout: contract.storageLayout,
+    sourceHash
+  };
+}
+
+// Get compiled contract (bytecode, ABI and the exact standard-JSON input used to build it). Looks in
+// the precompiled bundle first, then asks the server's artifact store and only compiles in the browser
+// when neither has it. Callers with their own import loader (tests, scripts) compile locally.
+export async function getCompiledContract(contractType: string, loadImport?: ImportLoader): Promise<CompiledContract> {
   // Check cache first
   if (contractCache[contractType]) {
     return contractCache[contractType];
@@ -1003,21 +962,15 @@ export async function getCompiledContract(contractType: string) {
   try {
     // Get contract source
     const source = getContractSource(contractType);
+    const loader = loadImport || (await import('./solidityImports')).loadSolidityImport;
     
-    // Use solc.js to compile the contract
-    const solc = await import('solc');
-    
-    const input = {
+    const input: SolcStandardInput = {
       language: 'Solidity',
-      sources: {
-        'contract.sol': {
-          content: source
-        }
-      },
+      sources: await collectSources(source, loader),
       settings: {
         outputSelection: {
           '*': {
-            '*': ['abi', 'evm.bytecode']
+            '*': ['abi', 'evm.bytecode', 'metadata', 'storageLayout']
           }
         },
         optimizer: {
@@ -1026,22 +979,39 @@ export async function getCompiledContract(contractType: string) {
         }
       }
     };
+    const contractName = `${ENTRY_SOURCE_NAME}:${contractType}`;
+    const sourceHash = getSourceHash(input);
     
-    const output = JSON.parse(solc.compile(JSON.stringify(input)));
+    // The bundle is only used while it was built from exactly these sources and settings
+    const precompiled = contractBytecode[contractType];
+    let result: CompiledContract | null = precompiled?.sourceHash === sourceHash
+      ? { ...precompiled, contractName, standardJsonInput: input }
+      : null;
     
-    // Check for errors
-    if (output.errors) {
-      const errors = output.errors.filter((error: any) => error.severity === 'error');
-      if (errors.length > 0) {
-        throw new Error(`Compilation errors: ${errors.map((e: any) => e.message).join(', ')}`);
+    if (!result && !loadImport) {
+      try {
+        const { compileWithArtifactStore } = await import('./artifactStore');
+        const artifact = await compileWithArtifactStore(contractType);
+        // Only used when the server compiled exactly the input built here, e.g. not while app and API
+        // are on different versions
+        result = artifact.sourceHash !== sourceHash ? null : {
+          bytecode: artifact.bytecode,
+          abi: artifact.abi,
+          contractName,
+          compilerVersion: artifact.compilerVersion,
+          standardJsonInput: input,
+          storageLayout: artifact.storageLayout,
+          sourceHash,
+          artifactHash: artifact.hash
+        };
+      } catch (error) {
+        console.warn(`Artifact store unavailable for ${contractType}, compiling in the browser:`, error);
       }
     }
     
-    const contract = output.contracts['contract.sol'][contractType];
-    const result = {
-      bytecode: contract.evm.bytecode.object,
-      abi: contract.abi
-    };
+    if (!result) {
+      result = await compileWithSolc(input, contractType, sourceHash);
+    }
     
     // Cache the result
     contractCache[contractType] = result;
@@ -1051,4 +1021,4 @@ export async function getCompiledContract(contractType: string) {
     console.error(`Error compiling contract ${contractType}:`, error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+// Explorer verification (Etherscan, BscScan, PolygonScan, Arbiscan, Basescan and Blockscout instances) runs on
+// the server with its own API keys and the artifact it compiled for the token; the app starts it and follows its
+// status through /api/contracts/:address/verification
+
+export type VerificationStatus = 'unverified' | 'pending' | 'verified' | 'failed';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  guid: string | null;
+  message: string;
+  checkedAt: string;
+}
@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import { FeeTier, FeeTierEstimate } from '../types';
+
+// EIP-1559 gas price tiers from recent blocks. The next block's base fee comes from eth_feeHistory and
+// each tier's priority fee is the median over recent blocks of a reward percentile. Transactions pay
+// the base fee plus the tip; maxFeePerGas leaves room for the base fee to double before inclusion.
+
+export const FEE_TIERS: FeeTier[] = ['slow', 'normal', 'fast'];
+
+const FEE_HISTORY_BLOCKS = 20;
+const REWARD_PERCENTILES = [10, 50, 90];
+
+// Rough number of blocks a transaction waits at each tier
+const TIER_BLOCKS: Record<FeeTier, number> = {
+  slow: 6,
+  normal: 3,
+  fast: 1
+};
+
+export interface FeeTierPrice {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  expectedGasPrice: bigint;
+}
+
+export interface NetworkFees {
+  eip1559: boolean;
+  baseFeePerGas: bigint;
+  blockTime: number | null; // Average seconds per block over the sampled blocks
+  tiers: Record<FeeTier, FeeTierPrice>;
+}
+
+// eth_feeHistory result; quantities are hex strings
+interface FeeHistory {
+  oldestBlock: string;
+  baseFeePerGas?: string[];
+  gasUsedRatio?: number[];
+  reward?: string[][];
+}
+
+// Browser and JSON-RPC providers both qualify
+type RpcProvider = Pick<ethers.JsonRpcApiProvider, 'send'>;
+
+const median = (values: bigint[]) => {
+  if (values.length === 0) return BigInt(0);
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+async function getAverageBlockTime(provider: RpcProvider, oldestBlock: string, latestBlock: number): Promise<number | null> {
+  try {
+    const [oldest, latest] = await Promise.all([
+      provider.send('eth_getBlockByNumber', [oldestBlock, false]),
+      provider.send('eth_getBlockByNumber', [ethers.toQuantity(latestBlock), false])
+    ]);
+    const blocks = latestBlock - Number(oldestBlock);
+    if (!oldest || !latest || blocks <= 0) return null;
+    return (Number(latest.timestamp) - Number(oldest.timestamp)) / blocks;
+  } catch {
+    return null;
+  }
+}
+
+export async function getNetworkFees(provider: RpcProvider): Promise<NetworkFees> {
+  let history: FeeHistory | null = null;
+  try {
+    history = await provider.send('eth_feeHistory', [ethers.toQuantity(FEE_HISTORY_BLOCKS), 'latest', REWARD_PERCENTILES]);
+  } catch (error) {
+    console.warn('eth_feeHistory is not supported, using the legacy gas price:', error);
+  }
+
+  const baseFees = (history?.baseFeePerGas || []).map(fee => BigInt(fee));
+  const rewards = history?.reward || [];
+
+  // Chains without EIP-1559 report no or zero base fees
+  if (baseFees.length === 0 || baseFees.every(fee => fee === BigInt(0))) {
+    const gasPrice = BigInt(await provider.send('eth_gasPrice', []));
+    const price = { maxFeePerGas: gasPrice, maxPriorityFeePerGas: BigInt(0), expectedGasPrice: gasPrice };
+    return {
+      eip1559: false,
+      baseFeePerGas: BigInt(0),
+      blockTime: null,
+      tiers: { slow: price, normal: price, fast: price }
+    };
+  }
+
+  // The last entry is the base fee of the block after the newest one
+  const baseFeePerGas = baseFees[baseFees.length - 1];
+  const { oldestBlock, gasUsedRatio } = history!;
+  const blockTime = await getAverageBlockTime(provider, oldestBlock, Number(oldestBlock) + baseFees.length - 2);
+
+  // Empty blocks report zero rewards
+  const usedBlocks = rewards.filter((_, index) => (gasUsedRatio?.[index] ?? 1) > 0);
+
+  const tiers = {} as Record<FeeTier, FeeTierPrice>;
+  let previousTip = BigInt(0);
+  FEE_TIERS.forEach((tier, index) => {
+    const tip = median(usedBlocks.map(reward => BigInt(reward[index] ?? 0)));
+    // Faster tiers never tip less than slower ones
+    const maxPriorityFeePerGas = tip > previousTip ? tip : previousTip;
+    previousTip = maxPriorityFeePerGas;
+
+    tiers[tier] = {
+      maxFeePerGas: baseFeePerGas * BigInt(2) + maxPriorityFeePerGas,
+      maxPriorityFeePerGas,
+      expectedGasPrice: baseFeePerGas + maxPriorityFeePerGas
+    };
+  });
+
+  return { eip1559: true, baseFeePerGas, blockTime, tiers };
+}
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `~${Math.max(1, Math.round(seconds))} seconds`;
+  const minutes = Math.round(seconds / 60);
+  return `~${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Cost of `gasEstimate` gas at each tier; `defaultTime` is used when the block time is unknown
+export function getFeeTierEstimates(
+  gasEstimate: bigint,
+  fees: NetworkFees,
+  usdPrice: number | null,
+  defaultTime: string
+): FeeTierEstimate[] {
+  return FEE_TIERS.map(tier => {
+    const price = fees.tiers[tier];
+    const gasCost = ethers.formatEther(gasEstimate * price.expectedGasPrice);
+
+    return {
+      tier,
+      maxFeePerGas: ethers.formatUnits(price.maxFeePerGas, 'gwei'),
+      maxPriorityFeePerGas: ethers.formatUnits(price.maxPriorityFeePerGas, 'gwei'),
+      gasCost,
+      gasCostUsd: usdPrice === null ? null : parseFloat(gasCost) * usdPrice,
+      timeEstimate: fees.blockTime ? formatWait(fees.blockTime * TIER_BLOCKS[tier]) : defaultTime
+    };
+  });
+}
@@ -63,8 +63,8 @@ class MetadataService {
     }
   }
 
-  // Link temporary metadata to a deployed token
-  async linkTemporaryMetadata(tokenAddress: string): Promise<boolean> {
+  // Link temporary metadata to a deployed token; the chain picks the deployment whose owner is checked
+  async linkTemporaryMetadata(tokenAddress: string, chainId: number): Promise<boolean> {
     try {
       const sessionId = this.sessionId;
       if (!sessionId) {
@@ -76,6 +76,7 @@ class MetadataService {
         headers: this.getAuthHeaders(),
         body: JSON.stringify({
           tokenAddress,
+          chainId,
           sessionId
         }),
       });
@@ -119,9 +120,9 @@ class MetadataService {
   }
 
   // Get metadata history for a token
-  async getMetadataHistory(tokenAddress: string): Promise<any[]> {
+  async getMetadataHistory(tokenAddress: string, chainId: number): Promise<any[]> {
     try {
-      const response = await fetch(`${this.apiUrl}/api/token-metadata/${tokenAddress}/history`, {
+      const response = await fetch(`${this.apiUrl}/api/token-metadata/${tokenAddress}/history?chainId=${chainId}`, {
         headers: this.getAuthHeaders(),
       });
 
@@ -200,12 +201,13 @@ class MetadataService {
     }
   }
 
-  async uploadLogo(tokenAddress: string, file: File): Promise<string> {
+  async uploadLogo(tokenAddress: string, chainId: number, file: File): Promise<string> {
     try {
       // Create a FormData object to send the file
       const formData = new FormData();
       formData.append('logo', file);
       formData.append('tokenAddress', tokenAddress);
+      formData.append('chainId', String(chainId));
 
       // Get auth token
       const token = localStorage.getItem('authToken');
@@ -0,0 +1,76 @@
+import { ethers } from 'ethers';
+import { Network } from '../types';
+import { PaymentToken, PresaleConfig } from '../types/presale';
+import { AppError, ErrorType } from './errorHandler';
+
+// Presales raise the network's native currency or an ERC-20 payment token such as USDT. Buyers of a
+// payment token sale approve the sale contract, which pulls the amount; caps, purchase limits and
+// refunds are all in the payment token's own decimals
+
+const PAYMENT_TOKEN_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+export type PresalePurchaseStep = 'approving' | 'buying';
+
+export const getPaymentSymbol = (config: PresaleConfig) =>
+  config.saleConfiguration.paymentToken?.symbol || config.network.symbol;
+
+// Tokens the sale contract pairs with its share of the raise when it auto-lists at the hard cap.
+// They are held on top of the tokens sold, so the contract needs both before it is finalized
+export function getListingTokenAmount(config: PresaleConfig): number {
+  const listing = config.autoListingConfig;
+  if (!listing?.enabled) return 0;
+  const hardCap = parseFloat(config.saleConfiguration.hardCap) || 0;
+  return hardCap * (listing.lpBaseTokenPercentage / 100) * (parseFloat(listing.listingPrice) || 0);
+}
+
+export async function getPaymentToken(address: string, network: Network): Promise<PaymentToken> {
+  if (!ethers.isAddress(address)) {
+    throw new AppError('Invalid token address', ErrorType.VALIDATION);
+  }
+
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+  const token = new ethers.Contract(address, PAYMENT_TOKEN_ABI, provider);
+  try {
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+    return { address: ethers.getAddress(address), symbol, decimals: Number(decimals) };
+  } catch (error) {
+    throw new AppError(`No ERC-20 token found at this address on ${network.name}`, ErrorType.VALIDATION, error);
+  }
+}
+
+// Allowances to set before a purchase. Tokens like USDT reject changing one non-zero allowance to
+// another, so a leftover allowance is reset to zero first
+export function getApprovalAmounts(allowance: bigint, amount: bigint): bigint[] {
+  if (allowance >= amount) return [];
+  return allowance > BigInt(0) ? [BigInt(0), amount] : [amount];
+}
+
+// Lets the sale contract pull `amount` of the payment token from the signer
+export async function approvePayment(
+  paymentToken: string,
+  saleAddress: string,
+  amount: bigint,
+  signer: ethers.Signer
+): Promise<void> {
+  const token = new ethers.Contract(paymentToken, PAYMENT_TOKEN_ABI, signer);
+  const account = await signer.getAddress();
+  const [balance, allowance, symbol] = await Promise.all([
+    token.balanceOf(account),
+    token.allowance(account, saleAddress),
+    token.symbol()
+  ]);
+
+  if (balance < amount) {
+    throw new AppError(`Insufficient ${symbol} balance`, ErrorType.VALIDATION);
+  }
+
+  for (const approval of getApprovalAmounts(allowance, amount)) {
+    await (await token.approve(saleAddress, approval)).wait();
+  }
+}
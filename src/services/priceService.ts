@@ -0,0 +1,123 @@
+// USD prices of native gas tokens for showing deployment costs in fiat. The source is pluggable:
+// CoinGecko by default, a static table when VITE_PRICE_SOURCE=static or when the API is unavailable,
+// or any other PriceSource set through priceService.setSource.
+
+export interface PriceSource {
+  name: string;
+  // USD price of one token, or null when the source does not know the symbol
+  getUsdPrice(symbol: string): Promise<number | null>;
+}
+
+// Rough prices for offline use and as a last resort
+const STATIC_PRICES: Record<string, number> = {
+  'ETH': 3500,
+  'BNB': 550,
+  'MATIC': 1.20,
+  'POL': 1.20,
+  'FTM': 0.65,
+  'AVAX': 35,
+  'CRO': 0.15,
+  'CORE': 0.80,
+  'DOGE': 0.12,
+  'PLS': 0.0005,
+  'ZETA': 1.50,
+  'UNI': 5.00,
+  'BROCK': 0.10,
+  'ALV': 0.05,
+  'GPU': 0.20,
+  'ESR': 0.50
+};
+
+export class StaticPriceSource implements PriceSource {
+  name = 'static';
+
+  constructor(private prices: Record<string, number> = STATIC_PRICES) {}
+
+  async getUsdPrice(symbol: string): Promise<number | null> {
+    return this.prices[symbol.toUpperCase()] ?? null;
+  }
+}
+
+// CoinGecko IDs of the native tokens of supported networks
+const COINGECKO_IDS: Record<string, string> = {
+  'ETH': 'ethereum',
+  'BNB': 'binancecoin',
+  'MATIC': 'matic-network',
+  'POL': 'polygon-ecosystem-token',
+  'FTM': 'fantom',
+  'AVAX': 'avalanche-2',
+  'CRO': 'crypto-com-chain',
+  'CORE': 'coredaoorg',
+  'DOGE': 'dogecoin',
+  'PLS': 'pulsechain',
+  'ZETA': 'zetachain',
+  'ESR': 'estar'
+};
+
+export class CoinGeckoPriceSource implements PriceSource {
+  name = 'coingecko';
+
+  constructor(
+    private apiUrl = 'https://api.coingecko.com/api/v3',
+    private fetchFn: typeof fetch = (...args) => fetch(...args)
+  ) {}
+
+  async getUsdPrice(symbol: string): Promise<number | null> {
+    const id = COINGECKO_IDS[symbol.toUpperCase()];
+    if (!id) return null;
+
+    const response = await this.fetchFn(`${this.apiUrl}/simple/price?ids=${id}&vs_currencies=usd`);
+    if (!response.ok) {
+      throw new Error(`CoinGecko request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return typeof data[id]?.usd === 'number' ? data[id].usd : null;
+  }
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export class PriceService {
+  private cache: Record<string, { price: number | null; fetchedAt: number }> = {};
+  private fallback = new StaticPriceSource();
+
+  constructor(private source: PriceSource) {}
+
+  setSource(source: PriceSource) {
+    this.source = source;
+    this.cache = {};
+  }
+
+  // Falls back to the static table when the source fails or does not know the token
+  async getUsdPrice(symbol: string): Promise<number | null> {
+    const cached = this.cache[symbol];
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.price;
+    }
+
+    let price: number | null = null;
+    try {
+      price = await this.source.getUsdPrice(symbol);
+    } catch (error) {
+      console.warn(`Price source ${this.source.name} failed for ${symbol}:`, error);
+    }
+    if (price === null && this.source !== this.fallback) {
+      price = await this.fallback.getUsdPrice(symbol);
+    }
+
+    this.cache[symbol] = { price, fetchedAt: Date.now() };
+    return price;
+  }
+
+  async toUsd(amount: string | number, symbol: string): Promise<number | null> {
+    const price = await this.getUsdPrice(symbol);
+    return price === null ? null : Number(amount) * price;
+  }
+}
+
+export const formatUsd = (value: number | null) => value === null ? 'n/a' : `$${value.toFixed(2)}`;
+
+export const priceService = new PriceService(
+  import.meta.env.VITE_PRICE_SOURCE === 'static' ? new StaticPriceSource() : new CoinGeckoPriceSource()
+);
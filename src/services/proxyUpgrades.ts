@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+
+// Helpers for upgradeable tokens deployed behind an ERC-1967 proxy: the proxy keeps
+// its storage when it is pointed at a new implementation, so the new contract has to
+// lay out the existing state variables exactly as the current one does
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+export const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+// solc `storageLayout` output
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: Record<string, StorageType> | null;
+}
+
+export interface StorageVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string; // Key into StorageLayout.types
+  contract: string;
+}
+
+export interface StorageType {
+  label: string; // e.g. "mapping(address => uint256)"
+  numberOfBytes: string;
+  encoding: string;
+}
+
+export interface StorageLayoutIssue {
+  variable: string;
+  message: string;
+}
+
+// Returns the implementation behind an ERC-1967 proxy, or null for contracts that are not proxies
+export async function getImplementationAddress(address: string, provider: ethers.Provider): Promise<string | null> {
+  const value = await provider.getStorage(address, IMPLEMENTATION_SLOT);
+  const implementation = ethers.getAddress(ethers.dataSlice(value, 12));
+  return implementation === ethers.ZeroAddress ? null : implementation;
+}
+
+const describeType = (layout: StorageLayout, variable: StorageVariable) => layout.types?.[variable.type]?.label || variable.type;
+const sizeOf = (layout: StorageLayout, variable: StorageVariable) => layout.types?.[variable.type]?.numberOfBytes;
+
+// Every variable of the current implementation must keep its slot, offset, name and type.
+// New variables are only safe in space the current layout leaves unused, i.e. appended at the end
+export function compareStorageLayouts(current: StorageLayout, next: StorageLayout): StorageLayoutIssue[] {
+  const issues: StorageLayoutIssue[] = [];
+
+  for (const variable of current.storage) {
+    const replacement = next.storage.find(candidate => candidate.slot === variable.slot && candidate.offset === variable.offset);
+
+    if (!replacement) {
+      const moved = next.storage.find(candidate => candidate.label === variable.label);
+      issues.push({
+        variable: variable.label,
+        message: moved
+          ? `Moved from slot ${variable.slot} to slot ${moved.slot}`
+          : `Removed from slot ${variable.slot}`
+      });
+    } else if (replacement.label !== variable.label) {
+      issues.push({
+        variable: variable.label,
+        message: `Slot ${variable.slot} is now used by ${replacement.label}`
+      });
+    } else if (describeType(current, variable) !== describeType(next, replacement) || sizeOf(current, variable) !== sizeOf(next, replacement)) {
+      issues.push({
+        variable: variable.label,
+        message: `Type changed from ${describeType(current, variable)} to ${describeType(next, replacement)}`
+      });
+    }
+  }
+
+  return issues;
+}
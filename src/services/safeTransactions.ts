@@ -0,0 +1,94 @@
+import { ethers } from 'ethers';
+
+// Helpers for tokens owned by a Safe multisig: owner actions cannot be sent from
+// a connected wallet, so they are collected and exported in the format the Safe
+// Transaction Builder app imports
+
+export interface SafeInfo {
+  address: string;
+  threshold: number;
+  owners: string[];
+}
+
+export interface SafeTransaction {
+  to: string;
+  value: string; // wei
+  data: string;
+  description: string;
+}
+
+export interface SafeTransactionBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: Array<{
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+  }>;
+}
+
+const SAFE_ABI = [
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)'
+];
+
+// Returns null for EOAs and for contracts that do not expose the Safe owner interface
+export async function getSafeInfo(address: string, provider: ethers.Provider): Promise<SafeInfo | null> {
+  const code = await provider.getCode(address);
+  if (code === '0x') return null;
+
+  try {
+    const safe = new ethers.Contract(address, SAFE_ABI, provider);
+    const [owners, threshold] = await Promise.all([safe.getOwners(), safe.getThreshold()]);
+    return {
+      address: ethers.getAddress(address),
+      threshold: Number(threshold),
+      owners: owners.map((owner: string) => ethers.getAddress(owner))
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function isSafeOwner(safe: SafeInfo, account: string): boolean {
+  return safe.owners.some(owner => owner.toLowerCase() === account.toLowerCase());
+}
+
+export function buildSafeTransactionBatch(
+  chainId: number,
+  safeAddress: string,
+  transactions: SafeTransaction[],
+  name: string,
+  proposer: string = ''
+): SafeTransactionBatch {
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description: transactions.map(transaction => transaction.description).join('; '),
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: proposer
+    },
+    // Calldata is pre-encoded, so the builder does not need the method or inputs
+    transactions: transactions.map(({ to, value, data }) => ({
+      to,
+      value,
+      data,
+      contractMethod: null,
+      contractInputsValues: null
+    }))
+  };
+}
@@ -0,0 +1,164 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  PROGRAM_ID as TOKEN_METADATA_PROGRAM_ID,
+  Metadata,
+  DataV2,
+  createCreateMetadataAccountV3Instruction,
+  createUpdateMetadataAccountV2Instruction
+} from '@metaplex-foundation/mpl-token-metadata';
+import { SolanaTokenMetadata, SolanaOnChainMetadata } from '../types/solana';
+import { AppError, ErrorType } from './errorHandler';
+
+// Helpers for the Metaplex Token Metadata program (fungible tokens)
+
+export { TOKEN_METADATA_PROGRAM_ID };
+
+// Limits enforced by the Token Metadata program
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_URI_LENGTH = 200;
+
+export interface MetadataFields {
+  name: string;
+  symbol: string;
+  uri: string;
+}
+
+export interface CreateMetadataParams extends MetadataFields {
+  mint: PublicKey;
+  mintAuthority: PublicKey;
+  payer: PublicKey;
+  updateAuthority: PublicKey;
+  isMutable: boolean;
+}
+
+export interface UpdateMetadataParams {
+  mint: PublicKey;
+  updateAuthority: PublicKey;
+  data?: MetadataFields;
+  newUpdateAuthority?: PublicKey;
+  isMutable?: boolean;
+}
+
+// Derive the metadata PDA for a mint
+export function getMetadataAddress(mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+  return address;
+}
+
+// URI of the off-chain JSON served by our API for a mint
+export function buildMetadataUri(apiUrl: string, mint: string): string {
+  return `${apiUrl.replace(/\/$/, '')}/api/solana/metadata/${mint}.json`;
+}
+
+// Whether a URL points at this machine, e.g. a local API or a solana-test-validator
+export function isLocalUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return ['localhost', '127.0.0.1', '0.0.0.0', '[::1]'].includes(hostname) || hostname.endsWith('.localhost');
+  } catch {
+    return false;
+  }
+}
+
+// Off-chain JSON following the Metaplex fungible token standard
+export function buildMetadataJson(metadata: SolanaTokenMetadata): Record<string, unknown> {
+  return {
+    name: metadata.name,
+    symbol: metadata.symbol,
+    description: metadata.description || '',
+    image: metadata.image || '',
+    external_url: metadata.externalUrl || '',
+    attributes: metadata.attributes || [],
+    properties: {
+      category: 'currency',
+      creators: metadata.creators || [],
+      files: metadata.image ? [{ uri: metadata.image, type: 'image/png' }] : []
+    }
+  };
+}
+
+export function validateMetadataFields(fields: MetadataFields): void {
+  if (!fields.name || fields.name.length > MAX_NAME_LENGTH) {
+    throw new AppError(`Metadata name must be 1-${MAX_NAME_LENGTH} characters`, ErrorType.VALIDATION);
+  }
+  if (!fields.symbol || fields.symbol.length > MAX_SYMBOL_LENGTH) {
+    throw new AppError(`Metadata symbol must be 1-${MAX_SYMBOL_LENGTH} characters`, ErrorType.VALIDATION);
+  }
+  if (fields.uri.length > MAX_URI_LENGTH) {
+    throw new AppError(`Metadata URI must be at most ${MAX_URI_LENGTH} characters`, ErrorType.VALIDATION);
+  }
+}
+
+const toDataV2 = (fields: MetadataFields): DataV2 => ({
+  name: fields.name,
+  symbol: fields.symbol,
+  uri: fields.uri,
+  sellerFeeBasisPoints: 0,
+  creators: null,
+  collection: null,
+  uses: null
+});
+
+export function createMetadataInstruction(params: CreateMetadataParams): TransactionInstruction {
+  validateMetadataFields(params);
+
+  return createCreateMetadataAccountV3Instruction(
+    {
+      metadata: getMetadataAddress(params.mint),
+      mint: params.mint,
+      mintAuthority: params.mintAuthority,
+      payer: params.payer,
+      updateAuthority: params.updateAuthority
+    },
+    {
+      createMetadataAccountArgsV3: {
+        data: toDataV2(params),
+        isMutable: params.isMutable,
+        collectionDetails: null
+      }
+    }
+  );
+}
+
+// Passing isMutable: false locks the metadata permanently
+export function updateMetadataInstruction(params: UpdateMetadataParams): TransactionInstruction {
+  if (params.data) {
+    validateMetadataFields(params.data);
+  }
+
+  return createUpdateMetadataAccountV2Instruction(
+    {
+      metadata: getMetadataAddress(params.mint),
+      updateAuthority: params.updateAuthority
+    },
+    {
+      updateMetadataAccountArgsV2: {
+        data: params.data ? toDataV2(params.data) : null,
+        updateAuthority: params.newUpdateAuthority ?? null,
+        primarySaleHappened: null,
+        isMutable: params.isMutable ?? null
+      }
+    }
+  );
+}
+
+// Strings in metadata accounts are padded with null bytes to their maximum length
+const trimPadding = (value: string) => value.replace(/\0/g, '').trim();
+
+export function decodeMetadataAccount(address: PublicKey, data: Buffer): SolanaOnChainMetadata {
+  const [metadata] = Metadata.deserialize(data);
+
+  return {
+    address: address.toBase58(),
+    name: trimPadding(metadata.data.name),
+    symbol: trimPadding(metadata.data.symbol),
+    uri: trimPadding(metadata.data.uri),
+    updateAuthority: metadata.updateAuthority.toBase58(),
+    isMutable: metadata.isMutable,
+    source: 'metaplex'
+  };
+}
@@ -6,12 +6,27 @@ import {
   SystemProgram,
   sendAndConfirmTransaction,
   LAMPORTS_PER_SOL,
+  Signer,
   Commitment
 } from '@solana/web3.js';
 import {
-  createMint,
   getOrCreateAssociatedTokenAccount,
-  mintTo,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createInitializeMint2Instruction,
+  createMintToInstruction,
+  createWithdrawWithheldTokensFromMintInstruction,
+  createWithdrawWithheldTokensFromAccountsInstruction,
+  createUpdateRateInterestBearingMintInstruction,
+  getMintLen,
+  getTransferFeeConfig,
+  getTransferFeeAmount,
+  getInterestBearingMintConfigState,
+  unpackMint,
+  unpackAccount,
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
   transfer,
   getMint,
   getAccount,
@@ -20,12 +35,51 @@ import {
   TOKEN_PROGRAM_ID,
   createTransferInstruction
 } from '@solana/spl-token';
-import { SolanaNetwork, SolanaTokenInfo, SolanaTokenConfig, SolanaTokenDeploymentResult } from '../types/solana';
+import {
+  SolanaNetwork,
+  SolanaTokenInfo,
+  SolanaTokenConfig,
+  SolanaTokenDeploymentResult,
+  SolanaTokenCreationTransaction,
+  SolanaTokenProgram,
+  SolanaOnChainMetadata
+} from '../types/solana';
+import {
+  Field as TokenMetadataField,
+  createUpdateFieldInstruction,
+  createUpdateAuthorityInstruction
+} from '@solana/spl-token-metadata';
 import { AppError, ErrorType } from './errorHandler';
+import {
+  TOKEN_METADATA_PROGRAM_ID,
+  MetadataFields,
+  getMetadataAddress,
+  buildMetadataUri,
+  isLocalUrl,
+  createMetadataInstruction,
+  updateMetadataInstruction,
+  decodeMetadataAccount,
+  validateMetadataFields
+} from './solanaMetadata';
+import {
+  DEFAULT_TOKEN_2022_EXTENSIONS,
+  validateToken2022Extensions,
+  getMintExtensionTypes,
+  createExtensionInstructions,
+  createOnMintMetadataInstruction,
+  getTokenMetadataLength,
+  getOnMintTokenMetadata,
+  decodeOnMintMetadata,
+  decodeMintExtensions
+} from './solanaToken2022';
+
+// Withheld-fee source accounts per withdraw instruction, keeping transactions under the size limit
+const MAX_WITHDRAW_SOURCES = 20;
 
 class SolanaService {
   private connection: Connection | null = null;
   private network: SolanaNetwork | null = null;
+  private metadataApiUrl = 'http://localhost:3001';
 
   // Initialize connection with a specific network
   initializeConnection(network: SolanaNetwork): Connection {
@@ -42,6 +96,11 @@ class SolanaService {
     return this.connection;
   }
 
+  // Public base URL of the API serving off-chain metadata JSON, stored in each token's metadata URI
+  setMetadataApiUrl(url: string): void {
+    this.metadataApiUrl = url;
+  }
+
   // Get current network
   getNetwork(): SolanaNetwork | null {
     return this.network;
@@ -89,7 +148,142 @@ class SolanaService {
     }
   }
 
-  // Create a new SPL token
+  // Assemble the create-mint, ATA, mint-to and metadata instructions into one unsigned transaction.
+  // The returned mint keypair must co-sign alongside the payer.
+  async buildCreateTokenTransaction(
+    config: SolanaTokenConfig,
+    payer: PublicKey
+  ): Promise<SolanaTokenCreationTransaction> {
+    const connection = this.getConnection();
+    const mint = Keypair.generate();
+    
+    const isToken2022 = config.tokenProgram === 'token-2022';
+    const programId = isToken2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+    const extensions = isToken2022 ? config.extensions || DEFAULT_TOKEN_2022_EXTENSIONS : null;
+    const metadataOnMint = !!extensions && config.metadata.enabled && extensions.metadataOnMint;
+    
+    if (extensions) {
+      validateToken2022Extensions(extensions);
+    }
+    
+    const mintAuthority = payer;
+    const freezeAuthority = config.freezeAuthority ? payer : null;
+    const tokenAccount = getAssociatedTokenAddressSync(mint.publicKey, payer, false, programId);
+    
+    // Wallets and explorers fetch the URI stored on chain, so tokens on public clusters cannot point at a local API
+    if (config.metadata.enabled && !config.metadata.uri && isLocalUrl(this.metadataApiUrl) && !isLocalUrl(config.network.endpoint)) {
+      throw new AppError(
+        `Token metadata would be served from ${this.metadataApiUrl}, which wallets cannot reach. Set VITE_PUBLIC_API_URL to the API's public URL or enter a metadata URI.`,
+        ErrorType.VALIDATION
+      );
+    }
+    
+    const metadataFields: MetadataFields | null = config.metadata.enabled
+      ? {
+          name: config.name,
+          symbol: config.symbol,
+          uri: config.metadata.uri || buildMetadataUri(this.metadataApiUrl, mint.publicKey.toBase58())
+        }
+      : null;
+    
+    // Token metadata stored on the mint grows the account after creation, so fund it up front
+    const mintLen = getMintLen(extensions ? getMintExtensionTypes(extensions, metadataOnMint) : []);
+    const metadataLen = metadataOnMint && metadataFields
+      ? getTokenMetadataLength({
+          mint: mint.publicKey,
+          updateAuthority: payer,
+          ...metadataFields,
+          additionalMetadata: []
+        })
+      : 0;
+    
+    const transaction = new Transaction().add(
+      SystemProgram.createAccount({
+        fromPubkey: payer,
+        newAccountPubkey: mint.publicKey,
+        space: mintLen,
+        lamports: await connection.getMinimumBalanceForRentExemption(mintLen + metadataLen),
+        programId
+      })
+    );
+    
+    if (extensions) {
+      transaction.add(
+        ...createExtensionInstructions(mint.publicKey, payer, config.decimals, extensions, metadataOnMint)
+      );
+    }
+    
+    transaction.add(
+      createInitializeMint2Instruction(mint.publicKey, config.decimals, mintAuthority, freezeAuthority, programId)
+    );
+    
+    if (metadataOnMint && metadataFields) {
+      transaction.add(createOnMintMetadataInstruction(mint.publicKey, payer, metadataFields));
+    }
+    
+    transaction.add(
+      createAssociatedTokenAccountInstruction(payer, tokenAccount, payer, mint.publicKey, programId)
+    );
+    
+    // Mint initial supply
+    const initialSupply = parseFloat(config.initialSupply);
+    if (initialSupply > 0) {
+      const mintAmount = initialSupply * Math.pow(10, config.decimals);
+      transaction.add(
+        createMintToInstruction(mint.publicKey, tokenAccount, mintAuthority, BigInt(mintAmount), [], programId)
+      );
+    }
+    
+    // Otherwise create a Metaplex metadata account
+    let metadataAddress: PublicKey | undefined;
+    if (metadataOnMint) {
+      metadataAddress = mint.publicKey;
+    } else if (metadataFields) {
+      transaction.add(
+        createMetadataInstruction({
+          mint: mint.publicKey,
+          mintAuthority,
+          payer,
+          updateAuthority: payer,
+          ...metadataFields,
+          isMutable: config.metadata.isMutable ?? true
+        })
+      );
+      metadataAddress = getMetadataAddress(mint.publicKey);
+    }
+    
+    return {
+      transaction: await this.prepareTransaction(transaction, payer),
+      mint,
+      tokenAccount,
+      metadataAddress
+    };
+  }
+
+  // Create a new SPL token, signing with the connected wallet (browser flow)
+  async createTokenWithWallet(
+    config: SolanaTokenConfig,
+    payer: PublicKey,
+    signAndSend: (transaction: Transaction, signers: Signer[]) => Promise<string>
+  ): Promise<SolanaTokenDeploymentResult> {
+    try {
+      const prepared = await this.buildCreateTokenTransaction(config, payer);
+      
+      console.log('Creating token mint:', prepared.mint.publicKey.toBase58());
+      const signature = await signAndSend(prepared.transaction, [prepared.mint]);
+      
+      return this.toDeploymentResult(config, prepared, signature);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error('Error creating SPL token:', error);
+      throw new AppError('Failed to create SPL token', ErrorType.CONTRACT, error);
+    }
+  }
+
+  // Create a new SPL token from a raw secret key. Only for server-side scripts;
+  // browser flows must use createTokenWithWallet.
   async createToken(
     config: SolanaTokenConfig,
     payerSecret: Uint8Array
@@ -97,79 +291,306 @@ class SolanaService {
     try {
       const connection = this.getConnection();
       const payer = Keypair.fromSecretKey(payerSecret);
+      const prepared = await this.buildCreateTokenTransaction(config, payer.publicKey);
       
-      // Create mint account
-      const mintAuthority = payer.publicKey;
-      const freezeAuthority = config.freezeAuthority ? payer.publicKey : null;
+      console.log('Creating token mint:', prepared.mint.publicKey.toBase58());
+      const signature = await sendAndConfirmTransaction(connection, prepared.transaction, [payer, prepared.mint]);
       
-      console.log('Creating mint account...');
-      const mint = await createMint(
-        connection,
-        payer,
-        mintAuthority,
-        freezeAuthority,
-        config.decimals
+      return this.toDeploymentResult(config, prepared, signature);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error('Error creating SPL token:', error);
+      throw new AppError('Failed to create SPL token', ErrorType.CONTRACT, error);
+    }
+  }
+
+  private toDeploymentResult(
+    config: SolanaTokenConfig,
+    prepared: SolanaTokenCreationTransaction,
+    signature: string
+  ): SolanaTokenDeploymentResult {
+    const mint = prepared.mint.publicKey.toBase58();
+    
+    return {
+      mint,
+      tokenAccount: prepared.tokenAccount.toBase58(),
+      transactionSignature: signature,
+      network: config.network,
+      explorerUrl: `${config.network.explorerUrl}/address/${mint}`,
+      metadataAddress: prepared.metadataAddress?.toBase58(),
+      tokenProgram: config.tokenProgram || 'spl-token'
+    };
+  }
+
+  // Decode a mint account, whichever token program owns it
+  private async loadMint(mint: PublicKey): Promise<Mint | null> {
+    const accountInfo = await this.getConnection().getAccountInfo(mint);
+    
+    if (!accountInfo) {
+      return null;
+    }
+    
+    return unpackMint(mint, accountInfo, accountInfo.owner);
+  }
+
+  // Fetch token metadata stored on a Token-2022 mint, or the Metaplex metadata account
+  async getOnChainMetadata(mintAddress: string): Promise<SolanaOnChainMetadata | null> {
+    const connection = this.getConnection();
+    const mint = new PublicKey(mintAddress);
+    
+    const mintInfo = await this.loadMint(mint);
+    if (mintInfo && mintInfo.tlvData.length > 0) {
+      const onMint = decodeOnMintMetadata(mintInfo);
+      if (onMint) {
+        return onMint;
+      }
+    }
+    
+    const metadataAddress = getMetadataAddress(mint);
+    const accountInfo = await connection.getAccountInfo(metadataAddress);
+    
+    if (!accountInfo || !accountInfo.owner.equals(TOKEN_METADATA_PROGRAM_ID)) {
+      return null;
+    }
+    
+    return decodeMetadataAccount(metadataAddress, accountInfo.data);
+  }
+
+  // Build a transaction updating name, symbol and URI; signed by the update authority's wallet
+  async buildUpdateMetadataTransaction(
+    mintAddress: string,
+    updateAuthority: PublicKey,
+    updates: Partial<MetadataFields>
+  ): Promise<Transaction> {
+    const current = await this.getOnChainMetadata(mintAddress);
+    
+    if (!current) {
+      throw new AppError('Token has no metadata account', ErrorType.VALIDATION);
+    }
+    if (!current.isMutable) {
+      throw new AppError('Token metadata is locked and can no longer be updated', ErrorType.VALIDATION);
+    }
+    if (current.updateAuthority !== updateAuthority.toBase58()) {
+      throw new AppError('Only the update authority can change token metadata', ErrorType.VALIDATION);
+    }
+    
+    const mint = new PublicKey(mintAddress);
+    const data: MetadataFields = {
+      name: updates.name ?? current.name,
+      symbol: updates.symbol ?? current.symbol,
+      uri: updates.uri ?? current.uri
+    };
+    
+    if (current.source === 'token-2022') {
+      return this.prepareTransaction(
+        await this.buildOnMintMetadataUpdate(mint, updateAuthority, current, data),
+        updateAuthority
       );
-      
-      console.log('Mint account created:', mint.toBase58());
-      
-      // Create associated token account for the payer
-      console.log('Creating associated token account...');
-      const tokenAccount = await getOrCreateAssociatedTokenAccount(
-        connection,
-        payer,
-        mint,
-        payer.publicKey
+    }
+    
+    const instruction = updateMetadataInstruction({ mint, updateAuthority, data });
+    
+    return this.prepareTransaction(new Transaction().add(instruction), updateAuthority);
+  }
+
+  // Update changed fields of Token-2022 on-mint metadata, topping up rent if the account grows
+  private async buildOnMintMetadataUpdate(
+    mint: PublicKey,
+    updateAuthority: PublicKey,
+    current: SolanaOnChainMetadata,
+    data: MetadataFields
+  ): Promise<Transaction> {
+    validateMetadataFields(data);
+    
+    const connection = this.getConnection();
+    const accountInfo = await connection.getAccountInfo(mint);
+    const mintInfo = unpackMint(mint, accountInfo, TOKEN_2022_PROGRAM_ID);
+    const tokenMetadata = getOnMintTokenMetadata(mintInfo);
+    
+    if (!accountInfo || !tokenMetadata) {
+      throw new AppError('Token has no metadata account', ErrorType.VALIDATION);
+    }
+    
+    const transaction = new Transaction();
+    const updatedMetadata = { ...tokenMetadata, ...data };
+    const newSize = accountInfo.data.length
+      + getTokenMetadataLength(updatedMetadata)
+      - getTokenMetadataLength(tokenMetadata);
+    const requiredLamports = await connection.getMinimumBalanceForRentExemption(newSize);
+    
+    if (requiredLamports > accountInfo.lamports) {
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: updateAuthority,
+          toPubkey: mint,
+          lamports: requiredLamports - accountInfo.lamports
+        })
       );
-      
-      console.log('Token account created:', tokenAccount.address.toBase58());
-      
-      // Mint initial supply
-      const initialSupply = parseFloat(config.initialSupply);
-      if (initialSupply > 0) {
-        console.log('Minting initial supply...');
-        const mintAmount = initialSupply * Math.pow(10, config.decimals);
-        await mintTo(
-          connection,
-          payer,
-          mint,
-          tokenAccount.address,
-          mintAuthority,
-          BigInt(mintAmount)
+    }
+    
+    const fields: [TokenMetadataField, string][] = [
+      [TokenMetadataField.Name, data.name],
+      [TokenMetadataField.Symbol, data.symbol],
+      [TokenMetadataField.Uri, data.uri]
+    ];
+    const currentValues = [current.name, current.symbol, current.uri];
+    
+    fields.forEach(([field, value], index) => {
+      if (value !== currentValues[index]) {
+        transaction.add(
+          createUpdateFieldInstruction({
+            programId: TOKEN_2022_PROGRAM_ID,
+            metadata: mint,
+            updateAuthority,
+            field,
+            value
+          })
         );
-        
-        console.log('Initial supply minted:', initialSupply);
       }
+    });
+    
+    return transaction;
+  }
+
+  // Build a transaction that permanently prevents further metadata changes
+  async buildLockMetadataTransaction(mintAddress: string, updateAuthority: PublicKey): Promise<Transaction> {
+    const current = await this.getOnChainMetadata(mintAddress);
+    
+    if (!current) {
+      throw new AppError('Token has no metadata account', ErrorType.VALIDATION);
+    }
+    if (!current.isMutable) {
+      throw new AppError('Token metadata is already locked', ErrorType.VALIDATION);
+    }
+    
+    const mint = new PublicKey(mintAddress);
+    
+    // Token-2022 metadata is locked by removing its update authority
+    const instruction = current.source === 'token-2022'
+      ? createUpdateAuthorityInstruction({
+          programId: TOKEN_2022_PROGRAM_ID,
+          metadata: mint,
+          oldAuthority: updateAuthority,
+          newAuthority: null
+        })
+      : updateMetadataInstruction({ mint, updateAuthority, isMutable: false });
+    
+    return this.prepareTransaction(new Transaction().add(instruction), updateAuthority);
+  }
+
+  // Build transactions moving withheld Token-2022 transfer fees to the authority's token account
+  async buildWithdrawWithheldFeesTransactions(
+    mintAddress: string,
+    withdrawAuthority: PublicKey
+  ): Promise<Transaction[]> {
+    const connection = this.getConnection();
+    const mint = new PublicKey(mintAddress);
+    const mintInfo = await this.loadMint(mint);
+    const feeConfig = mintInfo ? getTransferFeeConfig(mintInfo) : null;
+    
+    if (!feeConfig) {
+      throw new AppError('Token does not charge transfer fees', ErrorType.VALIDATION);
+    }
+    if (!feeConfig.withdrawWithheldAuthority.equals(withdrawAuthority)) {
+      throw new AppError('Only the withdraw authority can collect transfer fees', ErrorType.VALIDATION);
+    }
+    
+    // Fees are withheld on each recipient's token account until harvested or withdrawn
+    const tokenAccounts = await connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+      filters: [{ memcmp: { offset: 0, bytes: mint.toBase58() } }]
+    });
+    const sources = tokenAccounts
+      .filter(({ pubkey, account }) => {
+        const feeAmount = getTransferFeeAmount(unpackAccount(pubkey, account, TOKEN_2022_PROGRAM_ID));
+        return feeAmount !== null && feeAmount.withheldAmount > BigInt(0);
+      })
+      .map(({ pubkey }) => pubkey);
+    
+    if (feeConfig.withheldAmount === BigInt(0) && sources.length === 0) {
+      throw new AppError('There are no withheld fees to withdraw', ErrorType.VALIDATION);
+    }
+    
+    const destination = getAssociatedTokenAddressSync(mint, withdrawAuthority, false, TOKEN_2022_PROGRAM_ID);
+    const first = new Transaction().add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        withdrawAuthority,
+        destination,
+        withdrawAuthority,
+        mint,
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+    
+    if (feeConfig.withheldAmount > BigInt(0)) {
+      first.add(
+        createWithdrawWithheldTokensFromMintInstruction(mint, destination, withdrawAuthority, [], TOKEN_2022_PROGRAM_ID)
+      );
+    }
+    
+    const transactions = [first];
+    for (let i = 0; i < sources.length; i += MAX_WITHDRAW_SOURCES) {
+      const instruction = createWithdrawWithheldTokensFromAccountsInstruction(
+        mint,
+        destination,
+        withdrawAuthority,
+        [],
+        sources.slice(i, i + MAX_WITHDRAW_SOURCES),
+        TOKEN_2022_PROGRAM_ID
+      );
       
-      // Create metadata if enabled
-      let metadataAddress: string | undefined;
-      if (config.metadata.enabled) {
-        // This would use Metaplex to create metadata
-        // For now, we'll just log that it would be created
-        console.log('Metadata would be created here using Metaplex');
-        metadataAddress = "metadata_placeholder";
+      if (i === 0) {
+        first.add(instruction);
+      } else {
+        transactions.push(new Transaction().add(instruction));
       }
-      
-      const explorerUrl = `${config.network.explorerUrl}/address/${mint.toBase58()}`;
-      
-      return {
-        mint: mint.toBase58(),
-        tokenAccount: tokenAccount.address.toBase58(),
-        transactionSignature: 'signature_placeholder', // In a real implementation, this would be the actual signature
-        network: config.network,
-        explorerUrl,
-        metadataAddress
-      };
-    } catch (error) {
-      console.error('Error creating SPL token:', error);
-      throw new AppError('Failed to create SPL token', ErrorType.CONTRACT, error);
     }
+    
+    return Promise.all(transactions.map(transaction => this.prepareTransaction(transaction, withdrawAuthority)));
+  }
+
+  // Build a transaction changing the annual rate (in basis points) of an interest-bearing mint
+  async buildUpdateInterestRateTransaction(
+    mintAddress: string,
+    rateAuthority: PublicKey,
+    rate: number
+  ): Promise<Transaction> {
+    const mint = new PublicKey(mintAddress);
+    const mintInfo = await this.loadMint(mint);
+    const interestConfig = mintInfo ? getInterestBearingMintConfigState(mintInfo) : null;
+    
+    if (!interestConfig) {
+      throw new AppError('Token is not interest-bearing', ErrorType.VALIDATION);
+    }
+    if (!interestConfig.rateAuthority.equals(rateAuthority)) {
+      throw new AppError('Only the rate authority can change the interest rate', ErrorType.VALIDATION);
+    }
+    if (!Number.isInteger(rate) || rate < -32768 || rate > 32767) {
+      throw new AppError('Interest rate must be a whole number of basis points', ErrorType.VALIDATION);
+    }
+    
+    const instruction = createUpdateRateInterestBearingMintInstruction(
+      mint,
+      rateAuthority,
+      rate,
+      [],
+      TOKEN_2022_PROGRAM_ID
+    );
+    
+    return this.prepareTransaction(new Transaction().add(instruction), rateAuthority);
+  }
+
+  private async prepareTransaction(transaction: Transaction, feePayer: PublicKey): Promise<Transaction> {
+    const { blockhash } = await this.getConnection().getLatestBlockhash();
+    transaction.feePayer = feePayer;
+    transaction.recentBlockhash = blockhash;
+    return transaction;
   }
 
   // Get token info
   async getTokenInfo(mintAddress: string): Promise<SolanaTokenInfo> {
     try {
-      const connection = this.getConnection();
       let mintPublicKey;
       try {
         mintPublicKey = new PublicKey(mintAddress);
@@ -177,25 +598,27 @@ class SolanaService {
         throw new AppError('Invalid mint address format', ErrorType.VALIDATION);
       }
       
-      const mintInfo = await getMint(connection, mintPublicKey);
+      const accountInfo = await this.getConnection().getAccountInfo(mintPublicKey);
+      if (!accountInfo) {
+        throw new AppError('Mint account not found', ErrorType.VALIDATION);
+      }
+      
+      const mintInfo = unpackMint(mintPublicKey, accountInfo, accountInfo.owner);
+      const tokenProgram: SolanaTokenProgram = accountInfo.owner.equals(TOKEN_2022_PROGRAM_ID)
+        ? 'token-2022'
+        : 'spl-token';
       
-      // Try to get metadata (this would use Metaplex in a full implementation)
       let name = 'Unknown';
       let symbol = 'UNK';
+      let onChainMetadata: SolanaOnChainMetadata | undefined;
       
       try {
-        // This is a simplified approach - in production, use Metaplex to get metadata
-        const metaplexId = await PublicKey.findProgramAddressSync(
-          [
-            Buffer.from('metadata'),
-            new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s').toBuffer(),
-            mintPublicKey.toBuffer(),
-          ],
-          new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s')
-        );
-        
-        // In a real implementation, we would fetch and decode the metadata account
-        // For now, we'll just use placeholder values
+        const metadata = await this.getOnChainMetadata(mintAddress);
+        if (metadata) {
+          name = metadata.name;
+          symbol = metadata.symbol;
+          onChainMetadata = metadata;
+        }
       } catch (error) {
         console.log('Metadata not found, using default values');
       }
@@ -207,7 +630,10 @@ class SolanaService {
         decimals: mintInfo.decimals,
         supply: mintInfo.supply.toString(),
         owner: mintInfo.mintAuthority || new PublicKey('11111111111111111111111111111111'),
-        frozenState: mintInfo.freezeAuthority !== null
+        frozenState: mintInfo.freezeAuthority !== null,
+        onChainMetadata,
+        tokenProgram,
+        extensions: tokenProgram === 'token-2022' ? decodeMintExtensions(mintInfo) : undefined
       };
     } catch (error) {
       console.error('Error getting token info:', error);
@@ -261,7 +687,7 @@ class SolanaService {
       return signature;
     } catch (error) {
       console.error('Error sending tokens:', error);
-      throw new AppError('Failed to send tokens', ErrorType.TRANSACTION, error);
+      throw new AppError('Failed to send tokens', ErrorType.CONTRACT, error);
     }
   }
 
@@ -327,7 +753,7 @@ class SolanaService {
       return signature;
     } catch (error) {
       console.error('Error batch sending tokens:', error);
-      throw new AppError('Failed to batch send tokens', ErrorType.TRANSACTION, error);
+      throw new AppError('Failed to batch send tokens', ErrorType.CONTRACT, error);
     }
   }
 
@@ -0,0 +1,244 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  ExtensionType,
+  Mint,
+  TYPE_SIZE,
+  LENGTH_SIZE,
+  getExtensionData,
+  getTransferFeeConfig,
+  getInterestBearingMintConfigState,
+  getNonTransferable,
+  getPermanentDelegate,
+  getMetadataPointerState,
+  createInitializeTransferFeeConfigInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeMetadataPointerInstruction
+} from '@solana/spl-token';
+import { TokenMetadata, pack, unpack, createInitializeInstruction } from '@solana/spl-token-metadata';
+import { SolanaToken2022Extensions, SolanaTokenExtensionState, SolanaOnChainMetadata } from '../types/solana';
+import { MetadataFields, validateMetadataFields } from './solanaMetadata';
+import { AppError, ErrorType } from './errorHandler';
+
+// Helpers for Token-2022 mint extensions
+
+// Same ceiling as the EVM FeeToken (1000 = 10%)
+export const MAX_TRANSFER_FEE_BASIS_POINTS = 1000;
+
+// The interest rate is stored as an i16 number of basis points
+const MIN_INTEREST_RATE = -32768;
+const MAX_INTEREST_RATE = 32767;
+
+export const DEFAULT_TOKEN_2022_EXTENSIONS: SolanaToken2022Extensions = {
+  transferFee: { enabled: false, feeBasisPoints: 100, maxFee: '' },
+  interestBearing: { enabled: false, rate: 500 },
+  nonTransferable: false,
+  permanentDelegate: { enabled: false, delegate: '' },
+  metadataOnMint: true
+};
+
+export function validateToken2022Extensions(extensions: SolanaToken2022Extensions): void {
+  const { transferFee, interestBearing, permanentDelegate } = extensions;
+
+  if (transferFee.enabled) {
+    if (
+      !Number.isInteger(transferFee.feeBasisPoints) ||
+      transferFee.feeBasisPoints < 0 ||
+      transferFee.feeBasisPoints > MAX_TRANSFER_FEE_BASIS_POINTS
+    ) {
+      throw new AppError(
+        `Transfer fee must be between 0 and ${MAX_TRANSFER_FEE_BASIS_POINTS} basis points`,
+        ErrorType.VALIDATION
+      );
+    }
+    if (!transferFee.maxFee || !(parseFloat(transferFee.maxFee) > 0)) {
+      throw new AppError('Maximum transfer fee must be greater than 0', ErrorType.VALIDATION);
+    }
+    if (extensions.nonTransferable) {
+      throw new AppError('Non-transferable tokens cannot charge transfer fees', ErrorType.VALIDATION);
+    }
+  }
+
+  if (interestBearing.enabled) {
+    if (
+      !Number.isInteger(interestBearing.rate) ||
+      interestBearing.rate < MIN_INTEREST_RATE ||
+      interestBearing.rate > MAX_INTEREST_RATE
+    ) {
+      throw new AppError('Interest rate must be a whole number of basis points', ErrorType.VALIDATION);
+    }
+  }
+
+  if (permanentDelegate.enabled && permanentDelegate.delegate) {
+    try {
+      new PublicKey(permanentDelegate.delegate);
+    } catch {
+      throw new AppError('Invalid permanent delegate address', ErrorType.VALIDATION);
+    }
+  }
+}
+
+// Fixed-size extensions that must be allocated when the mint account is created
+export function getMintExtensionTypes(extensions: SolanaToken2022Extensions, metadataOnMint: boolean): ExtensionType[] {
+  const types: ExtensionType[] = [];
+
+  if (extensions.transferFee.enabled) types.push(ExtensionType.TransferFeeConfig);
+  if (extensions.interestBearing.enabled) types.push(ExtensionType.InterestBearingConfig);
+  if (extensions.nonTransferable) types.push(ExtensionType.NonTransferable);
+  if (extensions.permanentDelegate.enabled) types.push(ExtensionType.PermanentDelegate);
+  if (metadataOnMint) types.push(ExtensionType.MetadataPointer);
+
+  return types;
+}
+
+// Extension initializers; these must run before InitializeMint
+export function createExtensionInstructions(
+  mint: PublicKey,
+  authority: PublicKey,
+  decimals: number,
+  extensions: SolanaToken2022Extensions,
+  metadataOnMint: boolean
+): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+
+  if (extensions.transferFee.enabled) {
+    const maxFee = BigInt(Math.round(parseFloat(extensions.transferFee.maxFee) * Math.pow(10, decimals)));
+    instructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        mint,
+        authority,
+        authority,
+        extensions.transferFee.feeBasisPoints,
+        maxFee,
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  if (extensions.interestBearing.enabled) {
+    instructions.push(
+      createInitializeInterestBearingMintInstruction(
+        mint,
+        authority,
+        extensions.interestBearing.rate,
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  if (extensions.nonTransferable) {
+    instructions.push(createInitializeNonTransferableMintInstruction(mint, TOKEN_2022_PROGRAM_ID));
+  }
+
+  if (extensions.permanentDelegate.enabled) {
+    const delegate = extensions.permanentDelegate.delegate
+      ? new PublicKey(extensions.permanentDelegate.delegate)
+      : authority;
+    instructions.push(createInitializePermanentDelegateInstruction(mint, delegate, TOKEN_2022_PROGRAM_ID));
+  }
+
+  if (metadataOnMint) {
+    // Point the metadata at the mint itself
+    instructions.push(createInitializeMetadataPointerInstruction(mint, authority, mint, TOKEN_2022_PROGRAM_ID));
+  }
+
+  return instructions;
+}
+
+// Token metadata initializer; must run after InitializeMint
+export function createOnMintMetadataInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  fields: MetadataFields
+): TransactionInstruction {
+  validateMetadataFields(fields);
+
+  return createInitializeInstruction({
+    programId: TOKEN_2022_PROGRAM_ID,
+    metadata: mint,
+    updateAuthority: authority,
+    mint,
+    mintAuthority: authority,
+    name: fields.name,
+    symbol: fields.symbol,
+    uri: fields.uri
+  });
+}
+
+// Bytes the token metadata extension adds to the mint account once initialized
+export function getTokenMetadataLength(metadata: TokenMetadata): number {
+  return TYPE_SIZE + LENGTH_SIZE + pack(metadata).length;
+}
+
+export function getOnMintTokenMetadata(mint: Mint): TokenMetadata | null {
+  const data = getExtensionData(ExtensionType.TokenMetadata, mint.tlvData);
+  return data ? unpack(data) : null;
+}
+
+export function decodeOnMintMetadata(mint: Mint): SolanaOnChainMetadata | null {
+  const metadata = getOnMintTokenMetadata(mint);
+  if (!metadata) {
+    return null;
+  }
+
+  // A token metadata entry without an update authority can no longer change
+  const updateAuthority = metadata.updateAuthority && !metadata.updateAuthority.equals(PublicKey.default)
+    ? metadata.updateAuthority.toBase58()
+    : null;
+
+  return {
+    address: mint.address.toBase58(),
+    name: metadata.name,
+    symbol: metadata.symbol,
+    uri: metadata.uri,
+    updateAuthority,
+    isMutable: updateAuthority !== null,
+    source: 'token-2022'
+  };
+}
+
+// Optional authorities are stored as the default (all zero) key when unset
+const optionalKey = (key: PublicKey | null | undefined) =>
+  key && !key.equals(PublicKey.default) ? key.toBase58() : null;
+
+export function decodeMintExtensions(mint: Mint): SolanaTokenExtensionState {
+  const state: SolanaTokenExtensionState = {
+    nonTransferable: getNonTransferable(mint) !== null
+  };
+
+  const transferFee = getTransferFeeConfig(mint);
+  if (transferFee) {
+    state.transferFee = {
+      feeBasisPoints: transferFee.newerTransferFee.transferFeeBasisPoints,
+      maxFee: transferFee.newerTransferFee.maximumFee.toString(),
+      withheldAmount: transferFee.withheldAmount.toString(),
+      transferFeeConfigAuthority: optionalKey(transferFee.transferFeeConfigAuthority),
+      withdrawWithheldAuthority: optionalKey(transferFee.withdrawWithheldAuthority)
+    };
+  }
+
+  const interestBearing = getInterestBearingMintConfigState(mint);
+  if (interestBearing) {
+    state.interestBearing = {
+      currentRate: interestBearing.currentRate,
+      rateAuthority: optionalKey(interestBearing.rateAuthority)
+    };
+  }
+
+  const permanentDelegate = getPermanentDelegate(mint);
+  if (permanentDelegate) {
+    state.permanentDelegate = optionalKey(permanentDelegate.delegate);
+  }
+
+  const metadataPointer = getMetadataPointerState(mint);
+  if (metadataPointer) {
+    state.metadataPointer = {
+      authority: optionalKey(metadataPointer.authority),
+      metadataAddress: optionalKey(metadataPointer.metadataAddress)
+    };
+  }
+
+  return state;
+}
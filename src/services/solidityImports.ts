@@ -0,0 +1,20 @@
+// Browser-side resolution of Solidity imports for solc.js.
+// Vite bundles the OpenZeppelin sources as lazily loaded raw strings.
+
+const openZeppelinSources = import.meta.glob<string>([
+  '/node_modules/@openzeppelin/contracts/**/*.sol',
+  '/node_modules/@openzeppelin/contracts-upgradeable/**/*.sol'
+], {
+  query: '?raw',
+  import: 'default'
+});
+
+export async function loadSolidityImport(path: string): Promise<string> {
+  const loader = openZeppelinSources[`/node_modules/${path}`];
+
+  if (!loader) {
+    throw new Error(`Unable to resolve Solidity import: ${path}`);
+  }
+
+  return loader();
+}
@@ -0,0 +1,1432 @@
+import { TokenConfig, TokenFeatures } from '../types';
+
+// Assembles ERC20 token source from feature fragments so every combination of
+// TokenFeatures maps to a contract with exactly those features
+
+export interface TokenContractFeatures {
+  burnable: boolean;
+  mintable: boolean;
+  transferFees: boolean;
+  taxes: boolean;
+  dividends: boolean;
+  holderRedistribution: boolean;
+  reflection: boolean;
+  antiWhale: boolean;
+  permit: boolean;
+  votes: boolean;
+  snapshot: boolean;
+  pausable: boolean;
+  blacklist: boolean;
+  roles: boolean;
+  bridgeable: boolean;
+  upgradeable: boolean;
+}
+
+// Name parts in the order they appear in generated contract names
+const NAME_PARTS: Array<[keyof TokenContractFeatures, string]> = [
+  ['burnable', 'Burnable'],
+  ['mintable', 'Mintable'],
+  ['transferFees', 'Fee'],
+  ['taxes', 'Tax'],
+  ['dividends', 'Dividend'],
+  ['holderRedistribution', 'Redistribution'],
+  ['reflection', 'Reflection'],
+  ['antiWhale', 'AntiWhale'],
+  ['permit', 'Permit'],
+  ['votes', 'Votes'],
+  ['snapshot', 'Snapshot'],
+  ['pausable', 'Pausable'],
+  ['blacklist', 'Blacklist'],
+  ['roles', 'Roles'],
+  ['bridgeable', 'Bridgeable'],
+  ['upgradeable', 'Upgradeable']
+];
+
+// Burn, mint, fees and redistribution together keep the name they were originally deployed under
+const ADVANCED_TOKEN = 'AdvancedToken';
+const ADVANCED_FEATURES: Array<keyof TokenContractFeatures> = ['burnable', 'mintable', 'transferFees', 'holderRedistribution'];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const TOKEN_NAME_PATTERN = new RegExp(`^${NAME_PARTS.map(([, part]) => `(${part})?`).join('')}Token$`);
+
+interface ContractFragment {
+  imports?: string[];
+  interfaces?: string[];
+  bases?: string[];
+  baseConstructors?: string[];
+  structs?: string[];
+  state?: string[];
+  events?: string[];
+  constructorParams?: string[];
+  constructorBody?: string[];
+  upgradeSetup?: string[]; // Idempotent setup the fragment needs when an upgrade adds it to a deployed proxy
+  functions?: string[];
+}
+
+export function getTokenContractFeatures(features: TokenFeatures): TokenContractFeatures {
+  const taxes = !!features.taxes?.enabled;
+  const reflection = features.holderRedistribution.mode === 'reflection';
+
+  // Buy/sell taxes replace the flat transfer fee; reflection replaces claim-based redistribution
+  return {
+    burnable: features.burnable,
+    mintable: features.mintable,
+    transferFees: features.transferFees.enabled && !taxes,
+    taxes,
+    dividends: taxes && !!features.taxes?.dividends?.enabled,
+    holderRedistribution: features.holderRedistribution.enabled && !reflection,
+    reflection: features.holderRedistribution.enabled && reflection,
+    antiWhale: !!features.antiWhale?.enabled,
+    // ERC20Votes is built on ERC20Permit, so votes always bring permit with them
+    permit: !!features.permit || !!features.votes,
+    votes: !!features.votes,
+    snapshot: !!features.snapshot,
+    pausable: !!features.pausable,
+    blacklist: !!features.blacklist,
+    roles: !!features.roles,
+    bridgeable: !!features.bridgeable,
+    upgradeable: !!features.upgradeable
+  };
+}
+
+export function getTokenContractName(features: TokenContractFeatures): string {
+  const parts = NAME_PARTS.filter(([feature]) => features[feature]).map(([, part]) => part);
+
+  if (parts.length === 0) {
+    return 'BasicToken';
+  }
+  if (parts.length === ADVANCED_FEATURES.length && ADVANCED_FEATURES.every(feature => features[feature])) {
+    return ADVANCED_TOKEN;
+  }
+  return `${parts.join('')}Token`;
+}
+
+// Inverse of getTokenContractName; returns null for names that are not generated token contracts
+export function parseTokenContractName(contractName: string): TokenContractFeatures | null {
+  const match = TOKEN_NAME_PATTERN.exec(contractName);
+  if (!match && contractName !== ADVANCED_TOKEN && contractName !== 'BasicToken') {
+    return null;
+  }
+
+  const features = Object.fromEntries(
+    NAME_PARTS.map(([feature], index) => [
+      feature,
+      contractName === ADVANCED_TOKEN ? ADVANCED_FEATURES.includes(feature) : !!match?.[index + 1]
+    ])
+  ) as unknown as TokenContractFeatures;
+
+  // Alternative implementations of the same feature are never combined
+  if ((features.transferFees && features.taxes) || (features.holderRedistribution && features.reflection)) {
+    return null;
+  }
+  // Dividends are paid from the tax swap-back and track balances reflection bypasses
+  if (features.dividends && (!features.taxes || features.reflection)) {
+    return null;
+  }
+  // Votes extend permit; checkpoints and transfer restrictions hook into ERC20 balance updates that reflection bypasses
+  const hooksBalanceUpdates = features.votes || features.snapshot || features.pausable || features.blacklist;
+  if ((features.votes && !features.permit) || (hooksBalanceUpdates && features.reflection)) {
+    return null;
+  }
+
+  // Names spelling out the advanced set (or no features) are only valid under their historical names
+  return getTokenContractName(features) === contractName ? features : null;
+}
+
+const baseFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/token/ERC20/ERC20.sol'],
+  bases: ['ERC20'],
+  baseConstructors: ['ERC20(name, symbol)'],
+  state: [
+    'uint8 private _decimals;',
+    'uint256 private _maxSupply;'
+  ],
+  constructorParams: [
+    'string memory name',
+    'string memory symbol',
+    'uint8 decimals_',
+    'uint256 initialSupply',
+    'uint256 maxSupply_'
+  ],
+  constructorBody: [
+    '_decimals = decimals_;',
+    '_maxSupply = maxSupply_;'
+  ],
+  functions: [
+    `function decimals() public view virtual override returns (uint8) {
+        return _decimals;
+    }`,
+    `function maxSupply() public view returns (uint256) {
+        return _maxSupply;
+    }`
+  ]
+};
+
+const burnableFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol'],
+  bases: ['ERC20Burnable']
+};
+
+const mintableFragment: ContractFragment = {
+  functions: [
+    `function mint(address to, uint256 amount) public onlyOwner {
+        require(_maxSupply == 0 || totalSupply() + amount <= _maxSupply, "Max supply exceeded");
+        _mint(to, amount);
+    }`
+  ]
+};
+
+const feeFragment: ContractFragment = {
+  state: [
+    'uint256 public transferFeePercentage; // Fee percentage (0-1000 = 0-10%)',
+    'address public feeRecipient;'
+  ],
+  constructorParams: [
+    'uint256 feePercentage',
+    'address feeRecipient_'
+  ],
+  constructorBody: [
+    'transferFeePercentage = feePercentage;',
+    'feeRecipient = feeRecipient_;'
+  ],
+  functions: [
+    `function setTransferFee(uint256 feePercentage) external onlyOwner {
+        require(feePercentage <= 1000, "Fee too high"); // Max 10%
+        transferFeePercentage = feePercentage;
+    }`,
+    `function setFeeRecipient(address recipient) external onlyOwner {
+        require(recipient != address(0), "Invalid recipient");
+        feeRecipient = recipient;
+    }`
+  ]
+};
+
+// Taxes are keyed off registered AMM pairs; with a router set they are swapped back
+// to the native currency on sells, otherwise paid out to the recipients in tokens.
+// With dividends, whatever the recipients and liquidity don't take goes to holders
+const buildTaxFragment = ({ dividends }: TokenContractFeatures): ContractFragment => ({
+  interfaces: [
+    `interface IUniswapV2Factory {
+    function createPair(address tokenA, address tokenB) external returns (address pair);
+}`,
+    `interface IUniswapV2Router02 {
+    function factory() external pure returns (address);
+    function WETH() external pure returns (address);
+    function swapExactTokensForETHSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external;${dividends ? `
+    function swapExactETHForTokensSupportingFeeOnTransferTokens(
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external payable;` : ''}
+    function addLiquidityETH(
+        address token,
+        uint256 amountTokenDesired,
+        uint256 amountTokenMin,
+        uint256 amountETHMin,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity);
+}`
+  ],
+  structs: [
+    `struct TaxSettings {
+        uint256 buyTaxBps;
+        uint256 sellTaxBps;
+        uint256 transferTaxBps;
+        address[] recipients;
+        uint256[] shares; // Basis points of collected taxes
+        uint256 liquidityShareBps;
+        address router;
+        uint256 swapThresholdBps; // Of initial supply, 0 = no swap-back
+    }`
+  ],
+  state: [
+    'uint256 public buyTax; // Tax percentages (0-2500 = 0-25%)',
+    'uint256 public sellTax;',
+    'uint256 public transferTax;',
+    'address[] private _taxRecipients;',
+    'uint256[] private _taxShares;',
+    'uint256 public liquidityShare;',
+    'IUniswapV2Router02 public swapRouter;',
+    'address public liquidityPair;',
+    'uint256 public swapThreshold;',
+    'bool private _swapping;',
+    'mapping(address => bool) public automatedMarketMakerPairs;',
+    'mapping(address => bool) public isExemptFromTaxes;'
+  ],
+  events: [
+    'event TaxesUpdated(uint256 buyTax, uint256 sellTax, uint256 transferTax);',
+    'event TaxRecipientsUpdated(address[] recipients, uint256[] shares, uint256 liquidityShare);',
+    'event AutomatedMarketMakerPairUpdated(address indexed pair, bool value);',
+    'event TaxExemptionUpdated(address indexed account, bool exempt);',
+    'event SwapThresholdUpdated(uint256 swapThreshold);',
+    'event SwapBack(uint256 tokensSwapped, uint256 ethReceived, uint256 tokensToLiquidity);',
+    'event TaxPaymentFailed(address indexed recipient, uint256 amount);'
+  ],
+  constructorParams: ['TaxSettings memory taxes'],
+  constructorBody: [
+    `if (taxes.router != address(0)) {
+            swapRouter = IUniswapV2Router02(taxes.router);
+            liquidityPair = IUniswapV2Factory(swapRouter.factory()).createPair(address(this), swapRouter.WETH());
+            _setAutomatedMarketMakerPair(liquidityPair, true);
+        }`,
+    '_setTaxes(taxes.buyTaxBps, taxes.sellTaxBps, taxes.transferTaxBps);',
+    '_setTaxRecipients(taxes.recipients, taxes.shares, taxes.liquidityShareBps);',
+    'swapThreshold = (initialSupply * taxes.swapThresholdBps) / 10000;',
+    'isExemptFromTaxes[owner] = true;',
+    'isExemptFromTaxes[address(this)] = true;'
+  ],
+  upgradeSetup: [
+    'isExemptFromTaxes[owner()] = true;',
+    'isExemptFromTaxes[address(this)] = true;'
+  ],
+  functions: [
+    `receive() external payable {}`,
+    `function _taxRate(address from, address to) internal view returns (uint256) {
+        if (_swapping || isExemptFromTaxes[from] || isExemptFromTaxes[to]) return 0;
+        if (automatedMarketMakerPairs[from]) return buyTax;
+        if (automatedMarketMakerPairs[to]) return sellTax;
+        return transferTax;
+    }`,
+    `function _takeTax(address from, uint256 taxAmount) internal {
+        if (address(swapRouter) != address(0)) {
+            super._transfer(from, address(this), taxAmount);
+            return;
+        }
+
+        // Without a router the shares are paid out in tokens; the last recipient takes the rounding dust
+        uint256 remaining = taxAmount;
+        for (uint256 i = 0; i < _taxRecipients.length; i++) {
+            uint256 share = i == _taxRecipients.length - 1 ? remaining : (taxAmount * _taxShares[i]) / 10000;
+            remaining -= share;
+            super._transfer(from, _taxRecipients[i], share);
+        }
+    }`,
+    `function _shouldSwapBack(address to) internal view returns (bool) {
+        return !_swapping &&
+            swapThreshold > 0 &&
+            address(swapRouter) != address(0) &&
+            automatedMarketMakerPairs[to] &&
+            balanceOf(address(this)) >= swapThreshold;
+    }`,
+    `function _swapBack() internal {
+        uint256 contractBalance = balanceOf(address(this));
+        if (contractBalance == 0) return;
+
+        // Cap each swap to limit price impact
+        if (swapThreshold > 0 && contractBalance > swapThreshold * 20) {
+            contractBalance = swapThreshold * 20;
+        }
+
+        _swapping = true;
+
+        // Half of the liquidity share is paired with the native currency from the other half
+        uint256 liquidityTokens = (contractBalance * liquidityShare) / 20000;
+        uint256 tokensToSwap = contractBalance - liquidityTokens;
+
+        address[] memory path = new address[](2);
+        path[0] = address(this);
+        path[1] = swapRouter.WETH();
+
+        uint256 initialBalance = address(this).balance;
+        _approve(address(this), address(swapRouter), contractBalance);
+        swapRouter.swapExactTokensForETHSupportingFeeOnTransferTokens(tokensToSwap, 0, path, address(this), block.timestamp);
+        uint256 ethReceived = address(this).balance - initialBalance;
+
+        uint256 ethForLiquidity = (ethReceived * liquidityTokens) / tokensToSwap;
+        if (liquidityTokens > 0 && ethForLiquidity > 0) {
+            swapRouter.addLiquidityETH{value: ethForLiquidity}(address(this), liquidityTokens, 0, 0, owner(), block.timestamp);
+        }
+
+        uint256 ethForRecipients = ethReceived - ethForLiquidity;
+        uint256 recipientShares = 10000 - liquidityShare;
+        for (uint256 i = 0; i < _taxRecipients.length; i++) {
+            // A reverting recipient must not block sells; its share stays in the contract
+            uint256 payment = (ethForRecipients * _taxShares[i]) / recipientShares;
+            (bool sent, ) = payable(_taxRecipients[i]).call{value: payment}("");
+            if (!sent) {
+                emit TaxPaymentFailed(_taxRecipients[i], payment);
+            }
+        }${dividends ? `
+        if (dividendShare > 0) {
+            _distributeDividends((ethForRecipients * dividendShare) / recipientShares);
+        }` : ''}
+
+        _swapping = false;
+        emit SwapBack(tokensToSwap, ethReceived, liquidityTokens);
+    }`,
+    `function _setTaxes(uint256 buyTaxBps, uint256 sellTaxBps, uint256 transferTaxBps) internal {
+        require(buyTaxBps <= 2500 && sellTaxBps <= 2500 && transferTaxBps <= 2500, "Tax too high"); // Max 25%
+        buyTax = buyTaxBps;
+        sellTax = sellTaxBps;
+        transferTax = transferTaxBps;
+        emit TaxesUpdated(buyTaxBps, sellTaxBps, transferTaxBps);
+    }`,
+    `function _setTaxRecipients(address[] memory recipients, uint256[] memory shares, uint256 liquidityShareBps) internal {
+        require(recipients.length == shares.length, "Length mismatch");
+        require(recipients.length <= 5, "Too many recipients");
+        require(liquidityShareBps == 0 || address(swapRouter) != address(0), "Liquidity share needs a router");
+
+        uint256 total = liquidityShareBps;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "Invalid recipient");
+            require(shares[i] > 0, "Invalid share");
+            total += shares[i];
+        }
+        ${dividends ? `require(total <= 10000, "Shares exceed 100%");
+        dividendShare = 10000 - total;` : 'require(total == 10000, "Shares must total 100%");'}
+
+        _taxRecipients = recipients;
+        _taxShares = shares;
+        liquidityShare = liquidityShareBps;
+        emit TaxRecipientsUpdated(recipients, shares, liquidityShareBps);
+    }`,
+    `function _setAutomatedMarketMakerPair(address pair, bool value) internal {
+        automatedMarketMakerPairs[pair] = value;
+        emit AutomatedMarketMakerPairUpdated(pair, value);
+    }`,
+    `function setTaxes(uint256 buyTaxBps, uint256 sellTaxBps, uint256 transferTaxBps) external onlyOwner {
+        _setTaxes(buyTaxBps, sellTaxBps, transferTaxBps);
+    }`,
+    `function setTaxRecipients(address[] calldata recipients, uint256[] calldata shares, uint256 liquidityShareBps) external onlyOwner {
+        _setTaxRecipients(recipients, shares, liquidityShareBps);
+    }`,
+    `function getTaxRecipients() external view returns (address[] memory recipients, uint256[] memory shares) {
+        return (_taxRecipients, _taxShares);
+    }`,
+    `function setAutomatedMarketMakerPair(address pair, bool value) external onlyOwner {
+        require(pair != liquidityPair, "Cannot change the main pair");
+        _setAutomatedMarketMakerPair(pair, value);
+    }`,
+    `function setExemptFromTaxes(address account, bool exempt) external onlyOwner {
+        isExemptFromTaxes[account] = exempt;
+        emit TaxExemptionUpdated(account, exempt);
+    }`,
+    `function setSwapThreshold(uint256 amount) external onlyOwner {
+        swapThreshold = amount;
+        emit SwapThresholdUpdated(amount);
+    }`,
+    `function manualSwapBack() external onlyOwner {
+        require(address(swapRouter) != address(0), "No router configured");
+        _swapBack();
+    }`
+  ]
+});
+
+// Dividends are paid from the tax swap-back, in the native currency or a reward token,
+// using magnified per-share accounting so distributing stays O(1); payouts go through
+// a gas-bounded loop over eligible holders on each transfer, or a manual claim
+const dividendFragment: ContractFragment = {
+  structs: [
+    `struct DividendSettings {
+        address rewardToken; // address(0) pays the native currency
+        uint256 minimumBalance;
+        uint256 gasForProcessing; // 0 = holders claim manually
+    }`
+  ],
+  state: [
+    'uint256 private constant _MAGNITUDE = 2**128;',
+    'address public rewardToken;',
+    'uint256 public dividendShare; // Basis points of collected taxes left after recipients and liquidity',
+    'uint256 public minimumBalanceForDividends;',
+    'uint256 public gasForProcessing;',
+    'uint256 public totalDividendsDistributed;',
+    'uint256 public lastProcessedIndex;',
+    'uint256 private _magnifiedDividendPerShare;',
+    'uint256 private _totalDividendShares;',
+    'mapping(address => uint256) private _dividendShares;',
+    'mapping(address => int256) private _magnifiedDividendCorrections;',
+    'mapping(address => uint256) private _withdrawnDividends;',
+    'mapping(address => bool) public isExcludedFromDividends;',
+    'address[] private _dividendHolders;',
+    'mapping(address => uint256) private _dividendHolderIndex; // Index + 1, 0 = not a holder'
+  ],
+  events: [
+    'event DividendsDistributed(uint256 amount);',
+    'event DividendClaimed(address indexed account, uint256 amount, bool automatic);',
+    'event DividendsProcessed(uint256 iterations, uint256 claims, uint256 lastProcessedIndex);',
+    'event DividendExclusionUpdated(address indexed account, bool excluded);',
+    'event DividendSettingsUpdated(uint256 minimumBalance, uint256 gasForProcessing);'
+  ],
+  constructorParams: ['DividendSettings memory dividends'],
+  constructorBody: [
+    'require(address(swapRouter) != address(0), "Dividends need a router");',
+    'require(dividends.rewardToken != address(this), "Invalid reward token");',
+    'rewardToken = dividends.rewardToken;',
+    '_setDividendSettings(dividends.minimumBalance, dividends.gasForProcessing);',
+    'isExcludedFromDividends[address(this)] = true;',
+    'isExcludedFromDividends[address(swapRouter)] = true;',
+    'isExcludedFromDividends[liquidityPair] = true;'
+  ],
+  functions: [
+    `function _updateDividendShares(address account) internal {
+        uint256 balance = balanceOf(account);
+        uint256 shares = isExcludedFromDividends[account] || balance < minimumBalanceForDividends ? 0 : balance;
+        uint256 current = _dividendShares[account];
+        if (shares == current) return;
+
+        // Corrections keep already accrued dividends unchanged when the share count moves
+        if (shares > current) {
+            uint256 increase = shares - current;
+            _magnifiedDividendCorrections[account] -= int256(_magnifiedDividendPerShare * increase);
+            _totalDividendShares += increase;
+        } else {
+            uint256 decrease = current - shares;
+            _magnifiedDividendCorrections[account] += int256(_magnifiedDividendPerShare * decrease);
+            _totalDividendShares -= decrease;
+        }
+        _dividendShares[account] = shares;
+
+        if (shares > 0 && _dividendHolderIndex[account] == 0) {
+            _dividendHolders.push(account);
+            _dividendHolderIndex[account] = _dividendHolders.length;
+        } else if (shares == 0 && _dividendHolderIndex[account] != 0) {
+            uint256 index = _dividendHolderIndex[account] - 1;
+            address last = _dividendHolders[_dividendHolders.length - 1];
+            _dividendHolders[index] = last;
+            _dividendHolderIndex[last] = index + 1;
+            _dividendHolders.pop();
+            delete _dividendHolderIndex[account];
+        }
+    }`,
+    `function _distributeDividends(uint256 ethAmount) internal {
+        // Undistributed funds stay in the contract until someone holds enough to be eligible
+        if (ethAmount == 0 || _totalDividendShares == 0) return;
+
+        uint256 amount = ethAmount;
+        if (rewardToken != address(0)) {
+            address[] memory path = new address[](2);
+            path[0] = swapRouter.WETH();
+            path[1] = rewardToken;
+
+            uint256 initialBalance = IERC20(rewardToken).balanceOf(address(this));
+            swapRouter.swapExactETHForTokensSupportingFeeOnTransferTokens{value: ethAmount}(0, path, address(this), block.timestamp);
+            amount = IERC20(rewardToken).balanceOf(address(this)) - initialBalance;
+        }
+
+        _magnifiedDividendPerShare += (amount * _MAGNITUDE) / _totalDividendShares;
+        totalDividendsDistributed += amount;
+        emit DividendsDistributed(amount);
+    }`,
+    `function _payDividend(address account, bool automatic) internal returns (bool) {
+        uint256 amount = withdrawableDividendOf(account);
+        if (amount == 0) return false;
+
+        _withdrawnDividends[account] += amount;
+        bool paid;
+        if (rewardToken == address(0)) {
+            // Limited gas in the processing loop so a contract holder cannot stall it; claims forward all gas
+            (paid, ) = automatic
+                ? payable(account).call{value: amount, gas: 3000}("")
+                : payable(account).call{value: amount}("");
+        } else {
+            try IERC20(rewardToken).transfer(account, amount) returns (bool success) {
+                paid = success;
+            } catch {}
+        }
+
+        if (!paid) {
+            _withdrawnDividends[account] -= amount;
+            return false;
+        }
+        emit DividendClaimed(account, amount, automatic);
+        return true;
+    }`,
+    `function _processDividends(uint256 gas) internal returns (uint256 iterations, uint256 claims) {
+        uint256 holderCount = _dividendHolders.length;
+        if (holderCount == 0) return (0, 0);
+
+        uint256 index = lastProcessedIndex;
+        uint256 gasUsed = 0;
+        uint256 gasLeft = gasleft();
+
+        while (gasUsed < gas && iterations < holderCount) {
+            index = index + 1 >= holderCount ? 0 : index + 1;
+            if (_payDividend(_dividendHolders[index], true)) {
+                claims++;
+            }
+            iterations++;
+
+            uint256 newGasLeft = gasleft();
+            if (gasLeft > newGasLeft) {
+                gasUsed += gasLeft - newGasLeft;
+            }
+            gasLeft = newGasLeft;
+        }
+
+        lastProcessedIndex = index;
+        emit DividendsProcessed(iterations, claims, index);
+    }`,
+    `function _setDividendSettings(uint256 minimumBalance, uint256 gas) internal {
+        require(gas <= 1000000, "Processing gas too high");
+        minimumBalanceForDividends = minimumBalance;
+        gasForProcessing = gas;
+        emit DividendSettingsUpdated(minimumBalance, gas);
+    }`,
+    `function accumulativeDividendOf(address account) public view returns (uint256) {
+        return uint256(int256(_magnifiedDividendPerShare * _dividendShares[account]) + _magnifiedDividendCorrections[account]) / _MAGNITUDE;
+    }`,
+    `function withdrawableDividendOf(address account) public view returns (uint256) {
+        return accumulativeDividendOf(account) - _withdrawnDividends[account];
+    }`,
+    `function withdrawnDividendOf(address account) external view returns (uint256) {
+        return _withdrawnDividends[account];
+    }`,
+    `function dividendHolderCount() external view returns (uint256) {
+        return _dividendHolders.length;
+    }`,
+    `function claimDividends() external {
+        require(_payDividend(msg.sender, false), "No dividends to claim");
+    }`,
+    `function processDividends(uint256 gas) external returns (uint256 iterations, uint256 claims) {
+        return _processDividends(gas);
+    }`,
+    `function setDividendSettings(uint256 minimumBalance, uint256 gas) external onlyOwner {
+        _setDividendSettings(minimumBalance, gas);
+    }`,
+    `function setExcludedFromDividends(address account, bool excluded) external onlyOwner {
+        require(account != address(this) && account != liquidityPair, "Always excluded");
+        isExcludedFromDividends[account] = excluded;
+        _updateDividendShares(account);
+        emit DividendExclusionUpdated(account, excluded);
+    }`
+  ]
+};
+
+const redistributionFragment: ContractFragment = {
+  state: [
+    'uint256 public redistributionPercentage; // Redistribution percentage (0-500 = 0-5%)',
+    'mapping(address => uint256) private _lastClaimTime;',
+    'mapping(address => bool) private _excludedFromRewards;',
+    'uint256 private _totalRewards;',
+    'uint256 private _rewardsPerToken;',
+    'uint256 private _lastUpdateTime;'
+  ],
+  constructorParams: ['uint256 redistributionPercentage_'],
+  constructorBody: [
+    'redistributionPercentage = redistributionPercentage_;',
+    '_lastUpdateTime = block.timestamp;'
+  ],
+  functions: [
+    `function _updateRewards() internal {
+        if (totalSupply() > 0) {
+            uint256 timeDelta = block.timestamp - _lastUpdateTime;
+            if (timeDelta > 0 && _totalRewards > 0) {
+                _rewardsPerToken += (_totalRewards * 1e18) / totalSupply();
+                _totalRewards = 0;
+            }
+        }
+        _lastUpdateTime = block.timestamp;
+    }`,
+    `function claimRewards() external {
+        _updateRewards();
+
+        uint256 rewards = getUnclaimedRewards(msg.sender);
+        if (rewards > 0) {
+            _lastClaimTime[msg.sender] = block.timestamp;
+            _mint(msg.sender, rewards);
+        }
+    }`,
+    `function getUnclaimedRewards(address account) public view returns (uint256) {
+        if (_excludedFromRewards[account]) return 0;
+
+        uint256 accountBalance = balanceOf(account);
+        if (accountBalance == 0) return 0;
+
+        return (accountBalance * _rewardsPerToken) / 1e18;
+    }`,
+    `function setRedistributionPercentage(uint256 percentage) external onlyOwner {
+        require(percentage <= 500, "Percentage too high"); // Max 5%
+        redistributionPercentage = percentage;
+    }`,
+    `function excludeFromRewards(address account, bool excluded) external onlyOwner {
+        _excludedFromRewards[account] = excluded;
+    }`
+  ]
+};
+
+// Reflection keeps its own rOwned/tOwned ledger instead of ERC20 balances: fees shrink the
+// reflected supply, so every included holder's balance grows without claiming
+const reflectionFragment: ContractFragment = {
+  state: [
+    'uint256 public reflectionFee; // Reflection percentage (0-500 = 0-5%)',
+    'uint256 private constant _INITIAL_RATE = 1e30;',
+    'mapping(address => uint256) private _rOwned;',
+    'mapping(address => uint256) private _tOwned;',
+    'mapping(address => uint256) private _received;',
+    'mapping(address => uint256) private _sent;',
+    'mapping(address => bool) private _isExcludedFromReflection;',
+    'address[] private _excludedFromReflection;',
+    'uint256 private _tTotal;',
+    'uint256 private _rTotal;',
+    'uint256 private _tFeeTotal;'
+  ],
+  events: [
+    'event ReflectionExclusionUpdated(address indexed account, bool excluded);'
+  ],
+  constructorParams: ['uint256 reflectionFee_'],
+  constructorBody: [
+    'reflectionFee = reflectionFee_;'
+  ],
+  functions: [
+    `function totalSupply() public view virtual override returns (uint256) {
+        return _tTotal;
+    }`,
+    `function balanceOf(address account) public view virtual override returns (uint256) {
+        if (_isExcludedFromReflection[account]) return _tOwned[account];
+        return tokenFromReflection(_rOwned[account]);
+    }`,
+    `function totalReflected() external view returns (uint256) {
+        return _tFeeTotal;
+    }`,
+    `function reflectionsEarned(address account) external view returns (uint256) {
+        // Everything held or sent beyond what was received came from reflections
+        uint256 credited = balanceOf(account) + _sent[account];
+        return credited > _received[account] ? credited - _received[account] : 0;
+    }`,
+    `function isExcludedFromReflection(address account) external view returns (bool) {
+        return _isExcludedFromReflection[account];
+    }`,
+    `function tokenFromReflection(uint256 rAmount) public view returns (uint256) {
+        return rAmount / _getRate();
+    }`,
+    `function _getRate() private view returns (uint256) {
+        if (_tTotal == 0) return _INITIAL_RATE;
+
+        uint256 rSupply = _rTotal;
+        uint256 tSupply = _tTotal;
+        for (uint256 i = 0; i < _excludedFromReflection.length; i++) {
+            address account = _excludedFromReflection[i];
+            if (_rOwned[account] > rSupply || _tOwned[account] > tSupply) return _rTotal / _tTotal;
+            rSupply -= _rOwned[account];
+            tSupply -= _tOwned[account];
+        }
+        if (tSupply == 0 || rSupply < _rTotal / _tTotal) return _rTotal / _tTotal;
+        return rSupply / tSupply;
+    }`,
+    `function _move(address from, address to, uint256 amount) internal {
+        require(balanceOf(from) >= amount, "ERC20: transfer amount exceeds balance");
+
+        uint256 rAmount = amount * _getRate();
+        _rOwned[from] -= rAmount;
+        _rOwned[to] += rAmount;
+        if (_isExcludedFromReflection[from]) _tOwned[from] -= amount;
+        if (_isExcludedFromReflection[to]) _tOwned[to] += amount;
+
+        _sent[from] += amount;
+        _received[to] += amount;
+        emit Transfer(from, to, amount);
+    }`,
+    `function _reflect(address from, uint256 amount) internal {
+        require(balanceOf(from) >= amount, "ERC20: transfer amount exceeds balance");
+
+        uint256 rAmount = amount * _getRate();
+        _rOwned[from] -= rAmount;
+        if (_isExcludedFromReflection[from]) _tOwned[from] -= amount;
+
+        _rTotal -= rAmount;
+        _tFeeTotal += amount;
+        _sent[from] += amount;
+    }`,
+    `function _mint(address account, uint256 amount) internal virtual override {
+        require(account != address(0), "ERC20: mint to the zero address");
+
+        uint256 rAmount = amount * _getRate();
+        _tTotal += amount;
+        _rTotal += rAmount;
+        _rOwned[account] += rAmount;
+        if (_isExcludedFromReflection[account]) _tOwned[account] += amount;
+
+        _received[account] += amount;
+        emit Transfer(address(0), account, amount);
+    }`,
+    `function _burn(address account, uint256 amount) internal virtual override {
+        require(account != address(0), "ERC20: burn from the zero address");
+        require(balanceOf(account) >= amount, "ERC20: burn amount exceeds balance");
+
+        uint256 rAmount = amount * _getRate();
+        _rOwned[account] -= rAmount;
+        if (_isExcludedFromReflection[account]) _tOwned[account] -= amount;
+        _tTotal -= amount;
+        _rTotal -= rAmount;
+
+        _sent[account] += amount;
+        emit Transfer(account, address(0), amount);
+    }`,
+    `function excludeFromReflection(address account) external onlyOwner {
+        require(!_isExcludedFromReflection[account], "Already excluded");
+        require(_excludedFromReflection.length < 50, "Too many exclusions");
+
+        if (_rOwned[account] > 0) {
+            _tOwned[account] = tokenFromReflection(_rOwned[account]);
+        }
+        _isExcludedFromReflection[account] = true;
+        _excludedFromReflection.push(account);
+        emit ReflectionExclusionUpdated(account, true);
+    }`,
+    `function includeInReflection(address account) external onlyOwner {
+        require(_isExcludedFromReflection[account], "Not excluded");
+
+        uint256 rate = _getRate();
+        for (uint256 i = 0; i < _excludedFromReflection.length; i++) {
+            if (_excludedFromReflection[i] == account) {
+                _excludedFromReflection[i] = _excludedFromReflection[_excludedFromReflection.length - 1];
+                _excludedFromReflection.pop();
+                break;
+            }
+        }
+
+        // Re-enter at the current rate so the account does not collect reflections from while it was excluded
+        uint256 rAmount = _tOwned[account] * rate;
+        _rTotal = _rTotal - _rOwned[account] + rAmount;
+        _rOwned[account] = rAmount;
+        _tOwned[account] = 0;
+        _isExcludedFromReflection[account] = false;
+        emit ReflectionExclusionUpdated(account, false);
+    }`,
+    `function setReflectionFee(uint256 fee) external onlyOwner {
+        require(fee <= 500, "Fee too high"); // Max 5%
+        reflectionFee = fee;
+    }`
+  ]
+};
+
+// Settings are grouped in a struct to keep the constructor within the stack limit. No AMM pair is held to the wallet
+// limit or flagged as a sniper. With taxes the taxes fragment registers the pairs and the main pair is exempt from
+// the start; without taxes the owner registers pairs here
+function buildAntiWhaleFragment(features: TokenContractFeatures): ContractFragment {
+  const registersPairs = !features.taxes;
+  return {
+    structs: [
+      `struct TradingLimits {
+        uint256 maxTransactionBps;
+        uint256 maxWalletBps;
+        uint256 launchProtectionBlocks;
+        address[] exemptions;
+    }`
+    ],
+    state: [
+      'bool public tradingEnabled;',
+      'uint256 public tradingEnabledBlock;',
+      'uint256 public launchProtectionBlocks;',
+      'uint256 public maxTransactionAmount; // 0 = no limit',
+      'uint256 public maxWalletAmount; // 0 = no limit',
+      'mapping(address => bool) public isExemptFromLimits;',
+      'mapping(address => bool) public isSniper;',
+      ...(registersPairs ? ['mapping(address => bool) public automatedMarketMakerPairs;'] : [])
+    ],
+    events: [
+      'event TradingEnabled(uint256 blockNumber);',
+      'event LimitsUpdated(uint256 maxTransactionAmount, uint256 maxWalletAmount);',
+      'event LimitExemptionUpdated(address indexed account, bool exempt);',
+      'event SniperUpdated(address indexed account, bool flagged);',
+      ...(registersPairs ? ['event AutomatedMarketMakerPairUpdated(address indexed pair, bool value);'] : [])
+    ],
+    constructorParams: ['TradingLimits memory limits'],
+    constructorBody: [
+      'maxTransactionAmount = (initialSupply * limits.maxTransactionBps) / 10000;',
+      'maxWalletAmount = (initialSupply * limits.maxWalletBps) / 10000;',
+      'launchProtectionBlocks = limits.launchProtectionBlocks;',
+      'isExemptFromLimits[owner] = true;',
+      'isExemptFromLimits[address(this)] = true;',
+      ...(registersPairs ? [] : ['if (liquidityPair != address(0)) isExemptFromLimits[liquidityPair] = true;']),
+      `for (uint256 i = 0; i < limits.exemptions.length; i++) {
+            isExemptFromLimits[limits.exemptions[i]] = true;
+        }`
+    ],
+    upgradeSetup: [
+      'isExemptFromLimits[owner()] = true;',
+      'isExemptFromLimits[address(this)] = true;'
+    ],
+    functions: [
+      `function _checkTradingLimits(address from, address to, uint256 amount) internal {
+        bool fromExempt = isExemptFromLimits[from];
+        bool toExempt = isExemptFromLimits[to];
+
+        require(!isSniper[from], "Sender flagged as sniper");
+
+        if (!fromExempt && !toExempt) {
+            require(tradingEnabled, "Trading not enabled");
+            require(maxTransactionAmount == 0 || amount <= maxTransactionAmount, "Exceeds max transaction amount");
+        }
+
+        if (!toExempt && !automatedMarketMakerPairs[to]) {
+            require(maxWalletAmount == 0 || balanceOf(to) + amount <= maxWalletAmount, "Exceeds max wallet amount");
+
+            // Buyers in the launch blocks are flagged until the owner clears them
+            if (tradingEnabled && block.number < tradingEnabledBlock + launchProtectionBlocks) {
+                isSniper[to] = true;
+                emit SniperUpdated(to, true);
+            }
+        }
+    }`,
+      `function enableTrading() external onlyOwner {
+        require(!tradingEnabled, "Trading already enabled");
+        tradingEnabled = true;
+        tradingEnabledBlock = block.number;
+        emit TradingEnabled(block.number);
+    }`,
+      `function setMaxTransactionAmount(uint256 amount) external onlyOwner {
+        require(amount == 0 || amount >= totalSupply() / 1000, "Limit too low"); // Min 0.1% of supply
+        maxTransactionAmount = amount;
+        emit LimitsUpdated(maxTransactionAmount, maxWalletAmount);
+    }`,
+      `function setMaxWalletAmount(uint256 amount) external onlyOwner {
+        require(amount == 0 || amount >= totalSupply() / 1000, "Limit too low"); // Min 0.1% of supply
+        maxWalletAmount = amount;
+        emit LimitsUpdated(maxTransactionAmount, maxWalletAmount);
+    }`,
+      `function setExemptFromLimits(address account, bool exempt) external onlyOwner {
+        isExemptFromLimits[account] = exempt;
+        emit LimitExemptionUpdated(account, exempt);
+    }`,
+      `function setSniper(address account, bool flagged) external onlyOwner {
+        require(!flagged || !automatedMarketMakerPairs[account], "Cannot flag an AMM pair");
+        isSniper[account] = flagged;
+        emit SniperUpdated(account, flagged);
+    }`,
+      ...(registersPairs ? [
+        `function setAutomatedMarketMakerPair(address pair, bool value) external onlyOwner {
+        automatedMarketMakerPairs[pair] = value;
+        emit AutomatedMarketMakerPairUpdated(pair, value);
+    }`
+      ] : [])
+    ]
+  };
+}
+
+// EIP-2612 approvals by signature; the EIP-712 domain is named after the token
+const permitFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol'],
+  bases: ['ERC20Permit'],
+  baseConstructors: ['ERC20Permit(name)']
+};
+
+// Delegation and block-number checkpoints for Governor-style voting
+const votesFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol'],
+  bases: ['ERC20Votes']
+};
+
+const snapshotFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/token/ERC20/extensions/ERC20Snapshot.sol'],
+  bases: ['ERC20Snapshot'],
+  functions: [
+    `function snapshot() external onlyOwner returns (uint256) {
+        return _snapshot();
+    }`,
+    `function currentSnapshotId() external view returns (uint256) {
+        return _getCurrentSnapshotId();
+    }`
+  ]
+};
+
+const pausableFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/security/Pausable.sol'],
+  bases: ['Pausable'],
+  functions: [
+    `function pause() external onlyOwner {
+        _pause();
+    }`,
+    `function unpause() external onlyOwner {
+        _unpause();
+    }`
+  ]
+};
+
+// Blacklisted addresses can neither send nor receive, including mints and burns
+const blacklistFragment: ContractFragment = {
+  state: ['mapping(address => bool) public isBlacklisted;'],
+  events: ['event BlacklistUpdated(address indexed account, bool blacklisted);'],
+  functions: [
+    `function _setBlacklisted(address account, bool blacklisted) internal {
+        require(account != owner(), "Cannot blacklist the owner");
+        isBlacklisted[account] = blacklisted;
+        emit BlacklistUpdated(account, blacklisted);
+    }`,
+    `function setBlacklisted(address account, bool blacklisted) external onlyOwner {
+        _setBlacklisted(account, blacklisted);
+    }`,
+    `function setBlacklistedBatch(address[] calldata accounts, bool blacklisted) external onlyOwner {
+        require(accounts.length <= 200, "Too many accounts");
+        for (uint256 i = 0; i < accounts.length; i++) {
+            _setBlacklisted(accounts[i], blacklisted);
+        }
+    }`
+  ]
+};
+
+// Minting, pausing and fee changes move to roles; the owner stays role admin and keeps every other setting
+const rolesFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/access/AccessControl.sol'],
+  bases: ['AccessControl'],
+  state: [
+    'bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");',
+    'bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");',
+    'bytes32 public constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");'
+  ],
+  constructorBody: [
+    '_grantRole(MINTER_ROLE, owner);',
+    '_grantRole(PAUSER_ROLE, owner);',
+    '_grantRole(FEE_MANAGER_ROLE, owner);'
+  ],
+  functions: [
+    `function _transferOwnership(address newOwner) internal virtual override {
+        address previousOwner = owner();
+        super._transferOwnership(newOwner);
+
+        // Role administration follows ownership, including transfers to a multisig
+        if (newOwner != address(0)) {
+            _grantRole(DEFAULT_ADMIN_ROLE, newOwner);
+        }
+        if (previousOwner != address(0) && previousOwner != newOwner) {
+            _revokeRole(DEFAULT_ADMIN_ROLE, previousOwner);
+
+            // So do the operational roles the previous owner held; renouncing ownership gives them up
+            bytes32[3] memory roles = [MINTER_ROLE, PAUSER_ROLE, FEE_MANAGER_ROLE];
+            for (uint256 i = 0; i < roles.length; i++) {
+                if (hasRole(roles[i], previousOwner)) {
+                    _revokeRole(roles[i], previousOwner);
+                    if (newOwner != address(0)) _grantRole(roles[i], newOwner);
+                }
+            }
+        }
+    }`
+  ]
+};
+
+// Functions that switch from onlyOwner to a role when roles are enabled
+const ROLE_GATED_FUNCTIONS: Record<string, string> = {
+  mint: 'MINTER_ROLE',
+  pause: 'PAUSER_ROLE',
+  unpause: 'PAUSER_ROLE',
+  setTransferFee: 'FEE_MANAGER_ROLE',
+  setFeeRecipient: 'FEE_MANAGER_ROLE',
+  setTaxes: 'FEE_MANAGER_ROLE',
+  setTaxRecipients: 'FEE_MANAGER_ROLE',
+  setSwapThreshold: 'FEE_MANAGER_ROLE',
+  setRedistributionPercentage: 'FEE_MANAGER_ROLE',
+  setReflectionFee: 'FEE_MANAGER_ROLE'
+};
+
+// Supply moves between chains through one bridge adapter, which burns tokens on the way out and mints them on
+// arrival; pointing the token at another adapter swaps the messaging layer behind it. The first adapter is set
+// right away, replacing it waits out a delay so holders see a new minter coming
+const bridgeableFragment: ContractFragment = {
+  state: [
+    'address public bridge;',
+    'address public pendingBridge;',
+    'uint256 public bridgeChangeTime;',
+    'uint256 public constant BRIDGE_CHANGE_DELAY = 2 days;'
+  ],
+  events: [
+    'event BridgeUpdated(address indexed previousBridge, address indexed newBridge);',
+    'event BridgeChangeScheduled(address indexed newBridge, uint256 effectiveTime);'
+  ],
+  functions: [
+    `function setBridge(address newBridge) external onlyOwner {
+        require(newBridge != address(0), "Invalid bridge");
+        if (bridge == address(0)) {
+            emit BridgeUpdated(address(0), newBridge);
+            bridge = newBridge;
+        } else {
+            pendingBridge = newBridge;
+            bridgeChangeTime = block.timestamp + BRIDGE_CHANGE_DELAY;
+            emit BridgeChangeScheduled(newBridge, bridgeChangeTime);
+        }
+    }`,
+    `function applyBridgeChange() external onlyOwner {
+        require(pendingBridge != address(0), "No bridge change scheduled");
+        require(block.timestamp >= bridgeChangeTime, "Bridge change is timelocked");
+        emit BridgeUpdated(bridge, pendingBridge);
+        bridge = pendingBridge;
+        pendingBridge = address(0);
+        bridgeChangeTime = 0;
+    }`,
+    `function cancelBridgeChange() external onlyOwner {
+        require(pendingBridge != address(0), "No bridge change scheduled");
+        pendingBridge = address(0);
+        bridgeChangeTime = 0;
+        emit BridgeChangeScheduled(address(0), 0);
+    }`,
+    `function bridgeMint(address to, uint256 amount) external {
+        require(msg.sender == bridge, "Caller is not the bridge");
+        // Bridged supply was burned on another chain, but no chain holds more than the max supply even if an
+        // adapter is compromised
+        require(_maxSupply == 0 || totalSupply() + amount <= _maxSupply, "Max supply exceeded");
+        _mint(to, amount);
+    }`,
+    `function bridgeBurn(address from, uint256 amount) external {
+        require(msg.sender == bridge, "Caller is not the bridge");
+        // Holders approve the adapter for what they bridge, as for any other spender
+        _spendAllowance(from, msg.sender, amount);
+        _burn(from, amount);
+    }`
+  ]
+};
+
+// Upgrades go through the proxy to a new implementation and stay with the owner, never a role
+const upgradeableFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol'],
+  bases: ['UUPSUpgradeable'],
+  functions: [
+    `function _authorizeUpgrade(address) internal virtual override onlyOwner {}`
+  ]
+};
+
+// OpenZeppelin's proxy-compatible contracts mirror the regular ones with an Upgradeable suffix
+const OPENZEPPELIN_PATH = '@openzeppelin/contracts/';
+const OPENZEPPELIN_UPGRADEABLE_PATH = '@openzeppelin/contracts-upgradeable/';
+
+const toUpgradeableName = (name: string) => name.endsWith('Upgradeable') ? name : `${name}Upgradeable`;
+
+const toUpgradeableImport = (path: string) => path.startsWith(OPENZEPPELIN_PATH)
+  ? `${OPENZEPPELIN_UPGRADEABLE_PATH}${path.slice(OPENZEPPELIN_PATH.length).replace(/\.sol$/, 'Upgradeable.sol')}`
+  : path;
+
+// Ownership is always last in the inheritance list and the constructor; handovers
+// only complete once the new owner accepts, so a mistyped address cannot take the token
+const ownableFragment: ContractFragment = {
+  imports: ['@openzeppelin/contracts/access/Ownable2Step.sol'],
+  bases: ['Ownable2Step'],
+  constructorParams: ['address owner']
+};
+
+// Fees, taxes, redistribution and reflection all skim from the same transfer, so their hook is built together
+function buildTransferHook(features: TokenContractFeatures): string | null {
+  const { transferFees, taxes, dividends, holderRedistribution, reflection, antiWhale } = features;
+  const charged = transferFees || taxes;
+  const takeFee = taxes ? '_takeTax(from, feeAmount);' : 'super._transfer(from, feeRecipient, feeAmount);';
+
+  // Each skim is computed from the full amount and applied before the remainder moves
+  const skims = [
+    charged && {
+      condition: taxes ? 'taxRate > 0' : 'transferFeePercentage > 0',
+      amount: 'feeAmount',
+      compute: `(amount * ${taxes ? 'taxRate' : 'transferFeePercentage'}) / 10000`,
+      apply: takeFee
+    },
+    holderRedistribution && {
+      condition: 'redistributionPercentage > 0',
+      amount: 'redistributionAmount',
+      compute: '(amount * redistributionPercentage) / 10000',
+      apply: '_totalRewards += redistributionAmount;'
+    },
+    // Reflecting changes the rate, so it runs last to keep every move in the transfer at one rate
+    reflection && {
+      condition: 'reflectionFee > 0',
+      amount: 'reflectionAmount',
+      compute: '(amount * reflectionFee) / 10000',
+      apply: '_reflect(from, reflectionAmount);',
+      afterTransfer: true
+    }
+  ].filter(Boolean) as Array<{ condition: string; amount: string; compute: string; apply: string; afterTransfer?: boolean }>;
+
+  if (skims.length === 0) {
+    return antiWhale ? [
+      'function _transfer(address from, address to, uint256 amount) internal virtual override {',
+      '        _checkTradingLimits(from, to, amount);',
+      '        super._transfer(from, to, amount);',
+      '    }'
+    ].join('\n') : null;
+  }
+
+  const lines = [
+    'function _transfer(address from, address to, uint256 amount) internal virtual override {',
+    '        require(from != address(0), "ERC20: transfer from the zero address");',
+    '        require(to != address(0), "ERC20: transfer to the zero address");',
+    ''
+  ];
+
+  // Limits apply to the full amount before any of it is skimmed
+  if (antiWhale) {
+    lines.push('        _checkTradingLimits(from, to, amount);', '');
+  }
+  // Collected taxes are sold before the seller's own tokens reach the pair
+  if (taxes) {
+    lines.push('        if (_shouldSwapBack(to)) {', '            _swapBack();', '        }', '');
+  }
+  if (holderRedistribution) {
+    lines.push('        _updateRewards();', '');
+  }
+  if (taxes) {
+    lines.push('        uint256 taxRate = _taxRate(from, to);', '');
+  }
+
+  const condition = skims.length > 1
+    ? `(${skims.map(skim => skim.condition).join(' || ')})`
+    : skims[0].condition;
+  lines.push(`        if (${condition} && from != owner() && to != owner()${taxes ? ' && !_swapping' : ''}) {`);
+
+  for (const skim of skims) {
+    lines.push(`            uint256 ${skim.amount} = ${skim.compute};`);
+  }
+  lines.push(`            uint256 transferAmount = amount${skims.map(skim => ` - ${skim.amount}`).join('')};`, '');
+
+  const applySkim = (skim: typeof skims[number]) => skims.length > 1
+    ? [`            if (${skim.amount} > 0) {`, `                ${skim.apply}`, '            }']
+    : [`            ${skim.apply}`];
+
+  for (const skim of skims.filter(skim => !skim.afterTransfer)) {
+    lines.push(...applySkim(skim), ...(skims.length > 1 ? [''] : []));
+  }
+  lines.push('            super._transfer(from, to, transferAmount);');
+  for (const skim of skims.filter(skim => skim.afterTransfer)) {
+    lines.push(...(skims.length > 1 ? [''] : []), ...applySkim(skim));
+  }
+
+  lines.push(
+    '        } else {',
+    '            super._transfer(from, to, amount);',
+    '        }'
+  );
+  // Pending dividends are paid out once the transfer has settled balances
+  if (dividends) {
+    lines.push('', '        if (!_swapping && gasForProcessing > 0) {', '            _processDividends(gasForProcessing);', '        }');
+  }
+  lines.push('    }');
+
+  return lines.join('\n');
+}
+
+// Balance bookkeeping hooks shared by extensions; more than one ERC20 base defining a hook needs an explicit override list
+function buildBalanceHooks(features: TokenContractFeatures): string[] {
+  const { dividends, votes, snapshot, pausable, blacklist } = features;
+  const votesOverride = votes ? 'override(ERC20, ERC20Votes)' : 'override';
+  const hooks: string[] = [];
+
+  // Restrictions run before any balance changes, so they also cover mints and burns
+  if (snapshot || pausable || blacklist) {
+    hooks.push([
+      `function _beforeTokenTransfer(address from, address to, uint256 amount) internal virtual ${snapshot ? 'override(ERC20, ERC20Snapshot)' : 'override'} {`,
+      ...(pausable ? ['        require(!paused(), "Token transfers are paused");'] : []),
+      ...(blacklist ? ['        require(!isBlacklisted[from] && !isBlacklisted[to], "Address is blacklisted");'] : []),
+      '        super._beforeTokenTransfer(from, to, amount);',
+      '    }'
+    ].join('\n'));
+  }
+  if (dividends || votes) {
+    hooks.push([
+      `function _afterTokenTransfer(address from, address to, uint256 amount) internal virtual ${votesOverride} {`,
+      '        super._afterTokenTransfer(from, to, amount);',
+      ...(dividends ? [
+        '        if (from != address(0)) _updateDividendShares(from);',
+        '        if (to != address(0)) _updateDividendShares(to);'
+      ] : []),
+      '    }'
+    ].join('\n'));
+  }
+  if (votes) {
+    hooks.push(`function _mint(address account, uint256 amount) internal virtual ${votesOverride} {
+        super._mint(account, amount);
+    }`, `function _burn(address account, uint256 amount) internal virtual ${votesOverride} {
+        super._burn(account, amount);
+    }`);
+  }
+
+  return hooks;
+}
+
+function describeFeatures(features: TokenContractFeatures): string {
+  const descriptions = [
+    features.burnable && 'burn',
+    features.mintable && 'mint',
+    features.transferFees && 'transfer fee',
+    features.taxes && 'buy/sell tax',
+    features.dividends && 'dividend',
+    features.holderRedistribution && 'holder redistribution',
+    features.reflection && 'reflection',
+    features.antiWhale && 'anti-whale',
+    features.permit && 'permit',
+    features.votes && 'voting',
+    features.snapshot && 'snapshot',
+    features.pausable && 'pause',
+    features.blacklist && 'blacklist',
+    features.roles && 'role-based access',
+    features.bridgeable && 'cross-chain bridge',
+    features.upgradeable && 'UUPS upgrade'
+  ].filter(Boolean) as string[];
+
+  if (descriptions.length === 0) {
+    return 'Basic ERC20 token with no additional features';
+  }
+  if (descriptions.length === 1) {
+    return `ERC20 token with ${descriptions[0]} functionality`;
+  }
+  return `ERC20 token with ${descriptions.slice(0, -1).join(', ')} and ${descriptions[descriptions.length - 1]} functionality`;
+}
+
+export function generateTokenContract(features: TokenContractFeatures): string {
+  const contractName = getTokenContractName(features);
+  const fragments = [
+    baseFragment,
+    features.burnable && burnableFragment,
+    features.mintable && mintableFragment,
+    features.transferFees && feeFragment,
+    features.taxes && buildTaxFragment(features),
+    features.dividends && dividendFragment,
+    features.holderRedistribution && redistributionFragment,
+    features.reflection && reflectionFragment,
+    features.antiWhale && buildAntiWhaleFragment(features),
+    features.permit && permitFragment,
+    features.votes && votesFragment,
+    features.snapshot && snapshotFragment,
+    features.pausable && pausableFragment,
+    features.blacklist && blacklistFragment,
+    features.roles && rolesFragment,
+    features.bridgeable && bridgeableFragment,
+    features.upgradeable && upgradeableFragment,
+    ownableFragment
+  ].filter(Boolean) as ContractFragment[];
+
+  const collect = (key: keyof ContractFragment) => fragments.flatMap(fragment => fragment[key] || []);
+  const interfaces = collect('interfaces');
+  const structs = collect('structs');
+  const events = collect('events');
+
+  // Hook goes after the mint function to match the order of the original templates
+  let functions = collect('functions');
+  const transferHook = buildTransferHook(features);
+  const hooks = [transferHook, ...buildBalanceHooks(features)].filter(Boolean) as string[];
+  functions.splice(features.mintable ? 3 : 2, 0, ...hooks);
+
+  // Reflection balances live outside ERC20 storage, so every token movement goes through its ledger
+  if (features.reflection) {
+    functions = functions.map(fn => fn.split('super._transfer(').join('_move('));
+  }
+  if (features.roles) {
+    functions = functions.map(fn => {
+      const role = ROLE_GATED_FUNCTIONS[/^function (\w+)\(/.exec(fn)?.[1] || ''];
+      return role ? fn.replace('onlyOwner', `onlyRole(${role})`) : fn;
+    });
+  }
+
+  const bases = collect('bases');
+  const baseConstructors = collect('baseConstructors');
+  const params = collect('constructorParams').map(param => `        ${param}`).join(',\n');
+  const body = collect('constructorBody');
+  let imports = collect('imports');
+  let setup: string;
+
+  if (features.upgradeable) {
+    imports = imports.map(toUpgradeableImport);
+    functions = functions.map(fn => fn.replace(/\b(IERC20|ERC20\w*)\b(?=[(,)])/g, toUpgradeableName));
+
+    // Proxies skip constructors, so every base is set up by its initializer in inheritance order
+    const initializerArgs = Object.fromEntries(baseConstructors.map(call => {
+      const [, base, args] = /^(\w+)\((.*)\)$/.exec(call)!;
+      return [base, args];
+    }));
+    const initializers = bases.map(base => `__${base}_init(${initializerArgs[base] || ''});`);
+
+    // Upgrades call this through upgradeToAndCall, so what the new implementation adds is set up with the upgrade
+    const upgradeSetup = collect('upgradeSetup');
+    functions.push(`function reinitialize() external reinitializer(_getInitializedVersion() + 1) onlyOwner {${
+      upgradeSetup.map(line => `\n        ${line}`).join('')}
+    }`);
+    setup = `    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+${params}
+    ) public initializer {
+${[...initializers, ...(body.length > 0 ? ['', ...body] : [])].map(line => line && `        ${line}`).join('\n')}`;
+  } else {
+    setup = `    constructor(
+${params}
+    ) ${baseConstructors.join(' ')} {
+${body.map(line => `        ${line}`).join('\n')}`;
+  }
+
+  const source = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+${imports.map(path => `import "${path}";`).join('\n')}
+${interfaces.length > 0 ? `\n${interfaces.join('\n\n')}\n` : ''}
+/**
+ * @title ${contractName}
+ * @dev ${describeFeatures(features)}
+ */
+contract ${contractName} is ${(features.upgradeable ? bases.map(toUpgradeableName) : bases).join(', ')} {
+${structs.length > 0 ? `${structs.map(struct => `    ${struct}`).join('\n\n')}\n\n` : ''}${collect('state').map(line => `    ${line}`).join('\n')}
+${events.length > 0 ? `\n${events.map(line => `    ${line}`).join('\n')}\n` : ''}
+${setup}
+
+        if (initialSupply > 0) {
+            _mint(owner, initialSupply);
+        }
+
+        _transferOwnership(owner);
+    }
+
+${functions.map(fn => `    ${fn}`).join('\n\n')}
+}
+`;
+
+  // ERC20Votes declares its own _maxSupply() limit, so the configured cap needs another name
+  return features.votes ? source.replace(/\b_maxSupply\b/g, '_supplyCap') : source;
+}
+
+// Constructor arguments in the order generateTokenContract declares them
+export function getTokenConstructorArgs(config: TokenConfig, owner: string = 'DEPLOYER_ADDRESS'): unknown[] {
+  const { transferFees, taxes, holderRedistribution, antiWhale } = config.features;
+  const contractFeatures = getTokenContractFeatures(config.features);
+  const args: unknown[] = [
+    config.name,
+    config.symbol,
+    config.decimals,
+    config.initialSupply,
+    config.maxSupply || '0'
+  ];
+
+  if (contractFeatures.transferFees) {
+    args.push(Math.floor(transferFees.percentage * 100), transferFees.recipient);
+  }
+  if (taxes && contractFeatures.taxes) {
+    // TaxSettings struct; shares are rounded so they still total 10000 with the liquidity share
+    args.push([
+      Math.round(taxes.buyPercentage * 100),
+      Math.round(taxes.sellPercentage * 100),
+      Math.round(taxes.transferPercentage * 100),
+      taxes.recipients.map(recipient => recipient.address),
+      taxes.recipients.map(recipient => Math.round(recipient.share * 100)),
+      Math.round(taxes.liquidityShare * 100),
+      taxes.router || ZERO_ADDRESS,
+      Math.round(taxes.swapThresholdPercentage * 100)
+    ]);
+  }
+  if (taxes?.dividends && contractFeatures.dividends) {
+    // DividendSettings struct; the dividend share is whatever the tax recipients leave over
+    args.push([
+      taxes.dividends.rewardToken || ZERO_ADDRESS,
+      taxes.dividends.minimumBalance || '0',
+      taxes.dividends.gasForProcessing
+    ]);
+  }
+  if (contractFeatures.holderRedistribution || contractFeatures.reflection) {
+    args.push(Math.floor(holderRedistribution.percentage * 100));
+  }
+  if (antiWhale?.enabled) {
+    // TradingLimits struct
+    args.push([
+      Math.floor(antiWhale.maxTransactionPercentage * 100),
+      Math.floor(antiWhale.maxWalletPercentage * 100),
+      antiWhale.launchProtectionBlocks,
+      antiWhale.exemptAddresses
+    ]);
+  }
+
+  args.push(owner);
+  return args;
+}
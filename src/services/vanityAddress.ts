@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+import { Network } from '../types';
+
+// CREATE2 addresses of tokens created through TokenFactory. The address only depends on the
+// factory address, the salt and the token's init code, so the same token created with the
+// same salt gets the same address on every chain the factory is deployed to at one address
+
+// The factory embeds the creation code of each type it creates, so it only takes the plain token
+// types; with more it would exceed the 24 KB contract size limit
+export const FACTORY_TOKEN_TYPES = [
+  'BasicToken',
+  'BurnableToken',
+  'MintableToken',
+  'BurnableMintableToken'
+];
+
+// Create functions take the token's constructor arguments followed by the salt
+const FACTORY_ABI = [
+  'function creationFee() view returns (uint256)',
+  'function getInitCodeHash(string tokenType, bytes constructorArgs) view returns (bytes32)',
+  'function createBasicToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)',
+  'function createBurnableToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)',
+  'function createMintableToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)',
+  'function createBurnableMintableToken(string name, string symbol, uint8 decimals, uint256 initialSupply, uint256 maxSupply, address tokenOwner, bytes32 salt) payable returns (address)'
+];
+
+const factoryInterface = new ethers.Interface(FACTORY_ABI);
+
+export interface VanityMatch {
+  salt: string;
+  address: string;
+}
+
+export interface FactoryDeploymentStatus {
+  network: Network;
+  status: 'available' | 'deployed' | 'no-factory' | 'unreachable';
+}
+
+// Hex characters only; every extra character makes the search 16 times longer
+export const isValidVanityPrefix = (prefix: string) => /^[0-9a-fA-F]{1,8}$/.test(prefix);
+
+// Salts are either a 32-byte hex value or a phrase that is hashed into one
+export const toSalt = (value: string) => ethers.isHexString(value, 32) ? value.toLowerCase() : ethers.id(value);
+
+export function encodeFactoryConstructorArgs(contractType: string, constructorArgs: unknown[]): string {
+  const create = factoryInterface.getFunction(`create${contractType}`);
+  if (!create) throw new Error(`${contractType} cannot be created through the factory`);
+
+  return ethers.AbiCoder.defaultAbiCoder().encode(create.inputs.slice(0, -1), constructorArgs);
+}
+
+// Asks the factory for the hash so it covers exactly the creation code the factory deploys
+export async function getFactoryInitCodeHash(
+  factoryAddress: string,
+  contractType: string,
+  constructorArgs: unknown[],
+  provider: ethers.Provider
+): Promise<string> {
+  const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
+  return factory.getInitCodeHash(contractType, encodeFactoryConstructorArgs(contractType, constructorArgs));
+}
+
+// Fee the factory charges per token, sent as the value of the create call
+export async function getFactoryCreationFee(factoryAddress: string, provider: ethers.Provider): Promise<bigint> {
+  const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
+  return factory.creationFee();
+}
+
+// Calldata of the factory call that creates the token, e.g. to estimate its gas
+export const encodeFactoryCreateCall = (contractType: string, constructorArgs: unknown[], salt: string) =>
+  factoryInterface.encodeFunctionData(`create${contractType}`, [...constructorArgs, salt]);
+
+export const predictFactoryTokenAddress = (factoryAddress: string, salt: string, initCodeHash: string) =>
+  ethers.getCreate2Address(factoryAddress, salt, initCodeHash);
+
+// Tries `attempts` consecutive salts from `startSalt` for an address starting with `prefix`
+export function searchVanitySalt(
+  factoryAddress: string,
+  initCodeHash: string,
+  prefix: string,
+  startSalt: string,
+  attempts: number
+): VanityMatch | null {
+  const target = prefix.toLowerCase();
+  // 0xff ++ factory (20 bytes) ++ salt (32 bytes, from offset 21) ++ init code hash (32 bytes)
+  const data = ethers.getBytes(ethers.concat(['0xff', factoryAddress, startSalt, initCodeHash]));
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const address = ethers.keccak256(data).slice(26);
+    if (address.startsWith(target)) {
+      return { salt: ethers.hexlify(data.slice(21, 53)), address: ethers.getAddress(`0x${address}`) };
+    }
+
+    for (let index = 52; index >= 21; index--) {
+      data[index] = (data[index] + 1) & 0xff;
+      if (data[index] !== 0) break;
+    }
+  }
+
+  return null;
+}
+
+// Whether the factory exists on each network and the token address is still free there
+export async function getFactoryDeployments(
+  factoryAddress: string,
+  tokenAddress: string,
+  networks: Network[]
+): Promise<FactoryDeploymentStatus[]> {
+  return Promise.all(networks.map(async network => {
+    try {
+      const provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+      const [factoryCode, tokenCode] = await Promise.all([provider.getCode(factoryAddress), provider.getCode(tokenAddress)]);
+      provider.destroy();
+
+      if (factoryCode === '0x') return { network, status: 'no-factory' as const };
+      return { network, status: tokenCode === '0x' ? 'available' as const : 'deployed' as const };
+    } catch {
+      return { network, status: 'unreachable' as const };
+    }
+  }));
+}
@@ -0,0 +1,32 @@
+import { ethers } from 'ethers';
+import { searchVanitySalt } from './vanityAddress';
+
+// Searches random salt ranges off the main thread until an address with the prefix is found
+
+export interface VanityMinerRequest {
+  factoryAddress: string;
+  initCodeHash: string;
+  prefix: string;
+}
+
+export type VanityMinerMessage =
+  | { type: 'progress'; attempts: number }
+  | { type: 'found'; attempts: number; salt: string; address: string };
+
+const BATCH_SIZE = 5000;
+
+self.onmessage = (event: MessageEvent<VanityMinerRequest>) => {
+  const { factoryAddress, initCodeHash, prefix } = event.data;
+  let attempts = 0;
+
+  for (;;) {
+    const match = searchVanitySalt(factoryAddress, initCodeHash, prefix, ethers.hexlify(ethers.randomBytes(32)), BATCH_SIZE);
+    if (match) {
+      self.postMessage({ type: 'found', attempts, ...match } as VanityMinerMessage);
+      return;
+    }
+
+    attempts += BATCH_SIZE;
+    self.postMessage({ type: 'progress', attempts } as VanityMinerMessage);
+  }
+};
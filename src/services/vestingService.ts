@@ -0,0 +1,439 @@
+import { ethers } from 'ethers';
+import { TokenConfig, VestingCategory } from '../types';
+import { VestingSchedule, VestingScheduleInput } from '../types/tokenManagement';
+import { getTokenContractFeatures } from './tokenContractGenerator';
+import { vestingUnlockIntervals } from '../data/vestingCategories';
+
+// TokenVesting schedules for a token's allocations. The deploying wallet receives the initial supply,
+// deploys TokenVesting and moves each configured allocation into it as one schedule per category.
+// A beneficiary can hold several schedules, each identified by its index in the contract
+
+// Schedule parameters are passed as ScheduleParams structs
+const SCHEDULE_PARAMS = 'tuple(address beneficiary, uint256 totalAmount, uint256 tgeAmount, uint256 startTime, uint256 cliffDuration, uint256 duration, uint256 slicePeriod, bool revocable)';
+
+export const VESTING_ABI = [
+  'function token() view returns (address)',
+  'function owner() view returns (address)',
+  'function getBeneficiaries() view returns (address[])',
+  'function getScheduleCount() view returns (uint256)',
+  'function getScheduleIds(address beneficiary) view returns (uint256[])',
+  'function getVestingSchedule(uint256 scheduleId) view returns (tuple(address beneficiary, uint256 totalAmount, uint256 tgeAmount, uint256 startTime, uint256 cliffDuration, uint256 duration, uint256 slicePeriod, uint256 releasedAmount, bool revocable, bool revoked) schedule, uint256 vestedAmount, uint256 releasableAmount)',
+  `function createVestingSchedule(${SCHEDULE_PARAMS} params) returns (uint256 scheduleId)`,
+  `function createVestingSchedules(${SCHEDULE_PARAMS}[] params)`,
+  'function release(uint256 scheduleId)',
+  'function releaseAll()',
+  'function revokeVesting(uint256 scheduleId)',
+  'event VestingScheduleCreated(uint256 indexed scheduleId, address indexed beneficiary, uint256 totalAmount)'
+];
+
+const VESTING_TOKEN_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function setExemptFromLimits(address account, bool exempt)'
+];
+
+export type VestingFundingStep = 'exempting' | 'approving' | 'creating';
+
+export interface VestingScheduleParams {
+  beneficiary: string;
+  amount: bigint; // In the token's smallest unit
+  tgeAmount: bigint; // Part of `amount` unlocked at the start
+  startTime: number; // Unix seconds
+  cliffDuration: number; // Seconds
+  duration: number; // Seconds from the start, including the cliff
+  slicePeriod: number; // Seconds between unlocks, at least 1
+  revocable: boolean;
+}
+
+export interface VestingAllocation extends VestingScheduleParams {
+  category: VestingCategory;
+}
+
+// One createVestingSchedules transaction and the schedule IDs it created, in order
+export interface VestingBatchResult {
+  transactionHash: string;
+  scheduleIds: number[];
+  schedules: VestingScheduleParams[];
+}
+
+// A row of an imported cap table; `line` counts from 1 and includes the header
+export interface VestingImportRow {
+  line: number;
+  schedule: VestingScheduleInput;
+  error?: string;
+}
+
+// Column order of the import template; files with a header row may order columns freely
+export const VESTING_IMPORT_COLUMNS = ['beneficiary', 'amount', 'startDate', 'durationDays', 'cliffDays', 'tgePercentage', 'unlockIntervalDays', 'revocable'] as const;
+
+type VestingImportColumn = typeof VESTING_IMPORT_COLUMNS[number];
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export const getUnlockIntervalLabel = (slicePeriod: number) => {
+  if (slicePeriod < SECONDS_PER_DAY) return 'Continuous';
+  const days = Math.round(slicePeriod / SECONDS_PER_DAY);
+  return vestingUnlockIntervals.find(interval => interval.days === days)?.label || `Every ${days} days`;
+};
+
+// Percentages have up to two decimals
+export const getPercentageAmount = (amount: bigint, percentage: number) =>
+  (amount * BigInt(Math.round(percentage * 100))) / BigInt(10000);
+
+// Start dates are calendar days and vesting starts at midnight UTC
+const toStartTime = (startDate: string) => Math.floor(Date.parse(`${startDate}T00:00:00Z`) / 1000);
+
+export function getVestingAllocations(config: TokenConfig): VestingAllocation[] {
+  const supply = ethers.parseUnits(config.initialSupply || '0', config.decimals);
+
+  return config.vesting
+    .filter(vest => vest.enabled && vest.percentage > 0)
+    .map(vest => {
+      const amount = getPercentageAmount(supply, vest.percentage);
+      return {
+        category: vest.category,
+        beneficiary: vest.beneficiary || '',
+        amount,
+        tgeAmount: getPercentageAmount(amount, vest.tgePercentage || 0),
+        startTime: toStartTime(vest.startDate),
+        cliffDuration: (vest.cliff || 0) * SECONDS_PER_DAY,
+        duration: vest.duration * SECONDS_PER_DAY,
+        slicePeriod: vest.unlockInterval ? vest.unlockInterval * SECONDS_PER_DAY : 1,
+        revocable: vest.revocable ?? true
+      };
+    });
+}
+
+export const getTotalVestingAmount = (allocations: VestingScheduleParams[]) =>
+  allocations.reduce((total, allocation) => total + allocation.amount, BigInt(0));
+
+export const toVestingScheduleParams = (schedule: VestingScheduleInput, decimals: number): VestingScheduleParams => {
+  const { tgePercentage, ...params } = schedule;
+  const amount = ethers.parseUnits(schedule.amount, decimals);
+  return { ...params, amount, tgeAmount: getPercentageAmount(amount, tgePercentage) };
+};
+
+const normalizeHeader = (cell: unknown) => String(cell ?? '').trim().toLowerCase().replace(/[^a-z]/g, '');
+
+// Spreadsheet cells arrive as strings from CSV files and as numbers, dates and booleans from XLSX files
+const parseImportCell = (column: VestingImportColumn, cell: unknown, decimals: number): { value?: string | number | boolean; error?: string } => {
+  const text = cell instanceof Date ? '' : String(cell ?? '').trim();
+
+  switch (column) {
+    case 'beneficiary':
+      return ethers.isAddress(text) ? { value: ethers.getAddress(text) } : { error: 'Invalid beneficiary address' };
+    case 'amount':
+      try {
+        return ethers.parseUnits(text, decimals) > BigInt(0) ? { value: text } : { error: 'Amount must be greater than 0' };
+      } catch {
+        return { error: 'Invalid amount' };
+      }
+    case 'startDate': {
+      const startTime = cell instanceof Date
+        ? Math.floor(Date.UTC(cell.getUTCFullYear(), cell.getUTCMonth(), cell.getUTCDate()) / 1000)
+        : /^\d{4}-\d{2}-\d{2}$/.test(text) ? toStartTime(text) : NaN;
+      return Number.isFinite(startTime) ? { value: startTime } : { error: 'Start date must be YYYY-MM-DD' };
+    }
+    case 'revocable':
+      if (typeof cell === 'boolean') return { value: cell };
+      if (['', 'true', 'yes', '1'].includes(text.toLowerCase())) return { value: true };
+      if (['false', 'no', '0'].includes(text.toLowerCase())) return { value: false };
+      return { error: 'Revocable must be yes or no' };
+    default: {
+      // Optional columns default to 0
+      const value = text === '' && column !== 'durationDays' ? 0 : Number(text);
+      return Number.isFinite(value) && value >= 0 ? { value } : { error: `Invalid ${column}` };
+    }
+  }
+};
+
+// Validates imported rows. A first row without an address is read as a header naming the columns;
+// otherwise columns follow VESTING_IMPORT_COLUMNS
+export function parseVestingImport(rows: unknown[][], decimals: number): VestingImportRow[] {
+  const hasHeader = rows.length > 0 && !rows[0].some(cell => ethers.isAddress(String(cell ?? '').trim()));
+  const headers = hasHeader ? rows[0].map(normalizeHeader) : [];
+  const columnIndex = (column: VestingImportColumn) => {
+    if (!hasHeader) return VESTING_IMPORT_COLUMNS.indexOf(column);
+    // Headers may drop the unit, e.g. "cliff" for cliffDays
+    const names = [normalizeHeader(column), normalizeHeader(column.replace(/(Days|Percentage)$/, ''))];
+    return headers.findIndex(header => names.includes(header));
+  };
+  const indexes = Object.fromEntries(VESTING_IMPORT_COLUMNS.map(column => [column, columnIndex(column)])) as Record<VestingImportColumn, number>;
+
+  return rows
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(hasHeader ? 1 : 0)
+    .filter(({ cells }) => cells.some(cell => String(cell ?? '').trim() !== ''))
+    .map(({ cells, line }) => {
+      const values = {} as Record<VestingImportColumn, string | number | boolean | undefined>;
+      let error: string | undefined;
+      for (const column of VESTING_IMPORT_COLUMNS) {
+        const parsed = parseImportCell(column, indexes[column] >= 0 ? cells[indexes[column]] : undefined, decimals);
+        values[column] = parsed.value;
+        error = error || parsed.error;
+      }
+
+      const durationDays = Number(values.durationDays || 0);
+      const cliffDays = Number(values.cliffDays || 0);
+      const unlockIntervalDays = Number(values.unlockIntervalDays || 0);
+      const tgePercentage = Number(values.tgePercentage || 0);
+      if (!error && durationDays <= 0) error = 'Duration must be at least 1 day';
+      if (!error && cliffDays > durationDays) error = 'Cliff cannot be longer than the duration';
+      if (!error && unlockIntervalDays > durationDays) error = 'Unlock interval cannot be longer than the duration';
+      if (!error && tgePercentage > 100) error = 'TGE unlock cannot exceed 100%';
+
+      return {
+        line,
+        schedule: {
+          beneficiary: String(values.beneficiary ?? cells[indexes.beneficiary] ?? ''),
+          amount: String(values.amount ?? cells[indexes.amount] ?? ''),
+          tgePercentage,
+          startTime: Number(values.startDate || 0),
+          cliffDuration: Math.round(cliffDays * SECONDS_PER_DAY),
+          duration: Math.round(durationDays * SECONDS_PER_DAY),
+          slicePeriod: unlockIntervalDays ? Math.round(unlockIntervalDays * SECONDS_PER_DAY) : 1,
+          revocable: values.revocable !== false
+        },
+        error
+      };
+    });
+}
+
+// Measured cost of createVestingSchedules: a fixed part plus each schedule of a new beneficiary
+const BATCH_BASE_GAS = BigInt(150000);
+const GAS_PER_SCHEDULE = BigInt(260000);
+// Batches stay under half the block gas limit and the 2^24 per-transaction cap some chains enforce
+const MAX_TRANSACTION_GAS = BigInt(16777216);
+
+export async function getVestingBatchSize(provider: ethers.Provider): Promise<number> {
+  const block = await provider.getBlock('latest');
+  const halfBlock = block ? block.gasLimit / BigInt(2) : MAX_TRANSACTION_GAS;
+  const budget = halfBlock < MAX_TRANSACTION_GAS ? halfBlock : MAX_TRANSACTION_GAS;
+  return Math.max(1, Number((budget - BATCH_BASE_GAS) / GAS_PER_SCHEDULE));
+}
+
+// Why the allocations cannot be funded when `deployer` deploys the token, or null when they can
+export function getVestingFundingIssue(config: TokenConfig, deployer: string): string | null {
+  const allocations = getVestingAllocations(config);
+  if (allocations.length === 0) return null;
+
+  if (config.initialOwner && config.initialOwner.toLowerCase() !== deployer.toLowerCase()) {
+    return 'The initial supply goes to the initial owner, who funds vesting from token management';
+  }
+
+  if ((config.additionalNetworks?.length ?? 0) > 0) {
+    return 'Vesting is set up per network from token management for multi-network deployments';
+  }
+
+  // Skims would leave the schedules short of the tokens they promise
+  const features = getTokenContractFeatures(config.features);
+  if (features.transferFees || features.holderRedistribution || features.reflection) {
+    return 'Transfer fees and redistribution apply to deposits into the vesting contract';
+  }
+
+  const invalid = allocations.find(allocation => !ethers.isAddress(allocation.beneficiary));
+  if (invalid) {
+    return `The ${invalid.category} allocation has no valid beneficiary`;
+  }
+
+  const unlocksLate = allocations.find(allocation =>
+    allocation.cliffDuration > allocation.duration || allocation.slicePeriod > allocation.duration
+  );
+  if (unlocksLate) {
+    return `The ${unlocksLate.category} allocation's cliff and unlock interval must fit in its duration`;
+  }
+
+  return null;
+}
+
+// Moves the allocations into the vesting contract, which must be owned by the signer. Tokens with
+// trading limits exempt the vesting contract first so its deposit is not capped by the max wallet.
+// Large imports are split into batches that fit the gas limit; `onBatch` reports each confirmed one,
+// so the batches before a failure are known
+export async function fundVestingSchedules(
+  vestingAddress: string,
+  tokenAddress: string,
+  allocations: VestingScheduleParams[],
+  signer: ethers.Signer,
+  options: {
+    exemptFromLimits?: boolean;
+    onStep?: (step: VestingFundingStep) => void;
+    onBatch?: (batch: VestingBatchResult) => void;
+  } = {}
+): Promise<VestingBatchResult[]> {
+  const token = new ethers.Contract(tokenAddress, VESTING_TOKEN_ABI, signer);
+  const vesting = new ethers.Contract(vestingAddress, VESTING_ABI, signer);
+  const total = getTotalVestingAmount(allocations);
+
+  if (options.exemptFromLimits) {
+    options.onStep?.('exempting');
+    await (await token.setExemptFromLimits(vestingAddress, true)).wait();
+  }
+
+  options.onStep?.('approving');
+  if (await token.allowance(await signer.getAddress(), vestingAddress) < total) {
+    await (await token.approve(vestingAddress, total)).wait();
+  }
+
+  options.onStep?.('creating');
+  const batchSize = signer.provider ? await getVestingBatchSize(signer.provider) : allocations.length;
+  const batches: VestingBatchResult[] = [];
+
+  for (let start = 0; start < allocations.length; start += batchSize) {
+    const schedules = allocations.slice(start, start + batchSize);
+    const tx = await vesting.createVestingSchedules(schedules.map(allocation => ({
+      beneficiary: allocation.beneficiary,
+      totalAmount: allocation.amount,
+      tgeAmount: allocation.tgeAmount,
+      startTime: allocation.startTime,
+      cliffDuration: allocation.cliffDuration,
+      duration: allocation.duration,
+      slicePeriod: allocation.slicePeriod,
+      revocable: allocation.revocable
+    })));
+    const receipt = await tx.wait();
+
+    const scheduleIds = (receipt?.logs || [])
+      .filter((log: ethers.Log) => log.address.toLowerCase() === vestingAddress.toLowerCase())
+      .map((log: ethers.Log) => vesting.interface.parseLog(log))
+      .filter((event: ethers.LogDescription | null) => event?.name === 'VestingScheduleCreated')
+      .map((event: ethers.LogDescription) => Number(event.args.scheduleId));
+
+    const batch = { transactionHash: tx.hash, scheduleIds, schedules };
+    batches.push(batch);
+    options.onBatch?.(batch);
+  }
+
+  return batches;
+}
+
+// The wallet funds new schedules; the vesting contract's balance should cover what its schedules still owe
+export async function getVestingBalances(
+  vestingAddress: string,
+  tokenAddress: string,
+  account: string,
+  provider: ethers.Provider
+): Promise<{ wallet: bigint; vesting: bigint }> {
+  const token = new ethers.Contract(tokenAddress, VESTING_TOKEN_ABI, provider);
+  const [wallet, vesting] = await Promise.all([
+    token.balanceOf(account),
+    vestingAddress ? token.balanceOf(vestingAddress) : BigInt(0)
+  ]);
+  return { wallet, vesting };
+}
+
+export async function getVestingSchedules(
+  vestingAddress: string,
+  decimals: number,
+  provider: ethers.Provider
+): Promise<VestingSchedule[]> {
+  const vesting = new ethers.Contract(vestingAddress, VESTING_ABI, provider);
+  const count = Number(await vesting.getScheduleCount());
+
+  return Promise.all(Array.from({ length: count }, async (_, id) => {
+    const { schedule, vestedAmount, releasableAmount } = await vesting.getVestingSchedule(id);
+    return {
+      id,
+      beneficiary: schedule.beneficiary,
+      totalAmount: ethers.formatUnits(schedule.totalAmount, decimals),
+      tgeAmount: ethers.formatUnits(schedule.tgeAmount, decimals),
+      startTime: Number(schedule.startTime),
+      cliffDuration: Number(schedule.cliffDuration),
+      duration: Number(schedule.duration),
+      slicePeriod: Number(schedule.slicePeriod),
+      releasedAmount: ethers.formatUnits(schedule.releasedAmount, decimals),
+      vestedAmount: ethers.formatUnits(vestedAmount, decimals),
+      releasableAmount: ethers.formatUnits(releasableAmount, decimals),
+      revocable: schedule.revocable,
+      revoked: schedule.revoked
+    };
+  }));
+}
+
+export interface VestingToken {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+// The token a vesting contract holds, for pages that only know the vesting contract
+export async function getVestingToken(vestingAddress: string, provider: ethers.Provider): Promise<VestingToken> {
+  const vesting = new ethers.Contract(vestingAddress, VESTING_ABI, provider);
+  const address = await vesting.token();
+  const token = new ethers.Contract(address, VESTING_TOKEN_ABI, provider);
+  const [name, symbol, decimals] = await Promise.all([token.name(), token.symbol(), token.decimals()]);
+  return { address, name, symbol, decimals: Number(decimals) };
+}
+
+// Shareable claim portal link; without a chain the portal reads through the connected wallet's network
+export const getVestingClaimUrl = (vestingAddress: string, chainId?: number) =>
+  `/claim/${vestingAddress}${chainId ? `?chain=${chainId}` : ''}`;
+
+// What a schedule had vested at `timestamp`, following TokenVesting. Revoking releases everything vested
+// at that moment and freezes the schedule, so a revoked schedule stays at its released amount
+export function getVestedAmountAt(schedule: VestingSchedule, timestamp: number): number {
+  const total = parseFloat(schedule.totalAmount);
+  const tge = parseFloat(schedule.tgeAmount);
+  let vested: number;
+
+  if (timestamp < schedule.startTime) {
+    vested = 0;
+  } else if (timestamp >= schedule.startTime + schedule.duration) {
+    vested = total;
+  } else if (timestamp < schedule.startTime + schedule.cliffDuration) {
+    vested = tge;
+  } else {
+    const elapsed = timestamp - schedule.startTime;
+    vested = tge + ((total - tge) * (elapsed - (elapsed % schedule.slicePeriod))) / schedule.duration;
+  }
+
+  return schedule.revoked ? Math.min(vested, parseFloat(schedule.releasedAmount)) : vested;
+}
+
+export interface VestingChartPoint {
+  time: number;
+  amount: number;
+}
+
+// Schedules unlocking in more slices than this are drawn from the even samples alone
+const MAX_CHART_SLICES = 100;
+
+// Total vested by `schedules` from the first start to the last end. Starts, cliffs, ends and unlock
+// slices are sampled a second before and at the moment they unlock, so their steps stay vertical
+export function getVestingChart(schedules: VestingSchedule[], samples = 100): VestingChartPoint[] {
+  if (schedules.length === 0) return [];
+
+  const from = Math.min(...schedules.map(schedule => schedule.startTime));
+  const to = Math.max(...schedules.map(schedule => schedule.startTime + schedule.duration));
+  const times = new Set<number>();
+
+  for (let i = 0; i <= samples; i++) {
+    times.add(Math.round(from + ((to - from) * i) / samples));
+  }
+  for (const schedule of schedules) {
+    const end = schedule.startTime + schedule.duration;
+    const steps = [schedule.startTime, schedule.startTime + schedule.cliffDuration, end];
+    if (schedule.duration / schedule.slicePeriod <= MAX_CHART_SLICES) {
+      for (let time = schedule.startTime + schedule.slicePeriod; time < end; time += schedule.slicePeriod) {
+        steps.push(time);
+      }
+    }
+    for (const time of steps) {
+      times.add(time - 1);
+      times.add(time);
+    }
+  }
+
+  return [...times]
+    .filter(time => time >= from - 1 && time <= to)
+    .sort((a, b) => a - b)
+    .map(time => ({
+      time,
+      amount: schedules.reduce((sum, schedule) => sum + getVestedAmountAt(schedule, time), 0)
+    }));
+}
@@ -1,7 +1,11 @@
 import { ethers } from 'ethers';
-import { Network } from '../types';
+import { FeeTierEstimate, Network } from '../types';
 import { AppError, ErrorType, reportError } from './errorHandler';
 import { CHAIN_CONFIG } from '../config/chainConfig';
+import { getFeeTierEstimates, getNetworkFees } from './gasEstimation';
+import { formatUsd, priceService } from './priceService';
+import { FACTORY_TOKEN_TYPES, encodeFactoryCreateCall, getFactoryCreationFee } from './vanityAddress';
+import { testnets } from '../data/networks';
 
 export class Web3Service {
   private provider: ethers.BrowserProvider | null = null;
@@ -409,86 +413,76 @@ export class Web3Service {
     }
   }
   
-  async estimateTokenDeploymentGas(contractType: string, constructorArgs: any[]): Promise<{
+  // Gas for deploying the token directly, or for creating it through the factory when a factory address
+  // is given and the factory exists on the current network, priced at the network's fee tiers
+  async estimateTokenDeploymentGas(contractType: string, constructorArgs: any[], options: {
+    factoryAddress?: string;
+    salt?: string;
+  } = {}): Promise<{
     gasEstimate: bigint;
     gasCost: string;
     gasCostUsd: string;
     timeEstimate: string;
+    factoryAvailable: boolean;
+    creationFee: bigint;
+    creationFeeUsd: number | null;
+    eip1559: boolean;
+    tiers: FeeTierEstimate[];
   }> {
     if (!this.provider) throw new AppError('Provider not connected', ErrorType.WALLET);
     if (!this.network) throw new AppError('Network not detected', ErrorType.NETWORK);
     
+    const timeEstimate = this.getTimeEstimate(this.network.chainId);
+    
     try {
-      // Get contract bytecode and ABI
-      const contractSource = await import('../services/contractSource');
-      const source = contractSource.getContractSource(contractType);
-      
-      // Use solc.js to compile the contract
-      const solc = await import('solc');
-      
-      const input = {
-        language: 'Solidity',
-        sources: {
-          'contract.sol': {
-            content: source
-          }
-        },
-        settings: {
-          outputSelection: {
-            '*': {
-              '*': ['abi', 'evm.bytecode']
-            }
-          },
-          optimizer: {
-            enabled: true,
-            runs: 200
-          }
-        }
-      };
-      
-      const output = JSON.parse(solc.compile(JSON.stringify(input)));
-      
-      if (output.errors) {
-        const errors = output.errors.filter((error: any) => error.severity === 'error');
-        if (errors.length > 0) {
-          throw new AppError(`Compilation errors: ${errors.map((e: any) => e.message).join(', ')}`, ErrorType.CONTRACT);
-        }
+      // Owner placeholders are replaced by the deploying wallet, as the backend does
+      const from = this.signer ? await this.signer.getAddress() : ethers.ZeroAddress;
+      const args = constructorArgs.map(arg => arg === 'DEPLOYER_ADDRESS' ? from : arg);
+      
+      const factoryAvailable = !!options.factoryAddress &&
+        FACTORY_TOKEN_TYPES.includes(contractType) &&
+        (await this.provider.getCode(options.factoryAddress)) !== '0x';
+      
+      let gasEstimate: bigint;
+      let creationFee = 0n;
+      
+      if (factoryAvailable) {
+        creationFee = await getFactoryCreationFee(options.factoryAddress!, this.provider);
+        gasEstimate = await this.provider.estimateGas({
+          from,
+          to: options.factoryAddress,
+          value: creationFee,
+          data: encodeFactoryCreateCall(contractType, args, options.salt || ethers.ZeroHash)
+        });
+      } else {
+        const contractSource = await import('../services/contractSource');
+        const { abi, bytecode } = await contractSource.getCompiledContract(contractType);
+        const deploymentData = new ethers.Interface(abi).encodeDeploy(args);
+        gasEstimate = await this.provider.estimateGas({
+          from,
+          data: bytecode + deploymentData.slice(2)
+        });
       }
       
-      const contract = output.contracts['contract.sol'][contractType];
-      const abi = contract.abi;
-      const bytecode = contract.evm.bytecode.object;
-      
-      // Create contract factory
-      const factory = new ethers.ContractFactory(abi, bytecode, this.signer);
-      
-      // Estimate gas for deployment
-      const deploymentData = factory.interface.encodeDeploy(constructorArgs);
-      const gasEstimate = await this.provider.estimateGas({
-        data: bytecode + deploymentData.slice(2)
-      });
-      
-      // Get gas price
-      const feeData = await this.provider.getFeeData();
-      const effectiveGasPrice = feeData.maxFeePerGas || feeData.gasPrice || 0n;
-      
-      // Calculate total cost
-      const totalCost = gasEstimate * effectiveGasPrice;
-      const gasCost = ethers.formatEther(totalCost);
-      
-      // Estimate USD cost based on current token price
-      // This would ideally use a price oracle, but for now we'll use a simple estimate
-      const tokenPriceUsd = this.getTokenPriceEstimate(this.network.symbol);
-      const gasCostUsd = (parseFloat(gasCost) * tokenPriceUsd).toFixed(2);
-      
-      // Estimate time based on network congestion
-      const timeEstimate = this.getTimeEstimate(this.network.chainId);
+      // Testnet tokens share mainnet symbols but have no value
+      const chainId = this.network.chainId;
+      const [fees, usdPrice] = await Promise.all([
+        getNetworkFees(this.provider),
+        testnets.some(network => network.chainId === chainId) ? 0 : priceService.getUsdPrice(this.network.symbol)
+      ]);
+      const tiers = getFeeTierEstimates(gasEstimate, fees, usdPrice, timeEstimate);
+      const normal = tiers.find(tier => tier.tier === 'normal')!;
       
       return {
         gasEstimate,
-        gasCost,
-        gasCostUsd: `$${gasCostUsd}`,
-        timeEstimate
+        gasCost: normal.gasCost,
+        gasCostUsd: formatUsd(normal.gasCostUsd),
+        timeEstimate: normal.timeEstimate,
+        factoryAvailable,
+        creationFee,
+        creationFeeUsd: usdPrice === null ? null : parseFloat(ethers.formatEther(creationFee)) * usdPrice,
+        eip1559: fees.eip1559,
+        tiers
       };
     } catch (error) {
       console.error('Error estimating gas:', error);
@@ -499,36 +493,16 @@ export class Web3Service {
         gasEstimate: 0n,
         gasCost: '0.0',
         gasCostUsd: '$0.00',
-        timeEstimate: 'unknown'
+        timeEstimate,
+        factoryAvailable: false,
+        creationFee: 0n,
+        creationFeeUsd: null,
+        eip1559: false,
+        tiers: []
       };
     }
   }
   
-  private getTokenPriceEstimate(symbol: string): number {
-    // These would ideally come from a price oracle
-    // Implement real price feed integration
-    // Fallback prices if API call fails
-    const fallbackPrices: Record<string, number> = {
-      'ETH': 3500,
-      'BNB': 550,
-      'MATIC': 1.20,
-      'FTM': 0.65,
-      'AVAX': 35,
-      'CRO': 0.15,
-      'CORE': 0.80,
-      'DOGE': 0.12,
-      'PLS': 0.0005,
-      'ZETA': 1.50,
-      'UNI': 5.00,
-      'BROCK': 0.10,
-      'ALV': 0.05,
-      'GPU': 0.20,
-      'ESR': 0.50
-    };
-    
-    return fallbackPrices[symbol] || 0;
-  }
-  
   private getTimeEstimate(chainId: number): string {
     // Estimated deployment times based on network
     const times: Record<number, string> = {
@@ -548,19 +522,6 @@ export class Web3Service {
     return times[chainId] || '1-3 minutes';
   }
 
-  private symbolToId(symbol: string): string {
-    const mapping: Record<string, string> = {
-      'ETH': 'ethereum',
-      'BNB': 'binancecoin',
-      'MATIC': 'matic-network',
-      'FTM': 'fantom',
-      'AVAX': 'avalanche-2',
-      'ESR': 'estar'
-    };
-    return mapping[symbol] || symbol.toLowerCase();
-  }
-  
-
   async sendTransaction(transaction: any): Promise<string> {
     if (!this.signer) throw new AppError('Signer not available', ErrorType.WALLET);
     
@@ -672,17 +633,6 @@ export class Web3Service {
     }
   }
 
-  async verifyContract(address: string, contractName: string, source: string, args: any[]): Promise<boolean> {
-    // In a real implementation, this would call the explorer's API to verify the contract
-    // For now, we'll just simulate a successful verification
-    console.log(`Verifying contract ${contractName} at ${address}`);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    return true;
-  }
-
   disconnect(): void {
     this.removeAllListeners();
     this.provider = null;
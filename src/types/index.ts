@@ -8,6 +8,9 @@ export interface TokenConfig {
   features: TokenFeatures;
   vesting: VestingConfig[];
   useFactory?: boolean;
+  initialOwner?: string; // Defaults to the deploying wallet; usually a Safe multisig when set
+  create2Salt?: string; // Factory deployments only; the same salt and parameters give the same address on every chain
+  additionalNetworks?: Network[]; // Deployed after `network`, one after another, as one project
 }
 
 export interface Network {
@@ -31,15 +34,69 @@ export interface TokenFeatures {
   holderRedistribution: {
     enabled: boolean;
     percentage: number;
+    mode?: RedistributionMode; // Defaults to claim-based rewards
   };
+  taxes?: TaxConfig;
+  antiWhale?: AntiWhaleConfig;
+  permit?: boolean; // EIP-2612 gasless approvals
+  votes?: boolean; // ERC20Votes delegation, includes permit
+  snapshot?: boolean; // Owner-triggered balance snapshots
+  pausable?: boolean; // Owner can halt all transfers
+  blacklist?: boolean; // Owner can freeze individual addresses
+  roles?: boolean; // Minter, pauser and fee manager roles administered by the owner
+  bridgeable?: boolean; // A bridge adapter can mint and burn to move supply between chains
+  upgradeable?: boolean; // Deployed behind a UUPS proxy so the owner can upgrade the implementation
+}
+
+// Claim-based rewards accrue until holders claim them; reflection grows balances automatically
+export type RedistributionMode = 'claim' | 'reflection';
+
+// Buy/sell taxes replace the flat transfer fee when enabled
+export interface TaxConfig {
+  enabled: boolean;
+  buyPercentage: number;
+  sellPercentage: number;
+  transferPercentage: number; // Wallet-to-wallet transfers
+  recipients: TaxRecipient[];
+  liquidityShare: number; // % of collected taxes added to liquidity, requires a router
+  router: string; // Uniswap V2 compatible router, empty = taxes paid out in tokens
+  swapThresholdPercentage: number; // % of initial supply collected before swapping back, 0 = manual only
+  dividends?: DividendConfig;
+}
+
+// Holder dividends take the share of collected taxes not assigned to recipients or liquidity
+export interface DividendConfig {
+  enabled: boolean;
+  rewardToken: string; // ERC-20 paid to holders, empty = native currency
+  minimumBalance: string; // Tokens a holder needs to be eligible
+  gasForProcessing: number; // Gas spent paying holders on each transfer, 0 = manual claims only
+}
+
+export interface TaxRecipient {
+  label: string;
+  address: string;
+  share: number; // % of collected taxes
+}
+
+export interface AntiWhaleConfig {
+  enabled: boolean;
+  maxTransactionPercentage: number; // % of initial supply, 0 = no limit
+  maxWalletPercentage: number; // % of initial supply, 0 = no limit
+  launchProtectionBlocks: number; // Buyers in these blocks after launch are flagged as snipers
+  exemptAddresses: string[];
 }
 
 export interface VestingConfig {
   category: VestingCategory;
   percentage: number;
   startDate: string;
-  duration: number; // in days
+  duration: number; // in days, including the cliff
   enabled: boolean;
+  beneficiary?: string; // Receives the category's tokens as they vest
+  tgePercentage?: number; // % of the allocation unlocked at the start date
+  cliff?: number; // Days after the start date before the rest starts unlocking
+  unlockInterval?: number; // Days between unlocks, 0 = continuous
+  revocable?: boolean; // Defaults to true
 }
 
 export type VestingCategory = 'team' | 'advertising' | 'publicSale' | 'privateSale' | 'ecosystem' | 'marketing' | 'development';
@@ -53,6 +110,64 @@ export interface DeploymentResult {
   explorerUrl: string;
   gasUsed: string;
   deploymentCost: string;
+  features?: TokenFeatures;
+  implementationAddress?: string; // Upgradeable tokens only; contractAddress is the proxy
+  projectId?: string; // Shared by the deployments of one token on several networks
+  deployments?: DeploymentResult[]; // Multi-network deployments only, in deployment order
+  vestingAddress?: string; // TokenVesting contract holding the configured allocations
+  vestingError?: string; // Why vesting was not set up with the token
+}
+
+// Server-side deployments run as queued jobs; `done` is set once the job is confirmed, verified or failed
+export type DeploymentJobStatus = 'pending' | 'compiling' | 'broadcast' | 'confirmed' | 'verified' | 'failed';
+
+export interface DeploymentJob {
+  id: string;
+  kind: 'token' | 'presale';
+  network: string;
+  status: DeploymentJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  transactionHash: string | null;
+  result: {
+    contractAddress: string;
+    implementationAddress?: string | null;
+    transactionHash: string;
+    gasUsed: string;
+    deploymentCost: string;
+    verified: boolean;
+    salePageUrl?: string;
+  } | null;
+  error: string | null;
+  done: boolean;
+  createdAt: string;
+  updatedAt: string;
+  logs?: string;
+}
+
+// Gas prices are EIP-1559 tiers from recent blocks; chains without a base fee use the legacy gas price for every tier
+export type FeeTier = 'slow' | 'normal' | 'fast';
+
+export interface FeeTierEstimate {
+  tier: FeeTier;
+  maxFeePerGas: string; // gwei
+  maxPriorityFeePerGas: string; // gwei
+  gasCost: string; // Expected cost in the native token at the next block's base fee
+  gasCostUsd: number | null;
+  timeEstimate: string;
+}
+
+export interface DeploymentCostEstimate {
+  gasEstimate: string;
+  gasCost: string; // Normal tier
+  gasCostUsd: string;
+  timeEstimate: string;
+  useFactory: boolean;
+  factoryAvailable: boolean; // False when the network has no TokenFactory and the gas is for a direct deployment
+  creationFee: string; // Paid to the factory on top of gas, in the native token
+  creationFeeUsd: number | null;
+  eip1559: boolean;
+  tiers: FeeTierEstimate[];
 }
 
 export type Step = 'landing' | 'builder' | 'vesting' | 'review' | 'deploy' | 'success';
\ No newline at end of file
@@ -12,24 +12,27 @@ export interface PresaleConfig {
     saleName: string;
     softCap: string;
     hardCap: string;
-    tokenPrice: string; // How many tokens per 1 native token
+    tokenPrice: string; // How many tokens per 1 native token, or per 1 payment token when set
     minPurchase: string;
     maxPurchase: string;
     startDate: string;
     endDate: string;
     whitelistEnabled: boolean;
+    paymentToken?: PaymentToken; // ERC-20 raised instead of the native currency; caps and limits are in it
   };
   vestingConfig: {
     enabled: boolean;
     duration: number; // in days
     initialRelease: number; // percentage released at TGE
   };
+  // Needs a payment token, which the token is paired with when the sale is finalized
   autoListingConfig?: {
     enabled: boolean;
     listingPrice: string; // tokens per 1 base token
-    lpTokenPercentage: number; // percentage of tokens for LP (0-100)
     lpBaseTokenPercentage: number; // percentage of base tokens for LP (0-100)
     lockDuration: number; // in days
+    liquidityAddress?: string; // AutoLiquidity contract for the network
+    router?: string; // DEX router, empty = AutoLiquidity's default
   };
   walletSetup: {
     saleReceiver: string;
@@ -44,6 +47,12 @@ export interface PresaleConfig {
   createdAt?: string;
 }
 
+export interface PaymentToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
 export interface PresaleDeploymentResult {
   contractAddress: string;
   transactionHash: string;
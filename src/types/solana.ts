@@ -1,4 +1,4 @@
-import { PublicKey, Connection, Commitment } from '@solana/web3.js';
+import { PublicKey, Connection, Commitment, Keypair, Transaction } from '@solana/web3.js';
 import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 
 export interface SolanaNetwork {
@@ -20,6 +20,62 @@ export interface SolanaTokenInfo {
   owner: PublicKey;
   frozenState: boolean;
   metadata?: SolanaTokenMetadata;
+  onChainMetadata?: SolanaOnChainMetadata;
+  tokenProgram?: SolanaTokenProgram;
+  extensions?: SolanaTokenExtensionState;
+}
+
+export type SolanaTokenProgram = 'spl-token' | 'token-2022';
+
+// Token-2022 extensions selectable in the token builder
+export interface SolanaToken2022Extensions {
+  transferFee: {
+    enabled: boolean;
+    feeBasisPoints: number; // 0-1000 = 0-10%, as in the EVM FeeToken
+    maxFee: string; // in whole tokens
+  };
+  interestBearing: {
+    enabled: boolean;
+    rate: number; // annual rate in basis points
+  };
+  nonTransferable: boolean;
+  permanentDelegate: {
+    enabled: boolean;
+    delegate?: string; // defaults to the creator
+  };
+  metadataOnMint: boolean; // metadata pointer + token metadata stored on the mint itself
+}
+
+// Token-2022 extension state decoded from a mint account
+export interface SolanaTokenExtensionState {
+  transferFee?: {
+    feeBasisPoints: number;
+    maxFee: string;
+    withheldAmount: string;
+    transferFeeConfigAuthority: string | null;
+    withdrawWithheldAuthority: string | null;
+  };
+  interestBearing?: {
+    currentRate: number;
+    rateAuthority: string | null;
+  };
+  nonTransferable: boolean;
+  permanentDelegate?: string | null;
+  metadataPointer?: {
+    authority: string | null;
+    metadataAddress: string | null;
+  };
+}
+
+// Decoded Metaplex metadata account
+export interface SolanaOnChainMetadata {
+  address: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  updateAuthority: string | null;
+  isMutable: boolean;
+  source: 'metaplex' | 'token-2022';
 }
 
 export interface SolanaTokenMetadata {
@@ -43,7 +99,11 @@ export interface SolanaTokenConfig {
     description?: string;
     image?: string;
     externalUrl?: string;
+    uri?: string; // defaults to the API's metadata JSON endpoint
+    isMutable?: boolean; // defaults to true
   };
+  tokenProgram?: SolanaTokenProgram; // defaults to 'spl-token'
+  extensions?: SolanaToken2022Extensions;
   network: SolanaNetwork;
 }
 
@@ -54,6 +114,15 @@ export interface SolanaTokenDeploymentResult {
   network: SolanaNetwork;
   explorerUrl: string;
   metadataAddress?: string;
+  tokenProgram?: SolanaTokenProgram;
+}
+
+// Unsigned token creation transaction; the generated mint keypair must co-sign it
+export interface SolanaTokenCreationTransaction {
+  transaction: Transaction;
+  mint: Keypair;
+  tokenAccount: PublicKey;
+  metadataAddress?: PublicKey;
 }
 
 export interface SolanaAirdropRecipient {
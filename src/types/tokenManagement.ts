@@ -1,3 +1,6 @@
+import { VerificationStatus } from '../services/explorerVerification';
+import { SafeInfo } from '../services/safeTransactions';
+
 export interface TokenFeatureConfig {
   mintable: boolean;
   burnable: boolean;
@@ -10,23 +13,112 @@ export interface TokenFeatureConfig {
   holderRedistribution: {
     enabled: boolean;
     percentage: number;
+    mode?: 'claim' | 'reflection';
+    totalReflected?: string; // Reflection tokens only
   };
+  taxes?: TaxState;
+  dividends?: DividendState;
+  antiWhale?: AntiWhaleState;
+  governance?: GovernanceState;
+  compliance?: ComplianceState;
+  roles?: RoleState;
+  bridge?: BridgeState;
   vesting: {
     enabled: boolean;
     schedules: VestingSchedule[];
+    owner?: string; // Of the vesting contract, which may differ from the token's owner
   };
   verified: boolean;
 }
 
+export interface TaxState {
+  buyTax: number; // Percentages
+  sellTax: number;
+  transferTax: number;
+  recipients: Array<{ address: string; share: number }>;
+  liquidityShare: number;
+  swapRouter: string; // Zero address when taxes are paid out in tokens
+  liquidityPair: string;
+  swapThreshold: string;
+  pendingTaxes: string; // Collected tokens waiting for swap-back
+}
+
+export interface DividendState {
+  rewardToken: string; // Zero address when dividends are paid in the native currency
+  rewardSymbol: string;
+  rewardDecimals: number;
+  dividendShare: number; // % of collected taxes
+  totalDistributed: string;
+  minimumBalance: string;
+  gasForProcessing: number;
+  holderCount: number;
+  lastProcessedIndex: number;
+}
+
+export interface AntiWhaleState {
+  tradingEnabled: boolean;
+  tradingEnabledBlock: number;
+  launchProtectionBlocks: number;
+  maxTransactionAmount: string; // 0 = no limit
+  maxWalletAmount: string; // 0 = no limit
+}
+
+export interface GovernanceState {
+  permit: boolean;
+  votes: boolean;
+  snapshot: boolean;
+  currentSnapshotId: number; // 0 until the first snapshot
+}
+
+export interface ComplianceState {
+  pausable: boolean;
+  paused: boolean;
+  blacklist: boolean;
+}
+
+// Roles the connected wallet holds directly; the owner is always the role admin
+export interface RoleState {
+  admin: boolean;
+  minter: boolean;
+  pauser: boolean;
+  feeManager: boolean;
+}
+
+export type TokenRole = keyof RoleState;
+
+// Bridgeable tokens only
+export interface BridgeState {
+  adapter: string; // Zero address until the owner sets a bridge adapter
+}
+
+// Amounts are in whole tokens and times in seconds; `duration` runs from `startTime` and includes the cliff
 export interface VestingSchedule {
+  id: number;
   beneficiary: string;
   totalAmount: string;
+  tgeAmount: string; // Unlocked at the start
   startTime: number;
+  cliffDuration: number;
   duration: number;
+  slicePeriod: number; // Tokens unlock in steps of this many seconds
   releasedAmount: string;
+  vestedAmount: string;
+  releasableAmount: string;
+  revocable: boolean;
   revoked: boolean;
 }
 
+export interface VestingScheduleInput {
+  beneficiary: string;
+  amount: string;
+  tgePercentage: number; // % of `amount` unlocked at the start
+  startTime: number;
+  cliffDuration: number;
+  duration: number;
+  slicePeriod: number;
+  revocable: boolean;
+}
+
 export interface TokenManagementData {
   address: string;
   name: string;
@@ -35,10 +127,22 @@ export interface TokenManagementData {
   totalSupply: string;
   maxSupply: string;
   owner: string;
+  safeOwner?: SafeInfo; // Set when the owner is a Safe multisig
+  pendingOwner?: string; // Two-step ownership only; zero address when no handover is pending
   network: string;
+  chainId?: number; // Of the network the token was loaded on
   features: TokenFeatureConfig;
   deploymentDate: string;
   verified: boolean;
+  verificationStatus: VerificationStatus;
+  verificationMessage?: string;
+  contractType?: string; // Of the current implementation for upgradeable tokens
+  constructorArgs?: unknown[]; // Initializer arguments for upgradeable tokens
+  implementationAddress?: string; // Upgradeable tokens only, read from the proxy
+  implementationArtifactHash?: string; // Stored artifact the implementation was deployed from, when recorded
+  projectId?: string; // Shared with the token's deployments on other networks
+  bridgeAdapterAddress?: string; // The token's bridge, or the lock/release adapter recorded for it
+  vestingAddress?: string; // TokenVesting contract recorded for the token
 }
 
 export interface MintTransaction {
@@ -1,6 +1,7 @@
 export interface TokenMetadata {
   id?: number;
   tokenAddress: string;
+  chainId?: number; // Deployment whose owner may edit; the metadata is shared by the token on every chain
   sessionId?: string;
   name?: string;
   symbol?: string;
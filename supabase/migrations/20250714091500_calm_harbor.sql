@@ -0,0 +1,23 @@
+/*
+  # Explorer Verification Tracking
+
+  1. New Fields
+    - `verification_status` - Outcome of the last explorer verification (unverified, pending, verified, failed)
+    - `verification_guid` - GUID returned by the explorer for the last submission
+    - `verification_message` - Last message returned by the explorer
+    - `verified_at` - When the explorer reported a successful verification
+    - `constructor_args` - Constructor arguments used at deployment, needed to re-submit verification
+  2. Changes
+    - Backfill `verification_status` from the existing `verified` flag
+*/
+
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS verification_status VARCHAR(20) DEFAULT 'unverified',
+ADD COLUMN IF NOT EXISTS verification_guid VARCHAR(100),
+ADD COLUMN IF NOT EXISTS verification_message TEXT,
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS constructor_args JSONB;
+
+UPDATE tokens SET verification_status = 'verified' WHERE verified = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_verification_status ON tokens(verification_status);
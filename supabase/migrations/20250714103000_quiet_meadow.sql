@@ -0,0 +1,15 @@
+/*
+  # Solana On-Chain Metadata Tracking
+
+  1. New Fields
+    - `metadata_address` - Metaplex metadata PDA for the mint
+    - `uri` - URI stored in the on-chain metadata account
+    - `update_authority` - Account allowed to update the metadata
+    - `is_mutable` - Whether the metadata can still be updated (false once locked)
+*/
+
+ALTER TABLE IF EXISTS solana_token_metadata
+ADD COLUMN IF NOT EXISTS metadata_address VARCHAR(44),
+ADD COLUMN IF NOT EXISTS uri TEXT,
+ADD COLUMN IF NOT EXISTS update_authority VARCHAR(44),
+ADD COLUMN IF NOT EXISTS is_mutable BOOLEAN DEFAULT TRUE;
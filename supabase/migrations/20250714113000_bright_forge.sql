@@ -0,0 +1,11 @@
+/*
+  # Solana Token-2022 Support
+
+  1. New Fields
+    - `token_program` - Program that owns the mint (`spl-token` or `token-2022`)
+    - `extensions` - Token-2022 extensions configured at creation
+*/
+
+ALTER TABLE IF EXISTS solana_tokens
+ADD COLUMN IF NOT EXISTS token_program VARCHAR(20) DEFAULT 'spl-token',
+ADD COLUMN IF NOT EXISTS extensions JSONB;
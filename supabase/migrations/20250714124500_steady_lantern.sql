@@ -0,0 +1,10 @@
+/*
+  # Upgradeable Token Proxies
+
+  1. New Fields
+    - `implementation_address` - Implementation currently behind the proxy for upgradeable tokens; NULL for immutable tokens.
+      `contract_address` stays the proxy address, and `contract_type` follows the implementation on upgrades
+*/
+
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS implementation_address VARCHAR(42);
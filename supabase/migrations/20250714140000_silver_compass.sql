@@ -0,0 +1,27 @@
+/*
+  # Multi-Network Token Projects
+
+  1. New Fields
+    - `project_id` - Shared by the deployments of one token on several networks; NULL for single-network tokens
+
+  2. Constraints
+    - Contract addresses are unique per chain instead of globally: factory tokens created with the same
+      CREATE2 salt and settings have the same address on every chain
+    - Foreign keys to `tokens(contract_address)` are dropped since the address alone no longer identifies
+      one row; metadata, presales and vesting stay keyed by address and are shared across those chains
+*/
+
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS project_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_project_id ON tokens(project_id);
+
+ALTER TABLE IF EXISTS token_metadata DROP CONSTRAINT IF EXISTS token_metadata_token_fk;
+ALTER TABLE IF EXISTS token_metadata_history DROP CONSTRAINT IF EXISTS token_metadata_history_token_fk;
+ALTER TABLE IF EXISTS presales DROP CONSTRAINT IF EXISTS presales_token_idx;
+ALTER TABLE IF EXISTS vesting_schedules DROP CONSTRAINT IF EXISTS vesting_token_idx;
+
+ALTER TABLE IF EXISTS tokens DROP CONSTRAINT IF EXISTS tokens_contract_address_key;
+
+ALTER TABLE IF EXISTS tokens
+ADD CONSTRAINT tokens_contract_address_chain_key UNIQUE (contract_address, network_chain_id);
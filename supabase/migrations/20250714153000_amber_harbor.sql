@@ -0,0 +1,10 @@
+/*
+  # Token Bridge Adapters
+
+  1. New Fields
+    - `bridge_adapter_address` - Bridge adapter that moves the token to and from its other networks; NULL until one is deployed.
+      Bridgeable tokens also store it on-chain, tokens without a bridge role are locked in it instead
+*/
+
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS bridge_adapter_address VARCHAR(42);
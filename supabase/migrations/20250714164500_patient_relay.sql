@@ -0,0 +1,41 @@
+/*
+  # Deployment Jobs
+
+  1. New Tables
+    - `deployment_jobs` - Server-side token and presale deployments, run one at a time by the API's deployment worker
+      - `status` - pending, compiling, broadcast, confirmed, verified or failed
+      - `idempotency_key` - Client-chosen key; posting the same deployment again returns the existing job
+      - `attempts` / `max_attempts` - Jobs that fail before broadcasting a transaction are retried from `run_after`
+      - `logs` - Output of the deployment script, appended while it runs
+      - `result` - Deployment result once confirmed (addresses, gas used, verification)
+  2. Constraints
+    - Idempotency keys are unique per owner; a failed job releases its key so the deployment can be requested again
+*/
+
+CREATE TABLE IF NOT EXISTS deployment_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_address VARCHAR(42) NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+  network VARCHAR(50) NOT NULL,
+  idempotency_key VARCHAR(100),
+  request JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  logs TEXT NOT NULL DEFAULT '',
+  result JSONB,
+  error TEXT,
+  transaction_hash VARCHAR(66),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP,
+
+  CONSTRAINT deployment_jobs_kind_check CHECK (kind IN ('token', 'presale')),
+  CONSTRAINT deployment_jobs_status_check CHECK (status IN ('pending', 'compiling', 'broadcast', 'confirmed', 'verified', 'failed')),
+  CONSTRAINT deployment_jobs_idempotency_key UNIQUE (owner_address, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_jobs_status ON deployment_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_deployment_jobs_owner ON deployment_jobs(owner_address);
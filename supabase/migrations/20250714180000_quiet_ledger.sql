@@ -0,0 +1,10 @@
+/*
+  # Token Vesting Contracts
+
+  1. New Fields
+    - `vesting_address` - TokenVesting contract holding the token's vested allocations; NULL until one is deployed.
+      Deployed and funded with the token when allocations are configured, or later from token management
+*/
+
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS vesting_address VARCHAR(42);
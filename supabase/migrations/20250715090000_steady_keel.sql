@@ -0,0 +1,11 @@
+/*
+  # Upgradeable Token Artifacts
+
+  1. New Fields
+    - `implementation_artifact_hash` - Artifact store hash of the implementation behind the proxy, recorded at
+      deployment and on each upgrade; NULL for immutable tokens and proxies deployed before it was recorded.
+      Upgrades are checked against the storage layout of this artifact, and verification submits its input
+*/
+
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS implementation_artifact_hash VARCHAR(64);
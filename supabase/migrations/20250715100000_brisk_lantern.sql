@@ -0,0 +1,14 @@
+/*
+  # Deployment Job Leases and Request Hashes
+
+  1. New Fields
+    - `request_hash` - SHA-256 of the job's kind, network and request; a request that reuses an idempotency key
+      for a different deployment is refused instead of being answered with this job. NULL for older jobs
+    - `lease_expires_at` - Until when the API instance running the job holds it; the instance renews the lease
+      while the job runs. Only jobs whose lease has expired are recovered after a crash, so a restarting instance
+      leaves the jobs other instances are running alone
+*/
+
+ALTER TABLE IF EXISTS deployment_jobs
+ADD COLUMN IF NOT EXISTS request_hash VARCHAR(64),
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP;
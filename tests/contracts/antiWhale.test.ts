@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, attachMock, deployMock, deployToken, getSigners, mine } from './hardhat';
+
+const SUPPLY = ethers.parseEther('1000000');
+
+// 1% per transaction, 2% per wallet, and buyers in the first two blocks after launch are flagged
+const LIMITS = { maxTransactionBps: 100, maxWalletBps: 200, launchProtectionBlocks: 2, exemptions: [] };
+
+const baseArgs = (owner: string) => ({
+  name: 'Limited',
+  symbol: 'LIM',
+  decimals_: 18,
+  initialSupply: SUPPLY,
+  maxSupply_: 0,
+  owner,
+  limits: LIMITS
+});
+
+describe('anti-whale token on chain', () => {
+  let owner: ethers.Signer;
+  let alice: ethers.Signer;
+  let bob: ethers.Signer;
+
+  beforeAll(async () => {
+    [owner, alice, bob] = await getSigners(3);
+  });
+
+  describe('without taxes', () => {
+    let token: ethers.Contract;
+
+    beforeEach(async () => {
+      token = await deployToken({ ...NONE, antiWhale: true }, baseArgs(await owner.getAddress()), owner);
+      await (await token.transfer(await alice.getAddress(), ethers.parseEther('10000'))).wait();
+    }, 120000);
+
+    it('should hold transfers until trading is enabled and then enforce the limits', async () => {
+      const bobAddress = await bob.getAddress();
+      const aliceToken = token.connect(alice) as ethers.Contract;
+
+      await expect(aliceToken.transfer(bobAddress, 1)).rejects.toThrow('Trading not enabled');
+
+      await (await token.enableTrading()).wait();
+      await mine(2);
+
+      await expect(aliceToken.transfer(bobAddress, ethers.parseEther('10001'))).rejects.toThrow('Exceeds max transaction amount');
+      await (await aliceToken.transfer(bobAddress, ethers.parseEther('10000'))).wait();
+      await (await token.transfer(await alice.getAddress(), ethers.parseEther('20000'))).wait();
+      await (await aliceToken.transfer(bobAddress, ethers.parseEther('10000'))).wait();
+      await expect(aliceToken.transfer(bobAddress, 1)).rejects.toThrow('Exceeds max wallet amount');
+      expect(await token.isSniper(bobAddress)).toBe(false);
+    }, 120000);
+
+    it('should flag receivers in the launch blocks but not exempt accounts', async () => {
+      const bobAddress = await bob.getAddress();
+      await (await token.enableTrading()).wait();
+      await (await (token.connect(alice) as ethers.Contract).transfer(bobAddress, 1)).wait();
+      await (await (token.connect(alice) as ethers.Contract).transfer(await owner.getAddress(), 1)).wait();
+
+      expect(await token.isSniper(bobAddress)).toBe(true);
+      expect(await token.isSniper(await owner.getAddress())).toBe(false);
+      await expect((token.connect(bob) as ethers.Contract).transfer(await alice.getAddress(), 1)).rejects.toThrow('Sender flagged as sniper');
+    }, 120000);
+
+    it('should let the owner register AMM pairs that are neither held to the wallet limit nor flagged', async () => {
+      const pairAddress = ethers.Wallet.createRandom().address;
+      await expect((token.connect(alice) as ethers.Contract).setAutomatedMarketMakerPair(pairAddress, true)).rejects.toThrow();
+      await (await token.setAutomatedMarketMakerPair(pairAddress, true)).wait();
+      await (await token.enableTrading()).wait();
+      await (await token.setMaxTransactionAmount(0)).wait();
+
+      // Sells into the pool in the launch blocks, past the wallet limit
+      await (await token.transfer(pairAddress, ethers.parseEther('30000'))).wait();
+      await (await (token.connect(alice) as ethers.Contract).transfer(pairAddress, ethers.parseEther('10000'))).wait();
+
+      expect(await token.balanceOf(pairAddress)).toBe(ethers.parseEther('40000'));
+      expect(await token.isSniper(pairAddress)).toBe(false);
+      await expect(token.setSniper(pairAddress, true)).rejects.toThrow('Cannot flag an AMM pair');
+    }, 120000);
+  });
+
+  describe('with taxes', () => {
+    let token: ethers.Contract;
+    let pair: ethers.Contract;
+
+    beforeEach(async () => {
+      const router = await deployMock('MockUniswapV2Router', 'MockUniswapV2Router', owner);
+      token = await deployToken({ ...NONE, taxes: true, antiWhale: true }, {
+        ...baseArgs(await owner.getAddress()),
+        taxes: {
+          buyTaxBps: 0,
+          sellTaxBps: 0,
+          transferTaxBps: 0,
+          recipients: [await owner.getAddress()],
+          shares: [10000],
+          liquidityShareBps: 0,
+          router: await router.getAddress(),
+          swapThresholdBps: 0
+        }
+      }, owner);
+
+      const pairAddress = await token.liquidityPair();
+      pair = attachMock('MockUniswapV2Router', 'MockUniswapV2Pair', pairAddress, owner);
+
+      // Seeding the pool above the wallet limit is allowed from the start
+      await (await token.transfer(pairAddress, ethers.parseEther('500000'))).wait();
+      await (await token.transfer(await alice.getAddress(), ethers.parseEther('10000'))).wait();
+    }, 120000);
+
+    it('should exempt the main pair from the limits', async () => {
+      expect(await token.isExemptFromLimits(await token.liquidityPair())).toBe(true);
+    }, 120000);
+
+    it('should never flag the pair as a sniper', async () => {
+      const pairAddress = await token.liquidityPair();
+      await (await token.enableTrading()).wait();
+
+      // A buy in the launch blocks flags the buyer, a sell flags nobody
+      await (await pair.buy(await token.getAddress(), await bob.getAddress(), ethers.parseEther('100'))).wait();
+      await (await (token.connect(alice) as ethers.Contract).transfer(pairAddress, ethers.parseEther('100'))).wait();
+
+      expect(await token.isSniper(await bob.getAddress())).toBe(true);
+      expect(await token.isSniper(pairAddress)).toBe(false);
+      await expect(token.setSniper(pairAddress, true)).rejects.toThrow('Cannot flag an AMM pair');
+
+      // Buys keep working for everyone else
+      await mine(2);
+      await (await pair.buy(await token.getAddress(), await alice.getAddress(), ethers.parseEther('100'))).wait();
+    }, 120000);
+
+    it('should not hold other AMM pairs to the wallet limit', async () => {
+      const otherPair = ethers.Wallet.createRandom().address;
+      await (await token.setAutomatedMarketMakerPair(otherPair, true)).wait();
+      await (await token.enableTrading()).wait();
+      await mine(2);
+      await (await token.setMaxTransactionAmount(0)).wait();
+
+      // Sells into a pool that holds more than the wallet limit
+      await (await token.transfer(otherPair, ethers.parseEther('30000'))).wait();
+      await (await (token.connect(alice) as ethers.Contract).transfer(otherPair, ethers.parseEther('10000'))).wait();
+
+      expect(await token.balanceOf(otherPair)).toBe(ethers.parseEther('40000'));
+      expect(await token.isSniper(otherPair)).toBe(false);
+    }, 120000);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, deployBridgeAdapter, deployToken, getSigners, increaseTime } from './hardhat';
+
+const SUPPLY = ethers.parseEther('1000000');
+const MAX_SUPPLY = ethers.parseEther('2000000');
+const DELAY = 2 * 24 * 60 * 60;
+
+describe('bridgeable token on chain', () => {
+  let owner: ethers.Signer;
+  let bridge: ethers.Signer;
+  let alice: ethers.Signer;
+  let token: ethers.Contract;
+
+  beforeAll(async () => {
+    [owner, bridge, alice] = await getSigners(3);
+  });
+
+  beforeEach(async () => {
+    token = await deployToken({ ...NONE, bridgeable: true }, {
+      name: 'Bridged',
+      symbol: 'BRG',
+      decimals_: 18,
+      initialSupply: SUPPLY,
+      maxSupply_: MAX_SUPPLY,
+      owner: await owner.getAddress()
+    }, owner);
+    await (await token.setBridge(await bridge.getAddress())).wait();
+  }, 120000);
+
+  it('should set the first bridge right away and replace it only after the delay', async () => {
+    const newBridge = ethers.Wallet.createRandom().address;
+    expect(await token.bridge()).toBe(await bridge.getAddress());
+
+    await (await token.setBridge(newBridge)).wait();
+    expect(await token.bridge()).toBe(await bridge.getAddress());
+    expect(await token.pendingBridge()).toBe(newBridge);
+    await expect(token.applyBridgeChange()).rejects.toThrow('Bridge change is timelocked');
+
+    await increaseTime(DELAY);
+    await (await token.applyBridgeChange()).wait();
+    expect(await token.bridge()).toBe(newBridge);
+    expect(await token.pendingBridge()).toBe(ethers.ZeroAddress);
+  }, 120000);
+
+  it('should let the owner cancel a scheduled bridge change', async () => {
+    await (await token.setBridge(ethers.Wallet.createRandom().address)).wait();
+    await (await token.cancelBridgeChange()).wait();
+
+    await increaseTime(DELAY);
+    await expect(token.applyBridgeChange()).rejects.toThrow('No bridge change scheduled');
+    expect(await token.bridge()).toBe(await bridge.getAddress());
+  }, 120000);
+
+  it('should not mint bridged supply beyond the max supply', async () => {
+    const bridgeToken = token.connect(bridge) as ethers.Contract;
+    const aliceAddress = await alice.getAddress();
+
+    await expect(bridgeToken.bridgeMint(aliceAddress, MAX_SUPPLY - SUPPLY + BigInt(1))).rejects.toThrow('Max supply exceeded');
+    await (await bridgeToken.bridgeMint(aliceAddress, MAX_SUPPLY - SUPPLY)).wait();
+    expect(await token.totalSupply()).toBe(MAX_SUPPLY);
+  }, 120000);
+
+  it('should only burn what holders approved the bridge for', async () => {
+    const bridgeToken = token.connect(bridge) as ethers.Contract;
+    const ownerAddress = await owner.getAddress();
+
+    await expect(bridgeToken.bridgeBurn(ownerAddress, ethers.parseEther('100'))).rejects.toThrow('insufficient allowance');
+    await (await token.approve(await bridge.getAddress(), ethers.parseEther('100'))).wait();
+    await (await bridgeToken.bridgeBurn(ownerAddress, ethers.parseEther('100'))).wait();
+
+    expect(await token.totalSupply()).toBe(SUPPLY - ethers.parseEther('100'));
+    expect(await token.allowance(ownerAddress, await bridge.getAddress())).toBe(BigInt(0));
+  }, 120000);
+
+  it('should burn tokens sent through a burn/mint adapter once approved', async () => {
+    const ownerAddress = await owner.getAddress();
+    const adapter = await deployBridgeAdapter(await token.getAddress(), false, ownerAddress, ownerAddress, owner);
+    const adapterAddress = await adapter.getAddress();
+    await (await adapter.setPeer(1338, ethers.Wallet.createRandom().address)).wait();
+
+    await (await token.setBridge(adapterAddress)).wait();
+    await increaseTime(DELAY);
+    await (await token.applyBridgeChange()).wait();
+
+    await expect(adapter.sendTokens(1338, ownerAddress, ethers.parseEther('10'))).rejects.toThrow('insufficient allowance');
+    await (await token.approve(adapterAddress, ethers.parseEther('10'))).wait();
+    await (await adapter.sendTokens(1338, ownerAddress, ethers.parseEther('10'))).wait();
+    expect(await token.totalSupply()).toBe(SUPPLY - ethers.parseEther('10'));
+  }, 120000);
+});
@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, deployMock, deployToken, getSigners, provider } from './hardhat';
+
+const SUPPLY = ethers.parseEther('1000000');
+
+describe('dividend token on chain', () => {
+  let owner: ethers.Signer;
+  let alice: ethers.Signer;
+  let bob: ethers.Signer;
+  let token: ethers.Contract;
+  let router: ethers.Contract;
+  let receiver: ethers.Contract;
+  let pairAddress: string;
+
+  beforeAll(async () => {
+    [owner, alice, bob] = await getSigners(3);
+  });
+
+  // The whole 10% sell tax goes to holders of at least 1,000 tokens, swapped back from 1,000 tokens
+  const deploy = async (rewardToken: string) => {
+    token = await deployToken({ ...NONE, taxes: true, dividends: true }, {
+      name: 'Dividend',
+      symbol: 'DIV',
+      decimals_: 18,
+      initialSupply: SUPPLY,
+      maxSupply_: 0,
+      owner: await owner.getAddress(),
+      taxes: {
+        buyTaxBps: 0,
+        sellTaxBps: 1000,
+        transferTaxBps: 0,
+        recipients: [],
+        shares: [],
+        liquidityShareBps: 0,
+        router: await router.getAddress(),
+        swapThresholdBps: 10
+      },
+      dividends: { rewardToken, minimumBalance: ethers.parseEther('1000'), gasForProcessing: 300000 }
+    }, owner);
+
+    pairAddress = await token.liquidityPair();
+    receiver = await deployMock('MockDividendReceiver', 'MockDividendReceiver', owner);
+    await (await token.transfer(pairAddress, ethers.parseEther('100000'))).wait();
+    await (await token.transfer(await alice.getAddress(), ethers.parseEther('20000'))).wait();
+    await (await token.transfer(await bob.getAddress(), ethers.parseEther('100000'))).wait();
+    await (await token.transfer(await receiver.getAddress(), ethers.parseEther('100000'))).wait();
+  };
+
+  // Two sells: the first collects 1,000 tokens of taxes, the second swaps them back and distributes them
+  const sellTwice = async () => {
+    const aliceToken = token.connect(alice) as ethers.Contract;
+    await (await aliceToken.transfer(pairAddress, ethers.parseEther('10000'))).wait();
+    await (await aliceToken.transfer(pairAddress, ethers.parseEther('10000'))).wait();
+  };
+
+  beforeEach(async () => {
+    router = await deployMock('MockUniswapV2Router', 'MockUniswapV2Router', owner);
+    await (await owner.sendTransaction({ to: await router.getAddress(), value: ethers.parseEther('10') })).wait();
+  }, 120000);
+
+  describe('in the native currency', () => {
+    beforeEach(async () => {
+      await deploy(ethers.ZeroAddress);
+    }, 120000);
+
+    it('should distribute swapped-back taxes and pay holders in the processing loop', async () => {
+      const bobAddress = await bob.getAddress();
+      const bobBalance = await provider.getBalance(bobAddress);
+      await sellTwice();
+
+      expect(await token.totalDividendsDistributed()).toBe(ethers.parseEther('1'));
+      expect(await token.withdrawableDividendOf(bobAddress)).toBe(BigInt(0));
+      expect(await token.withdrawnDividendOf(bobAddress) > BigInt(0)).toBe(true);
+      expect(await provider.getBalance(bobAddress)).toBe(bobBalance + await token.withdrawnDividendOf(bobAddress));
+
+      // Alice sold below the minimum balance and no longer earns dividends
+      expect(await token.dividendHolderCount()).toBe(BigInt(3));
+    }, 120000);
+
+    it('should leave contract holders to the processing loop unpaid and forward all gas when they claim', async () => {
+      const receiverAddress = await receiver.getAddress();
+      await sellTwice();
+
+      const pending: bigint = await token.withdrawableDividendOf(receiverAddress);
+      expect(pending > BigInt(0)).toBe(true);
+      expect(await receiver.received()).toBe(BigInt(0));
+
+      await (await receiver.claim(await token.getAddress())).wait();
+      expect(await receiver.received()).toBe(pending);
+      expect(await token.withdrawableDividendOf(receiverAddress)).toBe(BigInt(0));
+      await expect(receiver.claim(await token.getAddress())).rejects.toThrow('No dividends to claim');
+    }, 120000);
+  });
+
+  describe('in a reward token', () => {
+    let reward: ethers.Contract;
+
+    beforeEach(async () => {
+      reward = await deployMock('MockDividendReceiver', 'MockRewardToken', owner);
+      await (await reward.mint(await router.getAddress(), ethers.parseEther('1000000'))).wait();
+      await deploy(await reward.getAddress());
+    }, 120000);
+
+    it('should buy the reward token with swapped-back taxes and pay it out', async () => {
+      const bobAddress = await bob.getAddress();
+      await sellTwice();
+
+      // 1 ETH buys 1,000 reward tokens
+      expect(await token.totalDividendsDistributed()).toBe(ethers.parseEther('1000'));
+      expect(await reward.balanceOf(bobAddress)).toBe(await token.withdrawnDividendOf(bobAddress));
+      expect(await reward.balanceOf(bobAddress) > BigInt(0)).toBe(true);
+      expect(await reward.balanceOf(await receiver.getAddress())).toBe(await token.withdrawnDividendOf(await receiver.getAddress()));
+    }, 120000);
+  });
+});
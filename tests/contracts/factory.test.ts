@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { getContractSource } from '../../src/services/contractSource';
+import {
+  FACTORY_TOKEN_TYPES,
+  encodeFactoryCreateCall,
+  getFactoryInitCodeHash,
+  predictFactoryTokenAddress
+} from '../../src/services/vanityAddress';
+import { deployFactory, getSigners, provider } from './hardhat';
+
+const SUPPLY = ethers.parseEther('1000000');
+
+describe('TokenFactory', () => {
+  it.each(FACTORY_TOKEN_TYPES)('should create %s from the generated source', (contractType) => {
+    const template = readFileSync(join(__dirname, '..', '..', 'contracts', 'tokens', `${contractType}.sol`), 'utf8');
+    expect(template).toBe(getContractSource(contractType));
+  });
+
+  describe('on chain', () => {
+    let owner: ethers.Signer;
+    let alice: ethers.Signer;
+    let factory: ethers.Contract;
+    const salt = ethers.id('factory test');
+
+    beforeAll(async () => {
+      [owner, alice] = await getSigners(2);
+      factory = await deployFactory(await owner.getAddress(), await owner.getAddress(), owner);
+    }, 120000);
+
+    const create = async (contractType: string, constructorArgs: unknown[]) => {
+      const factoryAddress = await factory.getAddress();
+      const initCodeHash = await getFactoryInitCodeHash(factoryAddress, contractType, constructorArgs, provider);
+      await (await alice.sendTransaction({
+        to: factoryAddress,
+        data: encodeFactoryCreateCall(contractType, constructorArgs, salt),
+        value: await factory.creationFee()
+      })).wait();
+      return predictFactoryTokenAddress(factoryAddress, salt, initCodeHash);
+    };
+
+    it('should create a token at its predicted address for the given owner', async () => {
+      const tokenOwner = await alice.getAddress();
+      const address = await create('BurnableMintableToken', ['Factory', 'FAC', 18, SUPPLY, 0, tokenOwner]);
+
+      const token = new ethers.Contract(address, [
+        'function name() view returns (string)',
+        'function owner() view returns (address)',
+        'function balanceOf(address) view returns (uint256)'
+      ], provider);
+      expect(await token.name()).toBe('Factory');
+      expect(await token.owner()).toBe(tokenOwner);
+      expect(await token.balanceOf(tokenOwner)).toBe(SUPPLY);
+      expect((await factory.getTokensByCreator(tokenOwner)).length).toBe(1);
+    }, 120000);
+
+    it('should fit within the contract size limit', async () => {
+      const code = await provider.getCode(await factory.getAddress());
+      expect(ethers.dataLength(code)).toBeLessThanOrEqual(24576);
+    }, 120000);
+
+    it('should only create tokens for the creation fee', async () => {
+      await expect(factory.createBasicToken('Basic', 'BSC', 18, SUPPLY, 0, await alice.getAddress(), salt))
+        .rejects.toThrow('Insufficient creation fee');
+    }, 120000);
+  });
+});
@@ -0,0 +1,159 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { network } from 'hardhat';
+import solc from 'solc';
+import { getCompiledContract } from '../../src/services/contractSource';
+import { TokenContractFeatures, getTokenContractName } from '../../src/services/tokenContractGenerator';
+
+// Shared setup for the tests that run generated contracts on Hardhat's in-process network
+// Hardhat's types declare Mocha's test globals, so tests using these helpers import Jest's from @jest/globals
+
+const ROOT_DIR = join(__dirname, '..', '..');
+
+// Resolve OpenZeppelin imports from node_modules, as Vite does in the browser
+export const loadImport = async (path: string) => readFileSync(join(ROOT_DIR, 'node_modules', path), 'utf8');
+
+export const NONE: TokenContractFeatures = {
+  burnable: false,
+  mintable: false,
+  transferFees: false,
+  taxes: false,
+  dividends: false,
+  holderRedistribution: false,
+  reflection: false,
+  antiWhale: false,
+  permit: false,
+  votes: false,
+  snapshot: false,
+  pausable: false,
+  blacklist: false,
+  roles: false,
+  bridgeable: false,
+  upgradeable: false
+};
+
+export const provider = new ethers.BrowserProvider(network.provider, undefined, { cacheTimeout: -1 });
+
+export const getSigners = async (count: number) =>
+  Promise.all(Array.from({ length: count }, (_, index) => provider.getSigner(index)));
+
+export const mine = async (blocks: number) => {
+  await provider.send('hardhat_mine', [ethers.toQuantity(blocks)]);
+};
+
+export const increaseTime = async (seconds: number) => {
+  await provider.send('evm_increaseTime', [seconds]);
+  await mine(1);
+};
+
+const toHex = (bytecode: string) => bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`;
+
+// Deploys a generated token, taking its constructor arguments by parameter name
+export async function deployToken(
+  features: TokenContractFeatures,
+  args: Record<string, unknown>,
+  deployer: ethers.Signer
+): Promise<ethers.Contract> {
+  const compiled = await getCompiledContract(getTokenContractName(features), loadImport);
+  const inputs = ethers.Interface.from(compiled.abi).deploy.inputs;
+  const missing = inputs.filter(input => !(input.name in args)).map(input => input.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing constructor arguments: ${missing.join(', ')}`);
+  }
+
+  const factory = new ethers.ContractFactory(compiled.abi, toHex(compiled.bytecode), deployer);
+  const contract = await factory.deploy(...inputs.map(input => args[input.name]));
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+// Deploys the implementation of an upgradeable token, without initializing it
+export async function deployImplementation(features: TokenContractFeatures, deployer: ethers.Signer): Promise<ethers.Contract> {
+  const compiled = await getCompiledContract(getTokenContractName(features), loadImport);
+  const contract = await new ethers.ContractFactory(compiled.abi, toHex(compiled.bytecode), deployer).deploy();
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+// Deploys the app's PresaleContract, compiled as the app compiles it
+export async function deployPresale(deployer: ethers.Signer, ...args: unknown[]): Promise<ethers.Contract> {
+  const compiled = await getCompiledContract('PresaleContract', loadImport);
+  const contract = await new ethers.ContractFactory(compiled.abi, toHex(compiled.bytecode), deployer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+type CompiledSource = Record<string, { abi: ethers.InterfaceAbi; bytecode: string; deployedBytecode: string }>;
+
+const sourceCache: Record<string, CompiledSource> = {};
+
+// Compiles contracts/<sourcePath> once, with Hardhat's settings; its contracts and those of its imports are
+// found by name
+function compileContract(sourcePath: string, contractName: string) {
+  if (!sourceCache[sourcePath]) {
+    const input = {
+      language: 'Solidity',
+      sources: { [sourcePath]: { content: readFileSync(join(ROOT_DIR, 'contracts', sourcePath), 'utf8') } },
+      settings: {
+        outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object', 'evm.deployedBytecode.object'] } },
+        optimizer: { enabled: true, runs: 200 }
+      }
+    };
+    // Relative imports resolve to other files in contracts/, package imports to node_modules
+    const findImports = (path: string) => {
+      const file = [join(ROOT_DIR, 'contracts', path), join(ROOT_DIR, 'node_modules', path)].find(existsSync);
+      return file ? { contents: readFileSync(file, 'utf8') } : { error: `File not found: ${path}` };
+    };
+
+    const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+    const errors = (output.errors || []).filter((error: { severity: string }) => error.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(`Compilation errors: ${errors.map((error: { formattedMessage: string }) => error.formattedMessage).join('\n')}`);
+    }
+
+    sourceCache[sourcePath] = {};
+    type OutputContract = { abi: ethers.InterfaceAbi; evm: { bytecode: { object: string }; deployedBytecode: { object: string } } };
+    for (const contracts of Object.values<Record<string, OutputContract>>(output.contracts)) {
+      for (const [name, { abi, evm }] of Object.entries(contracts)) {
+        sourceCache[sourcePath][name] = {
+          abi,
+          bytecode: toHex(evm.bytecode.object),
+          deployedBytecode: toHex(evm.deployedBytecode.object)
+        };
+      }
+    }
+  }
+
+  const compiled = sourceCache[sourcePath][contractName];
+  if (!compiled) {
+    throw new Error(`${contractName} not found in ${sourcePath}`);
+  }
+  return compiled;
+}
+
+async function deployCompiled(sourcePath: string, contractName: string, deployer: ethers.Signer, args: unknown[]): Promise<ethers.Contract> {
+  const { abi, bytecode } = compileContract(sourcePath, contractName);
+  const contract = await new ethers.ContractFactory(abi, bytecode, deployer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+// Deploys a contract from contracts/mocks/<file>.sol
+export const deployMock = (file: string, contractName: string, deployer: ethers.Signer, ...args: unknown[]) =>
+  deployCompiled(`mocks/${file}.sol`, contractName, deployer, args);
+
+export const attachMock = (file: string, contractName: string, address: string, runner: ethers.Signer) =>
+  new ethers.Contract(address, compileContract(`mocks/${file}.sol`, contractName).abi, runner);
+
+// Deploys an ERC-1967 proxy in front of an implementation, as the deployment script does for upgradeable tokens
+export const deployProxy = (implementation: string, data: string, deployer: ethers.Signer) =>
+  deployCompiled('proxy/TokenProxy.sol', 'ERC1967Proxy', deployer, [implementation, data]);
+
+// Deploys RelayerBridgeAdapter from contracts/bridge/
+export const deployBridgeAdapter = (token: string, lockRelease: boolean, relayer: string, owner: string, deployer: ethers.Signer) =>
+  deployCompiled('bridge/RelayerBridgeAdapter.sol', 'RelayerBridgeAdapter', deployer, [token, lockRelease, relayer, owner]);
+
+// Deploys the token factory from contracts/tokens/TokenFactory.sol with the templates generated next to it
+export const deployFactory = (feeReceiver: string, initialOwner: string, deployer: ethers.Signer) =>
+  deployCompiled('tokens/TokenFactory.sol', 'TokenFactory', deployer, [feeReceiver, initialOwner]);
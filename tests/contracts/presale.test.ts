@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, deployPresale, deployToken, getSigners, increaseTime, provider } from './hardhat';
+
+const SUPPLY = ethers.parseEther('1000000');
+const CONTRIBUTION = ethers.parseEther('100');
+const TOKEN_PRICE = ethers.parseEther('10'); // tokens per payment token
+const SALE_DURATION = 60 * 60;
+const GRACE_PERIOD = 7 * 24 * 60 * 60;
+
+describe('presale contract on chain', () => {
+  let owner: ethers.Signer;
+  let buyer: ethers.Signer;
+  let token: ethers.Contract;
+  let paymentToken: ethers.Contract;
+
+  const deployErc20 = async (name: string, holder: ethers.Signer) => deployToken(NONE, {
+    name,
+    symbol: name.toUpperCase(),
+    decimals_: 18,
+    initialSupply: SUPPLY,
+    maxSupply_: 0,
+    owner: await holder.getAddress()
+  }, holder);
+
+  beforeAll(async () => {
+    [owner, buyer] = await getSigners(2);
+    paymentToken = await deployErc20('Dollar', buyer);
+  }, 120000);
+
+  // A sale of `token` for `paymentToken` that `buyer` contributes to and that has ended
+  const runSale = async (autoListing: boolean) => {
+    token = await deployErc20('Sold', owner);
+    const ownerAddress = await owner.getAddress();
+    const { timestamp } = (await provider.getBlock('latest'))!;
+
+    const presale = await deployPresale(owner, {
+      token: await token.getAddress(),
+      paymentToken: await paymentToken.getAddress(),
+      tokenPrice: TOKEN_PRICE,
+      softCap: CONTRIBUTION,
+      hardCap: CONTRIBUTION * BigInt(10),
+      minPurchase: 0,
+      maxPurchase: CONTRIBUTION,
+      startTime: timestamp,
+      endTime: timestamp + SALE_DURATION,
+      whitelistEnabled: false
+    }, { enabled: false, initialRelease: 0, vestingDuration: 0 }, {
+      enabled: autoListing,
+      liquidity: autoListing ? ethers.Wallet.createRandom().address : ethers.ZeroAddress,
+      router: ethers.ZeroAddress,
+      listingPrice: TOKEN_PRICE,
+      liquidityPercentage: autoListing ? 50 : 0,
+      lockDuration: 0
+    }, ownerAddress, ownerAddress);
+    const presaleAddress = await presale.getAddress();
+    await (await token.transfer(presaleAddress, CONTRIBUTION * BigInt(10))).wait();
+
+    await (await (paymentToken.connect(buyer) as ethers.Contract).approve(presaleAddress, CONTRIBUTION)).wait();
+    await (await (presale.connect(buyer) as ethers.Contract).buyTokensWithPaymentToken(CONTRIBUTION)).wait();
+    await increaseTime(SALE_DURATION + 1);
+    return presale;
+  };
+
+  it('should hold an auto-listed sale\'s tokens until it is finalized', async () => {
+    const presale = await runSale(true);
+    const buyerPresale = presale.connect(buyer) as ethers.Contract;
+
+    expect(await presale.getClaimableAmount(await buyer.getAddress())).toBe(BigInt(0));
+    await expect(buyerPresale.claimTokens()).rejects.toThrow('Sale not finalized');
+  }, 120000);
+
+  it('should let anyone open refunds for a sale left unfinalized past the grace period', async () => {
+    const presale = await runSale(true);
+    const buyerPresale = presale.connect(buyer) as ethers.Contract;
+    const buyerAddress = await buyer.getAddress();
+
+    await expect(buyerPresale.enableRefunds()).rejects.toThrow('Owner can still finalize');
+    await increaseTime(GRACE_PERIOD);
+    await (await buyerPresale.enableRefunds()).wait();
+    await expect(presale.finalizeSale()).rejects.toThrow('Already finalized');
+    await expect(buyerPresale.claimTokens()).rejects.toThrow('Sale refunded');
+
+    const balance = await paymentToken.balanceOf(buyerAddress);
+    await (await buyerPresale.claimRefund()).wait();
+    expect(await paymentToken.balanceOf(buyerAddress)).toBe(balance + CONTRIBUTION);
+  }, 120000);
+
+  it('should keep a successful sale without auto-listing claimable instead of refundable', async () => {
+    const presale = await runSale(false);
+    const buyerPresale = presale.connect(buyer) as ethers.Contract;
+
+    await increaseTime(GRACE_PERIOD);
+    await expect(buyerPresale.enableRefunds()).rejects.toThrow('Tokens are claimable');
+    await (await buyerPresale.claimTokens()).wait();
+    expect(await token.balanceOf(await buyer.getAddress())).toBe(CONTRIBUTION * BigInt(10));
+  }, 120000);
+
+  it('should only let the owner withdraw sale tokens that are not owed to buyers', async () => {
+    const presale = await runSale(false);
+    const tokenAddress = await token.getAddress();
+    const ownerAddress = await owner.getAddress();
+
+    await expect(presale.emergencyWithdraw(tokenAddress, 1)).rejects.toThrow('Tokens are held for claims');
+
+    await (await token.transfer(await presale.getAddress(), CONTRIBUTION)).wait();
+    const balance = await token.balanceOf(ownerAddress);
+    await expect(presale.emergencyWithdraw(tokenAddress, CONTRIBUTION + BigInt(1))).rejects.toThrow('Tokens are held for claims');
+    await (await presale.emergencyWithdraw(tokenAddress, CONTRIBUTION)).wait();
+    expect(await token.balanceOf(ownerAddress)).toBe(balance + CONTRIBUTION);
+
+    await (await (presale.connect(buyer) as ethers.Contract).claimTokens()).wait();
+    expect(await token.balanceOf(await buyer.getAddress())).toBe(CONTRIBUTION * BigInt(10));
+  }, 120000);
+});
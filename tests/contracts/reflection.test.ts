@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, deployToken, getSigners } from './hardhat';
+
+const SUPPLY = ethers.parseEther('1000000');
+
+// Reflected balances are rounded down by the rate, so they can be a few wei off the exact share
+const expectClose = (actual: bigint, expected: bigint) => {
+  const difference = actual > expected ? actual - expected : expected - actual;
+  expect(difference < BigInt(1000000)).toBe(true);
+};
+
+describe('reflection token on chain', () => {
+  let owner: ethers.Signer;
+  let alice: ethers.Signer;
+  let bob: ethers.Signer;
+  let carol: ethers.Signer;
+  let token: ethers.Contract;
+  let holders: string[];
+
+  beforeAll(async () => {
+    [owner, alice, bob, carol] = await getSigners(4);
+    holders = await Promise.all([owner, alice, bob, carol].map(signer => signer.getAddress()));
+  });
+
+  // 2% of each transfer between non-owners is reflected to every included holder
+  beforeEach(async () => {
+    token = await deployToken({ ...NONE, reflection: true }, {
+      name: 'Reflect',
+      symbol: 'RFL',
+      decimals_: 18,
+      initialSupply: SUPPLY,
+      maxSupply_: 0,
+      owner: holders[0],
+      reflectionFee_: 200
+    }, owner);
+
+    await (await token.transfer(holders[1], ethers.parseEther('100000'))).wait();
+    await (await token.transfer(holders[2], ethers.parseEther('100000'))).wait();
+  }, 120000);
+
+  const balancesOf = async () => Promise.all(holders.map(holder => token.balanceOf(holder) as Promise<bigint>));
+
+  it('should reflect the fee to holders in proportion to their balances', async () => {
+    await (await (token.connect(alice) as ethers.Contract).transfer(holders[3], ethers.parseEther('10000'))).wait();
+    const [ownerBalance, aliceBalance, bobBalance, carolBalance] = await balancesOf();
+
+    // 200 tokens go to the 999,800 tokens still held
+    const share = (balance: string) => (ethers.parseEther('200') * ethers.parseEther(balance)) / ethers.parseEther('999800');
+    expectClose(ownerBalance, ethers.parseEther('800000') + share('800000'));
+    expectClose(aliceBalance, ethers.parseEther('90000') + share('90000'));
+    expectClose(bobBalance, ethers.parseEther('100000') + share('100000'));
+    expectClose(carolBalance, ethers.parseEther('9800') + share('9800'));
+
+    expect(await token.totalSupply()).toBe(SUPPLY);
+    expect(await token.totalReflected()).toBe(ethers.parseEther('200'));
+    expectClose(await token.reflectionsEarned(holders[2]), share('100000'));
+    expectClose(ownerBalance + aliceBalance + bobBalance + carolBalance, SUPPLY);
+  }, 120000);
+
+  it('should not reflect to excluded accounts, including for the time they were excluded', async () => {
+    const aliceToken = token.connect(alice) as ethers.Contract;
+    await (await token.excludeFromReflection(holders[2])).wait();
+    await (await aliceToken.transfer(holders[3], ethers.parseEther('10000'))).wait();
+
+    expect(await token.balanceOf(holders[2])).toBe(ethers.parseEther('100000'));
+    expect(await token.reflectionsEarned(holders[2])).toBe(BigInt(0));
+
+    await (await token.includeInReflection(holders[2])).wait();
+    expectClose(await token.balanceOf(holders[2]), ethers.parseEther('100000'));
+
+    await (await aliceToken.transfer(holders[3], ethers.parseEther('10000'))).wait();
+    expect(await token.balanceOf(holders[2]) > ethers.parseEther('100000')).toBe(true);
+  }, 120000);
+
+  it('should not charge transfers to or from the owner', async () => {
+    await (await (token.connect(alice) as ethers.Contract).transfer(holders[0], ethers.parseEther('10000'))).wait();
+
+    expect(await token.balanceOf(holders[1])).toBe(ethers.parseEther('90000'));
+    expect(await token.totalReflected()).toBe(BigInt(0));
+  }, 120000);
+
+  it('should only let the owner change the fee, up to 5%', async () => {
+    await expect(token.setReflectionFee(501)).rejects.toThrow('Fee too high');
+    await expect((token.connect(alice) as ethers.Contract).setReflectionFee(100)).rejects.toThrow('Ownable');
+  }, 120000);
+});
@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, deployToken, getSigners } from './hardhat';
+
+describe('role-based token on chain', () => {
+  let owner: ethers.Signer;
+  let alice: ethers.Signer;
+  let bob: ethers.Signer;
+  let token: ethers.Contract;
+  let roles: string[];
+
+  beforeAll(async () => {
+    [owner, alice, bob] = await getSigners(3);
+  });
+
+  beforeEach(async () => {
+    token = await deployToken({ ...NONE, mintable: true, pausable: true, roles: true }, {
+      name: 'Roles',
+      symbol: 'ROL',
+      decimals_: 18,
+      initialSupply: ethers.parseEther('1000'),
+      maxSupply_: 0,
+      owner: await owner.getAddress()
+    }, owner);
+    roles = await Promise.all([token.DEFAULT_ADMIN_ROLE(), token.MINTER_ROLE(), token.PAUSER_ROLE(), token.FEE_MANAGER_ROLE()]);
+  }, 120000);
+
+  const rolesOf = async (account: string) => Promise.all(roles.map(role => token.hasRole(role, account) as Promise<boolean>));
+
+  it('should move the previous owner\'s roles to the new owner and leave other members alone', async () => {
+    const [ownerAddress, aliceAddress, bobAddress] = await Promise.all([owner, alice, bob].map(signer => signer.getAddress()));
+    await (await token.grantRole(roles[1], aliceAddress)).wait();
+
+    await (await token.transferOwnership(bobAddress)).wait();
+    await (await (token.connect(bob) as ethers.Contract).acceptOwnership()).wait();
+
+    expect(await rolesOf(ownerAddress)).toEqual([false, false, false, false]);
+    expect(await rolesOf(bobAddress)).toEqual([true, true, true, true]);
+    expect(await rolesOf(aliceAddress)).toEqual([false, true, false, false]);
+    await expect(token.mint(ownerAddress, 1)).rejects.toThrow('AccessControl');
+    await (await (token.connect(bob) as ethers.Contract).pause()).wait();
+  }, 120000);
+
+  it('should not hand back roles the previous owner gave up', async () => {
+    const ownerAddress = await owner.getAddress();
+    const bobAddress = await bob.getAddress();
+    await (await token.renounceRole(roles[1], ownerAddress)).wait();
+
+    await (await token.transferOwnership(bobAddress)).wait();
+    await (await (token.connect(bob) as ethers.Contract).acceptOwnership()).wait();
+
+    expect(await rolesOf(bobAddress)).toEqual([true, false, true, true]);
+  }, 120000);
+
+  it('should give up every role when ownership is renounced', async () => {
+    await (await token.renounceOwnership()).wait();
+
+    expect(await rolesOf(await owner.getAddress())).toEqual([false, false, false, false]);
+  }, 120000);
+});
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, deployMock, deployToken, getSigners, provider } from './hardhat';
+
+const SUPPLY = ethers.parseEther('1000000');
+
+const baseArgs = (owner: string) => ({
+  name: 'Taxed',
+  symbol: 'TAX',
+  decimals_: 18,
+  initialSupply: SUPPLY,
+  maxSupply_: 0,
+  owner
+});
+
+describe('tax token on chain', () => {
+  let owner: ethers.Signer;
+  let alice: ethers.Signer;
+  let bob: ethers.Signer;
+
+  beforeAll(async () => {
+    [owner, alice, bob] = await getSigners(3);
+  });
+
+  describe('without a router', () => {
+    let token: ethers.Contract;
+    let pair: ethers.Contract;
+    const recipients = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+
+    beforeEach(async () => {
+      token = await deployToken({ ...NONE, taxes: true }, {
+        ...baseArgs(await owner.getAddress()),
+        taxes: {
+          buyTaxBps: 500,
+          sellTaxBps: 1000,
+          transferTaxBps: 200,
+          recipients,
+          shares: [6000, 4000],
+          liquidityShareBps: 0,
+          router: ethers.ZeroAddress,
+          swapThresholdBps: 0
+        }
+      }, owner);
+
+      pair = await deployMock('MockUniswapV2Router', 'MockUniswapV2Pair', owner);
+      await (await token.setAutomatedMarketMakerPair(await pair.getAddress(), true)).wait();
+      await (await token.transfer(await pair.getAddress(), ethers.parseEther('100000'))).wait();
+    }, 120000);
+
+    it('should charge the buy, sell and transfer rates and pay the shares out in tokens', async () => {
+      const aliceAddress = await alice.getAddress();
+      const bobAddress = await bob.getAddress();
+      const aliceToken = token.connect(alice) as ethers.Contract;
+
+      await (await pair.buy(await token.getAddress(), aliceAddress, ethers.parseEther('1000'))).wait();
+      expect(await token.balanceOf(aliceAddress)).toBe(ethers.parseEther('950'));
+
+      await (await aliceToken.transfer(await pair.getAddress(), ethers.parseEther('100'))).wait();
+      expect(await token.balanceOf(await pair.getAddress())).toBe(ethers.parseEther('99090'));
+
+      await (await aliceToken.transfer(bobAddress, ethers.parseEther('100'))).wait();
+      expect(await token.balanceOf(bobAddress)).toBe(ethers.parseEther('98'));
+
+      // 50 + 10 + 2 tokens of taxes, split 60/40
+      expect(await token.balanceOf(recipients[0])).toBe(ethers.parseEther('37.2'));
+      expect(await token.balanceOf(recipients[1])).toBe(ethers.parseEther('24.8'));
+    }, 120000);
+
+    it('should not tax exempt accounts', async () => {
+      const bobAddress = await bob.getAddress();
+      await (await token.transfer(bobAddress, ethers.parseEther('100'))).wait();
+      await (await token.setExemptFromTaxes(bobAddress, true)).wait();
+      await (await (token.connect(bob) as ethers.Contract).transfer(await pair.getAddress(), ethers.parseEther('100'))).wait();
+
+      expect(await token.balanceOf(recipients[0])).toBe(BigInt(0));
+      expect(await token.balanceOf(await pair.getAddress())).toBe(ethers.parseEther('100100'));
+    }, 120000);
+  });
+
+  describe('with a router', () => {
+    let token: ethers.Contract;
+    let router: ethers.Contract;
+    let pairAddress: string;
+
+    // 10% sell tax: 20% of it to liquidity and the rest to one recipient, swapped back from 1,000 tokens
+    const deploy = async (recipient: string) => {
+      router = await deployMock('MockUniswapV2Router', 'MockUniswapV2Router', owner);
+      await (await owner.sendTransaction({ to: await router.getAddress(), value: ethers.parseEther('10') })).wait();
+
+      token = await deployToken({ ...NONE, taxes: true }, {
+        ...baseArgs(await owner.getAddress()),
+        taxes: {
+          buyTaxBps: 0,
+          sellTaxBps: 1000,
+          transferTaxBps: 0,
+          recipients: [recipient],
+          shares: [8000],
+          liquidityShareBps: 2000,
+          router: await router.getAddress(),
+          swapThresholdBps: 10
+        }
+      }, owner);
+
+      pairAddress = await token.liquidityPair();
+      await (await token.transfer(pairAddress, ethers.parseEther('100000'))).wait();
+      await (await token.transfer(await alice.getAddress(), ethers.parseEther('20000'))).wait();
+    };
+
+    it('should keep taxes in the contract until the threshold and then swap them back on a sell', async () => {
+      const recipient = ethers.Wallet.createRandom().address;
+      await deploy(recipient);
+      const aliceToken = token.connect(alice) as ethers.Contract;
+
+      await (await aliceToken.transfer(pairAddress, ethers.parseEther('10000'))).wait();
+      expect(await token.balanceOf(await token.getAddress())).toBe(ethers.parseEther('1000'));
+      expect(await provider.getBalance(recipient)).toBe(BigInt(0));
+
+      // 100 tokens are kept for liquidity and 900 sold for 0.9 ETH, of which 0.1 ETH pairs with the 100 tokens
+      await (await aliceToken.transfer(pairAddress, ethers.parseEther('10000'))).wait();
+      expect(await provider.getBalance(recipient)).toBe(ethers.parseEther('0.8'));
+      expect(await token.balanceOf(await token.getAddress())).toBe(ethers.parseEther('1000'));
+      expect(await token.balanceOf(pairAddress)).toBe(ethers.parseEther('119000'));
+    }, 120000);
+
+    it('should not block sells when a recipient rejects its payment', async () => {
+      // The mock pair has no receive function
+      const recipient = await deployMock('MockUniswapV2Router', 'MockUniswapV2Pair', owner);
+      await deploy(await recipient.getAddress());
+      const aliceToken = token.connect(alice) as ethers.Contract;
+
+      await (await aliceToken.transfer(pairAddress, ethers.parseEther('10000'))).wait();
+      const receipt = await (await aliceToken.transfer(pairAddress, ethers.parseEther('10000'))).wait();
+      const events = receipt.logs.map((log: ethers.Log) => token.interface.parseLog(log)?.name);
+
+      expect(events).toContain('TaxPaymentFailed');
+      expect(events).toContain('SwapBack');
+      expect(await provider.getBalance(await token.getAddress())).toBe(ethers.parseEther('0.8'));
+    }, 120000);
+
+    it('should only let the owner change the main pair or swap back manually', async () => {
+      await deploy(ethers.Wallet.createRandom().address);
+
+      await expect(token.setAutomatedMarketMakerPair(pairAddress, false)).rejects.toThrow('Cannot change the main pair');
+      await expect((token.connect(alice) as ethers.Contract).manualSwapBack()).rejects.toThrow('Ownable');
+    }, 120000);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ethers } from 'ethers';
+import { NONE, deployImplementation, deployProxy, getSigners } from './hardhat';
+
+const CURRENT = { ...NONE, mintable: true, pausable: true, upgradeable: true };
+
+describe('upgradeable token on chain', () => {
+  let owner: ethers.Signer;
+  let alice: ethers.Signer;
+  let token: ethers.Contract;
+
+  beforeAll(async () => {
+    [owner, alice] = await getSigners(2);
+  });
+
+  // Deployed as the deployment script does: an implementation, then a proxy that calls initialize
+  beforeEach(async () => {
+    const implementation = await deployImplementation(CURRENT, owner);
+    const initialize = implementation.interface.encodeFunctionData('initialize', [
+      'Upgradeable', 'UPG', 18, ethers.parseEther('1000'), 0, await owner.getAddress()
+    ]);
+    const proxy = await deployProxy(await implementation.getAddress(), initialize, owner);
+    token = implementation.attach(await proxy.getAddress()) as ethers.Contract;
+    await (await token.transfer(await alice.getAddress(), ethers.parseEther('100'))).wait();
+  }, 120000);
+
+  const upgradeTo = async (features: typeof CURRENT) => {
+    const implementation = await deployImplementation(features, owner);
+    const reinitialize = implementation.interface.encodeFunctionData('reinitialize');
+    await (await token.upgradeToAndCall(await implementation.getAddress(), reinitialize)).wait();
+    return implementation.attach(await token.getAddress()) as ethers.Contract;
+  };
+
+  it('should keep balances and set up what the new implementation adds in the upgrade call', async () => {
+    const upgraded = await upgradeTo({ ...CURRENT, antiWhale: true });
+
+    expect(await upgraded.balanceOf(await alice.getAddress())).toBe(ethers.parseEther('100'));
+    // Without the reinitializer the owner would be held to the new limits like everyone else
+    expect(await upgraded.isExemptFromLimits(await owner.getAddress())).toBe(true);
+    expect(await upgraded.isExemptFromLimits(await upgraded.getAddress())).toBe(true);
+    await (await upgraded.transfer(await alice.getAddress(), ethers.parseEther('100'))).wait();
+    await expect((upgraded.connect(alice) as ethers.Contract).transfer(ethers.Wallet.createRandom().address, 1)).rejects.toThrow('Trading not enabled');
+  }, 120000);
+
+  it('should run the reinitializer once per upgrade and only for the owner', async () => {
+    const upgraded = await upgradeTo({ ...CURRENT, blacklist: true });
+    await expect((upgraded.connect(alice) as ethers.Contract).reinitialize()).rejects.toThrow('Ownable');
+
+    // A later upgrade runs it again
+    await upgradeTo({ ...CURRENT, blacklist: true });
+    await expect((upgraded.connect(alice) as ethers.Contract).upgradeToAndCall(ethers.ZeroAddress, '0x')).rejects.toThrow('Ownable');
+  }, 120000);
+});
@@ -0,0 +1,144 @@
+import { renderHook, act } from '@testing-library/react';
+import { useMultiChainDeployment } from '../../src/hooks/useMultiChainDeployment';
+import { contractService } from '../../src/services/contractService';
+import { web3Service } from '../../src/services/web3Service';
+import { Network, TokenConfig } from '../../src/types';
+
+jest.mock('../../src/config/constants', () => ({
+  DEX_ROUTERS: {
+    1: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+    56: '0x10ED43C718714eb63d5aA57B78B54704E256024E'
+  }
+}));
+
+jest.mock('../../src/services/contractService', () => ({
+  contractService: { deployToken: jest.fn() }
+}));
+
+jest.mock('../../src/services/web3Service', () => ({
+  web3Service: { getCurrentNetwork: jest.fn(), switchNetwork: jest.fn() }
+}));
+
+const network = (chainId: number, name: string): Network => ({
+  id: name.toLowerCase(),
+  name,
+  symbol: 'ETH',
+  chainId,
+  rpcUrl: '',
+  explorerUrl: '',
+  gasPrice: '0'
+});
+
+const ETHEREUM = network(1, 'Ethereum');
+const BSC = network(56, 'BSC');
+const POLYGON = network(137, 'Polygon');
+const STORAGE_KEY = 'multichain_MCT_1-56-137';
+
+const config: TokenConfig = {
+  name: 'Multi Chain Token',
+  symbol: 'MCT',
+  decimals: 18,
+  initialSupply: '1000000',
+  maxSupply: '0',
+  network: ETHEREUM,
+  additionalNetworks: [BSC, POLYGON],
+  features: {
+    burnable: false,
+    mintable: false,
+    transferFees: { enabled: false, percentage: 0, recipient: '' },
+    holderRedistribution: { enabled: false, percentage: 0 }
+  },
+  vesting: []
+};
+
+const deployed = (chain: Network) => ({
+  contractAddress: `0x${chain.chainId.toString(16).padStart(40, '0')}`,
+  transactionHash: '0x1234',
+  network: chain,
+  explorerUrl: ''
+});
+
+const deployToken = contractService.deployToken as jest.Mock;
+
+describe('useMultiChainDeployment hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    (web3Service.getCurrentNetwork as jest.Mock).mockResolvedValue(ETHEREUM);
+    deployToken.mockImplementation(async (networkConfig: TokenConfig) => deployed(networkConfig.network));
+  });
+
+  it('should deploy to every network in order and clear the progress when all are deployed', async () => {
+    const { result } = renderHook(() => useMultiChainDeployment(config));
+    const { projectId } = result.current;
+
+    let deployment: Awaited<ReturnType<typeof result.current.deployAll>> = null;
+    await act(async () => {
+      deployment = await result.current.deployAll();
+    });
+
+    expect(deployToken.mock.calls.map(([networkConfig]) => networkConfig.network.chainId)).toEqual([1, 56, 137]);
+    expect(deployToken.mock.calls[1][1]).toEqual(expect.objectContaining({ projectId, idempotencyKey: `${projectId}:56` }));
+    expect(web3Service.switchNetwork).toHaveBeenCalledTimes(2);
+    expect(deployment!.deployments).toHaveLength(3);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('should keep going after a failed network and only deploy the missing ones on resume', async () => {
+    deployToken.mockImplementationOnce(async (networkConfig: TokenConfig) => deployed(networkConfig.network))
+      .mockRejectedValueOnce(new Error('insufficient funds'));
+    const { result } = renderHook(() => useMultiChainDeployment(config));
+
+    await act(async () => {
+      expect(await result.current.deployAll()).toBeNull();
+    });
+    expect(result.current.chains.map(chain => chain.status)).toEqual(['deployed', 'failed', 'deployed']);
+    expect(result.current.chains[1].error).toBe('insufficient funds');
+
+    deployToken.mockClear();
+    await act(async () => {
+      expect(await result.current.deployAll()).not.toBeNull();
+    });
+    expect(deployToken).toHaveBeenCalledTimes(1);
+    expect(deployToken.mock.calls[0][0].network.chainId).toBe(56);
+  });
+
+  it('should resume saved progress after a reload with the same project and follow interrupted jobs', async () => {
+    const job = { id: 'job-1', status: 'broadcast' };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      projectId: 'project-1',
+      chains: [
+        { network: ETHEREUM, status: 'deployed', result: deployed(ETHEREUM) },
+        { network: BSC, status: 'deploying', job }
+      ]
+    }));
+
+    const { result } = renderHook(() => useMultiChainDeployment(config));
+    expect(result.current.projectId).toBe('project-1');
+    expect(result.current.chains.map(chain => chain.status)).toEqual(['deployed', 'failed', 'pending']);
+    expect(result.current.chains[1].job).toEqual(job);
+
+    await act(async () => {
+      await result.current.deployAll();
+    });
+
+    // The same idempotency key gets the queued job back instead of a second deployment
+    expect(deployToken.mock.calls.map(([, options]) => options.idempotencyKey)).toEqual(['project-1:56', 'project-1:137']);
+  });
+
+  it('should load the progress of another network set when the networks change', () => {
+    localStorage.setItem('multichain_MCT_1-56', JSON.stringify({
+      projectId: 'project-2',
+      chains: [{ network: ETHEREUM, status: 'deployed', result: deployed(ETHEREUM) }]
+    }));
+
+    const { result, rerender } = renderHook(({ networks }) => useMultiChainDeployment({ ...config, additionalNetworks: networks }), {
+      initialProps: { networks: [BSC, POLYGON] }
+    });
+    expect(result.current.projectId).not.toBe('project-2');
+
+    rerender({ networks: [BSC] });
+    expect(result.current.projectId).toBe('project-2');
+    expect(result.current.chains.map(chain => chain.status)).toEqual(['deployed', 'pending']);
+  });
+});
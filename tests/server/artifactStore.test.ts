@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import solc from 'solc';
+
+interface CompileRequest {
+  id: number;
+  input?: string;
+}
+
+// solc.js runs in-process instead of on a worker thread, so the tests can count and break compilations
+const mockWorkers: MockWorker[] = [];
+const mockCompiled: string[] = [];
+let mockCrashNext = false;
+
+class MockWorker extends EventEmitter {
+  constructor() {
+    super();
+    mockWorkers.push(this);
+  }
+
+  ref() {}
+
+  unref() {}
+
+  postMessage({ id, input }: CompileRequest) {
+    setImmediate(() => {
+      if (mockCrashNext) {
+        mockCrashNext = false;
+        this.emit('error', new Error('Worker crashed'));
+        this.emit('exit', 1);
+        return;
+      }
+
+      if (input !== undefined) mockCompiled.push(input);
+      this.emit('message', { id, version: solc.version(), output: input === undefined ? null : solc.compile(input) });
+    });
+  }
+}
+
+jest.mock('worker_threads', () => ({ Worker: MockWorker }));
+
+const SOURCES: Record<string, string> = {
+  GoodToken: '// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\ncontract GoodToken { uint256 public supply = 1; }\n',
+  BrokenToken: '// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\ncontract BrokenToken { uint256 public supply = ; }\n'
+};
+
+jest.mock('../../server/utils/contractSources', () => ({
+  getContractSource: async (contractType: string) => {
+    if (!SOURCES[contractType]) throw new Error(`Unknown contract type: ${contractType}`);
+    return SOURCES[contractType];
+  }
+}));
+
+interface StoredArtifact {
+  hash: string;
+  contractName: string;
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+  sourceHash: string;
+  standardJsonInput: unknown;
+}
+
+interface ArtifactStore {
+  getContractArtifact(contractType: string): Promise<StoredArtifact>;
+  getProxyArtifact(): Promise<StoredArtifact>;
+  getArtifact(hash: string): StoredArtifact | null;
+  getArtifactPath(hash: string): string;
+  summarizeArtifact(artifact: StoredArtifact): Omit<StoredArtifact, 'standardJsonInput'>;
+}
+
+// A fresh store, as after a server restart; artifacts on disk are kept
+const loadStore = async (): Promise<ArtifactStore> => {
+  let store: ArtifactStore | undefined;
+  await jest.isolateModulesAsync(async () => {
+    store = (await import('../../server/utils/artifactStore')) as unknown as ArtifactStore;
+  });
+  return store!;
+};
+
+describe('artifactStore', () => {
+  let storeDir: string;
+
+  beforeEach(() => {
+    storeDir = mkdtempSync(join(tmpdir(), 'artifacts-'));
+    process.env.ARTIFACT_STORE_DIR = storeDir;
+    mockWorkers.length = 0;
+    mockCompiled.length = 0;
+  });
+
+  afterEach(() => {
+    delete process.env.ARTIFACT_STORE_DIR;
+    rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it('should compile a contract type from its generated source and store the artifact', async () => {
+    const store = await loadStore();
+    const artifact = await store.getContractArtifact('GoodToken');
+
+    expect(artifact.contractName).toBe('contract.sol:GoodToken');
+    expect(artifact.bytecode).toMatch(/^[0-9a-f]+$/);
+    expect(existsSync(store.getArtifactPath(artifact.hash))).toBe(true);
+    // The app compares this with the hash of the input it builds itself
+    expect(artifact.sourceHash).toBe(ethers.sha256(ethers.toUtf8Bytes(JSON.stringify(artifact.standardJsonInput))));
+    expect(store.summarizeArtifact(artifact)).not.toHaveProperty('standardJsonInput');
+  }, 60000);
+
+  it('should compile each contract type once', async () => {
+    const store = await loadStore();
+    const [first, second] = await Promise.all([store.getContractArtifact('GoodToken'), store.getContractArtifact('GoodToken')]);
+    const third = await store.getContractArtifact('GoodToken');
+
+    expect(second).toBe(first);
+    expect(third.hash).toBe(first.hash);
+    expect(mockCompiled).toHaveLength(1);
+
+    // After a restart the artifact is read back from disk
+    const restarted = await loadStore();
+    expect((await restarted.getContractArtifact('GoodToken')).hash).toBe(first.hash);
+    expect(mockCompiled).toHaveLength(1);
+  }, 60000);
+
+  it('should not store contracts that fail to compile or types it does not know', async () => {
+    const store = await loadStore();
+
+    await expect(store.getContractArtifact('BrokenToken')).rejects.toThrow('Compilation errors');
+    await expect(store.getContractArtifact('EvilToken')).rejects.toThrow('Unknown contract type');
+    expect(mockCompiled).toHaveLength(1);
+  }, 60000);
+
+  it('should compile the proxy upgradeable tokens are deployed behind with its OpenZeppelin imports', async () => {
+    const store = await loadStore();
+    const artifact = await store.getProxyArtifact();
+
+    expect(artifact.contractName).toBe('@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol:ERC1967Proxy');
+    expect(new ethers.Interface(artifact.abi).deploy.inputs.map(input => input.type)).toEqual(['address', 'bytes']);
+    expect((await store.getProxyArtifact()).hash).toBe(artifact.hash);
+    expect(mockCompiled).toHaveLength(1);
+  }, 60000);
+
+  it('should only read artifacts by their hash', async () => {
+    const store = await loadStore();
+    const artifact = await store.getContractArtifact('GoodToken');
+
+    expect(store.getArtifact(artifact.hash)?.hash).toBe(artifact.hash);
+    expect(store.getArtifact('../../package')).toBeNull();
+    expect(store.getArtifact('0'.repeat(64))).toBeNull();
+  }, 60000);
+
+  it('should fail pending compilations when the worker crashes and start a new worker', async () => {
+    const store = await loadStore();
+    mockCrashNext = true;
+
+    await expect(store.getContractArtifact('GoodToken')).rejects.toThrow('Worker crashed');
+    await expect(store.getContractArtifact('GoodToken')).resolves.toHaveProperty('contractName', 'contract.sol:GoodToken');
+    expect(mockWorkers).toHaveLength(2);
+  }, 60000);
+});
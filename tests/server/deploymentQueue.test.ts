@@ -0,0 +1,382 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import * as deploymentQueue from '../../server/jobs/deploymentQueue';
+
+interface JobRow {
+  id: string;
+  owner_address: string;
+  kind: string;
+  network: string;
+  idempotency_key: string | null;
+  request: string;
+  request_hash: string | null;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  logs: string;
+  result: string | null;
+  error: string | null;
+  transaction_hash: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+  lease_expires_at: Date | null;
+}
+
+interface SerializedJob {
+  id: string;
+  status: string;
+  attempts: number;
+  error: string | null;
+  done: boolean;
+}
+
+// The deployment_jobs table, with just enough of each statement the queue sends
+const mockJobs: JobRow[] = [];
+let mockNextId = 1;
+
+const rows = (...jobs: Array<JobRow | undefined>) => ({ rows: jobs.filter((job): job is JobRow => !!job) });
+const isInterrupted = (job: JobRow) => !job.finished_at && (!job.lease_expires_at || job.lease_expires_at.getTime() < Date.now());
+
+const mockQuery = jest.fn(async (sql: string, params: unknown[] = []) => {
+  const byId = () => mockJobs.find(job => job.id === params[0]);
+
+  if (sql.startsWith('SELECT * FROM deployment_jobs WHERE id')) return rows(byId());
+  if (sql.includes('WHERE owner_address = $1 AND idempotency_key = $2')) {
+    return rows(mockJobs.find(job => job.owner_address === params[0] && job.idempotency_key === params[1]));
+  }
+  if (sql.includes('SET idempotency_key = NULL')) {
+    byId()!.idempotency_key = null;
+    return rows();
+  }
+  if (sql.startsWith('INSERT INTO deployment_jobs')) {
+    const [ownerAddress, kind, network, idempotencyKey, request, requestHash] = params as string[];
+    if (idempotencyKey && mockJobs.some(job => job.owner_address === ownerAddress && job.idempotency_key === idempotencyKey)) {
+      return rows();
+    }
+    const job: JobRow = {
+      id: `job-${mockNextId++}`, owner_address: ownerAddress, kind, network, idempotency_key: idempotencyKey, request,
+      request_hash: requestHash, status: 'pending', attempts: 0, max_attempts: 3, run_after: new Date(), logs: '',
+      result: null, error: null, transaction_hash: null, created_at: new Date(), started_at: null, finished_at: null,
+      lease_expires_at: null
+    };
+    mockJobs.push(job);
+    return rows(job);
+  }
+  if (sql.includes("SET status = 'compiling'")) {
+    const job = mockJobs.find(candidate => candidate.status === 'pending' && candidate.run_after.getTime() <= Date.now());
+    if (job) {
+      Object.assign(job, { status: 'compiling', attempts: job.attempts + 1, started_at: new Date() });
+      job.lease_expires_at = new Date(Date.now() + (params[0] as number));
+    }
+    return rows(job);
+  }
+  if (sql.includes('SET logs = logs ||')) {
+    byId()!.logs += params[1];
+    return rows();
+  }
+  if (sql.includes('SET lease_expires_at = CURRENT_TIMESTAMP +')) {
+    const job = byId();
+    if (job && !job.finished_at) job.lease_expires_at = new Date(Date.now() + (params[1] as number));
+    return rows();
+  }
+  if (sql.includes("WHERE status = 'compiling' AND")) {
+    mockJobs.filter(job => job.status === 'compiling' && isInterrupted(job))
+      .forEach(job => Object.assign(job, { status: 'pending', lease_expires_at: null }));
+    return rows();
+  }
+  if (sql.includes("WHERE status IN ('broadcast', 'confirmed', 'verified') AND")) {
+    mockJobs.filter(job => ['broadcast', 'confirmed', 'verified'].includes(job.status) && isInterrupted(job))
+      .forEach(job => Object.assign(job, { status: 'failed', finished_at: new Date(), error: `Interrupted after broadcasting ${job.transaction_hash}` }));
+    return rows();
+  }
+  if (sql.startsWith('UPDATE deployment_jobs SET') && sql.includes('WHERE id = $1 RETURNING *')) {
+    const job = byId();
+    for (const [, column, index] of sql.matchAll(/(\w+) = \$(\d+)/g)) {
+      (job as unknown as Record<string, unknown>)[column] = params[Number(index) - 1];
+    }
+    return rows(job);
+  }
+  throw new Error(`Unexpected query: ${sql}`);
+});
+
+// The worker lock is a session-level advisory lock, held by the first connection that asks for it
+let mockLockHolder: object | null = null;
+
+const mockConnect = async () => {
+  const client = {
+    query: async () => {
+      mockLockHolder = mockLockHolder || client;
+      return { rows: [{ locked: mockLockHolder === client }] };
+    },
+    release: () => {},
+    on: () => {}
+  };
+  return client;
+};
+
+jest.mock('../../server/db', () => ({
+  query: (sql: string, params?: unknown[]) => mockQuery(sql, params),
+  pool: { connect: () => mockConnect() }
+}));
+
+// Each run of the Hardhat script takes the next behaviour; a script with none keeps running until it is ended
+class MockChild extends EventEmitter {
+  stdout = new EventEmitter();
+  stderr = new EventEmitter();
+
+  print(line: string) {
+    this.stdout.emit('data', Buffer.from(`${line}\n`));
+  }
+
+  exit(code: number) {
+    this.emit('close', code);
+  }
+
+  kill() {
+    this.exit(1);
+  }
+}
+
+type Script = (child: MockChild) => void;
+const mockScripts: Script[] = [];
+const mockChildren: MockChild[] = [];
+
+jest.mock('child_process', () => ({
+  spawn: () => {
+    const child = new MockChild();
+    mockChildren.push(child);
+    const script = mockScripts.shift();
+    if (script) setImmediate(() => script(child));
+    return child;
+  }
+}));
+
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const broadcast = (child: MockChild) => {
+  child.print('Deployment stage: {"stage":"compiling"}');
+  child.print(`Deployment stage: {"stage":"broadcast","transactionHash":"${TX_HASH}"}`);
+};
+
+const succeed: Script = child => {
+  broadcast(child);
+  child.print(`Deployment result: {"success":true,"transactionHash":"${TX_HASH}","contractAddress":"0x${'12'.repeat(20)}"}`);
+  child.exit(0);
+};
+
+const failBeforeBroadcast: Script = child => {
+  child.stderr.emit('data', Buffer.from('Error: could not reach the RPC\n'));
+  child.exit(1);
+};
+
+const failAfterBroadcast: Script = child => {
+  broadcast(child);
+  child.print('Deployment result: {"success":false,"error":"Transaction reverted"}');
+  child.exit(1);
+};
+
+interface DeploymentQueue {
+  jobEvents: EventEmitter;
+  registerJobHandler: (kind: string, handler: object) => void;
+  enqueueJob: (options: object) => Promise<{ job: JobRow; created: boolean }>;
+  isTerminal: (job: JobRow) => boolean;
+  startDeploymentWorker: () => Promise<void>;
+}
+
+const queue = deploymentQueue as unknown as DeploymentQueue;
+
+const POLL_MS = 2000;
+const RETRY_DELAY_MS = 30 * 1000;
+const LEASE_MS = 2 * 60 * 1000;
+
+const onComplete = jest.fn(async () => ({ saved: true }));
+const handler = {
+  prepare: async () => ({ script: 'deploy-token.js', network: 'bscTestnet', env: {} }),
+  onComplete
+};
+
+const settle = async () => {
+  for (let i = 0; i < 50; i++) await new Promise(resolve => setImmediate(resolve));
+};
+
+const enqueue = (payload: object = { contractType: 'BasicToken' }, idempotencyKey: string | null = null, instance = queue) =>
+  instance.enqueueJob({ kind: 'token', ownerAddress: '0xowner', network: 'bsc-testnet', payload, idempotencyKey });
+
+// Statuses a job moves through, from the updates status streams get
+const followStatuses = (id: string) => {
+  const statuses: string[] = [];
+  queue.jobEvents.on(`job:${id}`, (event: { type: string; job?: SerializedJob }) => {
+    if (event.type === 'update' && statuses[statuses.length - 1] !== event.job!.status) statuses.push(event.job!.status);
+  });
+  return statuses;
+};
+
+const getJob = (id: string) => mockJobs.find(job => job.id === id)!;
+
+describe('deploymentQueue', () => {
+  beforeAll(async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick', 'queueMicrotask'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    queue.registerJobHandler('token', handler);
+    await queue.startDeploymentWorker();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    mockJobs.length = 0;
+    mockScripts.length = 0;
+    onComplete.mockClear();
+  });
+
+  it('should run a job through its stages and keep the result', async () => {
+    mockScripts.push(succeed);
+    const { job, created } = await enqueue();
+    const statuses = followStatuses(job.id);
+    await settle();
+
+    expect(created).toBe(true);
+    expect(statuses).toEqual(['compiling', 'broadcast', 'confirmed']);
+    expect(getJob(job.id)).toEqual(expect.objectContaining({ attempts: 1, transaction_hash: TX_HASH }));
+    expect(JSON.parse(getJob(job.id).result!)).toEqual(expect.objectContaining({ success: true, saved: true }));
+    expect(getJob(job.id).logs).toContain('Deployment result:');
+  });
+
+  it('should retry a job that failed before broadcasting, waiting longer each time', async () => {
+    mockScripts.push(failBeforeBroadcast, failBeforeBroadcast, succeed);
+    const { job } = await enqueue();
+    await settle();
+
+    expect(getJob(job.id)).toEqual(expect.objectContaining({ status: 'pending', attempts: 1, error: 'Deployment script exited with code 1' }));
+
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY_MS + POLL_MS);
+    await settle();
+    expect(getJob(job.id)).toEqual(expect.objectContaining({ status: 'pending', attempts: 2 }));
+
+    // The second retry waits twice as long
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY_MS + POLL_MS);
+    await settle();
+    expect(getJob(job.id).attempts).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY_MS);
+    await settle();
+    expect(getJob(job.id)).toEqual(expect.objectContaining({ status: 'confirmed', attempts: 3, error: null }));
+  });
+
+  it('should fail a job after its last attempt', async () => {
+    mockScripts.push(failBeforeBroadcast, failBeforeBroadcast, failBeforeBroadcast);
+    const { job } = await enqueue();
+    await settle();
+
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY_MS + POLL_MS);
+    await settle();
+    await jest.advanceTimersByTimeAsync(2 * RETRY_DELAY_MS + POLL_MS);
+    await settle();
+
+    expect(getJob(job.id)).toEqual(expect.objectContaining({ status: 'failed', attempts: 3 }));
+    expect(getJob(job.id).finished_at).not.toBeNull();
+  });
+
+  it('should not retry a job after its transaction was broadcast', async () => {
+    mockScripts.push(failAfterBroadcast);
+    const { job } = await enqueue();
+    await settle();
+
+    expect(getJob(job.id)).toEqual(expect.objectContaining({ status: 'failed', attempts: 1 }));
+    expect(getJob(job.id).error).toContain(`after broadcasting ${TX_HASH}`);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('should fail a job whose script reports a result that is not JSON', async () => {
+    mockScripts.push(child => {
+      broadcast(child);
+      child.print('Deployment result: {"success":true,');
+      child.exit(0);
+    });
+    const { job } = await enqueue();
+    await settle();
+
+    expect(getJob(job.id)).toEqual(expect.objectContaining({ status: 'failed', attempts: 1 }));
+    expect(getJob(job.id).error).toContain(`invalid result (after broadcasting ${TX_HASH}`);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('should only claim jobs on the instance holding the worker lock', async () => {
+    let other: DeploymentQueue | undefined;
+    await jest.isolateModulesAsync(async () => {
+      other = (await import('../../server/jobs/deploymentQueue')) as unknown as DeploymentQueue;
+    });
+    other!.registerJobHandler('token', handler);
+
+    // Queued through another instance, which cannot take the lock this instance holds
+    mockScripts.push(succeed);
+    const { job } = await enqueue(undefined, null, other);
+    await settle();
+    expect(getJob(job.id).status).toBe('pending');
+
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+    await settle();
+    expect(getJob(job.id).status).toBe('confirmed');
+  });
+
+  it('should answer a repeated request with its job and refuse a key reused for another deployment', async () => {
+    mockScripts.push(failBeforeBroadcast, failBeforeBroadcast, failBeforeBroadcast, succeed);
+    const { job } = await enqueue({ contractType: 'BasicToken' }, 'key-1');
+
+    const repeated = await enqueue({ contractType: 'BasicToken' }, 'key-1');
+    expect(repeated).toEqual({ job: expect.objectContaining({ id: job.id }), created: false });
+    await expect(enqueue({ contractType: 'MintableToken' }, 'key-1')).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+
+    // A failed job releases its key, also for a changed request
+    await settle();
+    await jest.advanceTimersByTimeAsync(RETRY_DELAY_MS + POLL_MS);
+    await settle();
+    await jest.advanceTimersByTimeAsync(2 * RETRY_DELAY_MS + POLL_MS);
+    await settle();
+    expect(getJob(job.id).status).toBe('failed');
+
+    const retried = await enqueue({ contractType: 'MintableToken' }, 'key-1');
+    expect(retried.created).toBe(true);
+    expect(getJob(job.id).idempotency_key).toBeNull();
+    await settle();
+  });
+
+  it('should renew the lease of a running job and only recover jobs whose lease ran out', async () => {
+    const { job } = await enqueue();
+    await settle();
+    const child = mockChildren[mockChildren.length - 1];
+
+    // Jobs another instance was running when it stopped, and one it is still running
+    const other = (status: string, lease: number | null) => ({
+      ...getJob(job.id),
+      id: `other-${status}-${lease}`,
+      status,
+      transaction_hash: TX_HASH,
+      lease_expires_at: lease === null ? null : new Date(Date.now() + lease)
+    });
+    mockJobs.push(other('compiling', -1000), other('broadcast', null), other('verified', -1000), other('broadcast', 10 * LEASE_MS));
+
+    await jest.advanceTimersByTimeAsync(LEASE_MS);
+    await settle();
+
+    expect(getJob(job.id).status).toBe('compiling');
+    expect(getJob(job.id).lease_expires_at!.getTime()).toBeGreaterThan(Date.now());
+    expect(getJob('other-compiling--1000').status).toBe('pending');
+    expect(getJob('other-broadcast-null').status).toBe('failed');
+    expect(getJob('other-verified--1000').status).toBe('failed');
+    expect(getJob(`other-broadcast-${10 * LEASE_MS}`).status).toBe('broadcast');
+
+    succeed(child);
+    await settle();
+    expect(getJob(job.id).status).toBe('confirmed');
+  });
+});
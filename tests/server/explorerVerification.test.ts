@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as explorerVerification from '../../server/utils/explorerVerification';
+
+interface VerificationResult {
+  status: 'unverified' | 'pending' | 'verified' | 'failed';
+  guid: string | null;
+  message: string;
+}
+
+interface ExplorerClient {
+  verify(request: object): Promise<VerificationResult>;
+  submit(request: object): Promise<VerificationResult>;
+  checkStatus(guid: string): Promise<VerificationResult>;
+}
+
+interface ExplorerClientOptions {
+  apiUrl: string;
+  apiKey?: string;
+  pollInterval?: number;
+  maxAttempts?: number;
+  fetchFn?: typeof nodeFetch;
+}
+
+const { ExplorerVerificationClient, getExplorerClient } = explorerVerification as unknown as {
+  ExplorerVerificationClient: new (options: ExplorerClientOptions) => ExplorerClient;
+  getExplorerClient: (chainId: number, options?: Partial<ExplorerClientOptions>) => ExplorerClient | null;
+};
+
+// Minimal fetch built on Node's http module, so requests reach the local stub explorer
+const nodeFetch = ((url: string, init: RequestInit = {}) =>
+  new Promise((resolve, reject) => {
+    const req = http.request(url, { method: init.method, headers: init.headers as Record<string, string> }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => { body += chunk; });
+      res.on('end', () => {
+        resolve({
+          ok: res.statusCode! >= 200 && res.statusCode! < 300,
+          status: res.statusCode,
+          statusText: res.statusMessage,
+          json: async () => JSON.parse(body),
+        });
+      });
+    });
+    req.on('error', reject);
+    if (init.body) req.write(init.body);
+    req.end();
+  }));
+
+interface StubExplorer {
+  apiUrl: string;
+  submissions: URLSearchParams[];
+  statusChecks: URLSearchParams[];
+  close: () => Promise<void>;
+}
+
+// Stub Etherscan-family API: accepts one submission, reports pending `pendingChecks` times, then `finalResult`
+const startStubExplorer = (options: {
+  submitResponse?: { status: string; message: string; result: string };
+  pendingChecks?: number;
+  finalResult?: string;
+}): Promise<StubExplorer> => {
+  const submissions: URLSearchParams[] = [];
+  const statusChecks: URLSearchParams[] = [];
+  let remainingPending = options.pendingChecks ?? 0;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method === 'POST') {
+        const params = new URLSearchParams(body);
+        submissions.push(params);
+        res.end(JSON.stringify(options.submitResponse || { status: '1', message: 'OK', result: 'guid-123' }));
+        return;
+      }
+
+      const params = new URL(req.url || '', 'http://localhost').searchParams;
+      statusChecks.push(params);
+
+      if (remainingPending > 0) {
+        remainingPending--;
+        res.end(JSON.stringify({ status: '0', message: 'NOTOK', result: 'Pending in queue' }));
+        return;
+      }
+
+      const result = options.finalResult || 'Pass - Verified';
+      res.end(JSON.stringify({ status: result.startsWith('Pass') ? '1' : '0', message: 'OK', result }));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        apiUrl: `http://127.0.0.1:${port}/api`,
+        submissions,
+        statusChecks,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+};
+
+const request = {
+  contractAddress: '0x1234567890123456789012345678901234567890',
+  contractName: 'contract.sol:BasicToken',
+  compilerVersion: 'v0.8.30+commit.73712a01',
+  standardJsonInput: {
+    language: 'Solidity',
+    sources: { 'contract.sol': { content: 'contract BasicToken {}' } },
+    settings: { optimizer: { enabled: true, runs: 200 } },
+  },
+  constructorArguments: '0xabcdef',
+};
+
+describe('explorerVerification', () => {
+  let explorer: StubExplorer;
+
+  afterEach(async () => {
+    await explorer.close();
+  });
+
+  it('should submit the standard-JSON input and poll until verified', async () => {
+    explorer = await startStubExplorer({ pendingChecks: 2 });
+    const client = new ExplorerVerificationClient({
+      apiUrl: explorer.apiUrl,
+      apiKey: 'test-key',
+      pollInterval: 1,
+      fetchFn: nodeFetch
+    });
+
+    const result = await client.verify(request);
+
+    expect(result.status).toBe('verified');
+    expect(result.guid).toBe('guid-123');
+    expect(explorer.submissions).toHaveLength(1);
+
+    const submission = explorer.submissions[0];
+    expect(submission.get('action')).toBe('verifysourcecode');
+    expect(submission.get('codeformat')).toBe('solidity-standard-json-input');
+    expect(submission.get('contractname')).toBe('contract.sol:BasicToken');
+    expect(submission.get('compilerversion')).toBe('v0.8.30+commit.73712a01');
+    expect(submission.get('constructorArguements')).toBe('abcdef');
+    expect(JSON.parse(submission.get('sourceCode') || '')).toEqual(request.standardJsonInput);
+
+    expect(explorer.statusChecks).toHaveLength(3);
+    expect(explorer.statusChecks[0].get('guid')).toBe('guid-123');
+    expect(explorer.statusChecks[0].get('apikey')).toBe('test-key');
+  });
+
+  it('should report failure when the explorer cannot match the bytecode', async () => {
+    explorer = await startStubExplorer({ finalResult: 'Fail - Unable to verify' });
+    const client = new ExplorerVerificationClient({ apiUrl: explorer.apiUrl, pollInterval: 1, fetchFn: nodeFetch });
+
+    const result = await client.verify(request);
+
+    expect(result.status).toBe('failed');
+    expect(result.message).toBe('Fail - Unable to verify');
+  });
+
+  it('should treat an already verified contract as verified without polling', async () => {
+    explorer = await startStubExplorer({
+      submitResponse: { status: '0', message: 'NOTOK', result: 'Contract source code already verified' },
+    });
+    const client = new ExplorerVerificationClient({ apiUrl: explorer.apiUrl, pollInterval: 1, fetchFn: nodeFetch });
+
+    const result = await client.verify(request);
+
+    expect(result.status).toBe('verified');
+    expect(explorer.statusChecks).toHaveLength(0);
+  });
+
+  it('should reject submissions refused by the explorer', async () => {
+    explorer = await startStubExplorer({
+      submitResponse: { status: '0', message: 'NOTOK', result: 'Invalid API Key' },
+    });
+    const client = new ExplorerVerificationClient({ apiUrl: explorer.apiUrl, pollInterval: 1, fetchFn: nodeFetch });
+
+    await expect(client.verify(request)).rejects.toThrow('Verification submission rejected: Invalid API Key');
+  });
+
+  it('should stop polling after the configured number of attempts', async () => {
+    explorer = await startStubExplorer({ pendingChecks: 10 });
+    const client = new ExplorerVerificationClient({
+      apiUrl: explorer.apiUrl,
+      pollInterval: 1,
+      maxAttempts: 3,
+      fetchFn: nodeFetch
+    });
+
+    const result = await client.verify(request);
+
+    expect(result.status).toBe('pending');
+    expect(explorer.statusChecks).toHaveLength(3);
+  });
+
+  it('should use the explorer API key from the server environment', async () => {
+    explorer = await startStubExplorer({});
+    process.env.BSCSCAN_API_KEY = 'server-key';
+
+    try {
+      const client = getExplorerClient(56, { apiUrl: explorer.apiUrl, pollInterval: 1, fetchFn: nodeFetch });
+      await client!.verify(request);
+
+      expect(explorer.submissions[0].get('apikey')).toBe('server-key');
+      expect(getExplorerClient(31337)).toBeNull();
+    } finally {
+      delete process.env.BSCSCAN_API_KEY;
+    }
+  });
+});
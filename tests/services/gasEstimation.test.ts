@@ -0,0 +1,58 @@
+import { ethers } from 'ethers';
+import { getFeeTierEstimates, getNetworkFees } from '../../src/services/gasEstimation';
+
+const gwei = (value: number) => ethers.toQuantity(ethers.parseUnits(String(value), 'gwei'));
+
+// Three blocks 12 seconds apart; the middle one is empty
+const feeHistory = {
+  oldestBlock: '0x64',
+  baseFeePerGas: [gwei(10), gwei(11), gwei(12), gwei(20)],
+  gasUsedRatio: [0.5, 0, 0.9],
+  reward: [[gwei(1), gwei(2), gwei(3)], ['0x0', '0x0', '0x0'], [gwei(1), gwei(2), gwei(5)]]
+};
+
+const stubProvider = (history: unknown) => ({
+  send: async (method: string, params: unknown[]) => {
+    if (method === 'eth_feeHistory') {
+      if (!history) throw new Error('Method not found');
+      return history;
+    }
+    if (method === 'eth_getBlockByNumber') return { timestamp: params[0] === '0x64' ? '0x0' : '0x18' };
+    if (method === 'eth_gasPrice') return gwei(5);
+    throw new Error(`Unexpected ${method}`);
+  }
+}) as unknown as ethers.JsonRpcApiProvider;
+
+describe('gasEstimation', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should price tiers at the next base fee plus recent tips', async () => {
+    const fees = await getNetworkFees(stubProvider(feeHistory));
+
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(fees.eip1559).toBe(true);
+    expect(fees.blockTime).toBe(12);
+    expect(fees.tiers.slow.expectedGasPrice).toBe(ethers.parseUnits('21', 'gwei'));
+    expect(fees.tiers.fast.maxPriorityFeePerGas).toBe(ethers.parseUnits('5', 'gwei'));
+    expect(fees.tiers.normal.maxFeePerGas).toBe(ethers.parseUnits('42', 'gwei'));
+
+    const tiers = getFeeTierEstimates(BigInt(1000000), fees, 2000, '1-3 minutes');
+    expect(tiers.map(tier => tier.gasCost)).toEqual(['0.021', '0.022', '0.025']);
+    expect(tiers[1]).toMatchObject({ gasCostUsd: 44, timeEstimate: '~36 seconds' });
+  });
+
+  it('should use the legacy gas price without fee history', async () => {
+    const fees = await getNetworkFees(stubProvider(null));
+    const [, normal] = getFeeTierEstimates(BigInt(1000000), fees, null, '1-3 minutes');
+
+    expect(console.warn).toHaveBeenCalledWith('eth_feeHistory is not supported, using the legacy gas price:', expect.any(Error));
+    expect(fees.eip1559).toBe(false);
+    expect(normal).toMatchObject({ gasCost: '0.005', gasCostUsd: null, timeEstimate: '1-3 minutes' });
+  });
+});
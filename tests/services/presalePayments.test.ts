@@ -0,0 +1,27 @@
+import { getApprovalAmounts, getListingTokenAmount, getPaymentSymbol } from '../../src/services/presalePayments';
+import { PresaleConfig } from '../../src/types/presale';
+
+const USDT = { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 };
+
+const config = {
+  saleConfiguration: { hardCap: '50000', tokenPrice: '100', paymentToken: USDT },
+  autoListingConfig: { enabled: true, listingPrice: '80', lpBaseTokenPercentage: 60, lockDuration: 180 },
+  network: { symbol: 'ETH' }
+} as unknown as PresaleConfig;
+
+describe('presalePayments', () => {
+  it('should reset leftover allowances before approving a purchase', () => {
+    expect(getApprovalAmounts(BigInt(0), BigInt(500))).toEqual([BigInt(500)]);
+    expect(getApprovalAmounts(BigInt(200), BigInt(500))).toEqual([BigInt(0), BigInt(500)]);
+    expect(getApprovalAmounts(BigInt(500), BigInt(500))).toEqual([]);
+  });
+
+  it('should price listings in the payment token', () => {
+    const native = { ...config, saleConfiguration: { ...config.saleConfiguration, paymentToken: undefined } };
+
+    expect(getPaymentSymbol(config)).toBe('USDT');
+    expect(getPaymentSymbol(native)).toBe('ETH');
+    expect(getListingTokenAmount(config)).toBe(2_400_000);
+    expect(getListingTokenAmount({ ...config, autoListingConfig: { ...config.autoListingConfig!, enabled: false } })).toBe(0);
+  });
+});
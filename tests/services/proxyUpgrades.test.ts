@@ -0,0 +1,50 @@
+import { ethers } from 'ethers';
+import { StorageLayout, compareStorageLayouts, getImplementationAddress } from '../../src/services/proxyUpgrades';
+
+const IMPLEMENTATION = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+const TYPES = {
+  t_uint256: { label: 'uint256', numberOfBytes: '32', encoding: 'inplace' },
+  t_uint8: { label: 'uint8', numberOfBytes: '1', encoding: 'inplace' },
+  t_mapping: { label: 'mapping(address => bool)', numberOfBytes: '32', encoding: 'mapping' }
+};
+
+const layout = (...variables: Array<[string, string, string]>): StorageLayout => ({
+  storage: variables.map(([label, slot, type]) => ({ label, slot, offset: 0, type, contract: 'Token.sol:Token' })),
+  types: TYPES
+});
+
+const CURRENT = layout(['_decimals', '0', 't_uint8'], ['_maxSupply', '1', 't_uint256']);
+
+const stubProvider = (value: string) => ({
+  getStorage: async () => value
+}) as unknown as ethers.Provider;
+
+describe('proxyUpgrades', () => {
+  it('should read the implementation from the ERC-1967 slot', async () => {
+    expect(await getImplementationAddress(IMPLEMENTATION, stubProvider(ethers.zeroPadValue(IMPLEMENTATION, 32)))).toBe(IMPLEMENTATION);
+    expect(await getImplementationAddress(IMPLEMENTATION, stubProvider(ethers.ZeroHash))).toBeNull();
+  });
+
+  it('should accept variables appended after the current layout', () => {
+    const next = layout(['_decimals', '0', 't_uint8'], ['_maxSupply', '1', 't_uint256'], ['_blacklisted', '2', 't_mapping']);
+
+    expect(compareStorageLayouts(CURRENT, next)).toEqual([]);
+  });
+
+  it('should report moved, replaced, removed and retyped variables', () => {
+    expect(compareStorageLayouts(CURRENT, layout(['_blacklisted', '0', 't_mapping'], ['_decimals', '1', 't_uint8']))).toEqual([
+      { variable: '_decimals', message: 'Slot 0 is now used by _blacklisted' },
+      { variable: '_maxSupply', message: 'Slot 1 is now used by _decimals' }
+    ]);
+    expect(compareStorageLayouts(CURRENT, layout(['_maxSupply', '2', 't_uint256'], ['_decimals', '0', 't_uint8']))).toEqual([
+      { variable: '_maxSupply', message: 'Moved from slot 1 to slot 2' }
+    ]);
+    expect(compareStorageLayouts(CURRENT, layout(['_decimals', '0', 't_uint8']))).toEqual([
+      { variable: '_maxSupply', message: 'Removed from slot 1' }
+    ]);
+    expect(compareStorageLayouts(CURRENT, layout(['_decimals', '0', 't_uint256'], ['_maxSupply', '1', 't_uint256']))).toEqual([
+      { variable: '_decimals', message: 'Type changed from uint8 to uint256' }
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { ethers } from 'ethers';
+import { buildSafeTransactionBatch, getSafeInfo, isSafeOwner } from '../../src/services/safeTransactions';
+
+const SAFE_ADDRESS = '0x41675C099F32341bf84BFc5382aF534df5C7461a';
+const OWNERS = ['0x742D35Cc6634c0532925A3b8d4C9Db96590c6C8c', '0x8ba1f109551bD432803012645Ac136ddd64DBA72'];
+
+const safeInterface = new ethers.Interface([
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)'
+]);
+
+// Answers eth_call with Safe owner data when `code` is deployed at the address
+const stubProvider = (code: string) => ({
+  getCode: async () => code,
+  call: async (tx: { data: string }) => {
+    const fragment = safeInterface.getFunction(tx.data.slice(0, 10))!;
+    return safeInterface.encodeFunctionResult(fragment, fragment.name === 'getOwners' ? [OWNERS] : [2]);
+  }
+}) as unknown as ethers.Provider;
+
+describe('safeTransactions', () => {
+  it('should read owners and threshold from a Safe', async () => {
+    const safe = await getSafeInfo(SAFE_ADDRESS.toLowerCase(), stubProvider('0x6080'));
+
+    expect(safe).toEqual({ address: SAFE_ADDRESS, threshold: 2, owners: OWNERS });
+    expect(isSafeOwner(safe!, OWNERS[1].toLowerCase())).toBe(true);
+    expect(isSafeOwner(safe!, SAFE_ADDRESS)).toBe(false);
+  });
+
+  it('should not treat wallets as Safes', async () => {
+    expect(await getSafeInfo(OWNERS[0], stubProvider('0x'))).toBeNull();
+  });
+
+  it('should export queued calls in the Transaction Builder batch format', () => {
+    const data = new ethers.Interface(['function pause()']).encodeFunctionData('pause');
+    const batch = buildSafeTransactionBatch(137, SAFE_ADDRESS, [
+      { to: OWNERS[0], value: '0', data, description: 'Pause transfers' }
+    ], 'TKN admin actions', OWNERS[1]);
+
+    expect(batch).toMatchObject({
+      version: '1.0',
+      chainId: '137',
+      meta: {
+        name: 'TKN admin actions',
+        description: 'Pause transfers',
+        createdFromSafeAddress: SAFE_ADDRESS,
+        createdFromOwnerAddress: OWNERS[1]
+      },
+      transactions: [{ to: OWNERS[0], value: '0', data, contractMethod: null, contractInputsValues: null }]
+    });
+  });
+});
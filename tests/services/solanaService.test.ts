@@ -0,0 +1,414 @@
+/**
+ * @jest-environment node
+ */
+import { Connection, Keypair, PublicKey, Signer, Transaction } from '@solana/web3.js';
+import {
+  MintLayout,
+  MINT_SIZE,
+  ACCOUNT_SIZE,
+  AccountType,
+  ExtensionType,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TransferFeeConfigLayout,
+  InterestBearingMintConfigStateLayout,
+  MetadataPointerLayout,
+  getMintLen
+} from '@solana/spl-token';
+import { pack } from '@solana/spl-token-metadata';
+import {
+  Key,
+  Metadata,
+  CreateMetadataAccountV3Struct,
+  UpdateMetadataAccountV2Struct
+} from '@metaplex-foundation/mpl-token-metadata';
+import { solanaService } from '../../src/services/solanaService';
+import { TOKEN_METADATA_PROGRAM_ID, getMetadataAddress } from '../../src/services/solanaMetadata';
+import { SOLANA_DEVNET } from '../../src/config/solanaNetworks';
+import { SolanaTokenConfig } from '../../src/types/solana';
+
+const payer = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+
+// Account fixtures in the same layout solana-test-validator would return
+const mintAccount = () => {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 1,
+    mintAuthority: payer.publicKey,
+    supply: BigInt(1000000000),
+    decimals: 9,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default
+  }, data);
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1461600, executable: false, rentEpoch: 0 };
+};
+
+// Token-2022 mint: base mint, padding to the account size, account type, then TLV extension entries
+const token2022MintAccount = (address: PublicKey) => {
+  const entry = (type: ExtensionType, data: Uint8Array) => {
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(type, 0);
+    header.writeUInt16LE(data.length, 2);
+    return Buffer.concat([header, Buffer.from(data)]);
+  };
+  const encode = <T>(layout: { span: number; encode: (value: T, buffer: Buffer) => number }, value: T) => {
+    const buffer = Buffer.alloc(layout.span);
+    layout.encode(value, buffer);
+    return buffer;
+  };
+
+  const base = mintAccount().data;
+  const transferFee = { epoch: BigInt(0), maximumFee: BigInt(5000000000), transferFeeBasisPoints: 250 };
+  const data = Buffer.concat([
+    base,
+    Buffer.alloc(ACCOUNT_SIZE - MINT_SIZE),
+    Buffer.from([AccountType.Mint]),
+    entry(ExtensionType.TransferFeeConfig, encode(TransferFeeConfigLayout, {
+      transferFeeConfigAuthority: payer.publicKey,
+      withdrawWithheldAuthority: payer.publicKey,
+      withheldAmount: BigInt(42),
+      olderTransferFee: transferFee,
+      newerTransferFee: transferFee
+    })),
+    // The timestamps are typed as bigint but encoded from plain numbers
+    entry(ExtensionType.InterestBearingConfig, encode(InterestBearingMintConfigStateLayout, {
+      rateAuthority: payer.publicKey,
+      initializationTimestamp: 0 as unknown as bigint,
+      preUpdateAverageRate: 500,
+      lastUpdateTimestamp: 0 as unknown as bigint,
+      currentRate: 500
+    })),
+    entry(ExtensionType.MetadataPointer, encode(MetadataPointerLayout, {
+      authority: payer.publicKey,
+      metadataAddress: address
+    })),
+    // pack returns a read-only view
+    entry(ExtensionType.TokenMetadata, Uint8Array.from(pack({
+      updateAuthority: payer.publicKey,
+      mint: address,
+      name: 'Fee Token',
+      symbol: 'FEE',
+      uri: 'https://api.example.com/api/solana/metadata/fee.json',
+      additionalMetadata: []
+    })))
+  ]);
+  return { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 4000000, executable: false, rentEpoch: 0 };
+};
+
+const metadataAccount = (isMutable: boolean) => {
+  const [data] = Metadata.fromArgs({
+    key: Key.MetadataV1,
+    updateAuthority: payer.publicKey,
+    mint,
+    data: {
+      name: 'Test Token'.padEnd(32, '\0'),
+      symbol: 'TEST'.padEnd(10, '\0'),
+      uri: 'https://api.example.com/api/solana/metadata/test.json'.padEnd(200, '\0'),
+      sellerFeeBasisPoints: 0,
+      creators: null
+    },
+    primarySaleHappened: false,
+    isMutable,
+    editionNonce: null,
+    tokenStandard: null,
+    collection: null,
+    uses: null,
+    collectionDetails: null,
+    programmableConfig: null
+  }).serialize();
+  return { data, owner: TOKEN_METADATA_PROGRAM_ID, lamports: 5616720, executable: false, rentEpoch: 0 };
+};
+
+const createMockConnection = (accounts: Record<string, unknown>) => {
+  const sent: Transaction[] = [];
+  const connection = {
+    commitment: 'confirmed',
+    getAccountInfo: jest.fn(async (address: PublicKey) => accounts[address.toBase58()] || null),
+    getMinimumBalanceForRentExemption: jest.fn(async (size: number) => size * 6960),
+    getLatestBlockhash: jest.fn(async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000
+    })),
+    sendTransaction: jest.fn(async (transaction: Transaction, signers: Keypair[]) => {
+      transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+      transaction.sign(...signers);
+      sent.push(transaction);
+      return 'real-signature';
+    }),
+    confirmTransaction: jest.fn(async () => ({ value: { err: null } }))
+  };
+  return { connection: connection as unknown as Connection, sent };
+};
+
+const useConnection = (connection: Connection) => {
+  (solanaService as unknown as { connection: Connection }).connection = connection;
+};
+
+describe('SolanaService', () => {
+  const config: SolanaTokenConfig = {
+    name: 'Test Token',
+    symbol: 'TEST',
+    decimals: 9,
+    initialSupply: '1000',
+    freezeAuthority: false,
+    metadata: { enabled: true, description: 'A test token' },
+    network: SOLANA_DEVNET
+  };
+
+  // Token creation logs the new mint
+  let consoleLog: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLog.mockRestore();
+  });
+
+  it('should create the metadata account in the token creation transaction', async () => {
+    const { connection, sent } = createMockConnection({});
+    useConnection(connection);
+    solanaService.setMetadataApiUrl('https://api.example.com/');
+
+    const result = await solanaService.createToken(config, payer.secretKey);
+
+    expect(result.transactionSignature).toBe('real-signature');
+    expect(sent).toHaveLength(1);
+    expect(consoleLog).toHaveBeenCalledWith('Creating token mint:', result.mint);
+
+    const metadataIx = sent[0].instructions[sent[0].instructions.length - 1];
+    expect(metadataIx.programId.equals(TOKEN_METADATA_PROGRAM_ID)).toBe(true);
+    expect(result.metadataAddress).toBe(getMetadataAddress(new PublicKey(result.mint)).toBase58());
+    expect(metadataIx.keys[0].pubkey.toBase58()).toBe(result.metadataAddress);
+
+    const [args] = CreateMetadataAccountV3Struct.deserialize(metadataIx.data);
+    expect(args.createMetadataAccountArgsV3.data.name).toBe('Test Token');
+    expect(args.createMetadataAccountArgsV3.data.symbol).toBe('TEST');
+    expect(args.createMetadataAccountArgsV3.data.uri).toBe(
+      `https://api.example.com/api/solana/metadata/${result.mint}.json`
+    );
+    expect(args.createMetadataAccountArgsV3.isMutable).toBe(true);
+  });
+
+  it('should skip metadata when disabled', async () => {
+    const { connection, sent } = createMockConnection({});
+    useConnection(connection);
+
+    const result = await solanaService.createToken(
+      { ...config, metadata: { enabled: false } },
+      payer.secretKey
+    );
+
+    expect(result.metadataAddress).toBeUndefined();
+    expect(sent[0].instructions.some(ix => ix.programId.equals(TOKEN_METADATA_PROGRAM_ID))).toBe(false);
+  });
+
+  it('should refuse metadata served from a local API on public clusters', async () => {
+    const { connection } = createMockConnection({});
+    useConnection(connection);
+    solanaService.setMetadataApiUrl('http://localhost:3001');
+
+    try {
+      await expect(solanaService.createToken(config, payer.secretKey)).rejects.toThrow('Set VITE_PUBLIC_API_URL');
+
+      const withUri = await solanaService.createToken(
+        { ...config, metadata: { ...config.metadata, uri: 'https://example.com/test.json' } },
+        payer.secretKey
+      );
+      expect(withUri.transactionSignature).toBe('real-signature');
+
+      const localCluster = { ...SOLANA_DEVNET, endpoint: 'http://127.0.0.1:8899' };
+      const local = await solanaService.createToken({ ...config, network: localCluster }, payer.secretKey);
+      expect(local.transactionSignature).toBe('real-signature');
+    } finally {
+      solanaService.setMetadataApiUrl('https://api.example.com/');
+    }
+  });
+
+  it('should reject names longer than the metadata program allows', async () => {
+    const { connection } = createMockConnection({});
+    useConnection(connection);
+
+    await expect(
+      solanaService.createToken({ ...config, name: 'x'.repeat(33) }, payer.secretKey)
+    ).rejects.toThrow('Metadata name must be 1-32 characters');
+  });
+
+  it('should hand the creation transaction to the wallet with the mint as co-signer', async () => {
+    const { connection, sent } = createMockConnection({});
+    useConnection(connection);
+    const wallet = Keypair.generate().publicKey;
+    const signAndSend = jest.fn<Promise<string>, [Transaction, Signer[]]>().mockResolvedValue('wallet-signature');
+
+    const result = await solanaService.createTokenWithWallet(config, wallet, signAndSend);
+
+    expect(result.transactionSignature).toBe('wallet-signature');
+    expect(sent).toHaveLength(0);
+    expect(signAndSend).toHaveBeenCalledTimes(1);
+
+    const [transaction, signers] = signAndSend.mock.calls[0];
+    expect(transaction.feePayer?.equals(wallet)).toBe(true);
+    expect(transaction.recentBlockhash).toBeDefined();
+    expect(transaction.signatures.every(entry => entry.signature === null)).toBe(true);
+    expect(signers).toHaveLength(1);
+    expect(signers[0].publicKey.toBase58()).toBe(result.mint);
+    expect(transaction.instructions.map(ix => ix.programId.toBase58())).toContain(TOKEN_PROGRAM_ID.toBase58());
+  });
+
+  it('should decode name, symbol and URI from the metadata account', async () => {
+    const { connection } = createMockConnection({
+      [mint.toBase58()]: mintAccount(),
+      [getMetadataAddress(mint).toBase58()]: metadataAccount(true)
+    });
+    useConnection(connection);
+
+    const info = await solanaService.getTokenInfo(mint.toBase58());
+
+    expect(info.name).toBe('Test Token');
+    expect(info.symbol).toBe('TEST');
+    expect(info.onChainMetadata).toEqual({
+      address: getMetadataAddress(mint).toBase58(),
+      name: 'Test Token',
+      symbol: 'TEST',
+      uri: 'https://api.example.com/api/solana/metadata/test.json',
+      updateAuthority: payer.publicKey.toBase58(),
+      isMutable: true,
+      source: 'metaplex'
+    });
+  });
+
+  it('should build update and lock transactions for the update authority', async () => {
+    const { connection } = createMockConnection({
+      [getMetadataAddress(mint).toBase58()]: metadataAccount(true)
+    });
+    useConnection(connection);
+
+    const update = await solanaService.buildUpdateMetadataTransaction(
+      mint.toBase58(),
+      payer.publicKey,
+      { name: 'Renamed Token' }
+    );
+    const [updateArgs] = UpdateMetadataAccountV2Struct.deserialize(update.instructions[0].data);
+    expect(update.feePayer?.equals(payer.publicKey)).toBe(true);
+    expect(updateArgs.updateMetadataAccountArgsV2.data?.name).toBe('Renamed Token');
+    expect(updateArgs.updateMetadataAccountArgsV2.data?.symbol).toBe('TEST');
+
+    const lock = await solanaService.buildLockMetadataTransaction(mint.toBase58(), payer.publicKey);
+    const [lockArgs] = UpdateMetadataAccountV2Struct.deserialize(lock.instructions[0].data);
+    expect(lockArgs.updateMetadataAccountArgsV2.isMutable).toBe(false);
+    expect(lockArgs.updateMetadataAccountArgsV2.data).toBeNull();
+  });
+
+  it('should refuse to update locked metadata', async () => {
+    const { connection } = createMockConnection({
+      [getMetadataAddress(mint).toBase58()]: metadataAccount(false)
+    });
+    useConnection(connection);
+
+    await expect(
+      solanaService.buildUpdateMetadataTransaction(mint.toBase58(), payer.publicKey, { name: 'New' })
+    ).rejects.toThrow('Token metadata is locked');
+  });
+
+  describe('Token-2022', () => {
+    const token2022Config: SolanaTokenConfig = {
+      ...config,
+      name: 'Fee Token',
+      symbol: 'FEE',
+      tokenProgram: 'token-2022',
+      extensions: {
+        transferFee: { enabled: true, feeBasisPoints: 250, maxFee: '5' },
+        interestBearing: { enabled: true, rate: 500 },
+        nonTransferable: false,
+        permanentDelegate: { enabled: false },
+        metadataOnMint: true
+      }
+    };
+
+    it('should initialize extensions before the mint and store metadata on the mint', async () => {
+      const { connection, sent } = createMockConnection({});
+      useConnection(connection);
+
+      const result = await solanaService.createToken(token2022Config, payer.secretKey);
+      const instructions = sent[0].instructions;
+
+      expect(result.tokenProgram).toBe('token-2022');
+      expect(result.metadataAddress).toBe(result.mint);
+      expect(instructions.some(ix => ix.programId.equals(TOKEN_METADATA_PROGRAM_ID))).toBe(false);
+
+      // createAccount, 3 extension initializers, InitializeMint2, token metadata, ATA, MintTo
+      expect(instructions).toHaveLength(8);
+      expect(instructions.slice(1, 6).every(ix => ix.programId.equals(TOKEN_2022_PROGRAM_ID))).toBe(true);
+      expect(instructions[1].data[0]).toBe(26); // TransferFeeExtension
+      expect(instructions[4].data[0]).toBe(20); // InitializeMint2
+
+      // The account is created at the fixed extension size but funded for the metadata that follows
+      const space = Number(instructions[0].data.readBigUInt64LE(12));
+      const lamports = Number(instructions[0].data.readBigUInt64LE(4));
+      expect(space).toBe(getMintLen([
+        ExtensionType.TransferFeeConfig,
+        ExtensionType.InterestBearingConfig,
+        ExtensionType.MetadataPointer
+      ]));
+      expect(lamports).toBeGreaterThan(space * 6960);
+    });
+
+    it('should reject transfer fees above the EVM FeeToken ceiling', async () => {
+      const { connection } = createMockConnection({});
+      useConnection(connection);
+
+      await expect(solanaService.createToken({
+        ...token2022Config,
+        extensions: { ...token2022Config.extensions!, transferFee: { enabled: true, feeBasisPoints: 1500, maxFee: '5' } }
+      }, payer.secretKey)).rejects.toThrow('Transfer fee must be between 0 and 1000 basis points');
+    });
+
+    it('should decode extensions and on-mint metadata', async () => {
+      const { connection } = createMockConnection({
+        [mint.toBase58()]: token2022MintAccount(mint)
+      });
+      useConnection(connection);
+
+      const info = await solanaService.getTokenInfo(mint.toBase58());
+
+      expect(info.tokenProgram).toBe('token-2022');
+      expect(info.name).toBe('Fee Token');
+      expect(info.onChainMetadata).toMatchObject({
+        address: mint.toBase58(),
+        symbol: 'FEE',
+        updateAuthority: payer.publicKey.toBase58(),
+        isMutable: true,
+        source: 'token-2022'
+      });
+      expect(info.extensions).toEqual({
+        nonTransferable: false,
+        transferFee: {
+          feeBasisPoints: 250,
+          maxFee: '5000000000',
+          withheldAmount: '42',
+          transferFeeConfigAuthority: payer.publicKey.toBase58(),
+          withdrawWithheldAuthority: payer.publicKey.toBase58()
+        },
+        interestBearing: { currentRate: 500, rateAuthority: payer.publicKey.toBase58() },
+        metadataPointer: { authority: payer.publicKey.toBase58(), metadataAddress: mint.toBase58() }
+      });
+    });
+
+    it('should only let the rate authority update the interest rate', async () => {
+      const { connection } = createMockConnection({
+        [mint.toBase58()]: token2022MintAccount(mint)
+      });
+      useConnection(connection);
+
+      const transaction = await solanaService.buildUpdateInterestRateTransaction(mint.toBase58(), payer.publicKey, 800);
+      expect(transaction.instructions[0].programId.equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+
+      await expect(
+        solanaService.buildUpdateInterestRateTransaction(mint.toBase58(), Keypair.generate().publicKey, 800)
+      ).rejects.toThrow('Only the rate authority can change the interest rate');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { ethers } from 'ethers';
+import { encodeFactoryConstructorArgs, isValidVanityPrefix, searchVanitySalt, toSalt } from '../../src/services/vanityAddress';
+
+const FACTORY = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+const INIT_CODE_HASH = ethers.keccak256('0x6080');
+const OWNER = '0x742D35Cc6634c0532925A3b8d4C9Db96590c6C8c';
+
+describe('vanityAddress', () => {
+  it('should find a salt whose CREATE2 address starts with the prefix', () => {
+    const match = searchVanitySalt(FACTORY, INIT_CODE_HASH, 'AB', ethers.ZeroHash, 10000);
+
+    expect(match).not.toBeNull();
+    expect(match!.address.toLowerCase().startsWith('0xab')).toBe(true);
+    expect(match!.address).toBe(ethers.getCreate2Address(FACTORY, match!.salt, INIT_CODE_HASH));
+  });
+
+  it('should give up after the requested number of attempts', () => {
+    expect(searchVanitySalt(FACTORY, INIT_CODE_HASH, 'abcdef01', ethers.ZeroHash, 10)).toBeNull();
+  });
+
+  it('should encode constructor arguments without the salt', () => {
+    const args = ['Vanity', 'VAN', 18, '1000000', '0', OWNER];
+    const types = ['string', 'string', 'uint8', 'uint256', 'uint256', 'address'];
+
+    expect(encodeFactoryConstructorArgs('BurnableToken', args)).toBe(ethers.AbiCoder.defaultAbiCoder().encode(types, args));
+    expect(() => encodeFactoryConstructorArgs('FeeToken', args)).toThrow('cannot be created through the factory');
+  });
+
+  it('should accept hex salts and hash phrases', () => {
+    expect(toSalt(ethers.ZeroHash)).toBe(ethers.ZeroHash);
+    expect(toSalt('my project')).toBe(ethers.id('my project'));
+    expect(isValidVanityPrefix('c0ffee')).toBe(true);
+    expect(isValidVanityPrefix('0xc0ffee')).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { ethers } from 'ethers';
+import {
+  getTotalVestingAmount,
+  getVestingAllocations,
+  getVestedAmountAt,
+  getVestingBatchSize,
+  getVestingChart,
+  getVestingFundingIssue,
+  parseVestingImport
+} from '../../src/services/vestingService';
+import { TokenConfig } from '../../src/types';
+import { VestingSchedule } from '../../src/types/tokenManagement';
+
+const DEPLOYER = '0x1111111111111111111111111111111111111111';
+const TEAM = '0x2222222222222222222222222222222222222222';
+const MARKETING = '0x3333333333333333333333333333333333333333';
+
+const config = {
+  name: 'Vested',
+  symbol: 'VST',
+  decimals: 18,
+  initialSupply: '1000000',
+  maxSupply: '',
+  features: {
+    burnable: false,
+    mintable: false,
+    transferFees: { enabled: false, percentage: 0, recipient: '' },
+    holderRedistribution: { enabled: false, percentage: 0 }
+  },
+  vesting: [
+    { category: 'team', percentage: 12.5, startDate: '2030-01-01', duration: 365, enabled: true, beneficiary: TEAM },
+    { category: 'marketing', percentage: 5, startDate: '2030-02-01', duration: 360, enabled: true, beneficiary: MARKETING, tgePercentage: 10, cliff: 90, unlockInterval: 30, revocable: false },
+    { category: 'advertising', percentage: 10, startDate: '', duration: 90, enabled: false }
+  ]
+} as unknown as TokenConfig;
+
+describe('vestingService', () => {
+  it('should turn enabled categories into schedules', () => {
+    const allocations = getVestingAllocations(config);
+
+    expect(allocations).toEqual([
+      {
+        category: 'team', beneficiary: TEAM, amount: ethers.parseEther('125000'), tgeAmount: BigInt(0),
+        startTime: 1893456000, cliffDuration: 0, duration: 365 * 86400, slicePeriod: 1, revocable: true
+      },
+      {
+        category: 'marketing', beneficiary: MARKETING, amount: ethers.parseEther('50000'), tgeAmount: ethers.parseEther('5000'),
+        startTime: 1896134400, cliffDuration: 90 * 86400, duration: 360 * 86400, slicePeriod: 30 * 86400, revocable: false
+      }
+    ]);
+    expect(getTotalVestingAmount(allocations)).toBe(ethers.parseEther('175000'));
+    expect(getVestingFundingIssue(config, DEPLOYER)).toBeNull();
+  });
+
+  it('should explain allocations that cannot be funded', () => {
+    const lateCliff = { ...config, vesting: config.vesting.map(vest => ({ ...vest, cliff: 400 })) };
+    const taxed = { ...config, features: { ...config.features, transferFees: { enabled: true, percentage: 2, recipient: DEPLOYER } } };
+
+    expect(getVestingFundingIssue(lateCliff, DEPLOYER)).toMatch(/must fit in its duration/);
+    expect(getVestingFundingIssue(taxed, DEPLOYER)).toMatch(/Transfer fees/);
+    expect(getVestingFundingIssue({ ...config, initialOwner: TEAM }, DEPLOYER)).toMatch(/initial owner/);
+  });
+
+  it('should read cap tables with or without a header', () => {
+    const [team, marketing, broken] = parseVestingImport([
+      ['Beneficiary', 'Amount', 'Start Date', 'Duration', 'Cliff', 'TGE', 'Unlock Interval', 'Revocable'],
+      [TEAM, '1000.5', '2030-01-01', '360', '90', '10', '30', 'no'],
+      [MARKETING, 250, new Date(Date.UTC(2030, 1, 1)), 30, '', '', '', true],
+      ['0x123', '1', '2030-01-01', '30', '', '', '', '']
+    ], 18);
+
+    expect(team).toEqual({
+      line: 2,
+      schedule: {
+        beneficiary: TEAM, amount: '1000.5', tgePercentage: 10, startTime: 1893456000,
+        cliffDuration: 90 * 86400, duration: 360 * 86400, slicePeriod: 30 * 86400, revocable: false
+      },
+      error: undefined
+    });
+    expect(marketing.schedule).toMatchObject({ amount: '250', startTime: 1896134400, cliffDuration: 0, slicePeriod: 1, revocable: true });
+    expect(broken.error).toBe('Invalid beneficiary address');
+
+    const [row] = parseVestingImport([[TEAM, '1', '2030-01-01', '30', '60']], 18);
+    expect(row).toMatchObject({ line: 1, error: 'Cliff cannot be longer than the duration' });
+  });
+
+  it('should size batches to the block gas limit', async () => {
+    const provider = (gasLimit: bigint) => ({ getBlock: async () => ({ gasLimit }) }) as unknown as ethers.Provider;
+
+    expect(await getVestingBatchSize(provider(BigInt(30000000)))).toBe(57);
+    expect(await getVestingBatchSize(provider(BigInt(140000000)))).toBe(63);
+    expect(await getVestingBatchSize(provider(BigInt(400000)))).toBe(1);
+  });
+
+  it('should chart vesting steps and freeze revoked schedules', () => {
+    const schedule: VestingSchedule = {
+      id: 0, beneficiary: TEAM, totalAmount: '100', tgeAmount: '20', startTime: 1000, cliffDuration: 100,
+      duration: 400, slicePeriod: 100, releasedAmount: '0', vestedAmount: '0', releasableAmount: '0',
+      revocable: true, revoked: false
+    };
+    const amountAt = (time: number) => getVestingChart([schedule], 4).find(point => point.time === time)?.amount;
+
+    expect([999, 1000, 1099, 1100, 1299, 1300, 1400].map(amountAt)).toEqual([0, 20, 20, 40, 60, 80, 100]);
+    expect(getVestedAmountAt({ ...schedule, revoked: true, releasedAmount: '40' }, 1300)).toBe(40);
+    expect(getVestedAmountAt({ ...schedule, revoked: true, releasedAmount: '40' }, 1050)).toBe(20);
+  });
+});
@@ -1,8 +1,12 @@
 import '@testing-library/jest-dom';
 import { TextEncoder, TextDecoder } from 'util';
+import { randomUUID } from 'crypto';
+
+// Suites that need Node's own Buffer/Uint8Array (e.g. Solana) opt into the node environment
+const hasWindow = typeof window !== 'undefined';
 
 // Mock window.ethereum
-Object.defineProperty(window, 'ethereum', {
+if (hasWindow) Object.defineProperty(window, 'ethereum', {
   value: {
     isMetaMask: true,
     request: jest.fn(),
@@ -36,7 +40,7 @@ const localStorageMock = (() => {
   };
 })();
 
-Object.defineProperty(window, 'localStorage', {
+if (hasWindow) Object.defineProperty(window, 'localStorage', {
   value: localStorageMock,
 });
 
@@ -44,6 +48,9 @@ Object.defineProperty(window, 'localStorage', {
 global.TextEncoder = TextEncoder;
 global.TextDecoder = TextDecoder;
 
+// jsdom's crypto has no randomUUID
+if (hasWindow && !window.crypto.randomUUID) Object.defineProperty(window.crypto, 'randomUUID', { value: randomUUID });
+
 // Mock ResizeObserver
 global.ResizeObserver = jest.fn().mockImplementation(() => ({
   observe: jest.fn(),